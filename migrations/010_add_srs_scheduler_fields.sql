@@ -0,0 +1,35 @@
+-- Migration: Add pluggable SRS scheduler fields
+-- Description: Four-grade reviews, SM-2/FSRS scheduling state and per-user desired retention
+-- Date: 2025-09-16
+
+-- Per-user scheduler preferences
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS srs_algorithm VARCHAR(20) NOT NULL DEFAULT 'sm2'
+    CHECK (srs_algorithm IN ('sm2', 'fsrs')),
+  ADD COLUMN IF NOT EXISTS srs_desired_retention NUMERIC(4, 3) NOT NULL DEFAULT 0.9
+    CHECK (srs_desired_retention BETWEEN 0.7 AND 0.99);
+
+-- Scheduling state on each card
+ALTER TABLE user_vocabulary_deck
+  ADD COLUMN IF NOT EXISTS lapses INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS learning_step INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS stability DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS fsrs_difficulty DOUBLE PRECISION;
+
+-- Review log keeps the grade so history can be replayed under another algorithm
+ALTER TABLE user_vocabulary_reviews
+  ADD COLUMN IF NOT EXISTS rating VARCHAR(10)
+    CHECK (rating IN ('again', 'hard', 'good', 'easy')),
+  ADD COLUMN IF NOT EXISTS algorithm VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS previous_learning_status VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS new_learning_status VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS new_stability DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS new_difficulty DOUBLE PRECISION;
+
+-- Backfill grades for reviews recorded before four-grade answers
+UPDATE user_vocabulary_reviews
+SET rating = CASE WHEN is_correct THEN 'good' ELSE 'again' END
+WHERE rating IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_user_vocabulary_reviews_vocab_reviewed_at
+  ON user_vocabulary_reviews(vocabulary_id, reviewed_at);
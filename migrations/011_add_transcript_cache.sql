@@ -0,0 +1,32 @@
+-- Migration: Add transcript cache
+-- Description: Stores full YouTube caption tracks once per video and language so segment requests skip Innertube
+-- Date: 2025-09-18
+
+CREATE TABLE IF NOT EXISTS transcript_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id VARCHAR(20) NOT NULL,
+  -- Requested language, or 'auto' for the video's default track
+  language VARCHAR(20) NOT NULL DEFAULT 'auto',
+  -- Language YouTube actually returned
+  resolved_language VARCHAR(50),
+  segments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  segment_count INTEGER NOT NULL DEFAULT 0,
+  video_info JSONB,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_accessed_at TIMESTAMPTZ,
+  UNIQUE (video_id, language)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_cache_expires_at ON transcript_cache(expires_at);
+
+-- Written only by the server with the service role; readable by signed-in users
+ALTER TABLE transcript_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read transcript cache" ON transcript_cache
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- A user's loops over the same window reuse one transcripts row
+CREATE INDEX IF NOT EXISTS idx_transcripts_video_window
+  ON transcripts(video_id, start_time, end_time, language);
@@ -0,0 +1,15 @@
+-- Migration: Add tamper flag to group quiz results
+-- Description: Group submissions are graded on the server; flag results whose client-reported score disagrees
+-- Date: 2025-09-20
+
+ALTER TABLE group_quiz_results
+  ADD COLUMN IF NOT EXISTS tamper_flagged BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Lets group owners review flagged submissions per session
+CREATE INDEX IF NOT EXISTS idx_group_quiz_results_tamper_flagged
+  ON group_quiz_results (session_id)
+  WHERE tamper_flagged;
+
+-- Scores come only from the server's grading (service role); members must not write their own results
+DROP POLICY IF EXISTS "Users can insert their own quiz results" ON group_quiz_results;
+DROP POLICY IF EXISTS "Users can update their own quiz results" ON group_quiz_results;
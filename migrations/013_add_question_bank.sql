@@ -0,0 +1,69 @@
+-- Migration: Add question bank
+-- Description: Persistent, deduplicated store of generated questions that can be searched and reassembled into shared question sets
+-- Date: 2025-09-21
+
+CREATE TABLE IF NOT EXISTS question_bank (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- Entries saved from a group's sessions are visible to every member of that group.
+  -- They go with the group: clearing group_id could collide with the author's personal copy.
+  group_id UUID REFERENCES study_groups(id) ON DELETE CASCADE,
+  -- Full question as generated (options, answer key, explanation, context)
+  question JSONB NOT NULL,
+  question_text TEXT NOT NULL,
+  -- Lowercased, punctuation-free text used for deduplication
+  normalized_text TEXT NOT NULL,
+  kind VARCHAR(30) NOT NULL DEFAULT 'multiple_choice',
+  question_type VARCHAR(50),
+  difficulty VARCHAR(10) NOT NULL CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  source_loop_id TEXT,
+  source_video_title TEXT,
+  source_video_url TEXT,
+  -- Seconds into the source video the question refers to
+  source_timestamp DOUBLE PRECISION,
+  skill_tags TEXT[] NOT NULL DEFAULT '{}',
+  times_used INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  -- A question is deduplicated per author, group bank and source loop, so a group's copy
+  -- and generic stems from other videos don't collide with the author's personal entries
+  UNIQUE NULLS NOT DISTINCT (created_by, group_id, source_loop_id, normalized_text)
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_bank_created_by ON question_bank(created_by);
+CREATE INDEX IF NOT EXISTS idx_question_bank_group_id ON question_bank(group_id);
+CREATE INDEX IF NOT EXISTS idx_question_bank_source_loop ON question_bank(source_loop_id);
+CREATE INDEX IF NOT EXISTS idx_question_bank_filters ON question_bank(difficulty, kind, question_type);
+CREATE INDEX IF NOT EXISTS idx_question_bank_skill_tags ON question_bank USING GIN (skill_tags);
+
+ALTER TABLE question_bank ENABLE ROW LEVEL SECURITY;
+
+-- Only group owners and admins may put questions into a group's bank
+CREATE POLICY "Users can manage their own bank questions" ON question_bank
+  FOR ALL USING (created_by = auth.uid())
+  WITH CHECK (
+    created_by = auth.uid()
+    AND (
+      group_id IS NULL OR EXISTS (
+        SELECT 1 FROM study_group_members
+        WHERE study_group_members.group_id = question_bank.group_id
+        AND study_group_members.user_id = auth.uid()
+        AND study_group_members.role IN ('owner', 'admin')
+      )
+    )
+  );
+
+CREATE POLICY "Group members can read group bank questions" ON question_bank
+  FOR SELECT USING (
+    group_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM study_group_members
+      WHERE study_group_members.group_id = question_bank.group_id
+      AND study_group_members.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_question_bank_updated_at
+  BEFORE UPDATE ON question_bank
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
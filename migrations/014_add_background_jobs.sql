@@ -0,0 +1,81 @@
+-- Migration: Add background jobs
+-- Description: Postgres-backed job schedule with leases so recurring maintenance runs once across app instances
+-- Date: 2025-09-24
+
+-- One row per recurring job; the row doubles as the lock
+CREATE TABLE IF NOT EXISTS background_jobs (
+  name TEXT PRIMARY KEY,
+  description TEXT,
+  interval_seconds INTEGER NOT NULL CHECK (interval_seconds > 0),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_by TEXT,
+  locked_until TIMESTAMPTZ,
+  -- Consecutive failures; reset on success
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  last_run_at TIMESTAMPTZ,
+  last_success_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS background_job_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_name TEXT NOT NULL REFERENCES background_jobs(name) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  trigger TEXT NOT NULL DEFAULT 'schedule' CHECK (trigger IN ('schedule', 'manual')),
+  attempt INTEGER NOT NULL DEFAULT 1,
+  instance_id TEXT,
+  triggered_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  result JSONB,
+  error TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_background_job_runs_job_started
+  ON background_job_runs (job_name, started_at DESC);
+
+-- Jobs are only touched by the server with the service role key
+ALTER TABLE background_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE background_job_runs ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_background_jobs_updated_at ON background_jobs;
+CREATE TRIGGER update_background_jobs_updated_at
+  BEFORE UPDATE ON background_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Take the lease on a job if it is due (or forced) and nobody else holds it.
+-- The conditional UPDATE is atomic, so only one instance gets a row back.
+CREATE OR REPLACE FUNCTION claim_background_job(
+  p_name TEXT,
+  p_instance_id TEXT,
+  p_lease_seconds INTEGER,
+  p_force BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF background_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE background_jobs
+  SET locked_by = p_instance_id,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds),
+      last_run_at = NOW()
+  WHERE name = p_name
+    AND (p_force OR (enabled AND next_run_at <= NOW()))
+    AND (locked_until IS NULL OR locked_until < NOW())
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the scheduler (service role) may claim jobs
+REVOKE EXECUTE ON FUNCTION claim_background_job(TEXT, TEXT, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+INSERT INTO background_jobs (name, description, interval_seconds) VALUES
+  ('cleanup_expired_questions', 'Delete expired public question sets', 6 * 60 * 60),
+  ('expire_group_sessions', 'Mark group quiz sessions older than 24 hours as completed', 15 * 60),
+  ('send_session_reminders', 'Notify group members about sessions starting within the hour', 5 * 60),
+  ('reset_usage', 'Drop usage counters from past billing months', 24 * 60 * 60)
+ON CONFLICT (name) DO NOTHING;
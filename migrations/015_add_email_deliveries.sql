@@ -0,0 +1,45 @@
+-- Migration: Add email deliveries
+-- Description: Delivery log for outgoing notification emails, with retry scheduling
+-- Date: 2025-09-25
+
+-- One row per recipient per email. The rendered message is stored so retries
+-- resend exactly what was first attempted.
+CREATE TABLE IF NOT EXISTS email_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template TEXT NOT NULL,
+  recipient_email TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  text TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  transport TEXT,
+  message_id TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_pending
+  ON email_deliveries (next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_recipient
+  ON email_deliveries (recipient_email, created_at DESC);
+
+-- Only the server writes deliveries with the service role key
+ALTER TABLE email_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_email_deliveries_updated_at ON email_deliveries;
+CREATE TRIGGER update_email_deliveries_updated_at
+  BEFORE UPDATE ON email_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO background_jobs (name, description, interval_seconds) VALUES
+  ('retry_email_deliveries', 'Resend notification emails whose delivery failed', 5 * 60)
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,41 @@
+-- Migration: Add notification center
+-- Description: Let users read and manage their own social_notifications, stream inserts over realtime, and schedule retention cleanup
+-- Date: 2025-09-26
+
+CREATE INDEX IF NOT EXISTS idx_social_notifications_user_created
+  ON social_notifications (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_social_notifications_user_unread
+  ON social_notifications (user_id)
+  WHERE read IS NOT TRUE;
+
+-- Notifications are written by the server with the service role key; users
+-- only read, mark and delete their own
+ALTER TABLE social_notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own notifications" ON social_notifications;
+CREATE POLICY "Users can view their own notifications" ON social_notifications
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own notifications" ON social_notifications;
+CREATE POLICY "Users can update their own notifications" ON social_notifications
+  FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete their own notifications" ON social_notifications;
+CREATE POLICY "Users can delete their own notifications" ON social_notifications
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Realtime delivers new rows to the header bell; RLS limits each user to their own
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'social_notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE social_notifications;
+  END IF;
+END $$;
+
+INSERT INTO background_jobs (name, description, interval_seconds) VALUES
+  ('cleanup_expired_notifications', 'Delete in-app notifications past their expiry', 6 * 60 * 60)
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,127 @@
+-- Migration: Add prompt versions
+-- Description: Immutable version history for custom prompts, with atomic edits and rollback
+-- Date: 2025-09-27
+
+-- Every content change to a custom prompt is stored as a new version. Rows are
+-- never updated; rolling back writes a new version copied from an older one.
+CREATE TABLE IF NOT EXISTS custom_prompt_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prompt_id UUID NOT NULL REFERENCES custom_prompts(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  system_prompt TEXT NOT NULL,
+  user_template TEXT NOT NULL,
+  config JSONB,
+  change_note TEXT,
+  restored_from_version_id UUID REFERENCES custom_prompt_versions(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_prompt_version_number UNIQUE (prompt_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_prompt_versions_prompt
+  ON custom_prompt_versions (prompt_id, version_number DESC);
+
+ALTER TABLE custom_prompts
+  ADD COLUMN IF NOT EXISTS current_version_id UUID REFERENCES custom_prompt_versions(id) ON DELETE SET NULL;
+
+-- Versions are append-only; deleting the prompt still cascades
+CREATE OR REPLACE FUNCTION prevent_prompt_version_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    RAISE EXCEPTION 'Prompt versions are immutable';
+  END IF;
+  IF EXISTS (SELECT 1 FROM custom_prompts WHERE id = OLD.prompt_id) THEN
+    RAISE EXCEPTION 'Prompt versions can only be removed with their prompt';
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_custom_prompt_version_changes ON custom_prompt_versions;
+CREATE TRIGGER prevent_custom_prompt_version_changes
+  BEFORE UPDATE OR DELETE ON custom_prompt_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_prompt_version_changes();
+
+ALTER TABLE custom_prompt_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read prompt versions" ON custom_prompt_versions;
+CREATE POLICY "Admins can read prompt versions" ON custom_prompt_versions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE id = auth.uid()
+      AND raw_user_meta_data->>'role' = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can create prompt versions" ON custom_prompt_versions;
+CREATE POLICY "Admins can create prompt versions" ON custom_prompt_versions
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE id = auth.uid()
+      AND raw_user_meta_data->>'role' = 'admin'
+    )
+  );
+
+-- Write a new version and make it current. The prompt row is locked so
+-- concurrent edits get consecutive version numbers.
+CREATE OR REPLACE FUNCTION create_prompt_version(
+  p_prompt_id UUID,
+  p_system_prompt TEXT,
+  p_user_template TEXT,
+  p_config JSONB,
+  p_change_note TEXT DEFAULT NULL,
+  p_restored_from UUID DEFAULT NULL
+)
+RETURNS SETOF custom_prompt_versions AS $$
+DECLARE
+  v_next INTEGER;
+  v_version custom_prompt_versions;
+BEGIN
+  PERFORM 1 FROM custom_prompts WHERE id = p_prompt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO v_next
+  FROM custom_prompt_versions
+  WHERE prompt_id = p_prompt_id;
+
+  INSERT INTO custom_prompt_versions (
+    prompt_id, version_number, system_prompt, user_template, config,
+    change_note, restored_from_version_id, created_by
+  ) VALUES (
+    p_prompt_id, v_next, p_system_prompt, p_user_template, p_config,
+    p_change_note, p_restored_from, auth.uid()
+  )
+  RETURNING * INTO v_version;
+
+  UPDATE custom_prompts
+  SET system_prompt = p_system_prompt,
+      user_template = p_user_template,
+      config = p_config,
+      current_version_id = v_version.id
+  WHERE id = p_prompt_id;
+
+  RETURN NEXT v_version;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Existing prompts start their history at version 1
+INSERT INTO custom_prompt_versions (prompt_id, version_number, system_prompt, user_template, config, change_note, created_by, created_at)
+SELECT id, 1, system_prompt, user_template, config, 'Initial version', created_by, created_at
+FROM custom_prompts
+WHERE NOT EXISTS (
+  SELECT 1 FROM custom_prompt_versions WHERE custom_prompt_versions.prompt_id = custom_prompts.id
+);
+
+UPDATE custom_prompts
+SET current_version_id = v.id
+FROM custom_prompt_versions v
+WHERE v.prompt_id = custom_prompts.id
+  AND v.version_number = 1
+  AND custom_prompts.current_version_id IS NULL;
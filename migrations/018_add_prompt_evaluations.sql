@@ -0,0 +1,88 @@
+-- Migration: Add prompt evaluations
+-- Description: Fixture transcripts and stored runs for evaluating custom prompts
+-- Date: 2025-09-29
+
+-- Transcripts prompts are evaluated against. Segments carry timings so
+-- question timestamps can be checked; fixtures without them skip that metric.
+CREATE TABLE IF NOT EXISTS prompt_eval_fixtures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  video_title VARCHAR(255),
+  transcript TEXT NOT NULL,
+  segments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One evaluation: one or two candidates scored over the same fixtures
+CREATE TABLE IF NOT EXISTS prompt_eval_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL for drafts evaluated before the prompt was saved
+  prompt_id UUID REFERENCES custom_prompts(id) ON DELETE CASCADE,
+  provider VARCHAR(50) NOT NULL,
+  model VARCHAR(255),
+  preset JSONB NOT NULL,
+  fixture_ids UUID[] NOT NULL DEFAULT '{}',
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_eval_runs_prompt
+  ON prompt_eval_runs (prompt_id, created_at DESC);
+
+ALTER TABLE prompt_eval_fixtures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_eval_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage prompt eval fixtures" ON prompt_eval_fixtures;
+CREATE POLICY "Admins can manage prompt eval fixtures" ON prompt_eval_fixtures
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE id = auth.uid()
+      AND raw_user_meta_data->>'role' = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage prompt eval runs" ON prompt_eval_runs;
+CREATE POLICY "Admins can manage prompt eval runs" ON prompt_eval_runs
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE id = auth.uid()
+      AND raw_user_meta_data->>'role' = 'admin'
+    )
+  );
+
+-- Starter fixtures so evaluations work out of the box
+INSERT INTO prompt_eval_fixtures (name, description, video_title, transcript, segments)
+SELECT * FROM (VALUES
+  (
+    'Coffee shop small talk',
+    'Short casual conversation with opinions and hedging',
+    'Morning Coffee Chat',
+    'I usually grab a coffee on my way to work. The new place downtown is always packed, though. Honestly, I think their espresso is a bit overrated. But the pastries? Totally worth the wait. Maybe we could try the little cafe by the station next time.',
+    '[
+      {"text": "I usually grab a coffee on my way to work.", "start": 0, "duration": 3.5},
+      {"text": "The new place downtown is always packed, though.", "start": 3.5, "duration": 3.2},
+      {"text": "Honestly, I think their espresso is a bit overrated.", "start": 6.7, "duration": 3.6},
+      {"text": "But the pastries? Totally worth the wait.", "start": 10.3, "duration": 3.1},
+      {"text": "Maybe we could try the little cafe by the station next time.", "start": 13.4, "duration": 4.0}
+    ]'::jsonb
+  ),
+  (
+    'Project status update',
+    'Workplace update with dates, numbers and an implied concern',
+    'Weekly Team Sync',
+    'Quick update on the launch. We finished the payment flow on Tuesday, two days ahead of schedule. Testing found three minor bugs, and two of them are already fixed. The last one depends on the vendor, so I would not promise Friday just yet. If anyone has spare time, the documentation could really use another pair of eyes.',
+    '[
+      {"text": "Quick update on the launch.", "start": 0, "duration": 2.0},
+      {"text": "We finished the payment flow on Tuesday, two days ahead of schedule.", "start": 2.0, "duration": 4.1},
+      {"text": "Testing found three minor bugs, and two of them are already fixed.", "start": 6.1, "duration": 4.0},
+      {"text": "The last one depends on the vendor, so I would not promise Friday just yet.", "start": 10.1, "duration": 4.4},
+      {"text": "If anyone has spare time, the documentation could really use another pair of eyes.", "start": 14.5, "duration": 4.5}
+    ]'::jsonb
+  )
+) AS seed (name, description, video_title, transcript, segments)
+WHERE NOT EXISTS (SELECT 1 FROM prompt_eval_fixtures);
@@ -0,0 +1,177 @@
+-- Migration: Add prompt experiments
+-- Description: A/B experiments between custom prompts with durable outcome data
+-- Date: 2025-10-01
+
+CREATE TABLE IF NOT EXISTS prompt_experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  category VARCHAR(100) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'completed')),
+  started_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  winner_prompt_id UUID REFERENCES custom_prompts(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Generation requests are split by at most one experiment per category
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_experiments_running_category
+  ON prompt_experiments (category) WHERE status = 'running';
+
+CREATE TABLE IF NOT EXISTS prompt_experiment_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  experiment_id UUID NOT NULL REFERENCES prompt_experiments(id) ON DELETE CASCADE,
+  prompt_id UUID NOT NULL REFERENCES custom_prompts(id) ON DELETE CASCADE,
+  weight INTEGER NOT NULL DEFAULT 1 CHECK (weight > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_experiment_prompt UNIQUE (experiment_id, prompt_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_experiment_variants_experiment
+  ON prompt_experiment_variants (experiment_id);
+
+ALTER TABLE shared_question_sets
+  ADD COLUMN IF NOT EXISTS experiment_variant_id UUID REFERENCES prompt_experiment_variants(id) ON DELETE SET NULL;
+
+-- Shared question sets expire and are deleted within a day, so tagged sets
+-- are copied here for as long as the experiment exists
+CREATE TABLE IF NOT EXISTS prompt_experiment_sets (
+  question_set_id UUID PRIMARY KEY,
+  experiment_id UUID NOT NULL REFERENCES prompt_experiments(id) ON DELETE CASCADE,
+  variant_id UUID NOT NULL REFERENCES prompt_experiment_variants(id) ON DELETE CASCADE,
+  group_id UUID,
+  session_id UUID,
+  questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_experiment_sets_experiment
+  ON prompt_experiment_sets (experiment_id, variant_id);
+
+CREATE OR REPLACE FUNCTION record_prompt_experiment_set()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO prompt_experiment_sets (question_set_id, experiment_id, variant_id, group_id, session_id, questions)
+  SELECT NEW.id, v.experiment_id, v.id, NEW.group_id, NEW.session_id, NEW.questions
+  FROM prompt_experiment_variants v
+  WHERE v.id = NEW.experiment_variant_id
+  ON CONFLICT (question_set_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_prompt_experiment_set ON shared_question_sets;
+CREATE TRIGGER record_prompt_experiment_set
+  AFTER INSERT ON shared_question_sets
+  FOR EACH ROW
+  WHEN (NEW.experiment_variant_id IS NOT NULL)
+  EXECUTE FUNCTION record_prompt_experiment_set();
+
+-- Individual quiz submissions, one row per submitted set. Group quizzes keep
+-- using group_quiz_results. No foreign key so rows outlive expired sets.
+CREATE TABLE IF NOT EXISTS question_set_submissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_set_id UUID NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  set_index INTEGER,
+  difficulty VARCHAR(20),
+  score INTEGER NOT NULL,
+  total_questions INTEGER NOT NULL,
+  correct_answers INTEGER NOT NULL,
+  answered_count INTEGER NOT NULL,
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  submitted_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_set_submissions_set
+  ON question_set_submissions (question_set_id);
+
+-- Learners flag questions they think are wrong or unclear
+CREATE TABLE IF NOT EXISTS question_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_set_id UUID NOT NULL,
+  question_id TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason VARCHAR(50) NOT NULL CHECK (reason IN ('incorrect_answer', 'unclear', 'not_in_video', 'other')),
+  details TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_reports_set
+  ON question_reports (question_set_id, question_id);
+
+-- Learners report at most once per question
+CREATE UNIQUE INDEX IF NOT EXISTS idx_question_reports_user_question
+  ON question_reports (question_set_id, question_id, user_id) WHERE user_id IS NOT NULL;
+
+ALTER TABLE prompt_experiments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_experiment_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_experiment_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE question_set_submissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE question_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage prompt experiments" ON prompt_experiments;
+CREATE POLICY "Admins can manage prompt experiments" ON prompt_experiments
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE id = auth.uid()
+      AND raw_user_meta_data->>'role' = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage prompt experiment variants" ON prompt_experiment_variants;
+CREATE POLICY "Admins can manage prompt experiment variants" ON prompt_experiment_variants
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE id = auth.uid()
+      AND raw_user_meta_data->>'role' = 'admin'
+    )
+  );
+
+-- Generation runs as the requesting user and must see running variants to split requests
+DROP POLICY IF EXISTS "Authenticated users can read running experiments" ON prompt_experiments;
+CREATE POLICY "Authenticated users can read running experiments" ON prompt_experiments
+  FOR SELECT USING (auth.uid() IS NOT NULL AND status = 'running');
+
+DROP POLICY IF EXISTS "Authenticated users can read running variants" ON prompt_experiment_variants;
+CREATE POLICY "Authenticated users can read running variants" ON prompt_experiment_variants
+  FOR SELECT USING (
+    auth.uid() IS NOT NULL AND EXISTS (
+      SELECT 1 FROM prompt_experiments e
+      WHERE e.id = experiment_id AND e.status = 'running'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can read prompt experiment sets" ON prompt_experiment_sets;
+CREATE POLICY "Admins can read prompt experiment sets" ON prompt_experiment_sets
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE id = auth.uid()
+      AND raw_user_meta_data->>'role' = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read own submissions" ON question_set_submissions;
+CREATE POLICY "Users can read own submissions" ON question_set_submissions
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create own question reports" ON question_reports;
+CREATE POLICY "Users can create own question reports" ON question_reports
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can read question reports" ON question_reports;
+CREATE POLICY "Admins can read question reports" ON question_reports
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE id = auth.uid()
+      AND raw_user_meta_data->>'role' = 'admin'
+    )
+  );
@@ -0,0 +1,39 @@
+-- Migration: Add achievements engine support
+-- Description: Idempotent badge awards, group award history and session award job
+-- Date: 2025-10-03
+
+-- Each badge is awarded once per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_achievements_user_achievement
+  ON user_achievements (user_id, achievement_id);
+
+-- Group awards can repeat (top scorer of every session); the key tells them apart
+ALTER TABLE group_achievements
+  ADD COLUMN IF NOT EXISTS achievement_key TEXT NOT NULL DEFAULT '';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_group_achievements_award
+  ON group_achievements (group_id, user_id, achievement_type, achievement_key);
+
+CREATE INDEX IF NOT EXISTS idx_group_achievements_group_earned
+  ON group_achievements (group_id, earned_at DESC);
+
+ALTER TABLE user_achievements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE group_achievements ENABLE ROW LEVEL SECURITY;
+
+-- Awards are written by the server with the service role; users only read
+DROP POLICY IF EXISTS "Users can view own achievements" ON user_achievements;
+CREATE POLICY "Users can view own achievements" ON user_achievements
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Group members can view group achievements" ON group_achievements;
+CREATE POLICY "Group members can view group achievements" ON group_achievements
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM study_group_members
+      WHERE study_group_members.group_id = group_achievements.group_id
+      AND study_group_members.user_id = auth.uid()
+    )
+  );
+
+INSERT INTO background_jobs (name, description, interval_seconds) VALUES
+  ('award_session_achievements', 'Award top scorer badges for completed group sessions', 15 * 60)
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,67 @@
+-- Migration: Add group challenge support
+-- Description: Challenge types, per-member progress rows, access policies and the challenge closing job
+-- Date: 2025-10-04
+
+-- Minimum score a session result needs to count for 'high_score_sessions' challenges
+ALTER TABLE group_challenges
+  ADD COLUMN IF NOT EXISTS min_score INTEGER CHECK (min_score BETWEEN 0 AND 100);
+
+ALTER TABLE group_challenges DROP CONSTRAINT IF EXISTS group_challenges_type_check;
+ALTER TABLE group_challenges
+  ADD CONSTRAINT group_challenges_type_check
+  CHECK (type IN ('quiz_count', 'cards_reviewed', 'high_score_sessions'));
+
+ALTER TABLE group_challenges DROP CONSTRAINT IF EXISTS group_challenges_status_check;
+ALTER TABLE group_challenges
+  ADD CONSTRAINT group_challenges_status_check
+  CHECK (status IN ('active', 'completed', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_group_challenges_group_status
+  ON group_challenges (group_id, status, end_date);
+
+-- One progress row per member and challenge
+CREATE UNIQUE INDEX IF NOT EXISTS idx_challenge_participants_challenge_user
+  ON challenge_participants (challenge_id, user_id);
+
+CREATE INDEX IF NOT EXISTS idx_challenge_participants_user
+  ON challenge_participants (user_id);
+
+ALTER TABLE group_challenges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE challenge_participants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Group members can view challenges" ON group_challenges;
+CREATE POLICY "Group members can view challenges" ON group_challenges
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM study_group_members
+      WHERE study_group_members.group_id = group_challenges.group_id
+      AND study_group_members.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Group admins can manage challenges" ON group_challenges;
+CREATE POLICY "Group admins can manage challenges" ON group_challenges
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM study_group_members
+      WHERE study_group_members.group_id = group_challenges.group_id
+      AND study_group_members.user_id = auth.uid()
+      AND study_group_members.role IN ('owner', 'admin')
+    )
+  );
+
+-- Progress is written by the server with the service role; members only read
+DROP POLICY IF EXISTS "Group members can view challenge progress" ON challenge_participants;
+CREATE POLICY "Group members can view challenge progress" ON challenge_participants
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM group_challenges
+      JOIN study_group_members ON study_group_members.group_id = group_challenges.group_id
+      WHERE group_challenges.id = challenge_participants.challenge_id
+      AND study_group_members.user_id = auth.uid()
+    )
+  );
+
+INSERT INTO background_jobs (name, description, interval_seconds) VALUES
+  ('close_group_challenges', 'Mark group challenges past their end date as completed', 60 * 60)
+ON CONFLICT (name) DO NOTHING;
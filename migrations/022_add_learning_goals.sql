@@ -0,0 +1,78 @@
+-- Migration: Add personal learning goals and streak tracking
+-- Description: Goal types, streak calculation over all practice, daily activity for the dashboard heatmap
+-- Date: 2025-10-05
+
+ALTER TABLE learning_goals DROP CONSTRAINT IF EXISTS learning_goals_type_check;
+ALTER TABLE learning_goals
+  ADD CONSTRAINT learning_goals_type_check
+  CHECK (type IN ('daily_reviews', 'weekly_quizzes', 'words_learned'));
+
+CREATE INDEX IF NOT EXISTS idx_learning_goals_user
+  ON learning_goals (user_id, is_completed);
+
+-- One stats row per user so it can be upserted
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_learning_stats_user
+  ON user_learning_stats (user_id);
+
+ALTER TABLE learning_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_learning_stats ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own learning goals" ON learning_goals;
+CREATE POLICY "Users can manage own learning goals" ON learning_goals
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Stats are written by the server with the service role
+DROP POLICY IF EXISTS "Users can view own learning stats" ON user_learning_stats;
+CREATE POLICY "Users can view own learning stats" ON user_learning_stats
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Days (UTC) with any practice: vocabulary reviews, group quiz results or individual quiz submissions
+CREATE OR REPLACE FUNCTION get_user_daily_activity(user_uuid UUID, since DATE)
+RETURNS TABLE (day DATE, reviews INTEGER, quizzes INTEGER) AS $$
+  SELECT activity.day,
+         COUNT(*) FILTER (WHERE activity.kind = 'review')::INTEGER AS reviews,
+         COUNT(*) FILTER (WHERE activity.kind = 'quiz')::INTEGER AS quizzes
+  FROM (
+    SELECT (reviewed_at AT TIME ZONE 'UTC')::DATE AS day, 'review' AS kind
+    FROM user_vocabulary_reviews
+    WHERE user_id = user_uuid AND reviewed_at >= since
+    UNION ALL
+    SELECT (completed_at AT TIME ZONE 'UTC')::DATE, 'quiz'
+    FROM group_quiz_results
+    WHERE user_id = user_uuid AND completed_at >= since
+    UNION ALL
+    SELECT (submitted_at AT TIME ZONE 'UTC')::DATE, 'quiz'
+    FROM question_set_submissions
+    WHERE user_id = user_uuid AND submitted_at >= since
+  ) activity
+  GROUP BY activity.day
+  ORDER BY activity.day;
+$$ LANGUAGE sql STABLE;
+
+-- Consecutive practice days ending today, or yesterday if there is no practice yet today
+CREATE OR REPLACE FUNCTION calculate_user_streak(user_uuid UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  streak INTEGER := 0;
+  cursor_day DATE := (NOW() AT TIME ZONE 'UTC')::DATE;
+  active_days DATE[];
+BEGIN
+  SELECT ARRAY_AGG(day) INTO active_days
+  FROM get_user_daily_activity(user_uuid, cursor_day - 366);
+
+  IF active_days IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  IF NOT cursor_day = ANY(active_days) THEN
+    cursor_day := cursor_day - 1;
+  END IF;
+
+  WHILE cursor_day = ANY(active_days) LOOP
+    streak := streak + 1;
+    cursor_day := cursor_day - 1;
+  END LOOP;
+
+  RETURN streak;
+END;
+$$ LANGUAGE plpgsql STABLE;
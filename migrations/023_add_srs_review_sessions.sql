@@ -0,0 +1,22 @@
+-- Migration: Add resumable flashcard review sessions
+-- Description: Ownership policies and lookup index for user_srs_sessions, which holds review session state as JSON
+-- Date: 2025-10-06
+
+CREATE TABLE IF NOT EXISTS user_srs_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_data JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- The active session is the most recently updated one with status 'active'
+CREATE INDEX IF NOT EXISTS idx_user_srs_sessions_active
+  ON user_srs_sessions (user_id, updated_at DESC)
+  WHERE session_data->>'status' = 'active';
+
+ALTER TABLE user_srs_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own review sessions" ON user_srs_sessions;
+CREATE POLICY "Users can manage own review sessions" ON user_srs_sessions
+  FOR ALL USING (auth.uid() = user_id);
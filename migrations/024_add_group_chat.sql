@@ -0,0 +1,124 @@
+-- Migration: Add group chat and per-session discussion threads
+-- Description: Session threads, soft deletion and atomic emoji reactions on chat_messages; member-only access and realtime delivery
+-- Date: 2025-10-07
+
+-- Messages without a session belong to the group chat; with one, to that session's discussion thread
+ALTER TABLE chat_messages
+  ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES group_quiz_sessions(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_group_chat
+  ON chat_messages (group_id, created_at DESC)
+  WHERE session_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_session
+  ON chat_messages (session_id, created_at DESC)
+  WHERE session_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_reply_to
+  ON chat_messages (reply_to)
+  WHERE reply_to IS NOT NULL;
+
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- A session's thread opens once its results are revealed to the member: the session
+-- is completed or they have submitted. Group owners and admins can always use it.
+CREATE OR REPLACE FUNCTION can_access_session_thread(session_uuid UUID, group_uuid UUID, user_uuid UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM group_quiz_sessions
+    WHERE group_quiz_sessions.id = session_uuid
+      AND group_quiz_sessions.group_id = group_uuid
+      AND (
+        group_quiz_sessions.status = 'completed'
+        OR EXISTS (
+          SELECT 1 FROM group_quiz_results
+          WHERE group_quiz_results.session_id = session_uuid
+            AND group_quiz_results.user_id = user_uuid
+        )
+        OR EXISTS (
+          SELECT 1 FROM study_group_members
+          WHERE study_group_members.group_id = group_uuid
+            AND study_group_members.user_id = user_uuid
+            AND study_group_members.role IN ('owner', 'admin')
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE;
+
+DROP POLICY IF EXISTS "Members can view group messages" ON chat_messages;
+CREATE POLICY "Members can view group messages" ON chat_messages
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM study_group_members
+      WHERE study_group_members.group_id = chat_messages.group_id
+        AND study_group_members.user_id = auth.uid()
+    )
+    AND (
+      chat_messages.session_id IS NULL
+      OR can_access_session_thread(chat_messages.session_id, chat_messages.group_id, auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can send group messages" ON chat_messages;
+CREATE POLICY "Members can send group messages" ON chat_messages
+  FOR INSERT WITH CHECK (
+    sender_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM study_group_members
+      WHERE study_group_members.group_id = chat_messages.group_id
+        AND study_group_members.user_id = auth.uid()
+    )
+    AND (
+      chat_messages.session_id IS NULL
+      OR can_access_session_thread(chat_messages.session_id, chat_messages.group_id, auth.uid())
+    )
+  );
+
+-- Deletion and reactions are written by the server with the service role after permission checks
+
+-- Reactions are stored as {"emoji": ["user id", ...]}; toggling in one statement keeps concurrent reactions
+CREATE OR REPLACE FUNCTION toggle_chat_message_reaction(message_uuid UUID, emoji TEXT, user_uuid UUID)
+RETURNS JSONB AS $$
+DECLARE
+  current_reactions JSONB;
+  reacted_users JSONB;
+BEGIN
+  SELECT COALESCE(reactions, '{}'::JSONB) INTO current_reactions
+  FROM chat_messages
+  WHERE id = message_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  reacted_users := COALESCE(current_reactions -> emoji, '[]'::JSONB);
+  IF reacted_users ? user_uuid::TEXT THEN
+    reacted_users := reacted_users - user_uuid::TEXT;
+  ELSE
+    reacted_users := reacted_users || to_jsonb(user_uuid::TEXT);
+  END IF;
+
+  IF jsonb_array_length(reacted_users) = 0 THEN
+    current_reactions := current_reactions - emoji;
+  ELSE
+    current_reactions := jsonb_set(current_reactions, ARRAY[emoji], reacted_users);
+  END IF;
+
+  UPDATE chat_messages SET reactions = current_reactions WHERE id = message_uuid;
+  RETURN current_reactions;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Realtime delivers new messages, reactions and deletions to open chats; RLS limits them to members
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'chat_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE chat_messages;
+  END IF;
+END $$;
@@ -0,0 +1,69 @@
+-- Migration: Add plan usage metering
+-- Description: One usage row per user and month, one subscription row per user, and an atomic check-and-increment against plan limits
+-- Date: 2025-10-08
+
+-- Plans are defined in the app; user_subscriptions only records a user's plan and admin limit overrides
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_subscriptions_user
+  ON user_subscriptions (user_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_usage_user_month
+  ON user_usage (user_id, month_year);
+
+ALTER TABLE user_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Counters and plans are written by the server with the service role
+DROP POLICY IF EXISTS "Users can view own usage" ON user_usage;
+CREATE POLICY "Users can view own usage" ON user_usage
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own subscription" ON user_subscriptions;
+CREATE POLICY "Users can view own subscription" ON user_subscriptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Adds amount to one counter unless that would pass usage_limit (NULL = unlimited).
+-- A negative amount gives back usage from a failed request. The row lock keeps
+-- concurrent requests from both passing the last unit of quota.
+CREATE OR REPLACE FUNCTION consume_usage(
+  user_uuid UUID,
+  usage_month TEXT,
+  usage_column TEXT,
+  amount INTEGER,
+  usage_limit INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  current_used INTEGER;
+BEGIN
+  IF usage_column NOT IN ('ai_requests_made', 'loops_created', 'custom_prompts_used') THEN
+    RAISE EXCEPTION 'Unknown usage column: %', usage_column;
+  END IF;
+
+  INSERT INTO user_usage (user_id, month_year)
+  VALUES (user_uuid, usage_month)
+  ON CONFLICT (user_id, month_year) DO NOTHING;
+
+  EXECUTE format(
+    'SELECT COALESCE(%I, 0) FROM user_usage WHERE user_id = $1 AND month_year = $2 FOR UPDATE',
+    usage_column
+  )
+  INTO current_used
+  USING user_uuid, usage_month;
+
+  IF amount > 0 AND usage_limit IS NOT NULL AND current_used + amount > usage_limit THEN
+    RETURN jsonb_build_object('allowed', false, 'used', current_used);
+  END IF;
+
+  current_used := GREATEST(current_used + amount, 0);
+
+  EXECUTE format(
+    'UPDATE user_usage SET %I = $3, updated_at = NOW() WHERE user_id = $1 AND month_year = $2',
+    usage_column
+  )
+  USING user_uuid, usage_month, current_used;
+
+  RETURN jsonb_build_object('allowed', true, 'used', current_used);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION consume_usage(UUID, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,31 @@
+-- Migration: Add shadowing practice
+-- Description: Private storage for shadowing recordings, owner-only access to recordings and their comparisons
+-- Date: 2025-10-09
+
+-- Recordings are stored as <user id>/<loop id>/<recording id>.<ext> and played back through signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('shadowing-recordings', 'shadowing-recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- audio_recordings.session_id is the loop (practice_sessions row); metadata.segmentIndex is the transcript segment
+CREATE INDEX IF NOT EXISTS idx_audio_recordings_user_loop
+  ON audio_recordings (user_id, session_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_comparison_results_recording
+  ON comparison_results (recording_id);
+
+ALTER TABLE audio_recordings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comparison_results ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own recordings" ON audio_recordings;
+CREATE POLICY "Users can manage own recordings" ON audio_recordings
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Scores are written by the server with the service role after transcription
+DROP POLICY IF EXISTS "Users can view own comparisons" ON comparison_results;
+CREATE POLICY "Users can view own comparisons" ON comparison_results
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own comparisons" ON comparison_results;
+CREATE POLICY "Users can delete own comparisons" ON comparison_results
+  FOR DELETE USING (auth.uid() = user_id);
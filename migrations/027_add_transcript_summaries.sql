@@ -0,0 +1,34 @@
+-- Migration: Add transcript summaries
+-- Description: One cached pre-listening summary per loop, readable by the loop's owner and its group's members and written by the server
+-- Date: 2025-10-10
+
+-- Keep the most recently updated summary when a loop has several
+DELETE FROM transcript_summaries a
+  USING transcript_summaries b
+  WHERE a.loop_id = b.loop_id
+    AND (COALESCE(a.updated_at, a.created_at, 'epoch'), a.id) < (COALESCE(b.updated_at, b.created_at, 'epoch'), b.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transcript_summaries_loop
+  ON transcript_summaries (loop_id);
+
+ALTER TABLE transcript_summaries ENABLE ROW LEVEL SECURITY;
+
+-- Loops are practice_sessions rows; a group loop carries its group in metadata.groupId.
+-- Generation and edits go through the service role.
+DROP POLICY IF EXISTS "Authenticated users can view transcript summaries" ON transcript_summaries;
+DROP POLICY IF EXISTS "Loop owners and group members can view transcript summaries" ON transcript_summaries;
+CREATE POLICY "Loop owners and group members can view transcript summaries" ON transcript_summaries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM practice_sessions
+      WHERE practice_sessions.id::TEXT = transcript_summaries.loop_id::TEXT
+        AND (
+          practice_sessions.user_id = auth.uid()
+          OR EXISTS (
+            SELECT 1 FROM study_group_members
+            WHERE study_group_members.group_id::TEXT = practice_sessions.metadata->>'groupId'
+              AND study_group_members.user_id = auth.uid()
+          )
+        )
+    )
+  );
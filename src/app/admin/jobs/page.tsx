@@ -0,0 +1,250 @@
+'use client'
+
+import { useState } from 'react'
+import { Clock, Play, RefreshCw, Timer } from 'lucide-react'
+import { useAdminJobs, useRunJob } from '@/hooks/use-jobs'
+
+const RUN_STATUS_STYLES: Record<string, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+}
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : '—'
+
+const formatInterval = (seconds: number) => {
+  if (seconds % 3600 === 0) return `every ${seconds / 3600}h`
+  if (seconds % 60 === 0) return `every ${seconds / 60}m`
+  return `every ${seconds}s`
+}
+
+const formatDuration = (startedAt: string, finishedAt: string | null) => {
+  if (!finishedAt) return '—'
+  const ms = new Date(finishedAt).getTime() - new Date(startedAt).getTime()
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+export default function JobsManagement() {
+  const [selectedJob, setSelectedJob] = useState<string>('all')
+  const { data, isLoading: loading, error, refetch, isFetching } = useAdminJobs(
+    selectedJob === 'all' ? undefined : selectedJob
+  )
+  const runJobMutation = useRunJob()
+
+  const jobs = data?.jobs || []
+  const runs = data?.runs || []
+
+  const handleRunJob = async (name: string) => {
+    try {
+      const { succeeded } = await runJobMutation.mutateAsync(name)
+      if (!succeeded) {
+        alert(`Job ${name} failed. See the run history for details.`)
+      }
+    } catch (error: any) {
+      console.error('Error running job:', error)
+      alert(error.message || 'Failed to run job')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="animate-pulse">
+        <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+        <div className="space-y-4">
+          {[...Array(4)].map((_, i) => (
+            <div key={i} className="bg-white rounded-lg shadow p-6">
+              <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-4">
+        <div className="flex">
+          <div className="ml-3">
+            <h3 className="text-sm font-medium text-red-800">
+              Error loading jobs
+            </h3>
+            <div className="mt-2 text-sm text-red-700">
+              {error.message}
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Background Jobs</h1>
+          <p className="mt-2 text-gray-600">
+            Scheduled maintenance tasks. Each run happens on one app instance.
+          </p>
+        </div>
+        <button
+          onClick={() => refetch()}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+          disabled={isFetching}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {/* Jobs List */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        <ul className="divide-y divide-gray-200">
+          {jobs.map((job) => {
+            const isLocked = !!job.locked_until && new Date(job.locked_until) > new Date()
+
+            return (
+              <li key={job.name} className="px-6 py-4 hover:bg-gray-50">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <h3 className="text-lg font-medium text-gray-900 truncate">{job.name}</h3>
+                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                        job.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                      }`}>
+                        {job.enabled ? 'Enabled' : 'Disabled'}
+                      </span>
+                      {isLocked && (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                          Running on {job.locked_by}
+                        </span>
+                      )}
+                      {job.attempts > 0 && (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          {job.attempts} failed {job.attempts === 1 ? 'attempt' : 'attempts'}
+                        </span>
+                      )}
+                    </div>
+
+                    {job.description && (
+                      <p className="mt-1 text-sm text-gray-600">{job.description}</p>
+                    )}
+
+                    <div className="mt-1 flex flex-wrap items-center gap-x-4 text-sm text-gray-500">
+                      <span className="flex items-center">
+                        <Timer className="h-3 w-3 mr-1" />
+                        {formatInterval(job.interval_seconds)}
+                      </span>
+                      <span>Last success: {formatDateTime(job.last_success_at)}</span>
+                      <span className="flex items-center">
+                        <Clock className="h-3 w-3 mr-1" />
+                        Next run: {formatDateTime(job.next_run_at)}
+                      </span>
+                    </div>
+
+                    {job.last_error && (
+                      <p className="mt-1 text-sm text-red-600 line-clamp-2">
+                        Last error: {job.last_error}
+                      </p>
+                    )}
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex items-center space-x-2 ml-4">
+                    <button
+                      onClick={() => handleRunJob(job.name)}
+                      className="inline-flex items-center px-3 py-1 text-xs rounded bg-blue-100 text-blue-700 hover:bg-blue-200 disabled:opacity-50"
+                      disabled={isLocked || runJobMutation.isPending}
+                      title="Run now"
+                    >
+                      <Play className="h-3 w-3 mr-1" />
+                      {runJobMutation.isPending && runJobMutation.variables === job.name ? 'Running...' : 'Run now'}
+                    </button>
+                  </div>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+
+        {jobs.length === 0 && (
+          <div className="text-center py-12">
+            <Timer className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No jobs found</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Apply the background jobs migration to seed the job schedule.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Run History */}
+      <div className="bg-white rounded-lg shadow">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-medium text-gray-900">Recent Runs</h2>
+          <select
+            className="rounded-md border border-gray-300 py-2 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            value={selectedJob}
+            onChange={(e) => setSelectedJob(e.target.value)}
+          >
+            <option value="all">All Jobs</option>
+            {jobs.map(job => (
+              <option key={job.name} value={job.name}>{job.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">Job</th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">Status</th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">Trigger</th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">Started</th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">Duration</th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">Result</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {runs.map(run => (
+                <tr key={run.id}>
+                  <td className="px-6 py-3 font-medium text-gray-900">{run.job_name}</td>
+                  <td className="px-6 py-3">
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                      RUN_STATUS_STYLES[run.status] || 'bg-gray-100 text-gray-700'
+                    }`}>
+                      {run.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-gray-600">
+                    {run.trigger}
+                    {run.attempt > 1 && ` (attempt ${run.attempt})`}
+                  </td>
+                  <td className="px-6 py-3 text-gray-600">{formatDateTime(run.started_at)}</td>
+                  <td className="px-6 py-3 text-gray-600">{formatDuration(run.started_at, run.finished_at)}</td>
+                  <td className="px-6 py-3 max-w-md">
+                    {run.error ? (
+                      <span className="text-red-600 line-clamp-2">{run.error}</span>
+                    ) : (
+                      <code className="text-xs text-gray-600">
+                        {run.result ? JSON.stringify(run.result) : '—'}
+                      </code>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {runs.length === 0 && (
+            <p className="py-8 text-center text-sm text-gray-500">No runs recorded yet.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
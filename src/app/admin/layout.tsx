@@ -3,7 +3,7 @@
 import { useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { Shield, Settings, MessageSquare, Users } from 'lucide-react'
+import { Shield, Settings, MessageSquare, Users, Timer } from 'lucide-react'
 import { useAdminAuth } from '@/hooks/use-auth'
 
 interface AdminLayoutProps {
@@ -98,6 +98,16 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
               </div>
             </Link>
             
+            <Link
+              href="/admin/jobs"
+              className="border-b-2 border-transparent hover:border-gray-300 py-4 px-1 text-sm font-medium text-gray-900 hover:text-gray-700"
+            >
+              <div className="flex items-center space-x-2">
+                <Timer className="h-4 w-4" />
+                <span>Jobs</span>
+              </div>
+            </Link>
+            
             <Link
               href="/admin/users"
               className="border-b-2 border-transparent hover:border-gray-300 py-4 px-1 text-sm font-medium text-gray-900 hover:text-gray-700"
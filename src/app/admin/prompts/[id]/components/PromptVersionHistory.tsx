@@ -0,0 +1,205 @@
+'use client'
+
+import { useState } from 'react'
+import { History, RotateCcw } from 'lucide-react'
+import { usePromptVersions, useRollbackPrompt, type CustomPrompt, type PromptVersion } from '@/hooks/use-prompts'
+import { diffLines, hasDifferences, type DiffRow } from '@/lib/utils/text-diff'
+
+const formatConfig = (config: PromptVersion['config']) => JSON.stringify(config ?? {}, null, 2)
+
+const ROW_STYLES: Record<DiffRow['type'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  added: { left: 'bg-gray-50', right: 'bg-green-50 text-green-900' },
+  removed: { left: 'bg-red-50 text-red-900', right: 'bg-gray-50' },
+  changed: { left: 'bg-red-50 text-red-900', right: 'bg-green-50 text-green-900' }
+}
+
+function DiffSection({ title, before, after }: { title: string; before: string; after: string }) {
+  const rows = diffLines(before, after)
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2">{title}</h4>
+      {!hasDifferences(rows) ? (
+        <p className="text-sm text-gray-500">No changes</p>
+      ) : (
+        <div className="border border-gray-200 rounded-md overflow-x-auto">
+          <table className="w-full text-xs font-mono">
+            <tbody>
+              {rows.map((row, i) => (
+                <tr key={i} className="align-top">
+                  <td className="w-10 select-none px-2 text-right text-gray-400">{row.leftNumber ?? ''}</td>
+                  <td className={`w-1/2 whitespace-pre-wrap break-all px-2 ${ROW_STYLES[row.type].left}`}>
+                    {row.left ?? ''}
+                  </td>
+                  <td className="w-10 select-none border-l border-gray-200 px-2 text-right text-gray-400">
+                    {row.rightNumber ?? ''}
+                  </td>
+                  <td className={`w-1/2 whitespace-pre-wrap break-all px-2 ${ROW_STYLES[row.type].right}`}>
+                    {row.right ?? ''}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface PromptVersionHistoryProps {
+  prompt: CustomPrompt
+}
+
+export function PromptVersionHistory({ prompt }: PromptVersionHistoryProps) {
+  const { data: versions = [], isLoading, error } = usePromptVersions(prompt.id)
+  const rollbackMutation = useRollbackPrompt()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [rollbackConfirm, setRollbackConfirm] = useState<PromptVersion | null>(null)
+
+  const currentVersion = versions.find(v => v.id === prompt.current_version_id) || versions[0]
+  const selectedVersion = versions.find(v => v.id === selectedId)
+  const versionNumbers = new Map(versions.map(v => [v.id, v.version_number]))
+
+  const handleRollback = async (version: PromptVersion) => {
+    try {
+      await rollbackMutation.mutateAsync({ id: prompt.id, versionId: version.id })
+      setRollbackConfirm(null)
+      setSelectedId(null)
+    } catch (error: any) {
+      console.error('Error rolling back prompt:', error)
+      alert(error.message || 'Failed to roll back prompt')
+    }
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+        <History className="h-5 w-5 mr-2" />
+        Version History
+      </h2>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-700">{error.message}</p>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-gray-500">No versions recorded yet.</p>
+      ) : (
+        <div className="space-y-6">
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {versions.map(version => {
+              const isCurrent = version.id === currentVersion?.id
+              const restoredFrom = version.restored_from_version_id
+                ? versionNumbers.get(version.restored_from_version_id)
+                : undefined
+
+              return (
+                <li
+                  key={version.id}
+                  className={`flex items-center justify-between px-4 py-3 ${
+                    version.id === selectedId ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-gray-900">Version {version.version_number}</span>
+                      {isCurrent && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                          Current
+                        </span>
+                      )}
+                      {restoredFrom !== undefined && (
+                        <span className="text-xs text-gray-500">restored from v{restoredFrom}</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 truncate">{version.change_note || 'No change note'}</p>
+                    <p className="text-xs text-gray-400">{new Date(version.created_at).toLocaleString()}</p>
+                  </div>
+
+                  {!isCurrent && (
+                    <div className="flex items-center space-x-2 shrink-0 ml-4">
+                      <button
+                        onClick={() => setSelectedId(version.id === selectedId ? null : version.id)}
+                        className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                      >
+                        {version.id === selectedId ? 'Hide diff' : 'Compare'}
+                      </button>
+                      <button
+                        onClick={() => setRollbackConfirm(version)}
+                        className="inline-flex items-center px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Roll back
+                      </button>
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+
+          {selectedVersion && currentVersion && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 text-sm font-medium text-gray-700">
+                <span>Version {selectedVersion.version_number}</span>
+                <span>Version {currentVersion.version_number} (current)</span>
+              </div>
+              <DiffSection
+                title="System Prompt"
+                before={selectedVersion.system_prompt}
+                after={currentVersion.system_prompt}
+              />
+              <DiffSection
+                title="User Template"
+                before={selectedVersion.user_template}
+                after={currentVersion.user_template}
+              />
+              <DiffSection
+                title="Configuration"
+                before={formatConfig(selectedVersion.config)}
+                after={formatConfig(currentVersion.config)}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Rollback Confirmation Modal */}
+      {rollbackConfirm && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+            <div className="mt-3 text-center">
+              <h3 className="text-lg font-medium text-gray-900">Roll Back Prompt</h3>
+              <div className="mt-2 px-7 py-3">
+                <p className="text-sm text-gray-500">
+                  Restore version {rollbackConfirm.version_number}? Its content will be saved as a new version and
+                  used for future question generation.
+                </p>
+              </div>
+              <div className="items-center px-4 py-3">
+                <button
+                  onClick={() => handleRollback(rollbackConfirm)}
+                  className="px-4 py-2 bg-blue-600 text-white text-base font-medium rounded-md w-28 mr-2 hover:bg-blue-700 disabled:opacity-50"
+                  disabled={rollbackMutation.isPending}
+                >
+                  {rollbackMutation.isPending ? 'Restoring...' : 'Roll back'}
+                </button>
+                <button
+                  onClick={() => setRollbackConfirm(null)}
+                  className="px-4 py-2 bg-gray-500 text-white text-base font-medium rounded-md w-24 hover:bg-gray-600"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,7 +6,8 @@ import { useParams } from 'next/navigation'
 import Link from 'next/link'
 import { ArrowLeft, Save } from 'lucide-react'
 import { CustomPromptService } from '@/lib/services/custom-prompt-service'
-import { usePromptDetail, useUpdatePrompt } from '@/hooks/use-prompts'
+import { usePromptDetail, usePromptVersions, useUpdatePrompt } from '@/hooks/use-prompts'
+import { PromptEvaluationPanel } from '../../components/PromptEvaluationPanel'
 
 const CATEGORIES = [
   'listening_comprehension',
@@ -27,6 +28,7 @@ interface FormData {
   is_active: boolean
   maxTokens: number
   temperature: number
+  change_note: string
 }
 
 export default function EditPrompt() {
@@ -35,6 +37,7 @@ export default function EditPrompt() {
   const promptId = params.id as string
   
   const { data: prompt, isLoading, error } = usePromptDetail(promptId)
+  const { data: versions = [] } = usePromptVersions(promptId)
   const updatePromptMutation = useUpdatePrompt()
   
   const [formData, setFormData] = useState<FormData>({
@@ -45,7 +48,8 @@ export default function EditPrompt() {
     user_template: '',
     is_active: true,
     maxTokens: 16000,
-    temperature: 0.3
+    temperature: 0.3,
+    change_note: ''
   })
 
   const [errors, setErrors] = useState<Record<string, string>>({})
@@ -61,7 +65,8 @@ export default function EditPrompt() {
         user_template: prompt.user_template || '',
         is_active: prompt.is_active ?? true,
         maxTokens: prompt.config?.maxTokens || 16000,
-        temperature: prompt.config?.temperature || 0.3
+        temperature: prompt.config?.temperature || 0.3,
+        change_note: ''
       })
     }
   }, [prompt])
@@ -125,7 +130,8 @@ export default function EditPrompt() {
           config: {
             maxTokens: formData.maxTokens,
             temperature: formData.temperature
-          }
+          },
+          change_note: formData.change_note.trim() || undefined
         }
       })
 
@@ -372,6 +378,24 @@ export default function EditPrompt() {
           </div>
         </div>
 
+        {/* Change Note */}
+        <div className="bg-white shadow rounded-lg p-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Change Note
+          </label>
+          <p className="text-sm text-gray-500 mb-3">
+            Edits to the prompt text or configuration are saved as a new version. Describe what changed.
+          </p>
+          <input
+            type="text"
+            value={formData.change_note}
+            onChange={(e) => handleInputChange('change_note', e.target.value)}
+            maxLength={500}
+            placeholder="e.g. Tightened distractor instructions"
+            className="block w-full rounded-md border border-gray-300 py-2 px-3 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 text-sm"
+          />
+        </div>
+
         {/* Actions */}
         <div className="flex justify-end space-x-3">
           <Link
@@ -390,6 +414,17 @@ export default function EditPrompt() {
           </button>
         </div>
       </form>
+
+      <PromptEvaluationPanel
+        promptId={promptId}
+        versions={versions}
+        currentVersionId={prompt?.current_version_id}
+        draft={{
+          system_prompt: formData.system_prompt,
+          user_template: formData.user_template,
+          config: { maxTokens: formData.maxTokens, temperature: formData.temperature }
+        }}
+      />
     </div>
   )
 }
\ No newline at end of file
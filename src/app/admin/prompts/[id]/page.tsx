@@ -4,13 +4,16 @@ import { useParams } from 'next/navigation'
 import Link from 'next/link'
 import { ArrowLeft, Edit, Star, Calendar, Activity } from 'lucide-react'
 import { CustomPromptService } from '@/lib/services/custom-prompt-service'
-import { usePromptDetail } from '@/hooks/use-prompts'
+import { usePromptDetail, usePromptVersions } from '@/hooks/use-prompts'
+import { PromptEvaluationPanel } from '../components/PromptEvaluationPanel'
+import { PromptVersionHistory } from './components/PromptVersionHistory'
 
 export default function PromptDetail() {
   const params = useParams()
   const promptId = params.id as string
   
   const { data: prompt, isLoading, error } = usePromptDetail(promptId)
+  const { data: versions = [] } = usePromptVersions(promptId)
 
   if (isLoading) {
     return (
@@ -195,6 +198,14 @@ export default function PromptDetail() {
           </div>
         </div>
       </div>
+
+      <PromptVersionHistory prompt={prompt} />
+
+      <PromptEvaluationPanel
+        promptId={promptId}
+        versions={versions}
+        currentVersionId={prompt.current_version_id}
+      />
     </div>
   )
 }
\ No newline at end of file
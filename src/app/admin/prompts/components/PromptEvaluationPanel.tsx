@@ -0,0 +1,404 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { FlaskConical, Plus, Trash2 } from 'lucide-react'
+import type { PromptVersion } from '@/hooks/use-prompts'
+import {
+  useCreatePromptEvalFixture,
+  useDeletePromptEvalFixture,
+  usePromptEvalFixtures,
+  usePromptEvalRuns,
+  useRunPromptEvaluation
+} from '@/hooks/use-prompt-evaluations'
+import type { CandidateEvaluation, EvaluationMetrics } from '@/lib/services/ai/prompt-evaluator'
+import type { CandidateInput, PromptEvalRun } from '@/lib/services/prompt-eval-service'
+
+interface DraftPrompt {
+  system_prompt: string
+  user_template: string
+  config?: { maxTokens?: number; temperature?: number }
+}
+
+interface PromptEvaluationPanelProps {
+  promptId?: string
+  versions?: PromptVersion[]
+  currentVersionId?: string | null
+  // Unsaved form content, offered as a candidate
+  draft?: DraftPrompt
+}
+
+const DRAFT = 'draft'
+const NONE = ''
+
+const percent = (value: number | null) => (value === null ? 'n/a' : `${Math.round(value * 100)}%`)
+
+const METRIC_ROWS: Array<{ label: string; hint: string; value: (m: EvaluationMetrics) => string }> = [
+  { label: 'Score', hint: 'Average of the metrics below (0-100)', value: m => String(m.score) },
+  { label: 'Questions', hint: 'Returned / requested', value: m => `${m.questionCount} / ${m.requestedCount}` },
+  { label: 'JSON validity', hint: 'Responses that pass question validation', value: m => percent(m.jsonValidity) },
+  { label: 'Difficulty accuracy', hint: 'Returned difficulty labels matching the request', value: m => percent(m.distributionAccuracy) },
+  { label: 'Duplicate rate', hint: 'Questions repeating an earlier one (lower is better)', value: m => percent(m.duplicateRate) },
+  {
+    label: 'Answer position bias',
+    hint: '0% = answers spread evenly over A-D (lower is better)',
+    value: m => `${percent(m.answerPositionBias)} (A${m.answerPositions.A} B${m.answerPositions.B} C${m.answerPositions.C} D${m.answerPositions.D})`
+  },
+  { label: 'Timestamp validity', hint: 'Context and explanation times that fall on the transcript', value: m => percent(m.timestampValidity) }
+]
+
+function EvaluationResults({ run }: { run: PromptEvalRun }) {
+  const results: CandidateEvaluation[] = run.results
+  const errors = results.flatMap(result =>
+    result.fixtures.flatMap(fixture =>
+      fixture.attempts
+        .filter(attempt => attempt.error)
+        .map(attempt => `${result.label} · ${fixture.fixtureName} · ${attempt.difficulty}: ${attempt.error}`)
+    )
+  )
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        {run.provider === 'stub' ? 'Stub provider (offline)' : `${run.provider}${run.model ? ` · ${run.model}` : ''}`}
+        {' · '}
+        {new Date(run.created_at || '').toLocaleString()}
+      </p>
+
+      <div className="border border-gray-200 rounded-md overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Metric</th>
+              {results.map(result => (
+                <th key={result.label} className="px-4 py-2 text-left font-medium text-gray-900">{result.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {METRIC_ROWS.map(row => (
+              <tr key={row.label}>
+                <td className="px-4 py-2 text-gray-700" title={row.hint}>{row.label}</td>
+                {results.map(result => (
+                  <td key={result.label} className="px-4 py-2 font-mono text-gray-900">{row.value(result.metrics)}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-gray-700">Per-fixture scores</summary>
+        <ul className="mt-2 space-y-1">
+          {results.flatMap(result =>
+            result.fixtures.map(fixture => (
+              <li key={`${result.label}-${fixture.fixtureId}`} className="text-gray-600">
+                <span className="font-medium text-gray-900">{result.label}</span> · {fixture.fixtureName}:{' '}
+                {fixture.metrics.score} ({fixture.metrics.questionCount}/{fixture.metrics.requestedCount} questions, JSON{' '}
+                {percent(fixture.metrics.jsonValidity)}, timestamps {percent(fixture.metrics.timestampValidity)})
+              </li>
+            ))
+          )}
+        </ul>
+      </details>
+
+      {errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700 space-y-1">
+          {errors.map((error, i) => (
+            <p key={i}>{error}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function PromptEvaluationPanel({ promptId, versions = [], currentVersionId, draft }: PromptEvaluationPanelProps) {
+  const { data: fixtures = [], isLoading: fixturesLoading } = usePromptEvalFixtures()
+  const { data: runs = [] } = usePromptEvalRuns(promptId)
+  const runMutation = useRunPromptEvaluation()
+  const createFixtureMutation = useCreatePromptEvalFixture()
+  const deleteFixtureMutation = useDeletePromptEvalFixture()
+
+  const defaultCandidate = draft ? DRAFT : currentVersionId || versions[0]?.id || NONE
+  const [candidateA, setCandidateA] = useState(defaultCandidate)
+  const [candidateB, setCandidateB] = useState(NONE)
+  const [selectedFixtures, setSelectedFixtures] = useState<string[] | null>(null)
+  const [preset, setPreset] = useState({ easy: 2, medium: 2, hard: 2 })
+  const [provider, setProvider] = useState<'stub' | 'configured'>('stub')
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null)
+  const [latestRun, setLatestRun] = useState<PromptEvalRun | null>(null)
+  const [showFixtureForm, setShowFixtureForm] = useState(false)
+  const [fixtureForm, setFixtureForm] = useState({ name: '', transcript: '', subtitles: '' })
+  const [error, setError] = useState<string | null>(null)
+
+  // Versions load after the panel mounts
+  useEffect(() => {
+    if (!candidateA && defaultCandidate) setCandidateA(defaultCandidate)
+  }, [candidateA, defaultCandidate])
+
+  const fixtureIds = selectedFixtures ?? fixtures.map(fixture => fixture.id)
+  const shownRun = (selectedRunId && runs.find(run => run.id === selectedRunId)) || latestRun
+
+  const candidateOptions = [
+    ...(draft ? [{ value: DRAFT, label: 'Unsaved draft' }] : []),
+    ...versions.map(version => ({
+      value: version.id,
+      label: `Version ${version.version_number}${version.id === currentVersionId ? ' (current)' : ''}`
+    }))
+  ]
+
+  const toCandidate = (value: string): CandidateInput | null => {
+    if (value === DRAFT && draft) return { label: 'Draft', ...draft }
+    const version = versions.find(v => v.id === value)
+    return version ? { versionId: version.id, label: `Version ${version.version_number}` } : null
+  }
+
+  const toggleFixture = (id: string) => {
+    setSelectedFixtures(fixtureIds.includes(id) ? fixtureIds.filter(f => f !== id) : [...fixtureIds, id])
+  }
+
+  const handleRun = async () => {
+    setError(null)
+    const candidates = [candidateA, candidateB]
+      .filter(value => value !== NONE)
+      .map(toCandidate)
+      .filter((candidate): candidate is CandidateInput => candidate !== null)
+
+    if (candidates.length === 0) {
+      setError('Choose a prompt to evaluate')
+      return
+    }
+    if (fixtureIds.length === 0) {
+      setError('Select at least one fixture')
+      return
+    }
+
+    try {
+      const run = await runMutation.mutateAsync({
+        promptId,
+        candidates,
+        fixtureIds,
+        preset,
+        provider: provider === 'stub' ? 'stub' : undefined
+      })
+      setLatestRun(run)
+      setSelectedRunId(null)
+    } catch (error: any) {
+      console.error('Error running prompt evaluation:', error)
+      setError(error.message || 'Failed to run evaluation')
+    }
+  }
+
+  const handleCreateFixture = async () => {
+    setError(null)
+    try {
+      const fixture = await createFixtureMutation.mutateAsync({
+        name: fixtureForm.name.trim(),
+        transcript: fixtureForm.transcript.trim() || undefined,
+        subtitles: fixtureForm.subtitles.trim() || undefined
+      })
+      if (selectedFixtures) setSelectedFixtures([...selectedFixtures, fixture.id])
+      setFixtureForm({ name: '', transcript: '', subtitles: '' })
+      setShowFixtureForm(false)
+    } catch (error: any) {
+      console.error('Error creating fixture:', error)
+      setError(error.message || 'Failed to save fixture')
+    }
+  }
+
+  const selectClassName =
+    'mt-1 block w-full rounded-md border border-gray-300 py-2 px-3 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 text-sm'
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-medium text-gray-900 flex items-center">
+          <FlaskConical className="h-5 w-5 mr-2" />
+          Evaluate
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Generate questions from fixture transcripts and score the output. The stub provider runs offline and only
+          checks the prompt plumbing; use the configured provider to judge question quality.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Prompt</label>
+          <select value={candidateA} onChange={e => setCandidateA(e.target.value)} className={selectClassName}>
+            {candidateOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Compare with</label>
+          <select value={candidateB} onChange={e => setCandidateB(e.target.value)} className={selectClassName}>
+            <option value={NONE}>Nothing</option>
+            {candidateOptions
+              .filter(option => option.value !== candidateA)
+              .map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Provider</label>
+          <select
+            value={provider}
+            onChange={e => setProvider(e.target.value as 'stub' | 'configured')}
+            className={selectClassName}
+          >
+            <option value="stub">Stub (offline)</option>
+            <option value="configured">Configured provider</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Questions (easy / medium / hard)</label>
+          <div className="mt-1 flex space-x-2">
+            {(['easy', 'medium', 'hard'] as const).map(level => (
+              <input
+                key={level}
+                type="number"
+                min="0"
+                max="10"
+                aria-label={`${level} questions`}
+                value={preset[level]}
+                onChange={e => setPreset(prev => ({ ...prev, [level]: Math.max(0, parseInt(e.target.value) || 0) }))}
+                className="block w-full rounded-md border border-gray-300 py-2 px-2 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 text-sm"
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Fixtures */}
+      <div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700">Fixture transcripts</span>
+          <button
+            type="button"
+            onClick={() => setShowFixtureForm(!showFixtureForm)}
+            className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add fixture
+          </button>
+        </div>
+
+        {fixturesLoading ? (
+          <div className="mt-2 h-4 bg-gray-200 rounded w-1/3 animate-pulse"></div>
+        ) : fixtures.length === 0 ? (
+          <p className="mt-2 text-sm text-gray-500">No fixtures yet. Add a transcript to evaluate against.</p>
+        ) : (
+          <ul className="mt-2 divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {fixtures.map(fixture => (
+              <li key={fixture.id} className="flex items-center justify-between px-4 py-2">
+                <label className="flex items-center space-x-2 text-sm text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={fixtureIds.includes(fixture.id)}
+                    onChange={() => toggleFixture(fixture.id)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span>{fixture.name}</span>
+                  <span className="text-xs text-gray-500">
+                    {Array.isArray(fixture.segments) && fixture.segments.length > 0
+                      ? `${fixture.segments.length} timed segments`
+                      : 'no timings'}
+                  </span>
+                </label>
+                <button
+                  type="button"
+                  onClick={() => deleteFixtureMutation.mutate(fixture.id)}
+                  disabled={deleteFixtureMutation.isPending}
+                  className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                  title="Delete fixture"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {showFixtureForm && (
+          <div className="mt-3 space-y-3 border border-gray-200 rounded-md p-4">
+            <input
+              type="text"
+              value={fixtureForm.name}
+              onChange={e => setFixtureForm(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Fixture name"
+              className={selectClassName}
+            />
+            <textarea
+              value={fixtureForm.subtitles}
+              onChange={e => setFixtureForm(prev => ({ ...prev, subtitles: e.target.value }))}
+              rows={4}
+              placeholder="Paste SRT or WebVTT subtitles (enables timestamp checks)"
+              className={`${selectClassName} font-mono`}
+            />
+            <textarea
+              value={fixtureForm.transcript}
+              onChange={e => setFixtureForm(prev => ({ ...prev, transcript: e.target.value }))}
+              rows={3}
+              placeholder="...or a plain transcript"
+              className={selectClassName}
+            />
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={handleCreateFixture}
+                disabled={
+                  createFixtureMutation.isPending ||
+                  !fixtureForm.name.trim() ||
+                  !(fixtureForm.transcript.trim() || fixtureForm.subtitles.trim())
+                }
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {createFixtureMutation.isPending ? 'Saving...' : 'Save Fixture'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={handleRun}
+          disabled={runMutation.isPending || candidateOptions.length === 0}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <FlaskConical className="h-4 w-4 mr-2" />
+          {runMutation.isPending ? 'Evaluating...' : 'Run Evaluation'}
+        </button>
+      </div>
+
+      {runs.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Previous runs</label>
+          <select
+            value={selectedRunId || ''}
+            onChange={e => setSelectedRunId(e.target.value || null)}
+            className={selectClassName}
+          >
+            <option value="">{latestRun ? 'Latest run' : 'Choose a run'}</option>
+            {runs.map(run => (
+              <option key={run.id} value={run.id}>
+                {new Date(run.created_at || '').toLocaleString()} · {run.results.map(r => `${r.label}: ${r.metrics.score}`).join(', ')}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {shownRun && <EvaluationResults run={shownRun} />}
+    </div>
+  )
+}
@@ -0,0 +1,244 @@
+'use client'
+
+import { useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeft, Play, Square, Trophy } from 'lucide-react'
+import { CustomPromptService } from '@/lib/services/custom-prompt-service'
+import type { VariantOutcome } from '@/lib/services/prompt-experiment-service'
+import {
+  usePromoteExperimentWinner,
+  usePromptExperiment,
+  useUpdatePromptExperimentStatus
+} from '@/hooks/use-prompt-experiments'
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`)
+
+// Best value per metric, so the leading variant stands out
+function leaders(outcomes: VariantOutcome[]) {
+  const best = (values: (number | null)[], lowerIsBetter = false) => {
+    const present = values.filter((value): value is number => value !== null)
+    if (present.length < 2) return null
+    return lowerIsBetter ? Math.min(...present) : Math.max(...present)
+  }
+
+  return {
+    averageScore: best(outcomes.map(outcome => outcome.averageScore)),
+    discrimination: best(outcomes.map(outcome => outcome.discrimination)),
+    completionRate: best(outcomes.map(outcome => outcome.completionRate)),
+    reportRate: best(outcomes.map(outcome => outcome.reportRate), true)
+  }
+}
+
+export default function PromptExperimentDetail() {
+  const params = useParams()
+  const experimentId = params.id as string
+
+  const { data, isLoading, error } = usePromptExperiment(experimentId)
+  const updateStatusMutation = useUpdatePromptExperimentStatus()
+  const promoteMutation = usePromoteExperimentWinner()
+  const [promoteConfirm, setPromoteConfirm] = useState<VariantOutcome | null>(null)
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse">
+        <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+          <div className="h-32 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-4">
+        <h3 className="text-sm font-medium text-red-800">Error loading experiment</h3>
+        <div className="mt-2 text-sm text-red-700">{error?.message || 'Experiment not found'}</div>
+      </div>
+    )
+  }
+
+  const { experiment, outcomes } = data
+  const best = leaders(outcomes)
+  const highlight = (value: number | null, leader: number | null) =>
+    value !== null && value === leader ? 'font-semibold text-green-700' : 'text-gray-900'
+
+  const handleStatus = async (action: 'start' | 'stop') => {
+    try {
+      await updateStatusMutation.mutateAsync({ id: experimentId, action })
+    } catch (error: any) {
+      console.error('Error updating experiment:', error)
+      alert(error.message || 'Failed to update experiment')
+    }
+  }
+
+  const handlePromote = async (outcome: VariantOutcome) => {
+    try {
+      await promoteMutation.mutateAsync({ id: experimentId, promptId: outcome.promptId })
+      setPromoteConfirm(null)
+    } catch (error: any) {
+      console.error('Error promoting winner:', error)
+      alert(error.message || 'Failed to promote winner')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <Link href="/admin/prompts/experiments" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to experiments
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">{experiment.name}</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {CustomPromptService.getCategoryDisplayName(experiment.category).en}
+            {experiment.started_at && ` • Started ${new Date(experiment.started_at).toLocaleString()}`}
+            {experiment.ended_at && ` • Ended ${new Date(experiment.ended_at).toLocaleString()}`}
+          </p>
+          {experiment.description && <p className="mt-2 text-gray-600">{experiment.description}</p>}
+        </div>
+
+        <div className="flex items-center space-x-3">
+          {experiment.status === 'draft' && (
+            <button
+              onClick={() => handleStatus('start')}
+              disabled={updateStatusMutation.isPending}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+            >
+              <Play className="h-4 w-4 mr-2" />
+              Start
+            </button>
+          )}
+          {experiment.status === 'running' && (
+            <button
+              onClick={() => handleStatus('stop')}
+              disabled={updateStatusMutation.isPending}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Outcomes */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-1">Outcomes by variant</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Scores and item discrimination come from individual submissions and group results on the sets each variant generated.
+          Completion is learners who finished out of those who started; report rate is the share of served questions learners reported.
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="py-2 pr-4">Variant</th>
+                <th className="py-2 pr-4">Weight</th>
+                <th className="py-2 pr-4">Sets</th>
+                <th className="py-2 pr-4">Attempts</th>
+                <th className="py-2 pr-4">Avg score</th>
+                <th className="py-2 pr-4">Discrimination</th>
+                <th className="py-2 pr-4">Completion</th>
+                <th className="py-2 pr-4">Reported</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {outcomes.map(outcome => {
+                const isWinner = experiment.winner_prompt_id === outcome.promptId
+                return (
+                  <tr key={outcome.variantId}>
+                    <td className="py-3 pr-4">
+                      <Link href={`/admin/prompts/${outcome.promptId}`} className="text-blue-600 hover:text-blue-900">
+                        {outcome.promptName}
+                      </Link>
+                      {isWinner && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                          <Trophy className="h-3 w-3 mr-1" />
+                          Winner
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4 text-gray-900">{outcome.weight}</td>
+                    <td className="py-3 pr-4 text-gray-900">{outcome.questionSets}</td>
+                    <td className="py-3 pr-4 text-gray-900">{outcome.attempts}</td>
+                    <td className={`py-3 pr-4 ${highlight(outcome.averageScore, best.averageScore)}`}>
+                      {outcome.averageScore === null ? '—' : `${outcome.averageScore}%`}
+                    </td>
+                    <td className={`py-3 pr-4 ${highlight(outcome.discrimination, best.discrimination)}`}>
+                      {outcome.discrimination === null ? '—' : outcome.discrimination.toFixed(2)}
+                    </td>
+                    <td className={`py-3 pr-4 ${highlight(outcome.completionRate, best.completionRate)}`}>
+                      {formatPercent(outcome.completionRate)}
+                      <span className="ml-1 text-xs text-gray-500">({outcome.completed}/{outcome.started})</span>
+                    </td>
+                    <td className={`py-3 pr-4 ${highlight(outcome.reportRate, best.reportRate)}`}>
+                      {formatPercent(outcome.reportRate)}
+                      <span className="ml-1 text-xs text-gray-500">({outcome.reportedQuestions}/{outcome.questionsServed})</span>
+                    </td>
+                    <td className="py-3 text-right">
+                      {!isWinner && (
+                        <button
+                          onClick={() => setPromoteConfirm(outcome)}
+                          disabled={promoteMutation.isPending}
+                          className="px-3 py-1 text-xs rounded bg-yellow-100 text-yellow-800 hover:bg-yellow-200 disabled:opacity-50"
+                        >
+                          Promote to default
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {outcomes.every(outcome => outcome.questionSets === 0) && (
+          <p className="mt-4 text-sm text-gray-500">
+            {experiment.status === 'draft'
+              ? 'Start the experiment to begin splitting generation requests.'
+              : 'No question sets have been generated for this experiment yet.'}
+          </p>
+        )}
+      </div>
+
+      {/* Promote Confirmation Modal */}
+      {promoteConfirm && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+            <div className="mt-3 text-center">
+              <h3 className="text-lg font-medium text-gray-900">Promote Winner</h3>
+              <div className="mt-2 px-7 py-3">
+                <p className="text-sm text-gray-500">
+                  Make &quot;{promoteConfirm.promptName}&quot; the default prompt for this category? This also ends the experiment.
+                </p>
+              </div>
+              <div className="flex justify-center space-x-4 mt-4">
+                <button
+                  onClick={() => setPromoteConfirm(null)}
+                  className="px-4 py-2 bg-gray-300 text-gray-800 rounded-md hover:bg-gray-400"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => handlePromote(promoteConfirm)}
+                  disabled={promoteMutation.isPending}
+                  className="px-4 py-2 bg-yellow-600 text-white rounded-md hover:bg-yellow-700 disabled:opacity-50"
+                >
+                  {promoteMutation.isPending ? 'Promoting...' : 'Promote'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
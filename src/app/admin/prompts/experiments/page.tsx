@@ -0,0 +1,347 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Eye, FlaskConical, Plus, Trash2 } from 'lucide-react'
+import { CustomPromptService } from '@/lib/services/custom-prompt-service'
+import { useAdminPrompts } from '@/hooks/use-prompts'
+import {
+  useCreatePromptExperiment,
+  useDeletePromptExperiment,
+  usePromptExperiments
+} from '@/hooks/use-prompt-experiments'
+
+const CATEGORIES = [
+  'listening_comprehension',
+  'detail_focused',
+  'inference_implication',
+  'tone_analysis',
+  'vocabulary_context',
+  'language_function',
+  'general'
+] as const
+
+const STATUS_STYLES: Record<string, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  running: 'bg-green-100 text-green-800',
+  completed: 'bg-blue-100 text-blue-800'
+}
+
+export default function PromptExperimentsPage() {
+  const { data: experiments = [], isLoading, error } = usePromptExperiments()
+  const { data: prompts = [] } = useAdminPrompts()
+  const createExperimentMutation = useCreatePromptExperiment()
+  const deleteExperimentMutation = useDeletePromptExperiment()
+
+  const [showForm, setShowForm] = useState(false)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [category, setCategory] = useState<string>(CATEGORIES[0])
+  // Weight per selected prompt id
+  const [weights, setWeights] = useState<Record<string, number>>({})
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
+
+  const categoryPrompts = useMemo(
+    () => prompts.filter(prompt => prompt.category === category),
+    [prompts, category]
+  )
+
+  const resetForm = () => {
+    setName('')
+    setDescription('')
+    setWeights({})
+    setShowForm(false)
+  }
+
+  const toggleVariant = (promptId: string) => {
+    setWeights(prev => {
+      const next = { ...prev }
+      if (next[promptId]) {
+        delete next[promptId]
+      } else {
+        next[promptId] = 50
+      }
+      return next
+    })
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const variants = Object.entries(weights).map(([prompt_id, weight]) => ({ prompt_id, weight }))
+    if (variants.length < 2) {
+      alert('Select at least two prompts to compare')
+      return
+    }
+
+    try {
+      await createExperimentMutation.mutateAsync({
+        name,
+        description: description || undefined,
+        category,
+        variants
+      })
+      resetForm()
+    } catch (error: any) {
+      console.error('Error creating experiment:', error)
+      alert(error.message || 'Failed to create experiment')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteExperimentMutation.mutateAsync(id)
+      setDeleteConfirm(null)
+    } catch (error: any) {
+      console.error('Error deleting experiment:', error)
+      alert(error.message || 'Failed to delete experiment')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse">
+        <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="bg-white rounded-lg shadow p-6">
+              <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-4">
+        <h3 className="text-sm font-medium text-red-800">Error loading experiments</h3>
+        <div className="mt-2 text-sm text-red-700">{error.message}</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <Link href="/admin/prompts" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to prompts
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">Prompt Experiments</h1>
+          <p className="mt-2 text-gray-600">
+            Split question generation between prompts of a category and compare how learners do with each.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Experiment
+        </button>
+      </div>
+
+      {/* Create Form */}
+      {showForm && (
+        <form onSubmit={handleCreate} className="bg-white shadow rounded-lg p-6 space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                required
+                className="mt-1 w-full rounded-md border border-gray-300 py-2 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Category</label>
+              <select
+                className="mt-1 w-full rounded-md border border-gray-300 py-2 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={category}
+                onChange={(e) => {
+                  setCategory(e.target.value)
+                  setWeights({})
+                }}
+              >
+                {CATEGORIES.map(value => (
+                  <option key={value} value={value}>
+                    {CustomPromptService.getCategoryDisplayName(value).en}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Description</label>
+            <textarea
+              rows={2}
+              className="mt-1 w-full rounded-md border border-gray-300 py-2 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Variants</label>
+            {categoryPrompts.length < 2 ? (
+              <p className="text-sm text-gray-500">This category needs at least two prompts to run an experiment.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {categoryPrompts.map(prompt => (
+                  <li key={prompt.id} className="flex items-center justify-between px-4 py-2">
+                    <label className="flex items-center space-x-2 text-sm text-gray-900">
+                      <input
+                        type="checkbox"
+                        checked={!!weights[prompt.id]}
+                        onChange={() => toggleVariant(prompt.id)}
+                      />
+                      <span>{prompt.name}</span>
+                      {prompt.is_default && <span className="text-xs text-yellow-700">(default)</span>}
+                    </label>
+                    {weights[prompt.id] && (
+                      <label className="flex items-center space-x-2 text-sm text-gray-600">
+                        <span>Weight</span>
+                        <input
+                          type="number"
+                          min={1}
+                          max={100}
+                          className="w-20 rounded-md border border-gray-300 py-1 px-2 text-sm"
+                          value={weights[prompt.id]}
+                          onChange={(e) =>
+                            setWeights(prev => ({
+                              ...prev,
+                              [prompt.id]: Math.min(100, Math.max(1, parseInt(e.target.value, 10) || 1))
+                            }))
+                          }
+                        />
+                      </label>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="mt-2 text-xs text-gray-500">
+              Generation requests for any selected prompt are split between the selected prompts in proportion to their weights while the experiment runs.
+            </p>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={createExperimentMutation.isPending}
+              className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {createExperimentMutation.isPending ? 'Creating...' : 'Create Draft'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Experiments List */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        <ul className="divide-y divide-gray-200">
+          {experiments.map(experiment => (
+            <li key={experiment.id} className="px-6 py-4 hover:bg-gray-50">
+              <div className="flex items-center justify-between">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <h3 className="text-lg font-medium text-gray-900 truncate">{experiment.name}</h3>
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[experiment.status]}`}>
+                      {experiment.status.charAt(0).toUpperCase() + experiment.status.slice(1)}
+                    </span>
+                  </div>
+                  <div className="mt-1 flex items-center space-x-4 text-sm text-gray-500">
+                    <span className="font-medium">
+                      {CustomPromptService.getCategoryDisplayName(experiment.category).en}
+                    </span>
+                    <span>•</span>
+                    <span>{experiment.variants.map(variant => variant.prompt_name).join(' vs ')}</span>
+                    {experiment.started_at && (
+                      <>
+                        <span>•</span>
+                        <span>Started {new Date(experiment.started_at).toLocaleDateString()}</span>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2 ml-4">
+                  <Link
+                    href={`/admin/prompts/experiments/${experiment.id}`}
+                    className="text-blue-600 hover:text-blue-900"
+                    title="View outcomes"
+                  >
+                    <Eye className="h-4 w-4" />
+                  </Link>
+                  <button
+                    onClick={() => setDeleteConfirm(experiment.id)}
+                    className="text-red-600 hover:text-red-900"
+                    title="Delete experiment"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {experiments.length === 0 && (
+          <div className="text-center py-12">
+            <FlaskConical className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No experiments yet</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Create an experiment to compare prompts on real learner outcomes.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Delete Confirmation Modal */}
+      {deleteConfirm && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+            <div className="mt-3 text-center">
+              <h3 className="text-lg font-medium text-gray-900">Delete Experiment</h3>
+              <div className="mt-2 px-7 py-3">
+                <p className="text-sm text-gray-500">
+                  This deletes the experiment and its recorded outcomes. The prompts themselves are kept.
+                </p>
+              </div>
+              <div className="flex justify-center space-x-4 mt-4">
+                <button
+                  onClick={() => setDeleteConfirm(null)}
+                  className="px-4 py-2 bg-gray-300 text-gray-800 rounded-md hover:bg-gray-400"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => handleDelete(deleteConfirm)}
+                  disabled={deleteExperimentMutation.isPending}
+                  className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+                >
+                  {deleteExperimentMutation.isPending ? 'Deleting...' : 'Delete'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,6 +6,7 @@ import Link from 'next/link'
 import { ArrowLeft, Save } from 'lucide-react'
 import { CustomPromptService } from '@/lib/services/custom-prompt-service'
 import { useCreatePrompt } from '@/hooks/use-prompts'
+import { PromptEvaluationPanel } from '../components/PromptEvaluationPanel'
 
 const CATEGORIES = [
   'listening_comprehension',
@@ -360,6 +361,14 @@ export default function NewPrompt() {
           </button>
         </div>
       </form>
+
+      <PromptEvaluationPanel
+        draft={{
+          system_prompt: formData.system_prompt,
+          user_template: formData.user_template,
+          config: { maxTokens: formData.maxTokens, temperature: formData.temperature }
+        }}
+      />
     </div>
   )
 }
\ No newline at end of file
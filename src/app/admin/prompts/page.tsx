@@ -2,7 +2,7 @@
 
 import { useState, useMemo } from 'react'
 import Link from 'next/link'
-import { Plus, Edit, Trash2, Eye, Star, StarOff, Filter, Search, MessageSquare } from 'lucide-react'
+import { Plus, Edit, Trash2, Eye, Star, StarOff, Filter, Search, MessageSquare, FlaskConical } from 'lucide-react'
 import { CustomPromptService } from '@/lib/services/custom-prompt-service'
 import { 
   useAdminPrompts, 
@@ -139,13 +139,22 @@ export default function PromptsManagement() {
             Manage specialized question generation prompts for different learning objectives.
           </p>
         </div>
-        <Link
-          href="/admin/prompts/new"
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          New Prompt
-        </Link>
+        <div className="flex items-center space-x-3">
+          <Link
+            href="/admin/prompts/experiments"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <FlaskConical className="h-4 w-4 mr-2" />
+            Experiments
+          </Link>
+          <Link
+            href="/admin/prompts/new"
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Prompt
+          </Link>
+        </div>
       </div>
 
       {/* Filters */}
@@ -0,0 +1,231 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Gauge, Search, Users } from 'lucide-react'
+import { useAdminUserUsage, useOverridePlan } from '@/hooks/use-admin-usage'
+import {
+  ALL_USAGE_FEATURES,
+  USAGE_FEATURES,
+  type PlanId,
+  type PlanLimits,
+  type UsageFeature
+} from '@/lib/services/usage-service'
+
+// Blank keeps the plan's limit
+interface LimitDraft {
+  value: string
+  unlimited: boolean
+}
+
+const emptyDrafts = (): Record<UsageFeature, LimitDraft> =>
+  Object.fromEntries(ALL_USAGE_FEATURES.map(feature => [feature, { value: '', unlimited: false }])) as Record<
+    UsageFeature,
+    LimitDraft
+  >
+
+const formatLimit = (limit: number | null) => (limit === null ? 'Unlimited' : limit.toLocaleString())
+
+export default function UserPlansManagement() {
+  const [emailInput, setEmailInput] = useState('')
+  const [email, setEmail] = useState('')
+  const { data, isLoading: loading, error } = useAdminUserUsage(email)
+  const overrideMutation = useOverridePlan(data?.user.id)
+
+  const [planId, setPlanId] = useState<PlanId>('free')
+  const [drafts, setDrafts] = useState(emptyDrafts)
+  const [resetUsage, setResetUsage] = useState(false)
+
+  // Start the form from the user's current plan and overrides
+  useEffect(() => {
+    if (!data) return
+    setPlanId(data.usage.plan.id)
+    const next = emptyDrafts()
+    for (const feature of ALL_USAGE_FEATURES) {
+      const override = data.usage.overrides[feature]
+      if (override === null) next[feature] = { value: '', unlimited: true }
+      else if (override !== undefined) next[feature] = { value: String(override), unlimited: false }
+    }
+    setDrafts(next)
+    setResetUsage(false)
+  }, [data])
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setEmail(emailInput.trim())
+  }
+
+  const handleSave = async () => {
+    const limits: Partial<PlanLimits> = {}
+    for (const feature of ALL_USAGE_FEATURES) {
+      const draft = drafts[feature]
+      if (draft.unlimited) limits[feature] = null
+      else if (draft.value.trim() !== '') limits[feature] = Math.max(0, Math.floor(Number(draft.value)))
+    }
+
+    try {
+      await overrideMutation.mutateAsync({ planId, limits, resetUsage })
+    } catch (error: any) {
+      console.error('Error updating plan:', error)
+      alert(error.message || 'Failed to update plan')
+    }
+  }
+
+  const updateDraft = (feature: UsageFeature, update: Partial<LimitDraft>) =>
+    setDrafts(prev => ({ ...prev, [feature]: { ...prev[feature], ...update } }))
+
+  const selectedPlan = data?.plans.find(plan => plan.id === planId)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Users & Plans</h1>
+        <p className="mt-2 text-gray-600">
+          Look up a user&apos;s monthly usage and override their plan or individual limits.
+        </p>
+      </div>
+
+      <form onSubmit={handleSearch} className="flex gap-2">
+        <input
+          type="email"
+          value={emailInput}
+          onChange={e => setEmailInput(e.target.value)}
+          placeholder="user@example.com"
+          className="w-full max-w-md rounded-md border border-gray-300 py-2 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <Search className="h-4 w-4 mr-2" />
+          Find user
+        </button>
+      </form>
+
+      {loading && (
+        <div className="animate-pulse bg-white rounded-lg shadow p-6">
+          <div className="h-4 bg-gray-200 rounded w-1/3 mb-2"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-700">
+          {error.message}
+        </div>
+      )}
+
+      {!email && (
+        <div className="text-center py-12">
+          <Users className="mx-auto h-12 w-12 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">Search by email to manage a user&apos;s plan.</p>
+        </div>
+      )}
+
+      {data && (
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+          {/* Current usage */}
+          <div className="bg-white rounded-lg shadow">
+            <div className="px-6 py-4 border-b">
+              <h2 className="text-lg font-medium text-gray-900">{data.user.full_name || data.user.email}</h2>
+              <p className="text-sm text-gray-500">
+                {data.user.email} · {data.usage.plan.name} plan · {data.usage.month}
+              </p>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Feature</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Used</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Limit</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {data.usage.features.map(usage => (
+                  <tr key={usage.feature}>
+                    <td className="px-6 py-3 text-gray-900">{usage.label}</td>
+                    <td className={`px-6 py-3 ${usage.remaining === 0 ? 'font-semibold text-red-600' : 'text-gray-600'}`}>
+                      {usage.used.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-3 text-gray-600">
+                      {formatLimit(usage.limit)}
+                      {usage.feature in data.usage.overrides && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                          Override
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="px-6 py-3 text-xs text-gray-500">
+              Resets {new Date(data.usage.resetsAt).toLocaleString()}
+            </p>
+          </div>
+
+          {/* Override form */}
+          <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <h2 className="flex items-center text-lg font-medium text-gray-900">
+              <Gauge className="h-5 w-5 mr-2 text-blue-600" />
+              Override plan
+            </h2>
+
+            <label className="block text-sm font-medium text-gray-700">
+              Plan
+              <select
+                value={planId}
+                onChange={e => setPlanId(e.target.value as PlanId)}
+                className="mt-1 block w-full rounded-md border border-gray-300 py-2 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {data.plans.map(plan => (
+                  <option key={plan.id} value={plan.id}>{plan.name}</option>
+                ))}
+              </select>
+            </label>
+
+            <div className="space-y-3">
+              <p className="text-sm font-medium text-gray-700">Custom limits</p>
+              {ALL_USAGE_FEATURES.map(feature => (
+                <div key={feature} className="flex items-center gap-3 text-sm">
+                  <span className="w-48 text-gray-600">{USAGE_FEATURES[feature].label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={drafts[feature].value}
+                    disabled={drafts[feature].unlimited}
+                    onChange={e => updateDraft(feature, { value: e.target.value })}
+                    placeholder={selectedPlan ? formatLimit(selectedPlan.limits[feature]) : ''}
+                    className="w-28 rounded-md border border-gray-300 py-1 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                  />
+                  <label className="flex items-center gap-1 text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={drafts[feature].unlimited}
+                      onChange={e => updateDraft(feature, { unlimited: e.target.checked })}
+                    />
+                    Unlimited
+                  </label>
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">Leave a limit blank to use the plan&apos;s.</p>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={resetUsage} onChange={e => setResetUsage(e.target.checked)} />
+              Reset this month&apos;s usage
+            </label>
+
+            <button
+              onClick={handleSave}
+              disabled={overrideMutation.isPending}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {overrideMutation.isPending ? 'Saving...' : 'Save override'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { registerScheduledJobs } from '@/lib/scheduled-tasks'
+
+// Resolve the admin making the request, or the error response to return
+async function getAdminUser(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    console.error('Supabase client not configured')
+    return { error: corsResponse({ error: 'Database not configured' }, 500) }
+  }
+
+  const user = await getCurrentUserServer(supabase)
+
+  if (!user) {
+    return { error: corsResponse({ error: 'Unauthorized' }, 401) }
+  }
+
+  const isAdmin = user.user_metadata?.role === 'admin' || user.raw_user_meta_data?.role === 'admin'
+
+  if (!isAdmin) {
+    return { error: corsResponse({ error: 'Admin access required' }, 403) }
+  }
+
+  return { user }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// POST /api/admin/jobs/[name]/run - Run a job now, outside its schedule
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { user, error: adminError } = await getAdminUser(request)
+  if (adminError) return adminError
+
+  const { name } = await params
+  const runner = registerScheduledJobs()
+
+  if (!runner.getRegisteredJobNames().includes(name)) {
+    return corsResponse({ error: 'Job not found' }, 404)
+  }
+
+  try {
+    const outcome = await runner.runJob(name, { force: true, triggeredBy: user.id })
+
+    if (!outcome) {
+      return corsResponse({ error: 'Job is already running' }, 409)
+    }
+
+    return corsResponse({ run: outcome.run, succeeded: outcome.succeeded })
+  } catch (error) {
+    console.error(`Error running job ${name}:`, error)
+    return corsResponse({ error: 'Failed to run job' }, 500)
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { registerScheduledJobs } from '@/lib/scheduled-tasks'
+
+// Check if user is admin
+async function checkAdminAccess(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    console.error('Supabase client not configured')
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  const user = await getCurrentUserServer(supabase)
+
+  if (!user) {
+    return corsResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  const isAdmin = user.user_metadata?.role === 'admin' || user.raw_user_meta_data?.role === 'admin'
+
+  if (!isAdmin) {
+    return corsResponse({ error: 'Admin access required' }, 403)
+  }
+
+  return null // No error
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// GET /api/admin/jobs - List background jobs and their recent runs
+export async function GET(request: NextRequest) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  const { searchParams } = new URL(request.url)
+
+  try {
+    const runner = registerScheduledJobs()
+    const [jobs, runs] = await Promise.all([
+      runner.listJobs(),
+      runner.listRuns({
+        jobName: searchParams.get('job') || undefined,
+        limit: Number(searchParams.get('limit')) || undefined
+      })
+    ])
+
+    return corsResponse({ jobs, runs })
+  } catch (error) {
+    console.error('Error fetching background jobs:', error)
+    return corsResponse({ error: 'Failed to fetch background jobs' }, 500)
+  }
+}
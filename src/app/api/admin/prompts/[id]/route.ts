@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
 import { corsResponse, corsHeaders } from '@/lib/cors'
+import { isSamePromptContent, promptVersionService } from '@/lib/services/prompt-version-service'
+import type { Json } from '@/lib/supabase/types'
 
 // Request validation schema
 const updatePromptSchema = z.object({
@@ -23,7 +25,9 @@ const updatePromptSchema = z.object({
     temperature: z.number().min(0).max(2).optional()
   }).optional(),
   is_active: z.boolean().optional(),
-  is_default: z.boolean().optional()
+  is_default: z.boolean().optional(),
+  // Recorded on the new version when the prompt content changes
+  change_note: z.string().max(500).optional()
 })
 
 // Check if user is admin
@@ -129,12 +133,39 @@ export async function PUT(
       }
     }
 
-    const { data: updatedPrompt, error } = await supabase
-      .from('custom_prompts')
-      .update(validatedData)
-      .eq('id', id)
-      .select()
-      .single()
+    const { change_note, system_prompt, user_template, config, ...details } = validatedData
+
+    // Content edits never overwrite in place; they become a new immutable version
+    if (system_prompt !== undefined || user_template !== undefined || config !== undefined) {
+      const { data: current, error: currentError } = await supabase
+        .from('custom_prompts')
+        .select('system_prompt, user_template, config')
+        .eq('id', id)
+        .single()
+
+      if (currentError) {
+        if (currentError.code === 'PGRST116') {
+          return corsResponse({ error: 'Prompt not found' }, 404)
+        }
+        console.error('Error fetching custom prompt:', currentError)
+        return corsResponse({ error: 'Failed to update prompt' }, 500)
+      }
+
+      const nextContent = {
+        system_prompt: system_prompt ?? current.system_prompt,
+        user_template: user_template ?? current.user_template,
+        config: config ? (config as Json) : current.config
+      }
+
+      if (!isSamePromptContent(current, nextContent)) {
+        await promptVersionService.createVersion(supabase, id, nextContent, { changeNote: change_note })
+      }
+    }
+
+    const query = supabase.from('custom_prompts')
+    const { data: updatedPrompt, error } = Object.keys(details).length > 0
+      ? await query.update(details).eq('id', id).select().single()
+      : await query.select('*').eq('id', id).single()
 
     if (error) {
       if (error.code === 'PGRST116') {
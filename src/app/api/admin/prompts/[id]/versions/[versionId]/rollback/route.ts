@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { promptVersionService } from '@/lib/services/prompt-version-service'
+
+// Check if user is admin
+async function checkAdminAccess(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  const user = await getCurrentUserServer(supabase)
+
+  if (!user) {
+    return corsResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  const isAdmin = user.user_metadata?.role === 'admin' || user.raw_user_meta_data?.role === 'admin'
+
+  if (!isAdmin) {
+    return corsResponse({ error: 'Admin access required' }, 403)
+  }
+
+  return null // No error
+}
+
+// POST /api/admin/prompts/[id]/versions/[versionId]/rollback - Restore an older version as a new one
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const { id, versionId } = await params
+    const version = await promptVersionService.rollback(supabase, id, versionId)
+
+    if (!version) {
+      return corsResponse({ error: 'Prompt version not found' }, 404)
+    }
+
+    const { data: prompt, error } = await supabase
+      .from('custom_prompts')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error) {
+      console.error('Error fetching rolled back prompt:', error)
+      return corsResponse({ error: 'Failed to fetch prompt' }, 500)
+    }
+
+    return corsResponse({ prompt, version })
+  } catch (error) {
+    console.error('Error rolling back prompt:', error)
+    return corsResponse({ error: 'Failed to roll back prompt' }, 500)
+  }
+}
+
+// OPTIONS /api/admin/prompts/[id]/versions/[versionId]/rollback - Handle preflight requests
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
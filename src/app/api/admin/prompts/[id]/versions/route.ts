@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { promptVersionService } from '@/lib/services/prompt-version-service'
+
+// Check if user is admin
+async function checkAdminAccess(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  const user = await getCurrentUserServer(supabase)
+
+  if (!user) {
+    return corsResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  const isAdmin = user.user_metadata?.role === 'admin' || user.raw_user_meta_data?.role === 'admin'
+
+  if (!isAdmin) {
+    return corsResponse({ error: 'Admin access required' }, 403)
+  }
+
+  return null // No error
+}
+
+// GET /api/admin/prompts/[id]/versions - Version history, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const { id } = await params
+    const versions = await promptVersionService.listVersions(supabase, id)
+
+    return corsResponse({ versions })
+  } catch (error) {
+    console.error('Error fetching prompt versions:', error)
+    return corsResponse({ error: 'Failed to fetch prompt versions' }, 500)
+  }
+}
+
+// OPTIONS /api/admin/prompts/[id]/versions - Handle preflight requests
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { promptEvalService } from '@/lib/services/prompt-eval-service'
+
+// Check if user is admin
+async function checkAdminAccess(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  const user = await getCurrentUserServer(supabase)
+
+  if (!user) {
+    return corsResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  const isAdmin = user.user_metadata?.role === 'admin' || user.raw_user_meta_data?.role === 'admin'
+
+  if (!isAdmin) {
+    return corsResponse({ error: 'Admin access required' }, 403)
+  }
+
+  return null // No error
+}
+
+// DELETE /api/admin/prompts/evaluations/fixtures/[fixtureId] - Remove a fixture transcript
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ fixtureId: string }> }
+) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const { fixtureId } = await params
+    await promptEvalService.deleteFixture(supabase, fixtureId)
+
+    return corsResponse({ message: 'Fixture deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting evaluation fixture:', error)
+    return corsResponse({ error: 'Failed to delete evaluation fixture' }, 500)
+  }
+}
+
+// OPTIONS /api/admin/prompts/evaluations/fixtures/[fixtureId] - Handle preflight requests
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
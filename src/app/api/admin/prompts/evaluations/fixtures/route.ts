@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { promptEvalService } from '@/lib/services/prompt-eval-service'
+import { parseSubtitles } from '@/lib/utils/subtitles'
+
+const createFixtureSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255, 'Name too long'),
+  description: z.string().max(1000).optional(),
+  video_title: z.string().max(255).optional(),
+  transcript: z.string().max(50000).optional(),
+  // SRT or WebVTT, so question timestamps can be checked
+  subtitles: z.string().max(200000).optional()
+}).refine(data => data.transcript?.trim() || data.subtitles?.trim(), 'A transcript or subtitles are required')
+
+// Check if user is admin
+async function checkAdminAccess(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  const user = await getCurrentUserServer(supabase)
+
+  if (!user) {
+    return corsResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  const isAdmin = user.user_metadata?.role === 'admin' || user.raw_user_meta_data?.role === 'admin'
+
+  if (!isAdmin) {
+    return corsResponse({ error: 'Admin access required' }, 403)
+  }
+
+  return null // No error
+}
+
+// GET /api/admin/prompts/evaluations/fixtures - List fixture transcripts
+export async function GET(request: NextRequest) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const fixtures = await promptEvalService.listFixtures(supabase)
+
+    return corsResponse({ fixtures })
+  } catch (error) {
+    console.error('Error fetching evaluation fixtures:', error)
+    return corsResponse({ error: 'Failed to fetch evaluation fixtures' }, 500)
+  }
+}
+
+// POST /api/admin/prompts/evaluations/fixtures - Save a fixture transcript
+export async function POST(request: NextRequest) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const body = await request.json()
+    const { subtitles, ...fixture } = createFixtureSchema.parse(body)
+
+    const segments = subtitles?.trim() ? parseSubtitles(subtitles) : []
+    if (subtitles?.trim() && segments.length === 0) {
+      return corsResponse({ error: 'No subtitle cues could be read' }, 400)
+    }
+
+    const created = await promptEvalService.createFixture(supabase, user.id, { ...fixture, segments })
+
+    return corsResponse({ fixture: created }, 201)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({
+        error: 'Validation failed',
+        details: error.issues
+      }, 400)
+    }
+
+    console.error('Error creating evaluation fixture:', error)
+    return corsResponse({ error: 'Failed to create evaluation fixture' }, 500)
+  }
+}
+
+// OPTIONS /api/admin/prompts/evaluations/fixtures - Handle preflight requests
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
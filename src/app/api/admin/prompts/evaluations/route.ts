@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { aiProviderSchema } from '@/lib/services/ai'
+import { promptEvalService } from '@/lib/services/prompt-eval-service'
+
+const candidateSchema = z.union([
+  z.object({
+    versionId: z.string().uuid(),
+    label: z.string().max(100).optional()
+  }),
+  z.object({
+    label: z.string().max(100).optional(),
+    system_prompt: z.string().min(10, 'System prompt is required'),
+    user_template: z.string().min(10, 'User template is required'),
+    config: z.object({
+      maxTokens: z.number().min(1000).max(64000).optional(),
+      temperature: z.number().min(0).max(2).optional()
+    }).optional()
+  })
+])
+
+const runEvaluationSchema = z.object({
+  promptId: z.string().uuid().optional(),
+  // One prompt, or two side by side
+  candidates: z.array(candidateSchema).min(1).max(2),
+  fixtureIds: z.array(z.string().uuid()).min(1).max(20).optional(),
+  preset: z.object({
+    easy: z.number().int().min(0).max(10),
+    medium: z.number().int().min(0).max(10),
+    hard: z.number().int().min(0).max(10)
+  }).refine(preset => preset.easy + preset.medium + preset.hard > 0, 'At least one question is required'),
+  provider: aiProviderSchema.optional()
+})
+
+// Check if user is admin
+async function checkAdminAccess(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  const user = await getCurrentUserServer(supabase)
+
+  if (!user) {
+    return corsResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  const isAdmin = user.user_metadata?.role === 'admin' || user.raw_user_meta_data?.role === 'admin'
+
+  if (!isAdmin) {
+    return corsResponse({ error: 'Admin access required' }, 403)
+  }
+
+  return null // No error
+}
+
+// GET /api/admin/prompts/evaluations - Recent evaluation runs, optionally for one prompt
+export async function GET(request: NextRequest) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const { searchParams } = new URL(request.url)
+    const runs = await promptEvalService.listRuns(supabase, {
+      promptId: searchParams.get('promptId') || undefined,
+      limit: Math.min(parseInt(searchParams.get('limit') || '10', 10) || 10, 50)
+    })
+
+    return corsResponse({ runs })
+  } catch (error) {
+    console.error('Error fetching evaluation runs:', error)
+    return corsResponse({ error: 'Failed to fetch evaluation runs' }, 500)
+  }
+}
+
+// POST /api/admin/prompts/evaluations - Run one or two prompts over fixture transcripts
+export async function POST(request: NextRequest) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const body = await request.json()
+    const { promptId, candidates, fixtureIds, preset, provider } = runEvaluationSchema.parse(body)
+
+    const fixtures = await promptEvalService.getFixtures(supabase, fixtureIds)
+    if (fixtures.length === 0) {
+      return corsResponse({ error: 'No evaluation fixtures found' }, 400)
+    }
+
+    const resolved = await promptEvalService.resolveCandidates(supabase, promptId, candidates)
+    if (!resolved) {
+      return corsResponse({ error: 'Prompt version not found' }, 404)
+    }
+
+    const run = await promptEvalService.runEvaluation(supabase, user.id, {
+      promptId,
+      candidates: resolved,
+      fixtures,
+      preset,
+      provider
+    })
+
+    return corsResponse({ run }, 201)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({
+        error: 'Validation failed',
+        details: error.issues
+      }, 400)
+    }
+
+    console.error('Error running prompt evaluation:', error)
+    return corsResponse({ error: 'Failed to run prompt evaluation' }, 500)
+  }
+}
+
+// OPTIONS /api/admin/prompts/evaluations - Handle preflight requests
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { promptExperimentService } from '@/lib/services/prompt-experiment-service'
+
+const promoteSchema = z.object({
+  promptId: z.string().uuid()
+})
+
+// Check if user is admin
+async function checkAdminAccess(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  const user = await getCurrentUserServer(supabase)
+
+  if (!user) {
+    return corsResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  const isAdmin = user.user_metadata?.role === 'admin' || user.raw_user_meta_data?.role === 'admin'
+
+  if (!isAdmin) {
+    return corsResponse({ error: 'Admin access required' }, 403)
+  }
+
+  return null // No error
+}
+
+// POST /api/admin/prompts/experiments/[experimentId]/promote - Make a variant the category default
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ experimentId: string }> }
+) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const { experimentId } = await params
+    const body = await request.json()
+    const { promptId } = promoteSchema.parse(body)
+
+    const experiment = await promptExperimentService.getExperiment(supabase, experimentId)
+    if (!experiment) {
+      return corsResponse({ error: 'Experiment not found' }, 404)
+    }
+
+    if (!experiment.variants.some(variant => variant.prompt_id === promptId)) {
+      return corsResponse({ error: 'Prompt is not a variant of this experiment' }, 400)
+    }
+
+    await promptExperimentService.promoteWinner(supabase, experimentId, promptId)
+    const updated = await promptExperimentService.getExperiment(supabase, experimentId)
+
+    return corsResponse({ experiment: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({
+        error: 'Validation failed',
+        details: error.issues
+      }, 400)
+    }
+
+    console.error('Error promoting experiment winner:', error)
+    return corsResponse({ error: 'Failed to promote experiment winner' }, 500)
+  }
+}
+
+// OPTIONS /api/admin/prompts/experiments/[experimentId]/promote - Handle preflight requests
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { promptExperimentService } from '@/lib/services/prompt-experiment-service'
+
+const updateExperimentSchema = z.object({
+  action: z.enum(['start', 'stop'])
+})
+
+// Check if user is admin
+async function checkAdminAccess(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  const user = await getCurrentUserServer(supabase)
+
+  if (!user) {
+    return corsResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  const isAdmin = user.user_metadata?.role === 'admin' || user.raw_user_meta_data?.role === 'admin'
+
+  if (!isAdmin) {
+    return corsResponse({ error: 'Admin access required' }, 403)
+  }
+
+  return null // No error
+}
+
+// GET /api/admin/prompts/experiments/[experimentId] - Experiment with per-variant outcomes
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ experimentId: string }> }
+) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const { experimentId } = await params
+    const experiment = await promptExperimentService.getExperiment(supabase, experimentId)
+    if (!experiment) {
+      return corsResponse({ error: 'Experiment not found' }, 404)
+    }
+
+    const outcomes = await promptExperimentService.getOutcomes(experiment)
+
+    return corsResponse({ experiment, outcomes })
+  } catch (error) {
+    console.error('Error fetching prompt experiment:', error)
+    return corsResponse({ error: 'Failed to fetch prompt experiment' }, 500)
+  }
+}
+
+// PATCH /api/admin/prompts/experiments/[experimentId] - Start or stop an experiment
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ experimentId: string }> }
+) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const { experimentId } = await params
+    const body = await request.json()
+    const { action } = updateExperimentSchema.parse(body)
+
+    const experiment = await promptExperimentService.getExperiment(supabase, experimentId)
+    if (!experiment) {
+      return corsResponse({ error: 'Experiment not found' }, 404)
+    }
+
+    if (action === 'start') {
+      if (experiment.status !== 'draft') {
+        return corsResponse({ error: 'Only draft experiments can be started' }, 400)
+      }
+
+      const running = await promptExperimentService.getRunningExperiment(supabase, experiment.category)
+      if (running) {
+        return corsResponse({ error: `Experiment "${running.name}" is already running for this category` }, 409)
+      }
+
+      await promptExperimentService.updateStatus(supabase, experimentId, 'running')
+    } else {
+      if (experiment.status !== 'running') {
+        return corsResponse({ error: 'Experiment is not running' }, 400)
+      }
+
+      await promptExperimentService.updateStatus(supabase, experimentId, 'completed')
+    }
+
+    const updated = await promptExperimentService.getExperiment(supabase, experimentId)
+
+    return corsResponse({ experiment: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({
+        error: 'Validation failed',
+        details: error.issues
+      }, 400)
+    }
+
+    console.error('Error updating prompt experiment:', error)
+    return corsResponse({ error: 'Failed to update prompt experiment' }, 500)
+  }
+}
+
+// DELETE /api/admin/prompts/experiments/[experimentId] - Delete an experiment and its outcome data
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ experimentId: string }> }
+) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const { experimentId } = await params
+    await promptExperimentService.deleteExperiment(supabase, experimentId)
+
+    return corsResponse({ success: true })
+  } catch (error) {
+    console.error('Error deleting prompt experiment:', error)
+    return corsResponse({ error: 'Failed to delete prompt experiment' }, 500)
+  }
+}
+
+// OPTIONS /api/admin/prompts/experiments/[experimentId] - Handle preflight requests
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { promptExperimentService } from '@/lib/services/prompt-experiment-service'
+
+const createExperimentSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  description: z.string().max(1000).optional(),
+  category: z.string().min(1, 'Category is required').max(100),
+  variants: z.array(z.object({
+    prompt_id: z.string().uuid(),
+    weight: z.number().int().min(1).max(100)
+  })).min(2, 'At least two variants are required').max(5)
+    .refine(
+      variants => new Set(variants.map(variant => variant.prompt_id)).size === variants.length,
+      'Each prompt can only be used once'
+    )
+})
+
+// Check if user is admin
+async function checkAdminAccess(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  const user = await getCurrentUserServer(supabase)
+
+  if (!user) {
+    return corsResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  const isAdmin = user.user_metadata?.role === 'admin' || user.raw_user_meta_data?.role === 'admin'
+
+  if (!isAdmin) {
+    return corsResponse({ error: 'Admin access required' }, 403)
+  }
+
+  return null // No error
+}
+
+// GET /api/admin/prompts/experiments - List prompt experiments
+export async function GET(request: NextRequest) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const experiments = await promptExperimentService.listExperiments(supabase)
+
+    return corsResponse({ experiments })
+  } catch (error) {
+    console.error('Error fetching prompt experiments:', error)
+    return corsResponse({ error: 'Failed to fetch prompt experiments' }, 500)
+  }
+}
+
+// POST /api/admin/prompts/experiments - Create a draft experiment between prompts of one category
+export async function POST(request: NextRequest) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const body = await request.json()
+    const validatedData = createExperimentSchema.parse(body)
+
+    const promptIds = validatedData.variants.map(variant => variant.prompt_id)
+    const { data: prompts, error: promptsError } = await supabase
+      .from('custom_prompts')
+      .select('id, category')
+      .in('id', promptIds)
+
+    if (promptsError) {
+      return corsResponse({ error: 'Failed to fetch prompts' }, 500)
+    }
+
+    if ((prompts || []).length !== promptIds.length) {
+      return corsResponse({ error: 'Prompt not found' }, 404)
+    }
+
+    if ((prompts || []).some(prompt => prompt.category !== validatedData.category)) {
+      return corsResponse({ error: 'All variants must be prompts in the experiment category' }, 400)
+    }
+
+    const experiment = await promptExperimentService.createExperiment(supabase, user.id, validatedData)
+
+    return corsResponse({ experiment }, 201)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({
+        error: 'Validation failed',
+        details: error.issues
+      }, 400)
+    }
+
+    console.error('Error creating prompt experiment:', error)
+    return corsResponse({ error: 'Failed to create prompt experiment' }, 500)
+  }
+}
+
+// OPTIONS /api/admin/prompts/experiments - Handle preflight requests
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
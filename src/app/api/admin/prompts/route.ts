@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
 import { corsResponse, corsHeaders } from '@/lib/cors'
+import { promptVersionService } from '@/lib/services/prompt-version-service'
 
 // Request validation schemas
 const createPromptSchema = z.object({
@@ -149,7 +150,12 @@ export async function POST(request: NextRequest) {
       return corsResponse({ error: 'Failed to create prompt' }, 500)
     }
 
-    return corsResponse({ prompt: newPrompt }, 201)
+    // Start the prompt's history at version 1
+    const version = await promptVersionService.createVersion(supabase, newPrompt.id, newPrompt, {
+      changeNote: 'Initial version'
+    })
+
+    return corsResponse({ prompt: { ...newPrompt, current_version_id: version?.id ?? null } }, 201)
   } catch (error) {
     if (error instanceof z.ZodError) {
       return corsResponse({ 
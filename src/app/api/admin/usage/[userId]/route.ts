@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { ALL_USAGE_FEATURES, PLANS, usageService, type PlanId } from '@/lib/services/usage-service'
+
+const limitSchema = z.number().int().min(0).nullable()
+
+const overrideSchema = z.object({
+  planId: z.enum(Object.keys(PLANS) as [PlanId, ...PlanId[]]),
+  // Per-feature limits that replace the plan's; null means unlimited
+  limits: z.partialRecord(z.enum(ALL_USAGE_FEATURES), limitSchema).optional(),
+  resetUsage: z.boolean().optional()
+})
+
+// Check if user is admin
+async function checkAdminAccess(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    console.error('Supabase client not configured')
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  const user = await getCurrentUserServer(supabase)
+
+  if (!user) {
+    return corsResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  const isAdmin = user.user_metadata?.role === 'admin' || user.raw_user_meta_data?.role === 'admin'
+
+  if (!isAdmin) {
+    return corsResponse({ error: 'Admin access required' }, 403)
+  }
+
+  return null // No error
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// PUT /api/admin/usage/[userId] - Override a user's plan and limits, optionally clearing this month's usage
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  const { userId } = await params
+
+  try {
+    const body = overrideSchema.parse(await request.json())
+
+    const user = await usageService.findUser({ userId })
+    if (!user) {
+      return corsResponse({ error: 'User not found' }, 404)
+    }
+
+    await usageService.setPlanOverride(userId, { planId: body.planId, limits: body.limits })
+    if (body.resetUsage) {
+      await usageService.resetMonthlyUsage(userId)
+    }
+
+    const usage = await usageService.getUsageSummary(userId)
+
+    return corsResponse({ user, usage })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({ error: 'Validation failed', details: error.issues }, 400)
+    }
+
+    console.error('Error updating user plan:', error)
+    return corsResponse({ error: 'Failed to update plan' }, 500)
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { PLANS, usageService } from '@/lib/services/usage-service'
+
+const lookupSchema = z.union([
+  z.object({ userId: z.string().uuid() }),
+  z.object({ email: z.string().trim().email() })
+])
+
+// Check if user is admin
+async function checkAdminAccess(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    console.error('Supabase client not configured')
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  const user = await getCurrentUserServer(supabase)
+
+  if (!user) {
+    return corsResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  const isAdmin = user.user_metadata?.role === 'admin' || user.raw_user_meta_data?.role === 'admin'
+
+  if (!isAdmin) {
+    return corsResponse({ error: 'Admin access required' }, 403)
+  }
+
+  return null // No error
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// GET /api/admin/usage?email= or ?userId= - A user's plan and usage this month
+export async function GET(request: NextRequest) {
+  const adminCheck = await checkAdminAccess(request)
+  if (adminCheck) return adminCheck
+
+  const { searchParams } = new URL(request.url)
+
+  try {
+    const query = lookupSchema.parse(Object.fromEntries(searchParams))
+    const user = await usageService.findUser(query)
+
+    if (!user) {
+      return corsResponse({ error: 'User not found' }, 404)
+    }
+
+    const usage = await usageService.getUsageSummary(user.id)
+
+    return corsResponse({ user, usage, plans: Object.values(PLANS) })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({ error: 'Enter an email address or user id', details: error.issues }, 400)
+    }
+
+    console.error('Error fetching user usage:', error)
+    return corsResponse({ error: 'Failed to fetch usage' }, 500)
+  }
+}
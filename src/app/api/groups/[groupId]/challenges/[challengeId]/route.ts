@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServer, getCurrentUserServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { PermissionManager } from '@/lib/permissions'
+import { challengeService } from '@/lib/services/challenge-service'
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// DELETE /api/groups/[groupId]/challenges/[challengeId] - Cancel a challenge (owners and admins)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string; challengeId: string }> }
+) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+  const { groupId, challengeId } = await params
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: membership } = await supabase
+      .from('study_group_members')
+      .select('role')
+      .eq('group_id', groupId)
+      .eq('user_id', user.id)
+      .single()
+
+    const permissions = new PermissionManager(user, membership ? { user_role: membership.role } : null, null)
+    if (!permissions.canManageGroup()) {
+      return corsResponse({ error: 'Only group owners and admins can cancel challenges' }, 403)
+    }
+
+    const challenge = await challengeService.cancelChallenge(supabase, groupId, challengeId)
+
+    if (!challenge) {
+      return corsResponse({ error: 'Challenge not found' }, 404)
+    }
+
+    return corsResponse({ success: true })
+  } catch (error) {
+    console.error('Error in challenge DELETE:', error)
+    return corsResponse({ error: 'Internal server error' }, 500)
+  }
+}
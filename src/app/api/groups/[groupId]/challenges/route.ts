@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSupabaseServer, getCurrentUserServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { PermissionManager } from '@/lib/permissions'
+import { challengeService } from '@/lib/services/challenge-service'
+
+const createChallengeSchema = z
+  .object({
+    title: z.string().min(1).max(120),
+    description: z.string().max(500).optional(),
+    type: z.enum(['quiz_count', 'cards_reviewed', 'high_score_sessions']),
+    target: z.number().int().min(1).max(10000),
+    minScore: z.number().int().min(1).max(100).optional(),
+    durationDays: z.number().int().min(1).max(90),
+    startDate: z.string().datetime().optional(),
+    rewards: z.object({ xp: z.number().int().min(0).max(10000).optional() }).optional()
+  })
+  .refine(data => data.type !== 'high_score_sessions' || data.minScore !== undefined, {
+    message: 'minScore is required for high score challenges',
+    path: ['minScore']
+  })
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// GET /api/groups/[groupId]/challenges - Challenges with member progress (members only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+  const { groupId } = await params
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: membership } = await supabase
+      .from('study_group_members')
+      .select('role')
+      .eq('group_id', groupId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!membership) {
+      return corsResponse({ error: 'Access denied' }, 403)
+    }
+
+    const challenges = await challengeService.listGroupChallenges(supabase, groupId)
+
+    return corsResponse({ challenges })
+  } catch (error) {
+    console.error('Error in challenges GET:', error)
+    return corsResponse({ error: 'Internal server error' }, 500)
+  }
+}
+
+// POST /api/groups/[groupId]/challenges - Create a challenge (owners and admins)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+  const { groupId } = await params
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: membership } = await supabase
+      .from('study_group_members')
+      .select('role')
+      .eq('group_id', groupId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!membership) {
+      return corsResponse({ error: 'Access denied' }, 403)
+    }
+
+    const permissions = new PermissionManager(user, { user_role: membership.role }, null)
+    if (!permissions.canManageGroup()) {
+      return corsResponse({ error: 'Only group owners and admins can create challenges' }, 403)
+    }
+
+    const body = await request.json()
+    const input = createChallengeSchema.parse(body)
+
+    const challenge = await challengeService.createChallenge(supabase, groupId, user.id, input)
+
+    return corsResponse({ challenge }, 201)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({ error: 'Validation failed', details: error.issues }, 400)
+    }
+
+    console.error('Error in challenges POST:', error)
+    return corsResponse({ error: 'Internal server error' }, 500)
+  }
+}
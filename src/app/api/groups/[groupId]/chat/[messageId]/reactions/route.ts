@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSupabaseServer, getCurrentUserServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { CHAT_REACTIONS, groupChatService } from '@/lib/services/group-chat-service'
+
+const reactionSchema = z.object({
+  emoji: z.string().refine(value => CHAT_REACTIONS.includes(value), 'Unsupported reaction')
+})
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// POST /api/groups/[groupId]/chat/[messageId]/reactions - Toggle the user's reaction (members only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string; messageId: string }> }
+) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+  const { groupId, messageId } = await params
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: membership } = await supabase
+      .from('study_group_members')
+      .select('role')
+      .eq('group_id', groupId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!membership) {
+      return corsResponse({ error: 'Access denied' }, 403)
+    }
+
+    const body = await request.json()
+    const { emoji } = reactionSchema.parse(body)
+
+    // Reading through the member's client also applies the chat's access policy
+    const message = await groupChatService.getMessage(supabase, groupId, messageId)
+
+    if (!message || message.deleted_at) {
+      return corsResponse({ error: 'Message not found' }, 404)
+    }
+
+    const reactions = await groupChatService.toggleReaction(messageId, user.id, emoji)
+
+    return corsResponse({ reactions })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({ error: 'Validation failed', details: error.issues }, 400)
+    }
+
+    console.error('Error in chat reaction POST:', error)
+    return corsResponse({ error: 'Internal server error' }, 500)
+  }
+}
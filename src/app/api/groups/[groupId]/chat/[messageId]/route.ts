@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServer, getCurrentUserServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { PermissionManager } from '@/lib/permissions'
+import { groupChatService } from '@/lib/services/group-chat-service'
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// DELETE /api/groups/[groupId]/chat/[messageId] - Delete a message (owners, admins and the sender)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string; messageId: string }> }
+) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+  const { groupId, messageId } = await params
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: membership } = await supabase
+      .from('study_group_members')
+      .select('role')
+      .eq('group_id', groupId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!membership) {
+      return corsResponse({ error: 'Access denied' }, 403)
+    }
+
+    const message = await groupChatService.getMessage(supabase, groupId, messageId)
+
+    if (!message || message.deleted_at) {
+      return corsResponse({ error: 'Message not found' }, 404)
+    }
+
+    const permissions = new PermissionManager(user, { user_role: membership.role }, null)
+    if (message.sender_id !== user.id && !permissions.canManageGroup()) {
+      return corsResponse({ error: 'Only group owners and admins can delete other members\' messages' }, 403)
+    }
+
+    const deleted = await groupChatService.deleteMessage(groupId, messageId, user.id)
+
+    if (!deleted) {
+      return corsResponse({ error: 'Message not found' }, 404)
+    }
+
+    return corsResponse({ success: true })
+  } catch (error) {
+    console.error('Error in chat message DELETE:', error)
+    return corsResponse({ error: 'Internal server error' }, 500)
+  }
+}
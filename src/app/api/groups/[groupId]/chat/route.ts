@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSupabaseServer, getCurrentUserServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { PermissionManager } from '@/lib/permissions'
+import { groupChatService, MAX_MESSAGE_LENGTH } from '@/lib/services/group-chat-service'
+
+const sendMessageSchema = z
+  .object({
+    content: z.string().trim().min(1).max(MAX_MESSAGE_LENGTH),
+    replyTo: z.string().uuid().optional(),
+    sessionId: z.string().uuid().optional(),
+    question: z
+      .object({
+        questionId: z.string().min(1).max(200),
+        index: z.number().int().min(0),
+        text: z.string().min(1).max(1000)
+      })
+      .optional()
+  })
+  .refine(data => !data.question || data.sessionId !== undefined, {
+    message: 'Questions can only be linked in a session thread',
+    path: ['question']
+  })
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// GET /api/groups/[groupId]/chat?sessionId=&before= - Group chat, or a session's discussion thread (members only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+  const { groupId } = await params
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: membership } = await supabase
+      .from('study_group_members')
+      .select('role')
+      .eq('group_id', groupId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!membership) {
+      return corsResponse({ error: 'Access denied' }, 403)
+    }
+
+    const { searchParams } = new URL(request.url)
+    const sessionId = searchParams.get('sessionId') || undefined
+    const before = searchParams.get('before') || undefined
+
+    if (sessionId) {
+      const canManage = new PermissionManager(user, { user_role: membership.role }, null).canManageGroup()
+      const canAccess = await groupChatService.canAccessSessionThread(supabase, groupId, sessionId, user.id, !!canManage)
+
+      if (canAccess === null) {
+        return corsResponse({ error: 'Session not found' }, 404)
+      }
+      if (!canAccess) {
+        return corsResponse({ error: 'The discussion opens once you have finished the quiz' }, 403)
+      }
+    }
+
+    const { messages, hasMore } = await groupChatService.listMessages(supabase, groupId, { sessionId, before })
+
+    return corsResponse({ messages, hasMore })
+  } catch (error) {
+    console.error('Error in chat GET:', error)
+    return corsResponse({ error: 'Internal server error' }, 500)
+  }
+}
+
+// POST /api/groups/[groupId]/chat - Send a message or reply (members only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+  const { groupId } = await params
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: membership } = await supabase
+      .from('study_group_members')
+      .select('role')
+      .eq('group_id', groupId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!membership) {
+      return corsResponse({ error: 'Access denied' }, 403)
+    }
+
+    const body = await request.json()
+    const input = sendMessageSchema.parse(body)
+
+    if (input.sessionId) {
+      const canManage = new PermissionManager(user, { user_role: membership.role }, null).canManageGroup()
+      const canAccess = await groupChatService.canAccessSessionThread(
+        supabase,
+        groupId,
+        input.sessionId,
+        user.id,
+        !!canManage
+      )
+
+      if (canAccess === null) {
+        return corsResponse({ error: 'Session not found' }, 404)
+      }
+      if (!canAccess) {
+        return corsResponse({ error: 'The discussion opens once you have finished the quiz' }, 403)
+      }
+    }
+
+    const message = await groupChatService.sendMessage(
+      supabase,
+      groupId,
+      {
+        id: user.id,
+        name: user.user_metadata?.full_name || user.email?.split('@')[0] || 'User',
+        avatarUrl: user.user_metadata?.avatar_url
+      },
+      input
+    )
+
+    if (!message) {
+      return corsResponse({ error: 'Message to reply to not found' }, 404)
+    }
+
+    return corsResponse({ message }, 201)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({ error: 'Validation failed', details: error.issues }, 400)
+    }
+
+    console.error('Error in chat POST:', error)
+    return corsResponse({ error: 'Internal server error' }, 500)
+  }
+}
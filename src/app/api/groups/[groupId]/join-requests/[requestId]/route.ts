@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getSupabaseServer, getCurrentUserServer } from '../../../../../../lib/supabase/server'
 import { corsResponse, corsHeaders } from '../../../../../../lib/cors'
 import { PermissionManager } from '../../../../../../lib/permissions'
+import { notificationService } from '../../../../../../lib/services/notification-service'
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -10,6 +11,29 @@ export async function OPTIONS() {
   })
 }
 
+async function notifyRequester(
+  email: string | null,
+  groupName: string,
+  groupId: string,
+  approved: boolean,
+  reason?: string
+) {
+  if (!email) return
+
+  try {
+    await notificationService.sendJoinRequestDecision({
+      recipientEmail: email,
+      groupName,
+      groupUrl: `${process.env.NEXTAUTH_URL || 'http://localhost:3838'}/groups/${groupId}`,
+      approved,
+      reason
+    })
+  } catch (notificationError) {
+    console.error('Failed to send join request decision notification:', notificationError)
+    // Don't fail the request if notifications fail - the decision was still saved
+  }
+}
+
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ groupId: string; requestId: string }> }
@@ -123,6 +147,8 @@ export async function PATCH(
         // Note: User is already added to group, so we don't fail here
       }
 
+      await notifyRequester(joinRequest.user_email, (membershipData.study_groups as any).name, groupId, true)
+
       return corsResponse({
         message: 'Join request approved successfully',
         action: 'approved'
@@ -144,6 +170,8 @@ export async function PATCH(
         return corsResponse({ error: 'Failed to reject join request' }, 500)
       }
 
+      await notifyRequester(joinRequest.user_email, (membershipData.study_groups as any).name, groupId, false, rejectionReason)
+
       return corsResponse({
         message: 'Join request rejected successfully',
         action: 'rejected'
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServer, getCurrentUserServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { achievementService } from '@/lib/services/achievement-service'
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// GET /api/groups/[groupId]/leaderboard?period=week|all - Member rankings (members only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+  const { groupId } = await params
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: membership } = await supabase
+      .from('study_group_members')
+      .select('role')
+      .eq('group_id', groupId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!membership) {
+      return corsResponse({ error: 'Access denied' }, 403)
+    }
+
+    const { searchParams } = new URL(request.url)
+    const period = searchParams.get('period') === 'all' ? 'all' : 'week'
+
+    const leaderboard = await achievementService.getGroupLeaderboard(supabase, groupId, period)
+
+    return corsResponse({ period, leaderboard })
+  } catch (error) {
+    console.error('Error in leaderboard API:', error)
+    return corsResponse({ error: 'Internal server error' }, 500)
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createLoopManagementService } from '@/lib/services/loop-management-service'
 import { getSupabaseServer, getCurrentUserServer } from '@/lib/supabase/server'
+import { withUsageMetering } from '@/lib/usage-metering'
 
 export async function GET(
   request: NextRequest,
@@ -28,7 +29,9 @@ export async function GET(
   }
 }
 
-export async function POST(
+export const POST = withUsageMetering(['loop_creation'], createLoop)
+
+async function createLoop(
   request: NextRequest,
   { params }: { params: Promise<{ groupId: string }> }
 ) {
@@ -43,7 +46,7 @@ export async function POST(
       return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
     }
 
-    const { videoUrl, startTime, endTime, transcript, videoTitle, videoId, segments, language, metadata } = body
+    const { videoUrl, startTime, endTime, transcript, videoTitle, videoId, segments, language, sourceType, metadata } = body
 
     if (!videoUrl || !videoTitle || !videoId || !transcript || !segments) {
       return NextResponse.json(
@@ -63,6 +66,7 @@ export async function POST(
       segments,
       language,
       groupId,
+      sourceType: sourceType === 'subtitle_file' ? 'subtitle_file' : 'youtube',
       metadata
     })
 
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServer, getCurrentUserServer } from '@/lib/supabase/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { itemAnalysisService } from '@/lib/services/item-analysis-service'
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// GET /api/groups/[groupId]/sessions/[sessionId]/item-analysis - Question quality metrics (admins only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string; sessionId: string }> }
+) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+  const { groupId, sessionId } = await params
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: membership } = await supabase
+      .from('study_group_members')
+      .select('role')
+      .eq('group_id', groupId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (!membership || !['owner', 'admin'].includes(membership.role)) {
+      return corsResponse({ error: 'Only group owners and admins can view item analysis' }, 403)
+    }
+
+    const { data: session, error: sessionError } = await supabase
+      .from('group_quiz_sessions')
+      .select('id')
+      .eq('id', sessionId)
+      .eq('group_id', groupId)
+      .single()
+
+    if (sessionError || !session) {
+      return corsResponse({ error: 'Session not found' }, 404)
+    }
+
+    const items = await itemAnalysisService.analyzeSession(supabase, groupId, sessionId)
+
+    return corsResponse({ items })
+  } catch (error) {
+    console.error('Error in item analysis API:', error)
+    return corsResponse({ error: 'Internal server error' }, 500)
+  }
+}
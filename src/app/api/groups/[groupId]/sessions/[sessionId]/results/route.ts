@@ -78,7 +78,9 @@ export async function GET(
       }
 
       // Transform the database result back to the frontend format
-      if (userResult && userResult.result_data) {
+      // Graded answers written by the submit route, accumulated across sets
+      const gradedResults = (userResult?.answers_data as { detailedResults?: any[] } | null)?.detailedResults || []
+      if (userResult && gradedResults.length > 0) {
         // Extract video URL from session loop_data (actual location from logs)
         const videoUrl = session.loop_data?.videoUrl || session.video_url || null
         // console.log('🎥 [Results API] Debug video URL:', {
@@ -90,7 +92,7 @@ export async function GET(
         // })
 
         // Transform results and add videoUrl to each question
-        const resultsWithVideoUrl = (userResult.result_data.allResults || []).map((result: any) => ({
+        const resultsWithVideoUrl = gradedResults.map((result: any) => ({
           ...result,
           videoUrl: videoUrl
         }))
@@ -176,80 +178,3 @@ export async function GET(
     return corsResponse({ error: 'Internal server error' }, 500)
   }
 }
-
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ groupId: string; sessionId: string }> }
-) {
-  const supabase = getSupabaseServer(request)
-  if (!supabase) {
-    return corsResponse({ error: 'Database not configured' }, 500)
-  }
-  const { groupId, sessionId } = await params
-
-  try {
-    const user = await getCurrentUserServer(supabase)
-    
-    if (!user) {
-      return corsResponse({ error: 'Unauthorized' }, 401)
-    }
-
-    // Verify user is a member of the group
-    const { data: membership } = await supabase
-      .from('study_group_members')
-      .select('username')
-      .eq('group_id', groupId)
-      .eq('user_id', user.id)
-      .single()
-
-    if (!membership) {
-      return corsResponse({ error: 'Access denied' }, 403)
-    }
-
-    const body = await request.json()
-    const { 
-      score, 
-      total_questions, 
-      correct_answers, 
-      time_taken_seconds, 
-      result_data 
-    } = body
-
-    // Validation
-    if (typeof score !== 'number' || typeof total_questions !== 'number' || typeof correct_answers !== 'number') {
-      return corsResponse({ error: 'Invalid result data' }, 400)
-    }
-
-    // Insert or update result
-    const { data: result, error: resultError } = await supabase
-      .from('group_quiz_results')
-      .upsert({
-        session_id: sessionId,
-        user_id: user.id,
-        user_name: membership.username,
-        score,
-        total_questions,
-        correct_answers,
-        time_taken_seconds: time_taken_seconds || null,
-        result_data: result_data || {},
-        completed_at: new Date().toISOString()
-      }, {
-        onConflict: 'session_id,user_id'
-      })
-      .select()
-      .single()
-
-    if (resultError) {
-      console.error('Error saving result:', resultError)
-      return corsResponse({ error: resultError.message }, 500)
-    }
-
-    return corsResponse({ 
-      message: 'Result saved successfully', 
-      result 
-    })
-  } catch (error) {
-    console.error('Error in session results POST:', error)
-    return corsResponse({ error: 'Internal server error' }, 500)
-  }
-}
\ No newline at end of file
@@ -1,5 +1,18 @@
 import { NextRequest } from 'next/server'
 import { getSupabaseServer, getCurrentUserServer } from '@/lib/supabase/server'
+import { getSupabaseServiceRole } from '@/lib/supabase/service-role'
+import { achievementService } from '@/lib/services/achievement-service'
+import { challengeService } from '@/lib/services/challenge-service'
+import { learningGoalService } from '@/lib/services/learning-goal-service'
+import { getQuestionKind, gradeAnswer, optionLetter } from '@/lib/utils/question-grading'
+import type { Json } from '@/lib/supabase/types'
+
+type SubmittedResponse = {
+  questionId: string
+  answer?: Json
+  selectedOption?: Json
+  responseTimeMs?: Json
+}
 
 function corsResponse(data: any, status = 200) {
   return Response.json(data, {
@@ -37,7 +50,7 @@ export async function POST(
     // Check if user is member of the group
     const { data: membership, error: memberError } = await supabase
       .from('study_group_members')
-      .select('role')
+      .select('role, username')
       .eq('group_id', groupId)
       .eq('user_id', user.id)
       .single()
@@ -58,60 +71,186 @@ export async function POST(
       return corsResponse({ error: 'Session not found' }, 404)
     }
 
-    // Calculate results from the submitted data
-    const { responses, questions, setIndex, difficulty, userData } = body
-    
-    let correctAnswers = 0
-    let totalQuestions = questions.length
-    let timeTaken = 0 // You might want to track this in the frontend
-    
-    const detailedResults = responses.map((response: any) => {
-      const question = questions.find((_: any, idx: number) => idx === response.questionIndex % questions.length)
-      const isCorrect = question && question.correctAnswer === response.answer
-      
-      if (isCorrect) correctAnswers++
+    const { shareTokens, questionIds, clientResult, setIndex, difficulty, userData } = body
+
+    if (
+      !Array.isArray(shareTokens) ||
+      shareTokens.length === 0 ||
+      !shareTokens.every((token: unknown) => typeof token === 'string')
+    ) {
+      return corsResponse({ error: 'shareTokens are required' }, 400)
+    }
+
+    if (
+      !Array.isArray(body.responses) ||
+      body.responses.length === 0 ||
+      !body.responses.every(
+        (response: unknown) =>
+          !!response && typeof response === 'object' && typeof (response as { questionId?: unknown }).questionId === 'string'
+      )
+    ) {
+      return corsResponse({ error: 'Valid responses array is required' }, 400)
+    }
+    const responses: SubmittedResponse[] = body.responses
+
+    if (
+      !Array.isArray(questionIds) ||
+      questionIds.length === 0 ||
+      !questionIds.every((questionId: unknown) => typeof questionId === 'string')
+    ) {
+      return corsResponse({ error: 'questionIds are required' }, 400)
+    }
+    // The questions this member was served; the score is out of these
+    const servedIds = [...new Set<string>(questionIds)]
+
+    // Grade against the stored question sets, never against questions sent by the client
+    const serviceClient = getSupabaseServiceRole()
+    if (!serviceClient) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    // Only sets stored for this group and this session count
+    const { data: storedSets, error: questionSetError } = await serviceClient
+      .from('shared_question_sets')
+      .select('share_token, questions, metadata')
+      .eq('group_id', groupId)
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: false })
+
+    if (questionSetError || !storedSets || storedSets.length === 0) {
+      return corsResponse({ error: 'Question set not found' }, 404)
+    }
+
+    // The session's set for each difficulty, picked the same way as the questions route
+    const setsByDifficulty = new Map<string, (typeof storedSets)[number]>()
+    storedSets.forEach(set => setsByDifficulty.set((set.metadata as { difficulty?: string } | null)?.difficulty || 'mixed', set))
+    const questionSets = [...setsByDifficulty.values()]
+
+    if (!shareTokens.every((token: string) => questionSets.some(set => set.share_token === token))) {
+      return corsResponse({ error: 'Question set does not belong to this session' }, 403)
+    }
+
+    // Generated ids are unique across a session's sets; older sets fall back to their position
+    const questionsById = new Map<string, any>()
+    const shareTokenById = new Map<string, string>()
+    for (const set of questionSets) {
+      const setQuestions = (set.questions as any[]) || []
+      setQuestions.forEach((question, index) => {
+        const questionId = question.id || `q_${index}`
+        if (!questionsById.has(questionId)) {
+          questionsById.set(questionId, question)
+          shareTokenById.set(questionId, set.share_token)
+        }
+      })
+    }
+
+    const answeredIds = responses.map(response => response.questionId)
+    const unknownIds = [...servedIds, ...answeredIds].filter(
+      questionId => !questionsById.has(questionId) || !servedIds.includes(questionId)
+    )
+    const duplicateIds = answeredIds.filter((questionId, index) => answeredIds.indexOf(questionId) !== index)
+
+    if (unknownIds.length > 0 || duplicateIds.length > 0) {
+      return corsResponse(
+        {
+          error: 'Responses reference unknown or repeated questions',
+          unknownQuestionIds: unknownIds,
+          duplicateQuestionIds: duplicateIds
+        },
+        400
+      )
+    }
+
+    const timeTaken = 0 // You might want to track this in the frontend
+
+    const detailedResults = responses.map(response => {
+      const question = questionsById.get(response.questionId)
+      // Shuffled options change letters on the client, so lettered kinds grade by option text,
+      // mapped back to the stored option's letter
+      const selectedIndex =
+        typeof response.selectedOption === 'string' &&
+        ['multiple_choice', 'true_false_not_given'].includes(getQuestionKind(question))
+          ? ((question.options as string[] | undefined) || []).indexOf(response.selectedOption)
+          : -1
+      const answer = selectedIndex >= 0 ? optionLetter(selectedIndex) : String(response.answer ?? '')
+      const graded = gradeAnswer(question, answer)
+      const responseTimeMs = Number(response.responseTimeMs)
 
       return {
-        questionId: question?.id || `q_${response.questionIndex}`,
-        question: question?.question || 'Unknown question',
-        userAnswer: response.answer,
-        correctAnswer: question?.correctAnswer,
-        isCorrect: !!isCorrect,
-        explanation: question?.explanation || 'No explanation available.',
-        points: isCorrect ? 1 : 0
+        questionId: response.questionId,
+        // Ids repeat across sets generated from the same loop; the set tells them apart
+        shareToken: shareTokenById.get(response.questionId),
+        question: question.question,
+        userAnswer: graded.userAnswerText,
+        correctAnswer: graded.correctAnswerText,
+        isCorrect: graded.isCorrect,
+        explanation: question.explanation || 'No explanation available.',
+        points: graded.isCorrect ? 1 : 0,
+        // Option text survives per-user shuffling, so item analysis can count distractors
+        selectedOption: typeof response.selectedOption === 'string' ? response.selectedOption : undefined,
+        responseTimeMs: Number.isFinite(responseTimeMs) && responseTimeMs >= 0 ? Math.round(responseTimeMs) : undefined
       }
     })
 
-    const score = totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : 0
+    // A client score that disagrees with the server's means a modified client or answer key
+    const setCorrectAnswers = detailedResults.filter((result: { isCorrect: boolean }) => result.isCorrect).length
+    const clientCorrectAnswers =
+      typeof clientResult?.correctAnswers === 'number' ? clientResult.correctAnswers : null
+    const tamperFlagged = clientCorrectAnswers !== null && clientCorrectAnswers !== setCorrectAnswers
+
+    if (tamperFlagged) {
+      console.warn(
+        `Score mismatch for user ${user.id} in session ${sessionId}: client ${clientCorrectAnswers}, server ${setCorrectAnswers}`
+      )
+    }
 
-    // Insert/update group quiz results
-    const { data: existingResult } = await supabase
+    // Results are written with the service role only; members cannot change their own score
+    const { data: existingResult } = await serviceClient
       .from('group_quiz_results')
-      .select('id')
+      .select('id, tamper_flagged, answers_data')
       .eq('session_id', sessionId)
       .eq('user_id', user.id)
-      .single()
+      .maybeSingle()
+
+    // Sets are submitted one at a time: keep earlier sets' graded answers and
+    // score the session against every question this member was served
+    const previousResults = (
+      ((existingResult?.answers_data as { detailedResults?: any[] } | null)?.detailedResults) || []
+    ).filter(
+      (result: any) =>
+        servedIds.includes(result.questionId) &&
+        !detailedResults.some((current: { questionId: string }) => current.questionId === result.questionId)
+    )
+    const allResults = [...previousResults, ...detailedResults]
+    const totalQuestions = servedIds.length
+    const correctAnswers = allResults.filter(result => result.isCorrect).length
+    const score = totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : 0
 
     const resultData = {
       session_id: sessionId,
       user_id: user.id,
+      user_name: membership.username,
       score,
       total_questions: totalQuestions,
       correct_answers: correctAnswers, // 🔧 FIX: Add missing required field
       time_taken: timeTaken,
       answers_data: {
         responses,
-        detailedResults,
+        detailedResults: allResults,
         setIndex,
-        difficulty
+        difficulty,
+        shareTokens,
+        clientCorrectAnswers
       },
+      // Stays set once any set of this session was flagged
+      tamper_flagged: tamperFlagged || !!existingResult?.tamper_flagged,
       completed_at: new Date().toISOString()
     }
 
     let result
     if (existingResult) {
       // Update existing result
-      const { data, error } = await supabase
+      const { data, error } = await serviceClient
         .from('group_quiz_results')
         .update(resultData)
         .eq('id', existingResult.id)
@@ -122,7 +261,7 @@ export async function POST(
       if (error) throw error
     } else {
       // Insert new result
-      const { data, error } = await supabase
+      const { data, error } = await serviceClient
         .from('group_quiz_results')
         .insert(resultData)
         .select()
@@ -132,6 +271,11 @@ export async function POST(
       if (error) throw error
     }
 
+    // Rules read the stored results, so checking on every submission is safe
+    await achievementService.evaluateUser(user.id)
+    await challengeService.refreshProgress(user.id, groupId)
+    await learningGoalService.recordActivity(user.id)
+
     // Return formatted results similar to individual quiz
     const finalResults = {
       sessionId: `group_${sessionId}`,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSupabaseServer, getCurrentUserServer } from '../../../../../../lib/supabase/server'
 import { corsResponse, corsHeaders } from '../../../../../../lib/cors'
+import { isSessionExpiredByTime } from '../../../../../../lib/utils/session-expiry'
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -53,28 +54,10 @@ export async function POST(
 
     const expiredSessionIds: string[] = []
     
-    // Helper function to check if session is expired based on 24h rule
-    const isExpiredByTime = (session: any) => {
-      const now = new Date()
-      const twentyFourHoursAgo = new Date(now.getTime() - (24 * 60 * 60 * 1000))
-      
-      if (session.session_type === 'instant') {
-        // For instant sessions: expired after 24h from creation time
-        if (!session.created_at) return false
-        const createdTime = new Date(session.created_at)
-        return createdTime < twentyFourHoursAgo
-      } else {
-        // For scheduled sessions: expired after 24h from scheduled time
-        if (!session.scheduled_at) return false
-        const scheduledTime = new Date(session.scheduled_at)
-        return scheduledTime < twentyFourHoursAgo
-      }
-    }
-    
     // Check each session for expiration
     for (const session of sessions || []) {
       // First check if session is expired by time (24h rule)
-      if (isExpiredByTime(session)) {
+      if (isSessionExpiredByTime(session)) {
         expiredSessionIds.push(session.id)
       } else if (session.quiz_token) {
         // If not expired by time, check questions endpoint as fallback
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { notificationCenterService } from '@/lib/services/notification-center-service'
+
+const updateSchema = z
+  .object({
+    ids: z.array(z.string().uuid()).min(1).max(100).optional(),
+    all: z.boolean().optional(),
+    read: z.boolean().default(true)
+  })
+  .refine(data => !!data.ids !== !!data.all, { message: 'Provide either ids or all' })
+
+const deleteSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).max(100)
+})
+
+const invalidRequest = (error: z.ZodError) =>
+  corsResponse(
+    {
+      error: 'Invalid request data',
+      details: error.issues.map(issue => ({
+        field: issue.path.join('.') || 'unknown',
+        message: issue.message
+      }))
+    },
+    400
+  )
+
+// GET /api/notifications - List the current user's notifications with the unread count
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const [page, unreadCount] = await Promise.all([
+      notificationCenterService.list(supabase, user.id, {
+        unreadOnly: searchParams.get('unread') === 'true',
+        limit: Number(searchParams.get('limit')) || undefined,
+        before: searchParams.get('before') || undefined
+      }),
+      notificationCenterService.countUnread(supabase, user.id)
+    ])
+
+    return corsResponse({ ...page, unreadCount })
+  } catch (error) {
+    console.error('Error fetching notifications:', error)
+    return corsResponse({ error: 'Failed to fetch notifications' }, 500)
+  }
+}
+
+// PATCH /api/notifications - Mark notifications (or all of them) as read or unread
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { ids, read } = updateSchema.parse(await request.json())
+
+    const updated = await notificationCenterService.markRead(supabase, user.id, ids, read)
+    const unreadCount = await notificationCenterService.countUnread(supabase, user.id)
+
+    return corsResponse({ updated, unreadCount })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return invalidRequest(error)
+    }
+
+    console.error('Error updating notifications:', error)
+    return corsResponse({ error: 'Failed to update notifications' }, 500)
+  }
+}
+
+// DELETE /api/notifications - Delete notifications by id
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { ids } = deleteSchema.parse(await request.json())
+
+    const deleted = await notificationCenterService.remove(supabase, user.id, ids)
+    const unreadCount = await notificationCenterService.countUnread(supabase, user.id)
+
+    return corsResponse({ deleted, unreadCount })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return invalidRequest(error)
+    }
+
+    console.error('Error deleting notifications:', error)
+    return corsResponse({ error: 'Failed to delete notifications' }, 500)
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
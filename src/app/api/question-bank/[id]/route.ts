@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { createQuestionBankService } from '@/lib/services/question-bank-service'
+
+// DELETE /api/question-bank/[id] - Remove a question from the current user's bank
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { id } = await params
+    const deleted = await createQuestionBankService(request).deleteQuestion(id)
+
+    if (!deleted) {
+      return corsResponse({ error: 'Question not found' }, 404)
+    }
+
+    return corsResponse({ success: true })
+  } catch (error) {
+    console.error('Error deleting bank question:', error)
+    return corsResponse({ error: 'Failed to delete question' }, 500)
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { createQuestionBankService } from '@/lib/services/question-bank-service'
+import { createSharedQuestionsService } from '@/lib/services/shared-questions-service'
+
+const assembleSchema = z.object({
+  questionIds: z.array(z.string().uuid()).min(1).max(50),
+  title: z.string().min(1).max(255),
+  groupId: z.string().optional(),
+  sessionId: z.string().optional(),
+  isPublic: z.boolean().optional(),
+  expiresHours: z.number().min(1).max(24 * 30).optional()
+})
+
+// POST /api/question-bank/assemble - Create a shared question set from bank questions without calling the AI
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const body = await request.json()
+    const { questionIds, title, groupId, sessionId, isPublic, expiresHours } = assembleSchema.parse(body)
+
+    if (groupId) {
+      const { data: membership } = await supabase
+        .from('study_group_members')
+        .select('role')
+        .eq('group_id', groupId)
+        .eq('user_id', user.id)
+        .single()
+
+      if (!membership) {
+        return corsResponse({ error: 'Access denied' }, 403)
+      }
+    }
+
+    const questionSet = await createQuestionBankService(request).assembleQuestionSet({
+      questionIds,
+      title,
+      group_id: groupId,
+      session_id: sessionId,
+      is_public: isPublic ?? !!groupId,
+      expires_hours: expiresHours
+    })
+
+    return corsResponse({
+      success: true,
+      questionSet,
+      shareToken: questionSet.share_token,
+      shareUrl: createSharedQuestionsService(request).generateShareUrl(
+        questionSet.share_token,
+        undefined,
+        groupId,
+        sessionId
+      )
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse(
+        {
+          error: 'Invalid request data',
+          details: error.issues.map(issue => ({
+            field: issue.path.join('.') || 'unknown',
+            message: issue.message
+          }))
+        },
+        400
+      )
+    }
+
+    if (error instanceof Error && error.message.startsWith('Questions not found in bank')) {
+      return corsResponse({ error: error.message }, 404)
+    }
+
+    console.error('Error assembling question set:', error)
+    return corsResponse({ error: 'Failed to assemble question set' }, 500)
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { QUESTION_KINDS, QUESTION_TYPES } from '@/lib/services/ai/types'
+import { createQuestionBankService } from '@/lib/services/question-bank-service'
+
+const addQuestionsSchema = z.object({
+  questions: z
+    .array(
+      z
+        .object({
+          id: z.string().optional(),
+          question: z.string().min(1),
+          options: z.array(z.string()).default([]),
+          correctAnswer: z.string(),
+          kind: z.enum(QUESTION_KINDS).optional(),
+          acceptedAnswers: z.array(z.string()).optional(),
+          explanation: z.string().default(''),
+          difficulty: z.enum(['easy', 'medium', 'hard']),
+          type: z.enum(QUESTION_TYPES),
+          timestamp: z.number().optional()
+        })
+        .passthrough()
+    )
+    .min(1)
+    .max(200),
+  source: z
+    .object({
+      loopId: z.string().optional(),
+      videoTitle: z.string().optional(),
+      videoUrl: z.string().optional(),
+      groupId: z.string().optional()
+    })
+    .optional()
+})
+
+// GET /api/question-bank - Search the current user's and their groups' bank questions
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { searchParams } = new URL(request.url)
+    const difficulty = searchParams.get('difficulty')
+    const tags = searchParams.get('tags')
+
+    const result = await createQuestionBankService(request).search({
+      query: searchParams.get('q') || undefined,
+      difficulty:
+        difficulty === 'easy' || difficulty === 'medium' || difficulty === 'hard'
+          ? difficulty
+          : undefined,
+      kind: searchParams.get('kind') || undefined,
+      type: searchParams.get('type') || undefined,
+      loopId: searchParams.get('loopId') || undefined,
+      groupId: searchParams.get('groupId') || undefined,
+      tags: tags ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : undefined,
+      limit: Number(searchParams.get('limit')) || undefined,
+      offset: Number(searchParams.get('offset')) || undefined
+    })
+
+    return corsResponse(result)
+  } catch (error) {
+    console.error('Error searching question bank:', error)
+    return corsResponse({ error: 'Failed to search question bank' }, 500)
+  }
+}
+
+// POST /api/question-bank - Save questions to the bank, skipping duplicates
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = getSupabaseServer(request)
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const body = await request.json()
+    const { questions, source } = addQuestionsSchema.parse(body)
+
+    const result = await createQuestionBankService(request).addQuestions(questions, source)
+
+    return corsResponse({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse(
+        {
+          error: 'Invalid request data',
+          details: error.issues.map(issue => ({
+            field: issue.path.join('.') || 'unknown',
+            message: issue.message
+          }))
+        },
+        400
+      )
+    }
+
+    if (error instanceof Error && error.message.startsWith('Only group owners and admins')) {
+      return corsResponse({ error: error.message }, 403)
+    }
+
+    console.error('Error saving to question bank:', error)
+    return corsResponse({ error: 'Failed to save questions' }, 500)
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { corsResponse, corsHeaders } from '../../../../../lib/cors'
+import { getCurrentUserServer, getSupabaseServer } from '../../../../../lib/supabase/server'
+import { getSupabaseServiceRole } from '../../../../../lib/supabase/service-role'
+
+const reportSchema = z.object({
+  questionId: z.string().min(1),
+  reason: z.enum(['incorrect_answer', 'unclear', 'not_in_video', 'other']),
+  details: z.string().max(1000).optional()
+})
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// POST /api/questions/[token]/report - Flag a question as wrong or unclear
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const body = await request.json()
+    const { questionId, reason, details } = reportSchema.parse(body)
+
+    const supabase = getSupabaseServiceRole()
+    if (!supabase) {
+      return corsResponse({ error: 'Database not configured' }, 500)
+    }
+
+    const { data: questionSet } = await supabase
+      .from('shared_question_sets')
+      .select('id, questions')
+      .eq('share_token', token)
+      .maybeSingle()
+
+    if (!questionSet) {
+      return corsResponse({ error: 'Questions not found or expired' }, 404)
+    }
+
+    const questions = Array.isArray(questionSet.questions) ? (questionSet.questions as any[]) : []
+    if (!questions.some(question => question?.id === questionId)) {
+      return corsResponse({ error: 'Question not found' }, 404)
+    }
+
+    // Anonymous learners can report too; signed-in learners report each question once
+    const authClient = getSupabaseServer(request)
+    const user = authClient ? await getCurrentUserServer(authClient) : null
+
+    if (user) {
+      const { data: existing } = await supabase
+        .from('question_reports')
+        .select('id')
+        .eq('question_set_id', questionSet.id)
+        .eq('question_id', questionId)
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (existing) {
+        return corsResponse({ success: true, alreadyReported: true })
+      }
+    }
+
+    const { error } = await supabase.from('question_reports').insert({
+      question_set_id: questionSet.id,
+      question_id: questionId,
+      user_id: user?.id ?? null,
+      reason,
+      details: details || null
+    })
+
+    if (error) {
+      console.error('Failed to store question report:', error)
+      return corsResponse({ error: 'Failed to report question' }, 500)
+    }
+
+    return corsResponse({ success: true }, 201)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({ error: 'Validation failed', details: error.issues }, 400)
+    }
+
+    console.error('Failed to report question:', error)
+    return corsResponse({ error: 'Failed to report question' }, 500)
+  }
+}
@@ -97,6 +97,7 @@ export async function GET(
 
     // Add group context if provided
     let groupContext = null
+    let loopId: string | null = null
     if (groupId && sessionId) {
       // Get session settings and participant count
       let sessionSettings = null
@@ -105,12 +106,13 @@ export async function GET(
       try {
         const { data: sessionData, error: sessionError } = await supabase
           .from('group_quiz_sessions')
-          .select('settings, status')
+          .select('settings, status, loop_data')
           .eq('id', sessionId)
           .single()
 
         if (sessionData) {
           sessionSettings = sessionData.settings || {}
+          loopId = (sessionData.loop_data as { id?: string } | null)?.id || null
           
           // Also check if the group session itself is expired/cancelled
           if (sessionData.status === 'cancelled') {
@@ -156,9 +158,14 @@ export async function GET(
       videoUrl: questionSet.video_url,
       startTime: questionSet.start_time,
       endTime: questionSet.end_time,
-      questions: questionSet.questions,
+      // Older sets have no question ids; give them the positional ids submissions are graded by
+      questions: ((questionSet.questions as any[]) || []).map((question, index) => ({
+        ...question,
+        id: question.id || `q_${index}`
+      })),
       vocabulary: questionSet.vocabulary,
       transcript: questionSet.transcript,
+      loopId,
       metadata: questionSet.metadata,
       isPublic: questionSet.is_public,
       expirationInfo,
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { v4 as uuidv4 } from 'uuid'
 import { corsResponse, corsHeaders } from '../../../../../lib/cors'
+import { getCurrentUserServer, getSupabaseServer } from '../../../../../lib/supabase/server'
 import { getSupabaseServiceRole } from '../../../../../lib/supabase/service-role'
+import { achievementService } from '../../../../../lib/services/achievement-service'
+import { learningGoalService } from '../../../../../lib/services/learning-goal-service'
+import { gradeAnswer } from '../../../../../lib/utils/question-grading'
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -10,20 +14,20 @@ export async function OPTIONS() {
   })
 }
 
-// Helper function to check answers for a specific set
-function checkSetAnswers(questions: any[], responses: any[]) {
-  const results = responses.map((response, index) => {
-    const question = questions[index]
-    const isCorrect = response.answer === question.correctAnswer
-    
-    // Convert option letter back to full text for display
-    const userOptionIndex = response.answer.charCodeAt(0) - 65 // A->0, B->1, etc.
-    const correctOptionIndex = question.correctAnswer.charCodeAt(0) - 65
-    const userAnswerText = question.options[userOptionIndex] || response.answer
-    const correctAnswerText = question.options[correctOptionIndex] || question.correctAnswer
-    
+// Grade the served questions against the stored set; the client only sends ids and answers
+function checkSetAnswers(
+  questionsById: Map<string, any>,
+  questionIds: string[],
+  responses: { questionId: string; answer?: unknown }[]
+) {
+  const results = questionIds.map(questionId => {
+    const question = questionsById.get(questionId)
+    const response = responses.find(r => r.questionId === questionId)
+    // Grades every question kind and converts answers to text for display
+    const { isCorrect, userAnswerText, correctAnswerText } = gradeAnswer(question, String(response?.answer ?? ''))
+
     return {
-      questionId: question.id || `q_${index}`,
+      questionId,
       question: question.question,
       userAnswer: userAnswerText,
       correctAnswer: correctAnswerText,
@@ -33,11 +37,14 @@ function checkSetAnswers(questions: any[], responses: any[]) {
     }
   })
 
-  const totalQuestions = questions.length
+  const totalQuestions = questionIds.length
   const correctAnswers = results.filter(r => r.isCorrect).length
-  const score = Math.round((correctAnswers / totalQuestions) * 100)
+  const answeredCount = responses.filter(
+    response => response.answer !== undefined && response.answer !== null && response.answer !== ''
+  ).length
+  const score = totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : 0
 
-  return { results, score, totalQuestions, correctAnswers }
+  return { results, score, totalQuestions, correctAnswers, answeredCount }
 }
 
 export async function POST(
@@ -47,7 +54,7 @@ export async function POST(
   try {
     const { token } = await params
     const body = await request.json()
-    const { responses, questions, setIndex, difficulty } = body
+    const { responses, questionIds, setIndex, difficulty } = body
 
     if (!token) {
       return corsResponse(
@@ -56,13 +63,26 @@ export async function POST(
       )
     }
 
-    if (!responses || !Array.isArray(responses) || !questions || !Array.isArray(questions)) {
+    if (
+      !Array.isArray(questionIds) ||
+      questionIds.length === 0 ||
+      !questionIds.every((questionId: unknown) => typeof questionId === 'string') ||
+      !Array.isArray(responses) ||
+      !responses.every(
+        (response: unknown) =>
+          !!response && typeof response === 'object' && typeof (response as { questionId?: unknown }).questionId === 'string'
+      )
+    ) {
       return corsResponse(
-        { error: 'Valid responses and questions arrays are required' },
+        { error: 'Valid responses and questionIds arrays are required' },
         400
       )
     }
 
+    // Submissions are only recorded for signed-in users, under their own id
+    const authClient = getSupabaseServer(request)
+    const user = authClient ? await getCurrentUserServer(authClient) : null
+
     // Get question set from database
     const supabase = getSupabaseServiceRole()
     let questionSet = null
@@ -98,8 +118,25 @@ export async function POST(
       )
     }
 
+    // Older sets have no question ids; they are addressed by position
+    const questionsById = new Map<string, any>()
+    ;((questionSet.questions as any[]) || []).forEach((question, index) => {
+      questionsById.set(question.id || `q_${index}`, question)
+    })
+
+    const unknownIds = [
+      ...questionIds,
+      ...responses.map((response: { questionId: string }) => response.questionId)
+    ].filter(questionId => !questionsById.has(questionId))
+    if (unknownIds.length > 0) {
+      return corsResponse(
+        { error: 'Responses reference unknown questions', unknownQuestionIds: unknownIds },
+        400
+      )
+    }
+
     // Check answers for this set only
-    const evaluation = checkSetAnswers(questions, responses)
+    const evaluation = checkSetAnswers(questionsById, questionIds, responses)
     
     // Create session for this set
     const sessionId = uuidv4()
@@ -114,39 +151,33 @@ export async function POST(
       userAgent: request.headers.get('user-agent') || 'Unknown'
     }
 
-    // Store session results in database if we have a group_id and session_id
-    if (questionSet.group_id && questionSet.session_id) {
+    // Individual submissions are kept separately; they feed prompt experiment outcomes.
+    // Group sessions are graded and stored by the group submit route only.
+    if (!questionSet.group_id && user) {
       try {
-        // Store in group_quiz_results table (only if we have required fields)
-        if (questionSet.created_by) {
-          await supabase
-            .from('group_quiz_results')
-            .insert({
-              session_id: questionSet.session_id,
-              user_id: questionSet.created_by,
-              score: evaluation.score,
-              total_questions: evaluation.totalQuestions,
-              correct_answers: evaluation.correctAnswers,
-              result_data: {
-                responses,
-                evaluation,
-                setIndex,
-                difficulty,
-                submittedAt: session.submittedAt,
-                userAgent: session.userAgent
-              }
-            })
-        }
-        
-        console.log(`Stored quiz results in database for session: ${questionSet.session_id}`)
+        const { error } = await supabase
+          .from('question_set_submissions')
+          .insert({
+            question_set_id: questionSet.id,
+            user_id: user.id,
+            set_index: typeof setIndex === 'number' ? setIndex : null,
+            difficulty: difficulty || null,
+            score: evaluation.score,
+            total_questions: evaluation.totalQuestions,
+            correct_answers: evaluation.correctAnswers,
+            answered_count: evaluation.answeredCount,
+            results: evaluation.results
+          })
+
+        if (error) throw error
+
+        await achievementService.evaluateUser(user.id)
+        await learningGoalService.recordActivity(user.id)
       } catch (error) {
-        console.error('Failed to store quiz results in database:', error)
-        // Continue execution - don't fail the request if database storage fails
+        console.error('Failed to store set submission:', error)
       }
     }
 
-    // Session data is now stored in the group_quiz_results table instead of question set metadata
-
     const result = {
       sessionId,
       score: evaluation.score,
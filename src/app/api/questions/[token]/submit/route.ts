@@ -3,6 +3,7 @@ import { v4 as uuidv4 } from 'uuid'
 import { corsResponse, corsHeaders } from '../../../../../lib/cors'
 import { getSupabaseServer, getCurrentUserServer } from '../../../../../lib/supabase/server'
 import { getSupabaseServiceRole } from '../../../../../lib/supabase/service-role'
+import { gradeAnswer } from '../../../../../lib/utils/question-grading'
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -15,13 +16,8 @@ export async function OPTIONS() {
 function checkAnswers(questions: any[], responses: any[]) {
   const results = responses.map((response, index) => {
     const question = questions[index]
-    const isCorrect = response.answer === question.correctAnswer
-    
-    // Convert option letter back to full text for display
-    const userOptionIndex = response.answer.charCodeAt(0) - 65 // A->0, B->1, etc.
-    const correctOptionIndex = question.correctAnswer.charCodeAt(0) - 65
-    const userAnswerText = question.options[userOptionIndex] || response.answer
-    const correctAnswerText = question.options[correctOptionIndex] || question.correctAnswer
+    // Grades every question kind and converts answers to text for display
+    const { isCorrect, userAnswerText, correctAnswerText } = gradeAnswer(question, response.answer)
     
     return {
       questionId: question.id || `q_${index}`,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { createAIService, type DifficultyPreset } from '@/lib/services/ai-service'
 import { getSupabaseServer, getCurrentUserServer } from '@/lib/supabase/server'
+import { withUsageMetering } from '@/lib/usage-metering'
 
 // Request validation schema
 const generateFromUrlSchema = z.object({
@@ -93,9 +94,11 @@ async function fetchYouTubeTranscript(videoUrl: string, startTime?: number, endT
 
 /**
  * POST /api/questions/generate-from-url
- * Generate questions from YouTube video URL
+ * Generate questions from YouTube video URL, metered against the user's plan
  */
-export async function POST(request: NextRequest) {
+export const POST = withUsageMetering(['ai_generation'], generateFromUrl)
+
+async function generateFromUrl(request: NextRequest) {
   try {
     // Parse and validate request
     const body = await request.json()
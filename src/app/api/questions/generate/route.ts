@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { createAIService, type DifficultyPreset, type SavedLoop } from '@/lib/services/ai-service'
+import {
+  createAIService,
+  QUESTION_KINDS,
+  type DifficultyPreset,
+  type SavedLoop
+} from '@/lib/services/ai-service'
+import { promptExperimentService } from '@/lib/services/prompt-experiment-service'
 import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { questionGenerationFeatures, withUsageMetering } from '@/lib/usage-metering'
 
 // Request validation schema
 const generateRequestSchema = z.object({
@@ -31,6 +38,7 @@ const generateRequestSchema = z.object({
   difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
   customCount: z.number().min(1).max(8).optional(), // Support for preset-based custom counts
   customPromptId: z.string().optional(), // Support for custom prompts
+  questionKind: z.enum(QUESTION_KINDS).optional(),
   aiProvider: z.enum(['openai', 'anthropic', 'google']).optional(),
   saveToDatabase: z.boolean().default(false),
   groupId: z.string().optional(),
@@ -41,9 +49,11 @@ type GenerateRequest = z.infer<typeof generateRequestSchema>
 
 /**
  * POST /api/questions/generate
- * Generate questions from transcript using AI
+ * Generate questions from transcript using AI, metered against the user's plan
  */
-export async function POST(request: NextRequest) {
+export const POST = withUsageMetering(questionGenerationFeatures, generateQuestions)
+
+async function generateQuestions(request: NextRequest) {
   try {
     // Parse and validate request
     const body = await request.json()
@@ -55,7 +65,8 @@ export async function POST(request: NextRequest) {
       preset,
       difficulty,
       customCount,
-      customPromptId,
+      customPromptId: requestedPromptId,
+      questionKind,
       aiProvider,
       saveToDatabase,
       groupId,
@@ -66,6 +77,12 @@ export async function POST(request: NextRequest) {
     const aiService = createAIService(aiProvider ? { provider: aiProvider } : undefined)
     const supabase = getSupabaseServer(request)
 
+    // A prompt in a running experiment may be swapped for another variant
+    const experimentAssignment = requestedPromptId && supabase
+      ? await promptExperimentService.assignVariant(supabase, requestedPromptId)
+      : null
+    const customPromptId = experimentAssignment?.promptId ?? requestedPromptId
+
     // Handle difficulty-based generation with support for custom counts from presets
     let finalPreset: DifficultyPreset
     if (difficulty) {
@@ -107,7 +124,8 @@ export async function POST(request: NextRequest) {
         customPromptId,
         customCount,
         segments,
-        supabase
+        supabase,
+        questionKind
       )
     } else {
       // Use sequential generation with deduplication for mixed difficulty questions
@@ -120,7 +138,8 @@ export async function POST(request: NextRequest) {
         finalPreset,
         customPromptId,
         segments,
-        supabase
+        supabase,
+        questionKind
       )
 
       // Combine all questions into a single result structure
@@ -135,6 +154,11 @@ export async function POST(request: NextRequest) {
         questions: allQuestions,
         preset: finalPreset,
         actualDistribution,
+        promptVersionId:
+          sequentialResults.easy?.promptVersionId ??
+          sequentialResults.medium?.promptVersionId ??
+          sequentialResults.hard?.promptVersionId ??
+          null,
         sequentialResults // Include the separate difficulty results
       }
     }
@@ -194,8 +218,12 @@ export async function POST(request: NextRequest) {
                   customCount: finalPreset[diff],
                   isPresetBased: !!preset,
                   customPromptId: customPromptId || null,
-                  usedCustomPrompt: !!customPromptId
-                }
+                  promptVersionId: difficultyResult.promptVersionId ?? null,
+                  usedCustomPrompt: !!customPromptId,
+                  experimentId: experimentAssignment?.experimentId ?? null,
+                  questionKind: questionKind || 'multiple_choice'
+                },
+                experiment_variant_id: experimentAssignment?.variantId
               })
 
               shareTokens[diff] = questionSet.share_token
@@ -228,13 +256,29 @@ export async function POST(request: NextRequest) {
               customCount: customCount,
               isPresetBased: !!customCount,
               customPromptId: customPromptId || null,
-              usedCustomPrompt: !!customPromptId
-            }
+              promptVersionId: generatedQuestions.promptVersionId ?? null,
+              usedCustomPrompt: !!customPromptId,
+              experimentId: experimentAssignment?.experimentId ?? null,
+              questionKind: questionKind || 'multiple_choice'
+            },
+            experiment_variant_id: experimentAssignment?.variantId
           })
 
           shareTokens.mixed = questionSet.share_token
           console.log(`Saved questions to database with token: ${questionSet.share_token}`)
         }
+
+        // Keep generated questions in the bank so they outlive the expiring sets
+        try {
+          const { createQuestionBankService } = await import('@/lib/services/question-bank-service')
+          const banked = await createQuestionBankService(request).addQuestions(
+            generatedQuestions.questions,
+            { loopId: loop.id, videoTitle: loop.videoTitle, groupId }
+          )
+          console.log(`Question bank: ${banked.added} added, ${banked.duplicates} already banked`)
+        } catch (bankError) {
+          console.error('Failed to save questions to bank:', bankError)
+        }
       } catch (saveError) {
         console.error('Failed to save questions to database:', saveError)
         // Don't fail the entire request if saving fails
@@ -258,7 +302,9 @@ export async function POST(request: NextRequest) {
           customCount: customCount,
           isPresetBased: !!customCount,
           customPromptId: customPromptId || null,
+          promptVersionId: generatedQuestions.promptVersionId ?? null,
           usedCustomPrompt: !!customPromptId,
+          experimentId: experimentAssignment?.experimentId ?? null,
           transcript: {
             length: transcript.length,
             wordCount: transcript.split(/\s+/).length
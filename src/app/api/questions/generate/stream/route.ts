@@ -0,0 +1,311 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import {
+  createAIService,
+  QUESTION_KINDS,
+  type DifficultyPreset,
+  type GeneratedQuestion,
+  type SavedLoop
+} from '@/lib/services/ai-service'
+import { promptExperimentService } from '@/lib/services/prompt-experiment-service'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { questionGenerationFeatures, withUsageMetering } from '@/lib/usage-metering'
+
+// Request validation schema (mirrors POST /api/questions/generate)
+const streamRequestSchema = z.object({
+  transcript: z.string().min(10, 'Transcript must be at least 10 characters'),
+  loop: z.object({
+    id: z.string(),
+    videoTitle: z.string().optional(),
+    startTime: z.number(),
+    endTime: z.number()
+  }),
+  segments: z
+    .array(
+      z.object({
+        text: z.string(),
+        start: z.number(),
+        duration: z.number()
+      })
+    )
+    .optional(),
+  preset: z
+    .object({
+      easy: z.number().min(0).max(8),
+      medium: z.number().min(0).max(8),
+      hard: z.number().min(0).max(8)
+    })
+    .optional(),
+  difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+  customCount: z.number().min(1).max(8).optional(),
+  customPromptId: z.string().optional(),
+  questionKind: z.enum(QUESTION_KINDS).optional(),
+  aiProvider: z.enum(['openai', 'anthropic', 'google']).optional(),
+  saveToDatabase: z.boolean().default(false),
+  groupId: z.string().optional(),
+  sessionId: z.string().optional()
+})
+
+/**
+ * POST /api/questions/generate/stream
+ * Generate questions and deliver each one over Server-Sent Events as soon as it is complete.
+ *
+ * Events: start, question, difficulty_complete, difficulty_failed, complete, error
+ *
+ * Metered against the user's plan; usage counts once the stream has started.
+ */
+export const POST = withUsageMetering(questionGenerationFeatures, streamQuestions)
+
+async function streamQuestions(request: NextRequest) {
+  let validatedData: z.infer<typeof streamRequestSchema>
+  try {
+    validatedData = streamRequestSchema.parse(await request.json())
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: 'Invalid request data',
+        details:
+          (error as any).errors?.map((e: any) => ({
+            field: e.path?.join('.') || 'unknown',
+            message: e.message
+          })) || []
+      },
+      { status: 400 }
+    )
+  }
+
+  const {
+    transcript,
+    loop,
+    segments,
+    preset,
+    difficulty,
+    customCount,
+    customPromptId: requestedPromptId,
+    questionKind,
+    aiProvider,
+    saveToDatabase,
+    groupId,
+    sessionId
+  } = validatedData
+
+  const supabase = getSupabaseServer(request)
+  if (saveToDatabase) {
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required for database save' },
+        { status: 401 }
+      )
+    }
+  }
+
+  // A prompt in a running experiment may be swapped for another variant
+  const experimentAssignment = requestedPromptId && supabase
+    ? await promptExperimentService.assignVariant(supabase, requestedPromptId)
+    : null
+  const customPromptId = experimentAssignment?.promptId ?? requestedPromptId
+
+  let aiService: ReturnType<typeof createAIService>
+  try {
+    aiService = createAIService(aiProvider ? { provider: aiProvider } : undefined)
+  } catch (error) {
+    console.error('AI service configuration error:', error)
+    return NextResponse.json({ error: 'AI service configuration error' }, { status: 500 })
+  }
+
+  let finalPreset: DifficultyPreset
+  if (difficulty) {
+    const questionCount = customCount || 6
+    finalPreset = {
+      easy: difficulty === 'easy' ? questionCount : 0,
+      medium: difficulty === 'medium' ? questionCount : 0,
+      hard: difficulty === 'hard' ? questionCount : 0
+    }
+  } else if (preset) {
+    finalPreset = preset
+  } else {
+    finalPreset = { easy: 3, medium: 2, hard: 1 }
+  }
+
+  const encoder = new TextEncoder()
+  const startTime = Date.now()
+  // Set once the client disconnects; stops the provider calls so they stop spending tokens
+  const abortController = new AbortController()
+  let closed = false
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      const shareTokens: Record<string, string> = {}
+      const actualDistribution = { easy: 0, medium: 0, hard: 0 }
+
+      // Keep generated questions in the bank so they outlive the expiring set
+      const bankQuestions = async (questions: GeneratedQuestion[]) => {
+        try {
+          const { createQuestionBankService } = await import(
+            '@/lib/services/question-bank-service'
+          )
+          await createQuestionBankService(request).addQuestions(questions, {
+            loopId: loop.id,
+            videoTitle: loop.videoTitle,
+            groupId
+          })
+        } catch (bankError) {
+          console.error('Failed to save questions to bank:', bankError)
+        }
+      }
+
+      const saveDifficultySet = async (
+        diff: 'easy' | 'medium' | 'hard',
+        questions: GeneratedQuestion[],
+        promptVersionId: string | null
+      ) => {
+        const { createSharedQuestionsService } = await import(
+          '@/lib/services/shared-questions-service'
+        )
+        const sharedService = createSharedQuestionsService(request)
+
+        const questionSet = await sharedService.createSharedQuestionSet({
+          title: `${loop.videoTitle || 'Generated Questions'} - ${diff.charAt(0).toUpperCase() + diff.slice(1)}`,
+          questions,
+          transcript,
+          video_title: loop.videoTitle,
+          start_time: loop.startTime,
+          end_time: loop.endTime,
+          group_id: groupId,
+          session_id: sessionId,
+          is_public: !!groupId,
+          expires_hours: 24,
+          metadata: {
+            totalQuestions: questions.length,
+            preset: { easy: 0, medium: 0, hard: 0, [diff]: questions.length },
+            actualDistribution: { easy: 0, medium: 0, hard: 0, [diff]: questions.length },
+            aiProvider: aiProvider || process.env.AI_PROVIDER,
+            processingTimeMs: Date.now() - startTime,
+            generatedAt: new Date().toISOString(),
+            segmentsCount: segments?.length || 0,
+            difficulty: diff,
+            usedSegments: !!segments,
+            customCount: finalPreset[diff],
+            isPresetBased: !!preset,
+            customPromptId: customPromptId || null,
+            promptVersionId,
+            usedCustomPrompt: !!customPromptId,
+            experimentId: experimentAssignment?.experimentId ?? null,
+            questionKind: questionKind || 'multiple_choice',
+            streamed: true
+          },
+          experiment_variant_id: experimentAssignment?.variantId
+        })
+
+        await bankQuestions(questions)
+
+        return questionSet.share_token
+      }
+
+      try {
+        send('start', {
+          preset: finalPreset,
+          totalQuestions: finalPreset.easy + finalPreset.medium + finalPreset.hard
+        })
+
+        const events = aiService.streamQuestionsSequentially(
+          loop as SavedLoop,
+          transcript,
+          finalPreset,
+          customPromptId,
+          segments,
+          supabase,
+          questionKind,
+          abortController.signal
+        )
+
+        for await (const event of events) {
+          if (closed) break
+          switch (event.type) {
+            case 'question':
+              send('question', {
+                difficulty: event.difficulty,
+                index: event.index,
+                question: event.question
+              })
+              break
+            case 'difficulty_complete': {
+              actualDistribution[event.difficulty] = event.questions.length
+              let shareToken: string | undefined
+
+              if (saveToDatabase && event.questions.length > 0) {
+                try {
+                  shareToken = await saveDifficultySet(
+                    event.difficulty,
+                    event.questions,
+                    event.promptVersionId ?? null
+                  )
+                  shareTokens[event.difficulty] = shareToken
+                } catch (saveError) {
+                  console.error(`Failed to save ${event.difficulty} questions:`, saveError)
+                }
+              }
+
+              send('difficulty_complete', {
+                difficulty: event.difficulty,
+                count: event.questions.length,
+                shareToken
+              })
+              break
+            }
+            case 'difficulty_failed':
+              send('difficulty_failed', { difficulty: event.difficulty, error: event.error })
+              break
+          }
+        }
+
+        const processingTime = Date.now() - startTime
+        console.log(`Streamed questions for loop ${loop.id} in ${processingTime}ms`)
+
+        send('complete', {
+          actualDistribution,
+          shareTokens,
+          metadata: {
+            totalQuestions:
+              actualDistribution.easy + actualDistribution.medium + actualDistribution.hard,
+            processingTimeMs: processingTime,
+            aiProvider: aiProvider || process.env.AI_PROVIDER,
+            difficulty: difficulty || 'mixed',
+            customPromptId: customPromptId || null,
+            experimentId: experimentAssignment?.experimentId ?? null
+          }
+        })
+      } catch (error) {
+        if (!closed) {
+          console.error('Streaming question generation error:', error)
+        }
+        send('error', {
+          error: error instanceof Error ? error.message : 'Failed to generate questions'
+        })
+      } finally {
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      closed = true
+      abortController.abort()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
+}
@@ -1,5 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { Innertube } from 'youtubei.js'
+import {
+  transcriptCacheService,
+  type CachedTranscriptVideoInfo
+} from '@/lib/services/transcript-cache-service'
+import { mediaIdFromUrl, type TranscriptSourceType } from '@/lib/utils/media-source'
+import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
+import { detectSubtitleFormat, parseSubtitles, type SubtitleFormat } from '@/lib/utils/subtitles'
+
+// Uploaded subtitle files larger than this are rejected
+const MAX_SUBTITLE_LENGTH = 2 * 1024 * 1024
 
 interface TranscriptSegment {
   text: string
@@ -7,12 +17,28 @@ interface TranscriptSegment {
   duration: number
 }
 
+interface TranscriptCacheStatus {
+  hit: boolean
+  // Served past its TTL because a refresh failed
+  stale: boolean
+  fetchedAt?: string
+  expiresAt?: string
+}
+
 interface TranscriptResult {
   segments: TranscriptSegment[]
   fullText: string
   videoId: string
   language?: string
   videoInfo?: any
+  sourceType: TranscriptSourceType
+  cache: TranscriptCacheStatus
+}
+
+interface FullTranscript {
+  segments: TranscriptSegment[]
+  videoInfo: CachedTranscriptVideoInfo | null
+  cache: TranscriptCacheStatus
 }
 
 interface TranscriptError {
@@ -75,7 +101,8 @@ class YouTubeTranscriptService {
     videoId: string,
     startTime: number,
     endTime: number,
-    language?: 'en'
+    language?: string,
+    options: { refresh?: boolean } = {}
   ): Promise<TranscriptResult> {
     if (!videoId || videoId.trim().length === 0) {
       throw this.createError('VIDEO_NOT_FOUND', 'Video ID is required')
@@ -93,7 +120,11 @@ class YouTubeTranscriptService {
     try {
       console.log(`Extracting transcript for ${cleanVideoId} (${startTime}s-${endTime}s)`)
 
-      const { segments: fullTranscript, info } = await this.fetchFullTranscript(cleanVideoId, language)
+      const {
+        segments: fullTranscript,
+        videoInfo,
+        cache
+      } = await this.getFullTranscript(cleanVideoId, language, options.refresh)
       const segmentTranscript = this.extractTimeSegment(fullTranscript, startTime, endTime)
 
       if (segmentTranscript.segments.length === 0) {
@@ -111,11 +142,9 @@ class YouTubeTranscriptService {
         ...segmentTranscript,
         videoId: cleanVideoId,
         language: language || 'auto',
-        videoInfo: {
-          title: info.basic_info.title,
-          thumbnail: info.basic_info.thumbnail[0].url,
-          channel: info.basic_info.channel.title,
-        }
+        videoInfo,
+        sourceType: 'youtube',
+        cache
       }
     } catch (error) {
       console.error(`Transcript extraction failed for ${cleanVideoId}:`, error)
@@ -123,6 +152,66 @@ class YouTubeTranscriptService {
     }
   }
 
+  /**
+   * Build a transcript from an uploaded SRT/WebVTT file for media hosted anywhere.
+   * Without a time range the whole file is used.
+   */
+  getSubtitleSegment(params: {
+    subtitles: string
+    mediaUrl: string
+    fileName?: string
+    format?: SubtitleFormat
+    title?: string
+    startTime?: number
+    endTime?: number
+    language?: string
+  }): TranscriptResult {
+    const { subtitles, mediaUrl, fileName } = params
+
+    if (subtitles.length > MAX_SUBTITLE_LENGTH) {
+      throw this.createError('PARSE_ERROR', 'Subtitle file is too large (max 2MB)')
+    }
+
+    const format = params.format || detectSubtitleFormat(subtitles, fileName)
+    const allSegments = parseSubtitles(subtitles, format)
+
+    if (allSegments.length === 0) {
+      throw this.createError('PARSE_ERROR', `No subtitle cues found in ${format.toUpperCase()} file`)
+    }
+
+    const lastSegment = allSegments[allSegments.length - 1]
+    const startTime = params.startTime ?? 0
+    const endTime = params.endTime ?? lastSegment.start + lastSegment.duration
+
+    if (startTime < 0 || endTime <= startTime) {
+      throw this.createError(
+        'PARSE_ERROR',
+        'Invalid time range: startTime must be >= 0 and endTime must be > startTime'
+      )
+    }
+
+    const segmentTranscript = this.extractTimeSegment(allSegments, startTime, endTime)
+    if (segmentTranscript.segments.length === 0) {
+      throw this.createError(
+        'NOT_AVAILABLE',
+        `No subtitle content found for time range ${startTime}s - ${endTime}s`
+      )
+    }
+
+    return {
+      ...segmentTranscript,
+      videoId: mediaIdFromUrl(mediaUrl),
+      language: params.language || 'auto',
+      videoInfo: {
+        title: params.title || fileName?.replace(/\.(srt|vtt)$/i, '') || 'Lesson Recording',
+        subtitleFormat: format,
+        subtitleFileName: fileName
+      },
+      sourceType: 'subtitle_file',
+      cache: { hit: false, stale: false }
+    }
+  }
+
   async getAvailableLanguages(videoId: string): Promise<string[]> {
     console.log(`[getAvailableLanguages] Getting languages for videoId: ${videoId}`)
     const cleanVideoId = this.extractVideoId(videoId)
@@ -217,10 +306,79 @@ class YouTubeTranscriptService {
     }
   }
 
+  /**
+   * Full caption track from the cache, refetching from YouTube on a miss, an
+   * expired entry or an explicit refresh. An expired entry is still served if
+   * the refetch fails.
+   */
+  private async getFullTranscript(
+    videoId: string,
+    language?: string,
+    refresh = false
+  ): Promise<FullTranscript> {
+    const cached = refresh ? null : await transcriptCacheService.get(videoId, language)
+
+    if (cached && !cached.stale) {
+      console.log(`Transcript cache hit for ${videoId} (${cached.entry.language})`)
+      return {
+        segments: cached.entry.segments,
+        videoInfo: cached.entry.videoInfo,
+        cache: {
+          hit: true,
+          stale: false,
+          fetchedAt: cached.entry.fetchedAt,
+          expiresAt: cached.entry.expiresAt
+        }
+      }
+    }
+
+    try {
+      const { segments, info, resolvedLanguage } = await this.fetchFullTranscript(videoId, language)
+      const videoInfo: CachedTranscriptVideoInfo = {
+        title: info.basic_info?.title,
+        thumbnail: info.basic_info?.thumbnail?.[0]?.url,
+        channel: info.basic_info?.channel?.title
+      }
+
+      const stored = await transcriptCacheService.set(videoId, language, {
+        segments,
+        resolvedLanguage,
+        videoInfo
+      })
+
+      return {
+        segments,
+        videoInfo,
+        cache: {
+          hit: false,
+          stale: false,
+          fetchedAt: stored?.fetchedAt,
+          expiresAt: stored?.expiresAt
+        }
+      }
+    } catch (error) {
+      if (!cached) {
+        throw error
+      }
+
+      console.warn(`Transcript refresh failed for ${videoId}, serving stale cache:`, error)
+      return {
+        segments: cached.entry.segments,
+        videoInfo: cached.entry.videoInfo,
+        cache: {
+          hit: true,
+          stale: true,
+          fetchedAt: cached.entry.fetchedAt,
+          expiresAt: cached.entry.expiresAt
+        }
+      }
+    }
+  }
+
   private async fetchFullTranscript(
     videoId: string,
     language?: string
-  ): Promise<{ segments: TranscriptSegment[], info: any }> {
+  ): Promise<{ segments: TranscriptSegment[]; info: any; resolvedLanguage: string | null }> {
     try {
       const yt = await this.getInnertube()
       console.log(`Getting video info for ${videoId}`, yt)
@@ -275,7 +433,11 @@ class YouTubeTranscriptService {
             segment !== null && segment.text.trim().length > 0
         )
       
-      return { segments: transcriptSegments, info };
+      return {
+        segments: transcriptSegments,
+        info,
+        resolvedLanguage: transcriptInfo.selectedLanguage || null
+      }
     } catch (error) {
       if ((error as TranscriptError).code) {
         throw error
@@ -433,9 +595,9 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     console.log('body', body)
-    const { videoId, startTime, endTime, language, action } = body
+    const { videoId, startTime, endTime, language, action, refresh } = body
 
-    console.log('Transcript API request:', { videoId, startTime, endTime, language, action })
+    console.log('Transcript API request:', { videoId, startTime, endTime, language, action, refresh })
 
     switch (action) {
       case 'getSegment':
@@ -445,13 +607,44 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           )
         }
+        // Bypassing the cache refetches from YouTube and rewrites the cache, so only signed-in users may
+        if (refresh === true) {
+          const supabase = getSupabaseServer(request)
+          const user = supabase ? await getCurrentUserServer(supabase) : null
+          if (!user) {
+            return NextResponse.json({ error: 'Sign in to refresh transcripts' }, { status: 401 })
+          }
+        }
         const result = await transcriptService.getTranscriptSegment(
           videoId,
           startTime,
           endTime,
-          language
+          language,
+          { refresh: refresh === true }
+        )
+        return NextResponse.json(result, {
+          headers: { 'X-Transcript-Cache': result.cache.hit ? 'HIT' : 'MISS' }
+        })
+
+      case 'parseSubtitles':
+        if (typeof body.subtitles !== 'string' || !body.mediaUrl) {
+          return NextResponse.json(
+            { error: 'Missing required parameters: subtitles, mediaUrl' },
+            { status: 400 }
+          )
+        }
+        return NextResponse.json(
+          transcriptService.getSubtitleSegment({
+            subtitles: body.subtitles,
+            mediaUrl: body.mediaUrl,
+            fileName: body.fileName,
+            format: body.format === 'srt' || body.format === 'vtt' ? body.format : undefined,
+            title: body.title,
+            startTime,
+            endTime,
+            language
+          })
         )
-        return NextResponse.json(result)
 
       case 'getLanguages':
         if (!videoId) {
@@ -476,7 +669,8 @@ export async function POST(request: NextRequest) {
       default:
         return NextResponse.json(
           {
-            error: 'Invalid action. Supported actions: getSegment, getLanguages, checkAvailability'
+            error:
+              'Invalid action. Supported actions: getSegment, parseSubtitles, getLanguages, checkAvailability'
           },
           { status: 400 }
         )
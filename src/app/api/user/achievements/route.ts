@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServer, getCurrentUserServer } from '../../../../lib/supabase/server'
+import { corsResponse, corsHeaders } from '../../../../lib/cors'
+import { ACHIEVEMENTS, achievementService } from '../../../../lib/services/achievement-service'
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// GET /api/user/achievements - Earned badges and the full catalog
+export async function GET(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const achievements = await achievementService.listUserAchievements(supabase, user.id)
+
+    return corsResponse({ achievements, catalog: Object.values(ACHIEVEMENTS) })
+  } catch (error) {
+    console.error('Error fetching achievements:', error)
+    return corsResponse({ error: 'Failed to fetch achievements' }, 500)
+  }
+}
+
+// POST /api/user/achievements - Check the user's rules after activity done client-side
+export async function POST(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const awarded = await achievementService.evaluateUser(user.id)
+
+    return corsResponse({ awarded })
+  } catch (error) {
+    console.error('Error evaluating achievements:', error)
+    return corsResponse({ error: 'Failed to evaluate achievements' }, 500)
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServer, getCurrentUserServer } from '../../../../lib/supabase/server'
+import { corsResponse, corsHeaders } from '../../../../lib/cors'
+import { learningGoalService } from '../../../../lib/services/learning-goal-service'
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// POST /api/user/activity - Update the streak and goal progress after practice done client-side
+export async function POST(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    await learningGoalService.recordActivity(user.id)
+
+    return corsResponse({ success: true })
+  } catch (error) {
+    console.error('Error recording activity:', error)
+    return corsResponse({ error: 'Failed to record activity' }, 500)
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServer, getCurrentUserServer } from '../../../../lib/supabase/server'
+import { corsResponse, corsHeaders } from '../../../../lib/cors'
+import { challengeService } from '../../../../lib/services/challenge-service'
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// POST /api/user/challenges - Recount challenge progress after activity done client-side
+export async function POST(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const completed = await challengeService.refreshProgress(user.id)
+
+    return corsResponse({ completed })
+  } catch (error) {
+    console.error('Error refreshing challenge progress:', error)
+    return corsResponse({ error: 'Failed to refresh challenge progress' }, 500)
+  }
+}
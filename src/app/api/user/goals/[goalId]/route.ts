@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServer, getCurrentUserServer } from '../../../../../lib/supabase/server'
+import { corsResponse, corsHeaders } from '../../../../../lib/cors'
+import { learningGoalService } from '../../../../../lib/services/learning-goal-service'
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// DELETE /api/user/goals/[goalId] - Remove a goal
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ goalId: string }> }
+) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { goalId } = await params
+    const deleted = await learningGoalService.deleteGoal(supabase, user.id, goalId)
+
+    if (!deleted) {
+      return corsResponse({ error: 'Goal not found' }, 404)
+    }
+
+    return corsResponse({ success: true })
+  } catch (error) {
+    console.error('Error deleting learning goal:', error)
+    return corsResponse({ error: 'Failed to delete learning goal' }, 500)
+  }
+}
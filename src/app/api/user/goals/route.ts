@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSupabaseServer, getCurrentUserServer } from '../../../../lib/supabase/server'
+import { corsResponse, corsHeaders } from '../../../../lib/cors'
+import { learningGoalService } from '../../../../lib/services/learning-goal-service'
+
+const createGoalSchema = z
+  .object({
+    type: z.enum(['daily_reviews', 'weekly_quizzes', 'words_learned']),
+    target: z.number().int().min(1).max(10000),
+    title: z.string().max(120).optional(),
+    deadline: z.string().datetime().optional()
+  })
+  .refine(data => data.type !== 'words_learned' || data.deadline !== undefined, {
+    message: 'deadline is required for words learned goals',
+    path: ['deadline']
+  })
+  .refine(data => !data.deadline || new Date(data.deadline) > new Date(), {
+    message: 'deadline must be in the future',
+    path: ['deadline']
+  })
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// GET /api/user/goals - Goals with progress, streak and daily activity
+export async function GET(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const overview = await learningGoalService.getOverview(supabase, user.id)
+
+    return corsResponse(overview)
+  } catch (error) {
+    console.error('Error fetching learning goals:', error)
+    return corsResponse({ error: 'Failed to fetch learning goals' }, 500)
+  }
+}
+
+// POST /api/user/goals - Set a new goal
+export async function POST(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const body = await request.json()
+    const input = createGoalSchema.parse(body)
+
+    const goal = await learningGoalService.createGoal(supabase, user.id, input)
+
+    return corsResponse({ goal }, 201)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({ error: 'Validation failed', details: error.issues }, 400)
+    }
+
+    console.error('Error creating learning goal:', error)
+    return corsResponse({ error: 'Failed to create learning goal' }, 500)
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServer, getCurrentUserServer } from '@/lib/supabase/server'
+import { shadowingService } from '@/lib/services/shadowing-service'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// DELETE /api/user/loops/[loopId]/shadowing/[recordingId] - Remove a take and its audio
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ loopId: string; recordingId: string }> }
+) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { recordingId } = await params
+    const deleted = await shadowingService.deleteAttempt(supabase, user.id, recordingId)
+
+    if (!deleted) {
+      return corsResponse({ error: 'Recording not found' }, 404)
+    }
+
+    return corsResponse({ success: true })
+  } catch (error) {
+    console.error('Error deleting shadowing take:', error)
+    return corsResponse({ error: 'Failed to delete recording' }, 500)
+  }
+}
@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServer, getCurrentUserServer } from '@/lib/supabase/server'
+import { LoopManagementService } from '@/lib/services/loop-management-service'
+import {
+  MAX_RECORDING_BYTES,
+  MAX_RECORDING_SECONDS,
+  shadowingService,
+  type ShadowingPractice
+} from '@/lib/services/shadowing-service'
+import { createSpeechProvider } from '@/lib/services/speech'
+import { shadowingSegments } from '@/lib/utils/shadowing'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { withUsageMetering } from '@/lib/usage-metering'
+
+type RouteContext = { params: Promise<{ loopId: string }> }
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// GET /api/user/loops/[loopId]/shadowing - The loop's segments and the user's takes
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ loopId: string }> }
+) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { loopId } = await params
+    const loop = await new LoopManagementService(request).getLoop(loopId)
+    if (!loop) {
+      return corsResponse({ error: 'Loop not found' }, 404)
+    }
+
+    const attempts = await shadowingService.listAttempts(supabase, user.id, loopId)
+
+    const practice: ShadowingPractice = {
+      loop: {
+        id: loop.id,
+        videoTitle: loop.videoTitle,
+        videoUrl: loop.videoUrl,
+        videoId: loop.videoId,
+        startTime: loop.startTime,
+        endTime: loop.endTime,
+        language: loop.language,
+        sourceType: loop.sourceType
+      },
+      segments: shadowingSegments(loop.segments),
+      attempts
+    }
+
+    return corsResponse(practice)
+  } catch (error) {
+    console.error('Error fetching shadowing practice:', error)
+    return corsResponse({ error: 'Failed to fetch shadowing practice' }, 500)
+  }
+}
+
+// Read the body, giving up as soon as it passes maxBytes; null when it is too large
+async function readBodyWithLimit(request: NextRequest, maxBytes: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (!request.body) return new Uint8Array()
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return body
+}
+
+// POST /api/user/loops/[loopId]/shadowing?segment=&duration= - Score a take; the body is the recorded audio
+// Each take is sent to the speech provider, so it counts as AI usage
+export const POST = withUsageMetering(['ai_generation'], scoreTake)
+
+async function scoreTake(request: NextRequest, { params }: RouteContext) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { searchParams } = new URL(request.url)
+    const segmentIndex = Number(searchParams.get('segment'))
+    const durationSeconds = Number(searchParams.get('duration'))
+    const contentType = request.headers.get('Content-Type') || ''
+
+    if (!Number.isInteger(segmentIndex) || segmentIndex < 0) {
+      return corsResponse({ error: 'A segment index is required' }, 400)
+    }
+    if (!Number.isFinite(durationSeconds) || durationSeconds <= 0 || durationSeconds > MAX_RECORDING_SECONDS) {
+      return corsResponse({ error: `Recordings must be under ${MAX_RECORDING_SECONDS} seconds` }, 400)
+    }
+    if (!contentType.startsWith('audio/')) {
+      return corsResponse({ error: 'The request body must be an audio recording' }, 400)
+    }
+
+    // Oversized uploads are turned away before, or while, they are read
+    const contentLength = Number(request.headers.get('Content-Length'))
+    if (Number.isFinite(contentLength) && contentLength > MAX_RECORDING_BYTES) {
+      return corsResponse({ error: 'Recording is too large' }, 413)
+    }
+
+    const body = await readBodyWithLimit(request, MAX_RECORDING_BYTES)
+    if (!body) {
+      return corsResponse({ error: 'Recording is too large' }, 413)
+    }
+
+    const audio = new Blob([body], { type: contentType })
+    if (audio.size === 0) {
+      return corsResponse({ error: 'Recording is empty' }, 400)
+    }
+
+    const { loopId } = await params
+    const loop = await new LoopManagementService(request).getLoop(loopId)
+    if (!loop) {
+      return corsResponse({ error: 'Loop not found' }, 404)
+    }
+
+    const segment = shadowingSegments(loop.segments).find(candidate => candidate.index === segmentIndex)
+    if (!segment) {
+      return corsResponse({ error: 'Segment not found' }, 404)
+    }
+
+    const provider = createSpeechProvider()
+    if (!provider) {
+      return corsResponse({ error: 'Speech recognition is not configured' }, 503)
+    }
+
+    const attempt = await shadowingService.submitAttempt(
+      supabase,
+      user.id,
+      {
+        loopId,
+        loopSegmentId: loop.metadata?.segmentId || null,
+        segment,
+        language: loop.language,
+        audio,
+        durationSeconds
+      },
+      provider
+    )
+
+    return corsResponse({ attempt }, 201)
+  } catch (error) {
+    console.error('Error scoring shadowing take:', error)
+
+    if (error instanceof Error && error.message.startsWith('Failed to transcribe')) {
+      return corsResponse({ error: 'Could not transcribe the recording. Please try again.' }, 502)
+    }
+
+    return corsResponse({ error: 'Failed to save recording' }, 500)
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSupabaseServer, getCurrentUserServer } from '@/lib/supabase/server'
+import { createAIService } from '@/lib/services/ai-service'
+import { LoopManagementService } from '@/lib/services/loop-management-service'
+import {
+  CEFR_LEVELS,
+  MAX_SUMMARY_ITEM_LENGTH,
+  MAX_SUMMARY_ITEMS,
+  transcriptSummaryService
+} from '@/lib/services/transcript-summary-service'
+import { corsResponse, corsHeaders } from '@/lib/cors'
+import { withUsageMetering } from '@/lib/usage-metering'
+
+type RouteContext = { params: Promise<{ loopId: string }> }
+
+const summaryItemsSchema = z.array(z.string().trim().min(1).max(MAX_SUMMARY_ITEM_LENGTH)).max(MAX_SUMMARY_ITEMS)
+
+const updateSummarySchema = z.object({
+  mainPoints: summaryItemsSchema.min(1),
+  keyInsights: summaryItemsSchema,
+  difficultyAssessment: z.string().trim().max(1000),
+  level: z.enum(CEFR_LEVELS).nullable(),
+  recommendedFocusAreas: summaryItemsSchema
+})
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// GET /api/user/loops/[loopId]/summary - The cached summary (null until generated) and whether the user may edit it
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { loopId } = await params
+    const loop = await new LoopManagementService(request).getLoop(loopId)
+    if (!loop) {
+      return corsResponse({ error: 'Loop not found' }, 404)
+    }
+
+    const [summary, canEdit] = await Promise.all([
+      transcriptSummaryService.getSummary(supabase, loopId),
+      transcriptSummaryService.canEditSummary(supabase, user, loop)
+    ])
+
+    return corsResponse({ summary, canEdit })
+  } catch (error) {
+    console.error('Error fetching transcript summary:', error)
+    return corsResponse({ error: 'Failed to fetch transcript summary' }, 500)
+  }
+}
+
+// POST /api/user/loops/[loopId]/summary - Generate the summary; replacing an existing one needs edit rights
+export const POST = withUsageMetering(['ai_generation'], generateSummary)
+
+async function generateSummary(request: NextRequest, { params }: RouteContext) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { loopId } = await params
+    const loop = await new LoopManagementService(request).getLoop(loopId)
+    if (!loop) {
+      return corsResponse({ error: 'Loop not found' }, 404)
+    }
+
+    const [existing, canEdit] = await Promise.all([
+      transcriptSummaryService.getSummary(supabase, loopId),
+      transcriptSummaryService.canEditSummary(supabase, user, loop)
+    ])
+
+    if (existing && !canEdit) {
+      return corsResponse({ error: 'Only the loop owner or group admins can regenerate the summary' }, 403)
+    }
+
+    const summary = await transcriptSummaryService.generateSummary(loop, user.id, createAIService())
+
+    return corsResponse({ summary, canEdit }, 201)
+  } catch (error) {
+    console.error('Error generating transcript summary:', error)
+
+    if (error instanceof Error && error.message === 'Loop has no transcript to summarize') {
+      return corsResponse({ error: error.message }, 400)
+    }
+    if (error instanceof Error && error.message.startsWith('Failed to generate')) {
+      return corsResponse({ error: 'Could not generate a summary. Please try again.' }, 502)
+    }
+
+    return corsResponse({ error: 'Failed to generate transcript summary' }, 500)
+  }
+}
+
+// PUT /api/user/loops/[loopId]/summary - Save an edited summary (loop owner or group admins)
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { loopId } = await params
+    const loop = await new LoopManagementService(request).getLoop(loopId)
+    if (!loop) {
+      return corsResponse({ error: 'Loop not found' }, 404)
+    }
+
+    if (!(await transcriptSummaryService.canEditSummary(supabase, user, loop))) {
+      return corsResponse({ error: 'Only the loop owner or group admins can edit the summary' }, 403)
+    }
+
+    const input = updateSummarySchema.parse(await request.json())
+    const summary = await transcriptSummaryService.updateSummary(loopId, user.id, input)
+
+    return corsResponse({ summary, canEdit: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({ error: 'Validation failed', details: error.issues }, 400)
+    }
+
+    console.error('Error updating transcript summary:', error)
+    return corsResponse({ error: 'Failed to update transcript summary' }, 500)
+  }
+}
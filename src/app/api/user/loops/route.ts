@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getSupabaseServer, getCurrentUserServer } from '@/lib/supabase/server'
 import { LoopManagementService } from '@/lib/services/loop-management-service'
 import { corsResponse, corsHeaders } from '@/lib/cors'
+import { withUsageMetering } from '@/lib/usage-metering'
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -37,7 +38,9 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withUsageMetering(['loop_creation'], createLoop)
+
+async function createLoop(request: NextRequest) {
   try {
     const supabase = getSupabaseServer(request)
     if (!supabase) {
@@ -51,7 +54,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { videoUrl, videoTitle, videoId, startTime, endTime, transcript, segments, language, metadata } = body
+    const { videoUrl, videoTitle, videoId, startTime, endTime, transcript, segments, language, sourceType, metadata } = body
 
     // Validate required fields
     if (!videoUrl || !videoId || startTime === undefined || endTime === undefined) {
@@ -66,13 +69,14 @@ export async function POST(request: NextRequest) {
     const loop = await service.createUserLoop({
       userId: user.id,
       videoUrl,
-      videoTitle: videoTitle || 'YouTube Video',
+      videoTitle: videoTitle || (sourceType === 'subtitle_file' ? 'Lesson Recording' : 'YouTube Video'),
       videoId,
       startTime,
       endTime,
       transcript: transcript || '',
       segments: segments || [],
       language: language || 'auto',
+      sourceType: sourceType === 'subtitle_file' ? 'subtitle_file' : 'youtube',
       metadata: metadata || {}
     })
 
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSupabaseServer, getCurrentUserServer } from '../../../../../lib/supabase/server'
+import { corsResponse, corsHeaders } from '../../../../../lib/cors'
+import { reviewSessionService } from '../../../../../lib/services/review-session-service'
+import { REVIEW_GRADES, type ReviewGrade } from '../../../../../lib/services/srs'
+
+const answerSchema = z.object({
+  index: z.number().int().min(0),
+  grade: z.enum(REVIEW_GRADES as [ReviewGrade, ...ReviewGrade[]]),
+  responseTimeMs: z.number().int().min(0).max(60 * 60 * 1000)
+})
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// PATCH /api/user/review-sessions/[sessionId] - Record an answer and advance
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { sessionId } = await params
+    const body = await request.json()
+    const input = answerSchema.parse(body)
+
+    const session = await reviewSessionService.recordAnswer(supabase, user.id, sessionId, input)
+
+    if (!session) {
+      return corsResponse({ error: 'Review session not found' }, 404)
+    }
+
+    return corsResponse({ session })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({ error: 'Validation failed', details: error.issues }, 400)
+    }
+
+    console.error('Error saving review answer:', error)
+    return corsResponse({ error: 'Failed to save review answer' }, 500)
+  }
+}
+
+// DELETE /api/user/review-sessions/[sessionId] - End a session early
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { sessionId } = await params
+    const abandoned = await reviewSessionService.abandonSession(supabase, user.id, sessionId)
+
+    if (!abandoned) {
+      return corsResponse({ error: 'Review session not found' }, 404)
+    }
+
+    return corsResponse({ success: true })
+  } catch (error) {
+    console.error('Error ending review session:', error)
+    return corsResponse({ error: 'Failed to end review session' }, 500)
+  }
+}
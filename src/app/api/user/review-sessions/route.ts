@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSupabaseServer, getCurrentUserServer } from '../../../../lib/supabase/server'
+import { corsResponse, corsHeaders } from '../../../../lib/cors'
+import { MAX_SESSION_SIZE, reviewSessionService } from '../../../../lib/services/review-session-service'
+import { ALL_REVIEW_CARD_TYPES, type ReviewCardType } from '../../../../lib/utils/review-cards'
+
+const startSessionSchema = z.object({
+  cardTypes: z
+    .array(z.enum(ALL_REVIEW_CARD_TYPES as [ReviewCardType, ...ReviewCardType[]]))
+    .min(1)
+    .optional(),
+  limit: z.number().int().min(1).max(MAX_SESSION_SIZE).optional()
+})
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// GET /api/user/review-sessions - The unfinished review session, if any, and the number of cards due
+export async function GET(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const [session, dueCount] = await Promise.all([
+      reviewSessionService.getActiveSession(supabase, user.id),
+      reviewSessionService.countDue(supabase, user.id)
+    ])
+
+    return corsResponse({ session, dueCount })
+  } catch (error) {
+    console.error('Error fetching review session:', error)
+    return corsResponse({ error: 'Failed to fetch review session' }, 500)
+  }
+}
+
+// POST /api/user/review-sessions - Start a session over the cards due now
+export async function POST(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const body = await request.json()
+    const input = startSessionSchema.parse(body)
+
+    const session = await reviewSessionService.startSession(supabase, user.id, input)
+
+    if (!session) {
+      return corsResponse({ error: 'No cards are due for review' }, 404)
+    }
+
+    return corsResponse({ session }, 201)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({ error: 'Validation failed', details: error.issues }, 400)
+    }
+
+    console.error('Error starting review session:', error)
+    return corsResponse({ error: 'Failed to start review session' }, 500)
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServer, getCurrentUserServer } from '../../../../lib/supabase/server'
+import { corsResponse, corsHeaders } from '../../../../lib/cors'
+import { PLANS, usageService } from '../../../../lib/services/usage-service'
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// GET /api/user/usage - This month's usage against the user's plan, and the plans on offer
+export async function GET(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const usage = await usageService.getUsageSummary(user.id)
+
+    return corsResponse({ usage, plans: Object.values(PLANS) })
+  } catch (error) {
+    console.error('Error fetching usage:', error)
+    return corsResponse({ error: 'Failed to fetch usage' }, 500)
+  }
+}
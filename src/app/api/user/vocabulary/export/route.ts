@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseServer, getCurrentUserServer } from '../../../../../lib/supabase/server'
+import { corsResponse, corsHeaders } from '../../../../../lib/cors'
+import { vocabularyTransferService } from '../../../../../lib/services/vocabulary-transfer-service'
+import { toAnkiText, toCsv, toJson, type ExportFormat } from '../../../../../lib/utils/vocabulary-transfer'
+
+const FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  anki: { contentType: 'text/plain; charset=utf-8', extension: 'txt' }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// GET /api/user/vocabulary/export?format=csv|json|anki - Download the vocabulary deck
+export async function GET(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const format = new URL(request.url).searchParams.get('format') || 'csv'
+    if (!(format in FORMATS)) {
+      return corsResponse({ error: 'Unsupported export format' }, 400)
+    }
+
+    const cards = await vocabularyTransferService.exportDeck(supabase, user.id)
+    const body = format === 'json' ? toJson(cards) : format === 'anki' ? toAnkiText(cards) : toCsv(cards)
+    const { contentType, extension } = FORMATS[format as ExportFormat]
+    const date = new Date().toISOString().slice(0, 10)
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        ...corsHeaders(),
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="vocabulary-${format === 'anki' ? 'anki-' : ''}${date}.${extension}"`
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting vocabulary:', error)
+    return corsResponse({ error: 'Failed to export vocabulary' }, 500)
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSupabaseServer, getCurrentUserServer } from '../../../../../lib/supabase/server'
+import { corsResponse, corsHeaders } from '../../../../../lib/cors'
+import { vocabularyTransferService } from '../../../../../lib/services/vocabulary-transfer-service'
+
+const MAX_IMPORT_CARDS = 5000
+
+const field = z.string().max(5000).optional()
+
+const importSchema = z.object({
+  cards: z
+    .array(
+      z.object({
+        text: z.string().trim().min(1).max(500),
+        definition: field,
+        definition_vi: field,
+        pronunciation: field,
+        part_of_speech: field,
+        example: field,
+        context: field,
+        synonyms: z.array(z.string().max(200)).max(50).optional(),
+        antonyms: z.array(z.string().max(200)).max(50).optional(),
+        difficulty: field,
+        item_type: field,
+        learning_status: field,
+        ease_factor: field,
+        interval_days: field,
+        repetitions: field,
+        lapses: field,
+        stability: field,
+        fsrs_difficulty: field,
+        next_review_date: field,
+        last_practiced_at: field
+      })
+    )
+    .min(1)
+    .max(MAX_IMPORT_CARDS),
+  preserveSrs: z.boolean().default(false),
+  onDuplicate: z.enum(['skip', 'update']).default('skip'),
+  dryRun: z.boolean().default(false)
+})
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders()
+  })
+}
+
+// POST /api/user/vocabulary/import - Add mapped cards to the deck, or preview with dryRun
+export async function POST(request: NextRequest) {
+  const supabase = getSupabaseServer(request)
+  if (!supabase) {
+    return corsResponse({ error: 'Database not configured' }, 500)
+  }
+
+  try {
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const body = await request.json()
+    const { cards, ...options } = importSchema.parse(body)
+
+    const summary = await vocabularyTransferService.importCards(supabase, user.id, cards, options)
+
+    return corsResponse(summary, options.dryRun ? 200 : 201)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return corsResponse({ error: 'Validation failed', details: error.issues }, 400)
+    }
+
+    console.error('Error importing vocabulary:', error)
+    return corsResponse({ error: 'Failed to import vocabulary' }, 500)
+  }
+}
@@ -1,7 +1,10 @@
 'use client'
 
-import { Activity, ArrowRight, BookOpen, RotateCcw, Target, Users } from 'lucide-react'
+import { Activity, ArrowRight, BookOpen, CalendarDays, Flame, RotateCcw, Target, Users } from 'lucide-react'
 import Link from 'next/link'
+import { ActivityHeatmap } from '@/components/dashboard/ActivityHeatmap'
+import { LearningGoals } from '@/components/dashboard/LearningGoals'
+import { useLearningOverview } from '@/hooks/useLearningGoals'
 import { useUserLoops } from '@/hooks/useLoops'
 import { AuthenticatedPage } from '../../components/pages/shared/AuthenticatedPage'
 import { PageHeader } from '../../components/pages/shared/PageHeader'
@@ -28,6 +31,7 @@ export default function DashboardPage() {
   const { user, isAuthenticated } = useAuth()
   const { getGroupsForTab } = useGroupsData({ isAuthenticated })
   const { data: loops = [] } = useUserLoops()
+  const { data: learning } = useLearningOverview()
 
   const myGroups = getGroupsForTab('my-groups')
 
@@ -52,13 +56,13 @@ export default function DashboardPage() {
       value: loops.reduce((acc, loop) => acc + (loop.practiceSessionsCount || 0), 0),
       icon: Target,
       color: 'from-green-500 to-emerald-600'
+    },
+    {
+      title: learning?.longestStreak ? `Learning Streak (best ${learning.longestStreak})` : 'Learning Streak',
+      value: `${learning?.currentStreak || 0} ${learning?.currentStreak === 1 ? 'day' : 'days'}`,
+      icon: Flame,
+      color: 'from-yellow-500 to-orange-600'
     }
-    // {
-    //   title: 'Learning Streak',
-    //   value: '7 days',
-    //   icon: Award,
-    //   color: 'from-yellow-500 to-orange-600'
-    // }
   ]
 
   // Quick actions for navigation
@@ -122,7 +126,7 @@ export default function DashboardPage() {
       />
 
       {/* Stats Widgets */}
-      <div className="mb-8 grid grid-cols-1 gap-6 sm:grid-cols-3 lg:grid-cols-3">
+      <div className="mb-8 grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4">
         {widgets.map((widget, index) => {
           const Icon = widget.icon
           const content = (
@@ -193,10 +197,22 @@ export default function DashboardPage() {
               )
             })}
           </div>
+
+          {/* Practice Heatmap */}
+          <div className="mt-8 rounded-2xl bg-white/90 p-6 shadow-lg backdrop-blur-sm">
+            <div className="mb-4 flex items-center gap-2">
+              <CalendarDays className="h-5 w-5 text-indigo-600" />
+              <h3 className="font-semibold text-gray-900">Daily Practice</h3>
+            </div>
+            <ActivityHeatmap activity={learning?.activity || []} />
+          </div>
         </div>
 
         {/* Recent Activity */}
         <div className="lg:col-span-1">
+          {/* Learning Goals */}
+          <LearningGoals goals={learning?.goals || []} />
+
           {/* <div className="mb-6 flex items-center justify-between">
             <h2 className="text-2xl font-bold text-gray-900">Recent Activity</h2>
             <Clock className="h-5 w-5 text-gray-400" />
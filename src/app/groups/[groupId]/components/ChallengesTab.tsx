@@ -0,0 +1,369 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { CheckCircle, Clock, Plus, Target, X } from 'lucide-react'
+import {
+  CHALLENGE_TYPES,
+  type ChallengeRewards,
+  type ChallengeType,
+  type CreateChallengeInput,
+  type GroupChallenge
+} from '../../../../lib/services/challenge-service'
+import { cancelChallenge, createChallenge, fetchChallenges } from '../queries'
+import { GroupMember } from '../types'
+
+interface ChallengesTabProps {
+  groupId: string
+  members: GroupMember[]
+  canManage: boolean
+  currentUserId?: string
+}
+
+const TEMPLATES: (CreateChallengeInput & { label: string })[] = [
+  { label: '5 quizzes this week', title: 'Complete 5 quizzes this week', type: 'quiz_count', target: 5, durationDays: 7 },
+  { label: '200 card reviews', title: 'Review 200 cards', type: 'cards_reviewed', target: 200, durationDays: 7 },
+  {
+    label: '80%+ on 3 sessions',
+    title: 'Score 80% or more on 3 sessions',
+    type: 'high_score_sessions',
+    target: 3,
+    minScore: 80,
+    durationDays: 14
+  }
+]
+
+const EMPTY_FORM: CreateChallengeInput = {
+  title: '',
+  description: '',
+  type: 'quiz_count',
+  target: 5,
+  durationDays: 7
+}
+
+const timeLeft = (endDate: string) => {
+  const ms = new Date(endDate).getTime() - Date.now()
+  if (ms <= 0) return 'Ended'
+  const days = Math.floor(ms / (24 * 60 * 60 * 1000))
+  if (days > 0) return `${days} day${days === 1 ? '' : 's'} left`
+  const hours = Math.max(1, Math.floor(ms / (60 * 60 * 1000)))
+  return `${hours} hour${hours === 1 ? '' : 's'} left`
+}
+
+export function ChallengesTab({ groupId, members, canManage, currentUserId }: ChallengesTabProps) {
+  const queryClient = useQueryClient()
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState<CreateChallengeInput>(EMPTY_FORM)
+  const [formError, setFormError] = useState('')
+
+  const { data: challenges = [], isLoading, error } = useQuery({
+    queryKey: ['group-challenges', groupId],
+    queryFn: () => fetchChallenges(groupId),
+    enabled: !!groupId,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false
+  })
+
+  const createMutation = useMutation({
+    mutationFn: (input: CreateChallengeInput) => createChallenge(groupId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['group-challenges', groupId] })
+      setForm(EMPTY_FORM)
+      setShowForm(false)
+    },
+    onError: (error: Error) => setFormError(error.message)
+  })
+
+  const cancelMutation = useMutation({
+    mutationFn: (challengeId: string) => cancelChallenge(groupId, challengeId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['group-challenges', groupId] }),
+    onError: (error: Error) => alert(error.message)
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setFormError('')
+    createMutation.mutate({
+      ...form,
+      description: form.description || undefined,
+      minScore: form.type === 'high_score_sessions' ? form.minScore ?? 80 : undefined
+    })
+  }
+
+  const active = challenges.filter(challenge => challenge.status === 'active')
+  const past = challenges.filter(challenge => challenge.status !== 'active')
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-800">Challenges</h2>
+        {canManage && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl font-semibold hover:shadow-lg transition-all"
+          >
+            <Plus className="w-4 h-4" />
+            New Challenge
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="p-6 bg-gray-50 rounded-2xl space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {TEMPLATES.map(({ label, ...template }) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => setForm({ ...EMPTY_FORM, ...template })}
+                className="px-3 py-1 text-sm rounded-lg bg-white border border-gray-200 text-gray-700 hover:border-indigo-300 hover:text-indigo-600"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <label className="block md:col-span-2">
+              <span className="text-sm font-medium text-gray-700">Title</span>
+              <input
+                required
+                maxLength={120}
+                value={form.title}
+                onChange={e => setForm({ ...form, title: e.target.value })}
+                className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+            <label className="block md:col-span-2">
+              <span className="text-sm font-medium text-gray-700">Description</span>
+              <textarea
+                rows={2}
+                maxLength={500}
+                value={form.description}
+                onChange={e => setForm({ ...form, description: e.target.value })}
+                className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Goal</span>
+              <select
+                value={form.type}
+                onChange={e => setForm({ ...form, type: e.target.value as ChallengeType })}
+                className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {Object.entries(CHALLENGE_TYPES).map(([type, { label }]) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Target ({CHALLENGE_TYPES[form.type].unit})</span>
+              <input
+                type="number"
+                required
+                min={1}
+                max={10000}
+                value={form.target}
+                onChange={e => setForm({ ...form, target: parseInt(e.target.value, 10) || 1 })}
+                className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+            {form.type === 'high_score_sessions' && (
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Minimum score (%)</span>
+                <input
+                  type="number"
+                  required
+                  min={1}
+                  max={100}
+                  value={form.minScore ?? 80}
+                  onChange={e => setForm({ ...form, minScore: parseInt(e.target.value, 10) || 1 })}
+                  className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </label>
+            )}
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Duration (days)</span>
+              <input
+                type="number"
+                required
+                min={1}
+                max={90}
+                value={form.durationDays}
+                onChange={e => setForm({ ...form, durationDays: parseInt(e.target.value, 10) || 1 })}
+                className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">XP reward (optional)</span>
+              <input
+                type="number"
+                min={0}
+                max={10000}
+                value={form.rewards?.xp ?? ''}
+                onChange={e =>
+                  setForm({ ...form, rewards: e.target.value ? { xp: parseInt(e.target.value, 10) || 0 } : undefined })
+                }
+                className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+          </div>
+
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false)
+                setForm(EMPTY_FORM)
+                setFormError('')
+              }}
+              className="px-4 py-2 rounded-xl text-gray-700 bg-white border border-gray-200 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={createMutation.isPending}
+              className="px-4 py-2 rounded-xl bg-indigo-600 text-white font-semibold hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {createMutation.isPending ? 'Creating...' : 'Start Challenge'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(2)].map((_, i) => (
+            <div key={i} className="h-40 bg-gray-100 rounded-2xl animate-pulse" />
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error.message}</p>
+      ) : challenges.length === 0 ? (
+        <div className="text-center py-12">
+          <Target className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500 text-lg">No challenges yet</p>
+          <p className="text-gray-400 text-sm">
+            {canManage ? 'Start a challenge to give the group a goal to work towards.' : 'Group admins can start challenges for the group.'}
+          </p>
+        </div>
+      ) : (
+        <>
+          {active.map(challenge => (
+            <ChallengeCard
+              key={challenge.id}
+              challenge={challenge}
+              members={members}
+              currentUserId={currentUserId}
+              onCancel={canManage ? () => cancelMutation.mutate(challenge.id) : undefined}
+              isCancelling={cancelMutation.isPending}
+            />
+          ))}
+          {past.length > 0 && (
+            <>
+              <h3 className="text-lg font-semibold text-gray-600 pt-2">Past challenges</h3>
+              {past.map(challenge => (
+                <ChallengeCard key={challenge.id} challenge={challenge} members={members} currentUserId={currentUserId} />
+              ))}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+interface ChallengeCardProps {
+  challenge: GroupChallenge
+  members: GroupMember[]
+  currentUserId?: string
+  onCancel?: () => void
+  isCancelling?: boolean
+}
+
+function ChallengeCard({ challenge, members, currentUserId, onCancel, isCancelling }: ChallengeCardProps) {
+  const type = CHALLENGE_TYPES[challenge.type as ChallengeType]
+  const rewards = (challenge.rewards || {}) as ChallengeRewards
+  const isActive = challenge.status === 'active'
+
+  // Members without any activity yet have no progress row; show them at zero
+  const tracked = new Set(challenge.participants.map(participant => participant.user_id))
+  const rows = [
+    ...challenge.participants,
+    ...(isActive
+      ? members
+          .filter(member => !tracked.has(member.user_id))
+          .map(member => ({ user_id: member.user_id, username: member.username, progress: 0, completed_at: null, rank: null }))
+      : [])
+  ]
+
+  return (
+    <div className="p-6 bg-gray-50 rounded-2xl">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800">{challenge.title}</h3>
+          {challenge.description && <p className="text-sm text-gray-600">{challenge.description}</p>}
+          <p className="mt-1 flex flex-wrap items-center gap-3 text-sm text-gray-500">
+            <span>
+              {challenge.target} {type?.unit || ''}
+              {challenge.type === 'high_score_sessions' && challenge.min_score !== null && ` at ${challenge.min_score}%+`}
+            </span>
+            <span className="flex items-center gap-1">
+              <Clock className="w-4 h-4" />
+              {isActive ? timeLeft(challenge.end_date) : `Ended ${new Date(challenge.end_date).toLocaleDateString()}`}
+            </span>
+            {rewards.xp ? <span className="text-indigo-600 font-semibold">+{rewards.xp} XP</span> : null}
+          </p>
+        </div>
+        {onCancel && (
+          <button
+            onClick={() => {
+              if (confirm(`Cancel "${challenge.title}"? Progress will no longer be tracked.`)) onCancel()
+            }}
+            disabled={isCancelling}
+            className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+            title="Cancel challenge"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">Nobody took part in this challenge.</p>
+      ) : (
+        <ul className="space-y-3">
+          {rows.map(row => {
+            const progress = Math.min(row.progress || 0, challenge.target)
+            const percent = Math.round((progress / challenge.target) * 100)
+            return (
+              <li key={row.user_id}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className={`flex items-center gap-1 ${row.user_id === currentUserId ? 'font-semibold text-indigo-700' : 'text-gray-700'}`}>
+                    {row.username}
+                    {row.completed_at && <CheckCircle className="w-4 h-4 text-green-500" />}
+                    {row.completed_at && row.rank && <span className="text-xs text-gray-500">#{row.rank}</span>}
+                  </span>
+                  <span className="text-gray-500">
+                    {progress}/{challenge.target}
+                  </span>
+                </div>
+                <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${row.completed_at ? 'bg-green-500' : 'bg-gradient-to-r from-indigo-500 to-purple-600'}`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
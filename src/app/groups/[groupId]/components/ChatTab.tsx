@@ -0,0 +1,23 @@
+'use client'
+
+import { GroupChat } from '../../../../components/groups/chat/GroupChat'
+
+interface ChatTabProps {
+  groupId: string
+  canManage: boolean
+  currentUserId?: string
+}
+
+export function ChatTab({ groupId, canManage, currentUserId }: ChatTabProps) {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-800">Chat</h2>
+        <p className="text-sm text-gray-500">
+          Talk with your group. Each quiz session also has its own discussion on its results page.
+        </p>
+      </div>
+      <GroupChat groupId={groupId} canManage={canManage} currentUserId={currentUserId} />
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Medal, Trophy } from 'lucide-react'
+import type { LeaderboardPeriod } from '../../../../lib/services/achievement-service'
+import { fetchLeaderboard } from '../queries'
+
+interface GroupLeaderboardProps {
+  groupId: string
+}
+
+const PERIODS: { value: LeaderboardPeriod; label: string }[] = [
+  { value: 'week', label: 'This Week' },
+  { value: 'all', label: 'All Time' }
+]
+
+const RANK_COLORS = ['text-yellow-500', 'text-gray-400', 'text-amber-600']
+
+export function GroupLeaderboard({ groupId }: GroupLeaderboardProps) {
+  const [period, setPeriod] = useState<LeaderboardPeriod>('week')
+
+  const { data: leaderboard = [], isLoading, error } = useQuery({
+    queryKey: ['group-leaderboard', groupId, period],
+    queryFn: () => fetchLeaderboard(groupId, period),
+    enabled: !!groupId,
+    staleTime: 2 * 60 * 1000,
+    refetchOnWindowFocus: false
+  })
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-white/20">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center gap-2 text-xl font-bold text-gray-800">
+          <Trophy className="w-5 h-5 text-yellow-500" />
+          Leaderboard
+        </h3>
+        <div className="flex rounded-xl bg-gray-100 p-1">
+          {PERIODS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setPeriod(option.value)}
+              className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                period === option.value
+                  ? 'bg-white text-indigo-600 shadow-sm font-semibold'
+                  : 'text-gray-600 hover:text-gray-800'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-12 bg-gray-100 rounded-xl animate-pulse" />
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error.message}</p>
+      ) : leaderboard.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4 text-center">
+          {period === 'week' ? 'No quiz results this week yet.' : 'No quiz results yet.'}
+        </p>
+      ) : (
+        <ol className="space-y-2">
+          {leaderboard.map((entry, index) => (
+            <li key={entry.userId} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+              <div className="flex items-center gap-3">
+                <span className="w-6 text-center font-bold text-gray-500">
+                  {index < 3 ? <Medal className={`w-5 h-5 ${RANK_COLORS[index]}`} /> : index + 1}
+                </span>
+                <div className="w-8 h-8 rounded-full bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center text-sm font-semibold text-white">
+                  {entry.username.charAt(0).toUpperCase()}
+                </div>
+                <div>
+                  <p className="font-semibold text-gray-800">{entry.username}</p>
+                  <p className="text-xs text-gray-500">
+                    {entry.quizzes} {entry.quizzes === 1 ? 'quiz' : 'quizzes'} • {entry.averageScore}% avg
+                    {entry.topScorerAwards > 0 && ` • ${entry.topScorerAwards}× top scorer`}
+                  </p>
+                </div>
+              </div>
+              <span className="font-bold text-indigo-600">{entry.points} pts</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
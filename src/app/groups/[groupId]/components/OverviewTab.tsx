@@ -10,6 +10,7 @@ import {
   Plus
 } from 'lucide-react'
 import { QuizSession } from '../types'
+import { GroupLeaderboard } from './GroupLeaderboard'
 import { GroupQuizResultsModal } from './GroupQuizResultsModal'
 
 interface OverviewTabProps {
@@ -43,6 +44,8 @@ export function OverviewTab({
 
   return (
     <div className="space-y-6">
+      <GroupLeaderboard groupId={groupId} />
+
       <h2 className="text-2xl font-bold text-gray-800 mb-6">Recent Activity</h2>
 
       {sessions.length === 0 ? (
@@ -1,8 +1,8 @@
 'use client'
 
-import { Calendar, Play, Settings, Users } from 'lucide-react'
+import { Calendar, MessageCircle, Play, Settings, Target, Users } from 'lucide-react'
 
-export type GroupTab = 'overview' | 'members' | 'sessions' | 'settings'
+export type GroupTab = 'overview' | 'members' | 'sessions' | 'challenges' | 'chat' | 'settings'
 
 interface TabNavigationProps {
   activeTab: GroupTab
@@ -19,6 +19,8 @@ export function TabNavigation({
     { id: 'overview', label: 'Overview', icon: Calendar },
     { id: 'members', label: 'Members', icon: Users },
     { id: 'sessions', label: 'Sessions', icon: Play },
+    { id: 'challenges', label: 'Challenges', icon: Target },
+    { id: 'chat', label: 'Chat', icon: MessageCircle },
     ...(canManage ? [{ id: 'settings', label: 'Settings', icon: Settings }] : [])
   ]
 
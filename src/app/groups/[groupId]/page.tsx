@@ -10,6 +10,8 @@ import SessionsTab from '../../../components/sessions/SessionsTab'
 import { useAuth } from '../../../contexts/AuthContext'
 import { PermissionManager } from '../../../lib/permissions'
 import { SessionRedirectManager } from '../../../lib/supabase/auth-utils'
+import { ChallengesTab } from './components/ChallengesTab'
+import { ChatTab } from './components/ChatTab'
 import { GroupHeader } from './components/GroupHeader'
 import { MembersTab } from './components/MembersTab'
 import { OverviewTab } from './components/OverviewTab'
@@ -255,6 +257,17 @@ export default function GroupPage({
                 highlightSessionId={highlightSessionId}
               />
             )}
+            {activeTab === 'challenges' && (
+              <ChallengesTab
+                groupId={groupId}
+                members={(group as any).members || []}
+                canManage={!!canManage}
+                currentUserId={user?.id}
+              />
+            )}
+            {activeTab === 'chat' && (
+              <ChatTab groupId={groupId} canManage={!!canManage} currentUserId={user?.id} />
+            )}
             {activeTab === 'settings' && canManage && <SettingsTab group={group as any} />}
           </div>
         </div>
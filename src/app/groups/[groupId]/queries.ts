@@ -1,3 +1,6 @@
+import type { LeaderboardEntry, LeaderboardPeriod } from '../../../lib/services/achievement-service'
+import type { CreateChallengeInput, GroupChallenge } from '../../../lib/services/challenge-service'
+import { getAuthHeaders } from '../../../lib/supabase/auth-utils'
 import { supabase } from '../../../lib/supabase/client'
 import { StudyGroup } from './types'
 
@@ -29,3 +32,62 @@ export const fetchGroup = async (groupId: string): Promise<StudyGroup> => {
   const data = await response.json()
   return data.group
 }
+
+export const fetchLeaderboard = async (
+  groupId: string,
+  period: LeaderboardPeriod
+): Promise<LeaderboardEntry[]> => {
+  const response = await fetch(`/api/groups/${groupId}/leaderboard?period=${period}`, {
+    headers: await getAuthHeaders()
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.error || 'Failed to fetch leaderboard')
+  }
+
+  const data = await response.json()
+  return data.leaderboard
+}
+
+export const fetchChallenges = async (groupId: string): Promise<GroupChallenge[]> => {
+  const response = await fetch(`/api/groups/${groupId}/challenges`, {
+    headers: await getAuthHeaders()
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.error || 'Failed to fetch challenges')
+  }
+
+  const data = await response.json()
+  return data.challenges
+}
+
+export const createChallenge = async (groupId: string, input: CreateChallengeInput) => {
+  const response = await fetch(`/api/groups/${groupId}/challenges`, {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify(input)
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.error || 'Failed to create challenge')
+  }
+
+  const data = await response.json()
+  return data.challenge
+}
+
+export const cancelChallenge = async (groupId: string, challengeId: string) => {
+  const response = await fetch(`/api/groups/${groupId}/challenges/${challengeId}`, {
+    method: 'DELETE',
+    headers: await getAuthHeaders()
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.error || 'Failed to cancel challenge')
+  }
+}
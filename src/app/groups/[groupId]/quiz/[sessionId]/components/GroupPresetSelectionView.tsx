@@ -24,6 +24,7 @@ import { CustomGenerationSection } from "../../../../../../components/groups/qui
 import { StartQuizSection } from "../../../../../../components/groups/quiz/StartQuizSection";
 import { GenerationProgressModal } from "../../../../../../components/groups/quiz/GenerationProgressModal";
 import type { QuestionPreset } from "../../../../../../components/questions/PresetSelector";
+import type { StreamedQuestion } from "../../../../../../hooks/useQuestionGeneration";
 
 interface GroupPresetSelectionViewProps {
   groupId: string;
@@ -52,6 +53,7 @@ interface GroupPresetSelectionViewProps {
     medium: number;
     hard: number;
   };
+  streamedQuestions?: StreamedQuestion[];
   shareTokens?: Record<string, string>;
   onStartQuiz?: (shareTokens: Record<string, string>) => void;
   currentPreset?: {
@@ -72,6 +74,7 @@ export function GroupPresetSelectionView({
   onGenerateFromPreset,
   generatingState = { easy: false, medium: false, hard: false, all: false },
   generatedCounts = { easy: 0, medium: 0, hard: 0 },
+  streamedQuestions = [],
   shareTokens = {},
   onStartQuiz,
   currentPreset,
@@ -251,6 +254,7 @@ export function GroupPresetSelectionView({
         isOpen={showProgressModal}
         generatingState={generatingState}
         generatedCounts={generatedCounts}
+        streamedQuestions={streamedQuestions}
         presetName={getCurrentPresetName()}
         onClose={() => {
           setShowProgressModal(false);
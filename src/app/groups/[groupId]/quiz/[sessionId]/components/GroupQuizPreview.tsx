@@ -16,12 +16,15 @@ import { Badge } from '../../../../../../components/ui/badge'
 import { Button } from '../../../../../../components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../../../../../components/ui/tabs'
 import { ExplanationWithTimeframes } from '../../../../../../components/groups/quiz/ExplanationWithTimeframes'
+import { getQuestionKind, gradeAnswer } from '../../../../../../lib/utils/question-grading'
 
 interface Question {
   id: string
   question: string
   options: string[]
   correctAnswer: string
+  kind?: string
+  acceptedAnswers?: string[]
   difficulty: 'easy' | 'medium' | 'hard'
   explanation?: string
 }
@@ -231,7 +234,10 @@ export function GroupQuizPreview({
                         <div className="space-y-2">
                           {question.options.map((option, optionIndex) => {
                             const optionLetter = String.fromCharCode(65 + optionIndex)
-                            const isCorrect = showAnswers && optionLetter === question.correctAnswer
+                            const isCorrect =
+                              showAnswers &&
+                              getQuestionKind(question) !== 'ordering' &&
+                              optionLetter === question.correctAnswer
 
                             return (
                               <div
@@ -266,6 +272,18 @@ export function GroupQuizPreview({
                           })}
                         </div>
 
+                        {showAnswers &&
+                          !['multiple_choice', 'true_false_not_given'].includes(
+                            getQuestionKind(question)
+                          ) && (
+                            <div className="mt-4 flex items-start gap-2 rounded-md border border-green-300 bg-green-50/70 p-3">
+                              <Check className="h-5 w-5 shrink-0 text-green-600" />
+                              <p className="text-sm font-semibold text-green-900">
+                                {gradeAnswer(question, '').correctAnswerText}
+                              </p>
+                            </div>
+                          )}
+
                         {showAnswers && question.explanation && (
                           <div className="mt-4 rounded-md border border-blue-200 bg-blue-50 p-3">
                             <p className="text-sm font-semibold text-blue-800">Explanation</p>
@@ -1,10 +1,12 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
+import type { LinkedQuestion } from '@/lib/services/group-chat-service'
 import type { SessionParticipant } from '../../../components/sessions/queries'
-import { fetchGroupResults } from '../queries'
-import { QuizResultsHeader } from '@/components/groups/quiz/results/QuizResultsHeader'
+import { fetchGroupResults, fetchItemAnalysis } from '../queries'
+import { GroupChat } from '@/components/groups/chat/GroupChat'
+import { QuizResultsHeader, type ResultsTab } from '@/components/groups/quiz/results/QuizResultsHeader'
 import { PersonalStatsCards } from '@/components/groups/quiz/results/PersonalStatsCards'
 import { QuestionReviewList } from '@/components/groups/quiz/results/QuestionReviewList'
 import { LeaderboardSection } from '@/components/groups/quiz/results/LeaderboardSection'
@@ -18,6 +20,8 @@ interface GroupQuizResultsProps {
   participants: SessionParticipant[]
   showCorrectAnswers?: boolean
   canRetakeQuiz?: boolean
+  currentUserId?: string
+  canManage?: boolean
 }
 
 export function GroupQuizResults({
@@ -27,9 +31,21 @@ export function GroupQuizResults({
   onRestart,
   participants,
   showCorrectAnswers = true,
-  canRetakeQuiz = true
+  canRetakeQuiz = true,
+  currentUserId,
+  canManage = false
 }: GroupQuizResultsProps) {
-  const [activeTab, setActiveTab] = useState<'personal' | 'leaderboard'>('personal')
+  const [activeTab, setActiveTab] = useState<ResultsTab>('personal')
+  // Question picked in the review to attach to the next discussion message
+  const [linkedQuestion, setLinkedQuestion] = useState<LinkedQuestion | null>(null)
+  const [focusedQuestionId, setFocusedQuestionId] = useState<string | null>(null)
+
+  // Scroll to a question linked from the discussion once the review is shown
+  useEffect(() => {
+    if (activeTab !== 'personal' || !focusedQuestionId) return
+    document.getElementById(`question-${focusedQuestionId}`)?.scrollIntoView({ behavior: 'smooth' })
+    setFocusedQuestionId(null)
+  }, [activeTab, focusedQuestionId])
   
   // Debug logging
   console.log('🎯 GroupQuizResults received:', { results, hasResults: !!results })
@@ -46,6 +62,20 @@ export function GroupQuizResults({
     retry: 1 // Only retry once on failure
   })
 
+  // Item analysis is only returned to group owners and admins
+  const { data: itemAnalysis } = useQuery({
+    queryKey: ['item-analysis', groupId, sessionId],
+    queryFn: () => fetchItemAnalysis(groupId, sessionId),
+    enabled: !!groupId && !!sessionId,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+    retry: 1
+  })
+
+  const itemStats = itemAnalysis
+    ? Object.fromEntries(itemAnalysis.map(item => [item.questionId, item]))
+    : undefined
+
   // Manual refresh function for leaderboard
   const handleRefreshLeaderboard = async () => {
     await refetchGroupResults()
@@ -80,6 +110,11 @@ export function GroupQuizResults({
             <QuestionReviewList 
               results={results} 
               showCorrectAnswers={showCorrectAnswers}
+              itemStats={itemStats}
+              onDiscussQuestion={question => {
+                setLinkedQuestion(question)
+                setActiveTab('discussion')
+              }}
             />
           )}
         </div>
@@ -95,6 +130,24 @@ export function GroupQuizResults({
         />
       )}
 
+      {activeTab === 'discussion' && (
+        <div className="rounded-2xl border border-white/20 bg-white/90 p-6 shadow-lg backdrop-blur-sm">
+          <GroupChat
+            groupId={groupId}
+            sessionId={sessionId}
+            currentUserId={currentUserId}
+            canManage={canManage}
+            linkedQuestion={linkedQuestion}
+            onClearLinkedQuestion={() => setLinkedQuestion(null)}
+            onQuestionClick={question => {
+              setFocusedQuestionId(question.questionId)
+              setActiveTab('personal')
+            }}
+            emptyMessage="No discussion yet. Use Discuss on a question in your results to start one."
+          />
+        </div>
+      )}
+
       {/* Action Buttons */}
       <ResultsActionButtons
         groupId={groupId}
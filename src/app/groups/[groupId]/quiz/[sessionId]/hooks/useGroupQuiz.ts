@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 // Import types and utilities from individual quiz
 import type { QuestionPreset } from "../../../../../../components/questions/PresetSelector";
@@ -10,6 +10,10 @@ import type {
 import { useAuth } from "../../../../../../contexts/AuthContext";
 import { useQuizAuth } from "../../../../../../lib/hooks/use-quiz-auth";
 import { useSessionParticipants } from "../../../components/sessions/hooks/useSessionParticipants";
+import {
+  getQuestionKind,
+  gradeAnswer,
+} from "../../../../../../lib/utils/question-grading";
 import { quizQueryKeys, quizQueryOptions } from "../lib/query-keys";
 import { fetchGroup, fetchGroupSession } from "../queries";
 import { useRealtimeSession } from "./useRealtimeSession";
@@ -67,7 +71,12 @@ export function useGroupQuiz({ groupId, sessionId }: UseGroupQuizProps) {
   const [responses, setResponses] = useState<QuestionResponse[]>([]);
   const [results, setResults] = useState<any>(null);
   const [videoUrl, setVideoUrl] = useState<string | undefined>();
+  // Share tokens of the loaded question sets, used for server-side grading
+  const [activeShareTokens, setActiveShareTokens] = useState<string[]>([]);
 
+  // Time from a question being shown to its answer, keyed by question index (item analysis)
+  const questionShownAtRef = useRef(Date.now());
+  const responseTimesRef = useRef<Record<number, number>>({});
   const [showVocabulary, setShowVocabulary] = useState(false);
   const [showTranscript, setShowTranscript] = useState(false);
   const [showGridView, setShowGridView] = useState(false);
@@ -117,6 +126,7 @@ export function useGroupQuiz({ groupId, sessionId }: UseGroupQuizProps) {
       if (availableTokens.length === 0) {
         throw new Error("No questions available");
       }
+      setActiveShareTokens(availableTokens.map(([, token]) => token));
 
       // console.log(
       //   '🔄 [loadQuestionsFromShareTokens] Loading questions with PERSISTENCE caching:',
@@ -489,7 +499,11 @@ export function useGroupQuiz({ groupId, sessionId }: UseGroupQuizProps) {
           // Apply answer shuffling to individual questions if enabled
           const questionsWithShuffledAnswers = selectedQuestions.map(
             (question) => {
-              if (!groupSettings.shuffleAnswers) {
+              // Only multiple choice answers can move without changing their meaning
+              if (
+                !groupSettings.shuffleAnswers ||
+                getQuestionKind(question) !== "multiple_choice"
+              ) {
                 return question;
               }
 
@@ -568,6 +582,7 @@ export function useGroupQuiz({ groupId, sessionId }: UseGroupQuizProps) {
           );
           if (cachedQuestionSet && (cachedQuestionSet as any).questions) {
             allQuestions = (cachedQuestionSet as any).questions;
+            setActiveShareTokens(session?.share_token ? [session.share_token] : []);
           } else {
             throw new Error(
               "No questions available. Please generate questions first."
@@ -637,10 +652,43 @@ export function useGroupQuiz({ groupId, sessionId }: UseGroupQuizProps) {
       (r) => r.questionIndex >= startIndex && r.questionIndex <= endIndex
     );
 
+    // Answers are keyed by question id; the server grades against the stored set
+    const submittedResponses = setResponses.map((response) => {
+      const position = response.questionIndex - startIndex;
+      const question = currentGroup.questions[position];
+      const isLettered = ["multiple_choice", "true_false_not_given"].includes(
+        getQuestionKind(question)
+      );
+
+      return {
+        questionId: question?.id || `q_${position}`,
+        questionIndex: response.questionIndex,
+        answer: response.answer,
+        // Options may be shuffled locally, so send the chosen text as well
+        selectedOption: isLettered
+          ? question?.options[response.answer.charCodeAt(0) - 65]
+          : undefined,
+        responseTimeMs: responseTimesRef.current[response.questionIndex],
+      };
+    });
+
+    const clientCorrectAnswers = setResponses.filter((response) => {
+      const question = currentGroup.questions[response.questionIndex - startIndex];
+      return question && gradeAnswer(question, response.answer).isCorrect;
+    }).length;
+
     // For group quiz, we submit to group results endpoint
     const submissionData = {
-      responses: setResponses,
-      questions: currentGroup.questions,
+      responses: submittedResponses,
+      // Every question served in this quiz, which the score is out of
+      questionIds: difficultyGroups.flatMap((difficultyGroup) =>
+        difficultyGroup.questions.map((question, index) => question.id || `q_${index}`)
+      ),
+      shareTokens: activeShareTokens,
+      clientResult: {
+        correctAnswers: clientCorrectAnswers,
+        totalQuestions: currentGroup.questions.length,
+      },
       setIndex: currentSetIndex,
       difficulty: currentGroup.difficulty,
       userData: isAuthenticated
@@ -690,18 +738,24 @@ export function useGroupQuiz({ groupId, sessionId }: UseGroupQuizProps) {
         const question = difficultyGroups[i].questions.find(
           (_, idx) => resultStartIndex + idx === response.questionIndex
         );
-        const isCorrect =
-          question && question.correctAnswer === response.answer;
+        const graded = question ? gradeAnswer(question, response.answer) : null;
+        const isCorrect = graded?.isCorrect;
         if (isCorrect) totalCorrect++;
 
-        const userOptionIndex = response.answer.charCodeAt(0) - 65;
-        const correctOptionIndex = question?.correctAnswer.charCodeAt(0) - 65;
-        const userAnswerText = question?.options[userOptionIndex]
-          ? `${response.answer}. ${question.options[userOptionIndex]}`
-          : response.answer;
-        const correctAnswerText = question?.options[correctOptionIndex]
-          ? `${question.correctAnswer}. ${question.options[correctOptionIndex]}`
-          : question?.correctAnswer;
+        // Lettered kinds show "B. option text"; typed and ordered answers show text only
+        const isLettered =
+          !!question &&
+          ["multiple_choice", "true_false_not_given"].includes(
+            getQuestionKind(question)
+          );
+        const userAnswerText =
+          isLettered && question?.options[response.answer.charCodeAt(0) - 65]
+            ? `${response.answer}. ${graded?.userAnswerText}`
+            : graded?.userAnswerText || response.answer;
+        const correctAnswerText =
+          isLettered && question?.options[question.correctAnswer.charCodeAt(0) - 65]
+            ? `${question.correctAnswer}. ${graded?.correctAnswerText}`
+            : graded?.correctAnswerText;
 
         return {
           questionId: question?.id || `q_${response.questionIndex}`,
@@ -712,6 +766,11 @@ export function useGroupQuiz({ groupId, sessionId }: UseGroupQuizProps) {
           explanation: question?.explanation || "No explanation available.",
           points: isCorrect ? 1 : 0,
           videoUrl: videoUrl,
+          // Option text survives per-user shuffling, so item analysis can count distractors
+          selectedOption: isLettered
+            ? question?.options[response.answer.charCodeAt(0) - 65]
+            : undefined,
+          responseTimeMs: responseTimesRef.current[response.questionIndex],
         };
       });
 
@@ -739,56 +798,19 @@ export function useGroupQuiz({ groupId, sessionId }: UseGroupQuizProps) {
       isGroupQuiz: true,
     };
 
-    // Submit final results to group leaderboard with proper authentication
-    if (isAuthenticated && user?.id) {
-      try {
-        // Use auth-utils for proper authentication headers
-        const { getAuthHeaders } = await import("@/lib/supabase/auth-utils");
-        const headers = await getAuthHeaders();
-
-        const response = await fetch(
-          `/api/groups/${groupId}/sessions/${sessionId}/results`,
-          {
-            method: "POST",
-            headers,
-            body: JSON.stringify({
-              score: finalScore,
-              total_questions: totalQuestions,
-              correct_answers: totalCorrect,
-              time_taken_seconds: null, // Could add timer functionality later
-              result_data: {
-                allResults,
-                difficultyGroups: difficultyGroups.map((g) => ({
-                  difficulty: g.difficulty,
-                  questionCount: g.questions.length,
-                })),
-              },
-            }),
-          }
-        );
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          console.error(
-            "Failed to submit final results to group leaderboard:",
-            errorData
-          );
-        } else {
-          console.log(
-            "Final results submitted successfully to group leaderboard"
-          );
-        }
-      } catch (error) {
-        console.error("Error submitting final results:", error);
-      }
-    }
-
+    // The leaderboard score is computed on the server from the graded set submissions
     setResults(finalResults);
     setAppState("quiz-results");
     console.log("Final results with videoUrl:", finalResults);
   };
 
+  useEffect(() => {
+    questionShownAtRef.current = Date.now();
+  }, [currentSetIndex, currentQuestionIndex]);
+
   const handleAnswerSelect = (questionIndex: number, answer: string) => {
+    responseTimesRef.current[questionIndex] =
+      Date.now() - questionShownAtRef.current;
     const newResponse: QuestionResponse = { questionIndex, answer };
     setResponses((prev) => [
       ...prev.filter((r) => r.questionIndex !== questionIndex),
@@ -853,6 +875,7 @@ export function useGroupQuiz({ groupId, sessionId }: UseGroupQuizProps) {
     setCurrentSetIndex(0);
     setCurrentQuestionIndex(0);
     setResponses([]);
+    responseTimesRef.current = {};
     setResults(null);
   };
 
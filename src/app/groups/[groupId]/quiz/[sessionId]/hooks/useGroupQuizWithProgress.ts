@@ -2,6 +2,7 @@ import { useCallback, useEffect, useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { useProgressTracking } from '../../../../../../hooks/useProgressTracking'
 import type { ProgressUpdatePayload } from '../../../../../../lib/services/progress-tracking-service'
+import { gradeAnswer } from '../../../../../../lib/utils/question-grading'
 import { useGroupQuiz } from './useGroupQuiz'
 
 interface UseGroupQuizWithProgressProps {
@@ -162,7 +163,7 @@ export function useGroupQuizWithProgress({ groupId, sessionId }: UseGroupQuizWit
           const q = groupQuizData.difficultyGroups
             .flatMap(g => g.questions)
             .find((_, idx) => idx === r.questionIndex)
-          return q && q.correctAnswer === r.answer
+          return q && gradeAnswer(q, r.answer).isCorrect
         }).length
 
         const progressUpdate: ProgressUpdatePayload = {
@@ -175,7 +176,7 @@ export function useGroupQuizWithProgress({ groupId, sessionId }: UseGroupQuizWit
             const q = groupQuizData.difficultyGroups
               .flatMap(g => g.questions)
               .find((_, idx) => idx === currentResponse.questionIndex)
-            return q ? q.correctAnswer === currentResponse.answer : false
+            return q ? gradeAnswer(q, currentResponse.answer).isCorrect : false
           })(),
           timeSpent: 0,
           confidenceLevel: 'medium',
@@ -212,7 +213,7 @@ export function useGroupQuizWithProgress({ groupId, sessionId }: UseGroupQuizWit
         const q = groupQuizData.difficultyGroups
           .flatMap(g => g.questions)
           .find((_, idx) => idx === r.questionIndex)
-        return q && q.correctAnswer === r.answer
+        return q && gradeAnswer(q, r.answer).isCorrect
       }).length
 
       const progressUpdate: ProgressUpdatePayload = {
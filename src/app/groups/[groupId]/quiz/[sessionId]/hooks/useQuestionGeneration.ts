@@ -4,8 +4,9 @@ import { useState, useEffect } from 'react'
 import { useQueryClient } from '@tanstack/react-query'
 import { toast } from 'sonner'
 import {
-  useGenerateAllQuestions,
-  useQuestionGeneration
+  useQuestionGeneration,
+  useStreamGenerateQuestions,
+  type StreamedQuestion
 } from '../../../../../../hooks/useQuestionGeneration'
 import { getAuthHeaders } from '../../../../../../lib/supabase/auth-utils'
 import { useSharedQuestions } from './useSharedQuestions'
@@ -42,6 +43,9 @@ export function useGroupQuestionGeneration(groupId: string, sessionId: string) {
     all: false
   })
 
+  // Questions delivered over the generation stream, shown before the sets are saved
+  const [streamedQuestions, setStreamedQuestions] = useState<StreamedQuestion[]>([])
+
   // FIXED: Always use cached data instead of separate local state
   // Remove local state and always use cached values directly
 
@@ -126,8 +130,19 @@ export function useGroupQuestionGeneration(groupId: string, sessionId: string) {
     }
   })
 
-  // Generate all questions mutation with preset support
-  const generateAllQuestionsMutation = useGenerateAllQuestions({
+  // Generate all questions mutation with preset support, streamed question by question
+  const generateAllQuestionsMutation = useStreamGenerateQuestions({
+    onQuestion: event => {
+      setStreamedQuestions(prev => [...prev, event])
+    },
+    onDifficultyComplete: (difficulty, count) => {
+      console.log(`📡 [useQuestionGeneration] ${difficulty} stream finished with ${count} questions`)
+
+      // Refresh cached tokens as soon as each difficulty set is saved
+      queryClient.invalidateQueries({
+        queryKey: quizQueryKeys.sessionQuestions(groupId, sessionId)
+      })
+    },
     onSuccess: results => {
       console.log('Successfully generated all questions:', results)
 
@@ -244,6 +259,7 @@ export function useGroupQuestionGeneration(groupId: string, sessionId: string) {
     }
 
     setGeneratingState(prev => ({ ...prev, all: true }))
+    setStreamedQuestions([])
 
     // Use preset counts if provided, and include customPromptId
     const generationParams = presetCounts
@@ -340,6 +356,7 @@ export function useGroupQuestionGeneration(groupId: string, sessionId: string) {
     generatingState,
     generatedCounts: cachedCounts, // FIXED: Use cached data directly
     shareTokens: cachedShareTokens, // FIXED: Use cached data directly
+    streamedQuestions,
     currentPreset,
     // Remove setters for cached data since they're managed by the cache
     handleGenerateQuestions,
@@ -1,4 +1,5 @@
 import { supabase } from '../../../../../lib/supabase/client'
+import type { ItemStatistics } from '../../../../../lib/services/item-analysis-service'
 
 export interface GroupSession {
   id: string
@@ -202,4 +203,41 @@ export const fetchUserResults = async (
 
   const data = await response.json()
   return data.userResult || null
-}
\ No newline at end of file
+}
+
+// Question quality metrics; null when the current user is not a group owner or admin
+export const fetchItemAnalysis = async (
+  groupId: string,
+  sessionId: string
+): Promise<ItemStatistics[] | null> => {
+  if (!supabase) {
+    throw new Error('Supabase client is not available')
+  }
+
+  const {
+    data: { session }
+  } = await supabase.auth.getSession()
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json'
+  }
+
+  if (session?.access_token) {
+    headers['Authorization'] = `Bearer ${session.access_token}`
+  }
+
+  const response = await fetch(`/api/groups/${groupId}/sessions/${sessionId}/item-analysis`, {
+    headers
+  })
+
+  if (response.status === 403) {
+    return null
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json()
+    throw new Error(errorData.error || 'Failed to fetch item analysis')
+  }
+
+  const data = await response.json()
+  return data.items || []
+}
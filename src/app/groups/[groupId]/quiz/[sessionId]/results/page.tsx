@@ -75,6 +75,8 @@ export default function ResultsPage({ params }: ResultsPageProps) {
         participants={participants}
         showCorrectAnswers={groupSettings.showCorrectAnswers ?? true}
         canRetakeQuiz={permissions.canRetakeQuiz()}
+        currentUserId={user?.id}
+        canManage={!!permissions.canManageGroup()}
       />
     </div>
   )
@@ -8,6 +8,7 @@ import { useQuizSync } from "../hooks/useQuizSync";
 import { GroupPresetSelectionView } from "../components/GroupPresetSelectionView";
 import { MemberWaitingView } from "../components/MemberWaitingView";
 import { useQuizFlow } from "../shared/hooks/useQuizFlow";
+import { TranscriptSummaryPanel } from "../../../../../../components/questions/TranscriptSummaryPanel";
 
 interface SetupPageProps {
   params: Promise<{
@@ -35,6 +36,7 @@ export default function SetupPage({ params }: SetupPageProps) {
     generatingState,
     generatedCounts,
     shareTokens,
+    streamedQuestions,
     currentPreset,
     handleGenerateQuestions: generateQuestions,
     handleGenerateAllQuestions: generateAllQuestions,
@@ -285,6 +287,8 @@ export default function SetupPage({ params }: SetupPageProps) {
   // console.log('👑 Showing Owner preset selection view')
   return (
     <div className="mx-auto max-w-6xl">
+      {/* Review the pre-listening summary members will see during the quiz */}
+      {loopId && <TranscriptSummaryPanel loopId={loopId} className="mb-6" />}
       <GroupPresetSelectionView
         groupId={groupId}
         onPresetSelect={handlePresetSelect}
@@ -294,6 +298,7 @@ export default function SetupPage({ params }: SetupPageProps) {
         onGenerateFromPreset={handleGenerateFromPreset}
         generatingState={generatingState}
         generatedCounts={generatedCounts}
+        streamedQuestions={streamedQuestions}
         shareTokens={shareTokens}
         onStartQuiz={handleStartQuiz}
         currentPreset={currentPreset}
@@ -0,0 +1,17 @@
+'use client'
+
+import { use } from 'react'
+import { ShadowingPractice } from '@/components/loops/shadowing/ShadowingPractice'
+import { AuthenticatedPage } from '../../../../components/pages/shared/AuthenticatedPage'
+import { PageHeader } from '../../../../components/pages/shared/PageHeader'
+
+export default function ShadowingPage({ params }: { params: Promise<{ loopId: string }> }) {
+  const { loopId } = use(params)
+
+  return (
+    <AuthenticatedPage title="Shadowing" subtitle="Repeat the loop segment by segment">
+      <PageHeader title="Shadowing Practice" subtitle="Listen to each segment, record yourself repeating it and see how close you got" />
+      <ShadowingPractice loopId={loopId} />
+    </AuthenticatedPage>
+  )
+}
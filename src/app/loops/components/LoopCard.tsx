@@ -1,6 +1,7 @@
 'use client'
 
-import { Play, Users, Video } from 'lucide-react'
+import Link from 'next/link'
+import { Mic, Play, Users, Video } from 'lucide-react'
 import { LoopWithStats } from '@/lib/services/loop-management-service'
 
 interface LoopCardProps {
@@ -82,6 +83,14 @@ export function LoopCard({ loop, onCreateSession, onPlay }: LoopCardProps) {
           <Users className="h-4 w-4" />
           Study Together
         </button>
+        <Link
+          href={`/loops/${loop.id}/shadowing`}
+          onClick={(e) => e.stopPropagation()}
+          title="Shadowing practice"
+          className="flex items-center justify-center rounded-xl border-2 border-indigo-200 bg-white/80 p-2 text-indigo-700 transition-all duration-300 hover:border-indigo-300 hover:bg-indigo-50"
+        >
+          <Mic className="h-4 w-4" />
+        </Link>
       </div>
     </div>
   )
@@ -24,6 +24,11 @@ import { useProfile } from '../../hooks/profile/useProfile'
 import { useProfileStats } from '../../hooks/profile/useProfileStats'
 import { PasswordChangeForm } from '@/components/profile/PasswordChangeForm'
 import { AvatarUpload } from '@/components/profile/AvatarUpload'
+import { SrsSettingsForm } from '@/components/profile/SrsSettingsForm'
+import { NotificationPreferencesForm } from '@/components/profile/NotificationPreferencesForm'
+import { AchievementBadges } from '@/components/profile/AchievementBadges'
+import { PlanUsage } from '@/components/profile/PlanUsage'
+import { VocabularyTransfer } from '@/components/profile/VocabularyTransfer'
 
 export default function ProfilePage() {
   const {
@@ -269,7 +274,7 @@ export default function ProfilePage() {
               </div>
 
               {/* Placeholder content (hidden by overlay) */}
-              <div className="grid grid-cols-1 gap-6 opacity-30 md:grid-cols-2">
+              <div className="grid grid-cols-1 gap-6 opacity-30">
                 <div className="space-y-4">
                   <h3 className="font-semibold text-gray-700">Recent Activity</h3>
                   <div className="space-y-3">
@@ -282,19 +287,25 @@ export default function ProfilePage() {
                     </div>
                   </div>
                 </div>
-                <div className="space-y-4">
-                  <h3 className="font-semibold text-gray-700">Achievements</h3>
-                  <div className="space-y-3">
-                    <div className="flex items-center gap-3 rounded-xl bg-yellow-50/50 p-3">
-                      <div className="h-4 w-4 rounded bg-yellow-300" />
-                      <span className="text-sm text-gray-500">Sample achievement</span>
-                    </div>
-                  </div>
-                </div>
               </div>
             </CardContent>
           </Card>
 
+          {/* Badges */}
+          <AchievementBadges />
+
+          {/* Plan Limits & Usage */}
+          <PlanUsage />
+
+          {/* Vocabulary Review Settings */}
+          <SrsSettingsForm />
+
+          {/* Vocabulary Import & Export */}
+          <VocabularyTransfer />
+
+          {/* Email Notification Settings */}
+          <NotificationPreferencesForm />
+
           {/* Security Settings */}
           <PasswordChangeForm />
 
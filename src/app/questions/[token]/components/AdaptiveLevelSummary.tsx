@@ -0,0 +1,63 @@
+'use client'
+
+import { Gauge } from 'lucide-react'
+import {
+  ADAPTIVE_LEVELS,
+  AdaptiveEstimate,
+  AdaptiveLevel
+} from '../../../../lib/utils/adaptive-difficulty'
+
+interface AdaptiveLevelSummaryProps {
+  estimate: AdaptiveEstimate
+}
+
+const LEVEL_LABELS: Record<AdaptiveLevel, string> = {
+  easy: 'Beginner',
+  medium: 'Intermediate',
+  hard: 'Advanced'
+}
+
+const LEVEL_COLORS: Record<AdaptiveLevel, string> = {
+  easy: 'bg-emerald-500',
+  medium: 'bg-amber-500',
+  hard: 'bg-red-500'
+}
+
+export function AdaptiveLevelSummary({ estimate }: AdaptiveLevelSummaryProps) {
+  return (
+    <div className="relative mx-auto max-w-3xl rounded-3xl border-2 border-white/20 bg-white/80 p-6 shadow-xl backdrop-blur-sm">
+      <div className="flex items-center justify-center gap-3">
+        <Gauge className="h-6 w-6 text-indigo-600" />
+        <p className="text-xl font-semibold text-gray-800">
+          Estimated level: <span className="text-indigo-600">{LEVEL_LABELS[estimate.level]}</span>
+        </p>
+      </div>
+
+      {/* Difficulty of each question as the quiz adapted */}
+      <div className="mt-4 flex items-end justify-center gap-1.5">
+        {estimate.levelPath.map((level, index) => (
+          <div
+            key={index}
+            className={`w-4 rounded-sm ${LEVEL_COLORS[level]}`}
+            style={{ height: `${(ADAPTIVE_LEVELS.indexOf(level) + 1) * 12}px` }}
+            title={`Question ${index + 1}: ${level}`}
+          />
+        ))}
+      </div>
+
+      <div className="mt-4 grid grid-cols-3 gap-3 text-center text-sm">
+        {ADAPTIVE_LEVELS.map(level => {
+          const { answered, correct } = estimate.accuracyByLevel[level]
+          return (
+            <div key={level} className="rounded-xl bg-gray-50 p-2">
+              <div className="font-semibold capitalize text-gray-800">{level}</div>
+              <div className="text-gray-600">
+                {answered > 0 ? `${correct}/${answered} correct` : 'Not reached'}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -7,7 +7,9 @@ import { Question } from '../../../../components/questions/QuestionCard'
 import { QuestionSet } from '../../../../components/questions/QuestionSetInfo'
 import { VideoHeader } from './VideoHeader'
 import { UserAvatar } from './UserAvatar'
-import { Smile, Sparkles, Trophy, Target, Clock } from 'lucide-react'
+import { Smile, Sparkles, Trophy, Target, Clock, Gauge } from 'lucide-react'
+import { DEFAULT_ADAPTIVE_CONFIG } from '../../../../lib/utils/adaptive-difficulty'
+import { ADAPTIVE_PRESET_ID } from '../hooks/useQuiz'
 
 interface PresetSelectionViewProps {
   questionSet: QuestionSet | null
@@ -74,6 +76,19 @@ const QUESTION_PRESETS: QuestionPreset[] = [
     estimatedTime: '5-8 min',
     difficulty: 'Mixed',
     badge: '⚡ Quick'
+  },
+  {
+    id: ADAPTIVE_PRESET_ID,
+    name: 'Adaptive',
+    description: 'Questions get harder or easier as you go, and you get an estimated level at the end.',
+    distribution: { easy: 0, medium: 0, hard: 0 },
+    totalQuestions: DEFAULT_ADAPTIVE_CONFIG.totalQuestions,
+    icon: Gauge,
+    color: 'blue',
+    estimatedTime: '10-15 min',
+    difficulty: 'Adaptive',
+    badge: '🧭 Smart',
+    adaptive: true
   }
 ]
 
@@ -7,6 +7,7 @@ import { QuestionSet } from '../../../../components/questions/QuestionSetInfo'
 import { TranscriptPanel } from '../../../../components/questions/TranscriptPanel'
 import { VocabularyPanel } from '../../../../components/questions/VocabularyPanel'
 import { Button } from '../../../../components/ui/button'
+import { ReportQuestionButton } from './ReportQuestionButton'
 import { UserAvatar } from './UserAvatar'
 
 interface QuizActiveViewProps {
@@ -34,6 +35,8 @@ interface QuizActiveViewProps {
   openGridView: () => void
   closeGridView: () => void
   difficultyGroups: any[]
+  // Planned length of an adaptive quiz, whose set grows one question at a time
+  adaptiveTotalQuestions?: number
   user?: any
   isAuthenticated?: boolean
   authLoading?: boolean
@@ -65,6 +68,7 @@ export function QuizActiveView({
   openGridView,
   closeGridView,
   difficultyGroups,
+  adaptiveTotalQuestions,
   user,
   isAuthenticated = false,
   authLoading = false,
@@ -183,7 +187,7 @@ export function QuizActiveView({
             <QuestionCard
               question={currentData.question}
               questionIndex={currentData.questionIndex}
-              totalQuestions={currentData.groupData.questions.length}
+              totalQuestions={adaptiveTotalQuestions ?? currentData.groupData.questions.length}
               currentSetIndex={currentSetIndex}
               totalSets={totalSets}
               responses={responses}
@@ -191,6 +195,9 @@ export function QuizActiveView({
               enableWordSelection={true}
             />
           </div>
+          <div className="mt-3 flex justify-end">
+            <ReportQuestionButton questionId={currentData.question?.id} />
+          </div>
         </div>
 
         {/* Enhanced Error Display */}
@@ -281,8 +288,10 @@ export function QuizActiveView({
         <TranscriptPanel
           transcript={questionSet.transcript}
           videoTitle={questionSet.videoTitle}
+          videoUrl={questionSet.videoUrl}
           startTime={questionSet.startTime}
           endTime={questionSet.endTime}
+          loopId={questionSet.loopId}
           isOpen={showTranscript}
           onToggle={() => setShowTranscript(!showTranscript)}
           enableWordSelection={true}
@@ -3,6 +3,7 @@
 import { ResultsSummary } from '../../../../components/questions/ResultsSummary'
 import { QuestionSet } from '../../../../components/questions/QuestionSetInfo'
 import { Button } from '../../../../components/ui/button'
+import { AdaptiveLevelSummary } from './AdaptiveLevelSummary'
 
 interface QuizResultsViewProps {
   results: any
@@ -31,7 +32,9 @@ export function QuizResultsView({ results, questionSet, onRestart }: QuizResults
         onRestart={onRestart}
         videoTitle={questionSet.videoTitle}
         videoUrl={questionSet.videoUrl}
-      />
+      >
+        {results.adaptive && <AdaptiveLevelSummary estimate={results.adaptive} />}
+      </ResultsSummary>
     </div>
   )
 }
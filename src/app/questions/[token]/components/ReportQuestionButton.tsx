@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import { useParams } from 'next/navigation'
+import { useMutation } from '@tanstack/react-query'
+import { Flag } from 'lucide-react'
+import { Button } from '../../../../components/ui/button'
+import { reportQuestion } from '../queries'
+
+const REASONS = [
+  { value: 'incorrect_answer', label: 'The marked answer is wrong' },
+  { value: 'unclear', label: 'The question is unclear' },
+  { value: 'not_in_video', label: 'Not covered in the video' },
+  { value: 'other', label: 'Something else' }
+] as const
+
+interface ReportQuestionButtonProps {
+  questionId?: string
+}
+
+export function ReportQuestionButton({ questionId }: ReportQuestionButtonProps) {
+  const params = useParams()
+  const token = params.token as string
+  const [open, setOpen] = useState(false)
+  const [reason, setReason] = useState<string>(REASONS[0].value)
+  const [details, setDetails] = useState('')
+  const [reported, setReported] = useState<Set<string>>(new Set())
+
+  const reportMutation = useMutation({
+    mutationFn: (id: string) => reportQuestion(token, { questionId: id, reason, details: details || undefined }),
+    onSuccess: (_, id) => {
+      setReported(prev => new Set(prev).add(id))
+      setOpen(false)
+      setDetails('')
+    }
+  })
+
+  if (!questionId) return null
+
+  if (reported.has(questionId)) {
+    return <p className="text-sm text-gray-500">Thanks, the question has been reported</p>
+  }
+
+  return (
+    <div className="relative inline-block">
+      <button
+        onClick={() => setOpen(!open)}
+        className="inline-flex items-center text-sm text-gray-500 hover:text-red-600"
+      >
+        <Flag className="w-4 h-4 mr-1" />
+        Report question
+      </button>
+
+      {open && (
+        <div className="absolute left-0 z-20 mt-2 w-72 rounded-2xl border border-gray-200 bg-white p-4 shadow-xl">
+          <div className="space-y-2">
+            {REASONS.map(option => (
+              <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="report-reason"
+                  value={option.value}
+                  checked={reason === option.value}
+                  onChange={() => setReason(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+          <textarea
+            rows={2}
+            maxLength={1000}
+            placeholder="Details (optional)"
+            className="mt-3 w-full rounded-xl border border-gray-200 p-2 text-sm focus:outline-none focus:ring-2 focus:ring-red-300"
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+          />
+          {reportMutation.error && (
+            <p className="mt-2 text-sm text-red-600">{reportMutation.error.message}</p>
+          )}
+          <div className="mt-3 flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => reportMutation.mutate(questionId)}
+              disabled={reportMutation.isPending}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              {reportMutation.isPending ? 'Sending...' : 'Report'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
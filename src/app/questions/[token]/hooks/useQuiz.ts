@@ -1,9 +1,21 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
-import { useParams } from 'next/navigation'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useParams, useSearchParams } from 'next/navigation'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { QuestionSet } from '../../../../components/questions/QuestionSetInfo'
+import { gradeAnswer } from '../../../../lib/utils/question-grading'
+import {
+  AdaptiveState,
+  adaptiveItemId,
+  createAdaptiveState,
+  DEFAULT_ADAPTIVE_CONFIG,
+  estimateAdaptiveLevel,
+  isFinalAdaptiveQuestion,
+  recordAdaptiveAnswer,
+  selectAdaptiveQuestion,
+  toAdaptiveLevel
+} from '../../../../lib/utils/adaptive-difficulty'
 import { QuestionPreset } from '../../../../components/questions/PresetSelector'
 import {
   DifficultyGroup
@@ -29,9 +41,15 @@ type AppState =
   | 'quiz-results'
   | 'error'
 
+export const ADAPTIVE_PRESET_ID = 'adaptive'
+
 export function useQuiz() {
   const params = useParams()
   const token = params.token as string
+  // Set when the quiz is opened from a group session
+  const searchParams = useSearchParams()
+  const groupId = searchParams.get('groupId')
+  const sessionId = searchParams.get('sessionId')
   const queryClient = useQueryClient()
 
   const [appState, setAppState] = useState<AppState>('loading')
@@ -45,6 +63,10 @@ export function useQuiz() {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
   const [responses, setResponses] = useState<QuestionResponse[]>([])
   const [results, setResults] = useState<any>(null)
+  // Set only in adaptive mode, where questions are picked one at a time
+  const [adaptiveState, setAdaptiveState] = useState<AdaptiveState | null>(null)
+  const questionShownAtRef = useRef(Date.now())
+  const responseTimesRef = useRef<Record<number, number>>({})
 
   const [showVocabulary, setShowVocabulary] = useState(false)
   const [showTranscript, setShowTranscript] = useState(false)
@@ -57,7 +79,7 @@ export function useQuiz() {
     error: questionSetError
   } = useQuery({
     queryKey: ['questionSet', token],
-    queryFn: () => fetchQuestionSet(token),
+    queryFn: () => fetchQuestionSet(token, groupId && sessionId ? { groupId, sessionId } : undefined),
     enabled: !!token
   })
 
@@ -105,7 +127,7 @@ export function useQuiz() {
 
   const submitSetMutation = useMutation({
     mutationFn: (submissionData: any) => submitSet(token, submissionData),
-    onSuccess: () => {
+    onSuccess: (_data, submissionData) => {
       if (currentSetIndex < difficultyGroups.length - 1) {
         setCurrentSetIndex(currentSetIndex + 1)
         setCurrentQuestionIndex(0)
@@ -131,17 +153,12 @@ export function useQuiz() {
             const question = difficultyGroups[i].questions.find(
               (_, idx) => resultStartIndex + idx === response.questionIndex
             )
-            const isCorrect =
-              question && question.correctAnswer === response.answer
+            const graded = question ? gradeAnswer(question, response.answer) : null
+            const isCorrect = graded?.isCorrect
             if (isCorrect) totalCorrect++
 
-            const userOptionIndex = response.answer.charCodeAt(0) - 65
-            const correctOptionIndex =
-              question?.correctAnswer.charCodeAt(0) - 65
-            const userAnswerText =
-              question?.options[userOptionIndex] || response.answer
-            const correctAnswerText =
-              question?.options[correctOptionIndex] || question?.correctAnswer
+            const userAnswerText = graded?.userAnswerText || response.answer
+            const correctAnswerText = graded?.correctAnswerText
 
             return {
               questionId: question?.id || `q_${response.questionIndex}`,
@@ -169,7 +186,8 @@ export function useQuiz() {
           results: allResults,
           submittedAt: new Date().toISOString(),
           setIndex: difficultyGroups.length - 1,
-          difficulty: 'mixed',
+          difficulty: submissionData.adaptive ? 'adaptive' : 'mixed',
+          adaptive: submissionData.adaptive,
           userData: isAuthenticated
             ? { userId: user?.id, email: user?.email }
             : undefined
@@ -242,8 +260,20 @@ export function useQuiz() {
       }
 
       setSelectedPreset(preset)
-      const groups = createPresetGroups(preset, questionSet.questions)
-      setDifficultyGroups(groups)
+
+      if (preset.id === ADAPTIVE_PRESET_ID) {
+        const first = selectAdaptiveQuestion(createAdaptiveState(), questionSet.questions)
+        if (!first) return
+
+        // Adaptive mode is one growing set whose difficulty follows the learner
+        setAdaptiveState(first.state)
+        setDifficultyGroups([
+          { difficulty: first.state.level, questions: [first.question], completed: false }
+        ])
+      } else {
+        setAdaptiveState(null)
+        setDifficultyGroups(createPresetGroups(preset, questionSet.questions))
+      }
       setAppState('question-info')
     },
     [questionSet, createPresetGroups, isAuthenticated]
@@ -253,6 +283,25 @@ export function useQuiz() {
     setAppState('quiz-active')
   }
 
+  useEffect(() => {
+    questionShownAtRef.current = Date.now()
+  }, [currentSetIndex, currentQuestionIndex, appState])
+
+  // Grade the current adaptive question and fold it into the engine state
+  const recordCurrentAdaptiveAnswer = (state: AdaptiveState): AdaptiveState => {
+    const question = difficultyGroups[0]?.questions[currentQuestionIndex]
+    const response = responses.find(r => r.questionIndex === currentQuestionIndex)
+    if (!question || !response) return state
+
+    return recordAdaptiveAnswer(state, {
+      questionId: adaptiveItemId(question),
+      // Selection may have fallen back to another level than the target one
+      level: toAdaptiveLevel(question.difficulty),
+      isCorrect: gradeAnswer(question, response.answer).isCorrect,
+      responseTimeMs: responseTimesRef.current[currentQuestionIndex]
+    })
+  }
+
   const submitCurrentSet = async () => {
     if (!difficultyGroups.length || !questionSet) return
 
@@ -266,11 +315,23 @@ export function useQuiz() {
       r => r.questionIndex >= startIndex && r.questionIndex <= endIndex
     )
 
+    let adaptive
+    if (adaptiveState) {
+      const finalState = recordCurrentAdaptiveAnswer(adaptiveState)
+      setAdaptiveState(finalState)
+      adaptive = estimateAdaptiveLevel(finalState)
+    }
+
+    // The server grades against the stored set, so only ids and answers are sent
     const submissionData = {
-      responses: setResponses,
-      questions: currentGroup.questions,
+      responses: setResponses.map(response => ({
+        ...response,
+        questionId: currentGroup.questions[response.questionIndex - startIndex]?.id
+      })),
+      questionIds: currentGroup.questions.map(question => question.id),
       setIndex: currentSetIndex,
-      difficulty: currentGroup.difficulty,
+      difficulty: adaptive ? 'adaptive' : currentGroup.difficulty,
+      adaptive,
       userData: isAuthenticated
         ? { userId: user?.id, email: user?.email }
         : undefined
@@ -280,6 +341,7 @@ export function useQuiz() {
   }
 
   const handleAnswerSelect = (questionIndex: number, answer: string) => {
+    responseTimesRef.current[questionIndex] = Date.now() - questionShownAtRef.current
     const newResponse: QuestionResponse = { questionIndex, answer }
     setResponses(prev => [
       ...prev.filter(r => r.questionIndex !== questionIndex),
@@ -288,6 +350,23 @@ export function useQuiz() {
   }
 
   const moveToNextQuestion = () => {
+    if (adaptiveState && questionSet) {
+      const answeredState = recordCurrentAdaptiveAnswer(adaptiveState)
+      const next = selectAdaptiveQuestion(answeredState, questionSet.questions)
+      if (!next) return
+
+      setAdaptiveState(next.state)
+      setDifficultyGroups(groups => [
+        {
+          ...groups[0],
+          difficulty: next.state.level,
+          questions: [...groups[0].questions, next.question]
+        }
+      ])
+      setCurrentQuestionIndex(currentQuestionIndex + 1)
+      return
+    }
+
     if (
       currentQuestionIndex <
       (difficultyGroups[currentSetIndex]?.questions.length || 0) - 1
@@ -297,6 +376,9 @@ export function useQuiz() {
   }
 
   const isLastQuestionInSet = () => {
+    if (adaptiveState && questionSet) {
+      return isFinalAdaptiveQuestion(adaptiveState, questionSet.questions)
+    }
     const currentGroup = difficultyGroups[currentSetIndex]
     return currentQuestionIndex === (currentGroup?.questions.length || 0) - 1
   }
@@ -325,6 +407,8 @@ export function useQuiz() {
     setCurrentQuestionIndex(0)
     setResponses([])
     setResults(null)
+    setAdaptiveState(null)
+    responseTimesRef.current = {}
   }
 
   const handleFavoriteToggle = async () => {
@@ -374,6 +458,11 @@ export function useQuiz() {
     error: questionSetError?.message || submitSetMutation.error?.message || null,
     selectedPreset,
     difficultyGroups,
+    adaptiveState,
+    adaptiveTotalQuestions:
+      adaptiveState && questionSet
+        ? Math.min(DEFAULT_ADAPTIVE_CONFIG.totalQuestions, questionSet.questions.length)
+        : undefined,
     currentSetIndex,
     currentQuestionIndex,
     responses,
@@ -38,6 +38,7 @@ export default function QuestionsPage() {
     setShowTranscript,
     currentSetIndex,
     difficultyGroups,
+    adaptiveTotalQuestions,
     results,
     authLoading,
     showGridView,
@@ -122,6 +123,7 @@ export default function QuestionsPage() {
                 openGridView={openGridView}
                 closeGridView={closeGridView}
                 difficultyGroups={difficultyGroups}
+                adaptiveTotalQuestions={adaptiveTotalQuestions}
                 user={user}
                 isAuthenticated={isAuthenticated}
                 authLoading={authLoading}
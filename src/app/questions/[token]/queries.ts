@@ -1,8 +1,12 @@
 import { QuestionSet } from '../../../components/questions/QuestionSetInfo'
 import { quizFavoritesService } from '../../../lib/services/quiz-favorites-service'
 
-export const fetchQuestionSet = async (token: string): Promise<QuestionSet> => {
-  const response = await fetch(`/api/questions/${token}`)
+export const fetchQuestionSet = async (
+  token: string,
+  groupContext?: { groupId: string; sessionId: string }
+): Promise<QuestionSet> => {
+  const query = groupContext ? `?${new URLSearchParams(groupContext)}` : ''
+  const response = await fetch(`/api/questions/${token}${query}`)
   if (!response.ok) {
     // Parse error response for better error handling
     try {
@@ -62,3 +66,19 @@ export const submitSet = async (token: string, submissionData: any): Promise<any
   // We might need to adjust this. For now, let's assume it returns a success status.
   return { success: true }
 }
+
+export const reportQuestion = async (
+  token: string,
+  report: { questionId: string; reason: string; details?: string }
+): Promise<void> => {
+  const response = await fetch(`/api/questions/${token}/report`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(report)
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to report question')
+  }
+}
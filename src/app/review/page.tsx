@@ -0,0 +1,14 @@
+'use client'
+
+import { FlashcardReview } from '@/components/vocabulary/FlashcardReview'
+import { AuthenticatedPage } from '../../components/pages/shared/AuthenticatedPage'
+import { PageHeader } from '../../components/pages/shared/PageHeader'
+
+export default function ReviewPage() {
+  return (
+    <AuthenticatedPage title="Review" subtitle="Flashcard review of your vocabulary deck">
+      <PageHeader title="Vocabulary Review" subtitle="Work through the cards that are due and keep your schedule on track" />
+      <FlashcardReview />
+    </AuthenticatedPage>
+  )
+}
@@ -0,0 +1,56 @@
+'use client'
+
+import { ACTIVITY_HEATMAP_DAYS, type DailyActivity } from '@/lib/services/learning-goal-service'
+
+interface ActivityHeatmapProps {
+  activity: DailyActivity[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const intensity = (count: number) => {
+  if (count === 0) return 'bg-gray-100'
+  if (count < 5) return 'bg-indigo-200'
+  if (count < 15) return 'bg-indigo-400'
+  if (count < 30) return 'bg-indigo-600'
+  return 'bg-indigo-800'
+}
+
+/**
+ * One square per UTC day, a column per week, oldest first
+ */
+export function ActivityHeatmap({ activity }: ActivityHeatmapProps) {
+  const byDay = new Map(activity.map(day => [day.day, day]))
+
+  const today = new Date()
+  const days = Array.from({ length: ACTIVITY_HEATMAP_DAYS }, (_, index) => {
+    const date = new Date(today.getTime() - (ACTIVITY_HEATMAP_DAYS - 1 - index) * DAY_MS)
+    const key = date.toISOString().slice(0, 10)
+    const entry = byDay.get(key)
+    return { key, reviews: entry?.reviews || 0, quizzes: entry?.quizzes || 0 }
+  })
+
+  // Pad the first column so rows line up with weekdays (Monday first)
+  const padding = (new Date(`${days[0].key}T00:00:00Z`).getUTCDay() + 6) % 7
+  const activeDays = days.filter(day => day.reviews + day.quizzes > 0).length
+
+  return (
+    <div>
+      <div className="grid grid-flow-col grid-rows-7 gap-1 overflow-x-auto">
+        {Array.from({ length: padding }, (_, index) => (
+          <div key={`pad-${index}`} className="h-3 w-3" />
+        ))}
+        {days.map(day => (
+          <div
+            key={day.key}
+            className={`h-3 w-3 rounded-sm ${intensity(day.reviews + day.quizzes)}`}
+            title={`${day.key}: ${day.reviews} reviews, ${day.quizzes} quizzes`}
+          />
+        ))}
+      </div>
+      <p className="mt-3 text-xs text-gray-500">
+        Practiced on {activeDays} of the last {ACTIVITY_HEATMAP_DAYS} days
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,171 @@
+'use client'
+
+import { useState } from 'react'
+import { CheckCircle, Flag, Plus, Trash2 } from 'lucide-react'
+import { GOAL_TYPES, type GoalType, type LearningGoal } from '@/lib/services/learning-goal-service'
+import { useCreateLearningGoal, useDeleteLearningGoal } from '@/hooks/useLearningGoals'
+
+interface LearningGoalsProps {
+  goals: LearningGoal[]
+}
+
+const DEFAULT_TARGETS: Record<GoalType, number> = {
+  daily_reviews: 20,
+  weekly_quizzes: 3,
+  words_learned: 100
+}
+
+const goalPeriodLabel = (goal: LearningGoal) => {
+  const period = GOAL_TYPES[goal.type as GoalType]?.period
+  if (period === 'day') return 'today'
+  if (period === 'week') return 'this week'
+  return goal.deadline ? `by ${new Date(goal.deadline).toLocaleDateString()}` : ''
+}
+
+export function LearningGoals({ goals }: LearningGoalsProps) {
+  const createGoal = useCreateLearningGoal()
+  const deleteGoal = useDeleteLearningGoal()
+  const [showForm, setShowForm] = useState(false)
+  const [type, setType] = useState<GoalType>('daily_reviews')
+  const [target, setTarget] = useState(DEFAULT_TARGETS.daily_reviews)
+  const [deadline, setDeadline] = useState('')
+  const [formError, setFormError] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setFormError('')
+
+    try {
+      await createGoal.mutateAsync({
+        type,
+        target,
+        // End of the chosen day
+        deadline: type === 'words_learned' && deadline ? new Date(`${deadline}T23:59:59`).toISOString() : undefined
+      })
+      setShowForm(false)
+      setDeadline('')
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to create goal')
+    }
+  }
+
+  return (
+    <div className="rounded-2xl bg-white/90 p-6 shadow-lg backdrop-blur-sm">
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-semibold text-gray-900">
+          <Flag className="h-5 w-5 text-indigo-600" />
+          Goals
+        </h3>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-700"
+          >
+            <Plus className="h-4 w-4" />
+            Add goal
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-4 space-y-3 rounded-xl bg-indigo-50/50 p-4">
+          <select
+            value={type}
+            onChange={e => {
+              const next = e.target.value as GoalType
+              setType(next)
+              setTarget(DEFAULT_TARGETS[next])
+            }}
+            className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {Object.entries(GOAL_TYPES).map(([value, { label }]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              required
+              min={1}
+              max={10000}
+              value={target}
+              onChange={e => setTarget(parseInt(e.target.value, 10) || 1)}
+              className="w-24 rounded-lg border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <span className="text-sm text-gray-600">{GOAL_TYPES[type].unit}</span>
+            {type === 'words_learned' && (
+              <input
+                type="date"
+                required
+                min={new Date().toISOString().slice(0, 10)}
+                value={deadline}
+                onChange={e => setDeadline(e.target.value)}
+                className="ml-auto rounded-lg border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            )}
+          </div>
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false)
+                setFormError('')
+              }}
+              className="rounded-lg px-3 py-1.5 text-sm text-gray-600 hover:bg-white"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={createGoal.isPending}
+              className="rounded-lg bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {createGoal.isPending ? 'Saving...' : 'Save goal'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {goals.length === 0 && !showForm ? (
+        <p className="text-sm text-gray-500">Set a goal to keep your practice on track.</p>
+      ) : (
+        <ul className="space-y-4">
+          {goals.map(goal => {
+            const current = Math.min(goal.current || 0, goal.target)
+            const done = goal.is_completed || current >= goal.target
+            return (
+              <li key={goal.id} className="group">
+                <div className="mb-1 flex items-center justify-between gap-2 text-sm">
+                  <span className="flex min-w-0 items-center gap-1 font-medium text-gray-800">
+                    {done && <CheckCircle className="h-4 w-4 shrink-0 text-green-500" />}
+                    <span className="truncate">{goal.title}</span>
+                  </span>
+                  <button
+                    onClick={() => deleteGoal.mutate(goal.id)}
+                    disabled={deleteGoal.isPending}
+                    className="text-gray-300 opacity-0 transition-opacity hover:text-red-600 group-hover:opacity-100"
+                    title="Remove goal"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="h-2 overflow-hidden rounded-full bg-gray-100">
+                  <div
+                    className={`h-full rounded-full ${done ? 'bg-green-500' : 'bg-gradient-to-r from-indigo-500 to-purple-600'}`}
+                    style={{ width: `${Math.round((current / goal.target) * 100)}%` }}
+                  />
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {current}/{goal.target} {goal.unit} {goalPeriodLabel(goal)}
+                </p>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+'use client'
+
+import { useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { HelpCircle, Reply, SmilePlus, Trash2 } from 'lucide-react'
+import { UserAvatar } from '@/components/ui/user-avatar'
+import { CHAT_REACTIONS, type ChatMessage, type LinkedQuestion } from '@/lib/services/group-chat-service'
+
+interface ChatMessageItemProps {
+  message: ChatMessage
+  currentUserId?: string
+  canManage: boolean
+  isReply?: boolean
+  onReply: (message: ChatMessage) => void
+  onReact: (messageId: string, emoji: string) => void
+  onDelete: (message: ChatMessage) => void
+  onQuestionClick?: (question: LinkedQuestion) => void
+}
+
+const linkedQuestion = (message: ChatMessage): LinkedQuestion | null => {
+  const metadata = message.metadata as { question?: LinkedQuestion } | null
+  return message.type === 'question' && metadata?.question ? metadata.question : null
+}
+
+export function ChatMessageItem({
+  message,
+  currentUserId,
+  canManage,
+  isReply = false,
+  onReply,
+  onReact,
+  onDelete,
+  onQuestionClick
+}: ChatMessageItemProps) {
+  const [showPicker, setShowPicker] = useState(false)
+  const isDeleted = !!message.deleted_at
+  const question = linkedQuestion(message)
+  const reactions = Object.entries((message.reactions as Record<string, string[]> | null) || {}).filter(
+    ([, users]) => Array.isArray(users) && users.length > 0
+  )
+  const canDelete = !isDeleted && (message.sender_id === currentUserId || canManage)
+
+  return (
+    <div className={`group flex gap-3 ${isReply ? 'ml-11' : ''}`}>
+      <UserAvatar username={message.sender_name} size={isReply ? 'sm' : 'md'} className="mt-0.5 shrink-0" />
+
+      <div className="min-w-0 flex-1">
+        <div className="flex items-baseline gap-2">
+          <span className="text-sm font-semibold text-gray-900">{message.sender_name}</span>
+          {message.created_at && (
+            <span className="text-xs text-gray-400">
+              {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+            </span>
+          )}
+        </div>
+
+        {isDeleted ? (
+          <p className="text-sm italic text-gray-400">Message deleted</p>
+        ) : (
+          <>
+            {question && (
+              <button
+                type="button"
+                onClick={() => onQuestionClick?.(question)}
+                disabled={!onQuestionClick}
+                className="my-1 flex w-full items-start gap-2 rounded-lg border border-indigo-100 bg-indigo-50/60 p-2 text-left text-sm text-indigo-900 enabled:hover:bg-indigo-50"
+              >
+                <HelpCircle className="mt-0.5 h-4 w-4 shrink-0 text-indigo-500" />
+                <span>
+                  <span className="font-medium">Question {question.index + 1}:</span> {question.text}
+                </span>
+              </button>
+            )}
+            <p className="whitespace-pre-wrap break-words text-sm text-gray-800">{message.content}</p>
+          </>
+        )}
+
+        {reactions.length > 0 && (
+          <div className="mt-1 flex flex-wrap gap-1">
+            {reactions.map(([emoji, users]) => {
+              const reacted = !!currentUserId && users.includes(currentUserId)
+              return (
+                <button
+                  key={emoji}
+                  onClick={() => onReact(message.id, emoji)}
+                  className={`rounded-full border px-2 py-0.5 text-xs ${
+                    reacted ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'border-gray-200 bg-white text-gray-600'
+                  }`}
+                >
+                  {emoji} {users.length}
+                </button>
+              )
+            })}
+          </div>
+        )}
+
+        {!isDeleted && (
+          <div className="mt-1 flex items-center gap-3 text-xs text-gray-400 opacity-0 transition-opacity focus-within:opacity-100 group-hover:opacity-100">
+            <button onClick={() => onReply(message)} className="flex items-center gap-1 hover:text-indigo-600">
+              <Reply className="h-3.5 w-3.5" />
+              Reply
+            </button>
+            <button
+              onClick={() => setShowPicker(open => !open)}
+              className="flex items-center gap-1 hover:text-indigo-600"
+              title="Add reaction"
+            >
+              <SmilePlus className="h-3.5 w-3.5" />
+            </button>
+            {canDelete && (
+              <button onClick={() => onDelete(message)} className="flex items-center gap-1 hover:text-red-600">
+                <Trash2 className="h-3.5 w-3.5" />
+                Delete
+              </button>
+            )}
+          </div>
+        )}
+
+        {showPicker && (
+          <div className="mt-1 inline-flex gap-1 rounded-full border border-gray-200 bg-white px-2 py-1 shadow-sm">
+            {CHAT_REACTIONS.map(emoji => (
+              <button
+                key={emoji}
+                onClick={() => {
+                  onReact(message.id, emoji)
+                  setShowPicker(false)
+                }}
+                className="rounded px-1 text-base hover:bg-gray-100"
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
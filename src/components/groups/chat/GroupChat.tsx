@@ -0,0 +1,206 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { HelpCircle, Loader2, MessageCircle, Send, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  useChatMessages,
+  useDeleteChatMessage,
+  useSendChatMessage,
+  useToggleChatReaction
+} from '@/hooks/useGroupChat'
+import { MAX_MESSAGE_LENGTH, type ChatMessage, type LinkedQuestion } from '@/lib/services/group-chat-service'
+import { ChatMessageItem } from './ChatMessageItem'
+
+interface GroupChatProps {
+  groupId: string
+  // Omit for the group chat; set for a session's discussion thread
+  sessionId?: string
+  currentUserId?: string
+  canManage: boolean
+  // Question to attach to the next message, e.g. picked from the results review
+  linkedQuestion?: LinkedQuestion | null
+  onClearLinkedQuestion?: () => void
+  onQuestionClick?: (question: LinkedQuestion) => void
+  emptyMessage?: string
+}
+
+export function GroupChat({
+  groupId,
+  sessionId,
+  currentUserId,
+  canManage,
+  linkedQuestion,
+  onClearLinkedQuestion,
+  onQuestionClick,
+  emptyMessage = 'No messages yet. Say hello to your group!'
+}: GroupChatProps) {
+  const { messages, isLoading, error, hasNextPage, fetchNextPage, isFetchingNextPage } = useChatMessages(
+    groupId,
+    sessionId
+  )
+  const sendMessage = useSendChatMessage(groupId, sessionId)
+  const deleteMessage = useDeleteChatMessage(groupId)
+  const toggleReaction = useToggleChatReaction(groupId)
+  const [draft, setDraft] = useState('')
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null)
+  const [sendError, setSendError] = useState('')
+  const inputRef = useRef<HTMLTextAreaElement>(null)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  const topLevel = messages.filter(message => !message.reply_to)
+  const repliesByParent = new Map<string, ChatMessage[]>()
+  for (const message of messages) {
+    if (message.reply_to) {
+      repliesByParent.set(message.reply_to, [...(repliesByParent.get(message.reply_to) || []), message])
+    }
+  }
+
+  // Follow new messages, but not when older history is loaded above
+  const newestId = messages.reduce<ChatMessage | null>(
+    (newest, message) => (!newest || (message.created_at || '') > (newest.created_at || '') ? message : newest),
+    null
+  )?.id
+  useEffect(() => {
+    if (newestId) bottomRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [newestId])
+
+  useEffect(() => {
+    if (linkedQuestion) inputRef.current?.focus()
+  }, [linkedQuestion])
+
+  const handleSend = async () => {
+    const content = draft.trim()
+    if (!content || sendMessage.isPending) return
+    setSendError('')
+
+    try {
+      await sendMessage.mutateAsync({
+        content,
+        replyTo: replyTo?.id,
+        question: linkedQuestion || undefined
+      })
+      setDraft('')
+      setReplyTo(null)
+      onClearLinkedQuestion?.()
+    } catch (err) {
+      setSendError(err instanceof Error ? err.message : 'Failed to send message')
+    }
+  }
+
+  const handleDelete = (message: ChatMessage) => {
+    if (confirm('Delete this message? Replies to it will stay in the thread.')) {
+      deleteMessage.mutate(message.id)
+    }
+  }
+
+  const renderMessage = (message: ChatMessage, isReply = false) => (
+    <ChatMessageItem
+      key={message.id}
+      message={message}
+      currentUserId={currentUserId}
+      canManage={canManage}
+      isReply={isReply}
+      onReply={target => {
+        setReplyTo(target)
+        inputRef.current?.focus()
+      }}
+      onReact={(messageId, emoji) => toggleReaction.mutate({ messageId, emoji })}
+      onDelete={handleDelete}
+      onQuestionClick={onQuestionClick}
+    />
+  )
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-indigo-500" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return <p className="py-8 text-center text-sm text-gray-500">{error.message}</p>
+  }
+
+  return (
+    <div className="flex flex-col">
+      <div className="max-h-[32rem] min-h-[12rem] space-y-4 overflow-y-auto pr-2">
+        {hasNextPage && (
+          <div className="text-center">
+            <button
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+            >
+              {isFetchingNextPage ? 'Loading...' : 'Load older messages'}
+            </button>
+          </div>
+        )}
+
+        {topLevel.length === 0 ? (
+          <div className="py-10 text-center text-gray-500">
+            <MessageCircle className="mx-auto mb-2 h-8 w-8 text-gray-300" />
+            <p className="text-sm">{emptyMessage}</p>
+          </div>
+        ) : (
+          topLevel.map(message => (
+            <div key={message.id} className="space-y-3">
+              {renderMessage(message)}
+              {(repliesByParent.get(message.id) || []).map(reply => renderMessage(reply, true))}
+            </div>
+          ))
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="mt-4 space-y-2 border-t border-gray-100 pt-4">
+        {(replyTo || linkedQuestion) && (
+          <div className="flex flex-wrap gap-2 text-xs">
+            {replyTo && (
+              <span className="flex items-center gap-1 rounded-full bg-gray-100 px-3 py-1 text-gray-600">
+                Replying to {replyTo.sender_name}
+                <button onClick={() => setReplyTo(null)} title="Cancel reply">
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            )}
+            {linkedQuestion && (
+              <span className="flex max-w-full items-center gap-1 rounded-full bg-indigo-50 px-3 py-1 text-indigo-700">
+                <HelpCircle className="h-3 w-3 shrink-0" />
+                <span className="truncate">
+                  Question {linkedQuestion.index + 1}: {linkedQuestion.text}
+                </span>
+                <button onClick={onClearLinkedQuestion} title="Remove question">
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-end gap-2">
+          <textarea
+            ref={inputRef}
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault()
+                handleSend()
+              }
+            }}
+            rows={1}
+            maxLength={MAX_MESSAGE_LENGTH}
+            placeholder={linkedQuestion ? 'What do you think about this question?' : 'Write a message...'}
+            className="max-h-32 min-h-[2.5rem] flex-1 resize-y rounded-xl border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <Button onClick={handleSend} disabled={!draft.trim() || sendMessage.isPending} size="icon" title="Send">
+            {sendMessage.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+        {sendError && <p className="text-sm text-red-600">{sendError}</p>}
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react'
 import { CheckCircle, Clock, Loader, Sparkles } from 'lucide-react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../../ui/dialog'
+import type { StreamedQuestion } from '../../../hooks/useQuestionGeneration'
 
 interface GenerationStep {
   id: 'easy' | 'medium' | 'hard'
@@ -27,6 +28,7 @@ interface GenerationProgressModalProps {
     medium: number
     hard: number
   }
+  streamedQuestions?: StreamedQuestion[]
   presetName?: string
   onClose?: () => void
 }
@@ -35,6 +37,7 @@ export function GenerationProgressModal({
   isOpen,
   generatingState,
   generatedCounts,
+  streamedQuestions = [],
   presetName,
   onClose
 }: GenerationProgressModalProps) {
@@ -120,10 +123,15 @@ export function GenerationProgressModal({
     }
   }
 
+  const streamedCountFor = (difficulty: GenerationStep['id']) =>
+    streamedQuestions.filter(q => q.difficulty === difficulty).length
+
   const getStepStatusText = (step: GenerationStep) => {
     switch (step.status) {
-      case 'generating':
-        return 'Generating...'
+      case 'generating': {
+        const streamed = streamedCountFor(step.id)
+        return streamed > 0 ? `${streamed} ready...` : 'Generating...'
+      }
       case 'completed':
         return `${step.count} questions generated`
       case 'failed':
@@ -227,6 +235,31 @@ export function GenerationProgressModal({
             ))}
           </div>
 
+          {/* Questions arriving from the stream */}
+          {isGeneratingAny && streamedQuestions.length > 0 && (
+            <div className="max-h-48 space-y-2 overflow-y-auto rounded-lg border border-indigo-100 bg-indigo-50/50 p-3">
+              {streamedQuestions.map(item => (
+                <div
+                  key={`${item.difficulty}-${item.index}`}
+                  className="flex items-start gap-2 text-sm text-gray-700 animate-in fade-in slide-in-from-bottom-1"
+                >
+                  <span
+                    className={`mt-0.5 rounded px-1.5 py-0.5 text-xs font-medium capitalize ${
+                      item.difficulty === 'easy'
+                        ? 'bg-green-100 text-green-700'
+                        : item.difficulty === 'medium'
+                          ? 'bg-yellow-100 text-yellow-700'
+                          : 'bg-red-100 text-red-700'
+                    }`}
+                  >
+                    {item.difficulty}
+                  </span>
+                  <span className="line-clamp-2">{item.question.question}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Completion Message */}
           {allCompleted && (
             <div className="rounded-lg border border-green-200 bg-green-50 p-4">
@@ -1,7 +1,9 @@
 'use client'
 
 import React from 'react'
-import { CheckCircle, Clock, Play, TrendingUp, XCircle } from 'lucide-react'
+import { AlertTriangle, BarChart3, CheckCircle, Clock, MessageCircle, Play, TrendingUp, XCircle } from 'lucide-react'
+import type { LinkedQuestion } from '../../../../lib/services/group-chat-service'
+import type { ItemStatistics } from '../../../../lib/services/item-analysis-service'
 import {
   formatVideoTimestamp,
   getVideoLink,
@@ -31,6 +33,89 @@ interface QuestionReviewListProps {
     totalQuestions: number
   }
   showCorrectAnswers?: boolean
+  // Question quality metrics keyed by question id (group admins only)
+  itemStats?: Record<string, ItemStatistics>
+  // Bring a question into the session's discussion thread
+  onDiscussQuestion?: (question: LinkedQuestion) => void
+}
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${Math.round(value * 100)}%`
+
+// Admin-only quality metrics aggregated across every session that used the question
+const ItemStatsPanel = ({ stats }: { stats: ItemStatistics }) => {
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-200 bg-gray-50 p-3">
+      <div className="flex items-center gap-2 text-xs font-medium text-gray-700">
+        <BarChart3 className="h-4 w-4" />
+        Item analysis
+        <span className="font-normal text-gray-500">
+          {stats.responses} responses · {stats.sessionCount}{' '}
+          {stats.sessionCount === 1 ? 'session' : 'sessions'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div>
+          <div className="text-sm font-semibold text-gray-900">{formatPercent(stats.pValue)}</div>
+          <div className="text-xs text-gray-600" title="Share of respondents who answered correctly">
+            p-value
+          </div>
+        </div>
+        <div>
+          <div className="text-sm font-semibold text-gray-900">
+            {stats.discrimination === null ? '—' : stats.discrimination.toFixed(2)}
+          </div>
+          <div
+            className="text-xs text-gray-600"
+            title="Correct rate of the top 27% of scorers minus the bottom 27%"
+          >
+            Discrimination
+          </div>
+        </div>
+        <div>
+          <div className="text-sm font-semibold text-gray-900">
+            {stats.averageResponseTimeMs === null
+              ? '—'
+              : `${(stats.averageResponseTimeMs / 1000).toFixed(1)}s`}
+          </div>
+          <div className="text-xs text-gray-600">Avg. time</div>
+        </div>
+      </div>
+
+      {stats.options.length > 0 && (
+        <div className="space-y-1">
+          {stats.options.map(option => (
+            <div key={option.letter} className="flex items-center gap-2 text-xs">
+              <span
+                className={`w-4 font-medium ${option.isKey ? 'text-green-700' : 'text-gray-600'}`}
+              >
+                {option.letter}
+              </span>
+              <div className="h-2 flex-1 overflow-hidden rounded bg-gray-200">
+                <div
+                  className={`h-full ${option.isKey ? 'bg-green-500' : 'bg-gray-400'}`}
+                  style={{ width: `${Math.round(option.share * 100)}%` }}
+                />
+              </div>
+              <span className="w-16 text-right text-gray-600">
+                {option.count} ({formatPercent(option.share)})
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {stats.suspectedMiskey && (
+        <Alert className="border-amber-200 bg-amber-50">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          <AlertDescription className="text-xs text-amber-800">
+            A distractor was chosen more often than the keyed answer. The answer key may be wrong.
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
 }
 
 // Sub-component to render the explanation with clickable timeframes
@@ -79,7 +164,9 @@ const RenderedExplanation = ({
 
 export function QuestionReviewList({
   results,
-  showCorrectAnswers = true
+  showCorrectAnswers = true,
+  itemStats,
+  onDiscussQuestion
 }: QuestionReviewListProps) {
   console.log('QuestionReviewList results:', results)
   return (
@@ -117,9 +204,10 @@ export function QuestionReviewList({
             const timestamp = formatVideoTimestamp(result.timeStart)
             const videoLink = getVideoLink(result.videoUrl, result.timeStart)
             const hasTimeframe = result.timeStart !== undefined
+            const stats = itemStats?.[result.questionId]
 
             return (
-              <div key={result.questionId} className="group">
+              <div key={result.questionId} id={`question-${result.questionId}`} className="group scroll-mt-24">
                 {/* Question Row */}
                 <div
                   className={`rounded-lg border-l-4 bg-white p-4 shadow-sm transition-all hover:shadow-md ${
@@ -155,36 +243,52 @@ export function QuestionReviewList({
                         </Badge>
                       </div>
 
-                      {/* Enhanced Video timestamp display */}
-                      {hasTimeframe && (
-                        <div className="flex items-center gap-2">
-                          <div className="flex items-center gap-1">
-                            <Badge variant="outline" className="text-xs bg-blue-50 border-blue-200">
-                              <Clock className="mr-1 h-3 w-3 text-blue-600" />
-                              <span className="text-blue-800">
-                                {timestamp}
-                                {result.timeEnd && ` - ${formatVideoTimestamp(result.timeEnd)}`}
-                              </span>
-                            </Badge>
-                            {result.timeEnd && result.timeStart && (
-                              <Badge variant="secondary" className="text-xs">
-                                {Math.round((result.timeEnd - result.timeStart) / 1000)}s
+                      <div className="flex items-center gap-2">
+                        {onDiscussQuestion && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7 px-2 text-xs"
+                            onClick={() =>
+                              onDiscussQuestion({ questionId: result.questionId, index, text: result.question })
+                            }
+                          >
+                            <MessageCircle className="mr-1 h-3 w-3" />
+                            Discuss
+                          </Button>
+                        )}
+
+                        {/* Enhanced Video timestamp display */}
+                        {hasTimeframe && (
+                          <div className="flex items-center gap-2">
+                            <div className="flex items-center gap-1">
+                              <Badge variant="outline" className="text-xs bg-blue-50 border-blue-200">
+                                <Clock className="mr-1 h-3 w-3 text-blue-600" />
+                                <span className="text-blue-800">
+                                  {timestamp}
+                                  {result.timeEnd && ` - ${formatVideoTimestamp(result.timeEnd)}`}
+                                </span>
                               </Badge>
+                              {result.timeEnd && result.timeStart && (
+                                <Badge variant="secondary" className="text-xs">
+                                  {Math.round((result.timeEnd - result.timeStart) / 1000)}s
+                                </Badge>
+                              )}
+                            </div>
+                            {videoLink && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="h-7 px-2 text-xs bg-gradient-to-r from-blue-50 to-blue-100 border-blue-200 hover:from-blue-100 hover:to-blue-150 text-blue-700"
+                                onClick={() => window.open(videoLink, '_blank')}
+                              >
+                                <Play className="mr-1 h-3 w-3" />
+                                Watch Segment
+                              </Button>
                             )}
                           </div>
-                          {videoLink && (
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              className="h-7 px-2 text-xs bg-gradient-to-r from-blue-50 to-blue-100 border-blue-200 hover:from-blue-100 hover:to-blue-150 text-blue-700"
-                              onClick={() => window.open(videoLink, '_blank')}
-                            >
-                              <Play className="mr-1 h-3 w-3" />
-                              Watch Segment
-                            </Button>
-                          )}
-                        </div>
-                      )}
+                        )}
+                      </div>
                     </div>
 
                     {/* Question Text */}
@@ -260,6 +364,8 @@ export function QuestionReviewList({
                           </AlertDescription>
                         </Alert>
                       )}
+
+                      {stats && <ItemStatsPanel stats={stats} />}
                     </div>
                   </div>
                 </div>
@@ -1,8 +1,10 @@
 'use client'
 
+export type ResultsTab = 'personal' | 'leaderboard' | 'discussion'
+
 interface QuizResultsHeaderProps {
-  activeTab: 'personal' | 'leaderboard'
-  onTabChange: (tab: 'personal' | 'leaderboard') => void
+  activeTab: ResultsTab
+  onTabChange: (tab: ResultsTab) => void
 }
 
 export function QuizResultsHeader({ activeTab, onTabChange }: QuizResultsHeaderProps) {
@@ -38,6 +40,16 @@ export function QuizResultsHeader({ activeTab, onTabChange }: QuizResultsHeaderP
           >
             Group Leaderboard
           </button>
+          <button
+            onClick={() => onTabChange('discussion')}
+            className={`rounded-md px-4 py-2 text-sm font-medium transition-colors ${
+              activeTab === 'discussion'
+                ? 'bg-white text-indigo-600 shadow-sm'
+                : 'text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            Discussion
+          </button>
         </div>
       </div>
     </div>
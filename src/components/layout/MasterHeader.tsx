@@ -5,6 +5,7 @@ import {
   Blocks,
   BookOpen,
   HelpCircle,
+  Layers,
   LogOut,
   Menu,
   RotateCcw,
@@ -27,6 +28,7 @@ import {
   DropdownMenuTrigger
 } from '../ui/dropdown-menu'
 import { UserAvatar } from '../ui/user-avatar'
+import { NotificationBell } from './NotificationBell'
 
 interface MasterHeaderProps {
   showNavigation?: boolean
@@ -41,6 +43,7 @@ export function MasterHeader({ showNavigation = true }: MasterHeaderProps) {
   const navigationItems = [
     { href: '/dashboard', label: 'Dashboard', icon: Blocks },
     { href: '/loops', label: 'Loops', icon: RotateCcw },
+    { href: '/review', label: 'Review', icon: Layers },
     { href: '/groups', label: 'Groups', icon: Users },
     { href: '/profile', label: 'Profile', icon: User2 }
     // { href: '/questions', label: 'Practice', icon: BookOpen },
@@ -124,6 +127,8 @@ export function MasterHeader({ showNavigation = true }: MasterHeaderProps) {
                   </Button>
                 )}
 
+                <NotificationBell />
+
                 {/* User Menu */}
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -0,0 +1,149 @@
+'use client'
+
+import { formatDistanceToNow } from 'date-fns'
+import { Award, Bell, CalendarClock, CheckCheck, MessageSquare, Target, UserPlus, Users, X } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import {
+  useDeleteNotifications,
+  useMarkNotificationsRead,
+  useNotifications,
+  useNotificationsRealtime
+} from '@/hooks/use-notifications'
+import type { SocialNotification } from '@/lib/services/notification-center-service'
+import { getNotificationLink } from '@/lib/utils/notification-links'
+import { Button } from '../ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '../ui/dropdown-menu'
+
+const NOTIFICATION_ICONS: Record<string, typeof Bell> = {
+  group_invite: UserPlus,
+  session_reminder: CalendarClock,
+  join_request_decision: Users,
+  achievement: Award,
+  challenge_completed: Target,
+  message: MessageSquare
+}
+
+export function NotificationBell() {
+  const router = useRouter()
+  const { data, isLoading } = useNotifications()
+  const markRead = useMarkNotificationsRead()
+  const deleteNotifications = useDeleteNotifications()
+  useNotificationsRealtime()
+
+  const notifications = data?.notifications || []
+  const unreadCount = data?.unreadCount || 0
+
+  const handleOpen = (notification: SocialNotification) => {
+    if (!notification.read) {
+      markRead.mutate([notification.id])
+    }
+
+    const link = getNotificationLink(notification)
+    if (link) {
+      router.push(link)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative rounded-xl hover:bg-indigo-50"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        >
+          <Bell className="h-5 w-5 text-gray-600" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-5 min-w-5 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2">
+          <DropdownMenuLabel className="p-0">Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs text-indigo-600 hover:text-indigo-700"
+              onClick={event => {
+                event.preventDefault()
+                markRead.mutate(undefined)
+              }}
+              disabled={markRead.isPending}
+            >
+              <CheckCheck className="mr-1 h-3 w-3" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator className="m-0" />
+
+        {isLoading ? (
+          <div className="space-y-3 p-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-10 animate-pulse rounded bg-gray-100" />
+            ))}
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="px-4 py-8 text-center text-sm text-gray-500">
+            <Bell className="mx-auto mb-2 h-8 w-8 text-gray-300" />
+            You&apos;re all caught up
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => {
+              const Icon = NOTIFICATION_ICONS[notification.type] || Bell
+              return (
+                <DropdownMenuItem
+                  key={notification.id}
+                  className={`group items-start gap-3 rounded-none px-3 py-3 ${
+                    notification.read ? '' : 'bg-indigo-50/60'
+                  }`}
+                  onSelect={() => handleOpen(notification)}
+                >
+                  <div className="mt-0.5 flex h-8 w-8 shrink-0 items-center justify-center rounded-lg bg-indigo-100">
+                    <Icon className="h-4 w-4 text-indigo-600" />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className={`text-sm ${notification.read ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>
+                      {notification.title}
+                    </p>
+                    <p className="line-clamp-2 text-xs text-gray-500">{notification.message}</p>
+                    {notification.created_at && (
+                      <p className="mt-1 text-[11px] text-gray-400">
+                        {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    className="rounded p-1 text-gray-400 opacity-0 hover:bg-gray-200 hover:text-gray-600 group-hover:opacity-100"
+                    aria-label="Delete notification"
+                    onClick={event => {
+                      event.preventDefault()
+                      event.stopPropagation()
+                      deleteNotifications.mutate([notification.id])
+                    }}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </DropdownMenuItem>
+              )
+            })}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -12,8 +12,15 @@ interface CreateLoopModalProps {
   onSuccess: () => void
 }
 
+type LoopSource = 'youtube' | 'recording'
+
 export function CreateLoopModal({ groupId, onClose, onSuccess }: CreateLoopModalProps) {
+  const [source, setSource] = useState<LoopSource>('youtube')
   const [videoUrl, setVideoUrl] = useState('')
+  const [title, setTitle] = useState('')
+  const [subtitleFile, setSubtitleFile] = useState<{ content: string; fileName: string } | null>(
+    null
+  )
   const [startTime, setStartTime] = useState(0)
   const [endTime, setEndTime] = useState(60)
   const [isExtracting, setIsExtracting] = useState(false)
@@ -27,13 +34,17 @@ export function CreateLoopModal({ groupId, onClose, onSuccess }: CreateLoopModal
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!videoUrl.trim()) return
+    if (source === 'recording' && !subtitleFile) return
 
     setIsExtracting(true)
     try {
       await createMutation.mutateAsync({
         videoUrl: videoUrl.trim(),
         startTime,
-        endTime
+        endTime,
+        ...(source === 'recording' && subtitleFile
+          ? { subtitleFile, title: title.trim() || undefined }
+          : {})
       })
       onSuccess()
     } catch (error) {
@@ -42,6 +53,16 @@ export function CreateLoopModal({ groupId, onClose, onSuccess }: CreateLoopModal
     setIsExtracting(false)
   }
 
+  const handleSubtitleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) {
+      setSubtitleFile(null)
+      return
+    }
+
+    setSubtitleFile({ content: await file.text(), fileName: file.name })
+  }
+
   return (
     <Dialog open={true} onOpenChange={() => onClose()}>
       <DialogContent className="sm:max-w-[425px]">
@@ -50,18 +71,63 @@ export function CreateLoopModal({ groupId, onClose, onSuccess }: CreateLoopModal
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              type="button"
+              variant={source === 'youtube' ? 'default' : 'outline'}
+              onClick={() => setSource('youtube')}
+            >
+              YouTube
+            </Button>
+            <Button
+              type="button"
+              variant={source === 'recording' ? 'default' : 'outline'}
+              onClick={() => setSource('recording')}
+            >
+              Recording + Subtitles
+            </Button>
+          </div>
+
           <div className="space-y-2">
-            <Label htmlFor="videoUrl">YouTube URL</Label>
+            <Label htmlFor="videoUrl">{source === 'youtube' ? 'YouTube URL' : 'Media URL'}</Label>
             <Input
               id="videoUrl"
               type="url"
               value={videoUrl}
               onChange={(e) => setVideoUrl(e.target.value)}
-              placeholder="https://www.youtube.com/watch?v=..."
+              placeholder={
+                source === 'youtube'
+                  ? 'https://www.youtube.com/watch?v=...'
+                  : 'https://example.com/lessons/week-1.mp4'
+              }
               required
             />
           </div>
 
+          {source === 'recording' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="subtitleFile">Subtitle File (.srt or .vtt)</Label>
+                <Input
+                  id="subtitleFile"
+                  type="file"
+                  accept=".srt,.vtt,text/vtt,application/x-subrip"
+                  onChange={handleSubtitleFileChange}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="loopTitle">Title</Label>
+                <Input
+                  id="loopTitle"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="Defaults to the subtitle file name"
+                />
+              </div>
+            </>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="startTime">Start Time (seconds)</Label>
@@ -106,7 +172,9 @@ export function CreateLoopModal({ groupId, onClose, onSuccess }: CreateLoopModal
             </Button>
             <Button
               type="submit"
-              disabled={isExtracting || !videoUrl.trim()}
+              disabled={
+                isExtracting || !videoUrl.trim() || (source === 'recording' && !subtitleFile)
+              }
             >
               {isExtracting ? 'Creating...' : 'Create Loop'}
             </Button>
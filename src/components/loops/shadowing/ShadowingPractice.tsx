@@ -0,0 +1,266 @@
+'use client'
+
+import { useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Loader2, Mic, RotateCcw, Square, Trash2 } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useAudioRecorder, type Recording } from '@/hooks/useAudioRecorder'
+import { useDeleteShadowingTake, useShadowingPractice, useSubmitShadowingTake } from '@/hooks/useShadowing'
+import { MAX_RECORDING_SECONDS, type ShadowingAttempt, type ShadowingPractice as Practice } from '@/lib/services/shadowing-service'
+import { isYouTubeUrl } from '@/lib/utils/media-source'
+import { youtubeEmbedUrl } from '@/lib/utils/review-cards'
+import type { ShadowingSegment } from '@/lib/utils/shadowing'
+import { WordDiffView } from './WordDiffView'
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60)
+    .toString()
+    .padStart(2, '0')}`
+
+const scoreColor = (similarity: number | null) => {
+  if (similarity === null) return 'bg-gray-100 text-gray-600'
+  if (similarity >= 85) return 'bg-green-100 text-green-800'
+  if (similarity >= 60) return 'bg-amber-100 text-amber-800'
+  return 'bg-red-100 text-red-800'
+}
+
+function ReferenceClip({ loop, segment }: { loop: Practice['loop']; segment: ShadowingSegment }) {
+  // Remounting the player restarts the segment
+  const [playCount, setPlayCount] = useState(0)
+  const embedUrl = isYouTubeUrl(loop.videoUrl) ? youtubeEmbedUrl(loop.videoUrl, segment.start, segment.end) : null
+
+  return (
+    <div className="space-y-2">
+      {embedUrl ? (
+        <div className="aspect-video overflow-hidden rounded-xl bg-black">
+          <iframe
+            key={`${segment.index}-${playCount}`}
+            src={playCount > 0 ? `${embedUrl}&autoplay=1` : embedUrl}
+            title={loop.videoTitle || 'Source clip'}
+            allow="autoplay; encrypted-media"
+            className="h-full w-full"
+          />
+        </div>
+      ) : (
+        <video
+          key={`${segment.index}-${playCount}`}
+          src={`${loop.videoUrl}#t=${segment.start},${segment.end}`}
+          autoPlay={playCount > 0}
+          controls
+          className="max-h-72 w-full rounded-xl bg-black"
+        />
+      )}
+      <button
+        type="button"
+        onClick={() => setPlayCount(count => count + 1)}
+        className="flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-700"
+      >
+        <RotateCcw className="h-4 w-4" />
+        Replay segment
+      </button>
+    </div>
+  )
+}
+
+function AttemptResult({ attempt, onDelete, isDeleting }: { attempt: ShadowingAttempt; onDelete: () => void; isDeleting: boolean }) {
+  return (
+    <div className="space-y-3 rounded-xl border border-gray-200 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Badge className={scoreColor(attempt.similarity)}>
+            {attempt.similarity === null ? 'Not scored' : `${attempt.similarity}% match`}
+          </Badge>
+          <span className="text-xs text-gray-500">
+            {formatTime(attempt.durationSeconds)} • {formatDistanceToNow(new Date(attempt.createdAt), { addSuffix: true })}
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={onDelete}
+          disabled={isDeleting}
+          className="p-1 text-gray-400 transition-colors hover:text-red-600 disabled:opacity-50"
+          title="Delete recording"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+
+      {attempt.audioUrl && <audio src={attempt.audioUrl} controls className="w-full" />}
+
+      {attempt.feedback ? (
+        <WordDiffView words={attempt.feedback.words} />
+      ) : (
+        <p className="text-sm text-gray-700">{attempt.transcription || 'No speech recognized'}</p>
+      )}
+
+      {attempt.suggestions.length > 0 && (
+        <ul className="list-disc space-y-1 pl-5 text-sm text-gray-600">
+          {attempt.suggestions.map((suggestion, index) => (
+            <li key={index}>{suggestion}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export function ShadowingPractice({ loopId }: { loopId: string }) {
+  const { data, isLoading, error: loadError } = useShadowingPractice(loopId)
+  const submitTake = useSubmitShadowingTake(loopId)
+  const deleteTake = useDeleteShadowingTake(loopId)
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null)
+  const [error, setError] = useState('')
+
+  const segments = data?.segments || []
+  const segment = segments.find(item => item.index === selectedIndex) || segments[0]
+
+  const handleRecording = async ({ blob, durationSeconds }: Recording) => {
+    if (!segment) return
+    setError('')
+    try {
+      await submitTake.mutateAsync({ segmentIndex: segment.index, audio: blob, durationSeconds })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to score recording')
+    }
+  }
+
+  const recorder = useAudioRecorder({ maxSeconds: MAX_RECORDING_SECONDS, onComplete: handleRecording })
+
+  const handleDelete = async (attemptId: string) => {
+    if (!confirm('Delete this recording?')) return
+    setError('')
+    try {
+      await deleteTake.mutateAsync(attemptId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete recording')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-indigo-500" />
+      </div>
+    )
+  }
+
+  const errorMessage = error || (loadError instanceof Error ? loadError.message : '')
+  const errorAlert = errorMessage && (
+    <Alert className="mb-4 border-red-200 bg-red-50">
+      <AlertDescription className="text-red-700">{errorMessage}</AlertDescription>
+    </Alert>
+  )
+
+  if (!data || !segment) {
+    return (
+      <div>
+        {errorAlert}
+        {data && <p className="py-12 text-center text-gray-500">This loop has no transcript to shadow.</p>}
+      </div>
+    )
+  }
+
+  const attempts = data.attempts.filter(attempt => attempt.segmentIndex === segment.index)
+  const bestScores = new Map<number, number>()
+  for (const attempt of data.attempts) {
+    if (attempt.similarity === null) continue
+    bestScores.set(attempt.segmentIndex, Math.max(bestScores.get(attempt.segmentIndex) ?? 0, attempt.similarity))
+  }
+
+  const isRecording = recorder.status === 'recording'
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_320px]">
+      <div className="space-y-6">
+        {errorAlert}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              Segment {segments.indexOf(segment) + 1} of {segments.length}
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                {formatTime(segment.start)} – {formatTime(segment.end)}
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ReferenceClip loop={data.loop} segment={segment} />
+
+            <p className="text-lg text-gray-900">{segment.text}</p>
+
+            <div className="flex items-center gap-3">
+              {isRecording ? (
+                <Button onClick={recorder.stop} variant="destructive">
+                  <Square className="mr-2 h-4 w-4" />
+                  Stop ({formatTime(recorder.elapsedSeconds)})
+                </Button>
+              ) : (
+                <Button
+                  onClick={recorder.start}
+                  disabled={submitTake.isPending || recorder.status === 'unsupported'}
+                >
+                  {submitTake.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Mic className="mr-2 h-4 w-4" />
+                  )}
+                  {submitTake.isPending ? 'Scoring…' : 'Record'}
+                </Button>
+              )}
+              <span className="text-sm text-gray-500">
+                {recorder.status === 'unsupported'
+                  ? 'Recording is not supported in this browser.'
+                  : recorder.status === 'denied'
+                    ? 'Allow microphone access to record.'
+                    : `Listen, then repeat the segment. Up to ${formatTime(MAX_RECORDING_SECONDS)}.`}
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+
+        {attempts.length > 0 && (
+          <div className="space-y-3">
+            <h3 className="font-semibold text-gray-900">Your takes</h3>
+            {attempts.map(attempt => (
+              <AttemptResult
+                key={attempt.id}
+                attempt={attempt}
+                onDelete={() => handleDelete(attempt.id)}
+                isDeleting={deleteTake.isPending}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Card className="h-fit">
+        <CardHeader>
+          <CardTitle className="text-base">Segments</CardTitle>
+        </CardHeader>
+        <CardContent className="max-h-[32rem] space-y-1 overflow-y-auto">
+          {segments.map((item, position) => {
+            const best = bestScores.get(item.index)
+            return (
+              <button
+                key={item.index}
+                type="button"
+                onClick={() => setSelectedIndex(item.index)}
+                disabled={isRecording}
+                className={`flex w-full items-start gap-2 rounded-lg px-3 py-2 text-left text-sm transition-colors disabled:opacity-50 ${
+                  item.index === segment.index ? 'bg-indigo-50 text-indigo-900' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span className="w-5 shrink-0 text-gray-400">{position + 1}</span>
+                <span className="line-clamp-2 flex-1">{item.text}</span>
+                {best !== undefined && <Badge className={scoreColor(best)}>{best}%</Badge>}
+              </button>
+            )
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
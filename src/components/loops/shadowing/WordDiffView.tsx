@@ -0,0 +1,40 @@
+'use client'
+
+import type { WordDiff } from '@/lib/utils/text-diff'
+
+const WORD_STYLES: Record<WordDiff['type'], string> = {
+  match: 'bg-green-50 text-green-800',
+  missing: 'bg-red-50 text-red-700 line-through',
+  substituted: 'bg-amber-50 text-amber-800',
+  extra: 'bg-gray-100 italic text-gray-500'
+}
+
+const WORD_TITLES: Record<WordDiff['type'], string> = {
+  match: 'Matched',
+  missing: 'Skipped',
+  substituted: 'Heard a different word',
+  extra: 'Extra word'
+}
+
+export function WordDiffView({ words }: { words: WordDiff[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="flex flex-wrap gap-1 leading-relaxed">
+        {words.map((word, index) => (
+          <span key={index} title={WORD_TITLES[word.type]} className={`rounded px-1 py-0.5 text-sm ${WORD_STYLES[word.type]}`}>
+            {word.type === 'extra' ? `+${word.spoken}` : word.expected}
+            {word.type === 'substituted' && <span className="ml-1 text-xs text-amber-600">(heard “{word.spoken}”)</span>}
+          </span>
+        ))}
+      </p>
+      <div className="flex flex-wrap gap-3 text-xs text-gray-500">
+        {(Object.keys(WORD_TITLES) as WordDiff['type'][]).map(type => (
+          <span key={type} className="flex items-center gap-1">
+            <span className={`h-3 w-3 rounded ${WORD_STYLES[type].split(' ')[0]}`} />
+            {WORD_TITLES[type]}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
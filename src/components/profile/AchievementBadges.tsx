@@ -0,0 +1,88 @@
+'use client'
+
+import { Award, BookOpen, Flame, Lock, Star, Trophy } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useAchievements } from '@/hooks/profile/useAchievements'
+
+// Catalog entries name their icon so the server stays free of UI imports
+const ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  Star,
+  Flame,
+  BookOpen,
+  Trophy
+}
+
+const RARITY_STYLES: Record<string, string> = {
+  common: 'from-green-500 to-emerald-600',
+  rare: 'from-blue-500 to-indigo-600',
+  epic: 'from-purple-500 to-pink-600'
+}
+
+export function AchievementBadges() {
+  const { data, isLoading, error } = useAchievements()
+
+  const earned = new Map((data?.achievements || []).map(achievement => [achievement.achievement_id, achievement]))
+
+  return (
+    <Card className="border-white/20 bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-to-br from-yellow-500 to-orange-600">
+            <Award className="h-5 w-5 text-white" />
+          </div>
+          Achievements
+          {data && (
+            <Badge variant="secondary" className="ml-auto">
+              {earned.size} / {data.catalog.length}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-20 animate-pulse rounded-xl bg-gray-100" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error.message}</p>
+        ) : (
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {data?.catalog.map(achievement => {
+              const unlocked = earned.get(achievement.id)
+              const Icon = ICONS[achievement.icon] || Award
+
+              return (
+                <div
+                  key={achievement.id}
+                  className={`flex items-center gap-3 rounded-xl p-3 ${
+                    unlocked ? 'bg-yellow-50/70' : 'bg-gray-50 opacity-60'
+                  }`}
+                >
+                  <div
+                    className={`flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-gradient-to-br ${
+                      unlocked ? RARITY_STYLES[achievement.rarity] : 'from-gray-300 to-gray-400'
+                    }`}
+                  >
+                    {unlocked ? <Icon className="h-5 w-5 text-white" /> : <Lock className="h-5 w-5 text-white" />}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-800">{achievement.name}</p>
+                    <p className="text-xs text-gray-500">{achievement.description}</p>
+                    {unlocked?.unlocked_at && (
+                      <p className="text-xs text-yellow-700">
+                        Earned {new Date(unlocked.unlocked_at).toLocaleDateString()}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,131 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2, Mail, Save } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Switch } from '@/components/ui/switch'
+import { useNotificationPreferences } from '@/hooks/profile/useNotificationPreferences'
+import type { NotificationPreferences } from '@/lib/services/email/types'
+
+const CATEGORIES: { key: Exclude<keyof NotificationPreferences, 'email'>; label: string; description: string }[] = [
+  {
+    key: 'groupInvitations',
+    label: 'Group invitations',
+    description: 'When someone invites you to a study group'
+  },
+  {
+    key: 'sessionScheduled',
+    label: 'Scheduled sessions',
+    description: 'When a quiz session is scheduled in one of your groups'
+  },
+  {
+    key: 'sessionStarted',
+    label: 'New sessions',
+    description: 'When a quiz session is available to join right away'
+  },
+  {
+    key: 'joinRequestDecisions',
+    label: 'Join requests',
+    description: 'When a group approves or declines your request to join'
+  }
+]
+
+export function NotificationPreferencesForm() {
+  const { preferences, isLoading, isSaving, error, savePreferences } = useNotificationPreferences()
+  const [draft, setDraft] = useState<NotificationPreferences>(preferences)
+  const [success, setSuccess] = useState(false)
+
+  useEffect(() => {
+    setDraft(preferences)
+  }, [preferences])
+
+  const hasChanges = (Object.keys(draft) as (keyof NotificationPreferences)[]).some(
+    key => draft[key] !== preferences[key]
+  )
+
+  const handleSave = async () => {
+    const saved = await savePreferences(draft)
+    if (saved) {
+      setSuccess(true)
+      setTimeout(() => setSuccess(false), 3000)
+    }
+  }
+
+  return (
+    <Card className="border-white/20 bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-to-br from-sky-500 to-blue-600">
+            <Mail className="h-5 w-5 text-white" />
+          </div>
+          Email Notifications
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-700">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {success && (
+          <Alert className="border-green-200 bg-green-50">
+            <AlertDescription className="text-green-700">Notification preferences saved.</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium text-gray-900">Send me emails</p>
+            <p className="text-xs text-gray-500">
+              In-app notifications are always shown, whatever you choose here.
+            </p>
+          </div>
+          <Switch
+            checked={draft.email}
+            onCheckedChange={checked => setDraft(prev => ({ ...prev, email: checked }))}
+            disabled={isLoading || isSaving}
+          />
+        </div>
+
+        <div className="space-y-4 border-t pt-4">
+          {CATEGORIES.map(category => (
+            <div key={category.key} className="flex items-center justify-between gap-4">
+              <div>
+                <p className={`text-sm font-medium ${draft.email ? 'text-gray-900' : 'text-gray-400'}`}>
+                  {category.label}
+                </p>
+                <p className="text-xs text-gray-500">{category.description}</p>
+              </div>
+              <Switch
+                checked={draft[category.key]}
+                onCheckedChange={checked => setDraft(prev => ({ ...prev, [category.key]: checked }))}
+                disabled={isLoading || isSaving || !draft.email}
+              />
+            </div>
+          ))}
+        </div>
+
+        <Button
+          onClick={handleSave}
+          className="w-full bg-gradient-to-r from-sky-600 to-blue-600 hover:from-sky-700 hover:to-blue-700"
+          disabled={isLoading || isSaving || !hasChanges}
+        >
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <Save className="mr-2 h-4 w-4" />
+              Save Notification Settings
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,107 @@
+'use client'
+
+import { Gauge } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { usePlanUsage } from '@/hooks/profile/usePlanUsage'
+import { ALL_USAGE_FEATURES, USAGE_FEATURES } from '@/lib/services/usage-service'
+
+const formatLimit = (limit: number | null) => (limit === null ? 'Unlimited' : limit.toLocaleString())
+
+export function PlanUsage() {
+  const { data, isLoading, error } = usePlanUsage()
+
+  return (
+    <Card className="border-white/20 bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-to-br from-sky-500 to-indigo-600">
+            <Gauge className="h-5 w-5 text-white" />
+          </div>
+          Plan & Usage
+          {data && (
+            <Badge variant="secondary" className="ml-auto">
+              {data.usage.plan.name}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-10 animate-pulse rounded-xl bg-gray-100" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error.message}</p>
+        ) : data ? (
+          <div className="space-y-6">
+            <div className="space-y-4">
+              {data.usage.features.map(usage => {
+                const percent = usage.limit ? Math.min((usage.used / usage.limit) * 100, 100) : 0
+                const isExhausted = usage.remaining === 0
+
+                return (
+                  <div key={usage.feature}>
+                    <div className="mb-1 flex items-baseline justify-between text-sm">
+                      <span className="font-medium text-gray-700">{usage.label}</span>
+                      <span className={isExhausted ? 'font-semibold text-red-600' : 'text-gray-500'}>
+                        {usage.used.toLocaleString()} / {formatLimit(usage.limit)}
+                      </span>
+                    </div>
+                    {usage.limit !== null && (
+                      <Progress value={percent} className={isExhausted ? '[&>*]:bg-red-500' : ''} />
+                    )}
+                    {usage.feature in data.usage.overrides && (
+                      <p className="mt-1 text-xs text-indigo-600">Custom limit set by an administrator</p>
+                    )}
+                  </div>
+                )
+              })}
+              <p className="text-xs text-gray-500">
+                Usage resets on {new Date(data.usage.resetsAt).toLocaleDateString()}.
+              </p>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Monthly limits</th>
+                    {data.plans.map(plan => (
+                      <th
+                        key={plan.id}
+                        className={`py-2 pr-4 font-medium ${plan.id === data.usage.plan.id ? 'text-indigo-700' : ''}`}
+                      >
+                        {plan.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {ALL_USAGE_FEATURES.map(feature => (
+                    <tr key={feature}>
+                      <td className="py-2 pr-4 text-gray-700">{USAGE_FEATURES[feature].label}</td>
+                      {data.plans.map(plan => (
+                        <td
+                          key={plan.id}
+                          className={`py-2 pr-4 ${
+                            plan.id === data.usage.plan.id ? 'font-semibold text-indigo-700' : 'text-gray-600'
+                          }`}
+                        >
+                          {formatLimit(plan.limits[feature])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Brain, Loader2, Save } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { Slider } from '@/components/ui/slider'
+import { useSrsSettings } from '@/hooks/profile/useSrsSettings'
+import {
+  MAX_DESIRED_RETENTION,
+  MIN_DESIRED_RETENTION,
+  type SchedulerAlgorithm
+} from '@/lib/services/srs'
+
+export function SrsSettingsForm() {
+  const { settings, isLoading, isSaving, error, saveSettings } = useSrsSettings()
+  const [algorithm, setAlgorithm] = useState<SchedulerAlgorithm>(settings.algorithm)
+  const [retention, setRetention] = useState(settings.desiredRetention)
+  const [success, setSuccess] = useState(false)
+
+  useEffect(() => {
+    setAlgorithm(settings.algorithm)
+    setRetention(settings.desiredRetention)
+  }, [settings])
+
+  const hasChanges =
+    algorithm !== settings.algorithm || retention !== settings.desiredRetention
+
+  const handleSave = async () => {
+    const saved = await saveSettings({ algorithm, desiredRetention: retention })
+    if (saved) {
+      setSuccess(true)
+      setTimeout(() => setSuccess(false), 3000)
+    }
+  }
+
+  return (
+    <Card className="border-white/20 bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-to-br from-emerald-500 to-teal-600">
+            <Brain className="h-5 w-5 text-white" />
+          </div>
+          Vocabulary Review Scheduling
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-700">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {success && (
+          <Alert className="border-green-200 bg-green-50">
+            <AlertDescription className="text-green-700">
+              Review settings saved. Your deck has been rescheduled.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div>
+          <label className="mb-2 block text-sm font-medium text-gray-700">Algorithm</label>
+          <Select
+            value={algorithm}
+            onValueChange={value => setAlgorithm(value as SchedulerAlgorithm)}
+            disabled={isLoading || isSaving}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="sm2">SM-2 (classic)</SelectItem>
+              <SelectItem value="fsrs">FSRS (adaptive memory model)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <div className="mb-2 flex items-center justify-between">
+            <label className="text-sm font-medium text-gray-700">Desired retention</label>
+            <span className="text-sm font-semibold text-gray-900">
+              {Math.round(retention * 100)}%
+            </span>
+          </div>
+          <Slider
+            min={MIN_DESIRED_RETENTION}
+            max={MAX_DESIRED_RETENTION}
+            step={0.01}
+            value={[retention]}
+            onValueChange={([value]) => setRetention(Number(value.toFixed(2)))}
+            disabled={isLoading || isSaving}
+          />
+          <p className="mt-2 text-xs text-gray-500">
+            Higher retention means more frequent reviews. Changing these settings replays your
+            review history to reschedule every card.
+          </p>
+        </div>
+
+        <Button
+          onClick={handleSave}
+          className="w-full bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700"
+          disabled={isLoading || isSaving || !hasChanges}
+        >
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Rescheduling...
+            </>
+          ) : (
+            <>
+              <Save className="mr-2 h-4 w-4" />
+              Save Review Settings
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
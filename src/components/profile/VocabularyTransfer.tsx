@@ -0,0 +1,291 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { ArrowLeftRight, Download, Loader2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Checkbox } from '@/components/ui/checkbox'
+import { useVocabularyTransfer } from '@/hooks/profile/useVocabularyTransfer'
+import type { ImportSummary } from '@/lib/services/vocabulary-transfer-service'
+import {
+  applyMapping,
+  CONTENT_FIELDS,
+  guessMapping,
+  parseImportFile,
+  SRS_FIELDS,
+  type ExportFormat,
+  type FieldMapping,
+  type ImportField,
+  type ParsedFile
+} from '@/lib/utils/vocabulary-transfer'
+
+const EXPORTS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'anki', label: 'Anki' }
+]
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  text: 'Word / phrase',
+  definition: 'Definition',
+  definition_vi: 'Vietnamese definition',
+  pronunciation: 'Pronunciation (IPA)',
+  part_of_speech: 'Part of speech',
+  example: 'Example',
+  context: 'Context sentence',
+  synonyms: 'Synonyms',
+  antonyms: 'Antonyms',
+  difficulty: 'Difficulty',
+  item_type: 'Item type',
+  learning_status: 'SRS: status',
+  ease_factor: 'SRS: ease factor',
+  interval_days: 'SRS: interval (days)',
+  repetitions: 'SRS: repetitions',
+  lapses: 'SRS: lapses',
+  stability: 'SRS: stability',
+  fsrs_difficulty: 'SRS: FSRS difficulty',
+  next_review_date: 'SRS: next review',
+  last_practiced_at: 'SRS: last practiced'
+}
+
+export function VocabularyTransfer() {
+  const { exportDeck, exportingFormat, importCards, isImporting, error } = useVocabularyTransfer()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState('')
+  const [parsed, setParsed] = useState<ParsedFile | null>(null)
+  const [mapping, setMapping] = useState<FieldMapping>({})
+  const [preserveSrs, setPreserveSrs] = useState(false)
+  const [onDuplicate, setOnDuplicate] = useState<'skip' | 'update'>('skip')
+  const [preview, setPreview] = useState<ImportSummary | null>(null)
+  const [result, setResult] = useState<ImportSummary | null>(null)
+  const [fileError, setFileError] = useState('')
+
+  const cards = useMemo(() => (parsed ? applyMapping(parsed, mapping) : []), [parsed, mapping])
+  const mappedFields = Object.values(mapping).filter(Boolean) as ImportField[]
+  const hasSrsColumns = mappedFields.some(field => (SRS_FIELDS as readonly string[]).includes(field))
+  const columnCount = Object.keys(mapping).length
+
+  const resetImport = () => {
+    setParsed(null)
+    setMapping({})
+    setPreview(null)
+    setFileName('')
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const handleFile = async (file: File) => {
+    setFileError('')
+    setResult(null)
+    setPreview(null)
+
+    const next = parseImportFile(await file.text())
+    if (next.rows.length === 0) {
+      setFileError('No cards found in this file')
+      return
+    }
+
+    const guessed = guessMapping(next)
+    setFileName(file.name)
+    setParsed(next)
+    setMapping(guessed)
+    setPreserveSrs(Object.values(guessed).some(field => (SRS_FIELDS as readonly string[]).includes(field)))
+  }
+
+  const updateMapping = (index: number, field: ImportField | '') => {
+    setPreview(null)
+    setMapping(prev => {
+      const next = { ...prev }
+      // A field can only come from one column
+      for (const key of Object.keys(next)) {
+        if (field && next[Number(key)] === field) next[Number(key)] = ''
+      }
+      next[index] = field
+      return next
+    })
+  }
+
+  const runImport = async (dryRun: boolean) => {
+    const summary = await importCards(cards, { preserveSrs: preserveSrs && hasSrsColumns, onDuplicate, dryRun })
+    if (!summary) return
+
+    if (dryRun) {
+      setPreview(summary)
+    } else {
+      setResult(summary)
+      resetImport()
+    }
+  }
+
+  return (
+    <Card className="border-white/20 bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-to-br from-sky-500 to-blue-600">
+            <ArrowLeftRight className="h-5 w-5 text-white" />
+          </div>
+          Vocabulary Import &amp; Export
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {(error || fileError) && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-700">{error || fileError}</AlertDescription>
+          </Alert>
+        )}
+
+        {result && (
+          <Alert className="border-green-200 bg-green-50">
+            <AlertDescription className="text-green-700">
+              Imported {result.imported} new {result.imported === 1 ? 'card' : 'cards'}
+              {result.updated > 0 && `, updated ${result.updated}`}
+              {result.skipped > 0 && `, skipped ${result.skipped} duplicates`}.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div>
+          <h3 className="mb-1 text-sm font-medium text-gray-700">Export your deck</h3>
+          <p className="mb-3 text-sm text-gray-500">
+            CSV and JSON include every field and your review schedule. The Anki file imports straight into Anki as
+            Basic cards with the context sentence and source video timestamp on the back.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {EXPORTS.map(({ format, label }) => (
+              <Button
+                key={format}
+                variant="outline"
+                onClick={() => exportDeck(format)}
+                disabled={exportingFormat !== null}
+              >
+                {exportingFormat === format ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="mr-2 h-4 w-4" />
+                )}
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="mb-1 text-sm font-medium text-gray-700">Import cards</h3>
+          <p className="mb-3 text-sm text-gray-500">
+            Upload a CSV file or an Anki &quot;Notes in Plain Text&quot; export, then choose which column holds each field.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,.tsv,text/csv,text/plain"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0]
+              if (file) handleFile(file)
+            }}
+          />
+          {!parsed && (
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Choose file
+            </Button>
+          )}
+        </div>
+
+        {parsed && (
+          <div className="space-y-4 rounded-xl border border-gray-200 p-4">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-800">{fileName}</span>
+              <span className="text-gray-500">
+                {parsed.rows.length} rows • {cards.length} with a word
+              </span>
+            </div>
+
+            <div className="space-y-2">
+              {Array.from({ length: columnCount }, (_, index) => (
+                <div key={index} className="grid grid-cols-1 items-center gap-2 sm:grid-cols-2">
+                  <div className="min-w-0 text-sm">
+                    <span className="font-medium text-gray-700">{parsed.headers?.[index] || `Column ${index + 1}`}</span>
+                    <span className="ml-2 truncate text-gray-400">{parsed.rows[0]?.[index]?.slice(0, 40)}</span>
+                  </div>
+                  <select
+                    value={mapping[index] || ''}
+                    onChange={e => updateMapping(index, e.target.value as ImportField | '')}
+                    className="rounded-lg border border-gray-200 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">Ignore</option>
+                    {[...CONTENT_FIELDS, ...SRS_FIELDS].map(field => (
+                      <option key={field} value={field}>
+                        {FIELD_LABELS[field]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-3 border-t border-gray-100 pt-4">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <Checkbox
+                  checked={preserveSrs && hasSrsColumns}
+                  disabled={!hasSrsColumns}
+                  onCheckedChange={checked => {
+                    setPreserveSrs(checked === true)
+                    setPreview(null)
+                  }}
+                />
+                Keep review schedule from the file
+                {!hasSrsColumns && <span className="text-gray-400">(no SRS columns mapped)</span>}
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                Words already in my deck:
+                <select
+                  value={onDuplicate}
+                  onChange={e => {
+                    setOnDuplicate(e.target.value as 'skip' | 'update')
+                    setPreview(null)
+                  }}
+                  className="rounded-lg border border-gray-200 px-2 py-1 text-sm"
+                >
+                  <option value="skip">Skip</option>
+                  <option value="update">Update with the file&apos;s details</option>
+                </select>
+              </label>
+            </div>
+
+            {preview && (
+              <div className="rounded-lg bg-indigo-50/50 p-3 text-sm text-gray-700">
+                {preview.imported} new {preview.imported === 1 ? 'card' : 'cards'}
+                {onDuplicate === 'update' ? `, ${preview.updated} to update` : ''}
+                {preview.skipped > 0 && `, ${preview.skipped} skipped`}.
+                {preview.duplicates.length > 0 && (
+                  <p className="mt-1 text-gray-500">
+                    Already in your deck: {preview.duplicates.slice(0, 10).join(', ')}
+                    {preview.duplicates.length > 10 && '…'}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={resetImport} disabled={isImporting}>
+                Cancel
+              </Button>
+              {preview ? (
+                <Button onClick={() => runImport(false)} disabled={isImporting || preview.imported + preview.updated === 0}>
+                  {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Import {preview.imported + preview.updated} cards
+                </Button>
+              ) : (
+                <Button onClick={() => runImport(true)} disabled={isImporting || cards.length === 0}>
+                  {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Check for duplicates
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,4 +1,4 @@
-import { Frown, LucideIcon, Meh, Smile, Star, Clock, Sparkles } from 'lucide-react'
+import { Frown, LucideIcon, Meh, Smile, Star, Clock, Sparkles, TrendingUp } from 'lucide-react'
 import { Badge } from '../ui/badge'
 import { Card, CardContent } from '../ui/card'
 
@@ -17,6 +17,8 @@ interface QuestionPreset {
   estimatedTime?: string
   difficulty?: string
   badge?: string
+  // Questions are picked one at a time to match the learner, so there is no fixed distribution
+  adaptive?: boolean
 }
 
 interface PresetSelectorProps {
@@ -121,7 +123,13 @@ export function PresetSelector({ presets, onPresetSelect }: PresetSelectorProps)
                       <p className="text-sm text-gray-600 leading-relaxed">{preset.description}</p>
                     </div>
 
-                    {/* Progress bars for difficulty distribution */}
+                    {preset.adaptive ? (
+                      <div className="flex items-start gap-2 rounded-xl bg-gray-50 p-3 text-sm text-gray-600">
+                        <TrendingUp className={`mt-0.5 h-4 w-4 flex-shrink-0 ${colorClasses.text}`} />
+                        Starts at medium and moves up or down after every answer
+                      </div>
+                    ) : (
+                    /* Progress bars for difficulty distribution */
                     <div className="space-y-3">
                       <div className="flex items-center justify-between">
                         <span className="flex items-center text-sm font-medium text-emerald-600">
@@ -165,6 +173,7 @@ export function PresetSelector({ presets, onPresetSelect }: PresetSelectorProps)
                         ></div>
                       </div>
                     </div>
+                    )}
 
                     {/* Call to action */}
                     <div className="mt-6 pt-4 border-t border-gray-200">
@@ -1,13 +1,26 @@
-import { useEffect, useRef } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import { ArrowDown, ArrowUp } from 'lucide-react'
 import { useWordSelection } from '../../lib/hooks/use-word-selection'
+import {
+  CLOZE_ANSWER_SEPARATOR,
+  countClozeBlanks,
+  getQuestionKind,
+  optionLetter as toOptionLetter,
+  splitClozeAnswer
+} from '../../lib/utils/question-grading'
 import { Card, CardContent } from '../ui/card'
 import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
 
 interface Question {
   id: string
   question: string
   options: string[]
   correctAnswer: string
+  // Missing on questions generated before other kinds existed (multiple choice)
+  kind?: string
+  acceptedAnswers?: string[]
   difficulty: 'easy' | 'medium' | 'hard'
   type: string
   explanation?: string
@@ -44,6 +57,8 @@ export function QuestionCard({
   enableWordSelection = true
 }: QuestionCardProps) {
   const selectedAnswer = responses.find(r => r.questionIndex === questionIndex)?.answer
+  const kind = getQuestionKind(question)
+  const isLettered = kind === 'multiple_choice' || kind === 'true_false_not_given'
   const questionRef = useRef<HTMLDivElement>(null)
   const optionsRef = useRef<HTMLDivElement>(null)
   const { enableSelection, disableSelection } = useWordSelection()
@@ -142,7 +157,33 @@ export function QuestionCard({
         ref={optionsRef}
         className="mb-8 space-y-4"
       >
-        {question.options.map((option, index) => {
+        {kind === 'ordering' && (
+          <OrderingAnswer
+            options={question.options}
+            answer={selectedAnswer}
+            disabled={showResults}
+            onChange={answer => onAnswerSelect(questionIndex, answer)}
+          />
+        )}
+        {kind === 'cloze' && (
+          <ClozeAnswer
+            key={question.id}
+            blanks={Math.max(countClozeBlanks(question.question), 1)}
+            answer={selectedAnswer}
+            disabled={showResults}
+            onChange={answer => onAnswerSelect(questionIndex, answer)}
+          />
+        )}
+        {kind === 'short_answer' && (
+          <Input
+            value={selectedAnswer || ''}
+            placeholder="Type your answer"
+            disabled={showResults}
+            className="h-14 rounded-2xl border-2 px-5 text-lg"
+            onChange={event => onAnswerSelect(questionIndex, event.target.value)}
+          />
+        )}
+        {isLettered && question.options.map((option, index) => {
           const optionLetter = String.fromCharCode(65 + index) // A, B, C, D
           const isSelected = selectedAnswer === optionLetter
 
@@ -208,6 +249,21 @@ export function QuestionCard({
             </span>
           </div>
 
+          {!isLettered && (
+            <div className="mb-3 space-y-1 text-sm">
+              <p className="text-gray-700">
+                <span className="font-medium">Your answer:</span>{' '}
+                {evaluationResult.userAnswer || '—'}
+              </p>
+              {!evaluationResult.isCorrect && (
+                <p className="text-green-800">
+                  <span className="font-medium">Correct answer:</span>{' '}
+                  {evaluationResult.correctAnswer}
+                </p>
+              )}
+            </div>
+          )}
+
           {evaluationResult.explanation && (
             <div className="rounded-lg border border-blue-200 bg-blue-50 p-4">
               <h4 className="mb-2 text-sm font-medium text-blue-900">Explanation</h4>
@@ -221,4 +277,98 @@ export function QuestionCard({
   )
 }
 
+interface AnswerInputProps {
+  answer?: string
+  disabled: boolean
+  onChange: (answer: string) => void
+}
+
+// Answer is the option letters in the learner's chosen order, e.g. "CADB"
+function OrderingAnswer({ options, answer, disabled, onChange }: AnswerInputProps & { options: string[] }) {
+  const order =
+    answer && answer.length === options.length
+      ? answer.split('')
+      : options.map((_, index) => toOptionLetter(index))
+
+  const move = (from: number, to: number) => {
+    const next = [...order]
+    ;[next[from], next[to]] = [next[to], next[from]]
+    onChange(next.join(''))
+  }
+
+  return (
+    <ol className="space-y-3">
+      {order.map((letter, position) => (
+        <li
+          key={letter}
+          className="flex items-center gap-4 rounded-2xl border-2 border-gray-200 bg-white p-4"
+        >
+          <span className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-2xl bg-gradient-to-br from-gray-100 via-gray-200 to-gray-300 font-bold text-gray-700">
+            {position + 1}
+          </span>
+          <span className="flex-1 text-lg leading-relaxed text-gray-800">
+            {options[letter.charCodeAt(0) - 65]}
+          </span>
+          <div className="flex flex-col gap-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={disabled || position === 0}
+              onClick={() => move(position, position - 1)}
+              aria-label="Move up"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={disabled || position === order.length - 1}
+              onClick={() => move(position, position + 1)}
+              aria-label="Move down"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+// Answer is one entry per blank joined with " | "
+function ClozeAnswer({ blanks, answer, disabled, onChange }: AnswerInputProps & { blanks: number }) {
+  // Keep raw input locally so spaces typed between words are not trimmed away
+  const [parts, setParts] = useState<string[]>(() => {
+    const saved = answer ? splitClozeAnswer(answer) : []
+    return Array.from({ length: blanks }, (_, index) => saved[index] || '')
+  })
+
+  const update = (index: number, value: string) => {
+    const next = parts.map((part, i) => (i === index ? value.replace(/\|/g, '') : part))
+    setParts(next)
+    onChange(next.map(part => part.trim()).join(CLOZE_ANSWER_SEPARATOR))
+  }
+
+  return (
+    <div className="space-y-3">
+      {parts.map((part, index) => (
+        <div key={index} className="flex items-center gap-4">
+          <span className="w-20 flex-shrink-0 text-sm font-medium text-gray-600">
+            Blank {index + 1}
+          </span>
+          <Input
+            value={part}
+            disabled={disabled}
+            placeholder="Type what you hear"
+            className="h-12 rounded-2xl border-2 px-4 text-lg"
+            onChange={event => update(index, event.target.value)}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
+
 export type { Question, QuestionResponse }
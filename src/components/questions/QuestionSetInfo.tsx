@@ -27,6 +27,8 @@ interface QuestionSet {
   questions: any[]
   vocabulary?: VocabularyItem[]
   transcript?: string
+  // The loop a group session's questions were generated from
+  loopId?: string | null
   metadata: {
     totalQuestions: number
     createdAt: string
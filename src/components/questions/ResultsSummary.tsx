@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect } from 'react'
+import { ReactNode, useEffect } from 'react'
 import { useWordSelection } from '../../lib/hooks/use-word-selection'
 import { 
   Trophy, 
@@ -39,9 +39,11 @@ interface ResultsSummaryProps {
   onRestart: () => void
   videoTitle?: string
   videoUrl?: string
+  // Extra summary shown between the header and the score, e.g. an adaptive level estimate
+  children?: ReactNode
 }
 
-export function ResultsSummary({ results, onRestart, videoTitle, videoUrl }: ResultsSummaryProps) {
+export function ResultsSummary({ results, onRestart, videoTitle, videoUrl, children }: ResultsSummaryProps) {
   const { enableSelection, disableSelection } = useWordSelection()
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'from-green-500 to-emerald-600'
@@ -144,6 +146,8 @@ export function ResultsSummary({ results, onRestart, videoTitle, videoUrl }: Res
           )}
         </div>
 
+        {children && <div className="mb-12">{children}</div>}
+
         {/* Enhanced Score Summary */}
         <div className="mb-12">
           <div className="relative">
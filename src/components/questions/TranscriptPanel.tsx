@@ -1,11 +1,17 @@
 import { useState, useEffect, useRef } from 'react'
 import { useWordSelection } from '../../lib/hooks/use-word-selection'
+import { getVideoLink } from '../../lib/utils/timeframe'
+import { TranscriptSummaryPanel } from './TranscriptSummaryPanel'
 
 interface TranscriptPanelProps {
   transcript: string
   videoTitle: string
+  // YouTube or direct media URL; links the time range to the source
+  videoUrl?: string
   startTime?: number
   endTime?: number
+  // Shows the loop's summary and key points above the transcript
+  loopId?: string | null
   isOpen: boolean
   onToggle: () => void
   enableWordSelection?: boolean
@@ -14,8 +20,10 @@ interface TranscriptPanelProps {
 export function TranscriptPanel({ 
   transcript, 
   videoTitle, 
+  videoUrl,
   startTime, 
   endTime, 
+  loopId,
   isOpen, 
   onToggle,
   enableWordSelection = true
@@ -37,6 +45,8 @@ export function TranscriptPanel({
 
   if (!transcript) return null
 
+  const sourceLink = getVideoLink(videoUrl, startTime)
+
   const formatTime = (timeInSeconds: number): string => {
     const minutes = Math.floor(timeInSeconds / 60)
     const seconds = Math.round(timeInSeconds % 60)
@@ -111,9 +121,20 @@ export function TranscriptPanel({
                   clipRule="evenodd"
                 />
               </svg>
-              <span>
-                {formatTime(startTime)} - {formatTime(endTime)}
-              </span>
+              {sourceLink ? (
+                <a
+                  href={sourceLink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline"
+                >
+                  {formatTime(startTime)} - {formatTime(endTime)}
+                </a>
+              ) : (
+                <span>
+                  {formatTime(startTime)} - {formatTime(endTime)}
+                </span>
+              )}
             </div>
           )}
 
@@ -142,6 +163,8 @@ export function TranscriptPanel({
         {/* Transcript Content */}
         <div className="h-full overflow-y-auto pb-24">
           <div className="p-4">
+            {loopId && <TranscriptSummaryPanel loopId={loopId} className="mb-4" />}
+
             {enableWordSelection && (
               <div className="mb-4 text-xs text-green-600 bg-green-50 p-2 rounded-lg">
                 💡 Select any word to add to your personal vocabulary
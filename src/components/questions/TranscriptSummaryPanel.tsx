@@ -0,0 +1,254 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, Loader2, Pencil, RefreshCw, Sparkles } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  useGenerateTranscriptSummary,
+  useTranscriptSummary,
+  useUpdateTranscriptSummary
+} from '@/hooks/useTranscriptSummary'
+import {
+  CEFR_LEVELS,
+  type CefrLevel,
+  type TranscriptSummary,
+  type TranscriptSummaryInput
+} from '@/lib/services/transcript-summary-service'
+
+interface TranscriptSummaryPanelProps {
+  loopId: string
+  defaultOpen?: boolean
+  className?: string
+}
+
+// List fields are edited as one item per line
+const toLines = (items: string[]) => items.join('\n')
+const fromLines = (text: string) =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+
+function SummaryList({ title, items }: { title: string; items: string[] }) {
+  if (items.length === 0) return null
+
+  return (
+    <div>
+      <h4 className="mb-1 text-sm font-semibold text-gray-900">{title}</h4>
+      <ul className="list-disc space-y-1 pl-5 text-sm text-gray-700">
+        {items.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function SummaryEditor({
+  summary,
+  isSaving,
+  onSave,
+  onCancel
+}: {
+  summary: TranscriptSummary
+  isSaving: boolean
+  onSave: (input: TranscriptSummaryInput) => void
+  onCancel: () => void
+}) {
+  const [mainPoints, setMainPoints] = useState(toLines(summary.mainPoints))
+  const [keyInsights, setKeyInsights] = useState(toLines(summary.keyInsights))
+  const [focusAreas, setFocusAreas] = useState(toLines(summary.recommendedFocusAreas))
+  const [difficulty, setDifficulty] = useState(summary.difficultyAssessment)
+  const [level, setLevel] = useState<CefrLevel | 'none'>(summary.level || 'none')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSave({
+      mainPoints: fromLines(mainPoints),
+      keyInsights: fromLines(keyInsights),
+      recommendedFocusAreas: fromLines(focusAreas),
+      difficultyAssessment: difficulty.trim(),
+      level: level === 'none' ? null : level
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-xs text-gray-500">One item per line.</p>
+      <div className="space-y-1">
+        <Label htmlFor="summary-main-points">Main points</Label>
+        <Textarea id="summary-main-points" rows={4} value={mainPoints} onChange={e => setMainPoints(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="summary-key-insights">Key insights</Label>
+        <Textarea id="summary-key-insights" rows={3} value={keyInsights} onChange={e => setKeyInsights(e.target.value)} />
+      </div>
+      <div className="grid gap-3 sm:grid-cols-[120px_minmax(0,1fr)]">
+        <div className="space-y-1">
+          <Label>Level</Label>
+          <Select value={level} onValueChange={value => setLevel(value as CefrLevel | 'none')}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Not set</SelectItem>
+              {CEFR_LEVELS.map(option => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="summary-difficulty">Difficulty</Label>
+          <Input id="summary-difficulty" value={difficulty} onChange={e => setDifficulty(e.target.value)} />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="summary-focus-areas">Focus areas</Label>
+        <Textarea id="summary-focus-areas" rows={3} value={focusAreas} onChange={e => setFocusAreas(e.target.value)} />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={isSaving || fromLines(mainPoints).length === 0}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save summary
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+/**
+ * Pre-listening overview of a loop. Generated on first request and shared by
+ * everyone practising the loop; the loop owner and group admins can edit it.
+ */
+export function TranscriptSummaryPanel({ loopId, defaultOpen = true, className = '' }: TranscriptSummaryPanelProps) {
+  const { data, isLoading, error: loadError } = useTranscriptSummary(loopId)
+  const generateSummary = useGenerateTranscriptSummary(loopId)
+  const updateSummary = useUpdateTranscriptSummary(loopId)
+  const [isOpen, setIsOpen] = useState(defaultOpen)
+  const [isEditing, setIsEditing] = useState(false)
+  const [error, setError] = useState('')
+
+  const summary = data?.summary
+  const canEdit = !!data?.canEdit
+
+  const handleGenerate = async () => {
+    if (summary && !confirm('Replace the current summary with a newly generated one?')) return
+    setError('')
+    try {
+      await generateSummary.mutateAsync()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate summary')
+    }
+  }
+
+  const handleSave = async (input: TranscriptSummaryInput) => {
+    setError('')
+    try {
+      await updateSummary.mutateAsync(input)
+      setIsEditing(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save summary')
+    }
+  }
+
+  const errorMessage = error || (loadError instanceof Error ? loadError.message : '')
+
+  return (
+    <Collapsible
+      open={isOpen}
+      onOpenChange={setIsOpen}
+      className={`rounded-2xl border border-gray-200 bg-white shadow-sm ${className}`}
+    >
+      <CollapsibleTrigger className="flex w-full items-center justify-between p-4 text-left">
+        <span className="flex items-center gap-2 font-semibold text-gray-900">
+          <Sparkles className="h-4 w-4 text-indigo-500" />
+          Summary &amp; key points
+          {summary?.level && <Badge variant="secondary">{summary.level}</Badge>}
+        </span>
+        <ChevronDown className={`h-4 w-4 text-gray-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="space-y-4 px-4 pb-4">
+        {errorMessage && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-700">{errorMessage}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-indigo-500" />
+          </div>
+        ) : !summary ? (
+          data && (
+            <div className="space-y-3 text-sm text-gray-600">
+              <p>Get an overview of the clip before you listen: what it covers, what to notice and how hard it is.</p>
+              <Button size="sm" onClick={handleGenerate} disabled={generateSummary.isPending}>
+                {generateSummary.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Sparkles className="mr-2 h-4 w-4" />
+                )}
+                {generateSummary.isPending ? 'Summarizing…' : 'Generate summary'}
+              </Button>
+            </div>
+          )
+        ) : isEditing ? (
+          <SummaryEditor
+            summary={summary}
+            isSaving={updateSummary.isPending}
+            onSave={handleSave}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <>
+            <SummaryList title="Main points" items={summary.mainPoints} />
+            <SummaryList title="Key insights" items={summary.keyInsights} />
+            {summary.difficultyAssessment && (
+              <div>
+                <h4 className="mb-1 text-sm font-semibold text-gray-900">Difficulty</h4>
+                <p className="text-sm text-gray-700">{summary.difficultyAssessment}</p>
+              </div>
+            )}
+            <SummaryList title="Focus on" items={summary.recommendedFocusAreas} />
+
+            <div className="flex items-center justify-between gap-2 border-t border-gray-100 pt-3">
+              <span className="text-xs text-gray-400">
+                {summary.source === 'edited' ? 'Edited by the organizer' : 'AI-generated'}
+              </span>
+              {canEdit && (
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={handleGenerate} disabled={generateSummary.isPending}>
+                    {generateSummary.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RefreshCw className="mr-2 h-4 w-4" />
+                    )}
+                    Regenerate
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setIsEditing(true)}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit
+                  </Button>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
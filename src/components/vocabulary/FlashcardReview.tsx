@@ -0,0 +1,252 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Loader2, X } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import {
+  useActiveReviewSession,
+  useAnswerReviewCard,
+  useEndReviewSession,
+  useStartReviewSession
+} from '@/hooks/useReviewSession'
+import type { ReviewSession, StartSessionInput } from '@/lib/services/review-session-service'
+import type { ReviewGrade } from '@/lib/services/srs'
+import { userService } from '@/lib/services/user-service'
+import type { ReviewCardContent, ReviewCardType } from '@/lib/utils/review-cards'
+import { ReviewCardFace } from './ReviewCardFace'
+import { ReviewSessionSummary } from './ReviewSessionSummary'
+import { ReviewSetup } from './ReviewSetup'
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; key: string; className: string }[] = [
+  { grade: 'again', label: 'Again', key: '1', className: 'border-red-200 text-red-700 hover:bg-red-50' },
+  { grade: 'hard', label: 'Hard', key: '2', className: 'border-orange-200 text-orange-700 hover:bg-orange-50' },
+  { grade: 'good', label: 'Good', key: '3', className: 'border-green-200 text-green-700 hover:bg-green-50' },
+  { grade: 'easy', label: 'Easy', key: '4', className: 'border-blue-200 text-blue-700 hover:bg-blue-50' }
+]
+
+interface ReviewStepProps {
+  card: ReviewCardContent
+  type: ReviewCardType
+  isSaving: boolean
+  onGrade: (grade: ReviewGrade, responseTimeMs: number) => void
+}
+
+// One card; remounted for each card so the reveal state and timer start over
+function ReviewStep({ card, type, isSaving, onGrade }: ReviewStepProps) {
+  const [revealed, setRevealed] = useState(false)
+  const shownAt = useRef(Date.now())
+  // Time to recall is measured up to the reveal
+  const revealedAfter = useRef<number | null>(null)
+
+  const reveal = useCallback(() => {
+    if (revealed) return
+    revealedAfter.current = Date.now() - shownAt.current
+    setRevealed(true)
+  }, [revealed])
+
+  const grade = useCallback(
+    (value: ReviewGrade) => {
+      if (!revealed || isSaving) return
+      onGrade(value, revealedAfter.current ?? Date.now() - shownAt.current)
+    },
+    [revealed, isSaving, onGrade]
+  )
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (e.metaKey || e.ctrlKey || e.altKey || target?.closest('input, textarea, select')) return
+
+      if (e.key === ' ' || e.key === 'Enter') {
+        e.preventDefault()
+        reveal()
+        return
+      }
+
+      const button = GRADE_BUTTONS.find(item => item.key === e.key)
+      if (button) {
+        e.preventDefault()
+        grade(button.grade)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [reveal, grade])
+
+  return (
+    <>
+      <div className="min-h-[16rem] rounded-2xl bg-white/90 p-6 shadow-lg backdrop-blur-sm sm:p-8">
+        <ReviewCardFace card={card} type={type} revealed={revealed} />
+      </div>
+
+      <div className="mt-6">
+        {revealed ? (
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+            {GRADE_BUTTONS.map(button => (
+              <Button
+                key={button.grade}
+                variant="outline"
+                onClick={() => grade(button.grade)}
+                disabled={isSaving}
+                className={`bg-white/90 ${button.className}`}
+              >
+                {button.label}
+                <kbd className="ml-2 text-xs text-gray-400">{button.key}</kbd>
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <Button onClick={reveal} className="w-full">
+            Show answer
+            <kbd className="ml-2 text-xs opacity-70">Space</kbd>
+          </Button>
+        )}
+      </div>
+    </>
+  )
+}
+
+export function FlashcardReview() {
+  const { data, isLoading, error: loadError, refetch } = useActiveReviewSession()
+  const startSession = useStartReviewSession()
+  const answerCard = useAnswerReviewCard()
+  const endSession = useEndReviewSession()
+  const [finished, setFinished] = useState<ReviewSession | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+  // The card whose review is already stored, so retrying a failed save doesn't grade it twice
+  const gradedCard = useRef<string | null>(null)
+
+  const session = data?.session ?? null
+  const index = session?.data.currentIndex ?? 0
+  const current = session?.data.cards[index]
+  const content = current ? session?.content[current.vocabularyId] : undefined
+
+  const handleStart = async (input: StartSessionInput) => {
+    setError('')
+    try {
+      await startSession.mutateAsync(input)
+      setFinished(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start review')
+    }
+  }
+
+  const handleGrade = useCallback(
+    async (grade: ReviewGrade, responseTimeMs: number) => {
+      if (!session || !current) return
+      setIsSaving(true)
+      setError('')
+
+      const stepKey = `${session.id}:${index}`
+      try {
+        if (gradedCard.current !== stepKey) {
+          const reviewed = await userService.recordVocabularyReview(current.vocabularyId, grade, responseTimeMs, current.type)
+          if (!reviewed) throw new Error('Failed to save your answer')
+          gradedCard.current = stepKey
+        }
+
+        const next = await answerCard.mutateAsync({ sessionId: session.id, index, grade, responseTimeMs })
+        if (next.data.status === 'completed') {
+          setFinished(next)
+          // Fresh due count for the summary
+          refetch()
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to save your answer')
+      } finally {
+        setIsSaving(false)
+      }
+    },
+    [session, current, index, answerCard, refetch]
+  )
+
+  const handleEnd = async () => {
+    if (!session || !confirm('End this review? Cards you already answered keep their new schedule.')) return
+    try {
+      await endSession.mutateAsync(session.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to end review')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-indigo-500" />
+      </div>
+    )
+  }
+
+  const errorMessage = error || (loadError instanceof Error ? loadError.message : '')
+  const errorAlert = errorMessage && (
+    <Alert className="mb-4 border-red-200 bg-red-50">
+      <AlertDescription className="text-red-700">{errorMessage}</AlertDescription>
+    </Alert>
+  )
+
+  if (finished) {
+    return (
+      <div className="mx-auto max-w-2xl">
+        {errorAlert}
+        <ReviewSessionSummary
+          session={finished}
+          dueCount={data?.dueCount || 0}
+          onReviewMore={() => handleStart({})}
+          isStarting={startSession.isPending}
+        />
+      </div>
+    )
+  }
+
+  if (!session || !current || !content) {
+    return (
+      <div className="mx-auto max-w-2xl">
+        {errorAlert}
+        <ReviewSetup dueCount={data?.dueCount || 0} onStart={handleStart} isStarting={startSession.isPending} />
+      </div>
+    )
+  }
+
+  const total = session.data.cards.length
+
+  return (
+    <div className="mx-auto max-w-2xl">
+      {errorAlert}
+
+      <div className="mb-4 flex items-center gap-4">
+        <div className="h-2 flex-1 overflow-hidden rounded-full bg-white/60">
+          <div
+            className="h-full rounded-full bg-gradient-to-r from-indigo-500 to-purple-600 transition-all"
+            style={{ width: `${Math.round((index / total) * 100)}%` }}
+          />
+        </div>
+        <span className="text-sm text-gray-600">
+          {index + 1}/{total}
+        </span>
+        <button
+          onClick={handleEnd}
+          disabled={endSession.isPending}
+          className="text-gray-400 hover:text-gray-600"
+          title="End review"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <ReviewStep
+        key={`${session.id}:${index}`}
+        card={content}
+        type={current.type}
+        isSaving={isSaving}
+        onGrade={handleGrade}
+      />
+
+      <p className="mt-4 text-center text-xs text-gray-500">
+        Space to show the answer • 1–4 to grade • Progress is saved, so you can pick this up on any device
+      </p>
+    </div>
+  )
+}
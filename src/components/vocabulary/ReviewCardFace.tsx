@@ -0,0 +1,146 @@
+'use client'
+
+import { useState } from 'react'
+import { RotateCcw } from 'lucide-react'
+import { describeSource } from '@/lib/utils/vocabulary-transfer'
+import {
+  clozeSentence,
+  REVIEW_CARD_TYPES,
+  youtubeEmbedUrl,
+  type ReviewCardContent,
+  type ReviewCardType
+} from '@/lib/utils/review-cards'
+
+interface ReviewCardFaceProps {
+  card: ReviewCardContent
+  type: ReviewCardType
+  revealed: boolean
+}
+
+// The context sentence with the card's text highlighted
+function HighlightedContext({ context, text }: { context: string; text: string }) {
+  const lower = context.toLowerCase()
+  const needle = text.trim().toLowerCase()
+  const parts: { value: string; match: boolean }[] = []
+
+  let from = 0
+  for (let at = lower.indexOf(needle); needle && at !== -1; at = lower.indexOf(needle, from)) {
+    if (at > from) parts.push({ value: context.slice(from, at), match: false })
+    parts.push({ value: context.slice(at, at + needle.length), match: true })
+    from = at + needle.length
+  }
+  if (from < context.length) parts.push({ value: context.slice(from), match: false })
+
+  return (
+    <p className="italic text-gray-700">
+      &ldquo;
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded bg-yellow-100 px-0.5 not-italic font-semibold text-gray-900">
+            {part.value}
+          </mark>
+        ) : (
+          <span key={index}>{part.value}</span>
+        )
+      )}
+      &rdquo;
+    </p>
+  )
+}
+
+function ListeningClip({ card }: { card: ReviewCardContent }) {
+  // Remounting the frame restarts the clip from the loop's start
+  const [playCount, setPlayCount] = useState(0)
+  const source = card.source
+  const embedUrl = source && youtubeEmbedUrl(source.videoUrl, source.startTime, source.endTime)
+  if (!source || !embedUrl) return null
+
+  return (
+    <div className="space-y-2">
+      <div className="aspect-video overflow-hidden rounded-xl bg-black">
+        <iframe
+          key={playCount}
+          src={playCount > 0 ? `${embedUrl}&autoplay=1` : embedUrl}
+          title={source.videoTitle || 'Source clip'}
+          allow="autoplay; encrypted-media"
+          className="h-full w-full"
+        />
+      </div>
+      <button
+        type="button"
+        onClick={() => setPlayCount(count => count + 1)}
+        className="flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-700"
+      >
+        <RotateCcw className="h-4 w-4" />
+        Replay clip
+      </button>
+    </div>
+  )
+}
+
+export function ReviewCardFace({ card, type, revealed }: ReviewCardFaceProps) {
+  const cloze = clozeSentence(card.context, card.text)
+  const source = describeSource(card.source)
+
+  const prompt = (() => {
+    switch (type) {
+      case 'definition_to_word':
+        return <p className="text-xl text-gray-900">{card.definition}</p>
+      case 'vietnamese_to_english':
+        return <p className="text-xl text-gray-900">{card.definition_vi}</p>
+      case 'context_cloze':
+        return <p className="text-xl italic text-gray-900">&ldquo;{cloze}&rdquo;</p>
+      case 'listening':
+        return (
+          <div className="space-y-3">
+            <ListeningClip card={card} />
+            <p className="text-sm text-gray-500">
+              Starts with &ldquo;{card.text.trim().charAt(0)}&rdquo; • {card.text.trim().length} letters
+            </p>
+          </div>
+        )
+      default:
+        return (
+          <div>
+            <p className="text-3xl font-bold text-gray-900">{card.text}</p>
+            {card.pronunciation && <p className="mt-1 text-gray-500">{card.pronunciation}</p>}
+          </div>
+        )
+    }
+  })()
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <p className="mb-3 text-sm font-medium text-indigo-600">{REVIEW_CARD_TYPES[type].prompt}</p>
+        {card.part_of_speech && type !== 'word_to_definition' && (
+          <p className="mb-2 text-sm italic text-gray-500">{card.part_of_speech}</p>
+        )}
+        {prompt}
+      </div>
+
+      {revealed && (
+        <div className="space-y-3 border-t border-gray-100 pt-6">
+          {type !== 'word_to_definition' && (
+            <div>
+              <p className="text-2xl font-bold text-gray-900">{card.text}</p>
+              {card.pronunciation && <p className="text-gray-500">{card.pronunciation}</p>}
+            </div>
+          )}
+          {type === 'word_to_definition' && card.part_of_speech && (
+            <p className="text-sm italic text-gray-500">{card.part_of_speech}</p>
+          )}
+          {type !== 'definition_to_word' && <p className="text-gray-800">{card.definition}</p>}
+          {card.definition_vi && type !== 'vietnamese_to_english' && (
+            <p className="text-gray-600">{card.definition_vi}</p>
+          )}
+          {card.context && <HighlightedContext context={card.context} text={card.text} />}
+          {card.example && card.example !== card.context && (
+            <p className="text-sm text-gray-600">Example: {card.example}</p>
+          )}
+          {source && <p className="text-xs text-gray-400">From {source}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
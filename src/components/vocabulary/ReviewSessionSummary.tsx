@@ -0,0 +1,112 @@
+'use client'
+
+import Link from 'next/link'
+import { CheckCircle, Clock, Target, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { ReviewSession } from '@/lib/services/review-session-service'
+import { REVIEW_CARD_TYPES, summarizeSession, type ReviewCardType } from '@/lib/utils/review-cards'
+
+interface ReviewSessionSummaryProps {
+  session: ReviewSession
+  dueCount: number
+  onReviewMore: () => void
+  isStarting: boolean
+}
+
+const GRADE_STYLES = {
+  again: 'bg-red-50 text-red-700',
+  hard: 'bg-orange-50 text-orange-700',
+  good: 'bg-green-50 text-green-700',
+  easy: 'bg-blue-50 text-blue-700'
+} as const
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+export function ReviewSessionSummary({ session, dueCount, onReviewMore, isStarting }: ReviewSessionSummaryProps) {
+  const summary = summarizeSession(session.data)
+  const missed = [...new Set(summary.missedIds)].map(id => session.content[id]).filter(Boolean)
+
+  const stats = [
+    { label: 'Cards reviewed', value: summary.answered, icon: CheckCircle },
+    { label: 'Recalled', value: `${summary.accuracy}%`, icon: Target },
+    { label: 'Avg. answer time', value: formatDuration(summary.averageResponseMs), icon: Clock },
+    { label: 'Session time', value: formatDuration(summary.durationMs), icon: Clock }
+  ]
+
+  return (
+    <div className="space-y-6 rounded-2xl bg-white/90 p-6 shadow-lg backdrop-blur-sm sm:p-8">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Session complete</h2>
+        <p className="text-gray-600">Your schedule has been updated for every card you answered.</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+        {stats.map(({ label, value, icon: Icon }) => (
+          <div key={label} className="rounded-xl bg-indigo-50/50 p-4">
+            <Icon className="mb-2 h-5 w-5 text-indigo-600" />
+            <div className="text-xl font-bold text-gray-900">{value}</div>
+            <div className="text-xs text-gray-600">{label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(GRADE_STYLES) as (keyof typeof GRADE_STYLES)[]).map(grade => (
+          <span key={grade} className={`rounded-full px-3 py-1 text-sm font-medium capitalize ${GRADE_STYLES[grade]}`}>
+            {grade}: {summary.grades[grade]}
+          </span>
+        ))}
+      </div>
+
+      {Object.keys(summary.byType).length > 1 && (
+        <div>
+          <h3 className="mb-2 text-sm font-medium text-gray-700">By card type</h3>
+          <ul className="space-y-1 text-sm text-gray-600">
+            {(Object.entries(summary.byType) as [ReviewCardType, { answered: number; correct: number }][]).map(
+              ([type, { answered, correct }]) => (
+                <li key={type} className="flex justify-between">
+                  <span>{REVIEW_CARD_TYPES[type].label}</span>
+                  <span>
+                    {correct}/{answered}
+                  </span>
+                </li>
+              )
+            )}
+          </ul>
+        </div>
+      )}
+
+      {missed.length > 0 && (
+        <div>
+          <h3 className="mb-2 flex items-center gap-1 text-sm font-medium text-gray-700">
+            <XCircle className="h-4 w-4 text-red-500" />
+            To look at again
+          </h3>
+          <ul className="divide-y divide-gray-100 text-sm">
+            {missed.map(card => (
+              <li key={card.id} className="py-2">
+                <span className="font-medium text-gray-900">{card.text}</span>
+                <span className="text-gray-600"> — {card.definition}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button variant="outline" asChild>
+          <Link href="/dashboard">Back to dashboard</Link>
+        </Button>
+        {dueCount > 0 && (
+          <Button onClick={onReviewMore} disabled={isStarting}>
+            Review {dueCount} more
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
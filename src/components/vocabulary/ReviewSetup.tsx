@@ -0,0 +1,83 @@
+'use client'
+
+import { useState } from 'react'
+import { Layers, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import type { StartSessionInput } from '@/lib/services/review-session-service'
+import { ALL_REVIEW_CARD_TYPES, REVIEW_CARD_TYPES, type ReviewCardType } from '@/lib/utils/review-cards'
+
+interface ReviewSetupProps {
+  dueCount: number
+  onStart: (input: StartSessionInput) => void
+  isStarting: boolean
+}
+
+const SESSION_SIZES = [10, 20, 50]
+
+export function ReviewSetup({ dueCount, onStart, isStarting }: ReviewSetupProps) {
+  const [cardTypes, setCardTypes] = useState<ReviewCardType[]>(ALL_REVIEW_CARD_TYPES)
+  const [limit, setLimit] = useState(20)
+
+  const toggleType = (type: ReviewCardType, enabled: boolean) => {
+    setCardTypes(prev => (enabled ? [...prev, type] : prev.filter(item => item !== type)))
+  }
+
+  if (dueCount === 0) {
+    return (
+      <div className="rounded-2xl bg-white/90 p-8 text-center shadow-lg backdrop-blur-sm">
+        <Layers className="mx-auto mb-4 h-10 w-10 text-indigo-400" />
+        <h2 className="mb-2 text-xl font-semibold text-gray-900">All caught up</h2>
+        <p className="text-gray-600">No cards are due right now. Save words from your loops to grow your deck.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6 rounded-2xl bg-white/90 p-6 shadow-lg backdrop-blur-sm sm:p-8">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">
+          {dueCount} {dueCount === 1 ? 'card is' : 'cards are'} due
+        </h2>
+        <p className="text-sm text-gray-600">
+          Cards without a context sentence, Vietnamese definition or source loop fall back to the types they support.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium text-gray-700">Card types</h3>
+        {ALL_REVIEW_CARD_TYPES.map(type => (
+          <label key={type} className="flex items-center gap-2 text-sm text-gray-700">
+            <Checkbox
+              checked={cardTypes.includes(type)}
+              onCheckedChange={checked => toggleType(type, checked === true)}
+            />
+            {REVIEW_CARD_TYPES[type].label}
+          </label>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        Cards per session:
+        <select
+          value={limit}
+          onChange={e => setLimit(Number(e.target.value))}
+          className="rounded-lg border border-gray-200 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {SESSION_SIZES.map(size => (
+            <option key={size} value={size}>
+              {size}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex justify-end">
+        <Button onClick={() => onStart({ cardTypes, limit })} disabled={isStarting || cardTypes.length === 0}>
+          {isStarting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Start review
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query'
+import { useAuth } from '../../contexts/AuthContext'
+import { getAuthHeaders } from '@/lib/supabase/auth-utils'
+import type { AchievementDefinition, UserAchievement } from '@/lib/services/achievement-service'
+
+interface AchievementsResponse {
+  achievements: UserAchievement[]
+  catalog: AchievementDefinition[]
+}
+
+export function useAchievements() {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: ['user-achievements', user?.id],
+    queryFn: async (): Promise<AchievementsResponse> => {
+      const response = await fetch('/api/user/achievements', {
+        headers: await getAuthHeaders()
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch achievements')
+      }
+
+      return response.json()
+    },
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000
+  })
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '../../contexts/AuthContext'
+import { userService } from '@/lib/services/user-service'
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type NotificationPreferences
+} from '@/lib/services/email/types'
+
+export function useNotificationPreferences() {
+  const { user } = useAuth()
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!user?.id) return
+
+    setIsLoading(true)
+    userService
+      .getNotificationPreferences(user.id)
+      .then(setPreferences)
+      .finally(() => setIsLoading(false))
+  }, [user?.id])
+
+  const savePreferences = useCallback(
+    async (updates: Partial<NotificationPreferences>) => {
+      if (!user?.id) return false
+
+      setIsSaving(true)
+      setError('')
+
+      try {
+        const saved = await userService.updateNotificationPreferences(user.id, updates)
+        if (!saved) {
+          setError('Failed to save notification preferences')
+          return false
+        }
+        setPreferences(saved)
+        return true
+      } finally {
+        setIsSaving(false)
+      }
+    },
+    [user?.id]
+  )
+
+  return {
+    preferences,
+    isLoading,
+    isSaving,
+    error,
+    savePreferences
+  }
+}
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query'
+import { useAuth } from '../../contexts/AuthContext'
+import { getAuthHeaders } from '@/lib/supabase/auth-utils'
+import type { PlanDefinition, UsageSummary } from '@/lib/services/usage-service'
+
+interface PlanUsageResponse {
+  usage: UsageSummary
+  plans: PlanDefinition[]
+}
+
+export function usePlanUsage() {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: ['user-usage', user?.id],
+    queryFn: async (): Promise<PlanUsageResponse> => {
+      const response = await fetch('/api/user/usage', {
+        headers: await getAuthHeaders()
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch usage')
+      }
+
+      return response.json()
+    },
+    enabled: !!user?.id,
+    staleTime: 60 * 1000
+  })
+}
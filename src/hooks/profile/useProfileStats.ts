@@ -3,6 +3,7 @@ import { Award, Target, RotateCcw, Users } from 'lucide-react'
 import { useAuth } from '../../contexts/AuthContext'
 import { useUserLoops } from '@/hooks/useLoops'
 import { useGroupsData } from '../../app/groups/hooks/useGroupsData'
+import { useAchievements } from './useAchievements'
 
 export interface ProfileStat {
   label: string
@@ -16,6 +17,7 @@ export function useProfileStats() {
   const { data: loops = [] } = useUserLoops()
   const { getGroupsForTab } = useGroupsData({ isAuthenticated })
   const myGroups = getGroupsForTab('my-groups')
+  const { data: achievements } = useAchievements()
 
   const stats: ProfileStat[] = useMemo(() => [
     {
@@ -38,11 +40,11 @@ export function useProfileStats() {
     },
     {
       label: 'Achievements',
-      value: '?', // Coming soon
+      value: achievements?.achievements.length ?? 0,
       icon: Award,
       color: 'from-yellow-500 to-orange-600'
     }
-  ], [loops, myGroups])
+  ], [loops, myGroups, achievements])
 
   return { stats }
 }
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '../../contexts/AuthContext'
+import { userService, type SrsSettings } from '@/lib/services/user-service'
+import { DEFAULT_DESIRED_RETENTION } from '@/lib/services/srs'
+
+export function useSrsSettings() {
+  const { user } = useAuth()
+  const [settings, setSettings] = useState<SrsSettings>({
+    algorithm: 'sm2',
+    desiredRetention: DEFAULT_DESIRED_RETENTION
+  })
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!user?.id) return
+
+    setIsLoading(true)
+    userService
+      .getSrsSettings(user.id)
+      .then(setSettings)
+      .finally(() => setIsLoading(false))
+  }, [user?.id])
+
+  const saveSettings = useCallback(
+    async (updates: Partial<SrsSettings>) => {
+      if (!user?.id) return false
+
+      setIsSaving(true)
+      setError('')
+
+      try {
+        const saved = await userService.updateSrsSettings(user.id, updates)
+        if (!saved) {
+          setError('Failed to save review settings')
+          return false
+        }
+        setSettings(saved)
+        return true
+      } finally {
+        setIsSaving(false)
+      }
+    },
+    [user?.id]
+  )
+
+  return {
+    settings,
+    isLoading,
+    isSaving,
+    error,
+    saveSettings
+  }
+}
@@ -0,0 +1,76 @@
+import { useCallback, useState } from 'react'
+import { getAuthHeaders } from '@/lib/supabase/auth-utils'
+import type { ImportOptions, ImportSummary } from '@/lib/services/vocabulary-transfer-service'
+import type { ExportFormat, ImportCard } from '@/lib/utils/vocabulary-transfer'
+
+export function useVocabularyTransfer() {
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState('')
+
+  const exportDeck = useCallback(async (format: ExportFormat) => {
+    setExportingFormat(format)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/user/vocabulary/export?format=${format}`, {
+        headers: await getAuthHeaders()
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to export vocabulary')
+      }
+
+      // Save under the name the server suggests
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `vocabulary.${format}`
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export vocabulary')
+    } finally {
+      setExportingFormat(null)
+    }
+  }, [])
+
+  const importCards = useCallback(
+    async (cards: ImportCard[], options: ImportOptions): Promise<ImportSummary | null> => {
+      setIsImporting(true)
+      setError('')
+
+      try {
+        const response = await fetch('/api/user/vocabulary/import', {
+          method: 'POST',
+          headers: await getAuthHeaders(),
+          body: JSON.stringify({ cards, ...options })
+        })
+
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to import vocabulary')
+        }
+
+        return data as ImportSummary
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to import vocabulary')
+        return null
+      } finally {
+        setIsImporting(false)
+      }
+    },
+    []
+  )
+
+  return {
+    exportDeck,
+    exportingFormat,
+    importCards,
+    isImporting,
+    error
+  }
+}
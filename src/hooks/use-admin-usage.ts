@@ -0,0 +1,69 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders } from '@/lib/supabase/auth-utils'
+import type { PlanDefinition, PlanId, PlanLimits, UsageSummary, UsageUser } from '@/lib/services/usage-service'
+
+interface AdminUsageResponse {
+  user: UsageUser
+  usage: UsageSummary
+  plans: PlanDefinition[]
+}
+
+export interface PlanOverrideRequest {
+  planId: PlanId
+  limits: Partial<PlanLimits>
+  resetUsage?: boolean
+}
+
+// Query keys
+const usageKeys = {
+  all: ['admin-usage'] as const,
+  lookup: (email: string) => [...usageKeys.all, email] as const,
+}
+
+// Look up a user's plan and usage by email (admin endpoint)
+export function useAdminUserUsage(email: string) {
+  return useQuery({
+    queryKey: usageKeys.lookup(email),
+    queryFn: async () => {
+      const headers = await getAuthHeaders()
+      const response = await fetch(`/api/admin/usage?email=${encodeURIComponent(email)}`, { headers })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to fetch usage')
+      }
+
+      return response.json() as Promise<AdminUsageResponse>
+    },
+    enabled: !!email,
+    retry: false,
+  })
+}
+
+// Override a user's plan and limits
+export function useOverridePlan(userId?: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (override: PlanOverrideRequest) => {
+      const headers = await getAuthHeaders()
+      const response = await fetch(`/api/admin/usage/${userId}`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify(override),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to update plan')
+      }
+
+      return response.json() as Promise<{ user: UsageUser; usage: UsageSummary }>
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: usageKeys.all })
+    },
+  })
+}
@@ -0,0 +1,55 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders } from '@/lib/supabase/auth-utils'
+import type { BackgroundJob, BackgroundJobRun } from '@/lib/services/job-runner-service'
+
+// Query keys
+const jobKeys = {
+  all: ['background-jobs'] as const,
+  admin: (jobName?: string) => [...jobKeys.all, 'admin', jobName ?? 'all'] as const,
+}
+
+// Fetch jobs and recent runs (admin endpoint)
+export function useAdminJobs(jobName?: string) {
+  return useQuery({
+    queryKey: jobKeys.admin(jobName),
+    queryFn: async () => {
+      const headers = await getAuthHeaders()
+      const query = jobName ? `?job=${encodeURIComponent(jobName)}` : ''
+      const response = await fetch(`/api/admin/jobs${query}`, { headers })
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch jobs: ${response.status}`)
+      }
+
+      return response.json() as Promise<{ jobs: BackgroundJob[]; runs: BackgroundJobRun[] }>
+    },
+    refetchInterval: 30 * 1000,
+  })
+}
+
+// Run a job immediately
+export function useRunJob() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const headers = await getAuthHeaders()
+      const response = await fetch(`/api/admin/jobs/${encodeURIComponent(name)}/run`, {
+        method: 'POST',
+        headers,
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to run job')
+      }
+
+      return response.json() as Promise<{ run: BackgroundJobRun; succeeded: boolean }>
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: jobKeys.all })
+    },
+  })
+}
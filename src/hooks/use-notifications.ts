@@ -0,0 +1,141 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/lib/supabase/client'
+import { getAuthHeaders } from '@/lib/supabase/auth-utils'
+import type { SocialNotification } from '@/lib/services/notification-center-service'
+
+interface NotificationsResponse {
+  notifications: SocialNotification[]
+  unreadCount: number
+  hasMore: boolean
+}
+
+// Query keys
+const notificationKeys = {
+  all: ['notifications'] as const,
+  list: (userId?: string) => [...notificationKeys.all, 'list', userId] as const,
+}
+
+async function sendNotificationRequest(method: 'PATCH' | 'DELETE', body: unknown) {
+  const headers = await getAuthHeaders()
+  const response = await fetch('/api/notifications', {
+    method,
+    headers,
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to update notifications')
+  }
+
+  return response.json()
+}
+
+// Fetch the current user's latest notifications and unread count
+export function useNotifications(limit = 20) {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: notificationKeys.list(user?.id),
+    queryFn: async () => {
+      const headers = await getAuthHeaders()
+      const response = await fetch(`/api/notifications?limit=${limit}`, { headers })
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch notifications: ${response.status}`)
+      }
+
+      return response.json() as Promise<NotificationsResponse>
+    },
+    enabled: !!user?.id,
+    staleTime: 60 * 1000,
+  })
+}
+
+// Refetch when a notification for the current user is inserted, updated or deleted
+export function useNotificationsRealtime() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!supabase || !user?.id) return
+
+    const channel = supabase
+      .channel(`notifications_${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'social_notifications',
+          filter: `user_id=eq.${user.id}`
+        },
+        payload => {
+          if (payload.eventType === 'INSERT') {
+            const notification = payload.new as SocialNotification
+            toast.info(notification.title, { description: notification.message })
+          }
+          queryClient.invalidateQueries({ queryKey: notificationKeys.all })
+        }
+      )
+      .subscribe()
+
+    return () => {
+      channel.unsubscribe()
+    }
+  }, [user?.id, queryClient])
+}
+
+// Mark notifications as read; omit ids to mark everything read
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+
+  return useMutation({
+    mutationFn: (ids?: string[]) =>
+      sendNotificationRequest('PATCH', ids ? { ids, read: true } : { all: true, read: true }),
+    onMutate: async ids => {
+      const key = notificationKeys.list(user?.id)
+      await queryClient.cancelQueries({ queryKey: key })
+      const previous = queryClient.getQueryData<NotificationsResponse>(key)
+
+      if (previous) {
+        const affected = previous.notifications.filter(n => !n.read && (!ids || ids.includes(n.id)))
+        queryClient.setQueryData<NotificationsResponse>(key, {
+          ...previous,
+          notifications: previous.notifications.map(n =>
+            !ids || ids.includes(n.id) ? { ...n, read: true } : n
+          ),
+          unreadCount: ids ? Math.max(0, previous.unreadCount - affected.length) : 0,
+        })
+      }
+
+      return { previous }
+    },
+    onError: (_error, _ids, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(notificationKeys.list(user?.id), context.previous)
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.all })
+    },
+  })
+}
+
+// Delete notifications
+export function useDeleteNotifications() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (ids: string[]) => sendNotificationRequest('DELETE', { ids }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.all })
+    },
+  })
+}
@@ -0,0 +1,130 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders } from '@/lib/supabase/auth-utils'
+import type { AIProvider, DifficultyPreset } from '@/lib/services/ai/types'
+import type {
+  CandidateInput,
+  PromptEvalFixture,
+  PromptEvalRun
+} from '@/lib/services/prompt-eval-service'
+
+export interface CreateFixtureData {
+  name: string
+  description?: string
+  video_title?: string
+  transcript?: string
+  subtitles?: string
+}
+
+export interface RunEvaluationData {
+  promptId?: string
+  candidates: CandidateInput[]
+  fixtureIds?: string[]
+  preset: DifficultyPreset
+  provider?: AIProvider
+}
+
+// Query keys
+export const promptEvalKeys = {
+  all: ['prompt-evaluations'] as const,
+  fixtures: () => [...promptEvalKeys.all, 'fixtures'] as const,
+  runs: (promptId?: string) => [...promptEvalKeys.all, 'runs', promptId] as const,
+}
+
+async function sendEvaluationRequest(path: string, method: 'POST' | 'DELETE', body?: unknown) {
+  const headers = await getAuthHeaders()
+  const response = await fetch(`/api/admin/prompts/evaluations${path}`, {
+    method,
+    headers,
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Evaluation request failed')
+  }
+
+  return response.json()
+}
+
+// Fetch fixture transcripts used for evaluations (admin endpoint)
+export function usePromptEvalFixtures() {
+  return useQuery({
+    queryKey: promptEvalKeys.fixtures(),
+    queryFn: async () => {
+      const headers = await getAuthHeaders()
+      const response = await fetch('/api/admin/prompts/evaluations/fixtures', { headers })
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch evaluation fixtures: ${response.status}`)
+      }
+
+      const data = await response.json()
+      return data.fixtures as PromptEvalFixture[]
+    },
+  })
+}
+
+// Save a fixture transcript
+export function useCreatePromptEvalFixture() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: CreateFixtureData) => {
+      const result = await sendEvaluationRequest('/fixtures', 'POST', data)
+      return result.fixture as PromptEvalFixture
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: promptEvalKeys.fixtures() })
+    },
+  })
+}
+
+// Delete a fixture transcript
+export function useDeletePromptEvalFixture() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (fixtureId: string) => sendEvaluationRequest(`/fixtures/${fixtureId}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: promptEvalKeys.fixtures() })
+    },
+  })
+}
+
+// Recent evaluation runs for a prompt
+export function usePromptEvalRuns(promptId?: string) {
+  return useQuery({
+    queryKey: promptEvalKeys.runs(promptId),
+    queryFn: async () => {
+      const headers = await getAuthHeaders()
+      const response = await fetch(`/api/admin/prompts/evaluations?promptId=${promptId}`, { headers })
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch evaluation runs: ${response.status}`)
+      }
+
+      const data = await response.json()
+      return data.runs as PromptEvalRun[]
+    },
+    enabled: !!promptId,
+  })
+}
+
+// Run one or two candidates over the fixtures
+export function useRunPromptEvaluation() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: RunEvaluationData) => {
+      const result = await sendEvaluationRequest('', 'POST', data)
+      return result.run as PromptEvalRun
+    },
+    onSuccess: (_, { promptId }) => {
+      if (promptId) {
+        queryClient.invalidateQueries({ queryKey: promptEvalKeys.runs(promptId) })
+      }
+    },
+  })
+}
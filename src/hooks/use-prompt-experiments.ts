@@ -0,0 +1,129 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders } from '@/lib/supabase/auth-utils'
+import type {
+  CreateExperimentInput,
+  PromptExperiment,
+  VariantOutcome
+} from '@/lib/services/prompt-experiment-service'
+import { promptKeys } from './use-prompts'
+
+// Query keys
+export const promptExperimentKeys = {
+  all: ['prompt-experiments'] as const,
+  lists: () => [...promptExperimentKeys.all, 'list'] as const,
+  detail: (id: string) => [...promptExperimentKeys.all, 'detail', id] as const,
+}
+
+async function sendExperimentRequest(path: string, method: 'POST' | 'PATCH' | 'DELETE', body?: unknown) {
+  const headers = await getAuthHeaders()
+  const response = await fetch(`/api/admin/prompts/experiments${path}`, {
+    method,
+    headers,
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Experiment request failed')
+  }
+
+  return response.json()
+}
+
+// Fetch all prompt experiments (admin endpoint)
+export function usePromptExperiments() {
+  return useQuery({
+    queryKey: promptExperimentKeys.lists(),
+    queryFn: async () => {
+      const headers = await getAuthHeaders()
+      const response = await fetch('/api/admin/prompts/experiments', { headers })
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch experiments: ${response.status}`)
+      }
+
+      const data = await response.json()
+      return data.experiments as PromptExperiment[]
+    },
+  })
+}
+
+// Fetch one experiment with its per-variant outcomes
+export function usePromptExperiment(id: string) {
+  return useQuery({
+    queryKey: promptExperimentKeys.detail(id),
+    queryFn: async () => {
+      const headers = await getAuthHeaders()
+      const response = await fetch(`/api/admin/prompts/experiments/${id}`, { headers })
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch experiment: ${response.status}`)
+      }
+
+      return response.json() as Promise<{ experiment: PromptExperiment; outcomes: VariantOutcome[] }>
+    },
+    enabled: !!id,
+  })
+}
+
+// Create a draft experiment
+export function useCreatePromptExperiment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: CreateExperimentInput) => {
+      const result = await sendExperimentRequest('', 'POST', data)
+      return result.experiment as PromptExperiment
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: promptExperimentKeys.lists() })
+    },
+  })
+}
+
+// Start or stop an experiment
+export function useUpdatePromptExperimentStatus() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'start' | 'stop' }) => {
+      const result = await sendExperimentRequest(`/${id}`, 'PATCH', { action })
+      return result.experiment as PromptExperiment
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: promptExperimentKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: promptExperimentKeys.detail(id) })
+    },
+  })
+}
+
+// Delete an experiment
+export function useDeletePromptExperiment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => sendExperimentRequest(`/${id}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: promptExperimentKeys.lists() })
+    },
+  })
+}
+
+// Make a variant the default prompt for its category
+export function usePromoteExperimentWinner() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, promptId }: { id: string; promptId: string }) => {
+      const result = await sendExperimentRequest(`/${id}/promote`, 'POST', { promptId })
+      return result.experiment as PromptExperiment
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: promptExperimentKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: promptExperimentKeys.detail(id) })
+      queryClient.invalidateQueries({ queryKey: promptKeys.all })
+    },
+  })
+}
@@ -3,7 +3,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { getAuthHeaders } from '@/lib/supabase/auth-utils'
 
-interface CustomPrompt {
+export interface CustomPrompt {
   id: string
   name: string
   description?: string
@@ -17,10 +17,27 @@ interface CustomPrompt {
   is_active: boolean
   is_default: boolean
   usage_count: number
+  current_version_id?: string | null
   created_at: string
   updated_at: string
 }
 
+export interface PromptVersion {
+  id: string
+  prompt_id: string
+  version_number: number
+  system_prompt: string
+  user_template: string
+  config?: {
+    maxTokens?: number
+    temperature?: number
+  } | null
+  change_note: string | null
+  restored_from_version_id: string | null
+  created_by: string | null
+  created_at: string
+}
+
 interface CreatePromptData {
   name: string
   description?: string
@@ -40,14 +57,16 @@ interface UpdatePromptData {
   config?: Record<string, any>
   is_active?: boolean
   is_default?: boolean
+  change_note?: string
 }
 
 // Query keys
-const promptKeys = {
+export const promptKeys = {
   all: ['prompts'] as const,
   admin: () => [...promptKeys.all, 'admin'] as const,
   public: () => [...promptKeys.all, 'public'] as const,
   detail: (id: string) => [...promptKeys.all, 'detail', id] as const,
+  versions: (id: string) => [...promptKeys.all, 'versions', id] as const,
 }
 
 // Fetch all prompts (admin endpoint)
@@ -136,6 +155,53 @@ export function useUpdatePrompt() {
     onSuccess: (_, { id }) => {
       queryClient.invalidateQueries({ queryKey: promptKeys.admin() })
       queryClient.invalidateQueries({ queryKey: promptKeys.detail(id) })
+      queryClient.invalidateQueries({ queryKey: promptKeys.versions(id) })
+    },
+  })
+}
+
+// Fetch a prompt's version history, newest first (admin endpoint)
+export function usePromptVersions(id: string) {
+  return useQuery({
+    queryKey: promptKeys.versions(id),
+    queryFn: async () => {
+      const headers = await getAuthHeaders()
+      const response = await fetch(`/api/admin/prompts/${id}/versions`, { headers })
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch prompt versions: ${response.status}`)
+      }
+
+      const data = await response.json()
+      return data.versions as PromptVersion[]
+    },
+    enabled: !!id,
+  })
+}
+
+// Restore an older version; history is kept and the restore becomes the newest version
+export function useRollbackPrompt() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, versionId }: { id: string; versionId: string }) => {
+      const headers = await getAuthHeaders()
+      const response = await fetch(`/api/admin/prompts/${id}/versions/${versionId}/rollback`, {
+        method: 'POST',
+        headers,
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to roll back prompt')
+      }
+
+      return response.json()
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: promptKeys.admin() })
+      queryClient.invalidateQueries({ queryKey: promptKeys.detail(id) })
+      queryClient.invalidateQueries({ queryKey: promptKeys.versions(id) })
     },
   })
 }
@@ -0,0 +1,104 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+export type RecorderStatus = 'idle' | 'recording' | 'unsupported' | 'denied'
+
+export interface Recording {
+  blob: Blob
+  durationSeconds: number
+}
+
+// Opus in WebM where supported (Chrome, Firefox), MP4/AAC otherwise (Safari)
+const PREFERRED_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus']
+
+const pickMimeType = () =>
+  typeof MediaRecorder !== 'undefined'
+    ? PREFERRED_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || ''
+    : ''
+
+/**
+ * Microphone recording with MediaRecorder. Stops by itself after maxSeconds;
+ * the finished recording is passed to onComplete.
+ */
+export function useAudioRecorder({
+  maxSeconds,
+  onComplete
+}: {
+  maxSeconds: number
+  onComplete: (recording: Recording) => void
+}) {
+  const [status, setStatus] = useState<RecorderStatus>(() =>
+    typeof window !== 'undefined' && !navigator.mediaDevices?.getUserMedia ? 'unsupported' : 'idle'
+  )
+  const [elapsedSeconds, setElapsedSeconds] = useState(0)
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const onCompleteRef = useRef(onComplete)
+  onCompleteRef.current = onComplete
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop()
+  }, [])
+
+  const start = useCallback(async () => {
+    if (recorderRef.current?.state === 'recording') return
+
+    let stream: MediaStream
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+    } catch {
+      setStatus('denied')
+      return
+    }
+
+    const mimeType = pickMimeType()
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+    const chunks: Blob[] = []
+    const startedAt = Date.now()
+
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop())
+      if (timerRef.current) clearInterval(timerRef.current)
+      recorderRef.current = null
+      setStatus('idle')
+
+      // Drop codec parameters; the server only needs the container type
+      const type = (recorder.mimeType || mimeType || 'audio/webm').split(';')[0]
+      onCompleteRef.current({
+        blob: new Blob(chunks, { type }),
+        durationSeconds: (Date.now() - startedAt) / 1000
+      })
+    }
+
+    recorderRef.current = recorder
+    recorder.start()
+    setElapsedSeconds(0)
+    setStatus('recording')
+
+    timerRef.current = setInterval(() => {
+      const elapsed = (Date.now() - startedAt) / 1000
+      setElapsedSeconds(elapsed)
+      if (elapsed >= maxSeconds) stop()
+    }, 250)
+  }, [maxSeconds, stop])
+
+  // Release the microphone if the component goes away mid-recording
+  useEffect(
+    () => () => {
+      if (timerRef.current) clearInterval(timerRef.current)
+      const recorder = recorderRef.current
+      if (recorder?.state === 'recording') {
+        recorder.onstop = null
+        recorder.stop()
+        recorder.stream.getTracks().forEach(track => track.stop())
+      }
+    },
+    []
+  )
+
+  return { status, elapsedSeconds, start, stop }
+}
@@ -0,0 +1,139 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders } from '../lib/supabase/auth-utils'
+import { supabase } from '../lib/supabase/client'
+import type { ChatMessage, SendMessageInput } from '../lib/services/group-chat-service'
+
+interface ChatPage {
+  messages: ChatMessage[]
+  hasMore: boolean
+}
+
+export const groupChatKeys = {
+  all: (groupId: string) => ['group-chat', groupId] as const,
+  // The group chat when sessionId is omitted, otherwise that session's discussion thread
+  thread: (groupId: string, sessionId?: string) => ['group-chat', groupId, sessionId ?? 'group'] as const
+}
+
+async function sendChatRequest(groupId: string, path: string, method: 'POST' | 'DELETE', body?: unknown) {
+  const response = await fetch(`/api/groups/${groupId}/chat${path}`, {
+    method,
+    headers: await getAuthHeaders(),
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {})
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Chat request failed')
+  }
+
+  return response.json()
+}
+
+/**
+ * Messages of the group chat or a session thread, newest page first.
+ * Stays live through a realtime subscription on chat_messages.
+ */
+export function useChatMessages(groupId: string, sessionId?: string, enabled = true) {
+  const queryClient = useQueryClient()
+  const queryKey = groupChatKeys.thread(groupId, sessionId)
+
+  const query = useInfiniteQuery({
+    queryKey,
+    queryFn: async ({ pageParam }): Promise<ChatPage> => {
+      const params = new URLSearchParams()
+      if (sessionId) params.set('sessionId', sessionId)
+      if (pageParam) params.set('before', pageParam)
+
+      const response = await fetch(`/api/groups/${groupId}/chat?${params}`, {
+        headers: await getAuthHeaders()
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to fetch messages')
+      }
+
+      return response.json()
+    },
+    initialPageParam: '',
+    // Older pages start before the oldest top-level message loaded so far
+    getNextPageParam: lastPage =>
+      lastPage.hasMore ? lastPage.messages.find(message => !message.reply_to)?.created_at ?? undefined : undefined,
+    enabled: enabled && !!groupId
+  })
+
+  useEffect(() => {
+    if (!enabled || !groupId || !supabase) return
+
+    const channel = supabase
+      .channel(`chat_${groupId}_${sessionId ?? 'group'}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'chat_messages',
+          filter: sessionId ? `session_id=eq.${sessionId}` : `group_id=eq.${groupId}`
+        },
+        payload => {
+          const message = (payload.new || payload.old) as Partial<ChatMessage>
+          // The group filter also matches session threads
+          if (!sessionId && message.session_id) return
+          queryClient.invalidateQueries({ queryKey: groupChatKeys.thread(groupId, sessionId) })
+        }
+      )
+      .subscribe()
+
+    return () => {
+      channel.unsubscribe()
+    }
+  }, [groupId, sessionId, enabled, queryClient])
+
+  // Pages are fetched newest first; show the history oldest first
+  const messages = (query.data?.pages || [])
+    .slice()
+    .reverse()
+    .flatMap(page => page.messages)
+
+  return { ...query, messages }
+}
+
+export function useSendChatMessage(groupId: string, sessionId?: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: Omit<SendMessageInput, 'sessionId'>) => {
+      const result = await sendChatRequest(groupId, '', 'POST', { ...input, sessionId })
+      return result.message as ChatMessage
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: groupChatKeys.thread(groupId, sessionId) })
+    }
+  })
+}
+
+export function useDeleteChatMessage(groupId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (messageId: string) => sendChatRequest(groupId, `/${messageId}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: groupChatKeys.all(groupId) })
+    }
+  })
+}
+
+export function useToggleChatReaction(groupId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ messageId, emoji }: { messageId: string; emoji: string }) =>
+      sendChatRequest(groupId, `/${messageId}/reactions`, 'POST', { emoji }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: groupChatKeys.all(groupId) })
+    }
+  })
+}
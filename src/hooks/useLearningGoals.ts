@@ -0,0 +1,70 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '../contexts/AuthContext'
+import { getAuthHeaders } from '../lib/supabase/auth-utils'
+import type { CreateGoalInput, LearningGoal, LearningOverview } from '../lib/services/learning-goal-service'
+
+export const learningGoalKeys = {
+  overview: (userId?: string) => ['learning-goals', userId] as const
+}
+
+async function sendGoalRequest(path: string, method: 'POST' | 'DELETE', body?: unknown) {
+  const response = await fetch(`/api/user/goals${path}`, {
+    method,
+    headers: await getAuthHeaders(),
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {})
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Goal request failed')
+  }
+
+  return response.json()
+}
+
+// Goals with progress, streak and recent daily activity
+export function useLearningOverview() {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: learningGoalKeys.overview(user?.id),
+    queryFn: async (): Promise<LearningOverview> => {
+      const response = await fetch('/api/user/goals', { headers: await getAuthHeaders() })
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch learning goals: ${response.status}`)
+      }
+
+      return response.json()
+    },
+    enabled: !!user?.id,
+    staleTime: 60 * 1000
+  })
+}
+
+export function useCreateLearningGoal() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: CreateGoalInput) => {
+      const result = await sendGoalRequest('', 'POST', input)
+      return result.goal as LearningGoal
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['learning-goals'] })
+    }
+  })
+}
+
+export function useDeleteLearningGoal() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (goalId: string) => sendGoalRequest(`/${goalId}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['learning-goals'] })
+    }
+  })
+}
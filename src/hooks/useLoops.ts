@@ -6,6 +6,64 @@ interface CreateLoopData {
   videoUrl: string
   startTime: number
   endTime: number
+  // Subtitles for media outside YouTube; the transcript comes from this file instead
+  subtitleFile?: {
+    content: string
+    fileName: string
+  }
+  title?: string
+}
+
+// Extract the transcript for a loop from YouTube or an uploaded subtitle file
+async function fetchLoopTranscript(data: CreateLoopData) {
+  const transcriptResponse = await fetch('/api/transcript', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(
+      data.subtitleFile
+        ? {
+            action: 'parseSubtitles',
+            subtitles: data.subtitleFile.content,
+            fileName: data.subtitleFile.fileName,
+            mediaUrl: data.videoUrl,
+            title: data.title,
+            startTime: data.startTime,
+            endTime: data.endTime
+          }
+        : {
+            videoId: data.videoUrl,
+            startTime: data.startTime,
+            endTime: data.endTime,
+            action: 'getSegment'
+          }
+    )
+  })
+
+  if (!transcriptResponse.ok) {
+    const error = await transcriptResponse.json()
+    throw new Error(error.error || 'Failed to extract transcript')
+  }
+
+  return transcriptResponse.json()
+}
+
+function loopPayload(data: CreateLoopData, transcript: any) {
+  return {
+    videoUrl: data.videoUrl,
+    videoTitle:
+      transcript.videoInfo?.title ||
+      (transcript.sourceType === 'subtitle_file' ? 'Lesson Recording' : 'YouTube Video'),
+    videoId: transcript.videoId,
+    startTime: data.startTime,
+    endTime: data.endTime,
+    transcript: transcript.fullText,
+    segments: transcript.segments,
+    language: transcript.language,
+    sourceType: transcript.sourceType,
+    metadata: {
+      videoInfo: transcript.videoInfo
+    }
+  }
 }
 
 export function useLoops(groupId: string) {
@@ -37,42 +95,14 @@ export function useCreateLoop(groupId: string) {
   return useMutation({
     mutationFn: async (data: CreateLoopData) => {
       // First, extract transcript using the existing API
-      const transcriptResponse = await fetch('/api/transcript', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          videoId: data.videoUrl,
-          startTime: data.startTime,
-          endTime: data.endTime,
-          action: 'getSegment'
-        })
-      })
-
-      if (!transcriptResponse.ok) {
-        const error = await transcriptResponse.json()
-        throw new Error(error.error || 'Failed to extract transcript')
-      }
-
-      const transcript = await transcriptResponse.json()
+      const transcript = await fetchLoopTranscript(data)
 
       // Then create loop using the API endpoint with auth headers
       const headers = await getAuthHeaders()
       const loopResponse = await fetch(`/api/groups/${groupId}/loops`, {
         method: 'POST',
         headers,
-        body: JSON.stringify({
-          videoUrl: data.videoUrl,
-          videoTitle: transcript.videoInfo?.title || 'YouTube Video',
-          videoId: transcript.videoId,
-          startTime: data.startTime,
-          endTime: data.endTime,
-          transcript: transcript.fullText,
-          segments: transcript.segments,
-          language: transcript.language,
-          metadata: {
-            videoInfo: transcript.videoInfo
-          }
-        })
+        body: JSON.stringify(loopPayload(data, transcript))
       })
 
       if (!loopResponse.ok) {
@@ -181,42 +211,14 @@ export function useCreateUserLoop() {
   return useMutation({
     mutationFn: async (data: CreateLoopData) => {
       // First, extract transcript using the existing API
-      const transcriptResponse = await fetch('/api/transcript', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          videoId: data.videoUrl,
-          startTime: data.startTime,
-          endTime: data.endTime,
-          action: 'getSegment'
-        })
-      })
-
-      if (!transcriptResponse.ok) {
-        const error = await transcriptResponse.json()
-        throw new Error(error.error || 'Failed to extract transcript')
-      }
-
-      const transcript = await transcriptResponse.json()
+      const transcript = await fetchLoopTranscript(data)
 
       // Then create loop using the user API endpoint with auth headers
       const headers = await getAuthHeaders()
       const loopResponse = await fetch('/api/user/loops', {
         method: 'POST',
         headers,
-        body: JSON.stringify({
-          videoUrl: data.videoUrl,
-          videoTitle: transcript.videoInfo?.title || 'YouTube Video',
-          videoId: transcript.videoId,
-          startTime: data.startTime,
-          endTime: data.endTime,
-          transcript: transcript.fullText,
-          segments: transcript.segments,
-          language: transcript.language,
-          metadata: {
-            videoInfo: transcript.videoInfo
-          }
-        })
+        body: JSON.stringify(loopPayload(data, transcript))
       })
 
       if (!loopResponse.ok) {
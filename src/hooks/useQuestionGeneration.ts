@@ -1,6 +1,7 @@
 import { useMutation } from '@tanstack/react-query'
 import { toast } from 'sonner'
 import { getAuthHeaders } from '../lib/supabase/auth-utils'
+import type { QuestionKind } from '../lib/services/ai/types'
 
 // Types
 interface LoopData {
@@ -22,6 +23,7 @@ interface GenerateQuestionParams {
   sessionId: string
   customCount?: number // Optional custom count for preset-based generation
   customPromptId?: string // Optional custom prompt ID
+  questionKind?: QuestionKind // Defaults to multiple choice
 }
 
 interface GenerateAllQuestionsParams {
@@ -34,6 +36,7 @@ interface GenerateAllQuestionsParams {
     hard: number
   } // Optional preset counts for intelligent generation
   customPromptId?: string // Optional custom prompt ID for using specialized prompts
+  questionKind?: QuestionKind // Defaults to multiple choice
 }
 
 interface QuestionGenerationResult {
@@ -51,7 +54,7 @@ interface UseQuestionGenerationOptions {
 
 export function useQuestionGeneration(options?: UseQuestionGenerationOptions) {
   return useMutation({
-    mutationFn: async ({ difficulty, loop, groupId, sessionId, customCount, customPromptId }: GenerateQuestionParams) => {
+    mutationFn: async ({ difficulty, loop, groupId, sessionId, customCount, customPromptId, questionKind }: GenerateQuestionParams) => {
       console.log(`Generating ${difficulty} questions for loop:`, loop, customCount ? `(${customCount} questions)` : '')
 
       if (!loop) {
@@ -79,7 +82,8 @@ export function useQuestionGeneration(options?: UseQuestionGenerationOptions) {
           groupId: groupId,
           sessionId: sessionId,
           customCount: customCount, // Pass custom count to API for preset-based generation
-          customPromptId: customPromptId // Pass custom prompt ID for specialized generation
+          customPromptId: customPromptId, // Pass custom prompt ID for specialized generation
+          questionKind
         })
       })
 
@@ -121,7 +125,7 @@ interface UseGenerateAllQuestionsOptions {
 
 export function useGenerateAllQuestions(options?: UseGenerateAllQuestionsOptions) {
   return useMutation({
-    mutationFn: async ({ loop, groupId, sessionId, presetCounts, customPromptId }: GenerateAllQuestionsParams) => {
+    mutationFn: async ({ loop, groupId, sessionId, presetCounts, customPromptId, questionKind }: GenerateAllQuestionsParams) => {
       console.log('Generating all questions for loop:', loop?.id, presetCounts ? 'with preset counts' : '', customPromptId ? `using custom prompt: ${customPromptId}` : '')
 
       if (!loop) {
@@ -151,7 +155,8 @@ export function useGenerateAllQuestions(options?: UseGenerateAllQuestionsOptions
         saveToDatabase: true,
         groupId: groupId,
         sessionId: sessionId,
-        ...(customPromptId && { customPromptId }) // Include customPromptId if provided
+        ...(customPromptId && { customPromptId }), // Include customPromptId if provided
+        ...(questionKind && { questionKind })
       }
 
       console.log('🎯 Request includes customPromptId:', !!customPromptId)
@@ -200,4 +205,141 @@ export function useGenerateAllQuestions(options?: UseGenerateAllQuestionsOptions
       options?.onError?.(error)
     }
   })
-}
\ No newline at end of file
+}
+// Streaming generation
+export interface StreamedQuestion {
+  difficulty: 'easy' | 'medium' | 'hard'
+  index: number
+  question: any
+}
+
+interface StreamGenerateResult {
+  actualDistribution: { easy: number; medium: number; hard: number }
+  shareTokens: Record<string, string>
+}
+
+interface UseStreamGenerateQuestionsOptions {
+  onQuestion?: (event: StreamedQuestion) => void
+  onDifficultyComplete?: (difficulty: string, count: number, shareToken?: string) => void
+  onSuccess?: (data: StreamGenerateResult) => void
+  onError?: (error: Error) => void
+}
+
+// Read `event:`/`data:` blocks from a text/event-stream response body
+async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: string, data: any) => void
+) {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const blocks = buffer.split('\n\n')
+    buffer = blocks.pop() || ''
+
+    for (const block of blocks) {
+      let event = 'message'
+      let data = ''
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim()
+        else if (line.startsWith('data:')) data += line.slice(5).trim()
+      }
+      if (data) onEvent(event, JSON.parse(data))
+    }
+  }
+}
+
+export function useStreamGenerateQuestions(options?: UseStreamGenerateQuestionsOptions) {
+  return useMutation({
+    mutationFn: async ({ loop, groupId, sessionId, presetCounts, customPromptId, questionKind }: GenerateAllQuestionsParams) => {
+      if (!loop) {
+        throw new Error('No loop data available')
+      }
+
+      const headers = await getAuthHeaders()
+      const response = await fetch('/api/questions/generate/stream', {
+        method: 'POST',
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          transcript: loop.transcript,
+          loop: {
+            id: loop.id,
+            videoTitle: loop.videoTitle || loop.title,
+            startTime: loop.startTime || loop.start_time || 0,
+            endTime: loop.endTime || loop.end_time || 300
+          },
+          segments: loop.segments,
+          preset: {
+            easy: presetCounts?.easy || 3,
+            medium: presetCounts?.medium || 2,
+            hard: presetCounts?.hard || 1
+          },
+          saveToDatabase: true,
+          groupId,
+          sessionId,
+          ...(customPromptId && { customPromptId }),
+          ...(questionKind && { questionKind })
+        })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to start question generation')
+      }
+
+      let result: StreamGenerateResult | null = null
+      let streamError: string | null = null
+
+      await readServerSentEvents(response, (event, data) => {
+        switch (event) {
+          case 'question':
+            options?.onQuestion?.(data)
+            break
+          case 'difficulty_complete':
+            options?.onDifficultyComplete?.(data.difficulty, data.count, data.shareToken)
+            break
+          case 'difficulty_failed':
+            console.warn(`Failed to generate ${data.difficulty} questions:`, data.error)
+            break
+          case 'complete':
+            result = data
+            break
+          case 'error':
+            streamError = data.error
+            break
+        }
+      })
+
+      if (streamError) {
+        throw new Error(streamError)
+      }
+      if (!result) {
+        throw new Error('Question stream ended unexpectedly')
+      }
+
+      return result as StreamGenerateResult
+    },
+    onSuccess: (result) => {
+      const { easy, medium, hard } = result.actualDistribution
+      toast.success(`Successfully generated ${easy + medium + hard} questions across all difficulties!`)
+      options?.onSuccess?.(result)
+    },
+    onError: (error: any) => {
+      console.error('Failed to stream questions:', error)
+      toast.error(`Failed to generate all questions: ${error.message}`)
+      options?.onError?.(error)
+    }
+  })
+}
@@ -0,0 +1,102 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '../contexts/AuthContext'
+import { getAuthHeaders } from '../lib/supabase/auth-utils'
+import type {
+  RecordAnswerInput,
+  ReviewSession,
+  ReviewSessionState,
+  StartSessionInput
+} from '../lib/services/review-session-service'
+
+export const reviewSessionKeys = {
+  active: (userId?: string) => ['review-session', userId] as const
+}
+
+async function sendSessionRequest(path: string, method: 'POST' | 'PATCH' | 'DELETE', body?: unknown) {
+  const response = await fetch(`/api/user/review-sessions${path}`, {
+    method,
+    headers: await getAuthHeaders(),
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {})
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Review session request failed')
+  }
+
+  return response.json()
+}
+
+// The unfinished session, which may have been started on another device
+export function useActiveReviewSession() {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: reviewSessionKeys.active(user?.id),
+    queryFn: async (): Promise<ReviewSessionState> => {
+      const response = await fetch('/api/user/review-sessions', { headers: await getAuthHeaders() })
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch review session: ${response.status}`)
+      }
+
+      return response.json()
+    },
+    enabled: !!user?.id,
+    // Picking the page back up on another device should show where the review got to
+    refetchOnWindowFocus: true,
+    staleTime: 0
+  })
+}
+
+export function useStartReviewSession() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: StartSessionInput) => {
+      const result = await sendSessionRequest('', 'POST', input)
+      return result.session as ReviewSession
+    },
+    onSuccess: session => {
+      queryClient.setQueryData<ReviewSessionState>(reviewSessionKeys.active(user?.id), prev => ({
+        session,
+        dueCount: prev?.dueCount || 0
+      }))
+    }
+  })
+}
+
+export function useAnswerReviewCard() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ sessionId, ...input }: RecordAnswerInput & { sessionId: string }) => {
+      const result = await sendSessionRequest(`/${sessionId}`, 'PATCH', input)
+      return result.session as ReviewSession
+    },
+    onSuccess: session => {
+      // A completed session stays in the cache so its summary can be shown
+      queryClient.setQueryData<ReviewSessionState>(reviewSessionKeys.active(user?.id), prev => ({
+        session,
+        dueCount: prev?.dueCount || 0
+      }))
+      queryClient.invalidateQueries({ queryKey: ['learning-goals'] })
+    }
+  })
+}
+
+export function useEndReviewSession() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (sessionId: string) => sendSessionRequest(`/${sessionId}`, 'DELETE'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reviewSessionKeys.active(user?.id) })
+    }
+  })
+}
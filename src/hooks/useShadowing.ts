@@ -0,0 +1,89 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '../contexts/AuthContext'
+import { getAuthHeaders } from '../lib/supabase/auth-utils'
+import type { ShadowingAttempt, ShadowingPractice } from '../lib/services/shadowing-service'
+
+export const shadowingKeys = {
+  practice: (loopId: string, userId?: string) => ['shadowing', loopId, userId] as const
+}
+
+export function useShadowingPractice(loopId: string) {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: shadowingKeys.practice(loopId, user?.id),
+    queryFn: async (): Promise<ShadowingPractice> => {
+      const response = await fetch(`/api/user/loops/${loopId}/shadowing`, { headers: await getAuthHeaders() })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to load shadowing practice')
+      }
+
+      return response.json()
+    },
+    enabled: !!user?.id && !!loopId,
+    // Playback URLs are signed for an hour
+    staleTime: 5 * 60 * 1000
+  })
+}
+
+export interface SubmitTakeInput {
+  segmentIndex: number
+  audio: Blob
+  durationSeconds: number
+}
+
+export function useSubmitShadowingTake(loopId: string) {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ segmentIndex, audio, durationSeconds }: SubmitTakeInput) => {
+      const params = new URLSearchParams({ segment: String(segmentIndex), duration: durationSeconds.toFixed(2) })
+      const response = await fetch(`/api/user/loops/${loopId}/shadowing?${params}`, {
+        method: 'POST',
+        // The recording is sent as the raw body
+        headers: { ...(await getAuthHeaders()), 'Content-Type': audio.type || 'audio/webm' },
+        body: audio
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to score recording')
+      }
+
+      const result = await response.json()
+      return result.attempt as ShadowingAttempt
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: shadowingKeys.practice(loopId, user?.id) })
+    }
+  })
+}
+
+export function useDeleteShadowingTake(loopId: string) {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (recordingId: string) => {
+      const response = await fetch(`/api/user/loops/${loopId}/shadowing/${recordingId}`, {
+        method: 'DELETE',
+        headers: await getAuthHeaders()
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to delete recording')
+      }
+
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: shadowingKeys.practice(loopId, user?.id) })
+    }
+  })
+}
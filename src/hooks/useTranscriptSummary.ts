@@ -0,0 +1,79 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '../contexts/AuthContext'
+import { getAuthHeaders } from '../lib/supabase/auth-utils'
+import type { LoopSummaryResponse, TranscriptSummaryInput } from '../lib/services/transcript-summary-service'
+
+export const transcriptSummaryKeys = {
+  summary: (loopId: string, userId?: string) => ['transcript-summary', loopId, userId] as const
+}
+
+export function useTranscriptSummary(loopId?: string) {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: transcriptSummaryKeys.summary(loopId || '', user?.id),
+    queryFn: async (): Promise<LoopSummaryResponse> => {
+      const response = await fetch(`/api/user/loops/${loopId}/summary`, { headers: await getAuthHeaders() })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to load summary')
+      }
+
+      return response.json()
+    },
+    enabled: !!user?.id && !!loopId,
+    staleTime: 10 * 60 * 1000
+  })
+}
+
+export function useGenerateTranscriptSummary(loopId: string) {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (): Promise<LoopSummaryResponse> => {
+      const response = await fetch(`/api/user/loops/${loopId}/summary`, {
+        method: 'POST',
+        headers: await getAuthHeaders()
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to generate summary')
+      }
+
+      return response.json()
+    },
+    onSuccess: data => {
+      queryClient.setQueryData(transcriptSummaryKeys.summary(loopId, user?.id), data)
+    }
+  })
+}
+
+export function useUpdateTranscriptSummary(loopId: string) {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: TranscriptSummaryInput): Promise<LoopSummaryResponse> => {
+      const response = await fetch(`/api/user/loops/${loopId}/summary`, {
+        method: 'PUT',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(input)
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to save summary')
+      }
+
+      return response.json()
+    },
+    onSuccess: data => {
+      queryClient.setQueryData(transcriptSummaryKeys.summary(loopId, user?.id), data)
+    }
+  })
+}
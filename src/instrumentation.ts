@@ -0,0 +1,9 @@
+// Next.js calls register() once when a server instance starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.JOB_RUNNER_ENABLED === 'false') {
+    return
+  }
+
+  const { startJobRunner } = await import('./lib/scheduled-tasks')
+  startJobRunner()
+}
@@ -15,14 +15,6 @@ interface GroupQuizState {
   } | null
 }
 
-interface QuizResult {
-  score: number
-  totalQuestions: number
-  correctAnswers: number
-  timeTakenSeconds?: number
-  resultData?: any
-}
-
 export function useGroupQuiz() {
   const router = useRouter()
   const [groupQuizState, setGroupQuizState] = useState<GroupQuizState>({
@@ -117,44 +109,6 @@ export function useGroupQuiz() {
     localStorage.removeItem('currentGroupQuiz')
   }
 
-  const saveGroupQuizResult = async (result: QuizResult): Promise<boolean> => {
-    if (!groupQuizState.isGroupSession || !groupQuizState.groupId || !groupQuizState.sessionId) {
-      return false
-    }
-
-    try {
-      const response = await fetch(
-        `/api/groups/${groupQuizState.groupId}/sessions/${groupQuizState.sessionId}/results`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            score: result.score,
-            total_questions: result.totalQuestions,
-            correct_answers: result.correctAnswers,
-            time_taken_seconds: result.timeTakenSeconds,
-            result_data: result.resultData
-          })
-        }
-      )
-
-      if (response.ok) {
-        // Clear group context after successful save
-        leaveGroupSession()
-        return true
-      } else {
-        const errorData = await response.json()
-        console.error('Failed to save group quiz result:', errorData.error)
-        return false
-      }
-    } catch (error) {
-      console.error('Error saving group quiz result:', error)
-      return false
-    }
-  }
-
   const getGroupResultsUrl = (): string | null => {
     if (!groupQuizState.isGroupSession || !groupQuizState.groupId || !groupQuizState.sessionId) {
       return null
@@ -173,7 +127,6 @@ export function useGroupQuiz() {
     ...groupQuizState,
     joinGroupSession,
     leaveGroupSession,
-    saveGroupQuizResult,
     getGroupResultsUrl,
     isInGroupSession,
     fetchSessionInfo: () => {
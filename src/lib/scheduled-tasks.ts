@@ -1,13 +1,33 @@
-// Scheduled cleanup tasks for maintenance
+// Scheduled maintenance tasks, run through the background job runner
+import { achievementService } from './services/achievement-service'
+import { challengeService } from './services/challenge-service'
+import { emailDeliveryService } from './services/email'
 import { createSharedQuestionsService } from './services/shared-questions-service'
+import { jobRunnerService, type JobHandler } from './services/job-runner-service'
+import { getSupabaseServiceRole } from './supabase/service-role'
+import type { Json } from './supabase/types'
+import { isSessionExpiredByTime } from './utils/session-expiry'
+
+// Members are reminded about sessions starting within this window
+const REMINDER_LEAD_TIME_MS = 60 * 60 * 1000
+// Sessions that ended longer ago than this are not awarded retroactively
+const SESSION_AWARD_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+
+function getServiceClient() {
+  const supabase = getSupabaseServiceRole()
+  if (!supabase) {
+    throw new Error('Database not configured')
+  }
+  return supabase
+}
 
 export async function cleanupExpiredQuestions(): Promise<{ deletedCount: number }> {
   try {
     const questionsService = createSharedQuestionsService()
     const deletedCount = await questionsService.deleteExpiredQuestionSets()
-    
+
     console.log(`Scheduled cleanup: ${deletedCount} expired question sets deleted at ${new Date().toISOString()}`)
-    
+
     return { deletedCount }
   } catch (error) {
     console.error('Scheduled cleanup failed:', error)
@@ -15,21 +35,208 @@ export async function cleanupExpiredQuestions(): Promise<{ deletedCount: number
   }
 }
 
-// Run cleanup every 6 hours
-export function startCleanupSchedule() {
-  const CLEANUP_INTERVAL = 6 * 60 * 60 * 1000 // 6 hours in milliseconds
-  
-  console.log('Starting cleanup schedule: every 6 hours')
-  
-  // Run immediately on startup
-  cleanupExpiredQuestions()
-  
-  // Schedule recurring cleanup
-  setInterval(async () => {
-    try {
-      await cleanupExpiredQuestions()
-    } catch (error) {
-      console.error('Scheduled cleanup error:', error)
+/**
+ * Mark open group sessions past their 24 hour lifetime as completed, across all groups
+ */
+export async function expireGroupSessions(): Promise<{ expiredCount: number }> {
+  const supabase = getServiceClient()
+
+  const { data: sessions, error } = await supabase
+    .from('group_quiz_sessions')
+    .select('id, session_type, created_at, scheduled_at')
+    .in('status', ['scheduled', 'active'])
+
+  if (error) {
+    throw new Error(`Failed to fetch sessions: ${error.message}`)
+  }
+
+  const expiredIds = (sessions || []).filter(session => isSessionExpiredByTime(session)).map(session => session.id)
+
+  if (expiredIds.length > 0) {
+    const now = new Date().toISOString()
+    const { error: updateError } = await supabase
+      .from('group_quiz_sessions')
+      .update({ status: 'completed', ended_at: now, updated_at: now })
+      .in('id', expiredIds)
+
+    if (updateError) {
+      throw new Error(`Failed to update expired sessions: ${updateError.message}`)
     }
-  }, CLEANUP_INTERVAL)
-}
\ No newline at end of file
+  }
+
+  return { expiredCount: expiredIds.length }
+}
+
+/**
+ * Notify group members about scheduled sessions starting soon. Sent sessions are
+ * marked in their settings so each reminder goes out once.
+ */
+export async function sendSessionReminders(): Promise<{ sessionCount: number; notificationCount: number }> {
+  const supabase = getServiceClient()
+  const now = new Date()
+
+  const { data: sessions, error } = await supabase
+    .from('group_quiz_sessions')
+    .select('id, group_id, quiz_title, scheduled_at, settings')
+    .eq('status', 'scheduled')
+    .gte('scheduled_at', now.toISOString())
+    .lte('scheduled_at', new Date(now.getTime() + REMINDER_LEAD_TIME_MS).toISOString())
+
+  if (error) {
+    throw new Error(`Failed to fetch upcoming sessions: ${error.message}`)
+  }
+
+  let sessionCount = 0
+  let notificationCount = 0
+
+  for (const session of sessions || []) {
+    const settings = (session.settings as Record<string, Json> | null) || {}
+    if (settings.reminderSentAt) continue
+
+    const { data: members, error: membersError } = await supabase
+      .from('study_group_members')
+      .select('user_id')
+      .eq('group_id', session.group_id)
+
+    if (membersError) {
+      throw new Error(`Failed to fetch group members: ${membersError.message}`)
+    }
+
+    const startsAt = new Date(session.scheduled_at!)
+    const notifications = (members || []).map(member => ({
+      user_id: member.user_id,
+      type: 'session_reminder',
+      title: 'Quiz session starting soon',
+      message: `${session.quiz_title || 'A group quiz'} starts at ${startsAt.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`,
+      data: { groupId: session.group_id, sessionId: session.id, scheduledAt: session.scheduled_at },
+      expires_at: new Date(startsAt.getTime() + REMINDER_LEAD_TIME_MS).toISOString()
+    }))
+
+    if (notifications.length > 0) {
+      const { error: insertError } = await supabase.from('social_notifications').insert(notifications)
+      if (insertError) {
+        throw new Error(`Failed to create reminders: ${insertError.message}`)
+      }
+    }
+
+    const { error: updateError } = await supabase
+      .from('group_quiz_sessions')
+      .update({ settings: { ...settings, reminderSentAt: now.toISOString() } })
+      .eq('id', session.id)
+
+    if (updateError) {
+      throw new Error(`Failed to mark reminder as sent: ${updateError.message}`)
+    }
+
+    sessionCount++
+    notificationCount += notifications.length
+  }
+
+  return { sessionCount, notificationCount }
+}
+
+/**
+ * Award top scorer badges for sessions that have ended. Awarded sessions are
+ * marked in their settings so each session is processed once.
+ */
+export async function awardSessionAchievements(): Promise<{ sessionCount: number; winnerCount: number }> {
+  const supabase = getServiceClient()
+
+  const { data: sessions, error } = await supabase
+    .from('group_quiz_sessions')
+    .select('id, group_id, settings')
+    .eq('status', 'completed')
+    .gte('ended_at', new Date(Date.now() - SESSION_AWARD_WINDOW_MS).toISOString())
+
+  if (error) {
+    throw new Error(`Failed to fetch completed sessions: ${error.message}`)
+  }
+
+  let sessionCount = 0
+  let winnerCount = 0
+
+  for (const session of sessions || []) {
+    const settings = (session.settings as Record<string, Json> | null) || {}
+    if (settings.achievementsAwardedAt) continue
+
+    const winners = await achievementService.awardSessionTopScorers(session.group_id, session.id)
+
+    const { error: updateError } = await supabase
+      .from('group_quiz_sessions')
+      .update({ settings: { ...settings, achievementsAwardedAt: new Date().toISOString() } })
+      .eq('id', session.id)
+
+    if (updateError) {
+      throw new Error(`Failed to mark session achievements as awarded: ${updateError.message}`)
+    }
+
+    sessionCount++
+    winnerCount += winners.length
+  }
+
+  return { sessionCount, winnerCount }
+}
+
+/**
+ * Close group challenges whose end date has passed
+ */
+export async function closeGroupChallenges(): Promise<{ closedCount: number }> {
+  return { closedCount: await challengeService.closeExpiredChallenges() }
+}
+
+/**
+ * Usage counters are kept per month; drop rows from past months
+ */
+export async function resetUsage(): Promise<{ deletedCount: number }> {
+  const { data, error } = await getServiceClient().rpc('cleanup_old_usage_data')
+
+  if (error) {
+    throw new Error(`Failed to reset usage: ${error.message}`)
+  }
+
+  return { deletedCount: data ?? 0 }
+}
+
+/**
+ * Drop in-app notifications past their expires_at
+ */
+export async function cleanupExpiredNotifications(): Promise<{ deletedCount: number }> {
+  const { data, error } = await getServiceClient().rpc('cleanup_expired_notifications')
+
+  if (error) {
+    throw new Error(`Failed to clean up notifications: ${error.message}`)
+  }
+
+  return { deletedCount: data ?? 0 }
+}
+
+/**
+ * Resend notification emails whose earlier attempts failed
+ */
+export async function retryEmailDeliveries(): Promise<{ attempted: number; sent: number; failed: number }> {
+  return emailDeliveryService.retryDueDeliveries()
+}
+
+// Keys match the rows seeded in background_jobs
+export const SCHEDULED_JOBS: Record<string, JobHandler> = {
+  cleanup_expired_questions: cleanupExpiredQuestions,
+  expire_group_sessions: expireGroupSessions,
+  send_session_reminders: sendSessionReminders,
+  award_session_achievements: awardSessionAchievements,
+  close_group_challenges: closeGroupChallenges,
+  reset_usage: resetUsage,
+  retry_email_deliveries: retryEmailDeliveries,
+  cleanup_expired_notifications: cleanupExpiredNotifications
+}
+
+export function registerScheduledJobs() {
+  for (const [name, handler] of Object.entries(SCHEDULED_JOBS)) {
+    jobRunnerService.register(name, handler)
+  }
+  return jobRunnerService
+}
+
+// Poll for due jobs; safe to call on every instance
+export function startJobRunner() {
+  registerScheduledJobs().start()
+}
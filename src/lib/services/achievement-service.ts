@@ -0,0 +1,391 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseServiceRole } from '../supabase/service-role'
+import type { Database, Tables } from '../supabase/types'
+import { MASTERED_INTERVAL_DAYS } from './srs'
+
+export type AchievementId = 'first_perfect_score' | 'streak_7_days' | 'words_mastered_100' | 'session_top_scorer'
+
+export interface AchievementDefinition {
+  id: AchievementId
+  name: string
+  description: string
+  // lucide-react icon name
+  icon: string
+  rarity: 'common' | 'rare' | 'epic'
+  type: 'quiz' | 'streak' | 'vocabulary' | 'group'
+  xpReward: number
+}
+
+export const ACHIEVEMENTS: Record<AchievementId, AchievementDefinition> = {
+  first_perfect_score: {
+    id: 'first_perfect_score',
+    name: 'Flawless',
+    description: 'Score 100% on a quiz',
+    icon: 'Star',
+    rarity: 'common',
+    type: 'quiz',
+    xpReward: 50
+  },
+  streak_7_days: {
+    id: 'streak_7_days',
+    name: 'On Fire',
+    description: 'Practice 7 days in a row',
+    icon: 'Flame',
+    rarity: 'rare',
+    type: 'streak',
+    xpReward: 100
+  },
+  words_mastered_100: {
+    id: 'words_mastered_100',
+    name: 'Word Hoard',
+    description: `Master 100 words (reviewed with an interval of ${MASTERED_INTERVAL_DAYS}+ days)`,
+    icon: 'BookOpen',
+    rarity: 'epic',
+    type: 'vocabulary',
+    xpReward: 250
+  },
+  session_top_scorer: {
+    id: 'session_top_scorer',
+    name: 'Top of the Class',
+    description: 'Finish a group session with the highest score',
+    icon: 'Trophy',
+    rarity: 'rare',
+    type: 'group',
+    xpReward: 100
+  }
+}
+
+export type UserAchievement = Tables<'user_achievements'>
+
+export type LeaderboardPeriod = 'week' | 'all'
+
+export interface LeaderboardEntry {
+  userId: string
+  username: string
+  avatar: string | null
+  quizzes: number
+  // Correct answers across the period's sessions
+  points: number
+  averageScore: number
+  topScorerAwards: number
+}
+
+const STREAK_GOAL_DAYS = 7
+const MASTERED_WORDS_GOAL = 100
+// Activity older than this cannot affect a 7-day streak check
+const STREAK_LOOKBACK_DAYS = 14
+// A session needs at least this many results before anyone is its top scorer
+const MIN_RESULTS_FOR_TOP_SCORER = 2
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * Consecutive days with activity ending today, or yesterday if there is no
+ * activity yet today. Days are UTC calendar days.
+ */
+export function currentStreakDays(activity: (string | Date)[], now: Date = new Date()): number {
+  const days = new Set(activity.map(value => dayKey(new Date(value))))
+
+  const cursor = new Date(now)
+  if (!days.has(dayKey(cursor))) {
+    cursor.setUTCDate(cursor.getUTCDate() - 1)
+  }
+
+  let streak = 0
+  while (days.has(dayKey(cursor))) {
+    streak++
+    cursor.setUTCDate(cursor.getUTCDate() - 1)
+  }
+
+  return streak
+}
+
+/**
+ * Users with the highest score in a session; everyone tied for first counts
+ */
+export function findTopScorers(results: { user_id: string; score: number }[]): string[] {
+  if (results.length < MIN_RESULTS_FOR_TOP_SCORER) return []
+
+  const best = Math.max(...results.map(result => result.score))
+  return [...new Set(results.filter(result => result.score === best).map(result => result.user_id))]
+}
+
+function getServiceClient() {
+  const supabase = getSupabaseServiceRole()
+  if (!supabase) {
+    throw new Error('Database not configured')
+  }
+  return supabase
+}
+
+/**
+ * Achievement Service
+ * Rules are checked against stored activity rather than the event that
+ * triggered them, so evaluating twice is harmless. Awards are written with
+ * the service role and unique keys make repeated awards no-ops.
+ */
+export class AchievementService {
+  async listUserAchievements(supabase: SupabaseClient<Database>, userId: string): Promise<UserAchievement[]> {
+    const { data, error } = await supabase
+      .from('user_achievements')
+      .select('*')
+      .eq('user_id', userId)
+      .order('unlocked_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch achievements: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  /**
+   * Check the per-user rules (perfect score, streak, mastered words) and
+   * award what is newly earned. Call after quiz submissions and reviews.
+   */
+  async evaluateUser(userId: string): Promise<UserAchievement[]> {
+    try {
+      const supabase = getServiceClient()
+      const since = new Date(Date.now() - STREAK_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+      // Both result tables are written only by the routes that grade on the server;
+      // group results whose client score disagreed with the server's don't count
+      const [groupPerfect, individualPerfect, mastered, reviews, groupResults, submissions] = await Promise.all([
+        supabase
+          .from('group_quiz_results')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .eq('score', 100)
+          .eq('tamper_flagged', false),
+        supabase
+          .from('question_set_submissions')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .eq('score', 100),
+        supabase
+          .from('user_vocabulary_deck')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .eq('learning_status', 'review')
+          .gte('interval_days', MASTERED_INTERVAL_DAYS),
+        supabase
+          .from('user_vocabulary_reviews')
+          .select('reviewed_at')
+          .eq('user_id', userId)
+          .gte('reviewed_at', since),
+        supabase
+          .from('group_quiz_results')
+          .select('completed_at')
+          .eq('user_id', userId)
+          .gte('completed_at', since),
+        supabase
+          .from('question_set_submissions')
+          .select('submitted_at')
+          .eq('user_id', userId)
+          .gte('submitted_at', since)
+      ])
+
+      const failed = [groupPerfect, individualPerfect, mastered, reviews, groupResults, submissions].find(
+        result => result.error
+      )
+      if (failed?.error) throw failed.error
+
+      const activity = [
+        ...(reviews.data || []).map(review => review.reviewed_at),
+        ...(groupResults.data || []).map(result => result.completed_at),
+        ...(submissions.data || []).map(submission => submission.submitted_at)
+      ].filter((value): value is string => !!value)
+
+      const earned: AchievementId[] = []
+      if ((groupPerfect.count || 0) + (individualPerfect.count || 0) > 0) earned.push('first_perfect_score')
+      if (currentStreakDays(activity) >= STREAK_GOAL_DAYS) earned.push('streak_7_days')
+      if ((mastered.count || 0) >= MASTERED_WORDS_GOAL) earned.push('words_mastered_100')
+
+      return await this.award(userId, earned)
+    } catch (error) {
+      console.error('Error evaluating achievements:', error)
+      return []
+    }
+  }
+
+  /**
+   * Record the top scorers of a finished session in the group's award
+   * history and give them the top scorer badge. Returns the winners.
+   */
+  async awardSessionTopScorers(groupId: string, sessionId: string): Promise<string[]> {
+    const supabase = getServiceClient()
+
+    const { data: results, error } = await supabase
+      .from('group_quiz_results')
+      .select('user_id, score')
+      .eq('session_id', sessionId)
+
+    if (error) {
+      throw new Error(`Failed to fetch session results: ${error.message}`)
+    }
+
+    const winners = findTopScorers(results || [])
+    if (winners.length === 0) return []
+
+    const best = Math.max(...(results || []).map(result => result.score))
+    const { error: insertError } = await supabase.from('group_achievements').upsert(
+      winners.map(userId => ({
+        group_id: groupId,
+        user_id: userId,
+        achievement_type: 'session_top_scorer',
+        achievement_key: sessionId,
+        achievement_data: { sessionId, score: best, participants: results?.length || 0 }
+      })),
+      { onConflict: 'group_id,user_id,achievement_type,achievement_key', ignoreDuplicates: true }
+    )
+
+    if (insertError) {
+      throw new Error(`Failed to record top scorers: ${insertError.message}`)
+    }
+
+    for (const userId of winners) {
+      await this.award(userId, ['session_top_scorer'])
+    }
+
+    return winners
+  }
+
+  /**
+   * Rank group members by correct answers in the group's sessions
+   */
+  async getGroupLeaderboard(
+    supabase: SupabaseClient<Database>,
+    groupId: string,
+    period: LeaderboardPeriod
+  ): Promise<LeaderboardEntry[]> {
+    const since = period === 'week' ? new Date(Date.now() - WEEK_MS).toISOString() : null
+
+    const { data: sessions, error: sessionsError } = await supabase
+      .from('group_quiz_sessions')
+      .select('id')
+      .eq('group_id', groupId)
+
+    if (sessionsError) {
+      throw new Error(`Failed to fetch group sessions: ${sessionsError.message}`)
+    }
+
+    const sessionIds = (sessions || []).map(session => session.id)
+    if (sessionIds.length === 0) return []
+
+    let resultsQuery = supabase
+      .from('group_quiz_results')
+      .select('user_id, score, correct_answers, completed_at')
+      .in('session_id', sessionIds)
+    let awardsQuery = supabase
+      .from('group_achievements')
+      .select('user_id')
+      .eq('group_id', groupId)
+      .eq('achievement_type', 'session_top_scorer')
+
+    if (since) {
+      resultsQuery = resultsQuery.gte('completed_at', since)
+      awardsQuery = awardsQuery.gte('earned_at', since)
+    }
+
+    const [{ data: results, error: resultsError }, { data: awards, error: awardsError }, { data: members, error: membersError }] =
+      await Promise.all([
+        resultsQuery,
+        awardsQuery,
+        supabase.from('study_group_members').select('user_id, username, avatar').eq('group_id', groupId)
+      ])
+
+    if (resultsError || awardsError || membersError) {
+      throw new Error(
+        `Failed to fetch leaderboard: ${(resultsError || awardsError || membersError)?.message}`
+      )
+    }
+
+    const memberMap = new Map((members || []).map(member => [member.user_id, member]))
+    const entries = new Map<string, LeaderboardEntry & { scoreTotal: number }>()
+
+    for (const result of results || []) {
+      // Former members drop off the board
+      const member = memberMap.get(result.user_id)
+      if (!member) continue
+
+      const entry = entries.get(result.user_id) || {
+        userId: result.user_id,
+        username: member.username,
+        avatar: member.avatar,
+        quizzes: 0,
+        points: 0,
+        averageScore: 0,
+        topScorerAwards: 0,
+        scoreTotal: 0
+      }
+      entry.quizzes++
+      entry.points += result.correct_answers
+      entry.scoreTotal += result.score
+      entries.set(result.user_id, entry)
+    }
+
+    for (const award of awards || []) {
+      const entry = award.user_id ? entries.get(award.user_id) : undefined
+      if (entry) entry.topScorerAwards++
+    }
+
+    return [...entries.values()]
+      .map(({ scoreTotal, ...entry }) => ({
+        ...entry,
+        averageScore: Math.round(scoreTotal / entry.quizzes)
+      }))
+      .sort((a, b) => b.points - a.points || b.averageScore - a.averageScore)
+  }
+
+  // Insert the badges the user does not have yet and notify them about new ones
+  private async award(userId: string, achievementIds: AchievementId[]): Promise<UserAchievement[]> {
+    if (achievementIds.length === 0) return []
+
+    const supabase = getServiceClient()
+    const { data, error } = await supabase
+      .from('user_achievements')
+      .upsert(
+        achievementIds.map(id => {
+          const achievement = ACHIEVEMENTS[id]
+          return {
+            user_id: userId,
+            achievement_id: achievement.id,
+            name: achievement.name,
+            description: achievement.description,
+            icon: achievement.icon,
+            rarity: achievement.rarity,
+            type: achievement.type,
+            xp_reward: achievement.xpReward
+          }
+        }),
+        { onConflict: 'user_id,achievement_id', ignoreDuplicates: true }
+      )
+      .select()
+
+    if (error) {
+      throw new Error(`Failed to award achievements: ${error.message}`)
+    }
+
+    const awarded = data || []
+    if (awarded.length > 0) {
+      const { error: notifyError } = await supabase.from('social_notifications').insert(
+        awarded.map(achievement => ({
+          user_id: userId,
+          type: 'achievement',
+          title: 'Badge earned',
+          message: `You earned "${achievement.name}": ${achievement.description}`,
+          data: { achievementId: achievement.achievement_id }
+        }))
+      )
+
+      if (notifyError) {
+        console.error('Failed to notify about achievements:', notifyError)
+      }
+    }
+
+    return awarded
+  }
+}
+
+export const achievementService = new AchievementService()
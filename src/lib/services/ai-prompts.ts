@@ -1,4 +1,6 @@
 import { ChatMessage, DifficultyPreset, SavedLoop } from './ai-service'
+import type { QuestionKind } from './ai/types'
+import { AIUtils } from './ai/utils'
 
 /**
  * AI Prompts for Question Generation and other AI operations
@@ -118,7 +120,7 @@ Please generate multiple-choice questions with the following criteria:
           .join('\n')
       : context.transcript
 
-    return `Based on the following YouTube video transcript, generate exactly ${totalQuestions} comprehension questions with this specific difficulty distribution:
+    return `Based on the following video transcript, generate exactly ${totalQuestions} comprehension questions with this specific difficulty distribution:
 
 **REQUIRED DISTRIBUTION:**
 - Easy: ${distribution.easy} questions (simple, everyday vocabulary)
@@ -222,11 +224,15 @@ export class PromptManager {
         return false
       }
 
-      if (!Array.isArray(question.options) || question.options.length !== 4) {
-        return false
-      }
+      if (!question.kind || question.kind === 'multiple_choice') {
+        if (!Array.isArray(question.options) || question.options.length !== 4) {
+          return false
+        }
 
-      if (!question.correctAnswer || !['A', 'B', 'C', 'D'].includes(question.correctAnswer)) {
+        if (!question.correctAnswer || !['A', 'B', 'C', 'D'].includes(question.correctAnswer)) {
+          return false
+        }
+      } else if (!AIUtils.validateQuestionStructure(question, 0)) {
         return false
       }
 
@@ -267,6 +273,10 @@ export class PromptManager {
       question: q.question?.trim(),
       options: q.options?.map((opt: string) => opt?.trim()),
       correctAnswer: q.correctAnswer?.trim(),
+      ...(q.kind ? { kind: q.kind } : {}),
+      ...(Array.isArray(q.acceptedAnswers)
+        ? { acceptedAnswers: q.acceptedAnswers.map((a: string) => a?.trim()) }
+        : {}),
       explanation: q.explanation?.trim() || 'No explanation provided',
       difficulty: q.difficulty?.trim(),
       type: q.type?.trim()
@@ -442,10 +452,264 @@ ${previousQuestionsText}
 }
 
 
+// Question kinds other than multiple choice share one prompt shape and differ in
+// their instructions and JSON example
+interface QuestionKindPromptSpec {
+  label: string
+  instructions: string
+  example: object
+  reminder: string
+}
+
+const questionKindPromptSpecs: Record<Exclude<QuestionKind, 'multiple_choice'>, QuestionKindPromptSpec> = {
+  cloze: {
+    label: 'gap-fill dictation',
+    instructions: `- Copy a sentence from the transcript WORD FOR WORD and replace 1-3 important words or short phrases with "_____" (five underscores).
+   - Choose words a learner must hear clearly: key vocabulary, reduced forms, linking sounds, numbers and names.
+   - "acceptedAnswers" lists the exact missing words for each blank, in order. "correctAnswer" is the same words joined with " | ".
+   - Easy: one common word. Medium: a phrasal verb or collocation. Hard: fast or reduced speech, or several blanks.
+   - Leave "options" as an empty array.`,
+    example: {
+      kind: 'cloze',
+      question: 'Complete what the speaker says: "We _____ to the park because it was _____."',
+      options: [],
+      correctAnswer: 'went | sunny',
+      acceptedAnswers: ['went', 'sunny'],
+      explanation: 'The speaker says this at [01:15-01:22].',
+      difficulty: 'easy',
+      type: 'specific_detail'
+    },
+    reminder: 'Every blank is "_____" and "acceptedAnswers" has exactly one entry per blank'
+  },
+  ordering: {
+    label: 'sentence ordering',
+    instructions: `- Pick 4-5 events, ideas or sentences from the transcript that happen in a clear order.
+   - List them in "options" in the CORRECT order. The system shuffles them for the learner.
+   - "correctAnswer" is the letters of the options in order, which is always "ABCD" (or "ABCDE").
+   - Each item must be short (under 15 words) and clearly distinct from the others.`,
+    example: {
+      kind: 'ordering',
+      question: 'Put these events in the order the speaker describes them.',
+      options: [
+        'She woke up late',
+        'She missed the bus',
+        'She called her manager',
+        'She took a taxi to work'
+      ],
+      correctAnswer: 'ABCD',
+      explanation: 'The speaker tells the story in this order between [00:10-00:45].',
+      difficulty: 'medium',
+      type: 'specific_detail'
+    },
+    reminder: 'Options are listed in the correct order and "correctAnswer" is "ABCD" or "ABCDE"'
+  },
+  true_false_not_given: {
+    label: 'true / false / not given',
+    instructions: `- Write a single statement about the transcript (not a question).
+   - "True": the transcript clearly supports it. "False": the transcript clearly contradicts it. "Not Given": the transcript does not say either way.
+   - Use all three answers across the set; "Not Given" statements should sound plausible.
+   - "options" is always ["True", "False", "Not Given"] and "correctAnswer" is "A", "B" or "C".`,
+    example: {
+      kind: 'true_false_not_given',
+      question: 'The speaker went to the park alone.',
+      options: ['True', 'False', 'Not Given'],
+      correctAnswer: 'B',
+      explanation: 'At [01:15-01:22] the speaker says they went with their sister.',
+      difficulty: 'easy',
+      type: 'specific_detail'
+    },
+    reminder: 'Statements, not questions; options are exactly ["True", "False", "Not Given"]'
+  },
+  short_answer: {
+    label: 'short answer',
+    instructions: `- Ask an open question that can be answered in 1-5 words taken from or clearly supported by the transcript.
+   - "correctAnswer" is the best short answer. "acceptedAnswers" lists other wordings that should also be marked correct (synonyms, with/without articles, numbers as digits and words).
+   - Avoid questions with many possible correct answers.
+   - Leave "options" as an empty array.`,
+    example: {
+      kind: 'short_answer',
+      question: 'Where did the speaker go on Saturday?',
+      options: [],
+      correctAnswer: 'the park',
+      acceptedAnswers: ['park', 'to the park', 'a park'],
+      explanation: 'The speaker mentions the park at [01:15-01:22].',
+      difficulty: 'easy',
+      type: 'specific_detail'
+    },
+    reminder: 'Answers are 1-5 words and "acceptedAnswers" covers common alternative wordings'
+  }
+}
+
+function createQuestionKindPrompt(kind: Exclude<QuestionKind, 'multiple_choice'>): PromptTemplate {
+  const spec = questionKindPromptSpecs[kind]
+
+  return {
+    system: `You are an expert ESL/EFL instructor designing a learning module for ambitious entry-level students aiming for advanced proficiency. The primary focus is on improving **active listening skills**.
+
+Please generate **${spec.label}** questions for a SINGLE DIFFICULTY LEVEL with the following criteria:
+
+**1. Difficulty Levels:**
+   - **Easy:** Explicitly stated information and simple, everyday vocabulary.
+   - **Medium:** Connecting ideas, phrasal verbs and common expressions.
+   - **Hard:** Inference, tone, or fast and reduced speech.
+
+**2. Question Format:**
+   ${spec.instructions}
+
+**3. Explanations for Learning:**
+   - Explain the answer in simple language.
+   - Include timeframe references using format: [MM:SS-MM:SS]
+
+**4. Context Reference:**
+   - For each question, include a 'context' object with 'startTime' and 'endTime' (in seconds) and the 'text' of the relevant transcript segment.
+
+**5. Question Uniqueness (if previous questions provided):**
+   - Cover different parts of the transcript from any previous questions.
+
+**6. JSON Output Format:**
+{
+  "questions": [
+    ${JSON.stringify(spec.example, null, 2).replace(/\n/g, '\n    ')}
+  ]
+}
+
+**Types to use:** "main_idea", "specific_detail", "vocabulary_in_context", "inference", "speaker_tone", "language_function"
+**Difficulties to use:** "easy", "medium", "hard"
+**Kind:** every question has "kind": "${kind}"`,
+
+    userTemplate: (context: {
+      loop: SavedLoop
+      transcript?: string
+      difficulty: 'easy' | 'medium' | 'hard'
+      questionCount?: number
+      segments?: Array<{ text: string; start: number; duration: number }>
+      previousQuestions?: Array<{ question: string; difficulty: string }>
+    }) => {
+      const formatTime = (seconds: number): string => {
+        const mins = Math.floor(seconds / 60)
+        const secs = Math.floor(seconds % 60)
+        return `${mins}:${secs.toString().padStart(2, '0')}`
+      }
+
+      const questionCount = context.questionCount || 6
+
+      const transcriptContent = context.segments
+        ? context.segments
+            .map(segment => {
+              const endTime = segment.start + segment.duration
+              return `[${formatTime(segment.start)}-${formatTime(endTime)}] ${segment.text}`
+            })
+            .join('\n')
+        : context.transcript
+
+      let prompt = `Generate exactly ${questionCount} ${context.difficulty} ${spec.label} questions from this transcript (formatted with timestamps):
+
+**DIFFICULTY TARGET:** ${context.difficulty}
+**QUESTION COUNT:** ${questionCount}
+
+Video Title: ${context.loop.videoTitle || 'YouTube Video'}
+Segment: ${formatTime(context.loop.startTime)} to ${formatTime(context.loop.endTime)}
+
+**IMPORTANT REMINDERS:**
+- Generate EXACTLY ${questionCount} questions with difficulty level "${context.difficulty}" and kind "${kind}"
+- ${spec.reminder}
+- Include context object with startTime, endTime, and text for each question
+
+Transcript (with timestamps):
+${transcriptContent}`
+
+      if (context.previousQuestions && context.previousQuestions.length > 0) {
+        prompt += `
+
+**EXISTING QUESTIONS TO AVOID:**
+${context.previousQuestions.map((q, i) => `${i + 1}. [${q.difficulty.toUpperCase()}] ${q.question}`).join('\n')}`
+      }
+
+      return prompt
+    },
+
+    config: {
+      maxTokens: 32000,
+      temperature: 0.3
+    }
+  }
+}
+
+export const clozeQuestionsPrompt = createQuestionKindPrompt('cloze')
+export const orderingQuestionsPrompt = createQuestionKindPrompt('ordering')
+export const trueFalseNotGivenQuestionsPrompt = createQuestionKindPrompt('true_false_not_given')
+export const shortAnswerQuestionsPrompt = createQuestionKindPrompt('short_answer')
+
+// Pre-listening overview of a loop, shown to learners before they answer questions
+export const transcriptSummaryPrompt: PromptTemplate = {
+  system: `You are an expert ESL/EFL instructor preparing learners to listen to an authentic video clip. Before they listen, give them a short overview that helps them follow the clip without giving away the answers to comprehension questions.
+
+**Instructions:**
+1. **Main points:** 3-5 short sentences covering what the speakers talk about, in the order it comes up.
+2. **Key insights:** 2-4 things a careful listener should notice: the speaker's attitude or purpose, implied meaning, notable expressions or idioms.
+3. **Difficulty assessment:** One or two sentences on how hard the clip is to follow and why (speed, accent, vocabulary, overlapping speakers). Also give a CEFR level from A1 to C2.
+4. **Recommended focus areas:** 2-4 concrete things to listen for or practise with this clip.
+
+Write in simple English a learner at the clip's level can read. Keep each item under 30 words. Do not quote long passages of the transcript.
+
+**JSON Output Format:**
+{
+  "mainPoints": ["The speaker explains why she moved to Berlin."],
+  "keyInsights": ["Her tone is nostalgic rather than negative when she describes her hometown."],
+  "difficultyAssessment": "Clear speech at a natural pace, with some informal expressions.",
+  "level": "B1",
+  "recommendedFocusAreas": ["Phrasal verbs for moving and settling in"]
+}`,
+
+  userTemplate: (context: {
+    loop: SavedLoop
+    transcript?: string
+    segments?: Array<{ text: string; start: number; duration: number }>
+  }) => {
+    const formatTime = (seconds: number): string => {
+      const mins = Math.floor(seconds / 60)
+      const secs = Math.floor(seconds % 60)
+      return `${mins}:${secs.toString().padStart(2, '0')}`
+    }
+
+    const transcriptContent =
+      context.segments && context.segments.length > 0
+        ? context.segments.map(segment => `[${formatTime(segment.start)}] ${segment.text}`).join('\n')
+        : context.transcript
+
+    return `Summarize this clip for learners before they listen.
+
+Video Title: ${context.loop.videoTitle || 'YouTube Video'}
+Segment: ${formatTime(context.loop.startTime)} to ${formatTime(context.loop.endTime)}
+
+Transcript:
+${transcriptContent}`
+  },
+
+  config: {
+    maxTokens: 4000,
+    temperature: 0.3
+  }
+}
+
 // Export only used prompts
 export const prompts = {
   conversationQuestions: conversationQuestionsPrompt,
-  singleDifficultyQuestions: singleDifficultyQuestionsPrompt
+  singleDifficultyQuestions: singleDifficultyQuestionsPrompt,
+  clozeQuestions: clozeQuestionsPrompt,
+  orderingQuestions: orderingQuestionsPrompt,
+  trueFalseNotGivenQuestions: trueFalseNotGivenQuestionsPrompt,
+  shortAnswerQuestions: shortAnswerQuestionsPrompt,
+  transcriptSummary: transcriptSummaryPrompt
+}
+
+// Single-difficulty prompt for each question kind
+export const questionKindPrompts: Record<QuestionKind, PromptTemplate> = {
+  multiple_choice: singleDifficultyQuestionsPrompt,
+  cloze: clozeQuestionsPrompt,
+  ordering: orderingQuestionsPrompt,
+  true_false_not_given: trueFalseNotGivenQuestionsPrompt,
+  short_answer: shortAnswerQuestionsPrompt
 }
 
 // Export default
@@ -13,6 +13,14 @@ export {
   type GeneratedQuestions,
   type CustomPrompt,
   type QuestionGenerationOptions,
+  type QuestionKind,
+  QUESTION_KINDS,
+  type ChatOptions,
+  type AIRoute,
+  type AIRoutingConfig,
+  type AIRouteAttempt,
+  AIRouter,
   aiConfigSchema,
+  aiRoutingConfigSchema,
 } from "./ai";
 
@@ -1,4 +1,10 @@
-import { AIConfig, aiConfigSchema, AIProvider } from "./types";
+import {
+  AIConfig,
+  aiConfigSchema,
+  AIProvider,
+  AIRoutingConfig,
+  aiRoutingConfigSchema,
+} from "./types";
 
 /**
  * Configuration and validation utilities for AI service
@@ -28,6 +34,47 @@ export class AIConfigManager {
     return this.validateConfig(config);
   }
 
+  /**
+   * Create routing configuration from AI_ROUTING_CONFIG, a JSON document like
+   * {"routes":[{"provider":"openai","model":"gpt-4o-mini"},{"provider":"anthropic","model":"claude-3-5-haiku-latest"}]}.
+   * Routes without an apiKey use AI_API_KEY_<PROVIDER>, then AI_API_KEY.
+   * Returns null when routing is not configured.
+   */
+  static createRoutingFromEnv(preferredProvider?: AIProvider): AIRoutingConfig | null {
+    const raw = process.env.AI_ROUTING_CONFIG;
+    if (!raw) {
+      return null;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new Error("AI_ROUTING_CONFIG is not valid JSON");
+    }
+
+    const routing = aiRoutingConfigSchema.parse(parsed);
+    const routes = routing.routes.map((route) => ({
+      ...route,
+      apiKey:
+        route.apiKey ||
+        process.env[`AI_API_KEY_${route.provider.toUpperCase()}`] ||
+        process.env.AI_API_KEY ||
+        "",
+    }));
+
+    // A provider requested explicitly goes first; the rest stay as fallbacks
+    if (preferredProvider) {
+      routes.sort(
+        (a, b) =>
+          Number(b.provider === preferredProvider) -
+          Number(a.provider === preferredProvider)
+      );
+    }
+
+    return { ...routing, routes };
+  }
+
   /**
    * Merge configurations safely
    */
@@ -24,7 +24,7 @@ export class AIDatabaseService {
 
       const { data: promptData, error: promptError } = await supabaseClient
         .from("custom_prompts")
-        .select("system_prompt, user_template, config")
+        .select("system_prompt, user_template, config, current_version_id")
         .eq("id", cleanId)
         .eq("is_active", true)
         .single();
@@ -43,6 +43,7 @@ export class AIDatabaseService {
       return {
         system_prompt: promptData.system_prompt,
         user_template: promptData.user_template,
+        version_id: promptData.current_version_id ?? null,
         config: promptData.config || { maxTokens: 16000, temperature: 0.3 },
       };
     } catch (error) {
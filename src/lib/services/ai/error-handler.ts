@@ -1,3 +1,29 @@
+export type AIErrorKind =
+  | "rate_limit"
+  | "auth"
+  | "context_length"
+  | "malformed_json"
+  | "server"
+  | "network"
+  | "unknown";
+
+export type AIRoutingDecision = "retry" | "failover";
+
+/**
+ * Error raised by AI providers, carrying a classification for routing decisions
+ */
+export class AIServiceError extends Error {
+  readonly kind: AIErrorKind;
+  readonly status?: number;
+
+  constructor(message: string, kind: AIErrorKind, status?: number) {
+    super(message);
+    this.name = "AIServiceError";
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
 /**
  * Enhanced error handling for AI operations
  */
@@ -6,29 +32,115 @@ export class AIErrorHandler {
    * Handle and transform AI service errors into user-friendly messages
    */
   static handleAIError(error: any): Error {
-    if (error.status === 401) {
-      return new Error("AI API key is invalid or expired");
+    if (error instanceof AIServiceError) {
+      return error;
     }
 
-    if (error.status === 429) {
-      return new Error(
-        "AI service rate limit exceeded. Please try again later."
-      );
+    const kind = this.classifyError(error);
+    const status = typeof error?.status === "number" ? error.status : undefined;
+
+    switch (kind) {
+      case "auth":
+        return new AIServiceError("AI API key is invalid or expired", kind, status);
+      case "rate_limit":
+        return new AIServiceError(
+          "AI service rate limit exceeded. Please try again later.",
+          kind,
+          status
+        );
+      case "server":
+        return new AIServiceError("AI service is temporarily unavailable", kind, status);
+      case "context_length":
+        return new AIServiceError(
+          "Text is too long for AI processing. Please try with shorter text.",
+          kind,
+          status
+        );
+      case "malformed_json":
+        return new AIServiceError("AI response is not valid JSON", kind, status);
+      default:
+        return new AIServiceError(
+          `AI processing failed: ${error?.message || "Unknown error"}`,
+          kind,
+          status
+        );
     }
+  }
 
-    if (error.status === 500) {
-      return new Error("AI service is temporarily unavailable");
+  /**
+   * Classify a raw provider error
+   */
+  static classifyError(error: any): AIErrorKind {
+    if (error instanceof AIServiceError) {
+      return error.kind;
     }
 
-    if (error.message?.includes("context_length_exceeded")) {
-      return new Error(
-        "Text is too long for AI processing. Please try with shorter text."
-      );
+    const status = error?.status;
+    const message: string = (error?.message || "").toLowerCase();
+
+    if (status === 401 || status === 403 || message.includes("api key")) {
+      return "auth";
     }
 
-    return new Error(
-      `AI processing failed: ${error.message || "Unknown error"}`
-    );
+    if (status === 429 || message.includes("rate limit") || message.includes("quota")) {
+      return "rate_limit";
+    }
+
+    if (
+      message.includes("context_length_exceeded") ||
+      message.includes("context length") ||
+      message.includes("too many tokens") ||
+      message.includes("too long")
+    ) {
+      return "context_length";
+    }
+
+    if (
+      error instanceof SyntaxError ||
+      message.includes("not valid json") ||
+      message.includes("no json found") ||
+      message.includes("could not parse ai response")
+    ) {
+      return "malformed_json";
+    }
+
+    if (typeof status === "number" && status >= 500) {
+      return "server";
+    }
+
+    if (
+      message.includes("fetch failed") ||
+      message.includes("econnreset") ||
+      message.includes("etimedout") ||
+      message.includes("network")
+    ) {
+      return "network";
+    }
+
+    return "unknown";
+  }
+
+  /**
+   * Decide whether to retry the same provider or fail over to the next one.
+   * Auth and context length errors will not improve on the same provider, so they
+   * fail over immediately.
+   */
+  static getRoutingDecision(
+    kind: AIErrorKind,
+    attemptOnRoute: number,
+    maxRetries: number
+  ): AIRoutingDecision {
+    switch (kind) {
+      case "auth":
+      case "context_length":
+      case "unknown":
+        return "failover";
+      case "rate_limit":
+      case "server":
+      case "network":
+      case "malformed_json":
+        return attemptOnRoute <= maxRetries ? "retry" : "failover";
+    }
   }
 
   /**
@@ -36,14 +148,19 @@ export class AIErrorHandler {
    */
   static isRetryableError(error: any): boolean {
     const retryableStatuses = [429, 500, 502, 503, 504];
-    return retryableStatuses.includes(error.status);
+    if (retryableStatuses.includes(error.status)) {
+      return true;
+    }
+
+    const kind = this.classifyError(error);
+    return kind === "rate_limit" || kind === "server" || kind === "network";
   }
 
   /**
    * Get retry delay based on attempt number
    */
-  static getRetryDelay(attempt: number): number {
+  static getRetryDelay(attempt: number, baseDelayMs: number = 1000): number {
     // Exponential backoff: 1s, 2s, 4s, 8s...
-    return Math.min(1000 * Math.pow(2, attempt - 1), 30000);
+    return Math.min(baseDelayMs * Math.pow(2, attempt - 1), 30000);
   }
-}
\ No newline at end of file
+}
@@ -8,11 +8,17 @@ import {
   GeneratedQuestions,
   QuestionGenerationOptions,
   AIProviderInterface,
+  QuestionStreamEvent,
+  ChatOptions,
+  AIRoutingConfig,
+  QuestionKind,
 } from "./types";
 import { AIConfigManager } from "./config";
 import { AIProviderFactory } from "./providers";
 import { QuestionGenerator } from "./question-generator";
 import { AIDatabaseService } from "./database-service";
+import { AIRouter } from "./router";
+import { PromptEvaluator } from "./prompt-evaluator";
 
 /**
  * Main AI Service - Server-side AI operations with modular architecture
@@ -21,22 +27,18 @@ export class AIService {
   private provider: AIProviderInterface;
   private questionGenerator: QuestionGenerator;
   private config: AIConfig;
+  private routing: AIRoutingConfig | null;
 
-  constructor(config: AIConfig) {
+  // With a routing config, requests go through AIRouter and `config` only supplies defaults
+  constructor(config: AIConfig, routing?: AIRoutingConfig | null) {
     this.config = AIConfigManager.validateConfig(config);
-    this.provider = AIProviderFactory.createProvider(this.config);
+    this.routing = routing || null;
+    this.provider = this.createProvider();
     this.questionGenerator = new QuestionGenerator(this.provider);
   }
 
   // Main chat completion method
-  async chat(
-    messages: ChatMessage[],
-    options?: {
-      stream?: boolean;
-      temperature?: number;
-      maxTokens?: number;
-    }
-  ): Promise<AIResponse> {
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<AIResponse> {
     return this.provider.chat(messages, options);
   }
 
@@ -76,7 +78,8 @@ export class AIService {
     customPromptId?: string,
     questionCount?: number,
     segments?: Array<{ text: string; start: number; duration: number }>,
-    supabaseClient?: any
+    supabaseClient?: any,
+    questionKind?: QuestionKind
   ): Promise<GeneratedQuestions> {
     return this.questionGenerator.generateQuestionsWithCustomPrompt(
       loop,
@@ -85,7 +88,8 @@ export class AIService {
       customPromptId,
       questionCount,
       segments,
-      supabaseClient
+      supabaseClient,
+      questionKind
     );
   }
 
@@ -95,7 +99,8 @@ export class AIService {
     preset: DifficultyPreset,
     customPromptId?: string,
     segments?: Array<{ text: string; start: number; duration: number }>,
-    supabaseClient?: any
+    supabaseClient?: any,
+    questionKind?: QuestionKind
   ): Promise<{
     easy: GeneratedQuestions | null;
     medium: GeneratedQuestions | null;
@@ -108,10 +113,38 @@ export class AIService {
       preset,
       customPromptId,
       segments,
-      supabaseClient
+      supabaseClient,
+      questionKind
     );
   }
 
+  streamQuestionsSequentially(
+    loop: SavedLoop,
+    transcript: string,
+    preset: DifficultyPreset,
+    customPromptId?: string,
+    segments?: Array<{ text: string; start: number; duration: number }>,
+    supabaseClient?: any,
+    questionKind?: QuestionKind,
+    signal?: AbortSignal
+  ): AsyncGenerator<QuestionStreamEvent> {
+    return this.questionGenerator.streamQuestionsSequentially(
+      loop,
+      transcript,
+      preset,
+      customPromptId,
+      segments,
+      supabaseClient,
+      questionKind,
+      signal
+    );
+  }
+
+  // Evaluate custom prompts through this service's provider (or router)
+  createPromptEvaluator(): PromptEvaluator {
+    return new PromptEvaluator(this.provider);
+  }
+
   // Capability and configuration methods
   async getCapabilities(): Promise<AICapability[]> {
     return this.provider.getCapabilities();
@@ -120,7 +153,7 @@ export class AIService {
   // Update configuration
   updateConfig(newConfig: Partial<AIConfig>): void {
     this.config = AIConfigManager.mergeConfigs(this.config, newConfig);
-    this.provider = AIProviderFactory.createProvider(this.config);
+    this.provider = this.createProvider();
     this.questionGenerator = new QuestionGenerator(this.provider);
   }
 
@@ -129,6 +162,19 @@ export class AIService {
     return AIConfigManager.getSafeConfig(this.config);
   }
 
+  // Providers tried in order when routing is configured
+  getRoutes(): Array<Omit<AIConfig, "apiKey">> {
+    return this.provider instanceof AIRouter
+      ? this.provider.getRoutes()
+      : [this.getConfig()];
+  }
+
+  private createProvider(): AIProviderInterface {
+    return this.routing
+      ? new AIRouter(this.routing, this.config)
+      : AIProviderFactory.createProvider(this.config);
+  }
+
   // Static methods for database operations
   static async fetchCustomPrompt(
     customPromptId: string,
@@ -142,6 +188,18 @@ export class AIService {
  * Factory function to create AI Service with environment configuration
  */
 export function createAIService(overrides?: Partial<AIConfig>): AIService {
+  const routing = AIConfigManager.createRoutingFromEnv(overrides?.provider);
+  if (routing) {
+    const primary = routing.routes[0];
+    const config = AIConfigManager.createFromEnv({
+      ...overrides,
+      provider: primary.provider,
+      model: primary.model,
+      apiKey: primary.apiKey || "",
+    });
+    return new AIService(config, routing);
+  }
+
   const config = AIConfigManager.createFromEnv(overrides);
   return new AIService(config);
 }
@@ -153,4 +211,7 @@ export * from "./providers";
 export * from "./question-generator";
 export * from "./database-service";
 export * from "./utils";
-export * from "./error-handler";
\ No newline at end of file
+export * from "./error-handler";
+export * from "./streaming-parser";
+export * from "./router";
+export * from "./prompt-evaluator";
\ No newline at end of file
@@ -0,0 +1,473 @@
+import {
+  AIProviderInterface,
+  ChatMessage,
+  CustomPrompt,
+  DifficultyPreset,
+  GeneratedQuestion,
+  QUESTION_TYPES,
+  SavedLoop,
+} from "./types";
+import { AIUtils } from "./utils";
+import { QuestionGenerator } from "./question-generator";
+import { StubProvider } from "./providers/stub-provider";
+import { PromptManager } from "../ai-prompts";
+import { extractTimeframeReferences } from "../../utils/timeframe";
+
+export type EvaluationDifficulty = "easy" | "medium" | "hard";
+
+export interface EvaluationSegment {
+  text: string;
+  start: number;
+  duration: number;
+}
+
+export interface EvaluationFixture {
+  id: string;
+  name: string;
+  videoTitle?: string | null;
+  transcript: string;
+  // Empty for fixtures saved without timings; timestamp validity is then not scored
+  segments: EvaluationSegment[];
+}
+
+export interface EvaluationCandidate {
+  label: string;
+  prompt: CustomPrompt;
+}
+
+// One provider request: a single difficulty for a single fixture
+export interface EvaluationRequest {
+  fixture: EvaluationFixture;
+  difficulty: EvaluationDifficulty;
+  questionCount: number;
+  // Questions already requested for this fixture
+  offset: number;
+}
+
+export interface EvaluatedQuestion {
+  question: string;
+  kind?: string;
+  correctAnswer: string;
+  difficulty: string;
+  type: string;
+  explanation: string;
+  context: { startTime: number; endTime: number } | null;
+}
+
+export interface EvaluationAttempt {
+  fixtureId: string;
+  difficulty: EvaluationDifficulty;
+  requested: number;
+  // Passed PromptManager.cleanAndValidateQuestionResponse
+  jsonValid: boolean;
+  error?: string;
+  questions: EvaluatedQuestion[];
+  durationMs: number;
+}
+
+export type AnswerPosition = "A" | "B" | "C" | "D";
+
+export interface EvaluationMetrics {
+  requestedCount: number;
+  questionCount: number;
+  // Share of responses that passed validation
+  jsonValidity: number;
+  // Overlap between the requested and returned difficulty counts (1 = exact)
+  distributionAccuracy: number;
+  // Share of questions that duplicate an earlier one for the same fixture
+  duplicateRate: number;
+  answerPositions: Record<AnswerPosition, number>;
+  // 0 when correct answers are spread evenly over A-D, 1 when always the same letter
+  answerPositionBias: number | null;
+  // Share of questions whose context and explanation timestamps fall on the transcript
+  timestampValidity: number | null;
+  // 0-100 summary of the metrics above
+  score: number;
+}
+
+export interface FixtureEvaluation {
+  fixtureId: string;
+  fixtureName: string;
+  metrics: EvaluationMetrics;
+  attempts: EvaluationAttempt[];
+}
+
+export interface CandidateEvaluation {
+  label: string;
+  promptVersionId: string | null;
+  metrics: EvaluationMetrics;
+  fixtures: FixtureEvaluation[];
+}
+
+const DIFFICULTIES: EvaluationDifficulty[] = ["easy", "medium", "hard"];
+const ANSWER_POSITIONS: AnswerPosition[] = ["A", "B", "C", "D"];
+
+// Timestamps are written as whole seconds, so allow some rounding slack
+const TIMESTAMP_TOLERANCE_SECONDS = 1;
+
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Read the questions out of a raw response. JSON validity is scored strictly,
+ * but the other metrics use whatever questions could be parsed.
+ */
+export function parseEvaluationResponse(
+  content: string
+): Pick<EvaluationAttempt, "jsonValid" | "error" | "questions"> {
+  let parsed: any;
+  try {
+    parsed = PromptManager.parseJSONResponse(content);
+  } catch (error: any) {
+    return { jsonValid: false, error: error.message, questions: [] };
+  }
+
+  let jsonValid = true;
+  let validationError: string | undefined;
+  try {
+    PromptManager.cleanAndValidateQuestionResponse(content);
+  } catch (error: any) {
+    jsonValid = false;
+    validationError = error.message;
+  }
+
+  const rawQuestions: any[] = Array.isArray(parsed?.questions) ? parsed.questions : [];
+  const questions = rawQuestions
+    .filter((q) => q && typeof q.question === "string")
+    .map((q): EvaluatedQuestion => {
+      const startTime = toNumber(q.context?.startTime);
+      const endTime = toNumber(q.context?.endTime);
+      return {
+        question: q.question.trim(),
+        ...(typeof q.kind === "string" ? { kind: q.kind } : {}),
+        correctAnswer: typeof q.correctAnswer === "string" ? q.correctAnswer.trim() : "",
+        difficulty: typeof q.difficulty === "string" ? q.difficulty.trim() : "",
+        type: typeof q.type === "string" ? q.type.trim() : "",
+        explanation: typeof q.explanation === "string" ? q.explanation : "",
+        context:
+          startTime !== null && endTime !== null ? { startTime, endTime } : null,
+      };
+    });
+
+  return { jsonValid, error: validationError, questions };
+}
+
+const hasValidTimestamps = (
+  question: EvaluatedQuestion,
+  segments: EvaluationSegment[]
+): boolean => {
+  const rangeStart = Math.min(...segments.map((s) => s.start)) - TIMESTAMP_TOLERANCE_SECONDS;
+  const rangeEnd =
+    Math.max(...segments.map((s) => s.start + s.duration)) + TIMESTAMP_TOLERANCE_SECONDS;
+  const inRange = (start: number, end: number) =>
+    start <= end && start >= rangeStart && end <= rangeEnd;
+
+  const references = extractTimeframeReferences(question.explanation);
+  if (!question.context && references.length === 0) return false;
+
+  if (question.context) {
+    const { startTime, endTime } = question.context;
+    const overlapsSegment = segments.some(
+      (s) =>
+        startTime <= s.start + s.duration + TIMESTAMP_TOLERANCE_SECONDS &&
+        endTime >= s.start - TIMESTAMP_TOLERANCE_SECONDS
+    );
+    if (!inRange(startTime, endTime) || !overlapsSegment) return false;
+  }
+
+  return references.every((ref) => inRange(ref.startTime, ref.endTime));
+};
+
+const ratio = (part: number, total: number) => (total > 0 ? part / total : 0);
+
+/**
+ * Score a set of attempts. Attempts may span several fixtures; duplicates are
+ * only counted within a fixture.
+ */
+export function scoreAttempts(
+  attempts: EvaluationAttempt[],
+  fixtures: EvaluationFixture[]
+): EvaluationMetrics {
+  const segmentsByFixture = new Map(fixtures.map((f) => [f.id, f.segments]));
+  const questions = attempts.flatMap((a) =>
+    a.questions.map((q) => ({ fixtureId: a.fixtureId, question: q }))
+  );
+  const requestedCount = attempts.reduce((sum, a) => sum + a.requested, 0);
+
+  // Difficulty distribution: requested vs labelled counts
+  let matched = 0;
+  for (const difficulty of DIFFICULTIES) {
+    const requested = attempts
+      .filter((a) => a.difficulty === difficulty)
+      .reduce((sum, a) => sum + a.requested, 0);
+    const returned = questions.filter((q) => q.question.difficulty === difficulty).length;
+    matched += Math.min(requested, returned);
+  }
+  const distributionAccuracy = ratio(matched, Math.max(requestedCount, questions.length));
+
+  // Duplicates within each fixture, in generation order
+  let duplicates = 0;
+  const seen = new Map<string, string[]>();
+  for (const { fixtureId, question } of questions) {
+    const previous = seen.get(fixtureId) || [];
+    if (previous.some((text) => AIUtils.areQuestionsDuplicate(text, question.question))) {
+      duplicates++;
+    }
+    seen.set(fixtureId, [...previous, question.question]);
+  }
+
+  // Answer key positions for multiple choice questions
+  const answerPositions: Record<AnswerPosition, number> = { A: 0, B: 0, C: 0, D: 0 };
+  for (const { question } of questions) {
+    if (question.kind && question.kind !== "multiple_choice") continue;
+    const letter = question.correctAnswer.toUpperCase() as AnswerPosition;
+    if (ANSWER_POSITIONS.includes(letter)) answerPositions[letter]++;
+  }
+  const answered = ANSWER_POSITIONS.reduce((sum, p) => sum + answerPositions[p], 0);
+  const answerPositionBias =
+    answered > 0
+      ? (Math.max(...ANSWER_POSITIONS.map((p) => answerPositions[p])) / answered - 0.25) / 0.75
+      : null;
+
+  // Timestamps, only for fixtures saved with segment timings
+  const timed = questions.filter((q) => (segmentsByFixture.get(q.fixtureId) || []).length > 0);
+  const timestampValidity =
+    timed.length > 0
+      ? ratio(
+          timed.filter((q) => hasValidTimestamps(q.question, segmentsByFixture.get(q.fixtureId)!))
+            .length,
+          timed.length
+        )
+      : null;
+
+  const jsonValidity = ratio(attempts.filter((a) => a.jsonValid).length, attempts.length);
+  const duplicateRate = ratio(duplicates, questions.length);
+
+  const components = [
+    jsonValidity,
+    distributionAccuracy,
+    questions.length > 0 ? 1 - duplicateRate : 0,
+    ...(answerPositionBias !== null ? [1 - answerPositionBias] : []),
+    ...(timestampValidity !== null ? [timestampValidity] : []),
+  ];
+  const score = Math.round(
+    (components.reduce((sum, value) => sum + value, 0) / components.length) * 100
+  );
+
+  return {
+    requestedCount,
+    questionCount: questions.length,
+    jsonValidity,
+    distributionAccuracy,
+    duplicateRate,
+    answerPositions,
+    answerPositionBias,
+    timestampValidity,
+    score,
+  };
+}
+
+/**
+ * Deterministic stand-in for a model: questions built from the transcript
+ * lines the prompt actually sent, so a template that drops the transcript
+ * still scores poorly on timestamps.
+ */
+export function buildStubQuestionResponse(
+  request: EvaluationRequest,
+  messages: ChatMessage[]
+): string {
+  const userContent = messages
+    .filter((m) => m.role === "user")
+    .map((m) => m.content)
+    .join("\n");
+  const segments = request.fixture.segments.filter((s) => userContent.includes(s.text));
+  const snippet = (text: string) => (text.length > 80 ? `${text.slice(0, 77)}...` : text);
+
+  const questions = Array.from({ length: request.questionCount }, (_, i) => {
+    const position = request.offset + i;
+    const correctIndex = position % ANSWER_POSITIONS.length;
+    const segment = segments.length > 0 ? segments[position % segments.length] : null;
+
+    if (!segment) {
+      return {
+        question: `Question ${position + 1}: what is the main idea of "${request.fixture.name}"?`,
+        options: ANSWER_POSITIONS.map((letter, index) =>
+          index === correctIndex ? "The overall topic of the video" : `Unrelated topic ${letter}`
+        ),
+        correctAnswer: ANSWER_POSITIONS[correctIndex],
+        explanation: "The transcript was not included in the prompt.",
+        difficulty: request.difficulty,
+        type: "main_idea",
+      };
+    }
+
+    const end = segment.start + segment.duration;
+    const distractors = segments.filter((s) => s !== segment).map((s) => snippet(s.text));
+    const options = ANSWER_POSITIONS.map((_letter, index) =>
+      index === correctIndex
+        ? snippet(segment.text)
+        : distractors[(position + index) % Math.max(distractors.length, 1)] ||
+          `The speaker does not say this (${index + 1})`
+    );
+
+    return {
+      question: `Question ${position + 1}: what does the speaker say at ${AIUtils.formatTime(segment.start)}?`,
+      options,
+      correctAnswer: ANSWER_POSITIONS[correctIndex],
+      explanation: `The answer is at [${AIUtils.formatTime(segment.start)}-${AIUtils.formatTime(end)}].`,
+      difficulty: request.difficulty,
+      type: QUESTION_TYPES[position % QUESTION_TYPES.length],
+      context: { startTime: segment.start, endTime: end, text: segment.text },
+    };
+  });
+
+  return JSON.stringify({ questions });
+}
+
+/**
+ * Prompt Evaluator
+ * Runs custom prompts over fixture transcripts the same way question
+ * generation does (one request per difficulty, earlier questions passed along
+ * for deduplication) and scores the raw responses.
+ */
+export class PromptEvaluator {
+  private provider: AIProviderInterface;
+  private generator: QuestionGenerator;
+  private beforeRequest?: (request: EvaluationRequest, messages: ChatMessage[]) => void;
+
+  constructor(
+    provider: AIProviderInterface,
+    beforeRequest?: (request: EvaluationRequest, messages: ChatMessage[]) => void
+  ) {
+    this.provider = provider;
+    this.generator = new QuestionGenerator(provider);
+    this.beforeRequest = beforeRequest;
+  }
+
+  /**
+   * Evaluator backed by the local stub provider; makes no network calls
+   */
+  static withStubProvider(): PromptEvaluator {
+    let pending: { request: EvaluationRequest; messages: ChatMessage[] } | null = null;
+    const provider = new StubProvider(
+      { provider: "stub", apiKey: "", model: "stub-evaluator", maxTokens: 4000, temperature: 0 },
+      {
+        responder: (messages) =>
+          pending ? buildStubQuestionResponse(pending.request, messages) : "",
+      }
+    );
+
+    return new PromptEvaluator(provider, (request, messages) => {
+      pending = { request, messages };
+    });
+  }
+
+  async evaluate(
+    candidate: EvaluationCandidate,
+    fixtures: EvaluationFixture[],
+    preset: DifficultyPreset
+  ): Promise<CandidateEvaluation> {
+    const results: FixtureEvaluation[] = [];
+
+    for (const fixture of fixtures) {
+      const attempts = await this.runFixture(candidate.prompt, fixture, preset);
+      results.push({
+        fixtureId: fixture.id,
+        fixtureName: fixture.name,
+        metrics: scoreAttempts(attempts, [fixture]),
+        attempts,
+      });
+    }
+
+    return {
+      label: candidate.label,
+      promptVersionId: candidate.prompt.version_id ?? null,
+      metrics: scoreAttempts(
+        results.flatMap((r) => r.attempts),
+        fixtures
+      ),
+      fixtures: results,
+    };
+  }
+
+  // Candidates run one after another so they see the same provider conditions
+  async compare(
+    candidates: EvaluationCandidate[],
+    fixtures: EvaluationFixture[],
+    preset: DifficultyPreset
+  ): Promise<CandidateEvaluation[]> {
+    const results: CandidateEvaluation[] = [];
+    for (const candidate of candidates) {
+      results.push(await this.evaluate(candidate, fixtures, preset));
+    }
+    return results;
+  }
+
+  private async runFixture(
+    prompt: CustomPrompt,
+    fixture: EvaluationFixture,
+    preset: DifficultyPreset
+  ): Promise<EvaluationAttempt[]> {
+    const segments = fixture.segments.length > 0 ? fixture.segments : undefined;
+    const loop: SavedLoop = {
+      id: `fixture-${fixture.id}`,
+      videoTitle: fixture.videoTitle || fixture.name,
+      startTime: segments ? segments[0].start : 0,
+      endTime: segments
+        ? segments[segments.length - 1].start + segments[segments.length - 1].duration
+        : 0,
+    };
+
+    const attempts: EvaluationAttempt[] = [];
+    const previousQuestions: GeneratedQuestion[] = [];
+    let offset = 0;
+
+    for (const difficulty of DIFFICULTIES) {
+      const questionCount = preset[difficulty];
+      if (questionCount <= 0) continue;
+
+      const { messages, config } = await this.generator.buildSingleDifficultyRequest(
+        loop,
+        fixture.transcript,
+        difficulty,
+        { segments, customPrompt: prompt, questionCount, previousQuestions }
+      );
+      this.beforeRequest?.({ fixture, difficulty, questionCount, offset }, messages);
+      offset += questionCount;
+
+      const startedAt = Date.now();
+      let attempt: EvaluationAttempt;
+      try {
+        const response = await this.provider.chat(messages, {
+          ...config,
+          responseFormat: "json",
+        });
+        attempt = {
+          fixtureId: fixture.id,
+          difficulty,
+          requested: questionCount,
+          ...parseEvaluationResponse(response.content),
+          durationMs: Date.now() - startedAt,
+        };
+      } catch (error: any) {
+        attempt = {
+          fixtureId: fixture.id,
+          difficulty,
+          requested: questionCount,
+          jsonValid: false,
+          error: error.message || "Request failed",
+          questions: [],
+          durationMs: Date.now() - startedAt,
+        };
+      }
+
+      attempts.push(attempt);
+      // Prompts only read question, difficulty and type from earlier questions
+      previousQuestions.push(...(attempt.questions as unknown as GeneratedQuestion[]));
+    }
+
+    return attempts;
+  }
+}
@@ -1,5 +1,12 @@
 import Anthropic from "@anthropic-ai/sdk";
-import { AIProviderInterface, ChatMessage, AIResponse, AICapability, AIConfig } from "../types";
+import {
+  AIProviderInterface,
+  ChatMessage,
+  ChatOptions,
+  AIResponse,
+  AICapability,
+  AIConfig,
+} from "../types";
 import { AIErrorHandler } from "../error-handler";
 
 /**
@@ -17,45 +24,30 @@ export class AnthropicProvider implements AIProviderInterface {
     });
   }
 
-  async chat(
-    messages: ChatMessage[],
-    options?: {
-      stream?: boolean;
-      temperature?: number;
-      maxTokens?: number;
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<AIResponse> {
+    if (options?.stream) {
+      return {
+        content: "",
+        usage: { totalTokens: 0, promptTokens: 0, completionTokens: 0 },
+        model: this.config.model,
+        provider: "anthropic",
+        finishReason: "stream",
+        stream: this.streamChat(messages, options),
+      };
     }
-  ): Promise<AIResponse> {
+
     try {
       const mergedOptions = { ...this.config, ...options };
+      const { system, conversation } = this.toAnthropicMessages(messages);
 
-      // Convert messages to Anthropic format
-      const systemMessage = messages.find((m) => m.role === "system");
-      const conversationMessages = messages.filter((m) => m.role !== "system");
-
-      const response = await this.client.messages.create({
+      const message = await this.client.messages.create({
         model: this.config.model,
         max_tokens: mergedOptions.maxTokens,
         temperature: mergedOptions.temperature,
-        system: systemMessage?.content,
-        messages: conversationMessages.map((msg) => ({
-          role: msg.role as "user" | "assistant",
-          content: msg.content,
-        })),
-        stream: mergedOptions.stream,
-      });
+        system,
+        messages: conversation,
+      }, { signal: mergedOptions.signal });
 
-      if (mergedOptions.stream) {
-        return {
-          content: "",
-          usage: { totalTokens: 0, promptTokens: 0, completionTokens: 0 },
-          model: this.config.model,
-          provider: "anthropic",
-          finishReason: "max_tokens",
-          stream: response as any,
-        };
-      }
-
-      const message = response as Anthropic.Messages.Message;
       const content =
         message.content[0]?.type === "text" ? message.content[0].text : "";
 
@@ -75,6 +67,36 @@ export class AnthropicProvider implements AIProviderInterface {
     }
   }
 
+  async *streamChat(
+    messages: ChatMessage[],
+    options?: Omit<ChatOptions, "stream">
+  ): AsyncIterable<string> {
+    try {
+      const mergedOptions = { ...this.config, ...options };
+      const { system, conversation } = this.toAnthropicMessages(messages);
+
+      const stream = await this.client.messages.create({
+        model: this.config.model,
+        max_tokens: mergedOptions.maxTokens,
+        temperature: mergedOptions.temperature,
+        system,
+        messages: conversation,
+        stream: true,
+      }, { signal: mergedOptions.signal });
+
+      for await (const event of stream) {
+        if (
+          event.type === "content_block_delta" &&
+          event.delta.type === "text_delta"
+        ) {
+          yield event.delta.text;
+        }
+      }
+    } catch (error) {
+      throw AIErrorHandler.handleAIError(error);
+    }
+  }
+
   getCapabilities(): AICapability[] {
     return [
       "text-generation",
@@ -85,4 +107,17 @@ export class AnthropicProvider implements AIProviderInterface {
       "reasoning",
     ];
   }
-}
\ No newline at end of file
+
+  // Convert messages to Anthropic format
+  private toAnthropicMessages(messages: ChatMessage[]) {
+    const systemMessage = messages.find((m) => m.role === "system");
+    const conversation = messages
+      .filter((m) => m.role !== "system")
+      .map((msg) => ({
+        role: msg.role as "user" | "assistant",
+        content: msg.content,
+      }));
+
+    return { system: systemMessage?.content, conversation };
+  }
+}
@@ -1,4 +1,11 @@
-import { AIProviderInterface, ChatMessage, AIResponse, AICapability, AIConfig } from "../types";
+import {
+  AIProviderInterface,
+  ChatMessage,
+  ChatOptions,
+  AIResponse,
+  AICapability,
+  AIConfig,
+} from "../types";
 import { AIErrorHandler } from "../error-handler";
 
 /**
@@ -11,37 +18,21 @@ export class CustomProvider implements AIProviderInterface {
     this.config = config;
   }
 
-  async chat(
-    messages: ChatMessage[],
-    options?: {
-      stream?: boolean;
-      temperature?: number;
-      maxTokens?: number;
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<AIResponse> {
+    if (options?.stream) {
+      return {
+        content: "",
+        usage: { totalTokens: 0, promptTokens: 0, completionTokens: 0 },
+        model: this.config.model,
+        provider: "custom",
+        finishReason: "stream",
+        stream: this.streamChat(messages, options),
+      };
     }
-  ): Promise<AIResponse> {
-    try {
-      const mergedOptions = { ...this.config, ...options };
 
+    try {
       // Simple HTTP client implementation for custom providers
-      const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.config.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: this.config.model,
-          messages,
-          max_tokens: mergedOptions.maxTokens,
-          temperature: mergedOptions.temperature,
-          stream: mergedOptions.stream,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Custom provider error: ${response.statusText}`);
-      }
-
+      const response = await this.request(messages, options, false);
       const data = await response.json();
 
       return {
@@ -60,6 +51,50 @@ export class CustomProvider implements AIProviderInterface {
     }
   }
 
+  /**
+   * Stream an OpenAI-compatible server-sent events response
+   */
+  async *streamChat(
+    messages: ChatMessage[],
+    options?: Omit<ChatOptions, "stream">
+  ): AsyncIterable<string> {
+    try {
+      const response = await this.request(messages, options, true);
+      if (!response.body) {
+        throw new Error("Custom provider returned an empty stream");
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+
+          const payload = trimmed.slice(5).trim();
+          if (payload === "[DONE]") return;
+
+          const data = JSON.parse(payload);
+          const delta = data.choices?.[0]?.delta?.content;
+          if (delta) {
+            yield delta;
+          }
+        }
+      }
+    } catch (error) {
+      throw AIErrorHandler.handleAIError(error);
+    }
+  }
+
   getCapabilities(): AICapability[] {
     return [
       "text-generation",
@@ -68,4 +103,34 @@ export class CustomProvider implements AIProviderInterface {
       "translation",
     ];
   }
-}
\ No newline at end of file
+
+  private async request(
+    messages: ChatMessage[],
+    options: ChatOptions | undefined,
+    stream: boolean
+  ): Promise<Response> {
+    const mergedOptions = { ...this.config, ...options };
+
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.config.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages,
+        max_tokens: mergedOptions.maxTokens,
+        temperature: mergedOptions.temperature,
+        stream,
+      }),
+      signal: mergedOptions.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Custom provider error: ${response.statusText}`);
+    }
+
+    return response;
+  }
+}
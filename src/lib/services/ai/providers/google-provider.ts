@@ -1,5 +1,12 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
-import { AIProviderInterface, ChatMessage, AIResponse, AICapability, AIConfig } from "../types";
+import {
+  AIProviderInterface,
+  ChatMessage,
+  ChatOptions,
+  AIResponse,
+  AICapability,
+  AIConfig,
+} from "../types";
 import { AIErrorHandler } from "../error-handler";
 
 /**
@@ -14,41 +21,22 @@ export class GoogleProvider implements AIProviderInterface {
     this.client = new GoogleGenerativeAI(config.apiKey);
   }
 
-  async chat(
-    messages: ChatMessage[],
-    options?: {
-      stream?: boolean;
-      temperature?: number;
-      maxTokens?: number;
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<AIResponse> {
+    if (options?.stream) {
+      return {
+        content: "",
+        usage: { totalTokens: 0, promptTokens: 0, completionTokens: 0 },
+        model: this.config.model,
+        provider: "google",
+        finishReason: "stream",
+        stream: this.streamChat(messages, options),
+      };
     }
-  ): Promise<AIResponse> {
-    try {
-      const mergedOptions = { ...this.config, ...options };
-
-      // Convert messages to Gemini format
-      const systemMessage = messages.find((m) => m.role === "system");
-      const conversationMessages = messages.filter((m) => m.role !== "system");
 
-      // Build prompt for Gemini (it uses a single prompt format)
-      let prompt = "";
-      if (systemMessage) {
-        prompt += systemMessage.content + "\n\n";
-      }
-
-      conversationMessages.forEach((msg) => {
-        const rolePrefix = msg.role === "user" ? "User: " : "Assistant: ";
-        prompt += rolePrefix + msg.content + "\n";
-      });
-
-      const model = this.client.getGenerativeModel({
-        model: this.config.model || "gemini-2.5-flash-lite",
-        generationConfig: {
-          maxOutputTokens: mergedOptions.maxTokens,
-          temperature: mergedOptions.temperature,
-        },
-      });
+    try {
+      const { model, prompt } = this.prepareRequest(messages, options);
 
-      const result = await model.generateContent(prompt);
+      const result = await model.generateContent(prompt, { signal: options?.signal });
       const response = result.response;
 
       return {
@@ -63,7 +51,34 @@ export class GoogleProvider implements AIProviderInterface {
         finishReason: response.candidates?.[0]?.finishReason || "stop",
       };
     } catch (error: any) {
-      throw AIErrorHandler.handleAIError(new Error(`Google Gemini API error: ${error.message}`));
+      throw AIErrorHandler.handleAIError(
+        Object.assign(new Error(`Google Gemini API error: ${error.message}`), {
+          status: error.status,
+        })
+      );
+    }
+  }
+
+  async *streamChat(
+    messages: ChatMessage[],
+    options?: Omit<ChatOptions, "stream">
+  ): AsyncIterable<string> {
+    try {
+      const { model, prompt } = this.prepareRequest(messages, options);
+
+      const result = await model.generateContentStream(prompt, { signal: options?.signal });
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) {
+          yield text;
+        }
+      }
+    } catch (error: any) {
+      throw AIErrorHandler.handleAIError(
+        Object.assign(new Error(`Google Gemini API error: ${error.message}`), {
+          status: error.status,
+        })
+      );
     }
   }
 
@@ -77,4 +92,33 @@ export class GoogleProvider implements AIProviderInterface {
       "fast-generation",
     ];
   }
+
+  private prepareRequest(messages: ChatMessage[], options?: ChatOptions) {
+    const mergedOptions = { ...this.config, ...options };
+
+    // Convert messages to Gemini format
+    const systemMessage = messages.find((m) => m.role === "system");
+    const conversationMessages = messages.filter((m) => m.role !== "system");
+
+    // Build prompt for Gemini (it uses a single prompt format)
+    let prompt = "";
+    if (systemMessage) {
+      prompt += systemMessage.content + "\n\n";
+    }
+
+    conversationMessages.forEach((msg) => {
+      const rolePrefix = msg.role === "user" ? "User: " : "Assistant: ";
+      prompt += rolePrefix + msg.content + "\n";
+    });
+
+    const model = this.client.getGenerativeModel({
+      model: this.config.model || "gemini-2.5-flash-lite",
+      generationConfig: {
+        maxOutputTokens: mergedOptions.maxTokens,
+        temperature: mergedOptions.temperature,
+      },
+    });
+
+    return { model, prompt };
+  }
 }
\ No newline at end of file
@@ -3,6 +3,7 @@ import { OpenAIProvider } from "./openai-provider";
 import { AnthropicProvider } from "./anthropic-provider";
 import { GoogleProvider } from "./google-provider";
 import { CustomProvider } from "./custom-provider";
+import { StubProvider } from "./stub-provider";
 
 /**
  * Provider factory for creating AI provider instances
@@ -21,6 +22,8 @@ export class AIProviderFactory {
         return new GoogleProvider(config);
       case "custom":
         return new CustomProvider(config);
+      case "stub":
+        return new StubProvider(config);
       default:
         throw new Error(`Unsupported AI provider: ${config.provider}`);
     }
@@ -31,4 +34,6 @@ export class AIProviderFactory {
 export { OpenAIProvider } from "./openai-provider";
 export { AnthropicProvider } from "./anthropic-provider";
 export { GoogleProvider } from "./google-provider";
-export { CustomProvider } from "./custom-provider";
\ No newline at end of file
+export { CustomProvider } from "./custom-provider";
+export { StubProvider } from "./stub-provider";
+export type { StubProviderOptions, StubResponder } from "./stub-provider";
\ No newline at end of file
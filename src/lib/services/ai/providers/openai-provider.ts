@@ -1,5 +1,12 @@
 import OpenAI from "openai";
-import { AIProviderInterface, ChatMessage, AIResponse, AICapability, AIConfig } from "../types";
+import {
+  AIProviderInterface,
+  ChatMessage,
+  ChatOptions,
+  AIResponse,
+  AICapability,
+  AIConfig,
+} from "../types";
 import { AIErrorHandler } from "../error-handler";
 
 /**
@@ -17,41 +24,28 @@ export class OpenAIProvider implements AIProviderInterface {
     });
   }
 
-  async chat(
-    messages: ChatMessage[],
-    options?: {
-      stream?: boolean;
-      temperature?: number;
-      maxTokens?: number;
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<AIResponse> {
+    if (options?.stream) {
+      return {
+        content: "", // Will be populated via streaming
+        usage: { totalTokens: 0, promptTokens: 0, completionTokens: 0 },
+        model: this.config.model,
+        provider: "openai",
+        finishReason: "stream",
+        stream: this.streamChat(messages, options),
+      };
     }
-  ): Promise<AIResponse> {
+
     try {
       const mergedOptions = { ...this.config, ...options };
 
-      const response = await this.client.chat.completions.create({
+      const completion = await this.client.chat.completions.create({
         model: this.config.model,
-        messages: messages.map((msg) => ({
-          role: msg.role as "system" | "user" | "assistant",
-          content: msg.content,
-        })),
+        messages: this.toOpenAIMessages(messages),
         max_tokens: mergedOptions.maxTokens,
         temperature: mergedOptions.temperature,
-        stream: mergedOptions.stream,
-      });
+      }, { signal: mergedOptions.signal });
 
-      if (mergedOptions.stream) {
-        // Handle streaming response
-        return {
-          content: "", // Will be populated via streaming
-          usage: { totalTokens: 0, promptTokens: 0, completionTokens: 0 },
-          model: this.config.model,
-          provider: "openai",
-          finishReason: "length",
-          stream: response as any,
-        };
-      }
-
-      const completion = response as OpenAI.Chat.Completions.ChatCompletion;
       return {
         content: completion.choices[0]?.message?.content || "",
         usage: {
@@ -68,6 +62,32 @@ export class OpenAIProvider implements AIProviderInterface {
     }
   }
 
+  async *streamChat(
+    messages: ChatMessage[],
+    options?: Omit<ChatOptions, "stream">
+  ): AsyncIterable<string> {
+    try {
+      const mergedOptions = { ...this.config, ...options };
+
+      const stream = await this.client.chat.completions.create({
+        model: this.config.model,
+        messages: this.toOpenAIMessages(messages),
+        max_tokens: mergedOptions.maxTokens,
+        temperature: mergedOptions.temperature,
+        stream: true,
+      }, { signal: mergedOptions.signal });
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    } catch (error) {
+      throw AIErrorHandler.handleAIError(error);
+    }
+  }
+
   getCapabilities(): AICapability[] {
     return [
       "text-generation",
@@ -78,4 +98,11 @@ export class OpenAIProvider implements AIProviderInterface {
       "function-calling",
     ];
   }
+
+  private toOpenAIMessages(messages: ChatMessage[]) {
+    return messages.map((msg) => ({
+      role: msg.role as "system" | "user" | "assistant",
+      content: msg.content,
+    }));
+  }
 }
\ No newline at end of file
@@ -0,0 +1,107 @@
+import {
+  AIProviderInterface,
+  ChatMessage,
+  ChatOptions,
+  AIResponse,
+  AICapability,
+  AIConfig,
+} from "../types";
+import { AIErrorHandler } from "../error-handler";
+
+export type StubResponder = (
+  messages: ChatMessage[],
+  callIndex: number
+) => string | Promise<string>;
+
+export interface StubProviderOptions {
+  // Scripted replies consumed in order; the last one repeats. Errors are thrown.
+  responses?: Array<string | Error>;
+  // Computes a reply from the request; takes precedence over `responses`
+  responder?: StubResponder;
+  // Characters per streamed chunk
+  chunkSize?: number;
+}
+
+/**
+ * Deterministic local provider for development and tests. Never makes network calls.
+ */
+export class StubProvider implements AIProviderInterface {
+  private config: AIConfig;
+  private options: StubProviderOptions;
+  private callCount = 0;
+
+  constructor(config: AIConfig, options: StubProviderOptions = {}) {
+    this.config = config;
+    this.options = options;
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<AIResponse> {
+    if (options?.stream) {
+      return {
+        content: "",
+        usage: { totalTokens: 0, promptTokens: 0, completionTokens: 0 },
+        model: this.config.model,
+        provider: "stub",
+        finishReason: "stream",
+        stream: this.streamChat(messages),
+      };
+    }
+
+    const content = await this.nextResponse(messages);
+    const promptTokens = Math.ceil(
+      messages.reduce((sum, m) => sum + m.content.length, 0) / 4
+    );
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      usage: {
+        totalTokens: promptTokens + completionTokens,
+        promptTokens,
+        completionTokens,
+      },
+      model: this.config.model,
+      provider: "stub",
+      finishReason: "stop",
+    };
+  }
+
+  async *streamChat(messages: ChatMessage[]): AsyncIterable<string> {
+    const content = await this.nextResponse(messages);
+    const chunkSize = this.options.chunkSize || 16;
+
+    for (let i = 0; i < content.length; i += chunkSize) {
+      yield content.slice(i, i + chunkSize);
+    }
+  }
+
+  getCapabilities(): AICapability[] {
+    return ["text-generation", "fast-generation"];
+  }
+
+  // Number of requests served so far
+  getCallCount(): number {
+    return this.callCount;
+  }
+
+  private async nextResponse(messages: ChatMessage[]): Promise<string> {
+    const index = this.callCount++;
+
+    if (this.options.responder) {
+      return this.options.responder(messages, index);
+    }
+
+    const responses = this.options.responses;
+    if (responses && responses.length > 0) {
+      const scripted = responses[Math.min(index, responses.length - 1)];
+      if (scripted instanceof Error) {
+        throw AIErrorHandler.handleAIError(scripted);
+      }
+      return scripted;
+    }
+
+    // Default: echo the last user message
+    const lastUser = [...messages].reverse().find((m) => m.role === "user");
+    return lastUser?.content || "";
+  }
+}
@@ -7,9 +7,18 @@ import {
   CustomPrompt,
   ChatMessage,
   AIProviderInterface,
+  QuestionStreamEvent,
+  QuestionKind,
+  TRUE_FALSE_NOT_GIVEN_OPTIONS,
 } from "./types";
 import { AIUtils } from "./utils";
+import {
+  joinClozeAnswer,
+  optionLetter,
+  splitClozeAnswer,
+} from "../../utils/question-grading";
 import { AIDatabaseService } from "./database-service";
+import { IncrementalQuestionParser } from "./streaming-parser";
 
 /**
  * Question generation service with enhanced retry logic and deduplication
@@ -89,7 +98,10 @@ export class QuestionGenerator {
     }
 
     try {
-      const response = await this.provider.chat(messages, config);
+      const response = await this.provider.chat(messages, {
+        ...config,
+        responseFormat: "json",
+      });
       const { PromptManager } = await import("../ai-prompts");
       const parsedResponse = PromptManager.parseJSONResponse(response.content);
 
@@ -163,79 +175,12 @@ export class QuestionGenerator {
   ): Promise<GeneratedQuestions> {
     // Use custom question count from options, default to 6 if not provided
     const targetQuestionCount = options?.questionCount || 6;
-
-    let messages: ChatMessage[];
-    let config: any;
-
-    // Check if custom prompt is provided
-    if (options?.customPrompt) {
-      console.log("🎯 Using custom prompt for question generation");
-
-      const customPrompt = options.customPrompt;
-
-      // Build transcript with timestamps if segments are available
-      let transcriptWithTimestamps = transcript;
-      if (options?.segments && options.segments.length > 0) {
-        transcriptWithTimestamps = AIUtils.buildTranscriptWithTimestamps(
-          options.segments
-        );
-      }
-
-      // Use our custom template processor instead of Handlebars
-      const { TemplateProcessor } = await import("../../utils/template-processor");
-
-      // Prepare template data
-      const templateData = {
-        totalQuestions: targetQuestionCount,
-        easyCount: difficulty === "easy" ? targetQuestionCount : 0,
-        mediumCount: difficulty === "medium" ? targetQuestionCount : 0,
-        hardCount: difficulty === "hard" ? targetQuestionCount : 0,
-        videoTitle: loop.videoTitle || "YouTube Video",
-        transcriptWithTimestamps,
-        previousQuestions: options?.previousQuestions || [],
-      };
-
-      // Generate user prompt using our template processor
-      const userPrompt = TemplateProcessor.process(
-        customPrompt.user_template,
-        templateData
-      );
-
-      messages = [
-        { role: "system", content: customPrompt.system_prompt },
-        { role: "user", content: userPrompt },
-      ];
-
-      config = {
-        maxTokens: customPrompt.config?.maxTokens || 32000,
-        temperature: customPrompt.config?.temperature || 0.3,
-      };
-    } else {
-      // Use default prompt template
-      const { prompts, PromptManager } = await import("../ai-prompts");
-      const template = prompts.singleDifficultyQuestions;
-
-      // Use segments if provided, otherwise fallback to transcript
-      const promptData =
-        options?.segments && options.segments.length > 0
-          ? {
-              loop,
-              segments: options.segments,
-              difficulty,
-              questionCount: targetQuestionCount,
-              previousQuestions: options?.previousQuestions,
-            }
-          : {
-              loop,
-              transcript,
-              difficulty,
-              questionCount: targetQuestionCount,
-              previousQuestions: options?.previousQuestions,
-            };
-
-      messages = PromptManager.buildMessages(template, promptData);
-      config = PromptManager.getConfig(template);
-    }
+    const { messages, config } = await this.buildSingleDifficultyRequest(
+      loop,
+      transcript,
+      difficulty,
+      options
+    );
 
     // Console log the full prompt after processing
     console.log("\n=== FULL PROMPT AFTER CUSTOM TEMPLATE PROCESSING ===");
@@ -254,7 +199,8 @@ export class QuestionGenerator {
       messages,
       config,
       difficulty,
-      targetQuestionCount
+      targetQuestionCount,
+      this.getRequestedKind(options)
     );
 
     return {
@@ -284,7 +230,8 @@ export class QuestionGenerator {
     customPromptId?: string,
     questionCount?: number,
     segments?: Array<{ text: string; start: number; duration: number }>,
-    supabaseClient?: any
+    supabaseClient?: any,
+    questionKind?: QuestionKind
   ): Promise<GeneratedQuestions> {
     let customPrompt: CustomPrompt | undefined = undefined;
 
@@ -303,7 +250,7 @@ export class QuestionGenerator {
     }
 
     // Use the existing method with custom prompt
-    return this.generateSingleDifficultyQuestions(
+    const generated = await this.generateSingleDifficultyQuestions(
       loop,
       transcript,
       difficulty,
@@ -311,8 +258,11 @@ export class QuestionGenerator {
         segments,
         customPrompt,
         questionCount: questionCount || 6,
+        questionKind,
       }
     );
+
+    return { ...generated, promptVersionId: customPrompt?.version_id ?? null };
   }
 
   /**
@@ -324,7 +274,8 @@ export class QuestionGenerator {
     preset: DifficultyPreset,
     customPromptId?: string,
     segments?: Array<{ text: string; start: number; duration: number }>,
-    supabaseClient?: any
+    supabaseClient?: any,
+    questionKind?: QuestionKind
   ): Promise<{
     easy: GeneratedQuestions | null;
     medium: GeneratedQuestions | null;
@@ -335,6 +286,15 @@ export class QuestionGenerator {
       "🔄 Starting sequential question generation with deduplication..."
     );
 
+    // Fetch once so every difficulty uses the same prompt version
+    const customPrompt = customPromptId
+      ? (await AIDatabaseService.fetchCustomPrompt(
+          customPromptId,
+          supabaseClient
+        )) || undefined
+      : undefined;
+    const promptVersionId = customPrompt?.version_id ?? null;
+
     const allGeneratedQuestions: GeneratedQuestion[] = [];
     let easyQuestions: GeneratedQuestions | null = null;
     let mediumQuestions: GeneratedQuestions | null = null;
@@ -352,14 +312,11 @@ export class QuestionGenerator {
             segments,
             questionCount: preset.easy,
             previousQuestions: [], // No previous questions for first generation
-            customPrompt: customPromptId
-              ? (await AIDatabaseService.fetchCustomPrompt(
-                  customPromptId,
-                  supabaseClient
-                )) || undefined
-              : undefined,
+            customPrompt,
+            questionKind,
           }
         );
+        easyQuestions.promptVersionId = promptVersionId;
         allGeneratedQuestions.push(...easyQuestions.questions);
         console.log(
           `✅ Generated ${easyQuestions.questions.length} easy questions`
@@ -383,14 +340,11 @@ export class QuestionGenerator {
             segments,
             questionCount: preset.medium,
             previousQuestions: allGeneratedQuestions, // Pass easy questions to avoid duplicates
-            customPrompt: customPromptId
-              ? (await AIDatabaseService.fetchCustomPrompt(
-                  customPromptId,
-                  supabaseClient
-                )) || undefined
-              : undefined,
+            customPrompt,
+            questionKind,
           }
         );
+        mediumQuestions.promptVersionId = promptVersionId;
         allGeneratedQuestions.push(...mediumQuestions.questions);
         console.log(
           `✅ Generated ${mediumQuestions.questions.length} medium questions`
@@ -414,14 +368,11 @@ export class QuestionGenerator {
             segments,
             questionCount: preset.hard,
             previousQuestions: allGeneratedQuestions, // Pass easy+medium questions to avoid duplicates
-            customPrompt: customPromptId
-              ? (await AIDatabaseService.fetchCustomPrompt(
-                  customPromptId,
-                  supabaseClient
-                )) || undefined
-              : undefined,
+            customPrompt,
+            questionKind,
           }
         );
+        hardQuestions.promptVersionId = promptVersionId;
         allGeneratedQuestions.push(...hardQuestions.questions);
         console.log(
           `✅ Generated ${hardQuestions.questions.length} hard questions`
@@ -443,6 +394,276 @@ export class QuestionGenerator {
     };
   }
 
+  /**
+   * Build chat messages and config for a single difficulty request.
+   * Also used by the prompt evaluator so evaluations see production prompts.
+   */
+  async buildSingleDifficultyRequest(
+    loop: SavedLoop,
+    transcript: string,
+    difficulty: "easy" | "medium" | "hard",
+    options?: QuestionGenerationOptions
+  ): Promise<{ messages: ChatMessage[]; config: any }> {
+    const targetQuestionCount = options?.questionCount || 6;
+
+    let messages: ChatMessage[];
+    let config: any;
+
+    // Check if custom prompt is provided
+    if (options?.customPrompt) {
+      console.log("🎯 Using custom prompt for question generation");
+
+      const customPrompt = options.customPrompt;
+
+      // Build transcript with timestamps if segments are available
+      let transcriptWithTimestamps = transcript;
+      if (options?.segments && options.segments.length > 0) {
+        transcriptWithTimestamps = AIUtils.buildTranscriptWithTimestamps(
+          options.segments
+        );
+      }
+
+      // Use our custom template processor instead of Handlebars
+      const { TemplateProcessor } = await import("../../utils/template-processor");
+
+      // Prepare template data
+      const templateData = {
+        totalQuestions: targetQuestionCount,
+        easyCount: difficulty === "easy" ? targetQuestionCount : 0,
+        mediumCount: difficulty === "medium" ? targetQuestionCount : 0,
+        hardCount: difficulty === "hard" ? targetQuestionCount : 0,
+        videoTitle: loop.videoTitle || "YouTube Video",
+        transcriptWithTimestamps,
+        previousQuestions: options?.previousQuestions || [],
+      };
+
+      // Generate user prompt using our template processor
+      const userPrompt = TemplateProcessor.process(
+        customPrompt.user_template,
+        templateData
+      );
+
+      messages = [
+        { role: "system", content: customPrompt.system_prompt },
+        { role: "user", content: userPrompt },
+      ];
+
+      config = {
+        maxTokens: customPrompt.config?.maxTokens || 32000,
+        temperature: customPrompt.config?.temperature || 0.3,
+      };
+    } else {
+      // Use default prompt template
+      const { prompts, PromptManager } = await import("../ai-prompts");
+      const { questionKindPrompts } = await import("../ai-prompts");
+      const template = options?.questionKind
+        ? questionKindPrompts[options.questionKind]
+        : prompts.singleDifficultyQuestions;
+
+      // Use segments if provided, otherwise fallback to transcript
+      const promptData =
+        options?.segments && options.segments.length > 0
+          ? {
+              loop,
+              segments: options.segments,
+              difficulty,
+              questionCount: targetQuestionCount,
+              previousQuestions: options?.previousQuestions,
+            }
+          : {
+              loop,
+              transcript,
+              difficulty,
+              questionCount: targetQuestionCount,
+              previousQuestions: options?.previousQuestions,
+            };
+
+      messages = PromptManager.buildMessages(template, promptData);
+      config = PromptManager.getConfig(template);
+    }
+
+    return { messages, config };
+  }
+
+  /**
+   * Stream questions for a single difficulty, yielding each question as soon
+   * as the provider has produced it. Falls back to a regular request to top up
+   * if the stream ends short of the requested count.
+   */
+  async *streamSingleDifficultyQuestions(
+    loop: SavedLoop,
+    transcript: string,
+    difficulty: "easy" | "medium" | "hard",
+    options?: QuestionGenerationOptions
+  ): AsyncGenerator<GeneratedQuestion> {
+    const targetQuestionCount = options?.questionCount || 6;
+    const { messages, config } = await this.buildSingleDifficultyRequest(
+      loop,
+      transcript,
+      difficulty,
+      options
+    );
+
+    const accepted: any[] = [];
+    const processed: GeneratedQuestion[] = [];
+    const parser = new IncrementalQuestionParser();
+
+    const questionKind = this.getRequestedKind(options);
+
+    const accept = (raw: any): GeneratedQuestion | null => {
+      if (accepted.length >= targetQuestionCount) return null;
+      const candidate = this.withKind(raw, questionKind);
+      if (AIUtils.filterValidQuestions([candidate], difficulty).length === 0) {
+        return null;
+      }
+
+      const isDuplicate = accepted.some((existing) =>
+        AIUtils.areQuestionsDuplicate(existing.question, candidate.question)
+      );
+      if (isDuplicate) return null;
+
+      accepted.push(candidate);
+      const question = this.processGeneratedQuestion(
+        candidate,
+        loop,
+        accepted.length - 1,
+        targetQuestionCount,
+        difficulty
+      );
+      processed.push(question);
+      return question;
+    };
+
+    for await (const delta of this.provider.streamChat(messages, {
+      ...config,
+      signal: options?.signal,
+    })) {
+      for (const candidate of parser.push(delta)) {
+        const question = accept(candidate);
+        if (question) yield question;
+      }
+    }
+
+    // Some providers wrap the JSON in a way the incremental parser cannot follow
+    if (accepted.length === 0 && parser.getText().trim()) {
+      try {
+        const { PromptManager } = await import("../ai-prompts");
+        const parsedResponse = PromptManager.parseJSONResponse(parser.getText());
+        for (const candidate of parsedResponse.questions || []) {
+          const question = accept(candidate);
+          if (question) yield question;
+        }
+      } catch (error: any) {
+        console.warn("Streamed response could not be parsed:", error.message);
+      }
+    }
+
+    const remaining = targetQuestionCount - accepted.length;
+    if (remaining > 0) {
+      console.warn(
+        `Stream produced ${accepted.length}/${targetQuestionCount} ${difficulty} questions, requesting ${remaining} more`
+      );
+
+      const topUp = await this.buildSingleDifficultyRequest(
+        loop,
+        transcript,
+        difficulty,
+        {
+          ...options,
+          questionCount: remaining,
+          previousQuestions: [...(options?.previousQuestions || []), ...processed],
+        }
+      );
+      const extraQuestions = await this.generateQuestionsWithRetry(
+        topUp.messages,
+        { ...topUp.config, signal: options?.signal },
+        difficulty,
+        remaining,
+        questionKind
+      );
+
+      for (const candidate of extraQuestions) {
+        const question = accept(candidate);
+        if (question) yield question;
+      }
+    }
+  }
+
+  /**
+   * Streaming counterpart of generateQuestionsSequentiallyWithDeduplication
+   */
+  async *streamQuestionsSequentially(
+    loop: SavedLoop,
+    transcript: string,
+    preset: DifficultyPreset,
+    customPromptId?: string,
+    segments?: Array<{ text: string; start: number; duration: number }>,
+    supabaseClient?: any,
+    questionKind?: QuestionKind,
+    signal?: AbortSignal
+  ): AsyncGenerator<QuestionStreamEvent> {
+    const customPrompt = customPromptId
+      ? (await AIDatabaseService.fetchCustomPrompt(
+          customPromptId,
+          supabaseClient
+        )) || undefined
+      : undefined;
+
+    const allGeneratedQuestions: GeneratedQuestion[] = [];
+    const difficulties = ["easy", "medium", "hard"] as const;
+
+    for (const difficulty of difficulties) {
+      if (preset[difficulty] <= 0) continue;
+      if (signal?.aborted) return;
+
+      console.log(`📡 Streaming ${preset[difficulty]} ${difficulty} questions...`);
+      const difficultyQuestions: GeneratedQuestion[] = [];
+
+      try {
+        const stream = this.streamSingleDifficultyQuestions(
+          loop,
+          transcript,
+          difficulty,
+          {
+            segments,
+            questionCount: preset[difficulty],
+            previousQuestions: [...allGeneratedQuestions],
+            customPrompt,
+            questionKind,
+            signal,
+          }
+        );
+
+        for await (const question of stream) {
+          difficultyQuestions.push(question);
+          yield {
+            type: "question",
+            difficulty,
+            index: difficultyQuestions.length - 1,
+            question,
+          };
+        }
+
+        allGeneratedQuestions.push(...difficultyQuestions);
+        yield {
+          type: "difficulty_complete",
+          difficulty,
+          questions: difficultyQuestions,
+          promptVersionId: customPrompt?.version_id ?? null,
+        };
+      } catch (error: any) {
+        if (signal?.aborted) return;
+        console.error(`❌ Failed to stream ${difficulty} questions:`, error);
+        allGeneratedQuestions.push(...difficultyQuestions);
+        yield {
+          type: "difficulty_failed",
+          difficulty,
+          error: error.message || "Unknown error",
+        };
+      }
+    }
+  }
+
   /**
    * Enhanced retry mechanism with progressive approach
    */
@@ -450,7 +671,8 @@ export class QuestionGenerator {
     messages: ChatMessage[],
     config: any,
     difficulty: string,
-    targetQuestionCount: number
+    targetQuestionCount: number,
+    questionKind?: QuestionKind
   ): Promise<any[]> {
     let attempts = 0;
     const maxAttempts = 3;
@@ -473,7 +695,11 @@ export class QuestionGenerator {
           const systemPrompt = adjustedMessages[0].content;
           const userPrompt = adjustedMessages[1].content;
 
-          adjustedMessages[1].content = `${userPrompt}\n\n🚨 CRITICAL: You MUST generate exactly ${questionsNeeded} questions with difficulty level "${difficulty}". Previous attempts generated insufficient questions. Ensure each question has proper structure with 4 options A-D and matches the requested difficulty level exactly.`;
+          adjustedMessages[1].content = `${userPrompt}\n\n🚨 CRITICAL: You MUST generate exactly ${questionsNeeded} questions with difficulty level "${difficulty}". Previous attempts generated insufficient questions. Ensure each question has ${
+            questionKind && questionKind !== "multiple_choice"
+              ? `the structure required for "${questionKind}" questions`
+              : "proper structure with 4 options A-D"
+          } and matches the requested difficulty level exactly.`;
 
           // Also enhance system prompt for clarity
           adjustedMessages[0].content = `${systemPrompt}\n\nIMPORTANT: Generate exactly the requested number of questions. Each question must have difficulty level "${difficulty}". Return valid JSON with questions array containing exactly ${questionsNeeded} questions.`;
@@ -481,6 +707,7 @@ export class QuestionGenerator {
 
         const response = await this.provider.chat(adjustedMessages, {
           ...config,
+          responseFormat: "json",
           temperature: Math.max(
             0.1,
             (config.temperature || 0.3) - (attempts - 1) * 0.05
@@ -500,7 +727,9 @@ export class QuestionGenerator {
           throw new Error("AI response missing questions array");
         }
 
-        const questions = parsedResponse.questions;
+        const questions = parsedResponse.questions.map((q: any) =>
+          this.withKind(q, questionKind)
+        );
         totalGenerated += questions.length;
 
         // Filter questions by the correct difficulty level and validate structure
@@ -540,6 +769,9 @@ export class QuestionGenerator {
           );
         }
       } catch (error: any) {
+        // Cancelled by the caller: further attempts would only spend tokens
+        if (config?.signal?.aborted) throw error;
+
         console.warn(`Attempt ${attempts} failed:`, error.message);
         if (attempts === maxAttempts) {
           // If we have some questions but not enough, use what we have
@@ -578,6 +810,21 @@ export class QuestionGenerator {
     return finalQuestions;
   }
 
+  /**
+   * Kind requested for default prompts. Custom prompts decide their own format,
+   * so only kinds the AI reports itself are trusted there.
+   */
+  private getRequestedKind(
+    options?: QuestionGenerationOptions
+  ): QuestionKind | undefined {
+    return options?.customPrompt ? undefined : options?.questionKind;
+  }
+
+  private withKind(q: any, questionKind?: QuestionKind): any {
+    if (!q || typeof q !== "object" || q.kind || !questionKind) return q;
+    return { ...q, kind: questionKind };
+  }
+
   /**
    * Process and format a generated question
    */
@@ -588,27 +835,17 @@ export class QuestionGenerator {
     totalQuestions: number,
     forceDifficulty?: string
   ): GeneratedQuestion {
-    // Shuffle answer options to randomize correct answer position
-    const correctAnswerIndex = ["A", "B", "C", "D"].indexOf(
-      q.correctAnswer || "A"
-    );
-    const correctOption = q.options[correctAnswerIndex] || q.options[0];
-
     // Create shuffled array with seeded randomization for consistency
     const seed = loop.id + (forceDifficulty || q.difficulty) + index;
-    const shuffledData = AIUtils.shuffleOptionsWithSeed(q.options, seed);
-    const newCorrectIndex = shuffledData.options.indexOf(correctOption);
-    const newCorrectAnswer = ["A", "B", "C", "D"][newCorrectIndex] as
-      | "A"
-      | "B"
-      | "C"
-      | "D";
+    const answer = this.processAnswer(q, seed);
 
     return {
       id: `q_${loop.id}_${forceDifficulty || q.difficulty}_${index + 1}`,
+      ...(answer.kind !== "multiple_choice" ? { kind: answer.kind } : {}),
       question: q.question,
-      options: shuffledData.options,
-      correctAnswer: newCorrectAnswer,
+      options: answer.options,
+      correctAnswer: answer.correctAnswer,
+      ...(answer.acceptedAnswers ? { acceptedAnswers: answer.acceptedAnswers } : {}),
       explanation: q.explanation || "No explanation provided",
       difficulty: forceDifficulty || (["easy", "medium", "hard"].includes(q.difficulty)
         ? q.difficulty
@@ -629,4 +866,93 @@ export class QuestionGenerator {
           (index * (loop.endTime - loop.startTime)) / totalQuestions,
     } as GeneratedQuestion;
   }
-}
\ No newline at end of file
+
+  /**
+   * Normalize options and the answer key for each question kind
+   */
+  private processAnswer(
+    q: any,
+    seed: string
+  ): Pick<GeneratedQuestion, "options" | "correctAnswer" | "acceptedAnswers"> & {
+    kind: QuestionKind;
+  } {
+    const rawAnswer = String(q.correctAnswer || "").trim();
+    const cleanList = (values: unknown): string[] =>
+      Array.isArray(values)
+        ? values.map((value) => String(value ?? "").trim()).filter(Boolean)
+        : [];
+
+    switch (q.kind as QuestionKind | undefined) {
+      case "true_false_not_given": {
+        // Options stay in their fixed order; accept the answer as a letter or text
+        const textIndex = TRUE_FALSE_NOT_GIVEN_OPTIONS.findIndex(
+          (option) => option.toLowerCase() === rawAnswer.toLowerCase()
+        );
+        return {
+          kind: "true_false_not_given",
+          options: [...TRUE_FALSE_NOT_GIVEN_OPTIONS],
+          correctAnswer: textIndex >= 0 ? optionLetter(textIndex) : rawAnswer.toUpperCase(),
+        };
+      }
+
+      case "ordering": {
+        const options = cleanList(q.options);
+        const correctOrder = rawAnswer
+          .toUpperCase()
+          .replace(/[^A-Z]/g, "")
+          .split("")
+          .map((letter) => options[letter.charCodeAt(0) - 65])
+          .filter(Boolean);
+        let shuffled = AIUtils.shuffleOptionsWithSeed(options, seed).options;
+
+        // Never present the items already in the correct order
+        if (shuffled.every((option, i) => option === correctOrder[i])) {
+          shuffled = [...shuffled.slice(1), shuffled[0]];
+        }
+
+        return {
+          kind: "ordering",
+          options: shuffled,
+          correctAnswer: correctOrder
+            .map((option) => optionLetter(shuffled.indexOf(option)))
+            .join(""),
+        };
+      }
+
+      case "cloze": {
+        const blanks = cleanList(q.acceptedAnswers);
+        const acceptedAnswers = blanks.length > 0 ? blanks : splitClozeAnswer(rawAnswer);
+        return {
+          kind: "cloze",
+          options: [],
+          correctAnswer: joinClozeAnswer(acceptedAnswers),
+          acceptedAnswers,
+        };
+      }
+
+      case "short_answer": {
+        const alternatives = cleanList(q.acceptedAnswers);
+        return {
+          kind: "short_answer",
+          options: [],
+          correctAnswer: rawAnswer,
+          ...(alternatives.length > 0 ? { acceptedAnswers: alternatives } : {}),
+        };
+      }
+
+      default: {
+        // Shuffle answer options to randomize correct answer position
+        const correctAnswerIndex = ["A", "B", "C", "D"].indexOf(rawAnswer || "A");
+        const correctOption = q.options[correctAnswerIndex] || q.options[0];
+        const shuffledData = AIUtils.shuffleOptionsWithSeed(q.options, seed);
+        const newCorrectIndex = shuffledData.options.indexOf(correctOption);
+
+        return {
+          kind: "multiple_choice",
+          options: shuffledData.options,
+          correctAnswer: ["A", "B", "C", "D"][newCorrectIndex],
+        };
+      }
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import {
+  AIProviderInterface,
+  AIResponse,
+  AICapability,
+  AIConfig,
+  AIRoute,
+  AIRouteAttempt,
+  AIRoutingConfig,
+  ChatMessage,
+  ChatOptions,
+  aiRoutingConfigSchema,
+} from "./types";
+import { AIConfigManager } from "./config";
+import { AIProviderFactory } from "./providers";
+import { AIErrorHandler, AIServiceError } from "./error-handler";
+
+export interface AIRouterDependencies {
+  createProvider?: (config: AIConfig) => AIProviderInterface;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface ResolvedRoute {
+  route: AIRoute;
+  config: AIConfig;
+  provider: AIProviderInterface;
+}
+
+const defaultSleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Routing layer over AI providers.
+ *
+ * Tries routes in order. Retryable errors (rate limit, server, network,
+ * malformed JSON) are retried on the same route up to `maxRetries` with
+ * exponential backoff; everything else fails over to the next route.
+ */
+export class AIRouter implements AIProviderInterface {
+  private config: AIRoutingConfig;
+  private routes: ResolvedRoute[];
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    config: AIRoutingConfig,
+    defaults: Partial<AIConfig> = {},
+    deps: AIRouterDependencies = {}
+  ) {
+    this.config = aiRoutingConfigSchema.parse(config);
+    this.sleep = deps.sleep || defaultSleep;
+
+    const createProvider =
+      deps.createProvider || ((c: AIConfig) => AIProviderFactory.createProvider(c));
+
+    this.routes = this.config.routes.map((route) => {
+      const routeConfig = AIConfigManager.validateConfig({
+        provider: route.provider,
+        model: route.model,
+        apiKey: route.apiKey || "",
+        baseUrl: route.baseUrl,
+        maxTokens: route.maxTokens ?? defaults.maxTokens ?? 4000,
+        temperature: route.temperature ?? defaults.temperature ?? 0.3,
+      });
+      return { route, config: routeConfig, provider: createProvider(routeConfig) };
+    });
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<AIResponse> {
+    if (options?.stream) {
+      return {
+        content: "",
+        usage: { totalTokens: 0, promptTokens: 0, completionTokens: 0 },
+        model: this.routes[0].config.model,
+        provider: this.routes[0].config.provider,
+        finishReason: "stream",
+        stream: this.streamChat(messages, options),
+      };
+    }
+
+    const attempts: AIRouteAttempt[] = [];
+    let lastError: AIServiceError | null = null;
+
+    for (const { route, config, provider } of this.routes) {
+      for (let attemptOnRoute = 1; ; attemptOnRoute++) {
+        if (attempts.length >= this.config.maxTotalAttempts) {
+          throw this.exhausted(lastError, attempts);
+        }
+
+        const startedAt = Date.now();
+        try {
+          const response = await provider.chat(messages, options);
+          if (options?.responseFormat === "json") {
+            this.assertJson(response.content);
+          }
+
+          attempts.push({
+            provider: config.provider,
+            model: config.model,
+            success: true,
+            durationMs: Date.now() - startedAt,
+          });
+
+          return {
+            ...response,
+            provider: config.provider,
+            model: response.model || config.model,
+            attempts,
+          };
+        } catch (error) {
+          lastError = AIErrorHandler.handleAIError(error) as AIServiceError;
+          attempts.push({
+            provider: config.provider,
+            model: config.model,
+            success: false,
+            durationMs: Date.now() - startedAt,
+            errorKind: lastError.kind,
+            error: lastError.message,
+          });
+
+          // A cancelled request is not retried or failed over
+          if (options?.signal?.aborted) {
+            throw lastError;
+          }
+
+          const decision = AIErrorHandler.getRoutingDecision(
+            lastError.kind,
+            attemptOnRoute,
+            route.maxRetries
+          );
+
+          console.warn(
+            `AI route ${config.provider}/${config.model} failed (${lastError.kind}), ${decision}`
+          );
+
+          if (decision === "failover") {
+            break;
+          }
+
+          await this.sleep(
+            AIErrorHandler.getRetryDelay(attemptOnRoute, this.config.retryDelayMs)
+          );
+        }
+      }
+    }
+
+    throw this.exhausted(lastError, attempts);
+  }
+
+  /**
+   * Streams from the first route that produces output. Once a delta has been
+   * yielded the response is committed to that route and errors propagate.
+   */
+  async *streamChat(
+    messages: ChatMessage[],
+    options?: Omit<ChatOptions, "stream">
+  ): AsyncIterable<string> {
+    const attempts: AIRouteAttempt[] = [];
+    let lastError: AIServiceError | null = null;
+
+    for (const { route, config, provider } of this.routes) {
+      for (let attemptOnRoute = 1; ; attemptOnRoute++) {
+        if (attempts.length >= this.config.maxTotalAttempts) {
+          throw this.exhausted(lastError, attempts);
+        }
+
+        const startedAt = Date.now();
+        let started = false;
+        try {
+          for await (const delta of provider.streamChat(messages, options)) {
+            started = true;
+            yield delta;
+          }
+          return;
+        } catch (error) {
+          if (started) {
+            throw AIErrorHandler.handleAIError(error);
+          }
+
+          lastError = AIErrorHandler.handleAIError(error) as AIServiceError;
+          attempts.push({
+            provider: config.provider,
+            model: config.model,
+            success: false,
+            durationMs: Date.now() - startedAt,
+            errorKind: lastError.kind,
+            error: lastError.message,
+          });
+
+          // A cancelled request is not retried or failed over
+          if (options?.signal?.aborted) {
+            throw lastError;
+          }
+
+          const decision = AIErrorHandler.getRoutingDecision(
+            lastError.kind,
+            attemptOnRoute,
+            route.maxRetries
+          );
+
+          if (decision === "failover") {
+            break;
+          }
+
+          await this.sleep(
+            AIErrorHandler.getRetryDelay(attemptOnRoute, this.config.retryDelayMs)
+          );
+        }
+      }
+    }
+
+    throw this.exhausted(lastError, attempts);
+  }
+
+  // Capabilities of the primary route
+  getCapabilities(): AICapability[] {
+    return this.routes[0].provider.getCapabilities();
+  }
+
+  // Routes without credentials, in priority order
+  getRoutes(): Array<Omit<AIConfig, "apiKey">> {
+    return this.routes.map(({ config }) => AIConfigManager.getSafeConfig(config));
+  }
+
+  // Mirrors PromptManager.parseJSONResponse: the outermost object, optionally fenced
+  private assertJson(content: string) {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+
+    try {
+      if (!jsonMatch) {
+        throw new SyntaxError("No JSON found in AI response");
+      }
+      JSON.parse(jsonMatch[0]);
+    } catch {
+      throw new AIServiceError("AI response is not valid JSON", "malformed_json");
+    }
+  }
+
+  private exhausted(
+    lastError: AIServiceError | null,
+    attempts: AIRouteAttempt[]
+  ): AIServiceError {
+    const tried = attempts.map((a) => `${a.provider}/${a.model}`).join(", ");
+    const error = new AIServiceError(
+      `All AI providers failed (${tried || "none tried"}): ${
+        lastError?.message || "Unknown error"
+      }`,
+      lastError?.kind || "unknown",
+      lastError?.status
+    );
+    return Object.assign(error, { attempts });
+  }
+}
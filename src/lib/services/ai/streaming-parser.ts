@@ -0,0 +1,121 @@
+/**
+ * Incremental parser for streamed question JSON.
+ *
+ * Consumes raw text deltas of a `{ "questions": [ {...}, {...} ] }` response
+ * and emits each question object as soon as its closing brace arrives,
+ * ignoring surrounding prose or markdown code fences.
+ */
+export class IncrementalQuestionParser {
+  private buffer = "";
+  private position = 0;
+  private inString = false;
+  private escaped = false;
+  private stack: Array<"object" | "array" | "questions"> = [];
+  private lastString = "";
+  private stringStart = -1;
+  private pendingKey: string | null = null;
+  private questionStart = -1;
+  private completed: any[] = [];
+
+  /**
+   * Feed the next chunk of text and return any questions completed by it
+   */
+  push(chunk: string): any[] {
+    this.buffer += chunk;
+    const found: any[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.lastString = this.buffer.slice(this.stringStart + 1, this.position);
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          // Strings only matter once we are inside the JSON document
+          if (this.stack.length > 0) {
+            this.inString = true;
+            this.stringStart = this.position;
+          }
+          break;
+        case ":":
+          this.pendingKey = this.lastString;
+          break;
+        case ",":
+          this.pendingKey = null;
+          break;
+        case "{":
+          if (this.top() === "questions") {
+            this.questionStart = this.position;
+          }
+          this.stack.push("object");
+          this.pendingKey = null;
+          break;
+        case "[":
+          this.stack.push(
+            this.pendingKey === "questions" && this.stack.length === 1
+              ? "questions"
+              : "array"
+          );
+          this.pendingKey = null;
+          break;
+        case "}":
+        case "]":
+          this.stack.pop();
+          if (
+            char === "}" &&
+            this.top() === "questions" &&
+            this.questionStart >= 0
+          ) {
+            const question = this.parseQuestion(
+              this.buffer.slice(this.questionStart, this.position + 1)
+            );
+            if (question) {
+              found.push(question);
+              this.completed.push(question);
+            }
+            this.questionStart = -1;
+          }
+          break;
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * All questions parsed so far
+   */
+  getQuestions(): any[] {
+    return [...this.completed];
+  }
+
+  /**
+   * Full text received so far, for fallback parsing once the stream ends
+   */
+  getText(): string {
+    return this.buffer;
+  }
+
+  private top() {
+    return this.stack[this.stack.length - 1];
+  }
+
+  private parseQuestion(json: string): any | null {
+    try {
+      return JSON.parse(json);
+    } catch (error) {
+      console.warn("Skipping malformed streamed question:", error);
+      return null;
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { AIErrorKind } from "./error-handler";
 
 // Core Types
 export interface ChatMessage {
@@ -14,12 +15,33 @@ export interface AIResponse {
     completionTokens: number;
   };
   model: string;
-  provider: "openai" | "anthropic" | "google" | "custom";
+  provider: AIProvider;
   finishReason: string;
-  stream?: any;
+  stream?: AsyncIterable<string>;
+  // Set by AIRouter: every provider/model tried, in order, including the one that answered
+  attempts?: AIRouteAttempt[];
 }
 
-export type AIProvider = "openai" | "anthropic" | "google" | "custom";
+export interface ChatOptions {
+  stream?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+  // Treat a response without parseable JSON as a failure (lets the router retry / fail over)
+  responseFormat?: "text" | "json";
+  // Cancels the request, e.g. when the client that asked for it disconnected
+  signal?: AbortSignal;
+}
+
+export type AIProvider = "openai" | "anthropic" | "google" | "custom" | "stub";
+
+export interface AIRouteAttempt {
+  provider: AIProvider;
+  model: string;
+  success: boolean;
+  durationMs: number;
+  errorKind?: AIErrorKind;
+  error?: string;
+}
 export type AICapability =
   | "text-generation"
   | "text-analysis"
@@ -33,16 +55,56 @@ export type AICapability =
   | "fast-generation";
 
 // Configuration Schema
-export const aiConfigSchema = z.object({
-  provider: z.enum(["openai", "anthropic", "google", "custom"]),
-  apiKey: z.string().min(1, "API key is required"),
-  baseUrl: z.string().optional(),
+export const aiProviderSchema = z.enum([
+  "openai",
+  "anthropic",
+  "google",
+  "custom",
+  "stub",
+]);
+
+export const aiConfigSchema = z
+  .object({
+    provider: aiProviderSchema,
+    apiKey: z.string(),
+    baseUrl: z.string().optional(),
+    model: z.string().min(1, "Model is required"),
+    maxTokens: z.number().min(1).max(100000).default(4000),
+    temperature: z.number().min(0).max(2).default(0.7),
+  })
+  .superRefine((config, ctx) => {
+    // The local stub provider never calls out, so it needs no key
+    if (config.provider !== "stub" && config.apiKey.length === 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["apiKey"],
+        message: "API key is required",
+      });
+    }
+  });
+
+export type AIConfig = z.infer<typeof aiConfigSchema>;
+
+// Routing Schema: ordered providers/models tried until one answers
+export const aiRouteSchema = z.object({
+  provider: aiProviderSchema,
   model: z.string().min(1, "Model is required"),
-  maxTokens: z.number().min(1).max(100000).default(4000),
-  temperature: z.number().min(0).max(2).default(0.7),
+  apiKey: z.string().optional(),
+  baseUrl: z.string().optional(),
+  maxTokens: z.number().min(1).max(100000).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  // Retries on this route for retryable errors before failing over
+  maxRetries: z.number().int().min(0).max(5).default(1),
 });
 
-export type AIConfig = z.infer<typeof aiConfigSchema>;
+export const aiRoutingConfigSchema = z.object({
+  routes: z.array(aiRouteSchema).min(1, "At least one route is required"),
+  retryDelayMs: z.number().min(0).max(30000).default(1000),
+  maxTotalAttempts: z.number().int().min(1).max(20).default(6),
+});
+
+export type AIRoute = z.infer<typeof aiRouteSchema>;
+export type AIRoutingConfig = z.infer<typeof aiRoutingConfigSchema>;
 
 // Loop and generation types
 export interface SavedLoop {
@@ -58,20 +120,58 @@ export interface DifficultyPreset {
   hard: number;
 }
 
+export type QuestionKind =
+  | "multiple_choice"
+  | "cloze"
+  | "ordering"
+  | "true_false_not_given"
+  | "short_answer";
+
+export const QUESTION_KINDS: QuestionKind[] = [
+  "multiple_choice",
+  "cloze",
+  "ordering",
+  "true_false_not_given",
+  "short_answer",
+];
+
+export type QuestionType =
+  | "main_idea"
+  | "specific_detail"
+  | "vocabulary_in_context"
+  | "inference"
+  | "speaker_tone"
+  | "language_function";
+
+export const QUESTION_TYPES: QuestionType[] = [
+  "main_idea",
+  "specific_detail",
+  "vocabulary_in_context",
+  "inference",
+  "speaker_tone",
+  "language_function",
+];
+
+// Fixed options for true/false/not-given questions, labelled A-C
+export const TRUE_FALSE_NOT_GIVEN_OPTIONS = ["True", "False", "Not Given"];
+
 export interface GeneratedQuestion {
   id: string;
+  // Questions saved before other kinds existed have no kind and are multiple choice
+  kind?: QuestionKind;
   question: string;
+  // Empty for cloze and short answer
   options: string[];
-  correctAnswer: "A" | "B" | "C" | "D";
+  // multiple_choice / true_false_not_given: option letter ("A"-"D").
+  // ordering: option letters in the correct order, e.g. "CADB".
+  // cloze / short_answer: the expected text.
+  correctAnswer: string;
+  // cloze: expected word(s) for each blank, in order.
+  // short_answer: other answers that should also be accepted.
+  acceptedAnswers?: string[];
   explanation: string;
   difficulty: "easy" | "medium" | "hard";
-  type:
-    | "main_idea"
-    | "specific_detail"
-    | "vocabulary_in_context"
-    | "inference"
-    | "speaker_tone"
-    | "language_function";
+  type: QuestionType;
   timestamp?: number;
 }
 
@@ -83,6 +183,8 @@ export interface GeneratedQuestions {
     medium: number;
     hard: number;
   };
+  // Set when a custom prompt was used
+  promptVersionId?: string | null;
   sequentialResults?: {
     easy: GeneratedQuestions | null;
     medium: GeneratedQuestions | null;
@@ -94,6 +196,8 @@ export interface GeneratedQuestions {
 export interface CustomPrompt {
   system_prompt: string;
   user_template: string;
+  // custom_prompt_versions row the content was read from
+  version_id?: string | null;
   config?: {
     maxTokens?: number;
     temperature?: number;
@@ -105,18 +209,40 @@ export interface QuestionGenerationOptions {
   customPrompt?: CustomPrompt;
   questionCount?: number;
   previousQuestions?: GeneratedQuestion[];
+  // Defaults to multiple_choice
+  questionKind?: QuestionKind;
+  signal?: AbortSignal;
 }
 
+// Events emitted while streaming question generation
+export type QuestionStreamEvent =
+  | {
+      type: "question";
+      difficulty: "easy" | "medium" | "hard";
+      index: number;
+      question: GeneratedQuestion;
+    }
+  | {
+      type: "difficulty_complete";
+      difficulty: "easy" | "medium" | "hard";
+      questions: GeneratedQuestion[];
+      promptVersionId?: string | null;
+    }
+  | {
+      type: "difficulty_failed";
+      difficulty: "easy" | "medium" | "hard";
+      error: string;
+    };
+
 // Provider base interface
 export interface AIProviderInterface {
-  chat(
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<AIResponse>;
+
+  // Yield text deltas as the provider produces them
+  streamChat(
     messages: ChatMessage[],
-    options?: {
-      stream?: boolean;
-      temperature?: number;
-      maxTokens?: number;
-    }
-  ): Promise<AIResponse>;
+    options?: Omit<ChatOptions, "stream">
+  ): AsyncIterable<string>;
 
   getCapabilities(): AICapability[];
 }
\ No newline at end of file
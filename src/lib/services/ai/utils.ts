@@ -1,3 +1,5 @@
+import { TRUE_FALSE_NOT_GIVEN_OPTIONS } from "./types";
+
 /**
  * Utility functions for AI service operations
  */
@@ -95,7 +97,51 @@ export class AIUtils {
     //   console.warn(`Invalid question structure at index ${index}:`, question);
     //   return false;
     // }
-    return true;
+    const isValid = this.validateQuestionKindStructure(question);
+    if (!isValid) {
+      console.warn(`Invalid ${question.kind} question at index ${index}:`, question);
+    }
+    return isValid;
+  }
+
+  /**
+   * Kind-specific checks for non multiple choice questions
+   */
+  private static validateQuestionKindStructure(question: any): boolean {
+    const options: unknown[] = Array.isArray(question.options) ? question.options : [];
+    const correctAnswer =
+      typeof question.correctAnswer === "string" ? question.correctAnswer.trim() : "";
+    const acceptedAnswers: unknown[] = Array.isArray(question.acceptedAnswers)
+      ? question.acceptedAnswers
+      : [];
+
+    switch (question.kind) {
+      case "cloze": {
+        const blanks = (question.question || "").match(/_{3,}/g)?.length || 0;
+        if (blanks === 0) return false;
+        return acceptedAnswers.length > 0
+          ? acceptedAnswers.length === blanks
+          : correctAnswer.split("|").filter((part: string) => part.trim()).length === blanks;
+      }
+      case "ordering": {
+        if (options.length < 3 || options.length > 6) return false;
+        const letters = correctAnswer.toUpperCase().replace(/[^A-Z]/g, "");
+        const expected = options.map((_, i) => String.fromCharCode(65 + i)).join("");
+        return letters.split("").sort().join("") === expected;
+      }
+      case "true_false_not_given":
+        return (
+          ["A", "B", "C"].includes(correctAnswer.toUpperCase()) ||
+          TRUE_FALSE_NOT_GIVEN_OPTIONS.some(
+            (option) => option.toLowerCase() === correctAnswer.toLowerCase()
+          )
+        );
+      case "short_answer":
+        return correctAnswer.length > 0;
+      default:
+        // Multiple choice is left lenient; downstream processing repairs it
+        return true;
+    }
   }
 
   /**
@@ -0,0 +1,296 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseServiceRole } from '../supabase/service-role'
+import type { Database, Tables } from '../supabase/types'
+
+export type ChallengeType = 'quiz_count' | 'cards_reviewed' | 'high_score_sessions'
+
+export const CHALLENGE_TYPES: Record<ChallengeType, { label: string; unit: string }> = {
+  quiz_count: { label: 'Complete group quizzes', unit: 'quizzes' },
+  cards_reviewed: { label: 'Review vocabulary cards', unit: 'cards' },
+  high_score_sessions: { label: 'Score high in group sessions', unit: 'sessions' }
+}
+
+export interface ChallengeRewards {
+  xp?: number
+}
+
+export type ChallengeParticipant = Tables<'challenge_participants'>
+
+export type GroupChallenge = Tables<'group_challenges'> & {
+  participants: ChallengeParticipant[]
+}
+
+export interface CreateChallengeInput {
+  title: string
+  description?: string
+  type: ChallengeType
+  target: number
+  // Required for 'high_score_sessions'
+  minScore?: number
+  durationDays: number
+  startDate?: string
+  rewards?: ChallengeRewards
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function getServiceClient() {
+  const supabase = getSupabaseServiceRole()
+  if (!supabase) {
+    throw new Error('Database not configured')
+  }
+  return supabase
+}
+
+/**
+ * Challenge Service
+ * Progress is recounted from stored activity inside the challenge window
+ * rather than incremented per event, so refreshing twice is harmless.
+ * Progress rows are written with the service role.
+ */
+export class ChallengeService {
+  async listGroupChallenges(supabase: SupabaseClient<Database>, groupId: string): Promise<GroupChallenge[]> {
+    const { data, error } = await supabase
+      .from('group_challenges')
+      .select('*, participants:challenge_participants(*)')
+      .eq('group_id', groupId)
+      .neq('status', 'cancelled')
+      .order('end_date', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch challenges: ${error.message}`)
+    }
+
+    return (data || []).map(challenge => ({
+      ...challenge,
+      participants: [...(challenge.participants || [])].sort(
+        (a, b) => (b.progress || 0) - (a.progress || 0) || (a.rank ?? Infinity) - (b.rank ?? Infinity)
+      )
+    }))
+  }
+
+  async createChallenge(
+    supabase: SupabaseClient<Database>,
+    groupId: string,
+    userId: string,
+    input: CreateChallengeInput
+  ): Promise<Tables<'group_challenges'>> {
+    const start = input.startDate ? new Date(input.startDate) : new Date()
+    const end = new Date(start.getTime() + input.durationDays * DAY_MS)
+
+    const { data, error } = await supabase
+      .from('group_challenges')
+      .insert({
+        group_id: groupId,
+        created_by: userId,
+        title: input.title,
+        description: input.description || null,
+        type: input.type,
+        target: input.target,
+        min_score: input.type === 'high_score_sessions' ? (input.minScore ?? null) : null,
+        duration: input.durationDays,
+        start_date: start.toISOString(),
+        end_date: end.toISOString(),
+        rewards: { ...input.rewards },
+        status: 'active'
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create challenge: ${error.message}`)
+    }
+
+    return data
+  }
+
+  async cancelChallenge(
+    supabase: SupabaseClient<Database>,
+    groupId: string,
+    challengeId: string
+  ): Promise<Tables<'group_challenges'> | null> {
+    const { data, error } = await supabase
+      .from('group_challenges')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', challengeId)
+      .eq('group_id', groupId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to cancel challenge: ${error.message}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Recount the user's progress on the running challenges of their groups
+   * and notify them about newly completed ones. Call after quiz submissions
+   * and reviews; never throws.
+   */
+  async refreshProgress(userId: string, groupId?: string): Promise<number> {
+    try {
+      const supabase = getServiceClient()
+      const now = new Date().toISOString()
+
+      let membershipsQuery = supabase
+        .from('study_group_members')
+        .select('group_id, username, avatar')
+        .eq('user_id', userId)
+      if (groupId) {
+        membershipsQuery = membershipsQuery.eq('group_id', groupId)
+      }
+
+      const { data: memberships, error: membershipsError } = await membershipsQuery
+      if (membershipsError) throw membershipsError
+      if (!memberships || memberships.length === 0) return 0
+
+      const { data: challenges, error: challengesError } = await supabase
+        .from('group_challenges')
+        .select('*')
+        .in('group_id', memberships.map(membership => membership.group_id))
+        .eq('status', 'active')
+        .lte('start_date', now)
+        .gte('end_date', now)
+
+      if (challengesError) throw challengesError
+
+      let completedCount = 0
+      for (const challenge of challenges || []) {
+        const member = memberships.find(membership => membership.group_id === challenge.group_id)
+        if (!member) continue
+
+        const progress = await this.countProgress(supabase, challenge, userId)
+        const completed = await this.saveProgress(supabase, challenge, userId, member, progress)
+        if (completed) completedCount++
+      }
+
+      return completedCount
+    } catch (error) {
+      console.error('Error refreshing challenge progress:', error)
+      return 0
+    }
+  }
+
+  /**
+   * Mark active challenges whose end date has passed as completed
+   */
+  async closeExpiredChallenges(): Promise<number> {
+    const supabase = getServiceClient()
+
+    const { data, error } = await supabase
+      .from('group_challenges')
+      .update({ status: 'completed', updated_at: new Date().toISOString() })
+      .eq('status', 'active')
+      .lt('end_date', new Date().toISOString())
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to close challenges: ${error.message}`)
+    }
+
+    return data?.length || 0
+  }
+
+  private async countProgress(
+    supabase: SupabaseClient<Database>,
+    challenge: Tables<'group_challenges'>,
+    userId: string
+  ): Promise<number> {
+    if (challenge.type === 'cards_reviewed') {
+      const { count, error } = await supabase
+        .from('user_vocabulary_reviews')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .gte('reviewed_at', challenge.start_date)
+        .lte('reviewed_at', challenge.end_date)
+
+      if (error) throw error
+      return count || 0
+    }
+
+    const { data: sessions, error: sessionsError } = await supabase
+      .from('group_quiz_sessions')
+      .select('id')
+      .eq('group_id', challenge.group_id!)
+
+    if (sessionsError) throw sessionsError
+    const sessionIds = (sessions || []).map(session => session.id)
+    if (sessionIds.length === 0) return 0
+
+    let query = supabase
+      .from('group_quiz_results')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .in('session_id', sessionIds)
+      .gte('completed_at', challenge.start_date)
+      .lte('completed_at', challenge.end_date)
+
+    if (challenge.type === 'high_score_sessions') {
+      query = query.gte('score', challenge.min_score ?? 0)
+    }
+
+    const { count, error } = await query
+    if (error) throw error
+    return count || 0
+  }
+
+  // Store the recount; returns true when this refresh completed the challenge
+  private async saveProgress(
+    supabase: SupabaseClient<Database>,
+    challenge: Tables<'group_challenges'>,
+    userId: string,
+    member: { username: string; avatar: string | null },
+    progress: number
+  ): Promise<boolean> {
+    const { error } = await supabase.from('challenge_participants').upsert(
+      {
+        challenge_id: challenge.id,
+        user_id: userId,
+        username: member.username,
+        avatar: member.avatar,
+        progress: Math.min(progress, challenge.target)
+      },
+      { onConflict: 'challenge_id,user_id' }
+    )
+
+    if (error) throw error
+    if (progress < challenge.target) return false
+
+    const { count: finishedBefore } = await supabase
+      .from('challenge_participants')
+      .select('id', { count: 'exact', head: true })
+      .eq('challenge_id', challenge.id)
+      .not('completed_at', 'is', null)
+
+    // Only the refresh that flips completed_at notifies
+    const { data: completed, error: completeError } = await supabase
+      .from('challenge_participants')
+      .update({ completed_at: new Date().toISOString(), rank: (finishedBefore || 0) + 1 })
+      .eq('challenge_id', challenge.id)
+      .eq('user_id', userId)
+      .is('completed_at', null)
+      .select('rank')
+
+    if (completeError) throw completeError
+    if (!completed || completed.length === 0) return false
+
+    const rewards = (challenge.rewards || {}) as ChallengeRewards
+    const { error: notifyError } = await supabase.from('social_notifications').insert({
+      user_id: userId,
+      type: 'challenge_completed',
+      title: 'Challenge completed',
+      message: `You completed "${challenge.title}"${rewards.xp ? ` and earned ${rewards.xp} XP` : ''}. You finished #${completed[0].rank}.`,
+      data: { groupId: challenge.group_id, challengeId: challenge.id }
+    })
+
+    if (notifyError) {
+      console.error('Failed to notify about challenge completion:', notifyError)
+    }
+
+    return true
+  }
+}
+
+export const challengeService = new ChallengeService()
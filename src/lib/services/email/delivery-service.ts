@@ -0,0 +1,162 @@
+import { getSupabaseServiceRole } from '../../supabase/service-role'
+import type { Tables } from '../../supabase/types'
+import { renderEmailTemplate } from './templates'
+import { createEmailTransport, DEFAULT_EMAIL_FROM } from './transports'
+import type { EmailTemplateData, EmailTemplateName, EmailTransport } from './types'
+
+export type EmailDelivery = Tables<'email_deliveries'>
+
+// Keeps the retry job away from a delivery while its first attempt is in flight
+const FIRST_ATTEMPT_GRACE_MS = 5 * 60 * 1000
+const RETRY_BASE_DELAY_MS = 60 * 1000
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000
+
+/**
+ * Email Delivery Service
+ * Renders templates, records every email in `email_deliveries` and sends it
+ * through the configured transport. Failed sends stay pending with a backoff
+ * until `retryDueDeliveries` succeeds or max_attempts is reached.
+ */
+export class EmailDeliveryService {
+  constructor(
+    private transport: EmailTransport | null,
+    private from: string = DEFAULT_EMAIL_FROM
+  ) {}
+
+  get enabled(): boolean {
+    return this.transport !== null
+  }
+
+  get transportName(): string | null {
+    return this.transport?.name ?? null
+  }
+
+  /**
+   * Send one templated email. Returns the delivery row, or null when email is disabled.
+   * Send failures are recorded for retry rather than thrown.
+   */
+  async send<T extends EmailTemplateName>(params: {
+    to: string
+    template: T
+    data: EmailTemplateData[T]
+    userId?: string | null
+  }): Promise<EmailDelivery | null> {
+    if (!this.transport) return null
+
+    const rendered = renderEmailTemplate(params.template, params.data)
+
+    const { data: delivery, error } = await this.getClient()
+      .from('email_deliveries')
+      .insert({
+        template: params.template,
+        recipient_email: params.to,
+        user_id: params.userId ?? null,
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text,
+        transport: this.transport.name,
+        next_attempt_at: new Date(Date.now() + FIRST_ATTEMPT_GRACE_MS).toISOString()
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to record email delivery: ${error.message}`)
+    }
+
+    return this.attempt(delivery)
+  }
+
+  /**
+   * Retry pending deliveries whose backoff has elapsed
+   */
+  async retryDueDeliveries(limit = 50): Promise<{ attempted: number; sent: number; failed: number }> {
+    if (!this.transport) return { attempted: 0, sent: 0, failed: 0 }
+
+    const { data: due, error } = await this.getClient()
+      .from('email_deliveries')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at')
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to fetch pending email deliveries: ${error.message}`)
+    }
+
+    let sent = 0
+    let failed = 0
+
+    for (const delivery of due || []) {
+      const result = await this.attempt(delivery)
+      if (result.status === 'sent') sent++
+      if (result.status === 'failed') failed++
+    }
+
+    return { attempted: due?.length || 0, sent, failed }
+  }
+
+  private async attempt(delivery: EmailDelivery): Promise<EmailDelivery> {
+    const attempts = delivery.attempts + 1
+    let update: Partial<EmailDelivery>
+
+    try {
+      const { messageId } = await this.transport!.send({
+        to: delivery.recipient_email,
+        from: this.from,
+        subject: delivery.subject,
+        html: delivery.html,
+        text: delivery.text
+      })
+
+      update = {
+        status: 'sent',
+        attempts,
+        transport: this.transport!.name,
+        message_id: messageId ?? null,
+        sent_at: new Date().toISOString(),
+        last_error: null
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`Email ${delivery.template} to ${delivery.recipient_email} failed (attempt ${attempts}):`, message)
+
+      const delayMs = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1))
+      update = {
+        status: attempts >= delivery.max_attempts ? 'failed' : 'pending',
+        attempts,
+        transport: this.transport!.name,
+        last_error: message,
+        next_attempt_at: new Date(Date.now() + delayMs).toISOString()
+      }
+    }
+
+    const { data, error } = await this.getClient()
+      .from('email_deliveries')
+      .update(update)
+      .eq('id', delivery.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating email delivery:', error)
+      return { ...delivery, ...update }
+    }
+
+    return data
+  }
+
+  private getClient() {
+    const supabase = getSupabaseServiceRole()
+    if (!supabase) {
+      throw new Error('Database not configured')
+    }
+    return supabase
+  }
+}
+
+export const emailDeliveryService = new EmailDeliveryService(
+  createEmailTransport(),
+  process.env.EMAIL_FROM || DEFAULT_EMAIL_FROM
+)
@@ -0,0 +1,10 @@
+export * from './types'
+export { renderEmailTemplate } from './templates'
+export {
+  createEmailTransport,
+  DEFAULT_EMAIL_FROM,
+  FileTransport,
+  ResendTransport,
+  SmtpTransport
+} from './transports'
+export { EmailDeliveryService, emailDeliveryService, type EmailDelivery } from './delivery-service'
@@ -0,0 +1,194 @@
+import type { EmailTemplateData, EmailTemplateName, RenderedEmail } from './types'
+
+type TemplateRenderer<T extends EmailTemplateName> = (data: EmailTemplateData[T]) => RenderedEmail
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  })
+
+// Shared shell for every HTML email; `body` is already escaped markup
+const layout = (title: string, body: string) => `
+<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+    ${body}
+    <p style="margin-top: 30px; font-size: 12px; color: #9ca3af;">
+      You can change which emails you receive in your FluentFlow profile settings.
+    </p>
+  </body>
+</html>
+`.trim()
+
+const button = (href: string, label: string, color = '#2563eb') =>
+  `<div style="text-align: center; margin: 30px 0;">
+      <a href="${escapeHtml(href)}" style="display: inline-block; background: ${color}; color: white; text-decoration: none; padding: 15px 30px; border-radius: 8px; font-weight: bold; font-size: 16px;">${escapeHtml(label)}</a>
+    </div>`
+
+const groupHeading = (groupName: string) =>
+  `<h2 style="color: #1e40af; background: #eff6ff; padding: 15px; border-radius: 8px; margin: 20px 0;">${escapeHtml(groupName)}</h2>`
+
+const text = (lines: (string | false | undefined)[]) =>
+  lines.filter((line): line is string => typeof line === 'string').join('\n').replace(/\n{3,}/g, '\n\n').trim()
+
+const TEMPLATES: { [T in EmailTemplateName]: TemplateRenderer<T> } = {
+  group_invitation: data => {
+    const subject = `You're invited to join "${data.groupName}" on FluentFlow`
+    return {
+      subject,
+      html: layout(subject, `
+    <div style="background: #f8f9fa; padding: 30px; border-radius: 10px; margin-bottom: 20px;">
+      <h1 style="color: #2563eb; margin-top: 0;">You're invited to FluentFlow!</h1>
+      <p style="font-size: 18px; margin-bottom: 20px;">${escapeHtml(data.inviterName)} has invited you to join the study group:</p>
+      ${groupHeading(data.groupName)}
+      ${data.message ? `<p style="background: #f1f5f9; padding: 15px; border-radius: 8px; font-style: italic;">"${escapeHtml(data.message)}"</p>` : ''}
+    </div>
+    ${button(data.inviteUrl, 'Join Group')}
+    <div style="background: #f8f9fa; padding: 20px; border-radius: 8px;">
+      <p style="margin: 0; font-size: 14px; color: #6b7280;">
+        Or use group code: <strong>${escapeHtml(data.inviteCode)}</strong><br>
+        This invitation link will expire in 7 days.
+      </p>
+    </div>`),
+      text: text([
+        `You're invited to FluentFlow!`,
+        '',
+        `${data.inviterName} has invited you to join the study group: ${data.groupName}`,
+        '',
+        data.message && `Message: "${data.message}"`,
+        '',
+        `Join the group: ${data.inviteUrl}`,
+        '',
+        `Or use group code: ${data.inviteCode}`,
+        '',
+        'This invitation link will expire in 7 days.'
+      ])
+    }
+  },
+
+  session_scheduled: data => {
+    const subject = `Quiz session scheduled in "${data.groupName}"`
+    const scheduledAt = formatDateTime(data.scheduledAt)
+    return {
+      subject,
+      html: layout(subject, `
+    <div style="background: #f8f9fa; padding: 30px; border-radius: 10px; margin-bottom: 20px;">
+      <h1 style="color: #2563eb; margin-top: 0;">New Quiz Session Scheduled</h1>
+      <p style="font-size: 18px; margin-bottom: 20px;">A quiz session has been scheduled in your study group:</p>
+      ${groupHeading(data.groupName)}
+      <h3 style="color: #374151; margin: 15px 0;">${escapeHtml(data.sessionTitle)}</h3>
+      <p style="background: #fef3c7; padding: 15px; border-radius: 8px; color: #92400e;"><strong>Scheduled for:</strong> ${escapeHtml(scheduledAt)}</p>
+    </div>
+    ${button(data.sessionUrl, 'View Session')}
+    <p style="font-size: 14px; color: #6b7280;">We'll remind you in the app shortly before it starts.</p>`),
+      text: text([
+        'New Quiz Session Scheduled',
+        '',
+        `A quiz session has been scheduled in your study group: ${data.groupName}`,
+        '',
+        `Session: ${data.sessionTitle}`,
+        `Scheduled for: ${scheduledAt}`,
+        '',
+        `View session: ${data.sessionUrl}`
+      ])
+    }
+  },
+
+  session_started: data => {
+    const subject = `New quiz session in "${data.groupName}"`
+    return {
+      subject,
+      html: layout(subject, `
+    <div style="background: #f8f9fa; padding: 30px; border-radius: 10px; margin-bottom: 20px;">
+      <h1 style="color: #2563eb; margin-top: 0;">New Quiz Session Available!</h1>
+      <p style="font-size: 18px; margin-bottom: 20px;">A new quiz session has been created in your study group:</p>
+      ${groupHeading(data.groupName)}
+      <h3 style="color: #374151; margin: 15px 0;">${escapeHtml(data.sessionTitle)}</h3>
+      <p style="background: #dcfce7; padding: 15px; border-radius: 8px; color: #166534;"><strong>Available now!</strong> Join the session when you're ready.</p>
+    </div>
+    ${button(data.sessionUrl, 'Start Quiz', '#16a34a')}
+    <p style="font-size: 14px; color: #6b7280;">This session will be available for 24 hours. Good luck!</p>`),
+      text: text([
+        'New Quiz Session Available!',
+        '',
+        `A new quiz session has been created in your study group: ${data.groupName}`,
+        '',
+        `Session: ${data.sessionTitle}`,
+        '',
+        `Available now! Start quiz: ${data.sessionUrl}`,
+        '',
+        'This session will be available for 24 hours. Good luck!'
+      ])
+    }
+  },
+
+  join_request_approved: data => {
+    const subject = `Your request to join "${data.groupName}" was approved`
+    return {
+      subject,
+      html: layout(subject, `
+    <div style="background: #f8f9fa; padding: 30px; border-radius: 10px; margin-bottom: 20px;">
+      <h1 style="color: #16a34a; margin-top: 0;">Welcome to the group!</h1>
+      <p style="font-size: 18px; margin-bottom: 20px;">Your request to join this study group has been approved:</p>
+      ${groupHeading(data.groupName)}
+    </div>
+    ${button(data.groupUrl, 'Open Group', '#16a34a')}`),
+      text: text([
+        'Welcome to the group!',
+        '',
+        `Your request to join the study group "${data.groupName}" has been approved.`,
+        '',
+        `Open the group: ${data.groupUrl}`
+      ])
+    }
+  },
+
+  join_request_rejected: data => {
+    const subject = `Your request to join "${data.groupName}" was declined`
+    return {
+      subject,
+      html: layout(subject, `
+    <div style="background: #f8f9fa; padding: 30px; border-radius: 10px; margin-bottom: 20px;">
+      <h1 style="color: #374151; margin-top: 0;">Join request declined</h1>
+      <p style="font-size: 18px; margin-bottom: 20px;">The owners of this study group declined your request to join:</p>
+      ${groupHeading(data.groupName)}
+      ${data.reason ? `<p style="background: #f1f5f9; padding: 15px; border-radius: 8px; font-style: italic;">"${escapeHtml(data.reason)}"</p>` : ''}
+    </div>
+    <p style="font-size: 14px; color: #6b7280;">You can still browse other public groups on FluentFlow.</p>`),
+      text: text([
+        'Join request declined',
+        '',
+        `The owners of the study group "${data.groupName}" declined your request to join.`,
+        '',
+        data.reason && `Reason: "${data.reason}"`,
+        '',
+        'You can still browse other public groups on FluentFlow.'
+      ])
+    }
+  }
+}
+
+export function renderEmailTemplate<T extends EmailTemplateName>(
+  template: T,
+  data: EmailTemplateData[T]
+): RenderedEmail {
+  return (TEMPLATES[template] as TemplateRenderer<T>)(data)
+}
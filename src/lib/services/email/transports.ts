@@ -0,0 +1,134 @@
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import type { EmailMessage, EmailSendResult, EmailTransport } from './types'
+
+export const DEFAULT_EMAIL_FROM = 'FluentFlow <noreply@fluentflow.com>'
+
+/**
+ * SMTP transport backed by nodemailer
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp'
+  private transporter: Promise<import('nodemailer').Transporter> | null = null
+
+  constructor(private config: {
+    host: string
+    port: number
+    secure: boolean
+    user?: string
+    pass?: string
+  }) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const transporter = await this.getTransporter()
+    const info = await transporter.sendMail(message)
+    return { messageId: info.messageId }
+  }
+
+  private getTransporter() {
+    if (!this.transporter) {
+      // Loaded lazily so nodemailer stays out of bundles that never send mail
+      this.transporter = import('nodemailer').then(nodemailer =>
+        nodemailer.createTransport({
+          host: this.config.host,
+          port: this.config.port,
+          secure: this.config.secure,
+          auth: this.config.user ? { user: this.config.user, pass: this.config.pass } : undefined
+        })
+      )
+    }
+    return this.transporter
+  }
+}
+
+/**
+ * Writes each message to an outbox directory instead of sending it. Used for
+ * local development and tests; one JSON file and one HTML preview per message.
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file'
+
+  constructor(private outboxDir: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    await mkdir(this.outboxDir, { recursive: true })
+
+    const safeRecipient = message.to.replace(/[^a-z0-9@._-]/gi, '_')
+    const messageId = `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeRecipient}-${Math.random().toString(36).slice(2, 8)}`
+
+    await writeFile(path.join(this.outboxDir, `${messageId}.json`), JSON.stringify(message, null, 2))
+    await writeFile(path.join(this.outboxDir, `${messageId}.html`), message.html)
+
+    return { messageId }
+  }
+}
+
+export class ResendTransport implements EmailTransport {
+  readonly name = 'resend'
+  private client: Promise<import('resend').Resend> | null = null
+
+  constructor(private apiKey: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const client = await this.getClient()
+    const { data, error } = await client.emails.send(message)
+
+    if (error) {
+      throw new Error(`Resend rejected message: ${error.message}`)
+    }
+
+    return { messageId: data?.id }
+  }
+
+  private getClient() {
+    if (!this.client) {
+      this.client = import('resend').then(({ Resend }) => new Resend(this.apiKey))
+    }
+    return this.client
+  }
+}
+
+/**
+ * Pick the transport from the environment:
+ * - EMAIL_TRANSPORT=smtp uses SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE
+ * - EMAIL_TRANSPORT=file writes to EMAIL_OUTBOX_DIR (default: .outbox)
+ * - EMAIL_TRANSPORT=resend (or the older EMAIL_PROVIDER=resend) uses EMAIL_API_KEY
+ * Without configuration, development writes to the outbox and production sends no email.
+ */
+export function createEmailTransport(env: NodeJS.ProcessEnv = process.env): EmailTransport | null {
+  const transport = env.EMAIL_TRANSPORT || env.EMAIL_PROVIDER
+  const outboxDir = env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), '.outbox')
+
+  switch (transport) {
+    case 'smtp':
+      if (!env.SMTP_HOST) {
+        console.warn('EMAIL_TRANSPORT=smtp but SMTP_HOST is not set; email disabled')
+        return null
+      }
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || 587,
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS
+      })
+
+    case 'file':
+      return new FileTransport(outboxDir)
+
+    case 'resend':
+      if (!env.EMAIL_API_KEY) {
+        console.warn('Resend transport selected but EMAIL_API_KEY is not set; email disabled')
+        return null
+      }
+      return new ResendTransport(env.EMAIL_API_KEY)
+
+    case undefined:
+    case '':
+      return env.NODE_ENV === 'production' ? null : new FileTransport(outboxDir)
+
+    default:
+      console.warn(`Unknown email transport "${transport}"; email disabled`)
+      return null
+  }
+}
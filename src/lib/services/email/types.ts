@@ -0,0 +1,95 @@
+export interface EmailMessage {
+  to: string
+  from: string
+  subject: string
+  html: string
+  text: string
+}
+
+export interface EmailSendResult {
+  messageId?: string
+}
+
+export interface EmailTransport {
+  readonly name: string
+  send(message: EmailMessage): Promise<EmailSendResult>
+}
+
+export type EmailTemplateName =
+  | 'group_invitation'
+  | 'session_scheduled'
+  | 'session_started'
+  | 'join_request_approved'
+  | 'join_request_rejected'
+
+export interface EmailTemplateData {
+  group_invitation: {
+    groupName: string
+    inviterName: string
+    inviteCode: string
+    inviteUrl: string
+    message?: string
+  }
+  session_scheduled: {
+    groupName: string
+    sessionTitle: string
+    sessionUrl: string
+    scheduledAt: string
+  }
+  session_started: {
+    groupName: string
+    sessionTitle: string
+    sessionUrl: string
+  }
+  join_request_approved: {
+    groupName: string
+    groupUrl: string
+  }
+  join_request_rejected: {
+    groupName: string
+    reason?: string
+  }
+}
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+export interface NotificationPreferences {
+  // Master switch for every email
+  email: boolean
+  groupInvitations: boolean
+  sessionScheduled: boolean
+  sessionStarted: boolean
+  joinRequestDecisions: boolean
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email: true,
+  groupInvitations: true,
+  sessionScheduled: true,
+  sessionStarted: true,
+  joinRequestDecisions: true
+}
+
+// Preference that controls each template
+export const TEMPLATE_PREFERENCE: Record<EmailTemplateName, keyof NotificationPreferences> = {
+  group_invitation: 'groupInvitations',
+  session_scheduled: 'sessionScheduled',
+  session_started: 'sessionStarted',
+  join_request_approved: 'joinRequestDecisions',
+  join_request_rejected: 'joinRequestDecisions'
+}
+
+export function resolveNotificationPreferences(value: unknown): NotificationPreferences {
+  const stored = value && typeof value === 'object' ? (value as Partial<NotificationPreferences>) : {}
+  const resolved = { ...DEFAULT_NOTIFICATION_PREFERENCES }
+
+  for (const key of Object.keys(resolved) as (keyof NotificationPreferences)[]) {
+    if (typeof stored[key] === 'boolean') resolved[key] = stored[key]
+  }
+
+  return resolved
+}
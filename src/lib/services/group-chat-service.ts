@@ -0,0 +1,251 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseServiceRole } from '../supabase/service-role'
+import type { Database, Json, Tables } from '../supabase/types'
+
+export type ChatMessage = Tables<'chat_messages'>
+
+export type ChatMessageType = 'text' | 'question'
+
+// A quiz question linked into a session thread from the results review
+export interface LinkedQuestion {
+  questionId: string
+  // Position in the session, from 0
+  index: number
+  text: string
+}
+
+export interface ChatSender {
+  id: string
+  name: string
+  avatarUrl?: string | null
+}
+
+export interface SendMessageInput {
+  content: string
+  replyTo?: string
+  sessionId?: string
+  question?: LinkedQuestion
+}
+
+export interface ListMessagesOptions {
+  sessionId?: string
+  // Only top-level messages sent before this time, for loading older history
+  before?: string
+  limit?: number
+}
+
+// Reactions offered in the picker; stored as {emoji: [user ids]}
+export const CHAT_REACTIONS = ['👍', '❤️', '😂', '🎉', '🤔', '👀']
+
+export const CHAT_PAGE_SIZE = 50
+export const MAX_MESSAGE_LENGTH = 2000
+
+function getServiceClient() {
+  const supabase = getSupabaseServiceRole()
+  if (!supabase) {
+    throw new Error('Database not configured')
+  }
+  return supabase
+}
+
+/**
+ * Group Chat Service
+ * One chat per group plus a discussion thread per quiz session, both stored
+ * in chat_messages. Replies hang off a top-level message (one level deep).
+ * Deleted messages keep their row, without content, so their replies stay
+ * in place. Deletion and reactions are written with the service role.
+ */
+export class GroupChatService {
+  /**
+   * A page of top-level messages, oldest first, with all of their replies
+   */
+  async listMessages(
+    supabase: SupabaseClient<Database>,
+    groupId: string,
+    options: ListMessagesOptions = {}
+  ): Promise<{ messages: ChatMessage[]; hasMore: boolean }> {
+    const limit = options.limit || CHAT_PAGE_SIZE
+
+    let query = supabase
+      .from('chat_messages')
+      .select('*')
+      .eq('group_id', groupId)
+      .is('reply_to', null)
+      .order('created_at', { ascending: false })
+      .limit(limit + 1)
+
+    query = options.sessionId ? query.eq('session_id', options.sessionId) : query.is('session_id', null)
+    if (options.before) query = query.lt('created_at', options.before)
+
+    const { data: topLevel, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to fetch messages: ${error.message}`)
+    }
+
+    const hasMore = (topLevel?.length || 0) > limit
+    const page = (topLevel || []).slice(0, limit).reverse()
+    if (page.length === 0) return { messages: [], hasMore: false }
+
+    const { data: replies, error: repliesError } = await supabase
+      .from('chat_messages')
+      .select('*')
+      .in('reply_to', page.map(message => message.id))
+      .order('created_at', { ascending: true })
+
+    if (repliesError) {
+      throw new Error(`Failed to fetch replies: ${repliesError.message}`)
+    }
+
+    return { messages: [...page, ...(replies || [])].map(this.redact), hasMore }
+  }
+
+  async getMessage(supabase: SupabaseClient<Database>, groupId: string, messageId: string): Promise<ChatMessage | null> {
+    const { data, error } = await supabase
+      .from('chat_messages')
+      .select('*')
+      .eq('id', messageId)
+      .eq('group_id', groupId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch message: ${error.message}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Post a message as the signed-in member. A reply to a reply is attached
+   * to the top-level message. Returns null when the replied-to message isn't
+   * in the same chat or thread.
+   */
+  async sendMessage(
+    supabase: SupabaseClient<Database>,
+    groupId: string,
+    sender: ChatSender,
+    input: SendMessageInput
+  ): Promise<ChatMessage | null> {
+    let replyTo: string | null = null
+    if (input.replyTo) {
+      const parent = await this.getMessage(supabase, groupId, input.replyTo)
+      if (!parent || (parent.session_id || null) !== (input.sessionId || null)) return null
+      replyTo = parent.reply_to || parent.id
+    }
+
+    const now = new Date().toISOString()
+    const { data, error } = await supabase
+      .from('chat_messages')
+      .insert({
+        group_id: groupId,
+        session_id: input.sessionId || null,
+        sender_id: sender.id,
+        sender_name: sender.name,
+        sender_avatar: sender.avatarUrl || null,
+        content: input.content.trim(),
+        type: input.question ? 'question' : 'text',
+        metadata: input.question ? ({ question: { ...input.question } } as Json) : null,
+        reply_to: replyTo,
+        reactions: {},
+        timestamp: now,
+        created_at: now
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to send message: ${error.message}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Remove a message's content, keeping the row for its replies
+   */
+  async deleteMessage(groupId: string, messageId: string, deletedBy: string): Promise<boolean> {
+    const { data, error } = await getServiceClient()
+      .from('chat_messages')
+      .update({
+        content: '',
+        metadata: null,
+        reactions: {},
+        deleted_at: new Date().toISOString(),
+        deleted_by: deletedBy
+      })
+      .eq('id', messageId)
+      .eq('group_id', groupId)
+      .is('deleted_at', null)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to delete message: ${error.message}`)
+    }
+
+    return (data?.length || 0) > 0
+  }
+
+  /**
+   * Add the user's reaction, or take it back if they already reacted with it
+   */
+  async toggleReaction(messageId: string, userId: string, emoji: string): Promise<Json | null> {
+    const { data, error } = await getServiceClient().rpc('toggle_chat_message_reaction', {
+      message_uuid: messageId,
+      emoji,
+      user_uuid: userId
+    })
+
+    if (error) {
+      throw new Error(`Failed to update reaction: ${error.message}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Session threads open once results are revealed: the session has ended or
+   * the member has submitted. Group managers can always read them. The
+   * chat_messages policies enforce the same rule (can_access_session_thread);
+   * this lets routes answer with 403 instead of an empty thread. Returns null
+   * when the session isn't in the group.
+   */
+  async canAccessSessionThread(
+    supabase: SupabaseClient<Database>,
+    groupId: string,
+    sessionId: string,
+    userId: string,
+    canManage: boolean
+  ): Promise<boolean | null> {
+    const { data: session, error } = await supabase
+      .from('group_quiz_sessions')
+      .select('id, status')
+      .eq('id', sessionId)
+      .eq('group_id', groupId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch session: ${error.message}`)
+    }
+
+    if (!session) return null
+    if (canManage || session.status === 'completed') return true
+
+    const { count, error: resultError } = await supabase
+      .from('group_quiz_results')
+      .select('id', { count: 'exact', head: true })
+      .eq('session_id', sessionId)
+      .eq('user_id', userId)
+
+    if (resultError) {
+      throw new Error(`Failed to fetch session results: ${resultError.message}`)
+    }
+
+    return (count || 0) > 0
+  }
+
+  private redact(message: ChatMessage): ChatMessage {
+    return message.deleted_at ? { ...message, content: '', metadata: null, reactions: {} } : message
+  }
+}
+
+export const groupChatService = new GroupChatService()
@@ -0,0 +1,246 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseServiceRole } from '../supabase/service-role'
+import type { Database } from '../supabase/types'
+import { getQuestionKind, normalizeAnswerText, optionLetter } from '../utils/question-grading'
+
+export interface OptionStatistics {
+  letter: string
+  text: string
+  count: number
+  // Share of respondents who picked this option (0-1)
+  share: number
+  isKey: boolean
+}
+
+export interface ItemStatistics {
+  questionId: string
+  question: string
+  kind: string
+  difficulty?: string
+  responses: number
+  correct: number
+  // Classical difficulty: proportion of respondents answering correctly (0-1)
+  pValue: number | null
+  // Upper minus lower 27% p-value; null until there are enough respondents
+  discrimination: number | null
+  averageResponseTimeMs: number | null
+  // Only for option-based kinds
+  options: OptionStatistics[]
+  sessionCount: number
+  // A distractor out-drew the keyed answer, which usually means a wrong key
+  suspectedMiskey: boolean
+}
+
+export interface ItemAttempt {
+  sessionId: string
+  userId: string
+  // Respondent's overall score (0-100), used to split upper and lower groups
+  totalScore: number
+  questionId: string
+  // Set the question came from; ids repeat across sets generated from the same loop
+  shareToken?: string
+  isCorrect: boolean
+  userAnswer?: string
+  selectedOption?: string
+  responseTimeMs?: number
+}
+
+// Fraction of respondents in each of the upper and lower groups
+const DISCRIMINATION_GROUP_FRACTION = 0.27
+const MIN_RESPONSES_FOR_DISCRIMINATION = 4
+const MIN_RESPONSES_FOR_MISKEY = 3
+
+function selectedOptionIndex(options: string[], attempt: ItemAttempt): number {
+  // Results store "B. option text" or the option text itself; letters may be shuffled per user
+  const candidates = [attempt.selectedOption, attempt.userAnswer, attempt.userAnswer?.replace(/^[A-Z]\.\s+/, '')]
+    .filter((candidate): candidate is string => !!candidate)
+    .map(candidate => normalizeAnswerText(candidate))
+
+  return options.findIndex(option => candidates.includes(normalizeAnswerText(option)))
+}
+
+// Questions and attempts are matched on set and question id together
+const itemKey = (item: { shareToken?: string }, questionId: string) => `${item.shareToken ?? ''}:${questionId}`
+
+function proportionCorrect(attempts: ItemAttempt[]): number {
+  return attempts.filter(attempt => attempt.isCorrect).length / attempts.length
+}
+
+/**
+ * Compute item statistics for each question from individual attempts. A
+ * question's shareToken, when present, must match the attempt's.
+ */
+export function computeItemStatistics(questions: any[], attempts: ItemAttempt[]): ItemStatistics[] {
+  const attemptsByQuestion = new Map<string, ItemAttempt[]>()
+  for (const attempt of attempts) {
+    const key = itemKey(attempt, attempt.questionId)
+    const list = attemptsByQuestion.get(key) || []
+    list.push(attempt)
+    attemptsByQuestion.set(key, list)
+  }
+
+  return questions.map(question => {
+    const questionAttempts = attemptsByQuestion.get(itemKey(question, question.id)) || []
+    const responses = questionAttempts.length
+    const correct = questionAttempts.filter(attempt => attempt.isCorrect).length
+
+    let discrimination: number | null = null
+    if (responses >= MIN_RESPONSES_FOR_DISCRIMINATION) {
+      const ranked = [...questionAttempts].sort((a, b) => b.totalScore - a.totalScore)
+      const groupSize = Math.max(1, Math.round(responses * DISCRIMINATION_GROUP_FRACTION))
+      discrimination =
+        proportionCorrect(ranked.slice(0, groupSize)) - proportionCorrect(ranked.slice(-groupSize))
+    }
+
+    const timings = questionAttempts
+      .map(attempt => attempt.responseTimeMs)
+      .filter((time): time is number => typeof time === 'number' && time > 0)
+
+    const kind = getQuestionKind(question)
+    const isOptionBased = kind === 'multiple_choice' || kind === 'true_false_not_given'
+    const keyIndex = (question.correctAnswer || '').trim().toUpperCase().charCodeAt(0) - 65
+
+    const options: OptionStatistics[] = []
+    if (isOptionBased) {
+      const counts = new Array<number>(question.options?.length || 0).fill(0)
+      for (const attempt of questionAttempts) {
+        const index = selectedOptionIndex(question.options || [], attempt)
+        if (index >= 0) counts[index]++
+      }
+
+      counts.forEach((count, index) => {
+        options.push({
+          letter: optionLetter(index),
+          text: question.options[index],
+          count,
+          share: responses > 0 ? count / responses : 0,
+          isKey: index === keyIndex
+        })
+      })
+    }
+
+    const keyCount = options.find(option => option.isKey)?.count ?? 0
+    const suspectedMiskey =
+      responses >= MIN_RESPONSES_FOR_MISKEY &&
+      options.some(option => !option.isKey && option.count > keyCount)
+
+    return {
+      questionId: question.id,
+      question: question.question,
+      kind,
+      difficulty: question.difficulty,
+      responses,
+      correct,
+      pValue: responses > 0 ? correct / responses : null,
+      discrimination,
+      averageResponseTimeMs: timings.length
+        ? Math.round(timings.reduce((sum, time) => sum + time, 0) / timings.length)
+        : null,
+      options,
+      sessionCount: new Set(questionAttempts.map(attempt => attempt.sessionId)).size,
+      suspectedMiskey
+    }
+  })
+}
+
+// Per-question answers as graded by the submit route
+export function getResultItems(result: { answers_data: unknown }): any[] {
+  const answersData = result.answers_data as { detailedResults?: any[] } | null
+  return answersData?.detailedResults || []
+}
+
+/**
+ * Item Analysis Service
+ * Aggregates per-question results of a session's questions across every
+ * session in the group that used the same question set.
+ */
+export class ItemAnalysisService {
+  async analyzeSession(
+    supabase: SupabaseClient<Database>,
+    groupId: string,
+    sessionId: string
+  ): Promise<ItemStatistics[]> {
+    try {
+      const questions = await this.loadGroupQuestions(groupId)
+
+      const { data: sessions, error: sessionsError } = await supabase
+        .from('group_quiz_sessions')
+        .select('id')
+        .eq('group_id', groupId)
+
+      if (sessionsError) throw sessionsError
+
+      const { data: results, error: resultsError } = await supabase
+        .from('group_quiz_results')
+        .select('session_id, user_id, score, answers_data')
+        .in('session_id', (sessions || []).map(session => session.id))
+
+      if (resultsError) throw resultsError
+
+      const attempts: ItemAttempt[] = []
+      const sessionQuestionKeys = new Set<string>()
+
+      for (const result of results || []) {
+        // Older results don't record each answer's set; it is one of the row's submitted sets
+        const submittedTokens = (result.answers_data as { shareTokens?: string[] } | null)?.shareTokens || []
+
+        for (const item of getResultItems(result)) {
+          if (!item?.questionId) continue
+          const shareToken: string | undefined =
+            item.shareToken ||
+            submittedTokens.find(token => questions.has(itemKey({ shareToken: token }, item.questionId)))
+          const key = itemKey({ shareToken }, item.questionId)
+          if (!shareToken || !questions.has(key)) continue
+          if (result.session_id === sessionId) sessionQuestionKeys.add(key)
+
+          attempts.push({
+            sessionId: result.session_id,
+            userId: result.user_id,
+            totalScore: result.score,
+            questionId: item.questionId,
+            shareToken,
+            isCorrect: !!item.isCorrect,
+            userAnswer: item.userAnswer,
+            selectedOption: item.selectedOption,
+            responseTimeMs: item.responseTimeMs
+          })
+        }
+      }
+
+      const sessionQuestions = [...sessionQuestionKeys].map(key => questions.get(key))
+
+      return computeItemStatistics(sessionQuestions, attempts)
+    } catch (error) {
+      console.error('Error computing item analysis:', error)
+      return []
+    }
+  }
+
+  // Keyed by itemKey; each question carries the share token of its set
+  private async loadGroupQuestions(groupId: string): Promise<Map<string, any>> {
+    const questions = new Map<string, any>()
+    const supabase = getSupabaseServiceRole()
+    if (!supabase) return questions
+
+    const { data: questionSets, error } = await supabase
+      .from('shared_question_sets')
+      .select('share_token, questions')
+      .eq('group_id', groupId)
+
+    if (error) throw error
+
+    for (const set of questionSets || []) {
+      for (const question of (set.questions as any[]) || []) {
+        if (!question?.id) continue
+        questions.set(itemKey({ shareToken: set.share_token }, question.id), {
+          ...question,
+          shareToken: set.share_token
+        })
+      }
+    }
+
+    return questions
+  }
+}
+
+export const itemAnalysisService = new ItemAnalysisService()
@@ -0,0 +1,229 @@
+import { hostname } from 'os'
+import { getSupabaseServiceRole } from '../supabase/service-role'
+import type { Json, Tables } from '../supabase/types'
+
+export type BackgroundJob = Tables<'background_jobs'>
+export type BackgroundJobRun = Tables<'background_job_runs'>
+
+// Handlers return a small summary that is stored with the run
+export type JobHandler = () => Promise<Json | void>
+
+export interface JobRunOptions {
+  force?: boolean
+  triggeredBy?: string
+}
+
+export interface JobRunResult {
+  run: BackgroundJobRun
+  succeeded: boolean
+}
+
+// A run that outlives its lease is assumed dead and the job can be claimed again
+const DEFAULT_LEASE_SECONDS = 10 * 60
+const DEFAULT_POLL_INTERVAL_MS = 60 * 1000
+const RETRY_BASE_DELAY_MS = 60 * 1000
+
+/**
+ * Job Runner Service
+ * Runs registered handlers on the schedule stored in `background_jobs`. Every
+ * instance polls, but a job only runs on the instance that wins its lease, so
+ * each scheduled run happens once across the deployment.
+ */
+export class JobRunnerService {
+  readonly instanceId = `${hostname()}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`
+  private handlers = new Map<string, JobHandler>()
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  register(name: string, handler: JobHandler): this {
+    this.handlers.set(name, handler)
+    return this
+  }
+
+  getRegisteredJobNames(): string[] {
+    return [...this.handlers.keys()]
+  }
+
+  /**
+   * Poll for due jobs until stop() is called
+   */
+  start(pollIntervalMs: number = DEFAULT_POLL_INTERVAL_MS) {
+    if (this.timer) return
+
+    console.log(`Starting job runner ${this.instanceId}: polling every ${pollIntervalMs / 1000}s`)
+
+    this.runDueJobs()
+    this.timer = setInterval(() => {
+      this.runDueJobs()
+    }, pollIntervalMs)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async runDueJobs(): Promise<void> {
+    for (const name of this.handlers.keys()) {
+      try {
+        await this.runJob(name)
+      } catch (error) {
+        console.error(`Error running job ${name}:`, error)
+      }
+    }
+  }
+
+  /**
+   * Claim and run one job. Returns null when the job is not due or another
+   * instance holds its lease; `force` skips the schedule but not the lease.
+   */
+  async runJob(name: string, options: JobRunOptions = {}): Promise<JobRunResult | null> {
+    const handler = this.handlers.get(name)
+    if (!handler) {
+      throw new Error(`Unknown job: ${name}`)
+    }
+
+    const supabase = this.getClient()
+
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_background_job', {
+      p_name: name,
+      p_instance_id: this.instanceId,
+      p_lease_seconds: DEFAULT_LEASE_SECONDS,
+      p_force: !!options.force
+    })
+
+    if (claimError) {
+      throw new Error(`Failed to claim job ${name}: ${claimError.message}`)
+    }
+
+    const job = claimed?.[0]
+    if (!job) return null
+
+    const { data: run, error: runError } = await supabase
+      .from('background_job_runs')
+      .insert({
+        job_name: name,
+        trigger: options.force ? 'manual' : 'schedule',
+        attempt: job.attempts + 1,
+        instance_id: this.instanceId,
+        triggered_by: options.triggeredBy ?? null
+      })
+      .select()
+      .single()
+
+    if (runError) {
+      await this.releaseJob(job, { error: runError.message })
+      throw new Error(`Failed to record run for job ${name}: ${runError.message}`)
+    }
+
+    try {
+      const result = (await handler()) ?? null
+      const finished = await this.finishRun(run.id, { status: 'succeeded', result })
+      await this.releaseJob(job, {})
+      return { run: finished ?? run, succeeded: true }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`Job ${name} failed:`, error)
+      const finished = await this.finishRun(run.id, { status: 'failed', error: message })
+      await this.releaseJob(job, { error: message })
+      return { run: finished ?? run, succeeded: false }
+    }
+  }
+
+  async listJobs(): Promise<BackgroundJob[]> {
+    const { data, error } = await this.getClient()
+      .from('background_jobs')
+      .select('*')
+      .order('name')
+
+    if (error) {
+      throw new Error(`Failed to list jobs: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  async listRuns(filters: { jobName?: string; limit?: number } = {}): Promise<BackgroundJobRun[]> {
+    let query = this.getClient()
+      .from('background_job_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(Math.min(filters.limit || 50, 200))
+
+    if (filters.jobName) {
+      query = query.eq('job_name', filters.jobName)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to list job runs: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  private async finishRun(
+    runId: string,
+    outcome: { status: 'succeeded' | 'failed'; result?: Json; error?: string }
+  ): Promise<BackgroundJobRun | null> {
+    const { data, error } = await this.getClient()
+      .from('background_job_runs')
+      .update({
+        status: outcome.status,
+        result: outcome.result ?? null,
+        error: outcome.error ?? null,
+        finished_at: new Date().toISOString()
+      })
+      .eq('id', runId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error finishing job run:', error)
+      return null
+    }
+
+    return data
+  }
+
+  // Drop the lease and schedule the next run; failures retry with backoff up to max_attempts
+  private async releaseJob(job: BackgroundJob, outcome: { error?: string }) {
+    const now = Date.now()
+    const intervalMs = job.interval_seconds * 1000
+    const attempts = outcome.error ? job.attempts + 1 : 0
+    const delayMs =
+      outcome.error && attempts < job.max_attempts
+        ? Math.min(intervalMs, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1))
+        : intervalMs
+
+    const { error } = await this.getClient()
+      .from('background_jobs')
+      .update({
+        locked_by: null,
+        locked_until: null,
+        attempts,
+        next_run_at: new Date(now + delayMs).toISOString(),
+        ...(outcome.error
+          ? { last_error: outcome.error }
+          : { last_error: null, last_success_at: new Date(now).toISOString() })
+      })
+      .eq('name', job.name)
+      .eq('locked_by', this.instanceId)
+
+    if (error) {
+      console.error(`Error releasing job ${job.name}:`, error)
+    }
+  }
+
+  private getClient() {
+    const supabase = getSupabaseServiceRole()
+    if (!supabase) {
+      throw new Error('Database not configured')
+    }
+    return supabase
+  }
+}
+
+export const jobRunnerService = new JobRunnerService()
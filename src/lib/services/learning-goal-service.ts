@@ -0,0 +1,285 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseServiceRole } from '../supabase/service-role'
+import type { Database, Tables } from '../supabase/types'
+
+export type GoalType = 'daily_reviews' | 'weekly_quizzes' | 'words_learned'
+
+export const GOAL_TYPES: Record<GoalType, { label: string; unit: string; period: 'day' | 'week' | null }> = {
+  daily_reviews: { label: 'Review cards every day', unit: 'reviews', period: 'day' },
+  weekly_quizzes: { label: 'Take quizzes every week', unit: 'quizzes', period: 'week' },
+  words_learned: { label: 'Learn words by a date', unit: 'words', period: null }
+}
+
+export type LearningGoal = Tables<'learning_goals'>
+
+export interface CreateGoalInput {
+  type: GoalType
+  target: number
+  title?: string
+  // Required for 'words_learned'
+  deadline?: string
+}
+
+export interface DailyActivity {
+  day: string
+  reviews: number
+  quizzes: number
+}
+
+export interface LearningOverview {
+  goals: LearningGoal[]
+  currentStreak: number
+  longestStreak: number
+  activity: DailyActivity[]
+}
+
+// Days of activity shown on the dashboard heatmap
+export const ACTIVITY_HEATMAP_DAYS = 84
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * Start of the period a recurring goal counts in: today, or this week
+ * (Monday). Days are UTC calendar days, like streaks.
+ */
+export function periodStart(period: 'day' | 'week', now: Date = new Date()): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+  if (period === 'week') {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday)
+  }
+  return start
+}
+
+function getServiceClient() {
+  const supabase = getSupabaseServiceRole()
+  if (!supabase) {
+    throw new Error('Database not configured')
+  }
+  return supabase
+}
+
+/**
+ * Learning Goal Service
+ * Goal progress is recounted from reviews, quiz results and the vocabulary
+ * deck. Daily and weekly goals start over each period; words learned goals
+ * complete once. Streaks in user_learning_stats are refreshed on activity.
+ */
+export class LearningGoalService {
+  async listGoals(supabase: SupabaseClient<Database>, userId: string): Promise<LearningGoal[]> {
+    const { data, error } = await supabase
+      .from('learning_goals')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch goals: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  async createGoal(supabase: SupabaseClient<Database>, userId: string, input: CreateGoalInput): Promise<LearningGoal> {
+    const goalType = GOAL_TYPES[input.type]
+    // Words only count once learned after the goal is set
+    const current = input.type === 'words_learned' ? 0 : await this.countProgress(supabase, userId, input.type)
+
+    const { data, error } = await supabase
+      .from('learning_goals')
+      .insert({
+        user_id: userId,
+        type: input.type,
+        title: input.title || `${goalType.label}: ${input.target} ${goalType.unit}`,
+        target: input.target,
+        unit: goalType.unit,
+        deadline: input.deadline || null,
+        current
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create goal: ${error.message}`)
+    }
+
+    return data
+  }
+
+  async deleteGoal(supabase: SupabaseClient<Database>, userId: string, goalId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('learning_goals')
+      .delete()
+      .eq('id', goalId)
+      .eq('user_id', userId)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to delete goal: ${error.message}`)
+    }
+
+    return (data?.length || 0) > 0
+  }
+
+  /**
+   * Goals with up-to-date progress, the streak and recent daily activity
+   */
+  async getOverview(supabase: SupabaseClient<Database>, userId: string): Promise<LearningOverview> {
+    const since = dayKey(new Date(Date.now() - (ACTIVITY_HEATMAP_DAYS - 1) * DAY_MS))
+
+    const [goals, { data: stats, error: statsError }, { data: activity, error: activityError }] = await Promise.all([
+      this.listGoals(supabase, userId),
+      supabase
+        .from('user_learning_stats')
+        .select('current_streak_days, longest_streak_days, last_practice_date')
+        .eq('user_id', userId)
+        .maybeSingle(),
+      supabase.rpc('get_user_daily_activity', { user_uuid: userId, since })
+    ])
+
+    if (statsError || activityError) {
+      throw new Error(`Failed to fetch learning overview: ${(statsError || activityError)?.message}`)
+    }
+
+    const refreshed = await Promise.all(
+      goals.map(async goal => {
+        if (goal.is_completed) return goal
+        return {
+          ...goal,
+          current: await this.countProgress(supabase, userId, goal.type as GoalType, goal.created_at)
+        }
+      })
+    )
+
+    // A streak stored before yesterday has lapsed even if nothing updated it since
+    const yesterday = dayKey(new Date(Date.now() - DAY_MS))
+    const streakIsCurrent = !!stats?.last_practice_date && stats.last_practice_date >= yesterday
+
+    return {
+      goals: refreshed,
+      currentStreak: streakIsCurrent ? stats?.current_streak_days || 0 : 0,
+      longestStreak: stats?.longest_streak_days || 0,
+      activity: activity || []
+    }
+  }
+
+  /**
+   * Update the streak and stored goal progress after practice.
+   * Never throws.
+   */
+  async recordActivity(userId: string): Promise<void> {
+    try {
+      const supabase = getServiceClient()
+      await this.refreshStreak(supabase, userId)
+
+      const { data: goals, error } = await supabase
+        .from('learning_goals')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_completed', false)
+
+      if (error) throw error
+
+      for (const goal of goals || []) {
+        const current = await this.countProgress(supabase, userId, goal.type as GoalType, goal.created_at)
+        // Only one-off goals complete; recurring ones start over next period
+        const completes =
+          goal.type === 'words_learned' &&
+          current >= goal.target &&
+          (!goal.deadline || new Date(goal.deadline) >= new Date())
+
+        const { error: updateError } = await supabase
+          .from('learning_goals')
+          .update({
+            current,
+            updated_at: new Date().toISOString(),
+            ...(completes ? { is_completed: true, completed_at: new Date().toISOString() } : {})
+          })
+          .eq('id', goal.id)
+
+        if (updateError) throw updateError
+      }
+    } catch (error) {
+      console.error('Error recording learning activity:', error)
+    }
+  }
+
+  private async refreshStreak(supabase: SupabaseClient<Database>, userId: string) {
+    const [{ data: streak, error: streakError }, { data: stats, error: statsError }] = await Promise.all([
+      supabase.rpc('calculate_user_streak', { user_uuid: userId }),
+      supabase.from('user_learning_stats').select('longest_streak_days').eq('user_id', userId).maybeSingle()
+    ])
+
+    if (streakError || statsError) throw streakError || statsError
+
+    const current = streak || 0
+    const { error } = await supabase.from('user_learning_stats').upsert(
+      {
+        user_id: userId,
+        current_streak_days: current,
+        longest_streak_days: Math.max(current, stats?.longest_streak_days || 0),
+        last_practice_date: dayKey(new Date()),
+        updated_at: new Date().toISOString()
+      },
+      { onConflict: 'user_id' }
+    )
+
+    if (error) throw error
+  }
+
+  // goalCreatedAt bounds one-off goals; recurring goals count from the start of their period
+  private async countProgress(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    type: GoalType,
+    goalCreatedAt?: string | null
+  ): Promise<number> {
+    if (type === 'words_learned') {
+      // Cards that graduated out of learning since the goal was set
+      const { data, error } = await supabase
+        .from('user_vocabulary_reviews')
+        .select('vocabulary_id')
+        .eq('user_id', userId)
+        .eq('new_learning_status', 'review')
+        .or('previous_learning_status.is.null,previous_learning_status.neq.review')
+        .gte('reviewed_at', goalCreatedAt || new Date().toISOString())
+
+      if (error) throw error
+      // A card that lapsed and graduated again is still one word
+      return new Set((data || []).map(review => review.vocabulary_id)).size
+    }
+
+    const since = periodStart(GOAL_TYPES[type].period!).toISOString()
+
+    if (type === 'daily_reviews') {
+      const { count, error } = await supabase
+        .from('user_vocabulary_reviews')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .gte('reviewed_at', since)
+
+      if (error) throw error
+      return count || 0
+    }
+
+    const [groupResults, submissions] = await Promise.all([
+      supabase
+        .from('group_quiz_results')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .gte('completed_at', since),
+      supabase
+        .from('question_set_submissions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .gte('submitted_at', since)
+    ])
+
+    if (groupResults.error || submissions.error) throw groupResults.error || submissions.error
+    return (groupResults.count || 0) + (submissions.count || 0)
+  }
+}
+
+export const learningGoalService = new LearningGoalService()
@@ -2,10 +2,13 @@ import { NextRequest } from 'next/server'
 import { getCurrentUserServer, getSupabaseServer } from '@/lib/supabase/server'
 import { getSupabaseServiceRole } from '@/lib/supabase/service-role'
 import type { TablesInsert } from '@/lib/supabase/types'
+import type { TranscriptSourceType } from '@/lib/utils/media-source'
 
 export interface CreateLoopRequest {
+  // YouTube URL or any other audio/video URL
   videoUrl: string
   videoTitle: string
+  // YouTube video id, or the id from mediaIdFromUrl for other media
   videoId: string
   startTime: number
   endTime: number
@@ -13,6 +16,8 @@ export interface CreateLoopRequest {
   segments: TranscriptSegment[]
   language?: string
   groupId?: string
+  // Defaults to 'youtube'
+  sourceType?: TranscriptSourceType
   metadata?: any
 }
 
@@ -33,6 +38,7 @@ export interface Loop {
   segments: TranscriptSegment[]
   language?: string
   groupId?: string
+  sourceType: TranscriptSourceType
   createdBy: string
   createdAt: string
   updatedAt: string
@@ -59,6 +65,7 @@ export interface CreateUserLoopRequest {
   transcript: string
   segments: TranscriptSegment[]
   language?: string
+  sourceType?: TranscriptSourceType
   metadata?: any
 }
 
@@ -81,31 +88,8 @@ export class LoopManagementService {
     }
 
     try {
-      // 1. Create transcript record
-      const transcriptInsert: TablesInsert<'transcripts'> = {
-        video_id: data.videoId,
-        full_text: data.transcript,
-        segments: data.segments as any, // Cast to any for JSONB field
-        start_time: data.startTime,
-        end_time: data.endTime,
-        language: data.language || 'en',
-        metadata: {
-          videoUrl: data.videoUrl,
-          videoTitle: data.videoTitle,
-          createdBy: user.id,
-          ...data.metadata
-        }
-      }
-
-      const { data: transcriptRecord, error: transcriptError } = await supabase!
-        .from('transcripts')
-        .insert(transcriptInsert)
-        .select()
-        .single()
-
-      if (transcriptError) {
-        throw new Error(`Failed to create transcript: ${transcriptError.message}`)
-      }
+      // 1. Reuse the transcript record for this video window, or create one
+      const transcriptRecord = await this.findOrCreateTranscript(supabase!, data, user.id)
 
       // 2. Create practice session (represents the loop)
       const sessionInsert: TablesInsert<'practice_sessions'> = {
@@ -123,6 +107,7 @@ export class LoopManagementService {
           endTime: data.endTime,
           language: data.language,
           segmentCount: data.segments.length,
+          sourceType: data.sourceType || 'youtube',
           savedLoop: {
             id: `loop_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
             title: data.videoTitle,
@@ -187,6 +172,7 @@ export class LoopManagementService {
         transcript: data.transcript,
         segments: data.segments,
         language: data.language,
+        sourceType: data.sourceType || 'youtube',
         groupId: data.groupId,
         createdBy: user.id,
         createdAt: sessionRecord.created_at,
@@ -203,6 +189,90 @@ export class LoopManagementService {
     }
   }
 
+  /**
+   * A user's loops over the same video window share one transcripts row.
+   * The text comes from the client, so rows are never shared between users,
+   * and a row is only reused while its text and segments are unchanged.
+   */
+  private async findOrCreateTranscript(
+    supabase: any,
+    data: CreateLoopRequest | CreateUserLoopRequest,
+    userId: string
+  ): Promise<{ id: string }> {
+    const language = data.language || 'en'
+
+    const { data: candidates, error: lookupError } = await supabase
+      .from('transcripts')
+      .select('id, segments')
+      .eq('video_id', data.videoId)
+      .eq('start_time', data.startTime)
+      .eq('end_time', data.endTime)
+      .eq('language', language)
+      .eq('full_text', data.transcript)
+      .eq('metadata->>createdBy', userId)
+
+    if (lookupError) {
+      console.error('Error looking up existing transcript:', lookupError)
+    } else {
+      const segments = JSON.stringify(data.segments ?? [])
+      const existing = (candidates || []).find(
+        (candidate: { segments: unknown }) => JSON.stringify(candidate.segments ?? []) === segments
+      )
+      if (existing) return { id: existing.id }
+    }
+
+    const transcriptInsert: TablesInsert<'transcripts'> = {
+      video_id: data.videoId,
+      full_text: data.transcript,
+      segments: data.segments as any, // Cast to any for JSONB field
+      start_time: data.startTime,
+      end_time: data.endTime,
+      language,
+      metadata: {
+        videoUrl: data.videoUrl,
+        videoTitle: data.videoTitle,
+        ...data.metadata,
+        // After the client metadata: reuse is keyed on it
+        createdBy: userId
+      }
+    }
+
+    const { data: transcriptRecord, error: transcriptError } = await supabase
+      .from('transcripts')
+      .insert(transcriptInsert)
+      .select('id')
+      .single()
+
+    if (transcriptError) {
+      throw new Error(`Failed to create transcript: ${transcriptError.message}`)
+    }
+
+    return transcriptRecord
+  }
+
+  /**
+   * Delete a transcript once no loop segment references it. Counted with the
+   * service role so segments the caller cannot see still keep the row.
+   */
+  private async deleteTranscriptIfUnused(transcriptId: string): Promise<void> {
+    const supabase = getSupabaseServiceRole()
+    if (!supabase) return
+
+    const { count, error } = await supabase
+      .from('loop_segments')
+      .select('id', { count: 'exact', head: true })
+      .eq('transcript_id', transcriptId)
+
+    if (error) {
+      console.error('Error counting transcript references:', error)
+      return
+    }
+
+    if (count === 0) {
+      await supabase.from('transcripts').delete().eq('id', transcriptId)
+    }
+  }
+
   /**
    * Get loops for a user or group
    */
@@ -331,6 +401,7 @@ export class LoopManagementService {
           transcript: transcript?.full_text || '',
           segments: transcript?.segments || [],
           language: transcript?.language,
+          sourceType: session.metadata?.sourceType || 'youtube',
           groupId: session.metadata?.groupId,
           createdBy: session.user_id,
           createdAt: session.created_at,
@@ -421,6 +492,7 @@ export class LoopManagementService {
         transcript: transcript?.full_text || '',
         segments: transcript?.segments || [],
         language: transcript?.language,
+        sourceType: session.metadata?.sourceType || 'youtube',
         groupId: session.metadata?.groupId,
         createdBy: session.user_id,
         createdAt: session.created_at,
@@ -479,14 +551,7 @@ export class LoopManagementService {
 
       // 3. Delete transcript if no other references
       if (loop.metadata?.transcriptId) {
-        const { data: segments } = await supabase!
-          .from('loop_segments')
-          .select('id')
-          .eq('transcript_id', loop.metadata.transcriptId)
-
-        if (!segments || segments.length === 0) {
-          await supabase!.from('transcripts').delete().eq('id', loop.metadata.transcriptId)
-        }
+        await this.deleteTranscriptIfUnused(loop.metadata.transcriptId)
       }
     } catch (error) {
       console.error('Failed to delete loop:', error)
@@ -591,31 +656,12 @@ export class LoopManagementService {
     }
     
     try {
-      // 1. Create transcript record using service role to bypass RLS
-      const transcriptInsert: TablesInsert<'transcripts'> = {
-        video_id: data.videoId,
-        full_text: data.transcript,
-        segments: data.segments as any, // Cast to any for JSONB field
-        start_time: data.startTime,
-        end_time: data.endTime,
-        language: data.language || 'en',
-        metadata: {
-          videoUrl: data.videoUrl,
-          videoTitle: data.videoTitle,
-          createdBy: data.userId,
-          ...data.metadata
-        }
-      }
-
-      const { data: transcriptRecord, error: transcriptError } = await serviceSupabase
-        .from('transcripts')
-        .insert(transcriptInsert)
-        .select()
-        .single()
-
-      if (transcriptError) {
-        throw new Error(`Failed to create transcript: ${transcriptError.message}`)
-      }
+      // 1. Reuse or create the transcript record using service role to bypass RLS
+      const transcriptRecord = await this.findOrCreateTranscript(
+        serviceSupabase,
+        data,
+        data.userId
+      )
 
       // 2. Create practice session (represents the loop) using service role
       const sessionInsert: TablesInsert<'practice_sessions'> = {
@@ -632,6 +678,7 @@ export class LoopManagementService {
           endTime: data.endTime,
           language: data.language,
           segmentCount: data.segments.length,
+          sourceType: data.sourceType || 'youtube',
           userLoop: true, // Mark as user loop (not tied to group)
           savedLoop: {
             id: `loop_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -696,6 +743,7 @@ export class LoopManagementService {
         transcript: data.transcript,
         segments: data.segments,
         language: data.language,
+        sourceType: data.sourceType || 'youtube',
         groupId: undefined, // User loops are not tied to groups
         createdBy: data.userId,
         createdAt: sessionRecord.created_at,
@@ -823,6 +871,7 @@ export class LoopManagementService {
           transcript: transcript?.full_text || '',
           segments: transcript?.segments || [],
           language: transcript?.language,
+          sourceType: session.metadata?.sourceType || 'youtube',
           createdBy: session.user_id,
           createdAt: session.created_at,
           updatedAt: session.updated_at,
@@ -884,14 +933,7 @@ export class LoopManagementService {
 
       // 3. Delete transcript if no other references
       if (session.metadata?.transcriptId) {
-        const { data: segments } = await supabase
-          .from('loop_segments')
-          .select('id')
-          .eq('transcript_id', session.metadata.transcriptId)
-
-        if (!segments || segments.length === 0) {
-          await supabase.from('transcripts').delete().eq('id', session.metadata.transcriptId)
-        }
+        await this.deleteTranscriptIfUnused(session.metadata.transcriptId as string)
       }
     } catch (error) {
       console.error('Failed to delete user loop:', error)
@@ -0,0 +1,114 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables } from '../supabase/types'
+
+export type SocialNotification = Tables<'social_notifications'>
+
+export interface NotificationListOptions {
+  unreadOnly?: boolean
+  limit?: number
+  // Cursor: only notifications created before this timestamp
+  before?: string
+}
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+/**
+ * Notification Center Service
+ * Reads and manages a user's own rows in `social_notifications`. Queries run
+ * with the caller's client and are always scoped to their user id.
+ */
+export class NotificationCenterService {
+  async list(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    options: NotificationListOptions = {}
+  ): Promise<{ notifications: SocialNotification[]; hasMore: boolean }> {
+    const limit = Math.min(options.limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+
+    let query = supabase
+      .from('social_notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .order('created_at', { ascending: false })
+      .limit(limit + 1)
+
+    if (options.unreadOnly) {
+      query = query.not('read', 'is', true)
+    }
+    if (options.before) {
+      query = query.lt('created_at', options.before)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to fetch notifications: ${error.message}`)
+    }
+
+    const rows = data || []
+    return { notifications: rows.slice(0, limit), hasMore: rows.length > limit }
+  }
+
+  async countUnread(supabase: SupabaseClient<Database>, userId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('social_notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .not('read', 'is', true)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+
+    if (error) {
+      throw new Error(`Failed to count unread notifications: ${error.message}`)
+    }
+
+    return count || 0
+  }
+
+  /**
+   * Set the read flag on the given notifications, or on all of them when ids is omitted
+   */
+  async markRead(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    ids?: string[],
+    read = true
+  ): Promise<number> {
+    let query = supabase
+      .from('social_notifications')
+      .update({ read })
+      .eq('user_id', userId)
+
+    if (ids) {
+      query = query.in('id', ids)
+    } else {
+      query = read ? query.not('read', 'is', true) : query.eq('read', true)
+    }
+
+    const { data, error } = await query.select('id')
+
+    if (error) {
+      throw new Error(`Failed to update notifications: ${error.message}`)
+    }
+
+    return data?.length || 0
+  }
+
+  async remove(supabase: SupabaseClient<Database>, userId: string, ids: string[]): Promise<number> {
+    const { data, error } = await supabase
+      .from('social_notifications')
+      .delete()
+      .eq('user_id', userId)
+      .in('id', ids)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to delete notifications: ${error.message}`)
+    }
+
+    return data?.length || 0
+  }
+}
+
+export const notificationCenterService = new NotificationCenterService()
@@ -1,4 +1,12 @@
 import { getSupabaseServiceRole } from '../supabase/service-role'
+import {
+  emailDeliveryService,
+  resolveNotificationPreferences,
+  TEMPLATE_PREFERENCE,
+  type EmailDeliveryService,
+  type EmailTemplateData,
+  type EmailTemplateName
+} from './email'
 
 interface NotificationService {
   sendGroupInvitation(params: {
@@ -17,6 +25,32 @@ interface NotificationService {
     sessionUrl: string
     scheduledAt?: string
   }): Promise<void>
+
+  sendJoinRequestDecision(params: {
+    recipientEmail: string
+    groupName: string
+    groupUrl: string
+    approved: boolean
+    reason?: string
+  }): Promise<void>
+}
+
+// Look up the profile behind an email address, if the recipient has an account
+async function findRecipient(email: string): Promise<{ id: string; notificationPreferences: unknown } | null> {
+  const supabase = getSupabaseServiceRole()
+  if (!supabase) return null
+
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('id, user_preferences')
+    .eq('email', email)
+    .limit(1)
+
+  const profile = profiles?.[0]
+  if (!profile) return null
+
+  const preferences = profile.user_preferences as { notifications?: unknown } | null
+  return { id: profile.id, notificationPreferences: preferences?.notifications }
 }
 
 // In-app notification implementation (stores notifications in database)
@@ -29,35 +63,15 @@ class InAppNotificationService implements NotificationService {
     inviteUrl: string
     message?: string
   }): Promise<void> {
-    console.log('📧 Group Invitation Notification:', {
-      to: params.recipientEmail,
-      subject: `You're invited to join "${params.groupName}" on FluentFlow`,
-      content: `${params.inviterName} has invited you to join the study group "${params.groupName}".
-      
-${params.message ? `Personal message: ${params.message}` : ''}
-
-To join the group:
-1. Visit: ${params.inviteUrl}
-2. Or use invite code: ${params.inviteCode}
-
-Start learning together on FluentFlow!`
-    })
-
     // Store in-app notification in database
     try {
       const supabase = getSupabaseServiceRole()
       if (supabase) {
-        // Try to find user by checking existing profiles table which links to auth users
-        const { data: profiles } = await supabase
-          .from('profiles')
-          .select('id')
-          .eq('email', params.recipientEmail)
-          .limit(1)
-        
-        if (profiles && profiles.length > 0) {
-          const userId = profiles[0].id
+        const recipient = await findRecipient(params.recipientEmail)
+
+        if (recipient) {
           await supabase.from('social_notifications').insert({
-            user_id: userId,
+            user_id: recipient.id,
             type: 'group_invite',
             title: `You're invited to join "${params.groupName}"`,
             message: `${params.inviterName} has invited you to join the study group "${params.groupName}".${params.message ? ` Message: "${params.message}"` : ''}`,
@@ -77,7 +91,7 @@ Start learning together on FluentFlow!`
       }
     } catch (error) {
       console.error('Failed to store in-app group invitation notification:', error)
-      // Don't throw error - notification logging already happened above
+      // Don't throw error - the invitation itself has been created
     }
   }
 
@@ -89,39 +103,15 @@ Start learning together on FluentFlow!`
     scheduledAt?: string
   }): Promise<void> {
     for (const email of params.recipientEmails) {
-      console.log('📧 Session Notification:', {
-        to: email,
-        subject: `New quiz session in "${params.groupName}"`,
-        content: `A new quiz session "${params.sessionTitle}" has been created in your study group "${params.groupName}".
-
-${params.scheduledAt ? `Scheduled for: ${new Date(params.scheduledAt).toLocaleDateString('en-US', {
-  year: 'numeric',
-  month: 'long',
-  day: 'numeric',
-  hour: '2-digit',
-  minute: '2-digit'
-})}` : 'The session is available now.'}
-
-Join the session: ${params.sessionUrl}
-
-Happy learning!`
-      })
-
       // Store in-app notification in database
       try {
         const supabase = getSupabaseServiceRole()
         if (supabase) {
-          // Try to find user by checking existing profiles table which links to auth users
-          const { data: profiles } = await supabase
-            .from('profiles')
-            .select('id')
-            .eq('email', email)
-            .limit(1)
-          
-          if (profiles && profiles.length > 0) {
-            const userId = profiles[0].id
+          const recipient = await findRecipient(email)
+
+          if (recipient) {
             await supabase.from('social_notifications').insert({
-              user_id: userId,
+              user_id: recipient.id,
               type: 'message', // Using 'message' type for session notifications
               title: `New quiz session in "${params.groupName}"`,
               message: `A new quiz session "${params.sessionTitle}" has been created in your study group "${params.groupName}".${params.scheduledAt ? ` Scheduled for: ${new Date(params.scheduledAt).toLocaleDateString()}` : ' Available now!'}`,
@@ -141,34 +131,58 @@ Happy learning!`
         }
       } catch (error) {
         console.error(`Failed to store in-app session notification for ${email}:`, error)
-        // Don't throw error - notification logging already happened above
+        // Don't throw error - the session itself has been created
       }
     }
   }
-}
 
-// Email service implementation (for future integration with email providers)
-class EmailNotificationService implements NotificationService {
-  private resend: any = null
+  async sendJoinRequestDecision(params: {
+    recipientEmail: string
+    groupName: string
+    groupUrl: string
+    approved: boolean
+    reason?: string
+  }): Promise<void> {
+    try {
+      const supabase = getSupabaseServiceRole()
+      if (supabase) {
+        const recipient = await findRecipient(params.recipientEmail)
 
-  constructor(private config?: {
-    provider: 'resend' | 'sendgrid' | 'nodemailer'
-    apiKey?: string
-  }) {
-    // Initialize Resend if configured
-    if (config?.provider === 'resend' && config.apiKey) {
-      try {
-        // Dynamic import for Resend to avoid bundling issues
-        import('resend').then(({ Resend }) => {
-          this.resend = new Resend(config.apiKey!)
-        }).catch(error => {
-          console.warn('Failed to initialize Resend:', error)
-        })
-      } catch (error) {
-        console.warn('Failed to initialize Resend:', error)
+        if (recipient) {
+          await supabase.from('social_notifications').insert({
+            user_id: recipient.id,
+            type: 'join_request_decision',
+            title: params.approved
+              ? `You've joined "${params.groupName}"`
+              : `Your request to join "${params.groupName}" was declined`,
+            message: params.approved
+              ? `Your request to join the study group "${params.groupName}" has been approved.`
+              : `Your request to join the study group "${params.groupName}" was declined.${params.reason ? ` Reason: "${params.reason}"` : ''}`,
+            data: {
+              groupName: params.groupName,
+              groupUrl: params.groupUrl,
+              approved: params.approved,
+              reason: params.reason
+            },
+            expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString() // 7 days
+          })
+          console.log(`✅ In-app join request decision stored for ${params.recipientEmail}`)
+        }
       }
+    } catch (error) {
+      console.error('Failed to store in-app join request decision:', error)
+      // Don't throw error - the decision itself has been saved
     }
   }
+}
+
+// Email channel on top of the in-app notifications. Recipients with a profile
+// can opt out per category; invitees without an account always get the invitation.
+class EmailNotificationService implements NotificationService {
+  constructor(
+    private inApp: NotificationService,
+    private delivery: EmailDeliveryService
+  ) {}
 
   async sendGroupInvitation(params: {
     recipientEmail: string
@@ -178,31 +192,14 @@ class EmailNotificationService implements NotificationService {
     inviteUrl: string
     message?: string
   }): Promise<void> {
-    if (this.resend && this.config?.provider === 'resend') {
-      try {
-        await this.resend.emails.send({
-          from: 'FluentFlow <noreply@fluentflow.com>',
-          to: [params.recipientEmail],
-          subject: `You're invited to join "${params.groupName}" on FluentFlow`,
-          html: this.generateInvitationEmailHTML(params),
-          text: this.generateInvitationEmailText(params)
-        })
-        console.log(`✅ Group invitation email sent to ${params.recipientEmail}`)
-        return
-      } catch (error) {
-        console.error('Failed to send group invitation email:', error)
-        // Fall through to logging
-      }
-    }
-
-    // Fallback to logging when email service is not configured or fails
-    console.log('📧 [EMAIL SERVICE] Group Invitation would be sent:', {
-      provider: this.config?.provider,
-      to: params.recipientEmail,
-      from: 'noreply@fluentflow.com',
-      subject: `You're invited to join "${params.groupName}" on FluentFlow`,
-      template: 'group-invitation',
-      data: params
+    await this.inApp.sendGroupInvitation(params)
+
+    await this.sendEmail(params.recipientEmail, 'group_invitation', {
+      groupName: params.groupName,
+      inviterName: params.inviterName,
+      inviteCode: params.inviteCode,
+      inviteUrl: params.inviteUrl,
+      message: params.message
     })
   }
 
@@ -213,178 +210,90 @@ class EmailNotificationService implements NotificationService {
     sessionUrl: string
     scheduledAt?: string
   }): Promise<void> {
-    if (this.resend && this.config?.provider === 'resend') {
-      try {
-        await this.resend.emails.send({
-          from: 'FluentFlow <noreply@fluentflow.com>',
-          to: params.recipientEmails,
-          subject: `New quiz session in "${params.groupName}"`,
-          html: this.generateSessionEmailHTML(params),
-          text: this.generateSessionEmailText(params)
+    await this.inApp.sendSessionNotification(params)
+
+    for (const email of params.recipientEmails) {
+      if (params.scheduledAt) {
+        await this.sendEmail(email, 'session_scheduled', {
+          groupName: params.groupName,
+          sessionTitle: params.sessionTitle,
+          sessionUrl: params.sessionUrl,
+          scheduledAt: params.scheduledAt
+        })
+      } else {
+        await this.sendEmail(email, 'session_started', {
+          groupName: params.groupName,
+          sessionTitle: params.sessionTitle,
+          sessionUrl: params.sessionUrl
         })
-        console.log(`✅ Session notification emails sent to ${params.recipientEmails.length} recipients`)
-        return
-      } catch (error) {
-        console.error('Failed to send session notification emails:', error)
-        // Fall through to logging
       }
     }
-
-    // Fallback to logging when email service is not configured or fails
-    console.log('📧 [EMAIL SERVICE] Session notifications would be sent:', {
-      provider: this.config?.provider,
-      recipients: params.recipientEmails,
-      from: 'noreply@fluentflow.com',
-      subject: `New quiz session in "${params.groupName}"`,
-      template: 'session-notification',
-      data: params
-    })
   }
 
-  private generateInvitationEmailHTML(params: {
+  async sendJoinRequestDecision(params: {
     recipientEmail: string
     groupName: string
-    inviterName: string
-    inviteCode: string
-    inviteUrl: string
-    message?: string
-  }): string {
-    return `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <meta charset="utf-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>You're invited to join ${params.groupName}</title>
-        </head>
-        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
-          <div style="background: #f8f9fa; padding: 30px; border-radius: 10px; margin-bottom: 20px;">
-            <h1 style="color: #2563eb; margin-top: 0;">You're invited to FluentFlow!</h1>
-            <p style="font-size: 18px; margin-bottom: 20px;">${params.inviterName} has invited you to join the study group:</p>
-            <h2 style="color: #1e40af; background: #eff6ff; padding: 15px; border-radius: 8px; margin: 20px 0;">${params.groupName}</h2>
-            ${params.message ? `<p style="background: #f1f5f9; padding: 15px; border-radius: 8px; font-style: italic;">"${params.message}"</p>` : ''}
-          </div>
-          
-          <div style="text-align: center; margin: 30px 0;">
-            <a href="${params.inviteUrl}" style="display: inline-block; background: #2563eb; color: white; text-decoration: none; padding: 15px 30px; border-radius: 8px; font-weight: bold; font-size: 16px;">Join Group</a>
-          </div>
-          
-          <div style="background: #f8f9fa; padding: 20px; border-radius: 8px; margin-top: 30px;">
-            <p style="margin: 0; font-size: 14px; color: #6b7280;">
-              Or use group code: <strong>${params.inviteCode}</strong><br>
-              This invitation link will expire in 7 days.
-            </p>
-          </div>
-        </body>
-      </html>
-    `
-  }
-
-  private generateInvitationEmailText(params: {
-    recipientEmail: string
-    groupName: string
-    inviterName: string
-    inviteCode: string
-    inviteUrl: string
-    message?: string
-  }): string {
-    return `
-You're invited to FluentFlow!
-
-${params.inviterName} has invited you to join the study group: ${params.groupName}
-
-${params.message ? `Message: "${params.message}"` : ''}
-
-Join the group: ${params.inviteUrl}
-
-Or use group code: ${params.inviteCode}
-
-This invitation link will expire in 7 days.
-    `.trim()
-  }
-
-  private generateSessionEmailHTML(params: {
-    recipientEmails: string[]
-    groupName: string
-    sessionTitle: string
-    sessionUrl: string
-    scheduledAt?: string
-  }): string {
-    const scheduledText = params.scheduledAt 
-      ? `<p style="background: #fef3c7; padding: 15px; border-radius: 8px; color: #92400e;"><strong>Scheduled for:</strong> ${new Date(params.scheduledAt).toLocaleString()}</p>`
-      : `<p style="background: #dcfce7; padding: 15px; border-radius: 8px; color: #166534;"><strong>Available now!</strong> Join the session when you're ready.</p>`
+    groupUrl: string
+    approved: boolean
+    reason?: string
+  }): Promise<void> {
+    await this.inApp.sendJoinRequestDecision(params)
 
-    return `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <meta charset="utf-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>New Quiz Session - ${params.groupName}</title>
-        </head>
-        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
-          <div style="background: #f8f9fa; padding: 30px; border-radius: 10px; margin-bottom: 20px;">
-            <h1 style="color: #2563eb; margin-top: 0;">New Quiz Session Available!</h1>
-            <p style="font-size: 18px; margin-bottom: 20px;">A new quiz session has been created in your study group:</p>
-            <h2 style="color: #1e40af; background: #eff6ff; padding: 15px; border-radius: 8px; margin: 20px 0;">${params.groupName}</h2>
-            <h3 style="color: #374151; margin: 15px 0;">${params.sessionTitle}</h3>
-            ${scheduledText}
-          </div>
-          
-          <div style="text-align: center; margin: 30px 0;">
-            <a href="${params.sessionUrl}" style="display: inline-block; background: #16a34a; color: white; text-decoration: none; padding: 15px 30px; border-radius: 8px; font-weight: bold; font-size: 16px;">Start Quiz</a>
-          </div>
-          
-          <div style="background: #f8f9fa; padding: 20px; border-radius: 8px; margin-top: 30px;">
-            <p style="margin: 0; font-size: 14px; color: #6b7280;">
-              This session will be available for 24 hours. Good luck!
-            </p>
-          </div>
-        </body>
-      </html>
-    `
+    if (params.approved) {
+      await this.sendEmail(params.recipientEmail, 'join_request_approved', {
+        groupName: params.groupName,
+        groupUrl: params.groupUrl
+      })
+    } else {
+      await this.sendEmail(params.recipientEmail, 'join_request_rejected', {
+        groupName: params.groupName,
+        reason: params.reason
+      })
+    }
   }
 
-  private generateSessionEmailText(params: {
-    recipientEmails: string[]
-    groupName: string
-    sessionTitle: string
-    sessionUrl: string
-    scheduledAt?: string
-  }): string {
-    const scheduledText = params.scheduledAt 
-      ? `Scheduled for: ${new Date(params.scheduledAt).toLocaleString()}`
-      : `Available now! Join the session when you're ready.`
-
-    return `
-New Quiz Session Available!
-
-A new quiz session has been created in your study group: ${params.groupName}
-
-Session: ${params.sessionTitle}
+  private async sendEmail<T extends EmailTemplateName>(
+    recipientEmail: string,
+    template: T,
+    data: EmailTemplateData[T]
+  ): Promise<void> {
+    try {
+      const recipient = await findRecipient(recipientEmail)
+      const preferences = resolveNotificationPreferences(recipient?.notificationPreferences)
 
-${scheduledText}
+      if (!preferences.email || !preferences[TEMPLATE_PREFERENCE[template]]) {
+        console.log(`📧 Skipping ${template} email to ${recipientEmail} (disabled in preferences)`)
+        return
+      }
 
-Start quiz: ${params.sessionUrl}
+      const delivery = await this.delivery.send({
+        to: recipientEmail,
+        template,
+        data,
+        userId: recipient?.id
+      })
 
-This session will be available for 24 hours. Good luck!
-    `.trim()
+      if (delivery?.status === 'sent') {
+        console.log(`✅ ${template} email sent to ${recipientEmail} via ${delivery.transport}`)
+      }
+    } catch (error) {
+      console.error(`Failed to send ${template} email to ${recipientEmail}:`, error)
+      // Don't throw error - the in-app notification has already been stored
+    }
   }
 }
 
 // Factory function to create notification service based on environment
 export function createNotificationService(): NotificationService {
-  // Check for email service configuration in environment variables
-  const emailProvider = process.env.EMAIL_PROVIDER as 'resend' | 'sendgrid' | 'nodemailer'
-  const apiKey = process.env.EMAIL_API_KEY
+  const inApp = new InAppNotificationService()
 
-  if (emailProvider && apiKey) {
-    console.log(`📧 Using ${emailProvider} email service for notifications`)
-    return new EmailNotificationService({ provider: emailProvider, apiKey })
+  if (emailDeliveryService.enabled) {
+    console.log(`📧 Using ${emailDeliveryService.transportName} email transport for notifications`)
+    return new EmailNotificationService(inApp, emailDeliveryService)
   }
 
-  console.log('📧 Using in-app notification service (email service not configured)')
-  return new InAppNotificationService()
+  console.log('📧 Using in-app notification service (email transport not configured)')
+  return inApp
 }
 
-export const notificationService = createNotificationService()
\ No newline at end of file
+export const notificationService = createNotificationService()
@@ -1,5 +1,4 @@
 import { supabase } from '../supabase/client'
-import { getAuthHeaders } from '../supabase/auth-utils'
 
 export interface ProgressRecord {
   id: string
@@ -300,36 +299,6 @@ export async function fetchProgressEvents(
   return data || []
 }
 
-/**
- * Submit final group quiz results to leaderboard API
- */
-export async function submitGroupQuizResults(
-  groupId: string,
-  sessionId: string,
-  resultsData: {
-    score: number
-    total_questions: number
-    correct_answers: number
-    time_taken_seconds?: number | null
-    result_data: any
-  }
-): Promise<void> {
-  if (!groupId || !sessionId) throw new Error('Group ID and Session ID are required')
-
-  const headers = await getAuthHeaders()
-  
-  const response = await fetch(`/api/groups/${groupId}/sessions/${sessionId}/results`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(resultsData)
-  })
-
-  if (!response.ok) {
-    const errorData = await response.json()
-    throw new Error(errorData.message || 'Failed to submit group quiz results')
-  }
-}
-
 /**
  * Create a real-time subscription for progress updates
  */
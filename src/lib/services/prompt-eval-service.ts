@@ -0,0 +1,237 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json, Tables } from '../supabase/types'
+import {
+  createAIService,
+  PromptEvaluator,
+  type AIProvider,
+  type CandidateEvaluation,
+  type CustomPrompt as EvaluationPrompt,
+  type DifficultyPreset,
+  type EvaluationCandidate,
+  type EvaluationFixture,
+  type EvaluationSegment
+} from './ai'
+import { promptVersionService } from './prompt-version-service'
+
+export type PromptEvalFixture = Tables<'prompt_eval_fixtures'>
+
+export type PromptEvalRun = Omit<Tables<'prompt_eval_runs'>, 'results' | 'preset'> & {
+  preset: DifficultyPreset
+  results: CandidateEvaluation[]
+}
+
+export interface CreateFixtureInput {
+  name: string
+  description?: string
+  video_title?: string
+  // Defaults to the segment texts joined
+  transcript?: string
+  segments: EvaluationSegment[]
+}
+
+// What to evaluate: a saved version of the prompt, or unsaved draft content
+export type CandidateInput =
+  | { versionId: string; label?: string }
+  | {
+      label?: string
+      system_prompt: string
+      user_template: string
+      config?: { maxTokens?: number; temperature?: number }
+    }
+
+export interface RunEvaluationInput {
+  promptId?: string
+  candidates: EvaluationCandidate[]
+  fixtures: PromptEvalFixture[]
+  preset: DifficultyPreset
+  // 'stub' runs offline and deterministically; omit to use the configured provider
+  provider?: AIProvider
+}
+
+const toEvaluationFixture = (fixture: PromptEvalFixture): EvaluationFixture => ({
+  id: fixture.id,
+  name: fixture.name,
+  videoTitle: fixture.video_title,
+  transcript: fixture.transcript,
+  segments: Array.isArray(fixture.segments) ? (fixture.segments as unknown as EvaluationSegment[]) : []
+})
+
+const toRun = (row: Tables<'prompt_eval_runs'>): PromptEvalRun => ({
+  ...row,
+  preset: row.preset as unknown as DifficultyPreset,
+  results: (row.results as unknown as CandidateEvaluation[]) || []
+})
+
+/**
+ * Prompt Evaluation Service
+ * Stores fixture transcripts and evaluation runs, and resolves what to
+ * evaluate before handing it to the PromptEvaluator.
+ */
+export class PromptEvalService {
+  async listFixtures(supabase: SupabaseClient<Database>): Promise<PromptEvalFixture[]> {
+    const { data, error } = await supabase
+      .from('prompt_eval_fixtures')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch evaluation fixtures: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  async createFixture(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    input: CreateFixtureInput
+  ): Promise<PromptEvalFixture> {
+    const transcript = input.transcript?.trim() || input.segments.map(segment => segment.text).join(' ')
+
+    const { data, error } = await supabase
+      .from('prompt_eval_fixtures')
+      .insert({
+        name: input.name,
+        description: input.description || null,
+        video_title: input.video_title || null,
+        transcript,
+        segments: input.segments as unknown as Json,
+        created_by: userId
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create evaluation fixture: ${error.message}`)
+    }
+
+    return data
+  }
+
+  // Fixtures with the given ids, or all of them
+  async getFixtures(supabase: SupabaseClient<Database>, fixtureIds?: string[]): Promise<PromptEvalFixture[]> {
+    const fixtures = await this.listFixtures(supabase)
+    return fixtureIds ? fixtures.filter(fixture => fixtureIds.includes(fixture.id)) : fixtures
+  }
+
+  async deleteFixture(supabase: SupabaseClient<Database>, fixtureId: string): Promise<void> {
+    const { error } = await supabase.from('prompt_eval_fixtures').delete().eq('id', fixtureId)
+
+    if (error) {
+      throw new Error(`Failed to delete evaluation fixture: ${error.message}`)
+    }
+  }
+
+  async listRuns(
+    supabase: SupabaseClient<Database>,
+    options: { promptId?: string; limit?: number } = {}
+  ): Promise<PromptEvalRun[]> {
+    let query = supabase
+      .from('prompt_eval_runs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 10)
+
+    if (options.promptId) {
+      query = query.eq('prompt_id', options.promptId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to fetch evaluation runs: ${error.message}`)
+    }
+
+    return (data || []).map(toRun)
+  }
+
+  /**
+   * Run the candidates over the fixtures and store the scored results
+   */
+  async runEvaluation(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    input: RunEvaluationInput
+  ): Promise<PromptEvalRun> {
+    let evaluator: PromptEvaluator
+    let model: string | null
+    if (input.provider === 'stub') {
+      evaluator = PromptEvaluator.withStubProvider()
+      model = 'stub-evaluator'
+    } else {
+      const aiService = createAIService(input.provider ? { provider: input.provider } : undefined)
+      evaluator = aiService.createPromptEvaluator()
+      model = aiService.getConfig().model
+    }
+
+    const results = await evaluator.compare(
+      input.candidates,
+      input.fixtures.map(toEvaluationFixture),
+      input.preset
+    )
+
+    const { data, error } = await supabase
+      .from('prompt_eval_runs')
+      .insert({
+        prompt_id: input.promptId || null,
+        provider: input.provider || 'configured',
+        model,
+        preset: input.preset as unknown as Json,
+        fixture_ids: input.fixtures.map(fixture => fixture.id),
+        results: results as unknown as Json,
+        created_by: userId
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to save evaluation run: ${error.message}`)
+    }
+
+    return toRun(data)
+  }
+
+  /**
+   * Turn saved version ids and draft content into evaluation candidates.
+   * Returns null if a version does not belong to the prompt.
+   */
+  async resolveCandidates(
+    supabase: SupabaseClient<Database>,
+    promptId: string | undefined,
+    inputs: CandidateInput[]
+  ): Promise<EvaluationCandidate[] | null> {
+    const candidates: EvaluationCandidate[] = []
+
+    for (const [index, candidate] of inputs.entries()) {
+      if ('versionId' in candidate) {
+        const version = promptId
+          ? await promptVersionService.getVersion(supabase, promptId, candidate.versionId)
+          : null
+        if (!version) return null
+
+        candidates.push({
+          label: candidate.label || `Version ${version.version_number}`,
+          prompt: {
+            system_prompt: version.system_prompt,
+            user_template: version.user_template,
+            config: (version.config as EvaluationPrompt['config']) || undefined,
+            version_id: version.id
+          }
+        })
+      } else {
+        candidates.push({
+          label: candidate.label || `Draft ${index + 1}`,
+          prompt: {
+            system_prompt: candidate.system_prompt,
+            user_template: candidate.user_template,
+            config: candidate.config
+          }
+        })
+      }
+    }
+
+    return candidates
+  }
+}
+
+export const promptEvalService = new PromptEvalService()
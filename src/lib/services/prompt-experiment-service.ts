@@ -0,0 +1,471 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseServiceRole } from '../supabase/service-role'
+import type { Database, Tables } from '../supabase/types'
+import { computeItemStatistics, getResultItems, type ItemAttempt } from './item-analysis-service'
+
+export type ExperimentStatus = 'draft' | 'running' | 'completed'
+
+export interface PromptExperimentVariant {
+  id: string
+  prompt_id: string
+  prompt_name: string
+  weight: number
+}
+
+export type PromptExperiment = Omit<Tables<'prompt_experiments'>, 'status'> & {
+  status: ExperimentStatus
+  variants: PromptExperimentVariant[]
+}
+
+export interface CreateExperimentInput {
+  name: string
+  description?: string
+  category: string
+  variants: { prompt_id: string; weight: number }[]
+}
+
+// The variant a generation request was routed to
+export interface VariantAssignment {
+  experimentId: string
+  variantId: string
+  promptId: string
+}
+
+export interface VariantOutcome {
+  variantId: string
+  promptId: string
+  promptName: string
+  weight: number
+  questionSets: number
+  questionsServed: number
+  // Individual set submissions plus group results
+  attempts: number
+  averageScore: number | null
+  // Mean upper-lower discrimination over items with enough responses
+  discrimination: number | null
+  started: number
+  completed: number
+  completionRate: number | null
+  reportedQuestions: number
+  // Share of served questions reported at least once
+  reportRate: number | null
+}
+
+export interface ExperimentOutcomeData {
+  sets: Pick<Tables<'prompt_experiment_sets'>, 'question_set_id' | 'variant_id' | 'session_id' | 'questions'>[]
+  submissions: Pick<
+    Tables<'question_set_submissions'>,
+    'id' | 'question_set_id' | 'user_id' | 'score' | 'total_questions' | 'answered_count' | 'results'
+  >[]
+  groupResults: Pick<Tables<'group_quiz_results'>, 'session_id' | 'user_id' | 'score' | 'answers_data'>[]
+  groupProgress: Pick<Tables<'group_quiz_progress'>, 'session_id' | 'user_id'>[]
+  reports: Pick<Tables<'question_reports'>, 'question_set_id' | 'question_id'>[]
+}
+
+/**
+ * Pick a variant with probability proportional to its weight
+ */
+export function pickVariant<T extends { weight: number }>(variants: T[], random = Math.random): T | null {
+  const total = variants.reduce((sum, variant) => sum + Math.max(variant.weight, 0), 0)
+  if (total <= 0) return null
+
+  let threshold = random() * total
+  for (const variant of variants) {
+    threshold -= Math.max(variant.weight, 0)
+    if (threshold < 0) return variant
+  }
+
+  return variants[variants.length - 1]
+}
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+
+/**
+ * Compute per-variant outcomes from the tagged sets and what learners did with them
+ */
+export function computeVariantOutcomes(
+  variants: PromptExperimentVariant[],
+  data: ExperimentOutcomeData
+): VariantOutcome[] {
+  return variants.map(variant => {
+    const sets = data.sets.filter(set => set.variant_id === variant.id)
+    const setIds = new Set(sets.map(set => set.question_set_id))
+    const sessionIds = new Set(sets.map(set => set.session_id).filter(Boolean))
+
+    const questions = new Map<string, any>()
+    let questionsServed = 0
+    for (const set of sets) {
+      const setQuestions = Array.isArray(set.questions) ? (set.questions as any[]) : []
+      questionsServed += setQuestions.length
+      for (const question of setQuestions) {
+        if (question?.id && !questions.has(question.id)) questions.set(question.id, question)
+      }
+    }
+
+    const scores: number[] = []
+    const attempts: ItemAttempt[] = []
+    let started = 0
+    let completed = 0
+
+    for (const submission of data.submissions) {
+      if (!setIds.has(submission.question_set_id)) continue
+
+      started++
+      if (submission.answered_count >= submission.total_questions) completed++
+      scores.push(submission.score)
+
+      const results = Array.isArray(submission.results) ? (submission.results as any[]) : []
+      for (const item of results) {
+        if (!item?.questionId) continue
+        attempts.push({
+          sessionId: submission.question_set_id,
+          userId: submission.user_id || submission.id,
+          totalScore: submission.score,
+          questionId: item.questionId,
+          isCorrect: !!item.isCorrect,
+          userAnswer: item.userAnswer
+        })
+      }
+    }
+
+    // Group results can mix sets from several requests; only this variant's items count
+    const startedMembers = new Set<string>()
+    const completedMembers = new Set<string>()
+    for (const result of data.groupResults) {
+      if (!sessionIds.has(result.session_id)) continue
+
+      const items = getResultItems(result).filter(item => item?.questionId && questions.has(item.questionId))
+      if (items.length === 0) continue
+
+      const correct = items.filter(item => item.isCorrect).length
+      const variantScore = Math.round((correct / items.length) * 100)
+      scores.push(variantScore)
+
+      const memberKey = `${result.session_id}:${result.user_id}`
+      startedMembers.add(memberKey)
+      completedMembers.add(memberKey)
+
+      for (const item of items) {
+        attempts.push({
+          sessionId: result.session_id,
+          userId: result.user_id,
+          totalScore: variantScore,
+          questionId: item.questionId,
+          isCorrect: !!item.isCorrect,
+          userAnswer: item.userAnswer,
+          selectedOption: item.selectedOption,
+          responseTimeMs: item.responseTimeMs
+        })
+      }
+    }
+
+    for (const progress of data.groupProgress) {
+      if (sessionIds.has(progress.session_id)) startedMembers.add(`${progress.session_id}:${progress.user_id}`)
+    }
+    started += startedMembers.size
+    completed += completedMembers.size
+
+    const discrimination = average(
+      computeItemStatistics([...questions.values()], attempts)
+        .map(item => item.discrimination)
+        .filter((value): value is number => value !== null)
+    )
+
+    const reportedQuestions = new Set(
+      data.reports
+        .filter(report => setIds.has(report.question_set_id))
+        .map(report => `${report.question_set_id}:${report.question_id}`)
+    ).size
+
+    const averageScore = average(scores)
+
+    return {
+      variantId: variant.id,
+      promptId: variant.prompt_id,
+      promptName: variant.prompt_name,
+      weight: variant.weight,
+      questionSets: sets.length,
+      questionsServed,
+      attempts: scores.length,
+      averageScore: averageScore === null ? null : Math.round(averageScore * 10) / 10,
+      discrimination: discrimination === null ? null : Math.round(discrimination * 100) / 100,
+      started,
+      completed,
+      completionRate: started > 0 ? completed / started : null,
+      reportedQuestions,
+      reportRate: questionsServed > 0 ? reportedQuestions / questionsServed : null
+    }
+  })
+}
+
+/**
+ * Prompt Experiment Service
+ * Splits generation requests between custom prompts in the same category.
+ * Generated sets are tagged with their variant and copied to
+ * `prompt_experiment_sets` by a trigger, so outcomes survive set expiry.
+ */
+export class PromptExperimentService {
+  async listExperiments(supabase: SupabaseClient<Database>): Promise<PromptExperiment[]> {
+    const { data, error } = await supabase
+      .from('prompt_experiments')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch prompt experiments: ${error.message}`)
+    }
+
+    return this.withVariants(supabase, data || [])
+  }
+
+  async getExperiment(supabase: SupabaseClient<Database>, experimentId: string): Promise<PromptExperiment | null> {
+    const { data, error } = await supabase
+      .from('prompt_experiments')
+      .select('*')
+      .eq('id', experimentId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch prompt experiment: ${error.message}`)
+    }
+
+    if (!data) return null
+
+    const [experiment] = await this.withVariants(supabase, [data])
+    return experiment
+  }
+
+  async getRunningExperiment(supabase: SupabaseClient<Database>, category: string): Promise<PromptExperiment | null> {
+    const { data, error } = await supabase
+      .from('prompt_experiments')
+      .select('*')
+      .eq('category', category)
+      .eq('status', 'running')
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch running experiment: ${error.message}`)
+    }
+
+    if (!data) return null
+
+    const [experiment] = await this.withVariants(supabase, [data])
+    return experiment
+  }
+
+  async createExperiment(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    input: CreateExperimentInput
+  ): Promise<PromptExperiment> {
+    const { data, error } = await supabase
+      .from('prompt_experiments')
+      .insert({
+        name: input.name,
+        description: input.description || null,
+        category: input.category,
+        created_by: userId
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create prompt experiment: ${error.message}`)
+    }
+
+    const { error: variantsError } = await supabase.from('prompt_experiment_variants').insert(
+      input.variants.map(variant => ({
+        experiment_id: data.id,
+        prompt_id: variant.prompt_id,
+        weight: variant.weight
+      }))
+    )
+
+    if (variantsError) {
+      await supabase.from('prompt_experiments').delete().eq('id', data.id)
+      throw new Error(`Failed to create experiment variants: ${variantsError.message}`)
+    }
+
+    const [experiment] = await this.withVariants(supabase, [data])
+    return experiment
+  }
+
+  async updateStatus(
+    supabase: SupabaseClient<Database>,
+    experimentId: string,
+    status: 'running' | 'completed'
+  ): Promise<void> {
+    const now = new Date().toISOString()
+    const { error } = await supabase
+      .from('prompt_experiments')
+      .update(
+        status === 'running'
+          ? { status, started_at: now, ended_at: null, updated_at: now }
+          : { status, ended_at: now, updated_at: now }
+      )
+      .eq('id', experimentId)
+
+    if (error) {
+      throw new Error(`Failed to update prompt experiment: ${error.message}`)
+    }
+  }
+
+  async deleteExperiment(supabase: SupabaseClient<Database>, experimentId: string): Promise<void> {
+    const { error } = await supabase.from('prompt_experiments').delete().eq('id', experimentId)
+
+    if (error) {
+      throw new Error(`Failed to delete prompt experiment: ${error.message}`)
+    }
+  }
+
+  /**
+   * Route a generation request that asked for a prompt taking part in a
+   * running experiment to one of the experiment's variants. Returns null when
+   * the prompt is not in a running experiment; never fails generation.
+   */
+  async assignVariant(supabase: SupabaseClient<Database>, promptId: string): Promise<VariantAssignment | null> {
+    try {
+      const { data: prompt, error } = await supabase
+        .from('custom_prompts')
+        .select('category')
+        .eq('id', promptId)
+        .maybeSingle()
+
+      if (error) throw error
+      if (!prompt) return null
+
+      const experiment = await this.getRunningExperiment(supabase, prompt.category)
+      if (!experiment?.variants.some(variant => variant.prompt_id === promptId)) return null
+
+      const variant = pickVariant(experiment.variants)
+      if (!variant) return null
+
+      return { experimentId: experiment.id, variantId: variant.id, promptId: variant.prompt_id }
+    } catch (error) {
+      console.error('Error assigning prompt experiment variant:', error)
+      return null
+    }
+  }
+
+  /**
+   * Outcomes per variant. Reads learner results across users, so this uses
+   * the service role client; callers must check admin access first.
+   */
+  async getOutcomes(experiment: PromptExperiment): Promise<VariantOutcome[]> {
+    const supabase = getSupabaseServiceRole()
+    if (!supabase) {
+      throw new Error('Database not configured')
+    }
+
+    const { data: sets, error: setsError } = await supabase
+      .from('prompt_experiment_sets')
+      .select('question_set_id, variant_id, session_id, questions')
+      .eq('experiment_id', experiment.id)
+
+    if (setsError) {
+      throw new Error(`Failed to fetch experiment question sets: ${setsError.message}`)
+    }
+
+    const setIds = (sets || []).map(set => set.question_set_id)
+    const sessionIds = [...new Set((sets || []).map(set => set.session_id).filter((id): id is string => !!id))]
+
+    const [submissions, groupResults, groupProgress, reports] = await Promise.all([
+      setIds.length
+        ? supabase
+            .from('question_set_submissions')
+            .select('id, question_set_id, user_id, score, total_questions, answered_count, results')
+            .in('question_set_id', setIds)
+        : null,
+      sessionIds.length
+        ? supabase
+            .from('group_quiz_results')
+            .select('session_id, user_id, score, answers_data')
+            .in('session_id', sessionIds)
+        : null,
+      sessionIds.length
+        ? supabase.from('group_quiz_progress').select('session_id, user_id').in('session_id', sessionIds)
+        : null,
+      setIds.length
+        ? supabase.from('question_reports').select('question_set_id, question_id').in('question_set_id', setIds)
+        : null
+    ])
+
+    const failed = [submissions, groupResults, groupProgress, reports].find(result => result?.error)
+    if (failed?.error) {
+      throw new Error(`Failed to fetch experiment outcomes: ${failed.error.message}`)
+    }
+
+    return computeVariantOutcomes(experiment.variants, {
+      sets: sets || [],
+      submissions: submissions?.data || [],
+      groupResults: groupResults?.data || [],
+      groupProgress: groupProgress?.data || [],
+      reports: reports?.data || []
+    })
+  }
+
+  /**
+   * Make the winning prompt the category default and close the experiment
+   */
+  async promoteWinner(supabase: SupabaseClient<Database>, experimentId: string, promptId: string): Promise<void> {
+    const { error: rpcError } = await supabase.rpc('set_default_prompt', { prompt_id: promptId })
+
+    if (rpcError) {
+      throw new Error(`Failed to set default prompt: ${rpcError.message}`)
+    }
+
+    const now = new Date().toISOString()
+    const { error } = await supabase
+      .from('prompt_experiments')
+      .update({ status: 'completed', winner_prompt_id: promptId, ended_at: now, updated_at: now })
+      .eq('id', experimentId)
+
+    if (error) {
+      throw new Error(`Failed to complete prompt experiment: ${error.message}`)
+    }
+  }
+
+  private async withVariants(
+    supabase: SupabaseClient<Database>,
+    experiments: Tables<'prompt_experiments'>[]
+  ): Promise<PromptExperiment[]> {
+    if (experiments.length === 0) return []
+
+    const { data: variants, error } = await supabase
+      .from('prompt_experiment_variants')
+      .select('id, experiment_id, prompt_id, weight')
+      .in('experiment_id', experiments.map(experiment => experiment.id))
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch experiment variants: ${error.message}`)
+    }
+
+    const promptIds = [...new Set((variants || []).map(variant => variant.prompt_id))]
+    const { data: prompts, error: promptsError } = promptIds.length
+      ? await supabase.from('custom_prompts').select('id, name').in('id', promptIds)
+      : { data: [], error: null }
+
+    if (promptsError) {
+      throw new Error(`Failed to fetch experiment prompts: ${promptsError.message}`)
+    }
+
+    const promptNames = new Map((prompts || []).map(prompt => [prompt.id, prompt.name]))
+
+    return experiments.map(experiment => ({
+      ...experiment,
+      status: experiment.status as ExperimentStatus,
+      variants: (variants || [])
+        .filter(variant => variant.experiment_id === experiment.id)
+        .map(variant => ({
+          id: variant.id,
+          prompt_id: variant.prompt_id,
+          prompt_name: promptNames.get(variant.prompt_id) || 'Deleted prompt',
+          weight: variant.weight
+        }))
+    }))
+  }
+}
+
+export const promptExperimentService = new PromptExperimentService()
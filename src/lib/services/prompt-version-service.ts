@@ -0,0 +1,102 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json, Tables } from '../supabase/types'
+
+export type PromptVersion = Tables<'custom_prompt_versions'>
+
+export interface PromptContent {
+  system_prompt: string
+  user_template: string
+  config: Json | null
+}
+
+const sameConfig = (a: Json | null, b: Json | null) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+
+export function isSamePromptContent(a: PromptContent, b: PromptContent): boolean {
+  return a.system_prompt === b.system_prompt && a.user_template === b.user_template && sameConfig(a.config, b.config)
+}
+
+/**
+ * Prompt Version Service
+ * Custom prompt content is versioned in `custom_prompt_versions`. New versions
+ * go through the `create_prompt_version` RPC, which also makes them current;
+ * rollback copies an older version forward instead of rewriting history.
+ */
+export class PromptVersionService {
+  async listVersions(supabase: SupabaseClient<Database>, promptId: string): Promise<PromptVersion[]> {
+    const { data, error } = await supabase
+      .from('custom_prompt_versions')
+      .select('*')
+      .eq('prompt_id', promptId)
+      .order('version_number', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch prompt versions: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  async getVersion(
+    supabase: SupabaseClient<Database>,
+    promptId: string,
+    versionId: string
+  ): Promise<PromptVersion | null> {
+    const { data, error } = await supabase
+      .from('custom_prompt_versions')
+      .select('*')
+      .eq('prompt_id', promptId)
+      .eq('id', versionId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch prompt version: ${error.message}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Store new content as the next version and make it current.
+   * Returns null when the prompt does not exist.
+   */
+  async createVersion(
+    supabase: SupabaseClient<Database>,
+    promptId: string,
+    content: PromptContent,
+    options: { changeNote?: string; restoredFrom?: string } = {}
+  ): Promise<PromptVersion | null> {
+    const { data, error } = await supabase.rpc('create_prompt_version', {
+      p_prompt_id: promptId,
+      p_system_prompt: content.system_prompt,
+      p_user_template: content.user_template,
+      p_config: content.config,
+      p_change_note: options.changeNote,
+      p_restored_from: options.restoredFrom
+    })
+
+    if (error) {
+      throw new Error(`Failed to create prompt version: ${error.message}`)
+    }
+
+    return data?.[0] ?? null
+  }
+
+  /**
+   * Make an older version's content current again by writing it as a new version
+   */
+  async rollback(
+    supabase: SupabaseClient<Database>,
+    promptId: string,
+    versionId: string
+  ): Promise<PromptVersion | null> {
+    const target = await this.getVersion(supabase, promptId, versionId)
+    if (!target) return null
+
+    return this.createVersion(supabase, promptId, target, {
+      changeNote: `Rolled back to version ${target.version_number}`,
+      restoredFrom: target.id
+    })
+  }
+}
+
+export const promptVersionService = new PromptVersionService()
@@ -0,0 +1,292 @@
+// Question bank: persistent store of generated questions
+// Questions outlive their shared question sets and can be reassembled into new sets
+
+import { NextRequest } from 'next/server'
+import { PermissionManager } from '../permissions'
+import { getSupabaseServer, getCurrentUserServer } from '../supabase/server'
+import type { Json, Tables, TablesInsert } from '../supabase/types'
+import type { GeneratedQuestion } from './ai/types'
+import { getQuestionKind, normalizeAnswerText } from '../utils/question-grading'
+import { createSharedQuestionsService, type SharedQuestionSet } from './shared-questions-service'
+
+export type QuestionBankEntry = Tables<'question_bank'>
+
+// Questions saved from a client may not carry a generated id
+export type QuestionBankInput = Omit<GeneratedQuestion, 'id'> & { id?: string }
+
+export interface QuestionBankSource {
+  loopId?: string
+  videoTitle?: string
+  videoUrl?: string
+  groupId?: string
+}
+
+export interface QuestionBankSearchFilters {
+  query?: string
+  difficulty?: 'easy' | 'medium' | 'hard'
+  kind?: string
+  type?: string
+  loopId?: string
+  groupId?: string
+  tags?: string[]
+  limit?: number
+  offset?: number
+}
+
+export interface AssembleQuestionSetData {
+  questionIds: string[]
+  title: string
+  group_id?: string
+  session_id?: string
+  is_public?: boolean
+  expires_hours?: number
+}
+
+// Skill practised by each question type, used as the default tag
+const SKILL_TAGS_BY_TYPE: Record<string, string> = {
+  main_idea: 'gist',
+  specific_detail: 'detail',
+  vocabulary_in_context: 'vocabulary',
+  inference: 'inference',
+  speaker_tone: 'tone',
+  language_function: 'function'
+}
+
+const SKILL_TAGS_BY_KIND: Record<string, string> = {
+  cloze: 'dictation',
+  ordering: 'sequencing'
+}
+
+const MAX_SEARCH_LIMIT = 100
+
+export function normalizeQuestionText(text: string): string {
+  return normalizeAnswerText(text)
+}
+
+export function deriveSkillTags(question: Pick<GeneratedQuestion, 'type'> & { kind?: string }): string[] {
+  const tags = [SKILL_TAGS_BY_TYPE[question.type], SKILL_TAGS_BY_KIND[getQuestionKind(question)]]
+  return tags.filter((tag): tag is string => !!tag)
+}
+
+export class QuestionBankService {
+  constructor(private request?: NextRequest) {}
+
+  /**
+   * Save questions to the current user's bank. Questions whose normalized text is
+   * already in the bank are skipped.
+   */
+  async addQuestions(
+    questions: QuestionBankInput[],
+    source: QuestionBankSource = {}
+  ): Promise<{ added: number; duplicates: number }> {
+    const { supabase, user } = await this.getContext()
+
+    // Saving into a group's bank needs the same rights as managing the group
+    if (source.groupId) {
+      const { data: membership } = await supabase
+        .from('study_group_members')
+        .select('role')
+        .eq('group_id', source.groupId)
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (!membership || !new PermissionManager(user, { user_role: membership.role }, null).canManageGroup()) {
+        throw new Error('Only group owners and admins can add questions to the group bank')
+      }
+    }
+
+    // Deduplicate within the batch as well as against the bank
+    const rows = new Map<string, TablesInsert<'question_bank'>>()
+    for (const question of questions) {
+      const normalizedText = normalizeQuestionText(question.question || '')
+      if (!normalizedText || rows.has(normalizedText)) continue
+
+      rows.set(normalizedText, {
+        created_by: user.id,
+        group_id: source.groupId ?? null,
+        question: question as unknown as Json,
+        question_text: question.question,
+        normalized_text: normalizedText,
+        kind: getQuestionKind(question),
+        question_type: question.type ?? null,
+        difficulty: question.difficulty,
+        source_loop_id: source.loopId ?? null,
+        source_video_title: source.videoTitle ?? null,
+        source_video_url: source.videoUrl ?? null,
+        source_timestamp: question.timestamp ?? null,
+        skill_tags: deriveSkillTags(question)
+      })
+    }
+
+    if (rows.size === 0) {
+      return { added: 0, duplicates: questions.length }
+    }
+
+    const { data, error } = await supabase
+      .from('question_bank')
+      .upsert([...rows.values()], {
+        onConflict: 'created_by,group_id,source_loop_id,normalized_text',
+        ignoreDuplicates: true
+      })
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to save questions to bank: ${error.message}`)
+    }
+
+    const added = data?.length || 0
+    return { added, duplicates: questions.length - added }
+  }
+
+  /**
+   * Search questions visible to the current user (their own and their groups')
+   */
+  async search(filters: QuestionBankSearchFilters = {}): Promise<{ questions: QuestionBankEntry[]; total: number }> {
+    const { supabase } = await this.getContext()
+
+    const limit = Math.min(filters.limit || 20, MAX_SEARCH_LIMIT)
+    const offset = filters.offset || 0
+
+    let query = supabase
+      .from('question_bank')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (filters.query) {
+      query = query.ilike('normalized_text', `%${normalizeQuestionText(filters.query)}%`)
+    }
+    if (filters.difficulty) {
+      query = query.eq('difficulty', filters.difficulty)
+    }
+    if (filters.kind) {
+      query = query.eq('kind', filters.kind)
+    }
+    if (filters.type) {
+      query = query.eq('question_type', filters.type)
+    }
+    if (filters.loopId) {
+      query = query.eq('source_loop_id', filters.loopId)
+    }
+    if (filters.groupId) {
+      query = query.eq('group_id', filters.groupId)
+    }
+    if (filters.tags && filters.tags.length > 0) {
+      query = query.overlaps('skill_tags', filters.tags)
+    }
+
+    const { data, error, count } = await query
+
+    if (error) {
+      throw new Error(`Failed to search question bank: ${error.message}`)
+    }
+
+    return { questions: data || [], total: count || 0 }
+  }
+
+  /**
+   * Build a new shared question set from bank questions, in the order given
+   */
+  async assembleQuestionSet(data: AssembleQuestionSetData): Promise<SharedQuestionSet> {
+    const { supabase } = await this.getContext()
+
+    const questionIds = [...new Set(data.questionIds)]
+    const { data: entries, error } = await supabase
+      .from('question_bank')
+      .select('*')
+      .in('id', questionIds)
+
+    if (error) {
+      throw new Error(`Failed to load bank questions: ${error.message}`)
+    }
+
+    const entriesById = new Map((entries || []).map(entry => [entry.id, entry]))
+    const missing = questionIds.filter(id => !entriesById.has(id))
+    if (missing.length > 0) {
+      throw new Error(`Questions not found in bank: ${missing.join(', ')}`)
+    }
+
+    const ordered = questionIds.map(id => entriesById.get(id)!)
+    const questions = ordered.map(entry => ({
+      ...(entry.question as unknown as GeneratedQuestion),
+      // Bank ids keep question ids stable across every set a question is reused in
+      id: `qb_${entry.id}`
+    }))
+
+    const difficulties = [...new Set(ordered.map(entry => entry.difficulty))]
+    const videoUrls = [...new Set(ordered.map(entry => entry.source_video_url))]
+    // Video details only make sense when every question comes from the same video
+    const sourceVideo = videoUrls.length === 1 && videoUrls[0] ? ordered[0] : null
+
+    const questionSet = await createSharedQuestionsService(this.request).createSharedQuestionSet({
+      title: data.title,
+      questions,
+      video_title: sourceVideo?.source_video_title ?? undefined,
+      video_url: sourceVideo?.source_video_url ?? undefined,
+      group_id: data.group_id,
+      session_id: data.session_id,
+      is_public: data.is_public,
+      expires_hours: data.expires_hours,
+      metadata: {
+        difficulty: difficulties.length === 1 ? difficulties[0] : 'mixed',
+        fromQuestionBank: true,
+        bankQuestionIds: questionIds,
+        sourceLoopIds: [...new Set(ordered.map(entry => entry.source_loop_id).filter(Boolean))]
+      }
+    })
+
+    // Usage counters are informational; failing to bump them should not fail the set
+    const now = new Date().toISOString()
+    const results = await Promise.all(
+      ordered.map(entry =>
+        supabase
+          .from('question_bank')
+          .update({ times_used: entry.times_used + 1, last_used_at: now })
+          .eq('id', entry.id)
+      )
+    )
+    results
+      .filter(result => result.error)
+      .forEach(result => console.error('Error updating question bank usage:', result.error))
+
+    return questionSet
+  }
+
+  /**
+   * Remove a question from the current user's bank
+   */
+  async deleteQuestion(id: string): Promise<boolean> {
+    const { supabase, user } = await this.getContext()
+
+    const { data, error } = await supabase
+      .from('question_bank')
+      .delete()
+      .eq('id', id)
+      .eq('created_by', user.id)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to delete bank question: ${error.message}`)
+    }
+
+    return (data?.length || 0) > 0
+  }
+
+  private async getContext() {
+    const supabase = this.request ? getSupabaseServer(this.request) : null
+    if (!supabase) {
+      throw new Error('Database not configured')
+    }
+
+    const user = await getCurrentUserServer(supabase)
+    if (!user) {
+      throw new Error('Authentication required')
+    }
+
+    return { supabase, user }
+  }
+}
+
+export const createQuestionBankService = (request?: NextRequest) => {
+  return new QuestionBankService(request)
+}
@@ -42,28 +42,6 @@ class QuizResultsService {
 
     return response.json()
   }
-
-  async submitQuizResult(groupId: string, sessionId: string, result: {
-    score: number
-    total_questions: number
-    correct_answers: number
-    time_taken_seconds?: number
-    result_data?: any
-  }): Promise<any> {
-    const headers = await getAuthHeaders()
-    const response = await fetch(`/api/groups/${groupId}/sessions/${sessionId}/results`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(result)
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json()
-      throw new Error(errorData.error || `Failed to submit quiz result: ${response.status}`)
-    }
-
-    return response.json()
-  }
 }
 
 // Export singleton instance
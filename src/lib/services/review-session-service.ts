@@ -0,0 +1,301 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json, Tables } from '../supabase/types'
+import type { ReviewGrade } from './srs'
+import { vocabularyTransferService } from './vocabulary-transfer-service'
+import {
+  ALL_REVIEW_CARD_TYPES,
+  pickCardType,
+  type ReviewCardContent,
+  type ReviewCardType,
+  type ReviewSessionData
+} from '../utils/review-cards'
+
+export interface StartSessionInput {
+  cardTypes?: ReviewCardType[]
+  limit?: number
+}
+
+export interface RecordAnswerInput {
+  // Position of the answered card, so a retried request isn't counted twice
+  index: number
+  grade: ReviewGrade
+  responseTimeMs: number
+}
+
+export interface ReviewSession {
+  id: string
+  data: ReviewSessionData
+  // Deck cards in the session by id, with their source loop
+  content: Record<string, ReviewCardContent>
+  updatedAt: string
+}
+
+export interface ReviewSessionState {
+  session: ReviewSession | null
+  // Cards due now, for starting a new session
+  dueCount: number
+}
+
+// Same size as UserService.getVocabularyForReview
+export const DEFAULT_SESSION_SIZE = 20
+export const MAX_SESSION_SIZE = 100
+
+type SessionRow = Tables<'user_srs_sessions'>
+type DeckRow = Tables<'user_vocabulary_deck'>
+
+const sessionData = (row: SessionRow) => row.session_data as unknown as ReviewSessionData
+
+/**
+ * Review Session Service
+ * A review session is a fixed list of due cards, each with a card type, and
+ * the answers given so far. The state lives in user_srs_sessions so a review
+ * started on one device can be finished on another. Grading itself goes
+ * through the SRS scheduler on the client; this only tracks progress.
+ */
+export class ReviewSessionService {
+  /**
+   * The user's unfinished session, or null
+   */
+  async getActiveSession(supabase: SupabaseClient<Database>, userId: string): Promise<ReviewSession | null> {
+    const { data, error } = await supabase
+      .from('user_srs_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('session_data->>status', 'active')
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch review session: ${error.message}`)
+    }
+
+    return data ? this.hydrate(supabase, userId, data) : null
+  }
+
+  async countDue(supabase: SupabaseClient<Database>, userId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('user_vocabulary_deck')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .lte('next_review_date', new Date().toISOString())
+
+    if (error) {
+      throw new Error(`Failed to count due vocabulary: ${error.message}`)
+    }
+
+    return count || 0
+  }
+
+  /**
+   * Start a session over the cards due now, replacing any unfinished one.
+   * Returns null when nothing is due.
+   */
+  async startSession(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    input: StartSessionInput = {}
+  ): Promise<ReviewSession | null> {
+    const enabledTypes = input.cardTypes?.length ? input.cardTypes : ALL_REVIEW_CARD_TYPES
+
+    const { data: due, error } = await supabase
+      .from('user_vocabulary_deck')
+      .select('*')
+      .eq('user_id', userId)
+      .lte('next_review_date', new Date().toISOString())
+      .order('next_review_date', { ascending: true })
+      .limit(input.limit || DEFAULT_SESSION_SIZE)
+
+    if (error) {
+      throw new Error(`Failed to fetch due vocabulary: ${error.message}`)
+    }
+
+    if (!due || due.length === 0) return null
+
+    await this.abandonActiveSessions(supabase, userId)
+
+    const content = await this.withSources(supabase, due)
+
+    const data: ReviewSessionData = {
+      status: 'active',
+      cards: due.map(card => ({ vocabularyId: card.id, type: pickCardType(content[card.id], enabledTypes) })),
+      currentIndex: 0,
+      answers: [],
+      startedAt: new Date().toISOString(),
+      completedAt: null
+    }
+
+    const { data: row, error: insertError } = await supabase
+      .from('user_srs_sessions')
+      .insert({ user_id: userId, session_data: data as unknown as Json })
+      .select()
+      .single()
+
+    if (insertError) {
+      throw new Error(`Failed to start review session: ${insertError.message}`)
+    }
+
+    return { id: row.id, data, content, updatedAt: row.updated_at }
+  }
+
+  /**
+   * Store an answer and move to the next card; the last answer completes
+   * the session. Returns null when the session doesn't exist or isn't active.
+   */
+  async recordAnswer(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    sessionId: string,
+    input: RecordAnswerInput
+  ): Promise<ReviewSession | null> {
+    const row = await this.fetchSession(supabase, userId, sessionId)
+    if (!row || sessionData(row).status !== 'active') return null
+
+    const data = sessionData(row)
+    // Already stored, e.g. the same answer sent again from another tab
+    if (input.index !== data.currentIndex || input.index >= data.cards.length) {
+      return this.hydrate(supabase, userId, row)
+    }
+
+    const card = data.cards[input.index]
+    const currentIndex = input.index + 1
+    const completed = currentIndex >= data.cards.length
+    const next: ReviewSessionData = {
+      ...data,
+      currentIndex,
+      answers: [
+        ...data.answers,
+        {
+          vocabularyId: card.vocabularyId,
+          type: card.type,
+          grade: input.grade,
+          responseTimeMs: input.responseTimeMs,
+          answeredAt: new Date().toISOString()
+        }
+      ],
+      status: completed ? 'completed' : 'active',
+      completedAt: completed ? new Date().toISOString() : null
+    }
+
+    const updated = await this.saveSession(supabase, userId, sessionId, next)
+    return this.hydrate(supabase, userId, updated)
+  }
+
+  /**
+   * Stop a session early; answers already given keep their effect on the schedule
+   */
+  async abandonSession(supabase: SupabaseClient<Database>, userId: string, sessionId: string): Promise<boolean> {
+    const row = await this.fetchSession(supabase, userId, sessionId)
+    if (!row || sessionData(row).status !== 'active') return false
+
+    await this.saveSession(supabase, userId, sessionId, { ...sessionData(row), status: 'abandoned' })
+    return true
+  }
+
+  private async fetchSession(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    sessionId: string
+  ): Promise<SessionRow | null> {
+    const { data, error } = await supabase
+      .from('user_srs_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch review session: ${error.message}`)
+    }
+
+    return data
+  }
+
+  private async saveSession(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    sessionId: string,
+    data: ReviewSessionData
+  ): Promise<SessionRow> {
+    const { data: row, error } = await supabase
+      .from('user_srs_sessions')
+      .update({ session_data: data as unknown as Json, updated_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to save review session: ${error.message}`)
+    }
+
+    return row
+  }
+
+  private async abandonActiveSessions(supabase: SupabaseClient<Database>, userId: string) {
+    const { data, error } = await supabase
+      .from('user_srs_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('session_data->>status', 'active')
+
+    if (error) {
+      throw new Error(`Failed to fetch review sessions: ${error.message}`)
+    }
+
+    for (const row of data || []) {
+      await this.saveSession(supabase, userId, row.id, { ...sessionData(row), status: 'abandoned' })
+    }
+  }
+
+  private async withSources(
+    supabase: SupabaseClient<Database>,
+    cards: DeckRow[]
+  ): Promise<Record<string, ReviewCardContent>> {
+    const sources = await vocabularyTransferService.loadSources(
+      supabase,
+      [...new Set(cards.map(card => card.source_loop_id).filter((id): id is string => !!id))]
+    )
+
+    const content: Record<string, ReviewCardContent> = {}
+    for (const card of cards) {
+      content[card.id] = { ...card, source: card.source_loop_id ? sources.get(card.source_loop_id) || null : null }
+    }
+    return content
+  }
+
+  // Load the session's cards; cards deleted from the deck since are dropped from the unanswered part
+  private async hydrate(supabase: SupabaseClient<Database>, userId: string, row: SessionRow): Promise<ReviewSession> {
+    let data = sessionData(row)
+    let updatedAt = row.updated_at
+
+    const { data: cards, error } = await supabase
+      .from('user_vocabulary_deck')
+      .select('*')
+      .eq('user_id', userId)
+      .in('id', [...new Set(data.cards.map(card => card.vocabularyId))])
+
+    if (error) {
+      throw new Error(`Failed to fetch session vocabulary: ${error.message}`)
+    }
+
+    const content = await this.withSources(supabase, cards || [])
+
+    const remaining = data.cards.slice(data.currentIndex)
+    const kept = remaining.filter(card => content[card.vocabularyId])
+    if (data.status === 'active' && kept.length < remaining.length) {
+      const completed = kept.length === 0
+      data = {
+        ...data,
+        cards: [...data.cards.slice(0, data.currentIndex), ...kept],
+        status: completed ? 'completed' : 'active',
+        completedAt: completed ? new Date().toISOString() : null
+      }
+      updatedAt = (await this.saveSession(supabase, userId, row.id, data)).updated_at
+    }
+
+    return { id: row.id, data, content, updatedAt }
+  }
+}
+
+export const reviewSessionService = new ReviewSessionService()
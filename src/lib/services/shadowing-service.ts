@@ -0,0 +1,285 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseServiceRole } from '../supabase/service-role'
+import type { Database, Json, Tables } from '../supabase/types'
+import { compareShadowing, type ShadowingFeedback, type ShadowingSegment } from '../utils/shadowing'
+import type { Loop } from './loop-management-service'
+import type { SpeechToTextProvider } from './speech'
+
+export type AudioRecording = Tables<'audio_recordings'>
+export type ComparisonResult = Tables<'comparison_results'>
+
+export const SHADOWING_BUCKET = 'shadowing-recordings'
+export const MAX_RECORDING_BYTES = 10 * 1024 * 1024
+export const MAX_RECORDING_SECONDS = 120
+
+// Signed playback URLs outlive a practice sitting
+const PLAYBACK_URL_SECONDS = 60 * 60
+
+export interface ShadowingAttempt {
+  id: string
+  segmentIndex: number
+  transcription: string
+  durationSeconds: number
+  createdAt: string
+  audioUrl: string | null
+  // 0-100, null when the comparison is missing
+  similarity: number | null
+  feedback: ShadowingFeedback | null
+  suggestions: string[]
+}
+
+// GET /api/user/loops/[loopId]/shadowing
+export interface ShadowingPractice {
+  loop: Pick<Loop, 'id' | 'videoTitle' | 'videoUrl' | 'videoId' | 'startTime' | 'endTime' | 'language' | 'sourceType'>
+  segments: ShadowingSegment[]
+  attempts: ShadowingAttempt[]
+}
+
+export interface SubmitAttemptInput {
+  loopId: string
+  // The loop's loop_segments row
+  loopSegmentId: string | null
+  segment: ShadowingSegment
+  language?: string
+  audio: Blob
+  durationSeconds: number
+}
+
+function getServiceClient() {
+  const supabase = getSupabaseServiceRole()
+  if (!supabase) {
+    throw new Error('Database not configured')
+  }
+  return supabase
+}
+
+const fileExtension = (mimeType: string) => {
+  if (mimeType.includes('mp4') || mimeType.includes('m4a')) return 'm4a'
+  if (mimeType.includes('ogg')) return 'ogg'
+  if (mimeType.includes('wav')) return 'wav'
+  if (mimeType.includes('mpeg')) return 'mp3'
+  return 'webm'
+}
+
+/**
+ * Shadowing Service
+ * The learner repeats a loop one transcript segment at a time. Each take is
+ * stored privately, transcribed by the configured speech-to-text provider and
+ * compared word by word with the segment text. Recordings hang off the loop
+ * (audio_recordings.session_id); scores are kept in comparison_results.
+ */
+export class ShadowingService {
+  /**
+   * The user's takes on a loop, newest first
+   */
+  async listAttempts(supabase: SupabaseClient<Database>, userId: string, loopId: string): Promise<ShadowingAttempt[]> {
+    const { data: recordings, error } = await supabase
+      .from('audio_recordings')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('session_id', loopId)
+      .order('created_at', { ascending: false })
+      .limit(200)
+
+    if (error) {
+      throw new Error(`Failed to fetch recordings: ${error.message}`)
+    }
+
+    if (!recordings || recordings.length === 0) return []
+
+    const { data: comparisons, error: comparisonError } = await supabase
+      .from('comparison_results')
+      .select('*')
+      .in('recording_id', recordings.map(recording => recording.id))
+
+    if (comparisonError) {
+      throw new Error(`Failed to fetch comparisons: ${comparisonError.message}`)
+    }
+
+    const audioUrls = await this.playbackUrls(recordings.map(recording => recording.file_path))
+    const comparisonsByRecording = new Map((comparisons || []).map(comparison => [comparison.recording_id, comparison]))
+
+    return recordings.map(recording =>
+      this.toAttempt(recording, comparisonsByRecording.get(recording.id) || null, audioUrls.get(recording.file_path || ''))
+    )
+  }
+
+  /**
+   * Transcribe a take, score it against the segment and store both
+   */
+  async submitAttempt(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    input: SubmitAttemptInput,
+    provider: SpeechToTextProvider
+  ): Promise<ShadowingAttempt> {
+    let transcription: string
+    try {
+      const result = await provider.transcribe({
+        audio: input.audio,
+        language: input.language,
+        expectedText: input.segment.text
+      })
+      transcription = result.text
+    } catch (error) {
+      throw new Error(`Failed to transcribe recording: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+
+    const comparison = compareShadowing(input.segment.text, transcription)
+
+    const recordingId = crypto.randomUUID()
+    const mimeType = input.audio.type || 'audio/webm'
+    const filePath = `${userId}/${input.loopId}/${recordingId}.${fileExtension(mimeType)}`
+    const storage = getServiceClient().storage.from(SHADOWING_BUCKET)
+
+    const { error: uploadError } = await storage.upload(filePath, input.audio, {
+      contentType: mimeType,
+      upsert: false
+    })
+
+    if (uploadError) {
+      throw new Error(`Failed to store recording: ${uploadError.message}`)
+    }
+
+    const { data: recording, error: recordingError } = await supabase
+      .from('audio_recordings')
+      .insert({
+        id: recordingId,
+        user_id: userId,
+        session_id: input.loopId,
+        segment_id: input.loopSegmentId,
+        file_path: filePath,
+        file_size: input.audio.size,
+        audio_format: mimeType,
+        duration: input.durationSeconds,
+        transcription,
+        quality_score: comparison.similarity,
+        tags: ['shadowing'],
+        metadata: {
+          segmentIndex: input.segment.index,
+          expectedText: input.segment.text,
+          provider: provider.name
+        }
+      })
+      .select()
+      .single()
+
+    if (recordingError) {
+      await storage.remove([filePath])
+      throw new Error(`Failed to save recording: ${recordingError.message}`)
+    }
+
+    const feedback: ShadowingFeedback = {
+      expectedText: input.segment.text,
+      transcription,
+      words: comparison.words,
+      matchedWords: comparison.matchedWords,
+      expectedWords: comparison.expectedWords,
+      provider: provider.name
+    }
+
+    const { data: result, error: resultError } = await getServiceClient()
+      .from('comparison_results')
+      .insert({
+        recording_id: recordingId,
+        user_id: userId,
+        original_segment_start: input.segment.start,
+        original_segment_end: input.segment.end,
+        similarity_score: comparison.similarity,
+        pronunciation_feedback: feedback as unknown as Json,
+        improvement_suggestions: comparison.suggestions
+      })
+      .select()
+      .single()
+
+    if (resultError) {
+      throw new Error(`Failed to save comparison: ${resultError.message}`)
+    }
+
+    const audioUrls = await this.playbackUrls([filePath])
+    return this.toAttempt(recording, result, audioUrls.get(filePath))
+  }
+
+  /**
+   * Delete a take, its comparison and its audio. Returns false when the
+   * recording isn't the user's.
+   */
+  async deleteAttempt(supabase: SupabaseClient<Database>, userId: string, recordingId: string): Promise<boolean> {
+    const { data: recording, error } = await supabase
+      .from('audio_recordings')
+      .select('id, file_path')
+      .eq('id', recordingId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch recording: ${error.message}`)
+    }
+
+    if (!recording) return false
+
+    const { error: comparisonError } = await getServiceClient()
+      .from('comparison_results')
+      .delete()
+      .eq('recording_id', recordingId)
+
+    if (comparisonError) {
+      throw new Error(`Failed to delete comparison: ${comparisonError.message}`)
+    }
+
+    const { error: deleteError } = await supabase.from('audio_recordings').delete().eq('id', recordingId)
+
+    if (deleteError) {
+      throw new Error(`Failed to delete recording: ${deleteError.message}`)
+    }
+
+    if (recording.file_path) {
+      const { error: removeError } = await getServiceClient().storage.from(SHADOWING_BUCKET).remove([recording.file_path])
+      if (removeError) {
+        console.error('Failed to remove recording audio:', removeError)
+      }
+    }
+
+    return true
+  }
+
+  private async playbackUrls(paths: (string | null)[]): Promise<Map<string, string>> {
+    const filePaths = paths.filter((path): path is string => !!path)
+    if (filePaths.length === 0) return new Map()
+
+    const { data, error } = await getServiceClient()
+      .storage.from(SHADOWING_BUCKET)
+      .createSignedUrls(filePaths, PLAYBACK_URL_SECONDS)
+
+    if (error) {
+      console.error('Failed to sign recording URLs:', error)
+      return new Map()
+    }
+
+    return new Map(
+      (data || []).flatMap(item => (item.path && item.signedUrl ? [[item.path, item.signedUrl] as [string, string]] : []))
+    )
+  }
+
+  private toAttempt(
+    recording: AudioRecording,
+    comparison: ComparisonResult | null,
+    audioUrl: string | undefined
+  ): ShadowingAttempt {
+    const metadata = (recording.metadata || {}) as { segmentIndex?: number }
+
+    return {
+      id: recording.id,
+      segmentIndex: metadata.segmentIndex ?? 0,
+      transcription: recording.transcription || '',
+      durationSeconds: recording.duration,
+      createdAt: recording.created_at,
+      audioUrl: audioUrl || null,
+      similarity: comparison?.similarity_score ?? null,
+      feedback: (comparison?.pronunciation_feedback as unknown as ShadowingFeedback | null) ?? null,
+      suggestions: comparison?.improvement_suggestions || []
+    }
+  }
+}
+
+export const shadowingService = new ShadowingService()
@@ -2,6 +2,7 @@
 // Replaces in-memory storage with persistent database storage
 
 import { getSupabaseServer, getCurrentUserServer } from '../supabase/server'
+import { getSupabaseServiceRole } from '../supabase/service-role'
 import { NextRequest } from 'next/server'
 
 export interface SharedQuestionSet {
@@ -20,6 +21,7 @@ export interface SharedQuestionSet {
   created_by?: string
   group_id?: string
   session_id?: string
+  experiment_variant_id?: string
   expires_at: string
   created_at: string
   updated_at: string
@@ -42,6 +44,8 @@ export class SharedQuestionsService {
     session_id?: string
     expires_hours?: number
     metadata?: any
+    // Prompt experiment variant that generated the questions
+    experiment_variant_id?: string
   }): Promise<SharedQuestionSet> {
     const supabase = this.request ? getSupabaseServer(this.request) : null
     if (!supabase) {
@@ -89,6 +93,7 @@ export class SharedQuestionsService {
       created_by: user?.id,
       group_id: data.group_id,
       session_id: data.session_id,
+      experiment_variant_id: data.experiment_variant_id,
       expires_at: expiresAt.toISOString()
     }
 
@@ -169,7 +174,8 @@ export class SharedQuestionsService {
   }
 
   async deleteExpiredQuestionSets(): Promise<number> {
-    const supabase = this.request ? getSupabaseServer(this.request) : null
+    // Background jobs run without a request and use the service role
+    const supabase = this.request ? getSupabaseServer(this.request) : getSupabaseServiceRole()
     if (!supabase) {
       throw new Error('Database not configured')
     }
@@ -0,0 +1,85 @@
+import type { SpeechToTextProvider, TranscriptionRequest, TranscriptionResult } from './types'
+
+/**
+ * OpenAI's transcription endpoint, or any server that implements the same API
+ * (e.g. a self-hosted Whisper server) through baseUrl
+ */
+export class OpenAITranscriptionProvider implements SpeechToTextProvider {
+  readonly name = 'openai'
+
+  constructor(private config: {
+    apiKey: string
+    model: string
+    baseUrl: string
+  }) {}
+
+  async transcribe({ audio, language }: TranscriptionRequest): Promise<TranscriptionResult> {
+    const form = new FormData()
+    form.append('file', audio, `recording.${audio.type.includes('mp4') ? 'mp4' : 'webm'}`)
+    form.append('model', this.config.model)
+    if (language) form.append('language', language.split('-')[0])
+
+    const response = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}/audio/transcriptions`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.config.apiKey}` },
+      body: form
+    })
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '')
+      throw new Error(`Transcription failed (${response.status}): ${detail.slice(0, 200)}`)
+    }
+
+    const data = (await response.json()) as { text?: string }
+    return { text: (data.text || '').trim(), confidence: null }
+  }
+}
+
+/**
+ * Repeats the expected text instead of listening to the audio. Used for local
+ * development so shadowing works end to end without a speech service.
+ */
+export class StubSpeechProvider implements SpeechToTextProvider {
+  readonly name = 'stub'
+
+  async transcribe({ expectedText }: TranscriptionRequest): Promise<TranscriptionResult> {
+    return { text: expectedText, confidence: null }
+  }
+}
+
+/**
+ * Pick the provider from the environment:
+ * - SPEECH_PROVIDER=openai uses SPEECH_API_KEY (or AI_API_KEY_OPENAI), SPEECH_MODEL
+ *   (default: whisper-1) and SPEECH_BASE_URL for OpenAI-compatible servers
+ * - SPEECH_PROVIDER=stub echoes the expected text
+ * Without configuration, development uses the stub and production has no speech-to-text.
+ */
+export function createSpeechProvider(env: NodeJS.ProcessEnv = process.env): SpeechToTextProvider | null {
+  const provider = env.SPEECH_PROVIDER
+
+  switch (provider) {
+    case 'openai': {
+      const apiKey = env.SPEECH_API_KEY || env.AI_API_KEY_OPENAI
+      if (!apiKey) {
+        console.warn('SPEECH_PROVIDER=openai but SPEECH_API_KEY is not set; speech-to-text disabled')
+        return null
+      }
+      return new OpenAITranscriptionProvider({
+        apiKey,
+        model: env.SPEECH_MODEL || 'whisper-1',
+        baseUrl: env.SPEECH_BASE_URL || 'https://api.openai.com/v1'
+      })
+    }
+
+    case 'stub':
+      return new StubSpeechProvider()
+
+    case undefined:
+    case '':
+      return env.NODE_ENV === 'production' ? null : new StubSpeechProvider()
+
+    default:
+      console.warn(`Unknown speech provider "${provider}"; speech-to-text disabled`)
+      return null
+  }
+}
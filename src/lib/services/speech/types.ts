@@ -0,0 +1,18 @@
+export interface TranscriptionRequest {
+  audio: Blob
+  // e.g. 'en'; providers detect the language when omitted
+  language?: string
+  // The text the learner was asked to repeat
+  expectedText: string
+}
+
+export interface TranscriptionResult {
+  text: string
+  // 0-1 when the provider reports it
+  confidence?: number | null
+}
+
+export interface SpeechToTextProvider {
+  readonly name: string
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>
+}
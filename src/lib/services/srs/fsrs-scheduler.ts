@@ -0,0 +1,169 @@
+import { addDays, applyLearningStep, daysBetween } from './learning-steps'
+import type {
+  ReviewGrade,
+  ReviewScheduler,
+  SchedulerOptions,
+  SchedulingCard
+} from './types'
+
+// Default FSRS-4.5 parameters
+export const DEFAULT_FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072,
+  0.0793, 0.3246, 1.587, 0.2272, 2.8755
+]
+
+const DECAY = -0.5
+const FACTOR = 19 / 81
+
+const GRADE_VALUES: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4
+}
+
+const clampDifficulty = (difficulty: number) => Math.min(10, Math.max(1, difficulty))
+
+/**
+ * FSRS (Free Spaced Repetition Scheduler) implementation.
+ * Tracks stability/difficulty per card and schedules the next review
+ * when predicted recall drops to the user's desired retention.
+ */
+export class FSRSScheduler implements ReviewScheduler {
+  readonly algorithm = 'fsrs' as const
+
+  constructor(
+    private options: SchedulerOptions,
+    private weights: number[] = DEFAULT_FSRS_WEIGHTS
+  ) {}
+
+  review(card: SchedulingCard, grade: ReviewGrade, now: Date): SchedulingCard {
+    const memory = this.nextMemoryState(card, grade, now)
+    const updated: SchedulingCard = { ...card, ...memory }
+
+    if (card.status === 'review' && grade !== 'again') {
+      return this.schedule(
+        { ...updated, repetitions: card.repetitions + 1 },
+        now
+      )
+    }
+
+    const lapsed = card.status === 'review' && grade === 'again'
+    const inRelearning = lapsed || card.status === 'relearning'
+    const steps = inRelearning
+      ? this.options.relearningStepsMinutes
+      : this.options.learningStepsMinutes
+    const stepCard: SchedulingCard = {
+      ...updated,
+      status: inRelearning ? 'relearning' : 'learning',
+      learningStep: lapsed ? 0 : card.learningStep,
+      lapses: lapsed ? card.lapses + 1 : card.lapses,
+      repetitions: lapsed ? 0 : card.repetitions
+    }
+
+    const outcome = applyLearningStep(stepCard, grade, steps, now)
+    if (outcome.kind === 'step') {
+      return outcome.card
+    }
+
+    return this.schedule(
+      {
+        ...stepCard,
+        status: 'review',
+        learningStep: 0,
+        repetitions: inRelearning ? stepCard.repetitions : 1
+      },
+      now
+    )
+  }
+
+  // Probability of recalling a card after elapsedDays with the given stability
+  retrievability(elapsedDays: number, stability: number): number {
+    return Math.pow(1 + (FACTOR * elapsedDays) / stability, DECAY)
+  }
+
+  nextIntervalDays(stability: number): number {
+    const interval =
+      (stability / FACTOR) * (Math.pow(this.options.desiredRetention, 1 / DECAY) - 1)
+    return Math.min(this.options.maximumIntervalDays, Math.max(1, Math.round(interval)))
+  }
+
+  private nextMemoryState(
+    card: SchedulingCard,
+    grade: ReviewGrade,
+    now: Date
+  ): Pick<SchedulingCard, 'stability' | 'difficulty'> {
+    const g = GRADE_VALUES[grade]
+
+    if (card.stability === null || card.difficulty === null || card.status === 'new') {
+      return {
+        stability: this.initialStability(g),
+        difficulty: this.initialDifficulty(g)
+      }
+    }
+
+    // Same-day step reviews do not change the long-term memory state
+    if (card.status !== 'review') {
+      return { stability: card.stability, difficulty: card.difficulty }
+    }
+
+    const elapsedDays = card.lastReviewedAt ? daysBetween(card.lastReviewedAt, now) : 0
+    const retrievability = this.retrievability(elapsedDays, card.stability)
+    const difficulty = this.nextDifficulty(card.difficulty, g)
+    const stability =
+      g === 1
+        ? this.forgetStability(card.difficulty, card.stability, retrievability)
+        : this.recallStability(card.difficulty, card.stability, retrievability, g)
+
+    return { stability, difficulty }
+  }
+
+  private initialStability(g: number): number {
+    return Math.max(this.weights[g - 1], 0.1)
+  }
+
+  private initialDifficulty(g: number): number {
+    return clampDifficulty(this.weights[4] - (g - 3) * this.weights[5])
+  }
+
+  private nextDifficulty(difficulty: number, g: number): number {
+    const next = difficulty - this.weights[6] * (g - 3)
+    // Mean reversion towards the initial difficulty of an "easy" answer
+    const reverted = this.weights[7] * this.initialDifficulty(4) + (1 - this.weights[7]) * next
+    return clampDifficulty(reverted)
+  }
+
+  private recallStability(d: number, s: number, r: number, g: number): number {
+    const w = this.weights
+    const hardPenalty = g === 2 ? w[15] : 1
+    const easyBonus = g === 4 ? w[16] : 1
+    return (
+      s *
+      (1 +
+        Math.exp(w[8]) *
+          (11 - d) *
+          Math.pow(s, -w[9]) *
+          (Math.exp((1 - r) * w[10]) - 1) *
+          hardPenalty *
+          easyBonus)
+    )
+  }
+
+  private forgetStability(d: number, s: number, r: number): number {
+    const w = this.weights
+    const next =
+      w[11] * Math.pow(d, -w[12]) * (Math.pow(s + 1, w[13]) - 1) * Math.exp((1 - r) * w[14])
+    return Math.min(next, s)
+  }
+
+  private schedule(card: SchedulingCard, now: Date): SchedulingCard {
+    const days = this.nextIntervalDays(card.stability ?? this.initialStability(3))
+
+    return {
+      ...card,
+      intervalDays: days,
+      lastReviewedAt: now,
+      dueAt: addDays(now, days)
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import type { Database } from '../../supabase/types'
+import { FSRSScheduler } from './fsrs-scheduler'
+import { SM2Scheduler } from './sm2-scheduler'
+import type {
+  LearningStatus,
+  ReviewGrade,
+  ReviewLogEntry,
+  ReviewScheduler,
+  SchedulerAlgorithm,
+  SchedulerOptions,
+  SchedulingCard
+} from './types'
+
+type UserVocabularyDeck = Database['public']['Tables']['user_vocabulary_deck']['Row']
+type UserVocabularyDeckUpdate = Database['public']['Tables']['user_vocabulary_deck']['Update']
+
+export const DEFAULT_DESIRED_RETENTION = 0.9
+export const MIN_DESIRED_RETENTION = 0.7
+export const MAX_DESIRED_RETENTION = 0.99
+
+// Cards in review with an interval of at least this many days count as mastered
+export const MASTERED_INTERVAL_DAYS = 21
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  desiredRetention: DEFAULT_DESIRED_RETENTION,
+  learningStepsMinutes: [1, 10],
+  relearningStepsMinutes: [10],
+  maximumIntervalDays: 36500
+}
+
+/**
+ * Create a review scheduler for the given algorithm
+ */
+export function createScheduler(
+  algorithm: SchedulerAlgorithm,
+  options: Partial<SchedulerOptions> = {}
+): ReviewScheduler {
+  const merged: SchedulerOptions = {
+    ...DEFAULT_SCHEDULER_OPTIONS,
+    ...options,
+    desiredRetention: clampRetention(options.desiredRetention ?? DEFAULT_DESIRED_RETENTION)
+  }
+
+  switch (algorithm) {
+    case 'sm2':
+      return new SM2Scheduler(merged)
+    case 'fsrs':
+      return new FSRSScheduler(merged)
+    default:
+      throw new Error(`Unsupported SRS algorithm: ${algorithm}`)
+  }
+}
+
+export function clampRetention(value: number): number {
+  if (!Number.isFinite(value)) return DEFAULT_DESIRED_RETENTION
+  return Math.min(MAX_DESIRED_RETENTION, Math.max(MIN_DESIRED_RETENTION, value))
+}
+
+export function isSchedulerAlgorithm(value: unknown): value is SchedulerAlgorithm {
+  return value === 'sm2' || value === 'fsrs'
+}
+
+export function isReviewGrade(value: unknown): value is ReviewGrade {
+  return value === 'again' || value === 'hard' || value === 'good' || value === 'easy'
+}
+
+// Legacy reviews only stored is_correct
+export function gradeFromCorrectness(isCorrect: boolean): ReviewGrade {
+  return isCorrect ? 'good' : 'again'
+}
+
+export function isMastered(card: Pick<UserVocabularyDeck, 'learning_status' | 'interval_days'>) {
+  return card.learning_status === 'review' && (card.interval_days || 0) >= MASTERED_INTERVAL_DAYS
+}
+
+export function newSchedulingCard(now: Date = new Date()): SchedulingCard {
+  return {
+    status: 'new',
+    easeFactor: 2.5,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    learningStep: 0,
+    stability: null,
+    difficulty: null,
+    lastReviewedAt: null,
+    dueAt: now
+  }
+}
+
+const LEARNING_STATUSES: LearningStatus[] = ['new', 'learning', 'review', 'relearning']
+
+/**
+ * Map a user_vocabulary_deck row onto the scheduler's card shape
+ */
+export function cardFromDeckRow(row: UserVocabularyDeck): SchedulingCard {
+  const status = LEARNING_STATUSES.includes(row.learning_status as LearningStatus)
+    ? (row.learning_status as LearningStatus)
+    : 'new'
+
+  return {
+    status,
+    easeFactor: row.ease_factor || 2.5,
+    intervalDays: row.interval_days || 0,
+    repetitions: row.repetitions || 0,
+    lapses: row.lapses || 0,
+    learningStep: row.learning_step || 0,
+    stability: row.stability,
+    difficulty: row.fsrs_difficulty,
+    lastReviewedAt: row.last_practiced_at ? new Date(row.last_practiced_at) : null,
+    dueAt: row.next_review_date ? new Date(row.next_review_date) : new Date()
+  }
+}
+
+/**
+ * Scheduling columns to write back to user_vocabulary_deck
+ */
+export function deckUpdateFromCard(card: SchedulingCard): UserVocabularyDeckUpdate {
+  return {
+    learning_status: card.status,
+    ease_factor: card.easeFactor,
+    interval_days: card.intervalDays,
+    repetitions: card.repetitions,
+    lapses: card.lapses,
+    learning_step: card.learningStep,
+    stability: card.stability,
+    fsrs_difficulty: card.difficulty,
+    last_practiced_at: card.lastReviewedAt?.toISOString() ?? null,
+    next_review_date: card.dueAt.toISOString()
+  }
+}
+
+/**
+ * Rebuild a card's scheduling state by replaying its review history in order.
+ * Used when a user switches algorithms or changes their desired retention.
+ */
+export function replayReviews(
+  scheduler: ReviewScheduler,
+  reviews: ReviewLogEntry[],
+  createdAt: Date = new Date()
+): SchedulingCard {
+  const ordered = [...reviews].sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime())
+
+  return ordered.reduce(
+    (card, review) => scheduler.review(card, review.grade, review.reviewedAt),
+    newSchedulingCard(createdAt)
+  )
+}
+
+export { SM2Scheduler } from './sm2-scheduler'
+export { FSRSScheduler, DEFAULT_FSRS_WEIGHTS } from './fsrs-scheduler'
+export * from './types'
@@ -0,0 +1,66 @@
+import type { ReviewGrade, SchedulingCard } from './types'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+export function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * MINUTE_MS)
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+export function daysBetween(from: Date, to: Date): number {
+  return Math.max(0, (to.getTime() - from.getTime()) / DAY_MS)
+}
+
+export type StepOutcome =
+  | { kind: 'step'; card: SchedulingCard }
+  | { kind: 'graduate'; easy: boolean }
+
+/**
+ * Shared learning/relearning step handling (Anki style).
+ * again -> back to the first step, hard -> repeat the current step,
+ * good -> next step or graduate, easy -> graduate immediately.
+ */
+export function applyLearningStep(
+  card: SchedulingCard,
+  grade: ReviewGrade,
+  steps: number[],
+  now: Date
+): StepOutcome {
+  if (grade === 'easy' || steps.length === 0) {
+    return { kind: 'graduate', easy: grade === 'easy' }
+  }
+
+  const currentStep = Math.min(card.learningStep, steps.length - 1)
+  let nextStep = currentStep
+  let delayMinutes = steps[currentStep]
+
+  if (grade === 'again') {
+    nextStep = 0
+    delayMinutes = steps[0]
+  } else if (grade === 'hard') {
+    // Halfway between this step and the next one, like Anki's hard button
+    const following = steps[currentStep + 1] ?? steps[currentStep] * 1.5
+    delayMinutes = (steps[currentStep] + following) / 2
+  } else {
+    nextStep = currentStep + 1
+    if (nextStep >= steps.length) {
+      return { kind: 'graduate', easy: false }
+    }
+    delayMinutes = steps[nextStep]
+  }
+
+  return {
+    kind: 'step',
+    card: {
+      ...card,
+      learningStep: nextStep,
+      intervalDays: 0,
+      lastReviewedAt: now,
+      dueAt: addMinutes(now, delayMinutes)
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { addDays, applyLearningStep } from './learning-steps'
+import type {
+  ReviewGrade,
+  ReviewScheduler,
+  SchedulerOptions,
+  SchedulingCard
+} from './types'
+
+const MIN_EASE = 1.3
+const GRADUATING_INTERVAL_DAYS = 1
+const EASY_INTERVAL_DAYS = 4
+const HARD_MULTIPLIER = 1.2
+const EASY_BONUS = 1.3
+
+/**
+ * SM-2 scheduler with Anki-style learning steps and four answer grades.
+ * Desired retention is applied as an interval modifier relative to the
+ * 90% retention SM-2 is tuned for.
+ */
+export class SM2Scheduler implements ReviewScheduler {
+  readonly algorithm = 'sm2' as const
+  private intervalModifier: number
+
+  constructor(private options: SchedulerOptions) {
+    this.intervalModifier = Math.log(options.desiredRetention) / Math.log(0.9)
+  }
+
+  review(card: SchedulingCard, grade: ReviewGrade, now: Date): SchedulingCard {
+    if (card.status === 'review') {
+      return this.reviewGraduated(card, grade, now)
+    }
+
+    const isRelearning = card.status === 'relearning'
+    const steps = isRelearning
+      ? this.options.relearningStepsMinutes
+      : this.options.learningStepsMinutes
+    const outcome = applyLearningStep(
+      { ...card, status: isRelearning ? 'relearning' : 'learning' },
+      grade,
+      steps,
+      now
+    )
+
+    if (outcome.kind === 'step') {
+      return outcome.card
+    }
+
+    // Relearning cards keep the interval computed at the lapse
+    const baseInterval = isRelearning
+      ? card.intervalDays || GRADUATING_INTERVAL_DAYS
+      : outcome.easy
+        ? EASY_INTERVAL_DAYS
+        : GRADUATING_INTERVAL_DAYS
+
+    return this.schedule(
+      {
+        ...card,
+        status: 'review',
+        learningStep: 0,
+        repetitions: isRelearning ? card.repetitions : 1
+      },
+      baseInterval,
+      now
+    )
+  }
+
+  private reviewGraduated(card: SchedulingCard, grade: ReviewGrade, now: Date): SchedulingCard {
+    const ease = card.easeFactor || 2.5
+    const interval = Math.max(card.intervalDays, 1)
+
+    if (grade === 'again') {
+      const lapsed: SchedulingCard = {
+        ...card,
+        status: 'relearning',
+        easeFactor: Math.max(MIN_EASE, ease - 0.2),
+        intervalDays: GRADUATING_INTERVAL_DAYS,
+        repetitions: 0,
+        lapses: card.lapses + 1,
+        learningStep: 0
+      }
+      const outcome = applyLearningStep(lapsed, grade, this.options.relearningStepsMinutes, now)
+      return outcome.kind === 'step'
+        ? outcome.card
+        : this.schedule({ ...lapsed, status: 'review' }, GRADUATING_INTERVAL_DAYS, now)
+    }
+
+    let newEase = ease
+    let newInterval: number
+
+    if (grade === 'hard') {
+      newEase = Math.max(MIN_EASE, ease - 0.15)
+      newInterval = interval * HARD_MULTIPLIER
+    } else if (grade === 'good') {
+      newInterval = interval * ease
+    } else {
+      newEase = ease + 0.15
+      newInterval = interval * ease * EASY_BONUS
+    }
+
+    return this.schedule(
+      {
+        ...card,
+        easeFactor: newEase,
+        repetitions: card.repetitions + 1
+      },
+      Math.max(newInterval * this.intervalModifier, interval + (grade === 'hard' ? 0 : 1)),
+      now
+    )
+  }
+
+  private schedule(card: SchedulingCard, intervalDays: number, now: Date): SchedulingCard {
+    const days = Math.min(
+      this.options.maximumIntervalDays,
+      Math.max(1, Math.round(intervalDays))
+    )
+
+    return {
+      ...card,
+      intervalDays: days,
+      lastReviewedAt: now,
+      dueAt: addDays(now, days)
+    }
+  }
+}
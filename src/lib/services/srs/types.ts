@@ -0,0 +1,44 @@
+// Answer grades shown on the review buttons
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+
+export type SchedulerAlgorithm = 'sm2' | 'fsrs'
+
+// Values stored in user_vocabulary_deck.learning_status
+export type LearningStatus = 'new' | 'learning' | 'review' | 'relearning'
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy']
+
+// Scheduling state of a single card, independent of the storage layout
+export interface SchedulingCard {
+  status: LearningStatus
+  easeFactor: number
+  intervalDays: number
+  repetitions: number
+  lapses: number
+  // Index into the learning or relearning steps while the card is in one of those states
+  learningStep: number
+  // FSRS memory state, null until the card has been scheduled by FSRS
+  stability: number | null
+  difficulty: number | null
+  lastReviewedAt: Date | null
+  dueAt: Date
+}
+
+export interface SchedulerOptions {
+  // Probability of recall the scheduler aims for when a card comes due (0.7 - 0.99)
+  desiredRetention: number
+  learningStepsMinutes: number[]
+  relearningStepsMinutes: number[]
+  maximumIntervalDays: number
+}
+
+export interface ReviewScheduler {
+  readonly algorithm: SchedulerAlgorithm
+  review(card: SchedulingCard, grade: ReviewGrade, now: Date): SchedulingCard
+}
+
+// Minimal review log entry needed to rebuild a card's state
+export interface ReviewLogEntry {
+  grade: ReviewGrade
+  reviewedAt: Date
+}
@@ -0,0 +1,172 @@
+import { getSupabaseServiceRole } from '../supabase/service-role'
+import type { Json, Tables } from '../supabase/types'
+
+export interface CachedTranscriptSegment {
+  text: string
+  start: number
+  duration: number
+}
+
+export interface CachedTranscriptVideoInfo {
+  title?: string
+  thumbnail?: string
+  channel?: string
+}
+
+export interface CachedTranscript {
+  videoId: string
+  language: string
+  resolvedLanguage: string | null
+  segments: CachedTranscriptSegment[]
+  videoInfo: CachedTranscriptVideoInfo | null
+  fetchedAt: string
+  expiresAt: string
+}
+
+export interface TranscriptCacheLookup {
+  entry: CachedTranscript
+  stale: boolean
+}
+
+// Caption tracks rarely change once published
+const DEFAULT_TTL_HOURS = 24 * 7
+
+export const AUTO_LANGUAGE = 'auto'
+
+/**
+ * Transcript Cache Service
+ * Stores full caption tracks keyed by video id + language so segment requests
+ * can be served without calling YouTube. Entries past their TTL are reported as
+ * stale; callers refetch them and may fall back to the stale copy on failure.
+ */
+export class TranscriptCacheService {
+  private ttlMs: number
+
+  constructor(ttlHours: number = Number(process.env.TRANSCRIPT_CACHE_TTL_HOURS) || DEFAULT_TTL_HOURS) {
+    this.ttlMs = ttlHours * 60 * 60 * 1000
+  }
+
+  /**
+   * Look up a cached track. Returns null on a miss or when the cache is unavailable.
+   */
+  async get(videoId: string, language?: string): Promise<TranscriptCacheLookup | null> {
+    const supabase = getSupabaseServiceRole()
+    if (!supabase) return null
+
+    try {
+      const { data, error } = await supabase
+        .from('transcript_cache')
+        .select('*')
+        .eq('video_id', videoId)
+        .eq('language', this.languageKey(language))
+        .maybeSingle()
+
+      if (error) throw error
+      if (!data) return null
+
+      // Hit bookkeeping is best effort and should not delay the response
+      void supabase
+        .from('transcript_cache')
+        .update({
+          hit_count: (data.hit_count || 0) + 1,
+          last_accessed_at: new Date().toISOString()
+        })
+        .eq('id', data.id)
+        .then(({ error: touchError }) => {
+          if (touchError) console.error('Error updating transcript cache hit:', touchError)
+        })
+
+      return {
+        entry: this.toCachedTranscript(data),
+        stale: new Date(data.expires_at).getTime() <= Date.now()
+      }
+    } catch (error) {
+      console.error('Error reading transcript cache:', error)
+      return null
+    }
+  }
+
+  /**
+   * Store or refresh a full caption track
+   */
+  async set(
+    videoId: string,
+    language: string | undefined,
+    data: {
+      segments: CachedTranscriptSegment[]
+      resolvedLanguage?: string | null
+      videoInfo?: CachedTranscriptVideoInfo | null
+    }
+  ): Promise<CachedTranscript | null> {
+    const supabase = getSupabaseServiceRole()
+    if (!supabase) return null
+
+    const now = new Date()
+
+    try {
+      const { data: row, error } = await supabase
+        .from('transcript_cache')
+        .upsert(
+          {
+            video_id: videoId,
+            language: this.languageKey(language),
+            resolved_language: data.resolvedLanguage ?? null,
+            segments: data.segments as unknown as Json,
+            segment_count: data.segments.length,
+            video_info: (data.videoInfo ?? null) as Json,
+            fetched_at: now.toISOString(),
+            expires_at: new Date(now.getTime() + this.ttlMs).toISOString()
+          },
+          { onConflict: 'video_id,language' }
+        )
+        .select()
+        .single()
+
+      if (error) throw error
+      return this.toCachedTranscript(row)
+    } catch (error) {
+      console.error('Error writing transcript cache:', error)
+      return null
+    }
+  }
+
+  /**
+   * Drop cached tracks for a video, or a single language of it
+   */
+  async invalidate(videoId: string, language?: string): Promise<boolean> {
+    const supabase = getSupabaseServiceRole()
+    if (!supabase) return false
+
+    try {
+      let query = supabase.from('transcript_cache').delete().eq('video_id', videoId)
+      if (language) {
+        query = query.eq('language', this.languageKey(language))
+      }
+
+      const { error } = await query
+      if (error) throw error
+      return true
+    } catch (error) {
+      console.error('Error invalidating transcript cache:', error)
+      return false
+    }
+  }
+
+  private languageKey(language?: string): string {
+    return language?.trim() || AUTO_LANGUAGE
+  }
+
+  private toCachedTranscript(row: Tables<'transcript_cache'>): CachedTranscript {
+    return {
+      videoId: row.video_id,
+      language: row.language,
+      resolvedLanguage: row.resolved_language,
+      segments: (row.segments as unknown as CachedTranscriptSegment[]) || [],
+      videoInfo: row.video_info as CachedTranscriptVideoInfo | null,
+      fetchedAt: row.fetched_at,
+      expiresAt: row.expires_at
+    }
+  }
+}
+
+export const transcriptCacheService = new TranscriptCacheService()
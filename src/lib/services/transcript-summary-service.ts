@@ -0,0 +1,231 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { PermissionManager } from '../permissions'
+import { getSupabaseServiceRole } from '../supabase/service-role'
+import type { Database, Json, Tables } from '../supabase/types'
+import type { AIService } from './ai-service'
+import type { Loop } from './loop-management-service'
+
+export type TranscriptSummaryRow = Tables<'transcript_summaries'>
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const
+export type CefrLevel = (typeof CEFR_LEVELS)[number]
+
+export const MAX_SUMMARY_ITEMS = 8
+export const MAX_SUMMARY_ITEM_LENGTH = 300
+
+export interface TranscriptSummary {
+  loopId: string
+  mainPoints: string[]
+  keyInsights: string[]
+  difficultyAssessment: string
+  level: CefrLevel | null
+  recommendedFocusAreas: string[]
+  // 'edited' once a loop owner or group admin has changed it
+  source: 'ai' | 'edited'
+  updatedAt: string | null
+}
+
+export type TranscriptSummaryInput = Omit<TranscriptSummary, 'loopId' | 'source' | 'updatedAt'>
+
+// GET, POST and PUT /api/user/loops/[loopId]/summary
+export interface LoopSummaryResponse {
+  summary: TranscriptSummary | null
+  canEdit: boolean
+}
+
+// Stored in transcript_summaries.metadata
+interface SummaryMetadata {
+  level?: CefrLevel | null
+  source?: 'ai' | 'edited'
+  generatedAt?: string
+  editedBy?: string
+  editedAt?: string
+}
+
+const summaryItems = z
+  .array(z.string())
+  .catch([])
+  .transform(items =>
+    items
+      .map(item => item.trim())
+      .filter(Boolean)
+      .slice(0, MAX_SUMMARY_ITEMS)
+      .map(item => item.slice(0, MAX_SUMMARY_ITEM_LENGTH))
+  )
+
+// What the transcriptSummary prompt asks the model for
+const generatedSummarySchema = z.object({
+  mainPoints: summaryItems,
+  keyInsights: summaryItems,
+  difficultyAssessment: z.string().catch('').transform(text => text.trim()),
+  level: z
+    .string()
+    .transform(level => level.trim().toUpperCase())
+    .pipe(z.enum(CEFR_LEVELS))
+    .nullable()
+    .catch(null),
+  recommendedFocusAreas: summaryItems
+})
+
+function getServiceClient() {
+  const supabase = getSupabaseServiceRole()
+  if (!supabase) {
+    throw new Error('Database not configured')
+  }
+  return supabase
+}
+
+const stringList = (value: Json | null): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+
+/**
+ * Transcript Summary Service
+ * A pre-listening overview of a loop: main points, key insights, a difficulty
+ * assessment and what to focus on. Generated once with the AI service and
+ * cached in transcript_summaries (one row per loop); the loop owner or the
+ * group's admins can edit it before running a session.
+ */
+export class TranscriptSummaryService {
+  async getSummary(supabase: SupabaseClient<Database>, loopId: string): Promise<TranscriptSummary | null> {
+    const { data, error } = await supabase
+      .from('transcript_summaries')
+      .select('*')
+      .eq('loop_id', loopId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch transcript summary: ${error.message}`)
+    }
+
+    return data ? this.toSummary(data) : null
+  }
+
+  /**
+   * Summarize the loop's transcript and cache it, replacing any earlier summary
+   */
+  async generateSummary(loop: Loop, userId: string, aiService: AIService): Promise<TranscriptSummary> {
+    if (!loop.transcript?.trim() && loop.segments.length === 0) {
+      throw new Error('Loop has no transcript to summarize')
+    }
+
+    // Loaded on demand so client components can import this module's types and constants
+    const { prompts, PromptManager } = await import('./ai-prompts')
+    const template = prompts.transcriptSummary
+    const messages = PromptManager.buildMessages(template, {
+      loop: { id: loop.id, videoTitle: loop.videoTitle, startTime: loop.startTime, endTime: loop.endTime },
+      transcript: loop.transcript,
+      segments: loop.segments
+    })
+
+    let generated: z.infer<typeof generatedSummarySchema>
+    try {
+      const response = await aiService.chat(messages, {
+        ...PromptManager.getConfig(template),
+        responseFormat: 'json'
+      })
+      generated = generatedSummarySchema.parse(PromptManager.parseJSONResponse(response.content))
+    } catch (error) {
+      throw new Error(`Failed to generate transcript summary: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+
+    if (generated.mainPoints.length === 0) {
+      throw new Error('Failed to generate transcript summary: AI response had no main points')
+    }
+
+    return this.saveSummary(loop.id, userId, generated, {
+      level: generated.level,
+      source: 'ai',
+      generatedAt: new Date().toISOString()
+    })
+  }
+
+  /**
+   * Replace the summary's content with an edited version
+   */
+  async updateSummary(loopId: string, userId: string, input: TranscriptSummaryInput): Promise<TranscriptSummary> {
+    const { data: existing } = await getServiceClient()
+      .from('transcript_summaries')
+      .select('metadata')
+      .eq('loop_id', loopId)
+      .maybeSingle()
+
+    const metadata = (existing?.metadata || {}) as SummaryMetadata
+
+    return this.saveSummary(loopId, userId, input, {
+      ...metadata,
+      level: input.level,
+      source: 'edited',
+      editedBy: userId,
+      editedAt: new Date().toISOString()
+    })
+  }
+
+  /**
+   * The loop's creator can edit its summary, and so can owners and admins of
+   * the group the loop belongs to
+   */
+  async canEditSummary(supabase: SupabaseClient<Database>, user: { id: string }, loop: Loop): Promise<boolean> {
+    if (loop.createdBy === user.id) return true
+    if (!loop.groupId) return false
+
+    const { data: membership } = await supabase
+      .from('study_group_members')
+      .select('role')
+      .eq('group_id', loop.groupId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!membership) return false
+
+    return new PermissionManager(user, { user_role: membership.role }, null).canManageGroup()
+  }
+
+  private async saveSummary(
+    loopId: string,
+    userId: string,
+    content: TranscriptSummaryInput,
+    metadata: SummaryMetadata
+  ): Promise<TranscriptSummary> {
+    const { data, error } = await getServiceClient()
+      .from('transcript_summaries')
+      .upsert(
+        {
+          loop_id: loopId,
+          user_id: userId,
+          main_points: content.mainPoints,
+          key_insights: content.keyInsights,
+          difficulty_assessment: content.difficultyAssessment || null,
+          recommended_focus_areas: content.recommendedFocusAreas,
+          metadata: metadata as Json,
+          updated_at: new Date().toISOString()
+        },
+        { onConflict: 'loop_id' }
+      )
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to save transcript summary: ${error.message}`)
+    }
+
+    return this.toSummary(data)
+  }
+
+  private toSummary(row: TranscriptSummaryRow): TranscriptSummary {
+    const metadata = (row.metadata || {}) as SummaryMetadata
+
+    return {
+      loopId: row.loop_id,
+      mainPoints: stringList(row.main_points),
+      keyInsights: stringList(row.key_insights),
+      difficultyAssessment: row.difficulty_assessment || '',
+      level: metadata.level ?? null,
+      recommendedFocusAreas: stringList(row.recommended_focus_areas),
+      source: metadata.source || 'ai',
+      updatedAt: row.updated_at
+    }
+  }
+}
+
+export const transcriptSummaryService = new TranscriptSummaryService()
@@ -0,0 +1,323 @@
+import { getSupabaseServiceRole } from '../supabase/service-role'
+import type { Json, Tables } from '../supabase/types'
+
+export type PlanId = 'free' | 'pro' | 'team'
+
+export type UsageFeature = 'ai_generation' | 'loop_creation' | 'custom_prompts'
+
+// Monthly allowance per feature; null means unlimited
+export type PlanLimits = Record<UsageFeature, number | null>
+
+export interface PlanDefinition {
+  id: PlanId
+  name: string
+  description: string
+  limits: PlanLimits
+}
+
+// Plans live in code so limits work without a payment provider. A user's
+// user_subscriptions row picks the plan and can override single limits.
+export const PLANS: Record<PlanId, PlanDefinition> = {
+  free: {
+    id: 'free',
+    name: 'Free',
+    description: 'Everything you need to try AI practice',
+    limits: { ai_generation: 30, loop_creation: 20, custom_prompts: 10 }
+  },
+  pro: {
+    id: 'pro',
+    name: 'Pro',
+    description: 'For learners practicing every day',
+    limits: { ai_generation: 500, loop_creation: 300, custom_prompts: 200 }
+  },
+  team: {
+    id: 'team',
+    name: 'Team',
+    description: 'For teachers running groups',
+    limits: { ai_generation: 2000, loop_creation: null, custom_prompts: null }
+  }
+}
+
+export const DEFAULT_PLAN: PlanId = 'free'
+
+type UsageColumn = 'ai_requests_made' | 'loops_created' | 'custom_prompts_used'
+
+export const USAGE_FEATURES: Record<UsageFeature, { label: string; column: UsageColumn }> = {
+  ai_generation: { label: 'AI question generations', column: 'ai_requests_made' },
+  loop_creation: { label: 'Loops created', column: 'loops_created' },
+  custom_prompts: { label: 'Custom prompt generations', column: 'custom_prompts_used' }
+}
+
+export const ALL_USAGE_FEATURES = Object.keys(USAGE_FEATURES) as UsageFeature[]
+
+// Subscription statuses that keep a plan in effect
+const ACTIVE_STATUSES = ['active', 'trialing']
+
+export type UserSubscription = Tables<'user_subscriptions'>
+
+export interface UserPlan {
+  plan: PlanDefinition
+  // Limits after admin overrides
+  limits: PlanLimits
+  overrides: Partial<PlanLimits>
+}
+
+export interface FeatureUsage {
+  feature: UsageFeature
+  label: string
+  used: number
+  limit: number | null
+  remaining: number | null
+}
+
+export interface UsageSummary {
+  plan: { id: PlanId; name: string; description: string }
+  month: string
+  resetsAt: string
+  features: FeatureUsage[]
+  overrides: Partial<PlanLimits>
+}
+
+export interface UsageCheck extends FeatureUsage {
+  allowed: boolean
+  planId: PlanId
+}
+
+export interface UsageUser {
+  id: string
+  email: string | null
+  full_name: string | null
+}
+
+export interface PlanOverrideInput {
+  planId: PlanId
+  // Replaces all overrides; omitted features use the plan's limit
+  limits?: Partial<PlanLimits>
+}
+
+/**
+ * Usage is counted per calendar month in UTC, e.g. '2025-10'
+ */
+export function usageMonth(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7)
+}
+
+export function usageResetsAt(date: Date = new Date()): string {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)).toISOString()
+}
+
+export function isPlanId(value: string): value is PlanId {
+  return Object.keys(PLANS).includes(value)
+}
+
+function readOverrides(limits: Json | null): Partial<PlanLimits> {
+  if (!limits || typeof limits !== 'object' || Array.isArray(limits)) return {}
+
+  const overrides: Partial<PlanLimits> = {}
+  for (const feature of ALL_USAGE_FEATURES) {
+    const value = limits[feature]
+    if (value === null || (typeof value === 'number' && value >= 0)) overrides[feature] = value
+  }
+  return overrides
+}
+
+function getServiceClient() {
+  const supabase = getSupabaseServiceRole()
+  if (!supabase) {
+    throw new Error('Database not configured')
+  }
+  return supabase
+}
+
+/**
+ * Usage Service
+ * Meters AI generation, loop creation and custom prompt use per month
+ * against the user's plan. Counters and plans are only written with the
+ * service role so users can't reset their own quota.
+ */
+export class UsageService {
+  async getSubscription(userId: string): Promise<UserSubscription | null> {
+    const { data, error } = await getServiceClient()
+      .from('user_subscriptions')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch subscription: ${error.message}`)
+    }
+
+    return data
+  }
+
+  /**
+   * The plan in effect: the subscribed plan while it's active, otherwise Free
+   */
+  async getUserPlan(userId: string): Promise<UserPlan> {
+    const subscription = await this.getSubscription(userId)
+
+    const isActive =
+      !!subscription &&
+      ACTIVE_STATUSES.includes(subscription.status) &&
+      (!subscription.current_period_end || new Date(subscription.current_period_end) > new Date())
+    const plan = PLANS[isActive && isPlanId(subscription.plan_id) ? subscription.plan_id : DEFAULT_PLAN]
+    // Overrides are granted by admins and apply whatever the plan
+    const overrides = readOverrides(subscription?.limits ?? null)
+
+    return { plan, limits: { ...plan.limits, ...overrides }, overrides }
+  }
+
+  async getUsageSummary(userId: string): Promise<UsageSummary> {
+    const now = new Date()
+    const [{ plan, limits, overrides }, { data: usage, error }] = await Promise.all([
+      this.getUserPlan(userId),
+      getServiceClient()
+        .from('user_usage')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('month_year', usageMonth(now))
+        .maybeSingle()
+    ])
+
+    if (error) {
+      throw new Error(`Failed to fetch usage: ${error.message}`)
+    }
+
+    return {
+      plan: { id: plan.id, name: plan.name, description: plan.description },
+      month: usageMonth(now),
+      resetsAt: usageResetsAt(now),
+      features: ALL_USAGE_FEATURES.map(feature => {
+        const used = usage?.[USAGE_FEATURES[feature].column] || 0
+        const limit = limits[feature]
+        return {
+          feature,
+          label: USAGE_FEATURES[feature].label,
+          used,
+          limit,
+          remaining: limit === null ? null : Math.max(limit - used, 0)
+        }
+      }),
+      overrides
+    }
+  }
+
+  /**
+   * Count one use of a feature unless it would pass the plan's monthly limit
+   */
+  async consume(userId: string, feature: UsageFeature, amount = 1): Promise<UsageCheck> {
+    const { plan, limits } = await this.getUserPlan(userId)
+    const limit = limits[feature]
+
+    const { data, error } = await getServiceClient().rpc('consume_usage', {
+      user_uuid: userId,
+      usage_month: usageMonth(),
+      usage_column: USAGE_FEATURES[feature].column,
+      amount,
+      usage_limit: limit
+    })
+
+    if (error) {
+      throw new Error(`Failed to record usage: ${error.message}`)
+    }
+
+    const result = data as { allowed: boolean; used: number }
+
+    return {
+      feature,
+      label: USAGE_FEATURES[feature].label,
+      allowed: result.allowed,
+      used: result.used,
+      limit,
+      remaining: limit === null ? null : Math.max(limit - result.used, 0),
+      planId: plan.id
+    }
+  }
+
+  /**
+   * Give back usage counted for a request that then failed
+   */
+  async release(userId: string, feature: UsageFeature, amount = 1): Promise<void> {
+    const { error } = await getServiceClient().rpc('consume_usage', {
+      user_uuid: userId,
+      usage_month: usageMonth(),
+      usage_column: USAGE_FEATURES[feature].column,
+      amount: -amount,
+      usage_limit: null
+    })
+
+    if (error) {
+      throw new Error(`Failed to release usage: ${error.message}`)
+    }
+  }
+
+  /**
+   * Look up a user for the admin usage page by email or id
+   */
+  async findUser(query: { email?: string; userId?: string }): Promise<UsageUser | null> {
+    let lookup = getServiceClient().from('profiles').select('id, email, full_name')
+    lookup = query.userId ? lookup.eq('id', query.userId) : lookup.ilike('email', query.email || '')
+
+    const { data, error } = await lookup.limit(1).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to find user: ${error.message}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Admin override: put the user on a plan, optionally with custom limits
+   */
+  async setPlanOverride(userId: string, input: PlanOverrideInput): Promise<UserSubscription> {
+    const plan = PLANS[input.planId]
+
+    const { data, error } = await getServiceClient()
+      .from('user_subscriptions')
+      .upsert(
+        {
+          user_id: userId,
+          plan_id: plan.id,
+          plan_name: plan.name,
+          status: 'active',
+          limits: (input.limits || {}) as Json,
+          current_period_end: null,
+          canceled_at: null,
+          updated_at: new Date().toISOString()
+        },
+        { onConflict: 'user_id' }
+      )
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to update plan: ${error.message}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Admin override: clear this month's counters
+   */
+  async resetMonthlyUsage(userId: string): Promise<void> {
+    const { error } = await getServiceClient()
+      .from('user_usage')
+      .update({
+        ai_requests_made: 0,
+        loops_created: 0,
+        custom_prompts_used: 0,
+        last_reset_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', userId)
+      .eq('month_year', usageMonth())
+
+    if (error) {
+      throw new Error(`Failed to reset usage: ${error.message}`)
+    }
+  }
+}
+
+export const usageService = new UsageService()
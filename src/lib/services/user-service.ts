@@ -1,12 +1,39 @@
 'use client'
 
+import { getAuthHeaders } from '../supabase/auth-utils'
 import { getCurrentUser, supabase } from '../supabase/client'
-import type { Database } from '../supabase/types'
+import type { Database, Json } from '../supabase/types'
+import {
+  resolveNotificationPreferences,
+  type NotificationPreferences
+} from './email/types'
+import {
+  cardFromDeckRow,
+  clampRetention,
+  createScheduler,
+  deckUpdateFromCard,
+  DEFAULT_DESIRED_RETENTION,
+  gradeFromCorrectness,
+  isReviewGrade,
+  isSchedulerAlgorithm,
+  replayReviews,
+  type ReviewGrade,
+  type ReviewLogEntry,
+  type SchedulerAlgorithm
+} from './srs'
 
 type Profile = Database['public']['Tables']['profiles']['Row']
 type UserVocabularyDeck = Database['public']['Tables']['user_vocabulary_deck']['Row']
 type UserVocabularyReview = Database['public']['Tables']['user_vocabulary_reviews']['Row']
 
+// Rows read or written per request when rescheduling a whole deck
+const PAGE_SIZE = 1000
+
+export interface SrsSettings {
+  algorithm: SchedulerAlgorithm
+  desiredRetention: number
+}
+
 export class UserService {
   // Get user profile
   async getUserProfile(userId: string): Promise<Profile | null> {
@@ -202,14 +229,127 @@ export class UserService {
     return data || []
   }
 
-  // Record vocabulary review
+  // Get the user's SRS scheduler preferences
+  async getSrsSettings(userId: string): Promise<SrsSettings> {
+    const defaults: SrsSettings = { algorithm: 'sm2', desiredRetention: DEFAULT_DESIRED_RETENTION }
+    if (!supabase) return defaults
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('srs_algorithm, srs_desired_retention')
+      .eq('id', userId)
+      .single()
+
+    if (error || !data) {
+      if (error) console.error('Error fetching SRS settings:', error)
+      return defaults
+    }
+
+    return {
+      algorithm: isSchedulerAlgorithm(data.srs_algorithm) ? data.srs_algorithm : 'sm2',
+      desiredRetention: clampRetention(Number(data.srs_desired_retention))
+    }
+  }
+
+  // Update SRS preferences; switching algorithm or retention reschedules the deck from history
+  async updateSrsSettings(userId: string, settings: Partial<SrsSettings>): Promise<SrsSettings | null> {
+    if (!supabase) return null
+
+    const current = await this.getSrsSettings(userId)
+    const next: SrsSettings = {
+      algorithm: settings.algorithm ?? current.algorithm,
+      desiredRetention: clampRetention(settings.desiredRetention ?? current.desiredRetention)
+    }
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({
+        srs_algorithm: next.algorithm,
+        srs_desired_retention: next.desiredRetention,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', userId)
+
+    if (error) {
+      console.error('Error updating SRS settings:', error)
+      return null
+    }
+
+    if (
+      next.algorithm !== current.algorithm ||
+      next.desiredRetention !== current.desiredRetention
+    ) {
+      await this.rescheduleVocabularyFromHistory(userId, next)
+    }
+
+    return next
+  }
+
+  // Email notification preferences live under profiles.user_preferences.notifications
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    if (!supabase) return resolveNotificationPreferences(null)
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('user_preferences')
+      .eq('id', userId)
+      .single()
+
+    if (error) console.error('Error fetching notification preferences:', error)
+
+    const preferences = data?.user_preferences as { notifications?: unknown } | null
+    return resolveNotificationPreferences(preferences?.notifications)
+  }
+
+  async updateNotificationPreferences(
+    userId: string,
+    updates: Partial<NotificationPreferences>
+  ): Promise<NotificationPreferences | null> {
+    if (!supabase) return null
+
+    const { data: profile, error: fetchError } = await supabase
+      .from('profiles')
+      .select('user_preferences')
+      .eq('id', userId)
+      .single()
+
+    if (fetchError) {
+      console.error('Error fetching notification preferences:', fetchError)
+      return null
+    }
+
+    const preferences = (profile?.user_preferences as Record<string, Json> | null) || {}
+    const next = resolveNotificationPreferences({
+      ...resolveNotificationPreferences(preferences.notifications),
+      ...updates
+    })
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({
+        user_preferences: { ...preferences, notifications: { ...next } },
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', userId)
+
+    if (error) {
+      console.error('Error updating notification preferences:', error)
+      return null
+    }
+
+    return next
+  }
+
+  // Record vocabulary review. Boolean answers map to good/again for older callers.
   async recordVocabularyReview(
     vocabularyId: string,
-    isCorrect: boolean,
+    answer: ReviewGrade | boolean,
     responseTimeMs: number,
     reviewType: string = 'flashcard'
-  ): Promise<boolean> {
-    if (!supabase) return false
+  ): Promise<UserVocabularyDeck | null> {
+    if (!supabase) return null
+
+    const grade = typeof answer === 'boolean' ? gradeFromCorrectness(answer) : answer
 
     // First, get current vocabulary data
     const { data: vocab, error: fetchError } = await supabase
@@ -220,61 +360,150 @@ export class UserService {
 
     if (fetchError || !vocab) {
       console.error('Error fetching vocabulary for review:', fetchError)
-      return false
+      return null
     }
 
-    // Calculate new SRS values
-    const currentEase = vocab.ease_factor || 2.5
-    const currentInterval = vocab.interval_days || 1
-
-    let newEase = currentEase
-    let newInterval = currentInterval
-
-    if (isCorrect) {
-      if (currentInterval === 1) {
-        newInterval = 6
-      } else {
-        newInterval = Math.round(currentInterval * currentEase)
-      }
-      newEase = Math.max(1.3, currentEase + 0.1)
-    } else {
-      newInterval = 1
-      newEase = Math.max(1.3, currentEase - 0.2)
-    }
+    const settings = vocab.user_id
+      ? await this.getSrsSettings(vocab.user_id)
+      : { algorithm: 'sm2' as const, desiredRetention: DEFAULT_DESIRED_RETENTION }
+    const scheduler = createScheduler(settings.algorithm, {
+      desiredRetention: settings.desiredRetention
+    })
 
-    const nextReviewDate = new Date()
-    nextReviewDate.setDate(nextReviewDate.getDate() + newInterval)
+    const now = new Date()
+    const isCorrect = grade !== 'again'
+    const card = scheduler.review(cardFromDeckRow(vocab), grade, now)
 
     // Update vocabulary record
-    const { error: updateError } = await supabase
+    const { data: updated, error: updateError } = await supabase
       .from('user_vocabulary_deck')
       .update({
-        ease_factor: newEase,
-        interval_days: newInterval,
-        next_review_date: nextReviewDate.toISOString(),
-        updated_at: new Date().toISOString()
+        ...deckUpdateFromCard(card),
+        times_practiced: (vocab.times_practiced || 0) + 1,
+        times_correct: (vocab.times_correct || 0) + (isCorrect ? 1 : 0),
+        times_incorrect: (vocab.times_incorrect || 0) + (isCorrect ? 0 : 1),
+        updated_at: now.toISOString()
       })
       .eq('id', vocabularyId)
+      .select()
+      .single()
 
     // Record the review
     const { error: reviewError } = await supabase.from('user_vocabulary_reviews').insert({
       vocabulary_id: vocabularyId,
       user_id: vocab.user_id,
       is_correct: isCorrect,
+      rating: grade,
+      algorithm: scheduler.algorithm,
       response_time_ms: responseTimeMs,
       review_type: reviewType,
-      new_ease_factor: newEase,
-      new_interval_days: newInterval,
-      new_next_review_date: nextReviewDate.toISOString(),
-      reviewed_at: new Date().toISOString()
+      previous_learning_status: vocab.learning_status,
+      new_learning_status: card.status,
+      new_ease_factor: card.easeFactor,
+      new_interval_days: card.intervalDays,
+      new_stability: card.stability,
+      new_difficulty: card.difficulty,
+      new_next_review_date: card.dueAt.toISOString(),
+      reviewed_at: now.toISOString()
     })
 
     if (updateError || reviewError) {
       console.error('Error recording vocabulary review:', updateError || reviewError)
-      return false
+      return null
     }
 
-    return true
+    // Badges, challenges, goals and the streak are updated server-side; don't hold up the review
+    getAuthHeaders()
+      .then(headers =>
+        Promise.all([
+          fetch('/api/user/achievements', { method: 'POST', headers }),
+          fetch('/api/user/challenges', { method: 'POST', headers }),
+          fetch('/api/user/activity', { method: 'POST', headers })
+        ])
+      )
+      .catch(error => console.error('Error recording activity:', error))
+
+    return updated
+  }
+
+  // Replay each card's review log under the given settings and store the resulting schedule
+  async rescheduleVocabularyFromHistory(userId: string, settings: SrsSettings): Promise<number> {
+    if (!supabase) return 0
+
+    const deck: UserVocabularyDeck[] = []
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('user_vocabulary_deck')
+        .select('*')
+        .eq('user_id', userId)
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error loading vocabulary deck:', error)
+        return 0
+      }
+
+      deck.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    const history = new Map<string, ReviewLogEntry[]>()
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('user_vocabulary_reviews')
+        .select('vocabulary_id, rating, is_correct, reviewed_at')
+        .eq('user_id', userId)
+        .order('reviewed_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error loading review history:', error)
+        return 0
+      }
+
+      for (const review of data || []) {
+        if (!review.vocabulary_id || !review.reviewed_at) continue
+        const entries = history.get(review.vocabulary_id) || []
+        entries.push({
+          grade: isReviewGrade(review.rating) ? review.rating : gradeFromCorrectness(review.is_correct),
+          reviewedAt: new Date(review.reviewed_at)
+        })
+        history.set(review.vocabulary_id, entries)
+      }
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    const scheduler = createScheduler(settings.algorithm, {
+      desiredRetention: settings.desiredRetention
+    })
+
+    const now = new Date().toISOString()
+    const updates: UserVocabularyDeck[] = []
+    for (const vocab of deck) {
+      const entries = history.get(vocab.id)
+      if (!entries?.length) continue
+
+      const createdAt = vocab.created_at ? new Date(vocab.created_at) : entries[0].reviewedAt
+      const card = replayReviews(scheduler, entries, createdAt)
+      updates.push({ ...vocab, ...deckUpdateFromCard(card), updated_at: now })
+    }
+
+    // Every row already exists, so the upsert only rewrites the schedules
+    let rescheduled = 0
+    for (let i = 0; i < updates.length; i += PAGE_SIZE) {
+      const batch = updates.slice(i, i + PAGE_SIZE)
+      const { error } = await supabase.from('user_vocabulary_deck').upsert(batch, { onConflict: 'id' })
+
+      if (error) {
+        console.error('Error rescheduling vocabulary:', error)
+        continue
+      }
+      rescheduled += batch.length
+    }
+
+    return rescheduled
   }
 
   // Get user vocabulary statistics
@@ -0,0 +1,271 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Tables, TablesInsert } from '../supabase/types'
+import { duplicateKey, type CardSource, type ExportCard, type ImportCard } from '../utils/vocabulary-transfer'
+
+type DeckRow = Tables<'user_vocabulary_deck'>
+
+export interface ImportOptions {
+  // Keep learning status, intervals and due dates from the file
+  preserveSrs: boolean
+  // What to do with cards whose text is already in the deck
+  onDuplicate: 'skip' | 'update'
+  // Count what would happen without writing anything
+  dryRun?: boolean
+}
+
+export interface ImportSummary {
+  imported: number
+  updated: number
+  skipped: number
+  // Texts already in the deck or repeated in the file, for the preview
+  duplicates: string[]
+}
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000
+const INSERT_BATCH_SIZE = 500
+const MAX_DUPLICATES_LISTED = 50
+
+const LEARNING_STATUSES = ['new', 'learning', 'review', 'relearning']
+
+const toNumber = (value: string | undefined) => {
+  if (value === undefined || value.trim() === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+const toDate = (value: string | undefined) => {
+  if (!value) return undefined
+  const parsed = new Date(value)
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString()
+}
+
+// SRS columns from the file, keeping only values the scheduler can use
+function srsState(card: ImportCard): Partial<TablesInsert<'user_vocabulary_deck'>> {
+  const state: Partial<TablesInsert<'user_vocabulary_deck'>> = {
+    learning_status: card.learning_status && LEARNING_STATUSES.includes(card.learning_status) ? card.learning_status : undefined,
+    ease_factor: toNumber(card.ease_factor),
+    interval_days: toNumber(card.interval_days),
+    repetitions: toNumber(card.repetitions),
+    lapses: toNumber(card.lapses),
+    stability: toNumber(card.stability),
+    fsrs_difficulty: toNumber(card.fsrs_difficulty),
+    next_review_date: toDate(card.next_review_date),
+    last_practiced_at: toDate(card.last_practiced_at)
+  }
+
+  return Object.fromEntries(Object.entries(state).filter(([, value]) => value !== undefined))
+}
+
+function contentFields(card: ImportCard) {
+  return {
+    text: card.text.trim(),
+    definition: card.definition || '',
+    definition_vi: card.definition_vi || null,
+    pronunciation: card.pronunciation || null,
+    part_of_speech: card.part_of_speech || null,
+    example: card.example || null,
+    context: card.context || null,
+    synonyms: card.synonyms || [],
+    antonyms: card.antonyms || [],
+    difficulty: card.difficulty || 'medium',
+    item_type: card.item_type || 'word'
+  }
+}
+
+// Columns the file actually filled in, so an update keeps whatever the import left unmapped or blank
+function mappedContentFields(card: ImportCard): Partial<TablesInsert<'user_vocabulary_deck'>> {
+  const content: Partial<TablesInsert<'user_vocabulary_deck'>> = {
+    definition: card.definition,
+    definition_vi: card.definition_vi,
+    pronunciation: card.pronunciation,
+    part_of_speech: card.part_of_speech,
+    example: card.example,
+    context: card.context,
+    synonyms: card.synonyms,
+    antonyms: card.antonyms,
+    difficulty: card.difficulty,
+    item_type: card.item_type
+  }
+
+  return Object.fromEntries(
+    Object.entries(content).filter(([, value]) =>
+      Array.isArray(value) ? value.length > 0 : typeof value === 'string' && value.trim() !== ''
+    )
+  )
+}
+
+/**
+ * Vocabulary Transfer Service
+ * Reads the whole deck for export and writes imported cards, matching
+ * duplicates on the card text.
+ */
+export class VocabularyTransferService {
+  /**
+   * Every card in the deck with the loop it was saved from
+   */
+  async exportDeck(supabase: SupabaseClient<Database>, userId: string): Promise<ExportCard[]> {
+    const cards: DeckRow[] = []
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('user_vocabulary_deck')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to fetch vocabulary: ${error.message}`)
+      }
+
+      cards.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    const sources = await this.loadSources(
+      supabase,
+      [...new Set(cards.map(card => card.source_loop_id).filter((id): id is string => !!id))]
+    )
+
+    return cards.map(card => ({
+      ...card,
+      source: card.source_loop_id ? sources.get(card.source_loop_id) || null : null
+    }))
+  }
+
+  async importCards(
+    supabase: SupabaseClient<Database>,
+    userId: string,
+    cards: ImportCard[],
+    options: ImportOptions
+  ): Promise<ImportSummary> {
+    const existing = await this.loadExistingTexts(supabase, userId)
+    const seen = new Set<string>()
+    const inserts: TablesInsert<'user_vocabulary_deck'>[] = []
+    const updates: { id: string; card: ImportCard }[] = []
+    const duplicates: string[] = []
+    let skipped = 0
+
+    for (const card of cards) {
+      const key = duplicateKey(card.text)
+      if (!key) continue
+
+      if (seen.has(key)) {
+        skipped++
+        continue
+      }
+      seen.add(key)
+
+      const existingId = existing.get(key)
+      if (existingId) {
+        if (duplicates.length < MAX_DUPLICATES_LISTED) duplicates.push(card.text.trim())
+        if (options.onDuplicate === 'update') {
+          updates.push({ id: existingId, card })
+        } else {
+          skipped++
+        }
+        continue
+      }
+
+      const now = new Date().toISOString()
+      inserts.push({
+        user_id: userId,
+        ...contentFields(card),
+        // Same starting schedule as cards saved in the app
+        learning_status: 'new',
+        ease_factor: 2.5,
+        interval_days: 1,
+        next_review_date: now,
+        ...(options.preserveSrs ? srsState(card) : {}),
+        created_at: now
+      })
+    }
+
+    if (!options.dryRun) {
+      for (let i = 0; i < inserts.length; i += INSERT_BATCH_SIZE) {
+        const { error } = await supabase.from('user_vocabulary_deck').insert(inserts.slice(i, i + INSERT_BATCH_SIZE))
+        if (error) {
+          throw new Error(`Failed to import vocabulary: ${error.message}`)
+        }
+      }
+
+      for (const { id, card } of updates) {
+        // Keep the stored spelling of the text
+        const { error } = await supabase
+          .from('user_vocabulary_deck')
+          .update({
+            ...mappedContentFields(card),
+            ...(options.preserveSrs ? srsState(card) : {}),
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', id)
+          .eq('user_id', userId)
+
+        if (error) {
+          throw new Error(`Failed to update vocabulary: ${error.message}`)
+        }
+      }
+    }
+
+    return { imported: inserts.length, updated: updates.length, skipped, duplicates }
+  }
+
+  private async loadExistingTexts(supabase: SupabaseClient<Database>, userId: string): Promise<Map<string, string>> {
+    const existing = new Map<string, string>()
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('user_vocabulary_deck')
+        .select('id, text')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to fetch vocabulary: ${error.message}`)
+      }
+
+      for (const row of data || []) {
+        if (!existing.has(duplicateKey(row.text))) existing.set(duplicateKey(row.text), row.id)
+      }
+      if (!data || data.length < PAGE_SIZE) break
+    }
+    return existing
+  }
+
+  /**
+   * Source loops by id. Loops are practice sessions; their first segment
+   * holds the timestamps.
+   */
+  async loadSources(supabase: SupabaseClient<Database>, loopIds: string[]): Promise<Map<string, CardSource>> {
+    const sources = new Map<string, CardSource>()
+    if (loopIds.length === 0) return sources
+
+    for (let i = 0; i < loopIds.length; i += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('practice_sessions')
+        .select('id, video_title, video_url, loop_segments (start_time, end_time)')
+        .in('id', loopIds.slice(i, i + PAGE_SIZE))
+
+      if (error) {
+        // Cards still export without their source
+        console.error('Failed to fetch vocabulary sources:', error)
+        return sources
+      }
+
+      for (const loop of data || []) {
+        const segment = loop.loop_segments?.[0]
+        sources.set(loop.id, {
+          loopId: loop.id,
+          videoTitle: loop.video_title,
+          videoUrl: loop.video_url,
+          startTime: segment?.start_time ?? null,
+          endTime: segment?.end_time ?? null
+        })
+      }
+    }
+
+    return sources
+  }
+}
+
+export const vocabularyTransferService = new VocabularyTransferService()
@@ -93,6 +93,99 @@ export type Database = {
           },
         ]
       }
+      background_job_runs: {
+        Row: {
+          attempt: number
+          error: string | null
+          finished_at: string | null
+          id: string
+          instance_id: string | null
+          job_name: string
+          result: Json | null
+          started_at: string
+          status: string
+          trigger: string
+          triggered_by: string | null
+        }
+        Insert: {
+          attempt?: number
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          instance_id?: string | null
+          job_name: string
+          result?: Json | null
+          started_at?: string
+          status?: string
+          trigger?: string
+          triggered_by?: string | null
+        }
+        Update: {
+          attempt?: number
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          instance_id?: string | null
+          job_name?: string
+          result?: Json | null
+          started_at?: string
+          status?: string
+          trigger?: string
+          triggered_by?: string | null
+        }
+        Relationships: []
+      }
+      background_jobs: {
+        Row: {
+          attempts: number
+          created_at: string | null
+          description: string | null
+          enabled: boolean
+          interval_seconds: number
+          last_error: string | null
+          last_run_at: string | null
+          last_success_at: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          name: string
+          next_run_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string | null
+          description?: string | null
+          enabled?: boolean
+          interval_seconds: number
+          last_error?: string | null
+          last_run_at?: string | null
+          last_success_at?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          name: string
+          next_run_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string | null
+          description?: string | null
+          enabled?: boolean
+          interval_seconds?: number
+          last_error?: string | null
+          last_run_at?: string | null
+          last_success_at?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          name?: string
+          next_run_at?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       challenge_participants: {
         Row: {
           avatar: string | null
@@ -141,6 +234,8 @@ export type Database = {
         Row: {
           content: string
           created_at: string | null
+          deleted_at: string | null
+          deleted_by: string | null
           group_id: string | null
           id: string
           metadata: Json | null
@@ -149,12 +244,15 @@ export type Database = {
           sender_avatar: string | null
           sender_id: string
           sender_name: string
+          session_id: string | null
           timestamp: string | null
           type: string
         }
         Insert: {
           content: string
           created_at?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           group_id?: string | null
           id?: string
           metadata?: Json | null
@@ -163,12 +261,15 @@ export type Database = {
           sender_avatar?: string | null
           sender_id: string
           sender_name: string
+          session_id?: string | null
           timestamp?: string | null
           type?: string
         }
         Update: {
           content?: string
           created_at?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           group_id?: string | null
           id?: string
           metadata?: Json | null
@@ -177,6 +278,7 @@ export type Database = {
           sender_avatar?: string | null
           sender_id?: string
           sender_name?: string
+          session_id?: string | null
           timestamp?: string | null
           type?: string
         }
@@ -195,6 +297,13 @@ export type Database = {
             referencedRelation: "chat_messages"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "chat_messages_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "group_quiz_sessions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       comparison_results: {
@@ -332,12 +441,52 @@ export type Database = {
           },
         ]
       }
+      custom_prompt_versions: {
+        Row: {
+          change_note: string | null
+          config: Json | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          prompt_id: string
+          restored_from_version_id: string | null
+          system_prompt: string
+          user_template: string
+          version_number: number
+        }
+        Insert: {
+          change_note?: string | null
+          config?: Json | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          prompt_id: string
+          restored_from_version_id?: string | null
+          system_prompt: string
+          user_template: string
+          version_number: number
+        }
+        Update: {
+          change_note?: string | null
+          config?: Json | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          prompt_id?: string
+          restored_from_version_id?: string | null
+          system_prompt?: string
+          user_template?: string
+          version_number?: number
+        }
+        Relationships: []
+      }
       custom_prompts: {
         Row: {
           category: string
           config: Json | null
           created_at: string | null
           created_by: string
+          current_version_id: string | null
           description: string | null
           id: string
           is_active: boolean | null
@@ -353,6 +502,7 @@ export type Database = {
           config?: Json | null
           created_at?: string | null
           created_by: string
+          current_version_id?: string | null
           description?: string | null
           id?: string
           is_active?: boolean | null
@@ -368,6 +518,7 @@ export type Database = {
           config?: Json | null
           created_at?: string | null
           created_by?: string
+          current_version_id?: string | null
           description?: string | null
           id?: string
           is_active?: boolean | null
@@ -380,6 +531,66 @@ export type Database = {
         }
         Relationships: []
       }
+      email_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string | null
+          html: string
+          id: string
+          last_error: string | null
+          max_attempts: number
+          message_id: string | null
+          next_attempt_at: string
+          recipient_email: string
+          sent_at: string | null
+          status: string
+          subject: string
+          template: string
+          text: string
+          transport: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string | null
+          html: string
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          message_id?: string | null
+          next_attempt_at?: string
+          recipient_email: string
+          sent_at?: string | null
+          status?: string
+          subject: string
+          template: string
+          text: string
+          transport?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string | null
+          html?: string
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          message_id?: string | null
+          next_attempt_at?: string
+          recipient_email?: string
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          template?: string
+          text?: string
+          transport?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       favorite_quizzes: {
         Row: {
           created_at: string | null
@@ -428,6 +639,7 @@ export type Database = {
       group_achievements: {
         Row: {
           achievement_data: Json | null
+          achievement_key: string
           achievement_type: string
           earned_at: string | null
           group_id: string | null
@@ -436,6 +648,7 @@ export type Database = {
         }
         Insert: {
           achievement_data?: Json | null
+          achievement_key?: string
           achievement_type: string
           earned_at?: string | null
           group_id?: string | null
@@ -444,6 +657,7 @@ export type Database = {
         }
         Update: {
           achievement_data?: Json | null
+          achievement_key?: string
           achievement_type?: string
           earned_at?: string | null
           group_id?: string | null
@@ -469,6 +683,7 @@ export type Database = {
           end_date: string
           group_id: string | null
           id: string
+          min_score: number | null
           rewards: Json
           start_date: string
           status: string
@@ -485,6 +700,7 @@ export type Database = {
           end_date: string
           group_id?: string | null
           id?: string
+          min_score?: number | null
           rewards?: Json
           start_date: string
           status?: string
@@ -501,6 +717,7 @@ export type Database = {
           end_date?: string
           group_id?: string | null
           id?: string
+          min_score?: number | null
           rewards?: Json
           start_date?: string
           status?: string
@@ -696,6 +913,7 @@ export type Database = {
           result_data: Json | null
           score: number
           session_id: string
+          tamper_flagged: boolean
           time_taken: number | null
           time_taken_seconds: number | null
           total_questions: number
@@ -710,6 +928,7 @@ export type Database = {
           result_data?: Json | null
           score: number
           session_id: string
+          tamper_flagged?: boolean
           time_taken?: number | null
           time_taken_seconds?: number | null
           total_questions: number
@@ -724,6 +943,7 @@ export type Database = {
           result_data?: Json | null
           score?: number
           session_id?: string
+          tamper_flagged?: boolean
           time_taken?: number | null
           time_taken_seconds?: number | null
           total_questions?: number
@@ -1128,6 +1348,8 @@ export type Database = {
           language_learning: Json | null
           native_language: string | null
           settings: Json | null
+          srs_algorithm: string
+          srs_desired_retention: number
           subscription_tier: string | null
           updated_at: string
           user_preferences: Json | null
@@ -1142,6 +1364,8 @@ export type Database = {
           language_learning?: Json | null
           native_language?: string | null
           settings?: Json | null
+          srs_algorithm?: string
+          srs_desired_retention?: number
           subscription_tier?: string | null
           updated_at?: string
           user_preferences?: Json | null
@@ -1156,6 +1380,8 @@ export type Database = {
           language_learning?: Json | null
           native_language?: string | null
           settings?: Json | null
+          srs_algorithm?: string
+          srs_desired_retention?: number
           subscription_tier?: string | null
           updated_at?: string
           user_preferences?: Json | null
@@ -1197,6 +1423,306 @@ export type Database = {
           },
         ]
       }
+      prompt_eval_fixtures: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          segments: Json
+          transcript: string
+          video_title: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          segments?: Json
+          transcript: string
+          video_title?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          segments?: Json
+          transcript?: string
+          video_title?: string | null
+        }
+        Relationships: []
+      }
+      prompt_eval_runs: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          fixture_ids: string[]
+          id: string
+          model: string | null
+          preset: Json
+          prompt_id: string | null
+          provider: string
+          results: Json
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          fixture_ids?: string[]
+          id?: string
+          model?: string | null
+          preset: Json
+          prompt_id?: string | null
+          provider: string
+          results?: Json
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          fixture_ids?: string[]
+          id?: string
+          model?: string | null
+          preset?: Json
+          prompt_id?: string | null
+          provider?: string
+          results?: Json
+        }
+        Relationships: []
+      }
+      prompt_experiment_sets: {
+        Row: {
+          created_at: string | null
+          experiment_id: string
+          group_id: string | null
+          question_set_id: string
+          questions: Json
+          session_id: string | null
+          variant_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          experiment_id: string
+          group_id?: string | null
+          question_set_id: string
+          questions?: Json
+          session_id?: string | null
+          variant_id: string
+        }
+        Update: {
+          created_at?: string | null
+          experiment_id?: string
+          group_id?: string | null
+          question_set_id?: string
+          questions?: Json
+          session_id?: string | null
+          variant_id?: string
+        }
+        Relationships: []
+      }
+      prompt_experiment_variants: {
+        Row: {
+          created_at: string | null
+          experiment_id: string
+          id: string
+          prompt_id: string
+          weight: number
+        }
+        Insert: {
+          created_at?: string | null
+          experiment_id: string
+          id?: string
+          prompt_id: string
+          weight?: number
+        }
+        Update: {
+          created_at?: string | null
+          experiment_id?: string
+          id?: string
+          prompt_id?: string
+          weight?: number
+        }
+        Relationships: []
+      }
+      prompt_experiments: {
+        Row: {
+          category: string
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          ended_at: string | null
+          id: string
+          name: string
+          started_at: string | null
+          status: string
+          updated_at: string | null
+          winner_prompt_id: string | null
+        }
+        Insert: {
+          category: string
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          ended_at?: string | null
+          id?: string
+          name: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string | null
+          winner_prompt_id?: string | null
+        }
+        Update: {
+          category?: string
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          ended_at?: string | null
+          id?: string
+          name?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string | null
+          winner_prompt_id?: string | null
+        }
+        Relationships: []
+      }
+      question_bank: {
+        Row: {
+          created_at: string | null
+          created_by: string
+          difficulty: string
+          group_id: string | null
+          id: string
+          kind: string
+          last_used_at: string | null
+          normalized_text: string
+          question: Json
+          question_text: string
+          question_type: string | null
+          skill_tags: string[]
+          source_loop_id: string | null
+          source_timestamp: number | null
+          source_video_title: string | null
+          source_video_url: string | null
+          times_used: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by: string
+          difficulty: string
+          group_id?: string | null
+          id?: string
+          kind?: string
+          last_used_at?: string | null
+          normalized_text: string
+          question: Json
+          question_text: string
+          question_type?: string | null
+          skill_tags?: string[]
+          source_loop_id?: string | null
+          source_timestamp?: number | null
+          source_video_title?: string | null
+          source_video_url?: string | null
+          times_used?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string
+          difficulty?: string
+          group_id?: string | null
+          id?: string
+          kind?: string
+          last_used_at?: string | null
+          normalized_text?: string
+          question?: Json
+          question_text?: string
+          question_type?: string | null
+          skill_tags?: string[]
+          source_loop_id?: string | null
+          source_timestamp?: number | null
+          source_video_title?: string | null
+          source_video_url?: string | null
+          times_used?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      question_reports: {
+        Row: {
+          created_at: string | null
+          details: string | null
+          id: string
+          question_id: string
+          question_set_id: string
+          reason: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          details?: string | null
+          id?: string
+          question_id: string
+          question_set_id: string
+          reason: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          details?: string | null
+          id?: string
+          question_id?: string
+          question_set_id?: string
+          reason?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      question_set_submissions: {
+        Row: {
+          answered_count: number
+          correct_answers: number
+          difficulty: string | null
+          id: string
+          question_set_id: string
+          results: Json
+          score: number
+          set_index: number | null
+          submitted_at: string | null
+          total_questions: number
+          user_id: string | null
+        }
+        Insert: {
+          answered_count: number
+          correct_answers: number
+          difficulty?: string | null
+          id?: string
+          question_set_id: string
+          results?: Json
+          score: number
+          set_index?: number | null
+          submitted_at?: string | null
+          total_questions: number
+          user_id?: string | null
+        }
+        Update: {
+          answered_count?: number
+          correct_answers?: number
+          difficulty?: string | null
+          id?: string
+          question_set_id?: string
+          results?: Json
+          score?: number
+          set_index?: number | null
+          submitted_at?: string | null
+          total_questions?: number
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       selected_words: {
         Row: {
           collocations: string[] | null
@@ -1291,6 +1817,7 @@ export type Database = {
           created_at: string
           created_by: string | null
           end_time: number | null
+          experiment_variant_id: string | null
           expires_at: string
           group_id: string | null
           id: string
@@ -1311,6 +1838,7 @@ export type Database = {
           created_at?: string
           created_by?: string | null
           end_time?: number | null
+          experiment_variant_id?: string | null
           expires_at?: string
           group_id?: string | null
           id?: string
@@ -1331,6 +1859,7 @@ export type Database = {
           created_at?: string
           created_by?: string | null
           end_time?: number | null
+          experiment_variant_id?: string | null
           expires_at?: string
           group_id?: string | null
           id?: string
@@ -1504,6 +2033,48 @@ export type Database = {
         }
         Relationships: []
       }
+      transcript_cache: {
+        Row: {
+          expires_at: string
+          fetched_at: string
+          hit_count: number
+          id: string
+          language: string
+          last_accessed_at: string | null
+          resolved_language: string | null
+          segment_count: number
+          segments: Json
+          video_id: string
+          video_info: Json | null
+        }
+        Insert: {
+          expires_at: string
+          fetched_at?: string
+          hit_count?: number
+          id?: string
+          language?: string
+          last_accessed_at?: string | null
+          resolved_language?: string | null
+          segment_count?: number
+          segments?: Json
+          video_id: string
+          video_info?: Json | null
+        }
+        Update: {
+          expires_at?: string
+          fetched_at?: string
+          hit_count?: number
+          id?: string
+          language?: string
+          last_accessed_at?: string | null
+          resolved_language?: string | null
+          segment_count?: number
+          segments?: Json
+          video_id?: string
+          video_info?: Json | null
+        }
+        Relationships: []
+      }
       transcript_summaries: {
         Row: {
           created_at: string | null
@@ -1926,18 +2497,22 @@ export type Database = {
           ease_factor: number | null
           example: string | null
           frequency: number | null
+          fsrs_difficulty: number | null
           id: string
           interval_days: number | null
           is_starred: boolean
           item_type: string
+          lapses: number | null
           last_practiced_at: string | null
           learning_status: string
+          learning_step: number | null
           next_review_date: string | null
           part_of_speech: string | null
           phrase_type: string | null
           pronunciation: string | null
           repetitions: number | null
           source_loop_id: string | null
+          stability: number | null
           synonyms: Json | null
           text: string
           times_correct: number | null
@@ -1956,18 +2531,22 @@ export type Database = {
           ease_factor?: number | null
           example?: string | null
           frequency?: number | null
+          fsrs_difficulty?: number | null
           id?: string
           interval_days?: number | null
           is_starred?: boolean
           item_type: string
+          lapses?: number | null
           last_practiced_at?: string | null
           learning_status?: string
+          learning_step?: number | null
           next_review_date?: string | null
           part_of_speech?: string | null
           phrase_type?: string | null
           pronunciation?: string | null
           repetitions?: number | null
           source_loop_id?: string | null
+          stability?: number | null
           synonyms?: Json | null
           text: string
           times_correct?: number | null
@@ -1986,18 +2565,22 @@ export type Database = {
           ease_factor?: number | null
           example?: string | null
           frequency?: number | null
+          fsrs_difficulty?: number | null
           id?: string
           interval_days?: number | null
           is_starred?: boolean
           item_type?: string
+          lapses?: number | null
           last_practiced_at?: string | null
           learning_status?: string
+          learning_step?: number | null
           next_review_date?: string | null
           part_of_speech?: string | null
           phrase_type?: string | null
           pronunciation?: string | null
           repetitions?: number | null
           source_loop_id?: string | null
+          stability?: number | null
           synonyms?: Json | null
           text?: string
           times_correct?: number | null
@@ -2010,12 +2593,18 @@ export type Database = {
       }
       user_vocabulary_reviews: {
         Row: {
+          algorithm: string | null
           correct_answer: string | null
           id: string
           is_correct: boolean
+          new_difficulty: number | null
           new_ease_factor: number | null
           new_interval_days: number | null
+          new_learning_status: string | null
           new_next_review_date: string | null
+          new_stability: number | null
+          previous_learning_status: string | null
+          rating: string | null
           response_time_ms: number | null
           review_type: string
           reviewed_at: string | null
@@ -2024,12 +2613,18 @@ export type Database = {
           vocabulary_id: string | null
         }
         Insert: {
+          algorithm?: string | null
           correct_answer?: string | null
           id?: string
           is_correct: boolean
+          new_difficulty?: number | null
           new_ease_factor?: number | null
           new_interval_days?: number | null
+          new_learning_status?: string | null
           new_next_review_date?: string | null
+          new_stability?: number | null
+          previous_learning_status?: string | null
+          rating?: string | null
           response_time_ms?: number | null
           review_type: string
           reviewed_at?: string | null
@@ -2038,12 +2633,18 @@ export type Database = {
           vocabulary_id?: string | null
         }
         Update: {
+          algorithm?: string | null
           correct_answer?: string | null
           id?: string
           is_correct?: boolean
+          new_difficulty?: number | null
           new_ease_factor?: number | null
           new_interval_days?: number | null
+          new_learning_status?: string | null
           new_next_review_date?: string | null
+          new_stability?: number | null
+          previous_learning_status?: string | null
+          rating?: string | null
           response_time_ms?: number | null
           review_type?: string
           reviewed_at?: string | null
@@ -2119,6 +2720,30 @@ export type Database = {
         Args: { feature_id: string }
         Returns: Json
       }
+      claim_background_job: {
+        Args: {
+          p_force?: boolean
+          p_instance_id: string
+          p_lease_seconds: number
+          p_name: string
+        }
+        Returns: {
+          attempts: number
+          created_at: string | null
+          description: string | null
+          enabled: boolean
+          interval_seconds: number
+          last_error: string | null
+          last_run_at: string | null
+          last_success_at: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          name: string
+          next_run_at: string
+          updated_at: string | null
+        }[]
+      }
       cleanup_expired_notifications: {
         Args: Record<PropertyKey, never>
         Returns: number
@@ -2131,6 +2756,38 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: number
       }
+      consume_usage: {
+        Args: {
+          amount: number
+          usage_column: string
+          usage_limit: number | null
+          usage_month: string
+          user_uuid: string
+        }
+        Returns: Json
+      }
+      create_prompt_version: {
+        Args: {
+          p_change_note?: string
+          p_config: Json
+          p_prompt_id: string
+          p_restored_from?: string
+          p_system_prompt: string
+          p_user_template: string
+        }
+        Returns: {
+          change_note: string | null
+          config: Json | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          prompt_id: string
+          restored_from_version_id: string | null
+          system_prompt: string
+          user_template: string
+          version_number: number
+        }[]
+      }
       generate_group_code: {
         Args: Record<PropertyKey, never>
         Returns: string
@@ -2143,6 +2800,10 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: Json
       }
+      get_user_daily_activity: {
+        Args: { since: string; user_uuid: string }
+        Returns: { day: string; quizzes: number; reviews: number }[]
+      }
       increment_usage: {
         Args: {
           current_month?: string
@@ -2159,6 +2820,10 @@ export type Database = {
         Args: { prompt_id: string }
         Returns: undefined
       }
+      toggle_chat_message_reaction: {
+        Args: { emoji: string; message_uuid: string; user_uuid: string }
+        Returns: Json
+      }
       upsert_contextual_learning_data: {
         Args: {
           p_collocations: Json
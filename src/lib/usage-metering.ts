@@ -0,0 +1,118 @@
+import { NextRequest } from 'next/server'
+import { corsResponse } from './cors'
+import { getCurrentUserServer, getSupabaseServer } from './supabase/server'
+import {
+  PLANS,
+  usageResetsAt,
+  usageService,
+  type UsageCheck,
+  type UsageFeature
+} from './services/usage-service'
+
+type RouteHandler<C> = (request: NextRequest, context: C) => Promise<Response>
+
+// Features a request uses: fixed, or read from its JSON body
+type FeatureResolver = UsageFeature[] | ((body: Record<string, unknown>) => UsageFeature[])
+
+// Question generation, counted as custom prompt use too when a custom prompt is picked
+export const questionGenerationFeatures: FeatureResolver = body =>
+  body.customPromptId ? ['ai_generation', 'custom_prompts'] : ['ai_generation']
+
+const QUOTA_HEADERS = ['X-Usage-Limit', 'X-Usage-Remaining', 'X-Usage-Reset']
+
+// e.g. "ai_generation=30, custom_prompts=unlimited"
+const formatQuota = (checks: UsageCheck[], value: (check: UsageCheck) => number | null) =>
+  checks.map(check => `${check.feature}=${value(check) ?? 'unlimited'}`).join(', ')
+
+function setQuotaHeaders(response: Response, checks: UsageCheck[]) {
+  response.headers.set('X-Usage-Limit', formatQuota(checks, check => check.limit))
+  response.headers.set('X-Usage-Remaining', formatQuota(checks, check => check.remaining))
+  response.headers.set('X-Usage-Reset', usageResetsAt())
+  response.headers.set('Access-Control-Expose-Headers', QUOTA_HEADERS.join(', '))
+  return response
+}
+
+async function releaseAll(userId: string, checks: UsageCheck[]) {
+  try {
+    await Promise.all(checks.map(check => usageService.release(userId, check.feature)))
+  } catch (error) {
+    console.error('Failed to release usage:', error)
+  }
+}
+
+/**
+ * Meter a route against the caller's plan. Each feature is counted before
+ * the handler runs and given back if it fails, so only successful requests
+ * use quota. Over the limit, the handler is skipped and a 402 explains which
+ * limit was hit and when it resets. Responses carry the remaining quota.
+ */
+export function withUsageMetering<C>(features: FeatureResolver, handler: RouteHandler<C>): RouteHandler<C> {
+  return async (request, context) => {
+    const supabase = getSupabaseServer(request)
+    const user = await getCurrentUserServer(supabase)
+
+    if (!user) {
+      return corsResponse({ error: 'Authentication required' }, 401)
+    }
+
+    let metered: UsageFeature[]
+    if (Array.isArray(features)) {
+      metered = features
+    } else {
+      const body = await request
+        .clone()
+        .json()
+        .catch(() => ({}))
+      metered = features(body && typeof body === 'object' ? body : {})
+    }
+
+    const checks: UsageCheck[] = []
+    try {
+      for (const feature of metered) {
+        const check = await usageService.consume(user.id, feature)
+
+        if (!check.allowed) {
+          await releaseAll(user.id, checks)
+          const plan = PLANS[check.planId]
+          return setQuotaHeaders(
+            corsResponse(
+              {
+                error: `You've used all ${check.limit} ${check.label.toLowerCase()} included in the ${plan.name} plan this month.`,
+                code: 'usage_limit_exceeded',
+                feature: check.feature,
+                plan: plan.id,
+                limit: check.limit,
+                used: check.used,
+                resetsAt: usageResetsAt()
+              },
+              402
+            ),
+            [check]
+          )
+        }
+
+        checks.push(check)
+      }
+    } catch (error) {
+      // Metering problems shouldn't take the feature down with them
+      console.error('Usage metering unavailable:', error)
+      await releaseAll(user.id, checks)
+      return handler(request, context)
+    }
+
+    let response: Response
+    try {
+      response = await handler(request, context)
+    } catch (error) {
+      await releaseAll(user.id, checks)
+      throw error
+    }
+
+    if (!response.ok) {
+      await releaseAll(user.id, checks)
+      return response
+    }
+
+    return setQuotaHeaders(response, checks)
+  }
+}
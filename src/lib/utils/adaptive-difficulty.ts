@@ -0,0 +1,185 @@
+// Adaptive difficulty engine: picks each next question from the level that
+// matches the learner's running accuracy and response time. Pure functions
+// over plain state so the individual and group quiz flows can share it.
+
+export type AdaptiveLevel = 'easy' | 'medium' | 'hard'
+
+export const ADAPTIVE_LEVELS: AdaptiveLevel[] = ['easy', 'medium', 'hard']
+
+export interface AdaptiveConfig {
+  totalQuestions: number
+  startLevel: AdaptiveLevel
+  // Number of most recent answers used for the running accuracy
+  windowSize: number
+  promoteAccuracy: number
+  demoteAccuracy: number
+  // Correct answers slower than this are not enough to move up;
+  // wrong answers slower than this move down
+  slowResponseMs: number
+}
+
+export const DEFAULT_ADAPTIVE_CONFIG: AdaptiveConfig = {
+  totalQuestions: 9,
+  startLevel: 'medium',
+  windowSize: 3,
+  promoteAccuracy: 0.66,
+  demoteAccuracy: 0.34,
+  slowResponseMs: 45_000
+}
+
+export interface AdaptiveItem {
+  id?: string
+  question?: string
+  difficulty?: string
+}
+
+export interface AdaptiveAnswer {
+  questionId: string
+  level: AdaptiveLevel
+  isCorrect: boolean
+  responseTimeMs?: number
+}
+
+export interface AdaptiveState {
+  level: AdaptiveLevel
+  answers: AdaptiveAnswer[]
+  usedQuestionIds: string[]
+}
+
+export interface AdaptiveEstimate {
+  level: AdaptiveLevel
+  // Mean of each answer's level (1 easy to 3 hard), plus half a level when
+  // correct and minus half when wrong
+  ability: number
+  accuracyByLevel: Record<AdaptiveLevel, { answered: number; correct: number }>
+  levelPath: AdaptiveLevel[]
+}
+
+export function toAdaptiveLevel(difficulty?: string): AdaptiveLevel {
+  return ADAPTIVE_LEVELS.includes(difficulty as AdaptiveLevel)
+    ? (difficulty as AdaptiveLevel)
+    : 'medium'
+}
+
+export function adaptiveItemId(item: AdaptiveItem): string {
+  return item.id || item.question || ''
+}
+
+function shiftLevel(level: AdaptiveLevel, step: number): AdaptiveLevel {
+  const index = ADAPTIVE_LEVELS.indexOf(level) + step
+  return ADAPTIVE_LEVELS[Math.min(Math.max(index, 0), ADAPTIVE_LEVELS.length - 1)]
+}
+
+export function createAdaptiveState(config: AdaptiveConfig = DEFAULT_ADAPTIVE_CONFIG): AdaptiveState {
+  return { level: config.startLevel, answers: [], usedQuestionIds: [] }
+}
+
+/**
+ * Level for the next question given every answer so far. Moves from the level
+ * of the question last answered, which differs from the target level when
+ * selection had to fall back to another level.
+ */
+export function nextAdaptiveLevel(
+  state: AdaptiveState,
+  config: AdaptiveConfig = DEFAULT_ADAPTIVE_CONFIG
+): AdaptiveLevel {
+  const last = state.answers[state.answers.length - 1]
+  if (!last) return state.level
+
+  const recent = state.answers.slice(-config.windowSize)
+  const accuracy = recent.filter(answer => answer.isCorrect).length / recent.length
+  const isSlow = (last.responseTimeMs ?? 0) > config.slowResponseMs
+
+  if (last.isCorrect && accuracy >= config.promoteAccuracy && !isSlow) {
+    return shiftLevel(last.level, 1)
+  }
+  if (!last.isCorrect && (accuracy <= config.demoteAccuracy || isSlow)) {
+    return shiftLevel(last.level, -1)
+  }
+  return last.level
+}
+
+/**
+ * Record an answer to the most recently selected question and move the level.
+ * The answer's level is the served question's difficulty (toAdaptiveLevel).
+ */
+export function recordAdaptiveAnswer(
+  state: AdaptiveState,
+  answer: AdaptiveAnswer,
+  config: AdaptiveConfig = DEFAULT_ADAPTIVE_CONFIG
+): AdaptiveState {
+  const answered: AdaptiveState = {
+    ...state,
+    answers: [...state.answers, answer]
+  }
+  return { ...answered, level: nextAdaptiveLevel(answered, config) }
+}
+
+/**
+ * Pick an unused question at the current level, falling back to the nearest
+ * level that still has questions. Returns the updated state alongside it.
+ */
+export function selectAdaptiveQuestion<T extends AdaptiveItem>(
+  state: AdaptiveState,
+  pool: T[],
+  random: () => number = Math.random
+): { question: T; state: AdaptiveState } | null {
+  const unused = pool.filter(item => !state.usedQuestionIds.includes(adaptiveItemId(item)))
+  const levelIndex = ADAPTIVE_LEVELS.indexOf(state.level)
+  const byDistance = [...ADAPTIVE_LEVELS].sort(
+    (a, b) =>
+      Math.abs(ADAPTIVE_LEVELS.indexOf(a) - levelIndex) -
+      Math.abs(ADAPTIVE_LEVELS.indexOf(b) - levelIndex)
+  )
+
+  for (const level of byDistance) {
+    const candidates = unused.filter(item => toAdaptiveLevel(item.difficulty) === level)
+    if (candidates.length === 0) continue
+
+    const question = candidates[Math.floor(random() * candidates.length)]
+    return {
+      question,
+      state: { ...state, usedQuestionIds: [...state.usedQuestionIds, adaptiveItemId(question)] }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Whether the quiz should end after the question currently being answered
+ */
+export function isFinalAdaptiveQuestion(
+  state: AdaptiveState,
+  pool: AdaptiveItem[],
+  config: AdaptiveConfig = DEFAULT_ADAPTIVE_CONFIG
+): boolean {
+  const remaining = pool.filter(item => !state.usedQuestionIds.includes(adaptiveItemId(item)))
+  return state.answers.length + 1 >= config.totalQuestions || remaining.length === 0
+}
+
+export function estimateAdaptiveLevel(state: AdaptiveState): AdaptiveEstimate {
+  const accuracyByLevel = {
+    easy: { answered: 0, correct: 0 },
+    medium: { answered: 0, correct: 0 },
+    hard: { answered: 0, correct: 0 }
+  }
+
+  let total = 0
+  for (const answer of state.answers) {
+    accuracyByLevel[answer.level].answered++
+    if (answer.isCorrect) accuracyByLevel[answer.level].correct++
+    total += ADAPTIVE_LEVELS.indexOf(answer.level) + 1 + (answer.isCorrect ? 0.5 : -0.5)
+  }
+
+  const ability = state.answers.length
+    ? Math.round((total / state.answers.length) * 100) / 100
+    : ADAPTIVE_LEVELS.indexOf(state.level) + 1
+
+  return {
+    level: ability < 1.75 ? 'easy' : ability < 2.5 ? 'medium' : 'hard',
+    ability,
+    accuracyByLevel,
+    levelPath: state.answers.map(answer => answer.level)
+  }
+}
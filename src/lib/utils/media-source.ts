@@ -0,0 +1,79 @@
+export type MediaSourceType = 'youtube' | 'media_url'
+
+// Where a loop's transcript came from
+export type TranscriptSourceType = 'youtube' | 'subtitle_file'
+
+const YOUTUBE_ID_PATTERN = /^[a-zA-Z0-9_-]{11}$/
+
+export const isYouTubeUrl = (url?: string) => {
+  if (!url) return false
+  const hostname = safeHostname(url)
+  // Bare ids and scheme-less URLs don't parse; fall back to a substring check
+  return hostname
+    ? /(^|\.)(youtube\.com|youtu\.be)$/i.test(hostname)
+    : /youtube\.com|youtu\.be/i.test(url)
+}
+
+export const getMediaSourceType = (url: string): MediaSourceType =>
+  isYouTubeUrl(url) ? 'youtube' : 'media_url'
+
+export const extractYouTubeVideoId = (input: string): string | null => {
+  const trimmed = input.trim()
+  if (YOUTUBE_ID_PATTERN.test(trimmed)) return trimmed
+
+  const patterns = [
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([a-zA-Z0-9_-]{11})/,
+    /youtube\.com\/.*[?&]v=([a-zA-Z0-9_-]{11})/
+  ]
+
+  for (const pattern of patterns) {
+    const match = trimmed.match(pattern)
+    if (match?.[1]) return match[1]
+  }
+
+  return null
+}
+
+/**
+ * Stable id for a loop's media: the YouTube video id, or `media_` plus a hash
+ * of the URL for any other source so the same recording maps to the same id.
+ */
+export const mediaIdFromUrl = (url: string): string => {
+  const youtubeId = isYouTubeUrl(url) ? extractYouTubeVideoId(url) : null
+  if (youtubeId) return youtubeId
+
+  // FNV-1a, rendered in base 36; short enough for video_id columns
+  let hash = 0x811c9dc5
+  for (let i = 0; i < url.length; i++) {
+    hash ^= url.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return `media_${hash.toString(36).padStart(7, '0')}`
+}
+
+/**
+ * Link that opens the media at a given time. YouTube uses `t=`, other URLs use
+ * a media fragment (`#t=`), which browsers honour for direct audio/video files.
+ */
+export const getMediaLinkAt = (mediaUrl: string, startTime: number): string => {
+  const seconds = Math.max(0, Math.floor(startTime))
+
+  if (isYouTubeUrl(mediaUrl)) {
+    const videoId = extractYouTubeVideoId(mediaUrl)
+    if (videoId) {
+      return `https://www.youtube.com/watch?v=${videoId}&t=${seconds}s`
+    }
+    return mediaUrl
+  }
+
+  const [base] = mediaUrl.split('#')
+  return `${base}#t=${seconds}`
+}
+
+function safeHostname(url: string): string {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return ''
+  }
+}
@@ -0,0 +1,46 @@
+type NotificationData = Record<string, unknown> | null
+
+interface LinkableNotification {
+  type: string
+  data: unknown
+}
+
+// Stored URLs are absolute; keep only the in-app part so links work on any host
+const toAppPath = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !value) return null
+  try {
+    const url = new URL(value, 'http://localhost')
+    return `${url.pathname}${url.search}`
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Where clicking a notification should take the user, or null if nowhere
+ */
+export function getNotificationLink(notification: LinkableNotification): string | null {
+  const data = (notification.data && typeof notification.data === 'object'
+    ? notification.data
+    : null) as NotificationData
+  if (!data) return null
+
+  switch (notification.type) {
+    case 'group_invite':
+      return toAppPath(data.inviteUrl)
+    case 'session_reminder':
+      return typeof data.groupId === 'string' && typeof data.sessionId === 'string'
+        ? `/groups/${data.groupId}/quiz/${data.sessionId}`
+        : null
+    case 'join_request_decision':
+      return data.approved ? toAppPath(data.groupUrl) : '/groups'
+    case 'achievement':
+      return '/profile'
+    case 'challenge_completed':
+      return typeof data.groupId === 'string' ? `/groups/${data.groupId}?tab=challenges` : null
+    default:
+      if (data.sessionUrl) return toAppPath(data.sessionUrl)
+      if (typeof data.groupId === 'string') return `/groups/${data.groupId}`
+      return null
+  }
+}
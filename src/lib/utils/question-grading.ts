@@ -0,0 +1,209 @@
+import {
+  QUESTION_KINDS,
+  type GeneratedQuestion,
+  type QuestionKind
+} from '../services/ai/types'
+
+// Three or more underscores mark a blank in cloze questions
+export const CLOZE_BLANK_PATTERN = /_{3,}/g
+
+// Cloze answers for several blanks travel as one response string
+export const CLOZE_ANSWER_SEPARATOR = ' | '
+
+// Minimum similarity (0-1) for a short answer to count as correct
+export const SHORT_ANSWER_SIMILARITY_THRESHOLD = 0.85
+// Minimum token overlap (F1) for longer short answers worded differently
+export const SHORT_ANSWER_TOKEN_OVERLAP_THRESHOLD = 0.8
+
+const ARTICLES = new Set(['a', 'an', 'the'])
+
+type GradableQuestion = Pick<
+  GeneratedQuestion,
+  'question' | 'options' | 'correctAnswer' | 'acceptedAnswers'
+> & { kind?: string }
+
+export interface GradedAnswer {
+  isCorrect: boolean
+  // Human-readable answers for result screens
+  userAnswerText: string
+  correctAnswerText: string
+}
+
+export function getQuestionKind(question: { kind?: string }): QuestionKind {
+  return QUESTION_KINDS.includes(question.kind as QuestionKind)
+    ? (question.kind as QuestionKind)
+    : 'multiple_choice'
+}
+
+export function countClozeBlanks(text: string): number {
+  return text.match(CLOZE_BLANK_PATTERN)?.length || 0
+}
+
+export function splitClozeAnswer(answer: string): string[] {
+  return answer.split('|').map(part => part.trim())
+}
+
+export function joinClozeAnswer(parts: string[]): string {
+  return parts.map(part => part.trim()).join(CLOZE_ANSWER_SEPARATOR)
+}
+
+export function optionLetter(index: number): string {
+  return String.fromCharCode(65 + index)
+}
+
+function optionIndex(letter: string): number {
+  return letter.trim().toUpperCase().charCodeAt(0) - 65
+}
+
+/**
+ * Lowercase, strip accents and punctuation, and collapse whitespace so that
+ * typed answers compare on content rather than formatting.
+ */
+export function normalizeAnswerText(text: string, options: { dropArticles?: boolean } = {}) {
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’‘`]/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+
+  return (options.dropArticles ? words.filter(word => !ARTICLES.has(word)) : words).join(' ')
+}
+
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// 1 for identical strings, 0 for completely different ones
+export function textSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length)
+  return longest === 0 ? 1 : 1 - levenshteinDistance(a, b) / longest
+}
+
+function tokenOverlap(a: string, b: string): number {
+  const aTokens = a.split(' ').filter(Boolean)
+  const bTokens = new Set(b.split(' ').filter(Boolean))
+  if (aTokens.length === 0 || bTokens.size === 0) return 0
+
+  const shared = new Set(aTokens.filter(token => bTokens.has(token))).size
+  const precision = shared / new Set(aTokens).size
+  const recall = shared / bTokens.size
+  return precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall)
+}
+
+// Dictation blanks: exact after normalization, one typo allowed in longer words
+function clozeBlankMatches(given: string, expected: string): boolean {
+  const a = normalizeAnswerText(given)
+  const b = normalizeAnswerText(expected)
+  if (!a) return false
+  if (a === b) return true
+  return b.length >= 5 && levenshteinDistance(a, b) <= 1
+}
+
+function shortAnswerMatches(given: string, expected: string): boolean {
+  const a = normalizeAnswerText(given, { dropArticles: true })
+  const b = normalizeAnswerText(expected, { dropArticles: true })
+  if (!a || !b) return false
+  if (a === b) return true
+  if (textSimilarity(a, b) >= SHORT_ANSWER_SIMILARITY_THRESHOLD) return true
+  return b.includes(' ') && tokenOverlap(a, b) >= SHORT_ANSWER_TOKEN_OVERLAP_THRESHOLD
+}
+
+function describeOption(question: GradableQuestion, letter: string): string {
+  return question.options?.[optionIndex(letter)] || letter
+}
+
+/**
+ * Grade one answer against a question of any kind. Answer formats:
+ * - multiple_choice / true_false_not_given: option letter
+ * - ordering: option letters in the chosen order, e.g. "CADB"
+ * - cloze: one answer per blank joined with " | "
+ * - short_answer: free text
+ */
+export function gradeAnswer(question: GradableQuestion, answer: string | undefined): GradedAnswer {
+  const given = (answer || '').trim()
+  const correctAnswer = (question.correctAnswer || '').trim()
+
+  switch (getQuestionKind(question)) {
+    case 'ordering': {
+      const givenOrder = given.toUpperCase().replace(/[^A-Z]/g, '')
+      const correctOrder = correctAnswer.toUpperCase().replace(/[^A-Z]/g, '')
+      const describe = (order: string) =>
+        order
+          .split('')
+          .map(letter => describeOption(question, letter))
+          .join(' → ')
+
+      return {
+        isCorrect: givenOrder.length > 0 && givenOrder === correctOrder,
+        userAnswerText: describe(givenOrder),
+        correctAnswerText: describe(correctOrder)
+      }
+    }
+
+    case 'cloze': {
+      const expected =
+        question.acceptedAnswers && question.acceptedAnswers.length > 0
+          ? question.acceptedAnswers
+          : splitClozeAnswer(correctAnswer)
+      const parts = splitClozeAnswer(given)
+
+      return {
+        isCorrect:
+          parts.length === expected.length &&
+          expected.every((blank, index) => clozeBlankMatches(parts[index] || '', blank)),
+        userAnswerText: parts.join(', '),
+        correctAnswerText: expected.join(', ')
+      }
+    }
+
+    case 'short_answer': {
+      const candidates = [correctAnswer, ...(question.acceptedAnswers || [])].filter(Boolean)
+
+      return {
+        isCorrect: candidates.some(candidate => shortAnswerMatches(given, candidate)),
+        userAnswerText: given,
+        correctAnswerText: correctAnswer
+      }
+    }
+
+    default: {
+      // Accept either an option letter or the option text itself. A one-character
+      // answer is a letter only when it names one of the options; when it is both
+      // a letter and another option's text, the letter wins (answers are letters).
+      const options = question.options || []
+      const letterIndex = /^[a-z]$/i.test(given) ? optionIndex(given) : -1
+      const textIndex = options.findIndex(
+        option =>
+          option.trim() === given ||
+          (normalizeAnswerText(given) !== '' && normalizeAnswerText(option) === normalizeAnswerText(given))
+      )
+      const givenIndex = letterIndex >= 0 && letterIndex < options.length ? letterIndex : textIndex
+      const givenLetter = givenIndex >= 0 ? optionLetter(givenIndex) : letterIndex >= 0 ? given.toUpperCase() : given
+
+      return {
+        isCorrect: givenLetter.length > 0 && givenLetter === correctAnswer.toUpperCase(),
+        userAnswerText: describeOption(question, givenLetter),
+        correctAnswerText: describeOption(question, correctAnswer)
+      }
+    }
+  }
+}
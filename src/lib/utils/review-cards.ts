@@ -0,0 +1,143 @@
+import type { ReviewGrade } from '../services/srs'
+import type { ExportCard } from './vocabulary-transfer'
+
+export type ReviewCardType =
+  | 'word_to_definition'
+  | 'definition_to_word'
+  | 'vietnamese_to_english'
+  | 'context_cloze'
+  | 'listening'
+
+export const REVIEW_CARD_TYPES: Record<ReviewCardType, { label: string; prompt: string }> = {
+  word_to_definition: { label: 'Word → definition', prompt: 'What does this mean?' },
+  definition_to_word: { label: 'Definition → word', prompt: 'Which word matches this definition?' },
+  vietnamese_to_english: { label: 'Vietnamese → English', prompt: 'Say it in English' },
+  context_cloze: { label: 'Context cloze', prompt: 'Fill in the missing word' },
+  listening: { label: 'Listening', prompt: 'Play the clip and recall the word you hear' }
+}
+
+export const ALL_REVIEW_CARD_TYPES = Object.keys(REVIEW_CARD_TYPES) as ReviewCardType[]
+
+// A deck card with the loop it was saved from, as shown in a review
+export type ReviewCardContent = ExportCard
+
+export interface ReviewSessionCard {
+  vocabularyId: string
+  type: ReviewCardType
+}
+
+export interface ReviewAnswer {
+  vocabularyId: string
+  type: ReviewCardType
+  grade: ReviewGrade
+  responseTimeMs: number
+  answeredAt: string
+}
+
+export type ReviewSessionStatus = 'active' | 'completed' | 'abandoned'
+
+// Shape of user_srs_sessions.session_data
+export interface ReviewSessionData {
+  status: ReviewSessionStatus
+  cards: ReviewSessionCard[]
+  // Index of the next card to answer; equals cards.length once every card is answered
+  currentIndex: number
+  answers: ReviewAnswer[]
+  startedAt: string
+  completedAt: string | null
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * The context sentence with the card's text blanked out, or null when the
+ * sentence doesn't contain it
+ */
+export function clozeSentence(context: string | null, text: string): string | null {
+  const needle = text.trim()
+  if (!context || !needle) return null
+  // Anchored at a word start so 'run' blanks 'running' but not 'brunch'
+  const pattern = new RegExp(`${/^\w/.test(needle) ? '\\b' : ''}${escapeRegExp(needle)}`, 'gi')
+  if (!pattern.test(context)) return null
+  return context.replace(pattern, '_____')
+}
+
+/**
+ * Card types a deck card has the content for. Word → definition always works.
+ */
+export function availableCardTypes(card: ReviewCardContent): ReviewCardType[] {
+  const types: ReviewCardType[] = ['word_to_definition']
+  if (card.definition.trim()) types.push('definition_to_word')
+  if (card.definition_vi?.trim()) types.push('vietnamese_to_english')
+  if (clozeSentence(card.context, card.text)) types.push('context_cloze')
+  if (card.source && youtubeEmbedUrl(card.source.videoUrl, card.source.startTime, card.source.endTime)) {
+    types.push('listening')
+  }
+  return types
+}
+
+/**
+ * One of the enabled types the card supports, picked at random so a session
+ * mixes directions. Falls back to word → definition.
+ */
+export function pickCardType(card: ReviewCardContent, enabled: ReviewCardType[]): ReviewCardType {
+  const candidates = availableCardTypes(card).filter(type => enabled.includes(type))
+  if (candidates.length === 0) return 'word_to_definition'
+  return candidates[Math.floor(Math.random() * candidates.length)]
+}
+
+const YOUTUBE_ID_PATTERN = /(?:youtube\.com\/watch\?(?:.*&)?v=|youtu\.be\/|youtube\.com\/embed\/)([\w-]{6,})/
+
+/**
+ * Embed URL that plays only the loop's segment, or null for non-YouTube
+ * sources and loops without timestamps
+ */
+export function youtubeEmbedUrl(videoUrl: string | null, startTime: number | null, endTime: number | null): string | null {
+  const videoId = videoUrl?.match(YOUTUBE_ID_PATTERN)?.[1]
+  if (!videoId || startTime === null) return null
+
+  const params = new URLSearchParams({ start: String(Math.floor(startTime)), rel: '0' })
+  if (endTime !== null && endTime > startTime) params.set('end', String(Math.ceil(endTime)))
+  return `https://www.youtube-nocookie.com/embed/${videoId}?${params}`
+}
+
+export interface ReviewSessionSummary {
+  total: number
+  answered: number
+  grades: Record<ReviewGrade, number>
+  // Share of answered cards not graded 'again', 0-100
+  accuracy: number
+  averageResponseMs: number
+  durationMs: number
+  byType: Partial<Record<ReviewCardType, { answered: number; correct: number }>>
+  // Cards graded 'again', for a second look
+  missedIds: string[]
+}
+
+export function summarizeSession(data: ReviewSessionData): ReviewSessionSummary {
+  const grades: Record<ReviewGrade, number> = { again: 0, hard: 0, good: 0, easy: 0 }
+  const byType: ReviewSessionSummary['byType'] = {}
+  let totalResponseMs = 0
+
+  for (const answer of data.answers) {
+    grades[answer.grade]++
+    totalResponseMs += answer.responseTimeMs
+    const stats = (byType[answer.type] ??= { answered: 0, correct: 0 })
+    stats.answered++
+    if (answer.grade !== 'again') stats.correct++
+  }
+
+  const answered = data.answers.length
+  const lastAnswerAt = data.completedAt || data.answers[answered - 1]?.answeredAt || data.startedAt
+
+  return {
+    total: data.cards.length,
+    answered,
+    grades,
+    accuracy: answered > 0 ? Math.round(((answered - grades.again) / answered) * 100) : 0,
+    averageResponseMs: answered > 0 ? Math.round(totalResponseMs / answered) : 0,
+    durationMs: Math.max(0, new Date(lastAnswerAt).getTime() - new Date(data.startedAt).getTime()),
+    byType,
+    missedIds: data.answers.filter(answer => answer.grade === 'again').map(answer => answer.vocabularyId)
+  }
+}
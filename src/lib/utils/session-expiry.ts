@@ -0,0 +1,18 @@
+// Group quiz sessions stay open for 24 hours after they start
+export const SESSION_LIFETIME_MS = 24 * 60 * 60 * 1000
+
+interface ExpirableSession {
+  session_type?: string | null
+  created_at?: string | null
+  scheduled_at?: string | null
+}
+
+/**
+ * Instant sessions expire 24h after creation, scheduled sessions 24h after their scheduled time
+ */
+export function isSessionExpiredByTime(session: ExpirableSession, now: Date = new Date()): boolean {
+  const startedAt = session.session_type === 'instant' ? session.created_at : session.scheduled_at
+  if (!startedAt) return false
+
+  return new Date(startedAt).getTime() < now.getTime() - SESSION_LIFETIME_MS
+}
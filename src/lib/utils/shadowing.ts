@@ -0,0 +1,101 @@
+import type { TranscriptSegment } from '../services/loop-management-service'
+import { textSimilarity } from './question-grading'
+import { diffWords, type WordDiff } from './text-diff'
+
+// Substitutions at least this close in spelling count as half right: usually
+// the word was attempted but recognized slightly differently
+const NEAR_MISS_SIMILARITY = 0.75
+
+const MAX_LISTED_WORDS = 5
+
+// A transcript segment of a loop, the unit the learner repeats
+export interface ShadowingSegment {
+  index: number
+  text: string
+  start: number
+  end: number
+}
+
+// Shape of comparison_results.pronunciation_feedback
+export interface ShadowingFeedback {
+  expectedText: string
+  transcription: string
+  words: WordDiff[]
+  matchedWords: number
+  expectedWords: number
+  provider: string
+}
+
+export interface ShadowingComparison {
+  words: WordDiff[]
+  matchedWords: number
+  expectedWords: number
+  // 0-100
+  similarity: number
+  suggestions: string[]
+}
+
+export function shadowingSegments(segments: TranscriptSegment[]): ShadowingSegment[] {
+  return segments
+    .map((segment, index) => ({
+      index,
+      text: segment.text.replace(/\s+/g, ' ').trim(),
+      start: segment.start,
+      end: segment.start + segment.duration
+    }))
+    .filter(segment => segment.text)
+}
+
+export const isNearMiss = (word: WordDiff) =>
+  word.type === 'substituted' &&
+  textSimilarity((word.expected || '').toLowerCase(), (word.spoken || '').toLowerCase()) >= NEAR_MISS_SIMILARITY
+
+const quoteList = (words: string[]) => {
+  const quoted = words.slice(0, MAX_LISTED_WORDS).map(word => `"${word}"`)
+  return words.length > MAX_LISTED_WORDS ? `${quoted.join(', ')} and ${words.length - MAX_LISTED_WORDS} more` : quoted.join(', ')
+}
+
+/**
+ * Compare what the learner said with the segment text: a word-level diff,
+ * a similarity score and a few concrete things to work on
+ */
+export function compareShadowing(expectedText: string, transcription: string): ShadowingComparison {
+  const words = diffWords(expectedText, transcription)
+  const expectedWords = words.filter(word => word.expected !== null).length
+  const spokenWords = words.filter(word => word.spoken !== null).length
+  const matchedWords = words.filter(word => word.type === 'match').length
+  const nearMisses = words.filter(isNearMiss)
+
+  const longest = Math.max(expectedWords, spokenWords)
+  const similarity = longest === 0 ? 0 : Math.round(((matchedWords + nearMisses.length * 0.5) / longest) * 100)
+
+  const suggestions: string[] = []
+  if (spokenWords === 0) {
+    suggestions.push("We couldn't hear any words. Check your microphone and try again.")
+  } else {
+    const missing = words.filter(word => word.type === 'missing').map(word => word.expected!)
+    const mispronounced = nearMisses.map(word => word.expected!)
+    const replaced = words
+      .filter(word => word.type === 'substituted' && !isNearMiss(word))
+      .map(word => `"${word.spoken}" instead of "${word.expected}"`)
+    const extra = words.filter(word => word.type === 'extra').map(word => word.spoken!)
+
+    if (missing.length > 0) {
+      suggestions.push(`You skipped ${quoteList(missing)}. Listen again and keep pace with the speaker.`)
+    }
+    if (mispronounced.length > 0) {
+      suggestions.push(`Work on the pronunciation of ${quoteList(mispronounced)}.`)
+    }
+    if (replaced.length > 0) {
+      suggestions.push(`You said ${replaced.slice(0, MAX_LISTED_WORDS).join(', ')}.`)
+    }
+    if (extra.length > 0) {
+      suggestions.push(`Leave out extra words such as ${quoteList(extra)}.`)
+    }
+    if (similarity >= 90) {
+      suggestions.push("Great shadowing! Next, try to match the speaker's rhythm and intonation.")
+    }
+  }
+
+  return { words, matchedWords, expectedWords, similarity, suggestions }
+}
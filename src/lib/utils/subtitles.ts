@@ -0,0 +1,78 @@
+export type SubtitleFormat = 'srt' | 'vtt'
+
+export interface SubtitleSegment {
+  text: string
+  start: number
+  duration: number
+}
+
+// Cue blocks in WebVTT that carry no spoken text
+const VTT_METADATA_BLOCKS = /^(WEBVTT|NOTE|STYLE|REGION)\b/
+
+export const detectSubtitleFormat = (content: string, fileName?: string): SubtitleFormat => {
+  if (fileName?.toLowerCase().endsWith('.vtt')) return 'vtt'
+  if (fileName?.toLowerCase().endsWith('.srt')) return 'srt'
+  return content.replace(/^\uFEFF/, '').trimStart().startsWith('WEBVTT') ? 'vtt' : 'srt'
+}
+
+/**
+ * Parse `HH:MM:SS,mmm` (SRT) or `[HH:]MM:SS.mmm` (WebVTT) into seconds
+ */
+export const parseSubtitleTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/)
+  if (!match) return null
+
+  const [, hours, minutes, seconds, millis] = match
+  return (
+    Number(hours || 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number((millis || '0').padEnd(3, '0')) / 1000
+  )
+}
+
+/**
+ * Parse an SRT or WebVTT file into transcript segments, sorted by start time.
+ * Formatting tags are stripped and multi-line cues are joined with spaces.
+ */
+export const parseSubtitles = (content: string, format?: SubtitleFormat): SubtitleSegment[] => {
+  const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+  const resolvedFormat = format || detectSubtitleFormat(normalized)
+  const segments: SubtitleSegment[] = []
+
+  for (const block of normalized.split(/\n{2,}/)) {
+    const lines = block.split('\n').filter(line => line.trim().length > 0)
+    if (lines.length === 0) continue
+    if (resolvedFormat === 'vtt' && VTT_METADATA_BLOCKS.test(lines[0])) continue
+
+    const timingIndex = lines.findIndex(line => line.includes('-->'))
+    if (timingIndex === -1) continue
+
+    const [startPart, endPart] = lines[timingIndex].split('-->')
+    const start = parseSubtitleTimestamp(startPart)
+    // WebVTT cue settings follow the end timestamp
+    const end = parseSubtitleTimestamp((endPart || '').trim().split(/\s+/)[0] || '')
+    if (start === null || end === null || end < start) continue
+
+    const text = cleanCueText(lines.slice(timingIndex + 1).join(' '))
+    if (!text) continue
+
+    segments.push({ text, start, duration: Number((end - start).toFixed(3)) })
+  }
+
+  return segments.sort((a, b) => a.start - b.start)
+}
+
+function cleanCueText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
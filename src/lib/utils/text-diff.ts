@@ -0,0 +1,151 @@
+import { normalizeAnswerText } from './question-grading'
+
+export type DiffLineType = 'same' | 'added' | 'removed' | 'changed'
+
+export interface DiffRow {
+  type: DiffLineType
+  left: string | null
+  right: string | null
+  leftNumber: number | null
+  rightNumber: number | null
+}
+
+type DiffOp = { type: 'same' | 'added' | 'removed'; line: string }
+
+// Longest-common-subsequence over lines or words; inputs are short enough for the O(n*m) table
+const diffOps = (a: string[], b: string[]): DiffOp[] => {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const ops: DiffOp[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'same', line: a[i] })
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ type: 'removed', line: a[i++] })
+    } else {
+      ops.push({ type: 'added', line: b[j++] })
+    }
+  }
+  while (i < a.length) ops.push({ type: 'removed', line: a[i++] })
+  while (j < b.length) ops.push({ type: 'added', line: b[j++] })
+
+  return ops
+}
+
+/**
+ * Line diff laid out for a side-by-side view. Runs of removed lines followed by
+ * added lines are paired up as `changed` rows.
+ */
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const ops = diffOps(before.split('\n'), after.split('\n'))
+  const rows: DiffRow[] = []
+  let leftNumber = 1
+  let rightNumber = 1
+  let k = 0
+
+  while (k < ops.length) {
+    if (ops[k].type === 'same') {
+      rows.push({ type: 'same', left: ops[k].line, right: ops[k].line, leftNumber: leftNumber++, rightNumber: rightNumber++ })
+      k++
+      continue
+    }
+
+    const removed: string[] = []
+    const added: string[] = []
+    while (k < ops.length && ops[k].type === 'removed') removed.push(ops[k++].line)
+    while (k < ops.length && ops[k].type === 'added') added.push(ops[k++].line)
+
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const left = n < removed.length ? removed[n] : null
+      const right = n < added.length ? added[n] : null
+      rows.push({
+        type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added',
+        left,
+        right,
+        leftNumber: left !== null ? leftNumber++ : null,
+        rightNumber: right !== null ? rightNumber++ : null
+      })
+    }
+  }
+
+  return rows
+}
+
+export const hasDifferences = (rows: DiffRow[]): boolean => rows.some(row => row.type !== 'same')
+
+export type WordDiffType = 'match' | 'missing' | 'extra' | 'substituted'
+
+export interface WordDiff {
+  type: WordDiffType
+  // Word from the original text; null for extra words
+  expected: string | null
+  // Word as spoken; null for missing words
+  spoken: string | null
+}
+
+const tokenize = (text: string) =>
+  text
+    .split(/\s+/)
+    .map(word => ({ word, key: normalizeAnswerText(word) }))
+    .filter(token => token.key)
+
+/**
+ * Word diff of a spoken attempt against the original text. Case, accents and
+ * punctuation are ignored; runs of missing words followed by extra words are
+ * paired up as `substituted`.
+ */
+export const diffWords = (expected: string, spoken: string): WordDiff[] => {
+  const expectedTokens = tokenize(expected)
+  const spokenTokens = tokenize(spoken)
+  const ops = diffOps(
+    expectedTokens.map(token => token.key),
+    spokenTokens.map(token => token.key)
+  )
+  const words: WordDiff[] = []
+  let i = 0
+  let j = 0
+  let k = 0
+
+  while (k < ops.length) {
+    if (ops[k].type === 'same') {
+      words.push({ type: 'match', expected: expectedTokens[i++].word, spoken: spokenTokens[j++].word })
+      k++
+      continue
+    }
+
+    const missing: string[] = []
+    const extra: string[] = []
+    while (k < ops.length && ops[k].type === 'removed') {
+      missing.push(expectedTokens[i++].word)
+      k++
+    }
+    while (k < ops.length && ops[k].type === 'added') {
+      extra.push(spokenTokens[j++].word)
+      k++
+    }
+
+    for (let n = 0; n < Math.max(missing.length, extra.length); n++) {
+      const expectedWord = n < missing.length ? missing[n] : null
+      const spokenWord = n < extra.length ? extra[n] : null
+      words.push({
+        type: expectedWord !== null && spokenWord !== null ? 'substituted' : expectedWord !== null ? 'missing' : 'extra',
+        expected: expectedWord,
+        spoken: spokenWord
+      })
+    }
+  }
+
+  return words
+}
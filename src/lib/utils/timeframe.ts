@@ -1,3 +1,5 @@
+import { getMediaLinkAt } from './media-source'
+
 interface TimeframeReference {
   text: string
   startTime: number
@@ -18,28 +20,7 @@ export const formatVideoTimestamp = (seconds?: number) => {
 
 export const getVideoLink = (videoUrl?: string, startTime?: number) => {
   if (!videoUrl || startTime === undefined || startTime === null) return null
-
-  if (videoUrl.includes('youtube.com') || videoUrl.includes('youtu.be')) {
-    try {
-      const url = new URL(videoUrl)
-      const videoId =
-        url.hostname === 'youtu.be' ? url.pathname.slice(1) : url.searchParams.get('v')
-
-      if (videoId) {
-        return `https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(startTime)}s`
-      }
-    } catch (error) {
-      console.error('Invalid video URL:', videoUrl, error)
-      if (videoUrl.includes('youtu.be')) {
-        const videoId = videoUrl.split('/').pop()?.split('?')[0]
-        if (videoId) {
-          return `https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(startTime)}s`
-        }
-      }
-      return videoUrl
-    }
-  }
-  return videoUrl
+  return getMediaLinkAt(videoUrl, startTime)
 }
 
 export const extractTimeframeReferences = (explanation: string): TimeframeReference[] => {
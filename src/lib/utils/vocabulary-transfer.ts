@@ -0,0 +1,369 @@
+import type { Tables } from '../supabase/types'
+
+type DeckRow = Tables<'user_vocabulary_deck'>
+
+export type ExportFormat = 'csv' | 'json' | 'anki'
+
+export interface CardSource {
+  loopId: string
+  videoTitle: string | null
+  videoUrl: string | null
+  // Seconds into the video
+  startTime: number | null
+  endTime: number | null
+}
+
+export type ExportCard = DeckRow & { source: CardSource | null }
+
+export const CONTENT_FIELDS = [
+  'text',
+  'definition',
+  'definition_vi',
+  'pronunciation',
+  'part_of_speech',
+  'example',
+  'context',
+  'synonyms',
+  'antonyms',
+  'difficulty',
+  'item_type'
+] as const
+
+export const SRS_FIELDS = [
+  'learning_status',
+  'ease_factor',
+  'interval_days',
+  'repetitions',
+  'lapses',
+  'stability',
+  'fsrs_difficulty',
+  'next_review_date',
+  'last_practiced_at'
+] as const
+
+export type ImportField = (typeof CONTENT_FIELDS)[number] | (typeof SRS_FIELDS)[number]
+
+export type ImportCard = Partial<Record<Exclude<ImportField, 'synonyms' | 'antonyms'>, string>> & {
+  text: string
+  synonyms?: string[]
+  antonyms?: string[]
+}
+
+// Column index -> deck field; unmapped columns are ignored
+export type FieldMapping = Record<number, ImportField | ''>
+
+export interface ParsedFile {
+  headers: string[] | null
+  rows: string[][]
+  // Anki exports with #html:true carry HTML in their fields
+  html: boolean
+}
+
+const SOURCE_COLUMNS = ['source_loop_id', 'source_video', 'source_url', 'source_start', 'source_end'] as const
+
+const FIELD_ALIASES: Record<string, ImportField> = {
+  front: 'text',
+  word: 'text',
+  term: 'text',
+  phrase: 'text',
+  expression: 'text',
+  back: 'definition',
+  meaning: 'definition',
+  translation: 'definition_vi',
+  vietnamese: 'definition_vi',
+  ipa: 'pronunciation',
+  pos: 'part_of_speech',
+  sentence: 'context',
+  type: 'item_type',
+  status: 'learning_status',
+  ease: 'ease_factor',
+  interval: 'interval_days',
+  due: 'next_review_date'
+}
+
+const normalizeHeader = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_')
+
+const ALL_FIELDS: readonly ImportField[] = [...CONTENT_FIELDS, ...SRS_FIELDS]
+
+function fieldForHeader(header: string): ImportField | '' {
+  const key = normalizeHeader(header)
+  if ((ALL_FIELDS as readonly string[]).includes(key)) return key as ImportField
+  return FIELD_ALIASES[key] || ''
+}
+
+// ---- Export ----
+
+const formatTimestamp = (seconds: number) => {
+  const whole = Math.floor(seconds)
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`
+}
+
+/**
+ * "Video title @ 1:05–1:20", or null when the card has no source loop
+ */
+export function describeSource(source: CardSource | null): string | null {
+  if (!source) return null
+  const range =
+    source.startTime !== null
+      ? ` @ ${formatTimestamp(source.startTime)}${source.endTime !== null ? `–${formatTimestamp(source.endTime)}` : ''}`
+      : ''
+  return `${source.videoTitle || 'Loop'}${range}`
+}
+
+const listValue = (value: DeckRow['synonyms']) =>
+  Array.isArray(value) ? value.filter(item => typeof item === 'string').join('; ') : ''
+
+const escapeCsv = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Every content and SRS field plus the source loop, one card per row.
+ * Re-importing the file with SRS preservation restores the schedule.
+ */
+export function toCsv(cards: ExportCard[]): string {
+  const header = [...CONTENT_FIELDS, ...SRS_FIELDS, ...SOURCE_COLUMNS]
+  const lines = cards.map(card =>
+    [
+      ...CONTENT_FIELDS.map(field =>
+        field === 'synonyms' || field === 'antonyms' ? listValue(card[field]) : card[field]
+      ),
+      ...SRS_FIELDS.map(field => card[field]),
+      card.source?.loopId,
+      card.source?.videoTitle,
+      card.source?.videoUrl,
+      card.source?.startTime,
+      card.source?.endTime
+    ]
+      .map(escapeCsv)
+      .join(',')
+  )
+
+  return [header.join(','), ...lines].join('\r\n')
+}
+
+export function toJson(cards: ExportCard[]): string {
+  return JSON.stringify(
+    {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      cards: cards.map(card => ({ ...card, user_id: undefined }))
+    },
+    null,
+    2
+  )
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, ' ')
+    .replace(/\r?\n/g, '<br>')
+
+const ankiTag = (value: string) => value.trim().replace(/\s+/g, '_')
+
+/**
+ * Anki's text import format: Front, Back and Tags columns for the Basic note
+ * type. The header lines let Anki (2.1.55+) import it without any setup.
+ */
+export function toAnkiText(cards: ExportCard[], deckName = 'FF LMS Vocabulary'): string {
+  const header = ['#separator:tab', '#html:true', '#notetype:Basic', `#deck:${deckName}`, '#tags column:3']
+
+  const lines = cards.map(card => {
+    const front = [
+      `<b>${escapeHtml(card.text)}</b>`,
+      card.pronunciation ? `<br><i>${escapeHtml(card.pronunciation)}</i>` : ''
+    ].join('')
+
+    const source = describeSource(card.source)
+    const sourceLink =
+      source && card.source?.videoUrl
+        ? `<a href="${escapeHtml(card.source.videoUrl)}${card.source.startTime !== null ? `${card.source.videoUrl.includes('?') ? '&' : '?'}t=${Math.floor(card.source.startTime)}` : ''}">${escapeHtml(source)}</a>`
+        : source && escapeHtml(source)
+
+    const back = [
+      card.part_of_speech && `<i>${escapeHtml(card.part_of_speech)}</i>`,
+      escapeHtml(card.definition),
+      card.definition_vi && escapeHtml(card.definition_vi),
+      listValue(card.synonyms) && `Synonyms: ${escapeHtml(listValue(card.synonyms))}`,
+      card.example && `Example: ${escapeHtml(card.example)}`,
+      card.context && `Context: <i>${escapeHtml(card.context)}</i>`,
+      sourceLink && `Source: ${sourceLink}`
+    ]
+      .filter(Boolean)
+      .join('<br>')
+
+    const tags = ['ff-lms', card.item_type, card.difficulty].filter(Boolean).map(tag => ankiTag(tag!)).join(' ')
+
+    return [front, back, tags].join('\t')
+  })
+
+  return [...header, ...lines].join('\n')
+}
+
+// ---- Import ----
+
+const SEPARATORS: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  pipe: '|',
+  space: ' '
+}
+
+function splitRows(text: string, separator: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true
+    } else if (char === separator) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''))
+}
+
+/**
+ * Read a CSV file or an Anki text export. Anki "#key:value" header lines are
+ * honoured; otherwise the separator is guessed from the first line and the
+ * first row is treated as a header when it names known fields.
+ */
+export function parseImportFile(content: string): ParsedFile {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/)
+  let separator: string | null = null
+  let html = false
+  let headers: string[] | null = null
+
+  let bodyStart = 0
+  while (bodyStart < lines.length && lines[bodyStart].startsWith('#')) {
+    const [key, ...rest] = lines[bodyStart].slice(1).split(':')
+    const value = rest.join(':')
+    if (key === 'separator') separator = SEPARATORS[value.toLowerCase()] ?? value
+    if (key === 'html') html = value === 'true'
+    if (key === 'columns') headers = value.split(separator ?? '\t')
+    bodyStart++
+  }
+
+  const body = lines.slice(bodyStart).join('\n')
+  if (!separator) {
+    const firstLine = lines[bodyStart] || ''
+    separator = firstLine.includes('\t') ? '\t' : firstLine.split(';').length > firstLine.split(',').length ? ';' : ','
+  }
+
+  const rows = splitRows(body, separator)
+  if (!headers && rows.length > 0 && rows[0].filter(cell => fieldForHeader(cell)).length >= 1 && rows.length > 1) {
+    headers = rows.shift()!
+  }
+
+  return { headers, rows, html }
+}
+
+/**
+ * Best guess of which deck field each column holds. Without headers the
+ * first two columns are taken as front and back, like Anki's Basic cards.
+ */
+export function guessMapping(parsed: ParsedFile): FieldMapping {
+  const width = Math.max(parsed.headers?.length || 0, ...parsed.rows.slice(0, 20).map(row => row.length))
+  const mapping: FieldMapping = {}
+  const used = new Set<ImportField>()
+
+  for (let index = 0; index < width; index++) {
+    let field: ImportField | '' = parsed.headers ? fieldForHeader(parsed.headers[index] || '') : ''
+    if (!parsed.headers && index < 2) field = index === 0 ? 'text' : 'definition'
+    if (field && used.has(field)) field = ''
+    if (field) used.add(field)
+    mapping[index] = field
+  }
+
+  return mapping
+}
+
+const stripHtml = (value: string) =>
+  value
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .trim()
+
+const splitList = (value: string) =>
+  value
+    .split(/[;,]/)
+    .map(item => item.trim())
+    .filter(Boolean)
+
+/**
+ * Turn parsed rows into cards using the chosen mapping; rows without text are dropped
+ */
+export function applyMapping(parsed: ParsedFile, mapping: FieldMapping): ImportCard[] {
+  const cards: ImportCard[] = []
+
+  for (const row of parsed.rows) {
+    const card: Record<string, string | string[]> = {}
+
+    row.forEach((raw, index) => {
+      const field = mapping[index]
+      if (!field) return
+      const value = parsed.html ? stripHtml(raw) : raw.trim()
+      if (!value) return
+      if (field === 'text') {
+        // Fronts (ours included) put the pronunciation on a second line
+        card.text = value.split('\n')[0].trim()
+        return
+      }
+      card[field] = field === 'synonyms' || field === 'antonyms' ? splitList(value) : value
+    })
+
+    if (typeof card.text === 'string' && card.text) {
+      cards.push(card as ImportCard)
+    }
+  }
+
+  return cards
+}
+
+/**
+ * Key used to spot the same card twice: case and surrounding space are ignored
+ */
+export const duplicateKey = (text: string) => text.trim().toLowerCase()